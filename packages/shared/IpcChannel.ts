@@ -96,6 +96,15 @@ export enum IpcChannel {
   Mcp_Progress = 'mcp:progress',
   Mcp_GetServerLogs = 'mcp:get-server-logs',
   Mcp_ServerLog = 'mcp:server-log',
+  Mcp_GetToolCallHistory = 'mcp:get-tool-call-history',
+  Mcp_ClearToolCallHistory = 'mcp:clear-tool-call-history',
+  Mcp_GetServerHealth = 'mcp:get-server-health',
+  Mcp_ServerHealthChanged = 'mcp:server-health-changed',
+  Mcp_SetRoots = 'mcp:set-roots',
+  Mcp_SamplingRequest = 'mcp:sampling-request',
+  Mcp_ElicitationRequest = 'mcp:elicitation-request',
+  Mcp_ClientRequestResponse = 'mcp:client-request-response',
+  Mcp_ClientRequestCancelled = 'mcp:client-request-cancelled',
   // Python
   Python_Execute = 'python:execute',
 
@@ -166,6 +175,14 @@ export enum IpcChannel {
   KnowledgeBase_Remove = 'knowledge-base:remove',
   KnowledgeBase_Search = 'knowledge-base:search',
   KnowledgeBase_Rerank = 'knowledge-base:rerank',
+  KnowledgeBase_UpdateItemMetadata = 'knowledge-base:update-item-metadata',
+  KnowledgeBase_ExportBundle = 'knowledge-base:export-bundle',
+  KnowledgeBase_ReadBundle = 'knowledge-base:read-bundle',
+  KnowledgeBase_ImportBundle = 'knowledge-base:import-bundle',
+  KnowledgeBase_SyncDirectory = 'knowledge-base:sync-directory',
+  KnowledgeBase_WatchDirectory = 'knowledge-base:watch-directory',
+  KnowledgeBase_UnwatchDirectory = 'knowledge-base:unwatch-directory',
+  KnowledgeBase_DirectoryChanged = 'knowledge-base:directory-changed',
 
   //file
   File_Open = 'file:open',
@@ -247,6 +264,8 @@ export enum IpcChannel {
   Backup_CheckS3Connection = 'backup:checkS3Connection',
   Backup_CreateLanTransferBackup = 'backup:createLanTransferBackup',
   Backup_DeleteTempBackup = 'backup:deleteTempBackup',
+  Backup_GetStoredPassphrase = 'backup:getStoredPassphrase',
+  Backup_SetStoredPassphrase = 'backup:setStoredPassphrase',
 
   // zip
   Zip_Compress = 'zip:compress',
@@ -352,6 +371,11 @@ export enum IpcChannel {
   ApiServer_Restart = 'api-server:restart',
   ApiServer_GetStatus = 'api-server:get-status',
   ApiServer_Ready = 'api-server:ready',
+  ApiServer_KnowledgeRequest = 'api-server:knowledge-request',
+  ApiServer_KnowledgeResponse = 'api-server:knowledge-response',
+  ApiServer_GetRequestLog = 'api-server:get-request-log',
+  ApiServer_GetUsage = 'api-server:get-usage',
+  ApiServer_ClearRequestLog = 'api-server:clear-request-log',
   // NOTE: This api is not be used.
   ApiServer_GetConfig = 'api-server:get-config',
 
@@ -506,3 +506,7 @@ export const CHERRYIN_CONFIG = {
   REDIRECT_URI: 'cherrystudio://oauth/callback',
   SCOPES: 'openid profile email offline_access balance:read usage:read tokens:read tokens:write'
 }
+
+// Encrypted backup errors, matched by the renderer to prompt for the passphrase
+export const BACKUP_PASSPHRASE_REQUIRED = 'BACKUP_PASSPHRASE_REQUIRED'
+export const BACKUP_PASSPHRASE_INVALID = 'BACKUP_PASSPHRASE_INVALID'
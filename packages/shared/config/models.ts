@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Shared model classification patterns
+ *
+ * Used by the renderer model capability checks and by the local API server,
+ * which cannot import the renderer model config.
+ */
+
+// Embedding models
+export const EMBEDDING_REGEX =
+  /(?:^text-|embed|bge-|e5-|LLM2Vec|retrieval|uae-|gte-|jina-clip|jina-embeddings|voyage-)/i
+
+// Rerank models
+export const RERANKING_REGEX = /(?:rerank|re-rank|re-ranker|re-ranking|retrieval|retriever)/i
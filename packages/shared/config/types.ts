@@ -1,4 +1,10 @@
-import type { ProcessingStatus } from '@types'
+import type {
+  CreateMessageRequestParams,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  ElicitResult
+} from '@modelcontextprotocol/sdk/types.js'
+import type { KnowledgeBase, ProcessingStatus } from '@types'
 
 // =============================================================================
 // OpenClaw IPC Types
@@ -19,6 +25,36 @@ export type LoaderReturn = {
   messageSource?: 'preprocess' | 'embedding' | 'validation'
 }
 
+export type KnowledgeDirectorySyncReturn = LoaderReturn & {
+  added: number
+  updated: number
+  removed: number
+  syncedAt: number
+}
+
+export type KnowledgeDirectoryChangedEvent = {
+  baseId: string
+  itemId: string
+}
+
+/**
+ * Describes a knowledge base bundle, a zip holding an embedded base that can be imported elsewhere.
+ * Note items carry their content, the stored items only keep a reference.
+ */
+export type KnowledgeBundleManifest = {
+  format: 'cherry-studio-knowledge-bundle'
+  version: number
+  exportedAt: number
+  embedding: {
+    model: string
+    provider: string
+    name: string
+    // Length of the stored vectors, undefined for an empty base
+    dimensions?: number
+  }
+  base: KnowledgeBase
+}
+
 export type FileChangeEventType = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir' | 'refresh'
 
 export type FileChangeEvent = {
@@ -40,6 +76,66 @@ export type MCPServerLogEntry = {
   source?: string
 }
 
+// One MCP tool call, kept in the per-server call history
+export type MCPToolCallRecord = {
+  id: string
+  serverId: string
+  toolName: string
+  /** Redacted and truncated arguments */
+  args?: unknown
+  timestamp: number
+  durationMs: number
+  /** Size of the JSON serialized result in bytes */
+  resultSize: number
+  isError: boolean
+  error?: string
+  /** Served from the tool result cache */
+  cached: boolean
+}
+
+// Background health of a connected MCP server
+export type MCPServerHealth = {
+  serverId: string
+  /** restarting: waiting for or running an automatic restart, failed: restarts were given up */
+  status: 'healthy' | 'unhealthy' | 'restarting' | 'failed'
+  lastCheckedAt: number
+  latencyMs?: number
+  error?: string
+  /** Failed automatic restarts since the server was last healthy */
+  restartAttempts: number
+  nextRestartAt?: number
+}
+
+// Requests an MCP server sends to the client, answered by the user in the renderer
+export type MCPSamplingRequest = {
+  requestId: string
+  serverId: string
+  serverName: string
+  params: CreateMessageRequestParams
+}
+
+export type MCPElicitationRequest = {
+  requestId: string
+  serverId: string
+  serverName: string
+  params: ElicitRequestFormParams
+}
+
+export type MCPClientRequestResponse =
+  | { requestId: string; result: CreateMessageResult | ElicitResult }
+  // code is sent back to the server as the JSON-RPC error code, -1 means the user rejected the request
+  | { requestId: string; error: string; code?: number }
+
+/**
+ * Knowledge operations the local API server hands to the renderer, which owns the knowledge base state
+ * and builds the embedding and rerank clients.
+ */
+export type ApiServerKnowledgeRequest =
+  | { requestId: string; action: 'get-base-params'; baseId: string }
+  | { requestId: string; action: 'add-item'; baseId: string; type: 'url' | 'note'; content: string }
+
+export type ApiServerKnowledgeResponse = { requestId: string; result: unknown } | { requestId: string; error: string }
+
 export type WebviewKeyEvent = {
   webviewId: number
   key: string
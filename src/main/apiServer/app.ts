@@ -4,14 +4,20 @@ import express from 'express'
 import { v4 as uuidv4 } from 'uuid'
 
 import { LONG_POLL_TIMEOUT_MS } from './config/timeouts'
-import { authMiddleware } from './middleware/auth'
+import { authMiddleware, requireAllowedModel, requireScope } from './middleware/auth'
 import { errorHandler } from './middleware/error'
 import { setupOpenAPIDocumentation } from './middleware/openapi'
+import { rateLimitMiddleware } from './middleware/rateLimit'
+import { requestLogMiddleware } from './middleware/requestLog'
 import { agentsRoutes } from './routes/agents'
 import { chatRoutes } from './routes/chat'
+import { embeddingsRoutes } from './routes/embeddings'
+import { knowledgeRoutes } from './routes/knowledge'
 import { mcpRoutes } from './routes/mcp'
 import { messagesProviderRoutes, messagesRoutes } from './routes/messages'
 import { modelsRoutes } from './routes/models'
+import { responsesRoutes } from './routes/responses'
+import { usageRoutes } from './routes/usage'
 
 const logger = loggerService.withContext('ApiServer')
 
@@ -129,17 +135,32 @@ app.get('/', (_req, res) => {
 setupOpenAPIDocumentation(app)
 
 // Provider-specific messages route requires authentication
-app.use('/:provider/v1/messages', authMiddleware, extendMessagesTimeout, messagesProviderRoutes)
+app.use(
+  '/:provider/v1/messages',
+  requestLogMiddleware,
+  authMiddleware,
+  rateLimitMiddleware,
+  requireScope('chat'),
+  requireAllowedModel,
+  extendMessagesTimeout,
+  messagesProviderRoutes
+)
 
 // API v1 routes with auth
 const apiRouter = express.Router()
+apiRouter.use(requestLogMiddleware)
 apiRouter.use(authMiddleware)
-// Mount routes
-apiRouter.use('/chat', chatRoutes)
-apiRouter.use('/mcps', mcpRoutes)
-apiRouter.use('/messages', extendMessagesTimeout, messagesRoutes)
-apiRouter.use('/models', modelsRoutes)
-apiRouter.use('/agents', agentsRoutes)
+apiRouter.use(rateLimitMiddleware)
+// Mount routes, each gated by the scope it requires on named keys
+apiRouter.use('/chat', requireScope('chat'), requireAllowedModel, chatRoutes)
+apiRouter.use('/embeddings', requireScope('chat'), requireAllowedModel, embeddingsRoutes)
+apiRouter.use('/knowledge', requireScope('knowledge'), knowledgeRoutes)
+apiRouter.use('/mcps', requireScope('mcps'), mcpRoutes)
+apiRouter.use('/messages', requireScope('chat'), requireAllowedModel, extendMessagesTimeout, messagesRoutes)
+apiRouter.use('/models', requireScope('models'), modelsRoutes)
+apiRouter.use('/responses', requireScope('chat'), requireAllowedModel, extendMessagesTimeout, responsesRoutes)
+apiRouter.use('/agents', requireScope('agents'), agentsRoutes)
+apiRouter.use('/usage', usageRoutes)
 app.use('/v1', apiRouter)
 
 // Error handling (must be last)
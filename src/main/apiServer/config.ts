@@ -1,14 +1,24 @@
 import { API_SERVER_DEFAULTS } from '@shared/config/constant'
-import type { ApiServerConfig } from '@types'
+import type { ApiRequestLogSettings, ApiServerConfig, ApiServerKey } from '@types'
 import { v4 as uuidv4 } from 'uuid'
 
+import { CacheService } from '../services/CacheService'
 import { loggerService } from '../services/LoggerService'
 import { reduxService } from '../services/ReduxService'
 
 const logger = loggerService.withContext('ApiServerConfig')
 
+// Named keys are re-read often so that a revoked key stops working within seconds
+const KEYS_CACHE_KEY = 'api-server:keys'
+const KEYS_CACHE_TTL = 5 * 1000
+const REQUEST_LOG_CACHE_KEY = 'api-server:request-log'
+const DEFAULT_REQUEST_LOG_SETTINGS: ApiRequestLogSettings = { enabled: true, retentionDays: 30 }
+const LAST_USED_FLUSH_INTERVAL = 60 * 1000
+
 class ConfigManager {
   private _config: ApiServerConfig | null = null
+  private lastUsed: Record<string, number> = {}
+  private lastUsedTimer: NodeJS.Timeout | null = null
 
   private generateApiKey(): string {
     return `cs-sk-${uuidv4()}`
@@ -56,8 +66,66 @@ class ConfigManager {
   }
 
   async reload(): Promise<ApiServerConfig> {
+    CacheService.remove(KEYS_CACHE_KEY)
+    CacheService.remove(REQUEST_LOG_CACHE_KEY)
     return await this.load()
   }
+
+  async getKeys(): Promise<ApiServerKey[]> {
+    const cached = CacheService.get<ApiServerKey[]>(KEYS_CACHE_KEY)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const keys = await reduxService.select<ApiServerKey[] | undefined>('state.settings.apiServer.keys')
+      const result = Array.isArray(keys) ? keys : []
+      CacheService.set(KEYS_CACHE_KEY, result, KEYS_CACHE_TTL)
+      return result
+    } catch (error: any) {
+      logger.warn('Failed to load API keys from Redux', { error })
+      return []
+    }
+  }
+
+  async getRequestLogSettings(): Promise<ApiRequestLogSettings> {
+    const cached = CacheService.get<ApiRequestLogSettings>(REQUEST_LOG_CACHE_KEY)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const settings = await reduxService.select<ApiRequestLogSettings | undefined>(
+        'state.settings.apiServer.requestLog'
+      )
+      const result = { ...DEFAULT_REQUEST_LOG_SETTINGS, ...settings }
+      CacheService.set(REQUEST_LOG_CACHE_KEY, result, KEYS_CACHE_TTL)
+      return result
+    } catch (error: any) {
+      logger.warn('Failed to load request log settings from Redux', { error })
+      return DEFAULT_REQUEST_LOG_SETTINGS
+    }
+  }
+
+  /**
+   * Records that a named key was used. Timestamps are written back to the store in batches.
+   */
+  touchKey(id: string): void {
+    this.lastUsed[id] = Date.now()
+    if (this.lastUsedTimer) {
+      return
+    }
+
+    this.lastUsedTimer = setTimeout(() => {
+      const payload = this.lastUsed
+      this.lastUsed = {}
+      this.lastUsedTimer = null
+      reduxService.dispatch({ type: 'settings/setApiServerKeysLastUsed', payload }).catch((error) => {
+        logger.warn('Failed to save API key last used timestamps', { error })
+      })
+    }, LAST_USED_FLUSH_INTERVAL)
+    this.lastUsedTimer.unref?.()
+  }
 }
 
 export const config = new ConfigManager()
@@ -2,12 +2,14 @@ import type { NextFunction, Request, Response } from 'express'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { config } from '../../config'
-import { authMiddleware } from '../auth'
+import { authMiddleware, requireAllowedModel, requireScope } from '../auth'
 
 // Mock the config module
 vi.mock('../../config', () => ({
   config: {
-    get: vi.fn()
+    get: vi.fn(),
+    getKeys: vi.fn(async () => []),
+    touchKey: vi.fn()
   }
 }))
 
@@ -37,7 +39,8 @@ describe('authMiddleware', () => {
       header: vi.fn()
     }
     res = {
-      status: statusMock
+      status: statusMock,
+      locals: {}
     }
     next = vi.fn()
 
@@ -365,4 +368,116 @@ describe('authMiddleware', () => {
       expect(next).not.toHaveBeenCalled()
     })
   })
+
+  describe('Named keys', () => {
+    const namedKey = {
+      id: 'key-1',
+      name: 'CI',
+      key: 'cs-sk-named-key',
+      enabled: true,
+      scopes: ['models'],
+      allowedModels: ['openai:gpt-4o'],
+      requestsPerMinute: 10,
+      createdAt: 1
+    }
+
+    beforeEach(() => {
+      mockConfig.get.mockResolvedValue({ apiKey: 'valid-api-key-123' })
+      mockConfig.getKeys.mockResolvedValue([namedKey])
+    })
+
+    it('should authenticate with an enabled named key and record its usage', async () => {
+      ;(req.header as any).mockImplementation((header: string) => {
+        if (header === 'authorization') return `Bearer ${namedKey.key}`
+        return ''
+      })
+
+      await authMiddleware(req as Request, res as Response, next)
+
+      expect(next).toHaveBeenCalled()
+      expect(mockConfig.touchKey).toHaveBeenCalledWith('key-1')
+      expect(res.locals!.apiKey).toMatchObject({ id: 'key-1', scopes: ['models'], requestsPerMinute: 10 })
+      expect(res.locals!.apiKey.key).toBeUndefined()
+    })
+
+    it('should return 403 for a disabled named key', async () => {
+      mockConfig.getKeys.mockResolvedValue([{ ...namedKey, enabled: false }])
+      ;(req.header as any).mockImplementation((header: string) => {
+        if (header === 'x-api-key') return namedKey.key
+        return ''
+      })
+
+      await authMiddleware(req as Request, res as Response, next)
+
+      expect(statusMock).toHaveBeenCalledWith(403)
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should grant every scope to the primary key', async () => {
+      ;(req.header as any).mockImplementation((header: string) => {
+        if (header === 'x-api-key') return 'valid-api-key-123'
+        return ''
+      })
+
+      await authMiddleware(req as Request, res as Response, next)
+
+      expect(res.locals!.apiKey.scopes).toEqual(['chat', 'models', 'mcps', 'agents', 'knowledge'])
+      expect(mockConfig.touchKey).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requireScope', () => {
+    it('should pass when the key has the scope', () => {
+      res.locals = { apiKey: { id: 'key-1', name: 'CI', scopes: ['models'] } }
+
+      requireScope('models')(req as Request, res as Response, next)
+
+      expect(next).toHaveBeenCalled()
+    })
+
+    it('should return 403 when the key lacks the scope', () => {
+      res.locals = { apiKey: { id: 'key-1', name: 'CI', scopes: ['models'] } }
+
+      requireScope('chat')(req as Request, res as Response, next)
+
+      expect(statusMock).toHaveBeenCalledWith(403)
+      expect(jsonMock).toHaveBeenCalledWith({ error: expect.objectContaining({ code: 'insufficient_scope' }) })
+      expect(next).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requireAllowedModel', () => {
+    beforeEach(() => {
+      res.locals = { apiKey: { id: 'key-1', name: 'CI', scopes: ['chat'], allowedModels: ['openai:gpt-4o'] } }
+    })
+
+    it('should pass for an allowed model', () => {
+      req.body = { model: 'openai:gpt-4o' }
+      req.params = {}
+
+      requireAllowedModel(req as Request, res as Response, next)
+
+      expect(next).toHaveBeenCalled()
+    })
+
+    it('should qualify the model with the provider path parameter', () => {
+      req.body = { model: 'gpt-4o' }
+      req.params = { provider: 'openai' }
+
+      requireAllowedModel(req as Request, res as Response, next)
+
+      expect(next).toHaveBeenCalled()
+    })
+
+    it('should return 403 for a model outside the allowed list', () => {
+      req.body = { model: 'anthropic:claude-sonnet-4' }
+      req.params = {}
+
+      requireAllowedModel(req as Request, res as Response, next)
+
+      expect(statusMock).toHaveBeenCalledWith(403)
+      expect(jsonMock).toHaveBeenCalledWith({ error: expect.objectContaining({ code: 'model_not_allowed' }) })
+      expect(next).not.toHaveBeenCalled()
+    })
+  })
 })
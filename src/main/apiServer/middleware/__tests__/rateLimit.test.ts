@@ -0,0 +1,77 @@
+import { EventEmitter } from 'node:events'
+
+import type { NextFunction, Request, Response } from 'express'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { rateLimitMiddleware, resetRateLimits } from '../rateLimit'
+
+vi.mock('../../config', () => ({
+  config: {}
+}))
+
+const createResponse = (apiKey: Record<string, unknown>) => {
+  const res = Object.assign(new EventEmitter(), {
+    locals: { apiKey },
+    headers: {} as Record<string, string>,
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value
+    },
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json(body: unknown) {
+      res.body = body
+      return res
+    },
+    write: vi.fn<(chunk: string) => boolean>(() => true)
+  })
+  return res
+}
+
+const run = (res: ReturnType<typeof createResponse>) => {
+  const next = vi.fn() as NextFunction
+  rateLimitMiddleware({} as Request, res as unknown as Response, next)
+  return next
+}
+
+describe('rateLimitMiddleware', () => {
+  beforeEach(() => {
+    resetRateLimits()
+  })
+
+  it('passes keys without limits through', () => {
+    const next = run(createResponse({ id: 'primary', name: 'Primary', scopes: [] }))
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('rejects requests over the per-minute request limit', () => {
+    const key = { id: 'key-1', name: 'CI', scopes: [], requestsPerMinute: 2 }
+    expect(run(createResponse(key))).toHaveBeenCalled()
+    expect(run(createResponse(key))).toHaveBeenCalled()
+
+    const res = createResponse(key)
+    const next = run(res)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(res.statusCode).toBe(429)
+    expect(res.headers['Retry-After']).toBeDefined()
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: 'rate_limit_exceeded' }) })
+  })
+
+  it('counts streamed token usage against the token limit', () => {
+    const key = { id: 'key-2', name: 'CI', scopes: [], tokensPerMinute: 100 }
+    const first = createResponse(key)
+    expect(run(first)).toHaveBeenCalled()
+
+    first.write(`event: message_start\ndata: ${JSON.stringify({ message: { usage: { input_tokens: 40 } } })}\n\n`)
+    first.write(`event: message_delta\ndata: ${JSON.stringify({ usage: { output_tokens: 60 } })}\n\n`)
+    first.emit('close')
+
+    const second = createResponse(key)
+    expect(run(second)).not.toHaveBeenCalled()
+    expect(second.statusCode).toBe(429)
+  })
+})
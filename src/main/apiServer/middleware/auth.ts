@@ -1,8 +1,27 @@
+import type { ApiServerKey, ApiServerKeyScope } from '@types'
+import { API_SERVER_KEY_SCOPES } from '@types'
 import crypto from 'crypto'
 import type { NextFunction, Request, Response } from 'express'
 
 import { config } from '../config'
 
+/**
+ * The key a request was authenticated with, stored on `res.locals.apiKey`
+ */
+export type AuthenticatedApiKey = Pick<
+  ApiServerKey,
+  'id' | 'name' | 'scopes' | 'allowedModels' | 'allowedMcpServers' | 'requestsPerMinute' | 'tokensPerMinute'
+>
+
+export const PRIMARY_KEY_ID = 'primary'
+
+// The primary key from the server settings keeps full access and no limits
+const PRIMARY_KEY: AuthenticatedApiKey = {
+  id: PRIMARY_KEY_ID,
+  name: 'Primary',
+  scopes: [...API_SERVER_KEY_SCOPES]
+}
+
 const isValidToken = (token: string, apiKey: string): boolean => {
   if (token.length !== apiKey.length) {
     return false
@@ -12,6 +31,31 @@ const isValidToken = (token: string, apiKey: string): boolean => {
   return crypto.timingSafeEqual(tokenBuf, keyBuf)
 }
 
+const findKey = async (token: string, apiKey: string): Promise<AuthenticatedApiKey | null> => {
+  if (isValidToken(token, apiKey)) {
+    return PRIMARY_KEY
+  }
+
+  const keys = await config.getKeys()
+  const key = keys.find((k) => k.enabled && k.key && isValidToken(token, k.key))
+  if (!key) {
+    return null
+  }
+
+  config.touchKey(key.id)
+  return {
+    id: key.id,
+    name: key.name,
+    scopes: key.scopes,
+    allowedModels: key.allowedModels,
+    allowedMcpServers: key.allowedMcpServers,
+    requestsPerMinute: key.requestsPerMinute,
+    tokensPerMinute: key.tokensPerMinute
+  }
+}
+
+export const getAuthenticatedKey = (res: Response): AuthenticatedApiKey | undefined => res.locals.apiKey
+
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   const auth = req.header('authorization') || ''
   const xApiKey = req.header('x-api-key') || ''
@@ -27,6 +71,15 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     return res.status(403).json({ error: 'Forbidden' })
   }
 
+  const authenticate = async (token: string) => {
+    const key = await findKey(token, apiKey)
+    if (!key) {
+      return res.status(403).json({ error: 'Forbidden' })
+    }
+    res.locals.apiKey = key
+    return next()
+  }
+
   // Check API key first (priority)
   if (xApiKey) {
     const trimmedApiKey = xApiKey.trim()
@@ -34,11 +87,7 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       return res.status(401).json({ error: 'Unauthorized: empty x-api-key' })
     }
 
-    if (isValidToken(trimmedApiKey, apiKey)) {
-      return next()
-    } else {
-      return res.status(403).json({ error: 'Forbidden' })
-    }
+    return authenticate(trimmedApiKey)
   }
 
   // Fallback to Bearer token
@@ -55,12 +104,49 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       return res.status(401).json({ error: 'Unauthorized: empty bearer token' })
     }
 
-    if (isValidToken(token, apiKey)) {
-      return next()
-    } else {
-      return res.status(403).json({ error: 'Forbidden' })
-    }
+    return authenticate(token)
   }
 
   return res.status(401).json({ error: 'Unauthorized: invalid credentials format' })
 }
+
+/**
+ * Rejects requests whose key does not grant `scope`. Must run after authMiddleware.
+ */
+export const requireScope = (scope: ApiServerKeyScope) => (_req: Request, res: Response, next: NextFunction) => {
+  const key = getAuthenticatedKey(res)
+  if (!key?.scopes.includes(scope)) {
+    return res.status(403).json({
+      error: {
+        message: `API key '${key?.name ?? 'unknown'}' does not have the '${scope}' scope`,
+        type: 'permission_error',
+        code: 'insufficient_scope'
+      }
+    })
+  }
+  return next()
+}
+
+/**
+ * Rejects requests for models outside the key's allowed list. The model is read from the body,
+ * prefixed with the `provider` path parameter for provider-scoped routes.
+ */
+export const requireAllowedModel = (req: Request, res: Response, next: NextFunction) => {
+  const allowedModels = getAuthenticatedKey(res)?.allowedModels
+  const model = req.body?.model
+  if (!allowedModels?.length || typeof model !== 'string') {
+    return next()
+  }
+
+  const fullModelId = req.params.provider ? `${req.params.provider}:${model}` : model
+  if (!allowedModels.includes(fullModelId)) {
+    return res.status(403).json({
+      error: {
+        message: `Model '${fullModelId}' is not allowed for this API key`,
+        type: 'permission_error',
+        code: 'model_not_allowed'
+      }
+    })
+  }
+  return next()
+}
@@ -140,6 +140,76 @@ const swaggerOptions: swaggerJSDoc.Options = {
             }
           }
         },
+        ResponseRequest: {
+          type: 'object',
+          required: ['model', 'input'],
+          properties: {
+            model: {
+              type: 'string',
+              description: 'The model to use, in format provider:model-id'
+            },
+            input: {
+              oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'object' } }],
+              description: 'Text, or a list of message, function_call and function_call_output items'
+            },
+            instructions: { type: 'string' },
+            previous_response_id: {
+              type: 'string',
+              description: 'Continue the conversation of a stored response'
+            },
+            store: { type: 'boolean', default: true },
+            stream: { type: 'boolean', default: false },
+            max_output_tokens: { type: 'integer', minimum: 1 },
+            temperature: { type: 'number', minimum: 0, maximum: 2 },
+            top_p: { type: 'number' },
+            reasoning: {
+              type: 'object',
+              properties: { effort: { type: 'string', enum: ['minimal', 'low', 'medium', 'high'] } }
+            },
+            tools: {
+              type: 'array',
+              description: 'Only function tools are supported',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['function'] },
+                  name: { type: 'string' },
+                  description: { type: 'string' },
+                  parameters: { type: 'object' },
+                  strict: { type: 'boolean' }
+                }
+              }
+            },
+            tool_choice: { oneOf: [{ type: 'string' }, { type: 'object' }] },
+            text: { type: 'object', description: 'Output format, supports json_schema and json_object' },
+            metadata: { type: 'object', additionalProperties: { type: 'string' } }
+          }
+        },
+        Response: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            object: { type: 'string', example: 'response' },
+            created_at: { type: 'integer' },
+            status: { type: 'string', enum: ['completed', 'incomplete', 'in_progress', 'failed'] },
+            model: { type: 'string' },
+            previous_response_id: { type: 'string', nullable: true },
+            output: {
+              type: 'array',
+              description: 'reasoning, message and function_call items',
+              items: { type: 'object' }
+            },
+            output_text: { type: 'string' },
+            usage: {
+              type: 'object',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+                total_tokens: { type: 'integer' }
+              }
+            }
+          }
+        },
         Model: {
           type: 'object',
           properties: {
@@ -162,6 +232,99 @@ const swaggerOptions: swaggerJSDoc.Options = {
             env: { type: 'object' },
             disabled: { type: 'boolean' }
           }
+        },
+        KnowledgeBase: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            model: { type: 'string', description: 'Embedding model in format provider:model-id' },
+            rerank_model: { type: 'string', description: 'Rerank model in format provider:model-id' },
+            dimensions: { type: 'integer' },
+            document_count: { type: 'integer', description: 'Default number of results returned by a search' },
+            threshold: { type: 'number', description: 'Default minimum relevance score' },
+            item_count: { type: 'integer' },
+            created_at: { type: 'integer' },
+            updated_at: { type: 'integer' }
+          }
+        },
+        KnowledgeSearchRequest: {
+          type: 'object',
+          required: ['query'],
+          properties: {
+            query: { type: 'string' },
+            top_k: {
+              type: 'integer',
+              minimum: 1,
+              description:
+                "Maximum number of results, defaults to the base's document count and cannot exceed it (30 when the base has none)"
+            },
+            threshold: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: "Minimum relevance score, defaults to the base's threshold"
+            },
+            rerank: {
+              type: 'boolean',
+              default: false,
+              description: "Rerank results with the base's rerank model"
+            }
+          }
+        },
+        KnowledgeSearchResult: {
+          type: 'object',
+          properties: {
+            content: { type: 'string' },
+            score: { type: 'number' },
+            source: { type: 'string' },
+            metadata: { type: 'object' }
+          }
+        },
+        KnowledgeItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['url', 'note'] },
+            content: { type: 'string' },
+            processingStatus: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed'] },
+            created_at: { type: 'integer' },
+            updated_at: { type: 'integer' }
+          }
+        },
+        UsageTotals: {
+          type: 'object',
+          properties: {
+            requests: { type: 'integer' },
+            errors: { type: 'integer' },
+            input_tokens: { type: 'integer' },
+            output_tokens: { type: 'integer' },
+            cost: {
+              type: 'object',
+              description: 'Cost keyed by currency symbol, from the model pricing',
+              additionalProperties: { type: 'number' }
+            }
+          }
+        },
+        UsageResponse: {
+          type: 'object',
+          properties: {
+            object: { type: 'string', example: 'usage' },
+            from: { type: 'integer' },
+            to: { type: 'integer' },
+            group_by: { type: 'string', enum: ['key', 'model', 'provider', 'route', 'day'] },
+            total: { $ref: '#/components/schemas/UsageTotals' },
+            data: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/UsageTotals' },
+                  { type: 'object', properties: { group: { type: 'string' } } }
+                ]
+              }
+            }
+          }
         }
       }
     },
@@ -0,0 +1,96 @@
+import type { NextFunction, Request, Response } from 'express'
+
+import { trackResponseUsage } from '../utils/usage'
+import { getAuthenticatedKey } from './auth'
+
+const WINDOW_MS = 60 * 1000
+
+interface KeyWindow {
+  requests: number[]
+  tokens: { at: number; count: number }[]
+}
+
+const windows = new Map<string, KeyWindow>()
+
+const prune = (window: KeyWindow, now: number) => {
+  const cutoff = now - WINDOW_MS
+  while (window.requests.length && window.requests[0] <= cutoff) {
+    window.requests.shift()
+  }
+  while (window.tokens.length && window.tokens[0].at <= cutoff) {
+    window.tokens.shift()
+  }
+}
+
+const rateLimited = (res: Response, message: string, retryAfterMs: number) => {
+  res.setHeader('Retry-After', Math.max(1, Math.ceil(retryAfterMs / 1000)).toString())
+  return res.status(429).json({
+    error: {
+      message,
+      type: 'rate_limit_error',
+      code: 'rate_limit_exceeded'
+    }
+  })
+}
+
+/**
+ * Enforces the per-key request and token limits over a sliding one-minute window.
+ * Token usage is only known after a response completes, so the token limit blocks
+ * new requests once the tokens already spent in the window reach it.
+ */
+export const rateLimitMiddleware = (_req: Request, res: Response, next: NextFunction) => {
+  const key = getAuthenticatedKey(res)
+  if (!key || (!key.requestsPerMinute && !key.tokensPerMinute)) {
+    return next()
+  }
+
+  const now = Date.now()
+  let window = windows.get(key.id)
+  if (!window) {
+    window = { requests: [], tokens: [] }
+    windows.set(key.id, window)
+  }
+  prune(window, now)
+
+  if (key.requestsPerMinute) {
+    if (window.requests.length >= key.requestsPerMinute) {
+      return rateLimited(
+        res,
+        `Rate limit of ${key.requestsPerMinute} requests per minute exceeded for API key '${key.name}'`,
+        window.requests[0] + WINDOW_MS - now
+      )
+    }
+    res.setHeader('X-RateLimit-Limit-Requests', key.requestsPerMinute.toString())
+    res.setHeader('X-RateLimit-Remaining-Requests', (key.requestsPerMinute - window.requests.length - 1).toString())
+  }
+
+  if (key.tokensPerMinute) {
+    const used = window.tokens.reduce((sum, entry) => sum + entry.count, 0)
+    if (used >= key.tokensPerMinute) {
+      return rateLimited(
+        res,
+        `Rate limit of ${key.tokensPerMinute} tokens per minute exceeded for API key '${key.name}'`,
+        window.tokens[0].at + WINDOW_MS - now
+      )
+    }
+    res.setHeader('X-RateLimit-Limit-Tokens', key.tokensPerMinute.toString())
+    res.setHeader('X-RateLimit-Remaining-Tokens', (key.tokensPerMinute - used).toString())
+
+    const keyWindow = window
+    trackResponseUsage(res, (usage) => {
+      if (usage) {
+        keyWindow.tokens.push({ at: Date.now(), count: usage.inputTokens + usage.outputTokens })
+      }
+    })
+  }
+
+  window.requests.push(now)
+  return next()
+}
+
+/**
+ * Drops the rate limit windows, e.g. when the server restarts
+ */
+export const resetRateLimits = () => {
+  windows.clear()
+}
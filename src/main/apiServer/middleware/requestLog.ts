@@ -0,0 +1,58 @@
+import type { NextFunction, Request, Response } from 'express'
+import { v4 as uuidv4 } from 'uuid'
+
+import { loggerService } from '../../services/LoggerService'
+import { apiRequestLogService } from '../services/requestLog'
+import { trackResponseUsage } from '../utils/usage'
+import { getAuthenticatedKey } from './auth'
+
+const logger = loggerService.withContext('ApiServerRequestLog')
+
+// Model ids are `provider:model_id`, except on provider-scoped routes where the provider is a path parameter
+const parseModel = (req: Request): { provider?: string; model?: string } => {
+  const model = req.body?.model
+  if (typeof model !== 'string' || !model) {
+    return {}
+  }
+  if (req.params.provider) {
+    return { provider: req.params.provider, model }
+  }
+
+  const separator = model.indexOf(':')
+  return separator > 0 ? { provider: model.slice(0, separator), model: model.slice(separator + 1) } : { model }
+}
+
+/**
+ * Records every request in the persisted request log once its response is closed.
+ * Mount before authMiddleware so rejected requests are logged too.
+ */
+export const requestLogMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const start = Date.now()
+  const route = req.originalUrl.split('?')[0]
+  // Read up front, express resets req.params once routing moves on
+  const { provider, model } = parseModel(req)
+  const stream = req.body?.stream === true ? true : undefined
+
+  trackResponseUsage(res, (usage) => {
+    const key = getAuthenticatedKey(res)
+    apiRequestLogService
+      .record({
+        id: uuidv4(),
+        timestamp: start,
+        method: req.method,
+        route,
+        status: res.statusCode,
+        latencyMs: Date.now() - start,
+        keyId: key?.id,
+        keyName: key?.name,
+        provider,
+        model,
+        stream,
+        inputTokens: usage?.inputTokens,
+        outputTokens: usage?.outputTokens
+      })
+      .catch((error) => logger.warn('Failed to record API request', { error }))
+  })
+
+  next()
+}
@@ -0,0 +1,85 @@
+import type { AddressInfo } from 'node:net'
+
+import express from 'express'
+import type { Server } from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mcpApiService } from '../../services/mcp'
+import { mcpRoutes } from '../mcp'
+
+vi.mock('../../config', () => ({
+  config: {
+    get: vi.fn(),
+    getKeys: vi.fn(async () => []),
+    touchKey: vi.fn()
+  }
+}))
+
+vi.mock('../../services/mcp', () => ({
+  mcpApiService: {
+    getAllServers: vi.fn(),
+    getServerInfo: vi.fn(),
+    getServerById: vi.fn(),
+    handleRequest: vi.fn()
+  }
+}))
+
+vi.mock('../../services/mcpGateway', () => ({
+  mcpGatewayService: {
+    handleRequest: vi.fn()
+  }
+}))
+
+describe('MCP routes', () => {
+  let server: Server
+  let baseUrl: string
+
+  // Stands in for authMiddleware, the allowed servers come from a header
+  const request = (path: string, allowedServers?: string[]) =>
+    fetch(`${baseUrl}${path}`, {
+      headers: allowedServers ? { 'x-allowed-servers': allowedServers.join(',') } : {}
+    })
+
+  beforeAll(async () => {
+    const app = express()
+    app.use((req, res, next) => {
+      const allowedServers = req.header('x-allowed-servers')
+      res.locals.apiKey = { id: 'key-1', name: 'key-1', scopes: ['mcp'], allowedMcpServers: allowedServers?.split(',') }
+      next()
+    })
+    app.use('/v1/mcps', mcpRoutes)
+
+    server = app.listen(0)
+    await new Promise((resolve) => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mcpApiService.getAllServers).mockResolvedValue({ servers: {} })
+    vi.mocked(mcpApiService.getServerInfo).mockResolvedValue({ id: 'srv-2', name: 'files', tools: [] } as any)
+  })
+
+  it('lists only the servers allowed for the key', async () => {
+    await request('/v1/mcps', ['srv-1'])
+    expect(vi.mocked(mcpApiService.getAllServers).mock.calls[0][1]).toEqual(['srv-1'])
+
+    await request('/v1/mcps')
+    expect(vi.mocked(mcpApiService.getAllServers).mock.calls[1][1]).toBeUndefined()
+  })
+
+  it('hides the details of servers outside the allowed list', async () => {
+    const response = await request('/v1/mcps/srv-2', ['srv-1'])
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error.code).toBe('server_not_found')
+    expect(mcpApiService.getServerInfo).not.toHaveBeenCalled()
+
+    expect((await request('/v1/mcps/srv-2', ['srv-1', 'srv-2'])).status).toBe(200)
+    expect((await request('/v1/mcps/srv-2')).status).toBe(200)
+  })
+})
@@ -0,0 +1,140 @@
+import type { AddressInfo } from 'node:net'
+
+import express from 'express'
+import type { Server } from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { PRIMARY_KEY_ID } from '../../middleware/auth'
+import { chatCompletionService } from '../../services/chat-completion'
+import type { StoredResponse } from '../../services/responseStore'
+import { responsesRoutes } from '../responses'
+
+const stored = new Map<string, StoredResponse>()
+
+vi.mock('../../config', () => ({
+  config: {
+    get: vi.fn(),
+    getKeys: vi.fn(async () => []),
+    touchKey: vi.fn()
+  }
+}))
+
+vi.mock('../../services/responseStore', () => ({
+  responseStore: {
+    get: vi.fn(async (id: string) => stored.get(id) ?? null),
+    save: vi.fn(async (response: StoredResponse) => {
+      stored.set(response.response.id, response)
+    }),
+    delete: vi.fn(async (id: string) => stored.delete(id))
+  }
+}))
+
+vi.mock('../../services/chat-completion', () => ({
+  chatCompletionService: {
+    processCompletion: vi.fn()
+  }
+}))
+
+vi.mock('../chat', () => ({
+  mapChatCompletionError: vi.fn(() => ({ status: 500, body: { error: { message: 'error' } } }))
+}))
+
+const storeResponse = (id: string, keyId: string) => {
+  stored.set(id, {
+    response: { id, object: 'response', model: 'openai:gpt-4o', output: [] } as unknown as StoredResponse['response'],
+    messages: [{ role: 'user', content: `${keyId} conversation` }],
+    keyId
+  })
+}
+
+describe('responses routes', () => {
+  let server: Server
+  let baseUrl: string
+
+  // Stands in for authMiddleware, the key id comes from a header
+  const request = (path: string, keyId: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'content-type': 'application/json', 'x-key-id': keyId }
+    })
+
+  beforeAll(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use((req, res, next) => {
+      const id = req.header('x-key-id')!
+      res.locals.apiKey = { id, name: id, scopes: ['chat'] }
+      next()
+    })
+    app.use('/v1/responses', responsesRoutes)
+
+    server = app.listen(0)
+    await new Promise((resolve) => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stored.clear()
+    storeResponse('resp_a', 'key-a')
+    storeResponse('resp_b', 'key-b')
+  })
+
+  it('only returns responses created by the same key', async () => {
+    expect((await request('/v1/responses/resp_a', 'key-a')).status).toBe(200)
+
+    const response = await request('/v1/responses/resp_a', 'key-b')
+    expect(response.status).toBe(404)
+    expect((await response.json()).error.code).toBe('response_not_found')
+  })
+
+  it('does not delete responses created by another key', async () => {
+    expect((await request('/v1/responses/resp_b', 'key-a', { method: 'DELETE' })).status).toBe(404)
+    expect(stored.has('resp_b')).toBe(true)
+
+    expect((await request('/v1/responses/resp_b', 'key-b', { method: 'DELETE' })).status).toBe(200)
+    expect(stored.has('resp_b')).toBe(false)
+  })
+
+  it('does not continue conversations of another key', async () => {
+    const response = await request('/v1/responses', 'key-b', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'openai:gpt-4o', input: 'Hello', previous_response_id: 'resp_a' })
+    })
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error.code).toBe('previous_response_not_found')
+    expect(chatCompletionService.processCompletion).not.toHaveBeenCalled()
+  })
+
+  it('stores new responses with the key that created them', async () => {
+    vi.mocked(chatCompletionService.processCompletion).mockResolvedValue({
+      response: {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'openai:gpt-4o',
+        choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content: 'Hi' } }]
+      }
+    } as any)
+
+    const response = await request('/v1/responses', 'key-a', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'openai:gpt-4o', input: 'Hello', previous_response_id: 'resp_a' })
+    })
+    const { id } = await response.json()
+
+    expect(stored.get(id)?.keyId).toBe('key-a')
+    expect(stored.get(id)?.messages[0]).toEqual({ role: 'user', content: 'key-a conversation' })
+    expect((await request(`/v1/responses/${id}`, 'key-b')).status).toBe(404)
+  })
+
+  it('gives the primary key access to all responses', async () => {
+    expect((await request('/v1/responses/resp_a', PRIMARY_KEY_ID)).status).toBe(200)
+    expect((await request('/v1/responses/resp_b', PRIMARY_KEY_ID)).status).toBe(200)
+  })
+})
@@ -21,7 +21,7 @@ interface ErrorResponseBody {
   }
 }
 
-const mapChatCompletionError = (error: unknown): { status: number; body: ErrorResponseBody } => {
+export const mapChatCompletionError = (error: unknown): { status: number; body: ErrorResponseBody } => {
   if (error instanceof ChatCompletionValidationError) {
     logger.warn('Chat completion validation error', {
       errors: error.errors
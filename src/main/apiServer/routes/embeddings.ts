@@ -0,0 +1,218 @@
+import type { EmbeddingCreateParams } from '@cherrystudio/openai/resources'
+import type { Request, Response } from 'express'
+import express from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { EmbeddingsModelError, embeddingsService, EmbeddingsValidationError } from '../services/embeddings'
+
+const logger = loggerService.withContext('ApiServerEmbeddingsRoutes')
+
+const router = express.Router()
+
+interface ErrorResponseBody {
+  error: {
+    message: string
+    type: string
+    code: string
+  }
+}
+
+const mapEmbeddingsError = (error: unknown): { status: number; body: ErrorResponseBody } => {
+  if (error instanceof EmbeddingsValidationError) {
+    logger.warn('Embeddings validation error', { errors: error.errors })
+    return {
+      status: 400,
+      body: {
+        error: {
+          message: error.errors.join('; '),
+          type: 'invalid_request_error',
+          code: 'validation_failed'
+        }
+      }
+    }
+  }
+
+  if (error instanceof EmbeddingsModelError) {
+    logger.warn('Embeddings model error', error.error)
+    return {
+      status: 400,
+      body: {
+        error: {
+          message: error.error.message,
+          type: 'invalid_request_error',
+          code: error.error.code
+        }
+      }
+    }
+  }
+
+  if (error instanceof Error) {
+    let statusCode = 500
+    let errorType = 'server_error'
+    let errorCode = 'internal_error'
+
+    if (error.message.includes('API key') || error.message.includes('authentication')) {
+      statusCode = 401
+      errorType = 'authentication_error'
+      errorCode = 'invalid_api_key'
+    } else if (error.message.includes('rate limit') || error.message.includes('quota')) {
+      statusCode = 429
+      errorType = 'rate_limit_error'
+      errorCode = 'rate_limit_exceeded'
+    } else if (error.message.includes('timeout') || error.message.includes('connection')) {
+      statusCode = 502
+      errorType = 'server_error'
+      errorCode = 'upstream_error'
+    }
+
+    logger.error('Embeddings error', { error })
+
+    return {
+      status: statusCode,
+      body: {
+        error: {
+          message: error.message || 'Internal server error',
+          type: errorType,
+          code: errorCode
+        }
+      }
+    }
+  }
+
+  logger.error('Embeddings unknown error', { error })
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        message: 'Internal server error',
+        type: 'server_error',
+        code: 'internal_error'
+      }
+    }
+  }
+}
+
+/**
+ * @swagger
+ * /v1/embeddings:
+ *   post:
+ *     summary: Create embeddings
+ *     description: Create embedding vectors for one or more inputs, compatible with OpenAI API
+ *     tags: [Embeddings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - model
+ *               - input
+ *             properties:
+ *               model:
+ *                 type: string
+ *                 description: Model ID in format "provider:model_id"
+ *                 example: "my-openai:text-embedding-3-small"
+ *               input:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: string
+ *                 description: Text or batch of texts to embed
+ *               dimensions:
+ *                 type: integer
+ *                 description: Number of dimensions of the output embeddings, if supported by the model
+ *               encoding_format:
+ *                 type: string
+ *                 enum: [float, base64]
+ *                 default: float
+ *     responses:
+ *       200:
+ *         description: Embeddings response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 model:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       object:
+ *                         type: string
+ *                         example: embedding
+ *                       index:
+ *                         type: integer
+ *                       embedding:
+ *                         type: array
+ *                         items:
+ *                           type: number
+ *                 usage:
+ *                   type: object
+ *                   properties:
+ *                     prompt_tokens:
+ *                       type: integer
+ *                     total_tokens:
+ *                       type: integer
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Rate limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const request: EmbeddingCreateParams = req.body
+
+    if (!request) {
+      return res.status(400).json({
+        error: {
+          message: 'Request body is required',
+          type: 'invalid_request_error',
+          code: 'missing_body'
+        }
+      })
+    }
+
+    logger.debug('Embeddings request', {
+      model: request.model,
+      inputs: Array.isArray(request.input) ? request.input.length : 1,
+      dimensions: request.dimensions
+    })
+
+    const { response } = await embeddingsService.createEmbeddings(request)
+    return res.json(response)
+  } catch (error: unknown) {
+    const { status, body } = mapEmbeddingsError(error)
+    return res.status(status).json(body)
+  }
+})
+
+export { router as embeddingsRoutes }
@@ -0,0 +1,231 @@
+import { ApiKnowledgeAddItemRequestSchema, ApiKnowledgeSearchRequestSchema } from '@types'
+import type { Request, Response } from 'express'
+import express from 'express'
+import type * as z from 'zod'
+
+import { loggerService } from '../../services/LoggerService'
+import { KnowledgeApiError, knowledgeApiService } from '../services/knowledge'
+
+const logger = loggerService.withContext('ApiServerKnowledgeRoutes')
+
+const router = express.Router()
+
+const invalidRequest = (res: Response, issues: z.core.$ZodIssue[]) =>
+  res.status(400).json({
+    error: {
+      message: 'Invalid request body',
+      type: 'invalid_request_error',
+      code: 'invalid_parameters',
+      details: issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message
+      }))
+    }
+  })
+
+const handleError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof KnowledgeApiError) {
+    logger.warn(message, { error: error.message, code: error.code })
+    return res.status(error.status).json({
+      error: {
+        message: error.message,
+        type: error.status === 404 ? 'not_found' : 'invalid_request_error',
+        code: error.code
+      }
+    })
+  }
+
+  logger.error(message, { error })
+  return res.status(500).json({
+    error: {
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      type: 'server_error',
+      code: 'internal_error'
+    }
+  })
+}
+
+/**
+ * @swagger
+ * /v1/knowledge:
+ *   get:
+ *     summary: List knowledge bases
+ *     description: Returns all knowledge bases configured in Cherry Studio
+ *     tags: [Knowledge]
+ *     responses:
+ *       200:
+ *         description: List of knowledge bases
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/KnowledgeBase'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const bases = await knowledgeApiService.listBases()
+    return res.json({ object: 'list', data: bases })
+  } catch (error: unknown) {
+    return handleError(res, error, 'Failed to list knowledge bases')
+  }
+})
+
+/**
+ * @swagger
+ * /v1/knowledge/{baseId}/search:
+ *   post:
+ *     summary: Search a knowledge base
+ *     description: Returns the chunks most relevant to the query, optionally reranked with the base's rerank model
+ *     tags: [Knowledge]
+ *     parameters:
+ *       - in: path
+ *         name: baseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Knowledge base ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KnowledgeSearchRequest'
+ *     responses:
+ *       200:
+ *         description: Search results ordered by relevance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/KnowledgeSearchResult'
+ *       400:
+ *         description: Invalid request, or rerank requested for a base without a rerank model
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Knowledge base not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:baseId/search', async (req: Request, res: Response) => {
+  const parsed = ApiKnowledgeSearchRequestSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return invalidRequest(res, parsed.error.issues)
+  }
+
+  try {
+    const results = await knowledgeApiService.search(req.params.baseId, parsed.data)
+    return res.json({ object: 'list', data: results })
+  } catch (error: unknown) {
+    return handleError(res, error, 'Failed to search knowledge base')
+  }
+})
+
+/**
+ * @swagger
+ * /v1/knowledge/{baseId}/items:
+ *   post:
+ *     summary: Add an item to a knowledge base
+ *     description: Adds a URL or a note to the knowledge base. The item is embedded in the background.
+ *     tags: [Knowledge]
+ *     parameters:
+ *       - in: path
+ *         name: baseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Knowledge base ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             oneOf:
+ *               - type: object
+ *                 required: [type, url]
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [url]
+ *                   url:
+ *                     type: string
+ *                     format: uri
+ *               - type: object
+ *                 required: [type, content]
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [note]
+ *                   content:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Item added and queued for processing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KnowledgeItem'
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Knowledge base not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:baseId/items', async (req: Request, res: Response) => {
+  const parsed = ApiKnowledgeAddItemRequestSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return invalidRequest(res, parsed.error.issues)
+  }
+
+  try {
+    const item = await knowledgeApiService.addItem(req.params.baseId, parsed.data)
+    return res.status(201).json(item)
+  } catch (error: unknown) {
+    return handleError(res, error, 'Failed to add knowledge item')
+  }
+})
+
+export { router as knowledgeRoutes }
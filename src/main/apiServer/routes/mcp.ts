@@ -2,18 +2,36 @@ import type { Request, Response } from 'express'
 import express from 'express'
 
 import { loggerService } from '../../services/LoggerService'
+import { getAuthenticatedKey } from '../middleware/auth'
 import { mcpApiService } from '../services/mcp'
+import { mcpGatewayService } from '../services/mcpGateway'
 
 const logger = loggerService.withContext('ApiServerMCPRoutes')
 
 const router = express.Router()
 
+// Keys limited to some MCP servers cannot see or use the other servers
+const isServerAllowed = (res: Response, serverId: string): boolean => {
+  const allowedServers = getAuthenticatedKey(res)?.allowedMcpServers
+  return !allowedServers?.length || allowedServers.includes(serverId)
+}
+
+const sendServerNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    error: {
+      message: 'MCP server not found',
+      type: 'not_found',
+      code: 'server_not_found'
+    }
+  })
+
 /**
  * @swagger
  * /v1/mcps:
  *   get:
  *     summary: List MCP servers
- *     description: Get a list of all configured Model Context Protocol servers
+ *     description: Get a list of all configured Model Context Protocol servers. API keys limited to some servers only see those.
  *     tags: [MCP]
  *     responses:
  *       200:
@@ -45,7 +63,7 @@ const router = express.Router()
 router.get('/', async (req: Request, res: Response) => {
   try {
     logger.debug('Listing MCP servers')
-    const servers = await mcpApiService.getAllServers(req)
+    const servers = await mcpApiService.getAllServers(req, getAuthenticatedKey(res)?.allowedMcpServers)
     return res.json({
       success: true,
       data: servers
@@ -63,6 +81,52 @@ router.get('/', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * @swagger
+ * /v1/mcps/mcp:
+ *   post:
+ *     summary: Connect to the MCP gateway
+ *     description: |
+ *       Streamable HTTP MCP endpoint aggregating the tools, prompts and resources of every active MCP server.
+ *       Tool and prompt names are namespaced as `mcp__{server}__{name}`. API keys restricted to a set of
+ *       MCP servers only see those servers.
+ *     tags: [MCP]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: JSON-RPC message or batch
+ *     responses:
+ *       200:
+ *         description: JSON-RPC response, or an event stream of responses
+ *       403:
+ *         description: The MCP session belongs to a different API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.all('/mcp', async (req: Request, res: Response) => {
+  const key = getAuthenticatedKey(res)
+  try {
+    return await mcpGatewayService.handleRequest(req, res, key?.id, key?.allowedMcpServers)
+  } catch (error: any) {
+    logger.error('Error handling MCP gateway request', { error })
+    if (res.headersSent) {
+      return res.end()
+    }
+    return res.status(500).json({
+      error: {
+        message: `Failed to handle MCP gateway request: ${error.message}`,
+        type: 'server_error',
+        code: 'internal_error'
+      }
+    })
+  }
+})
+
 /**
  * @swagger
  * /v1/mcps/{server_id}:
@@ -107,17 +171,13 @@ router.get('/:server_id', async (req: Request, res: Response) => {
     logger.debug('Get MCP server info request received', {
       serverId: req.params.server_id
     })
+    if (!isServerAllowed(res, req.params.server_id)) {
+      return sendServerNotFound(res)
+    }
     const server = await mcpApiService.getServerInfo(req.params.server_id)
     if (!server) {
       logger.warn('MCP server not found', { serverId: req.params.server_id })
-      return res.status(404).json({
-        success: false,
-        error: {
-          message: 'MCP server not found',
-          type: 'not_found',
-          code: 'server_not_found'
-        }
-      })
+      return sendServerNotFound(res)
     }
     return res.json({
       success: true,
@@ -138,18 +198,21 @@ router.get('/:server_id', async (req: Request, res: Response) => {
 
 // Connect to MCP server
 router.all('/:server_id/mcp', async (req: Request, res: Response) => {
-  const server = await mcpApiService.getServerById(req.params.server_id)
-  if (!server) {
-    logger.warn('MCP server not found', { serverId: req.params.server_id })
-    return res.status(404).json({
+  if (!isServerAllowed(res, req.params.server_id)) {
+    return res.status(403).json({
       success: false,
       error: {
-        message: 'MCP server not found',
-        type: 'not_found',
-        code: 'server_not_found'
+        message: 'MCP server is not allowed for this API key',
+        type: 'permission_error',
+        code: 'server_not_allowed'
       }
     })
   }
+  const server = await mcpApiService.getServerById(req.params.server_id)
+  if (!server) {
+    logger.warn('MCP server not found', { serverId: req.params.server_id })
+    return sendServerNotFound(res)
+  }
   return await mcpApiService.handleRequest(req, res, server)
 })
 
@@ -4,6 +4,7 @@ import type { Request, Response } from 'express'
 import express from 'express'
 
 import { loggerService } from '../../services/LoggerService'
+import { getAuthenticatedKey } from '../middleware/auth'
 import { modelsService } from '../services/models'
 
 const logger = loggerService.withContext('ApiServerModelsRoutes')
@@ -26,6 +27,12 @@ const router = express
    *           enum: [openai, openai-response, anthropic, gemini]
    *         description: Filter models by provider type
    *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [chat, embedding]
+   *         description: Only return embedding models, or only non-embedding models
+   *       - in: query
    *         name: offset
    *         schema:
    *           type: integer
@@ -98,7 +105,7 @@ const router = express
       }
 
       const filter = filterResult.data
-      const response = await modelsService.getModels(filter)
+      const response = await modelsService.getModels(filter, getAuthenticatedKey(res)?.allowedModels)
 
       if (response.data.length === 0) {
         logger.warn('No models available from providers', { filter })
@@ -0,0 +1,210 @@
+import type { ResponseCreateParams } from '@cherrystudio/openai/resources/responses/responses'
+import type { Request, Response } from 'express'
+import express from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { getAuthenticatedKey } from '../middleware/auth'
+import { ResponsesApiError, responsesService } from '../services/responses'
+import { ResponsesValidationError } from '../services/responses-translator'
+import { mapChatCompletionError } from './chat'
+
+const logger = loggerService.withContext('ApiServerResponsesRoutes')
+
+const router = express.Router()
+
+const sendError = (res: Response, error: unknown) => {
+  if (error instanceof ResponsesValidationError) {
+    logger.warn('Responses validation error', { errors: error.errors })
+    return res.status(400).json({
+      error: {
+        message: error.errors.join('; '),
+        type: 'invalid_request_error',
+        code: 'validation_failed'
+      }
+    })
+  }
+
+  if (error instanceof ResponsesApiError) {
+    return res.status(error.status).json({
+      error: {
+        message: error.message,
+        type: error.status === 404 ? 'not_found_error' : 'invalid_request_error',
+        code: error.code
+      }
+    })
+  }
+
+  const { status, body } = mapChatCompletionError(error)
+  return res.status(status).json(body)
+}
+
+/**
+ * @swagger
+ * /v1/responses:
+ *   post:
+ *     summary: Create a response
+ *     description: |
+ *       Create a model response, compatible with the OpenAI Responses API.
+ *       Works with every configured provider. Responses are stored locally unless `store` is false,
+ *       and can be continued with `previous_response_id`. Only function tools are supported.
+ *       Stored responses are only visible to the API key that created them.
+ *     tags: [Responses]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResponseRequest'
+ *     responses:
+ *       200:
+ *         description: The response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Response'
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               description: Server-sent response events (when stream=true)
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Previous response not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const request: ResponseCreateParams = req.body
+
+    if (!request) {
+      return res.status(400).json({
+        error: {
+          message: 'Request body is required',
+          type: 'invalid_request_error',
+          code: 'missing_body'
+        }
+      })
+    }
+
+    const owner = { keyId: getAuthenticatedKey(res)?.id }
+    logger.debug('Responses request', {
+      model: request.model,
+      previousResponseId: request.previous_response_id,
+      stream: request.stream
+    })
+
+    if (!request.stream) {
+      return res.json(await responsesService.create(request, owner))
+    }
+
+    const events = await responsesService.createStream(request, owner)
+
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+    res.setHeader('Cache-Control', 'no-cache, no-transform')
+    res.setHeader('Connection', 'keep-alive')
+    res.setHeader('X-Accel-Buffering', 'no')
+    res.flushHeaders()
+
+    try {
+      for await (const event of events) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      }
+    } catch (streamError: any) {
+      logger.error('Responses stream error', { error: streamError })
+      res.write(
+        `event: error\ndata: ${JSON.stringify({
+          type: 'error',
+          code: 'stream_error',
+          message: 'Stream processing error',
+          param: null
+        })}\n\n`
+      )
+    } finally {
+      res.end()
+    }
+    return
+  } catch (error: unknown) {
+    return sendError(res, error)
+  }
+})
+
+/**
+ * @swagger
+ * /v1/responses/{responseId}:
+ *   get:
+ *     summary: Get a stored response
+ *     tags: [Responses]
+ *     parameters:
+ *       - in: path
+ *         name: responseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The stored response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Response'
+ *       404:
+ *         description: Response not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:responseId', async (req: Request, res: Response) => {
+  try {
+    return res.json(await responsesService.get(req.params.responseId, { keyId: getAuthenticatedKey(res)?.id }))
+  } catch (error: unknown) {
+    return sendError(res, error)
+  }
+})
+
+/**
+ * @swagger
+ * /v1/responses/{responseId}:
+ *   delete:
+ *     summary: Delete a stored response
+ *     tags: [Responses]
+ *     parameters:
+ *       - in: path
+ *         name: responseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Response deleted
+ *       404:
+ *         description: Response not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:responseId', async (req: Request, res: Response) => {
+  try {
+    const { responseId } = req.params
+    await responsesService.delete(responseId, { keyId: getAuthenticatedKey(res)?.id })
+    return res.json({ id: responseId, object: 'response', deleted: true })
+  } catch (error: unknown) {
+    return sendError(res, error)
+  }
+})
+
+export { router as responsesRoutes }
@@ -0,0 +1,118 @@
+import { ApiUsageQuerySchema } from '@types'
+import type { Request, Response } from 'express'
+import express from 'express'
+
+import { loggerService } from '../../services/LoggerService'
+import { getAuthenticatedKey, PRIMARY_KEY_ID } from '../middleware/auth'
+import { apiRequestLogService } from '../services/requestLog'
+
+const logger = loggerService.withContext('ApiServerUsageRoutes')
+
+const router = express.Router()
+
+/**
+ * @swagger
+ * /v1/usage:
+ *   get:
+ *     summary: Query API usage
+ *     description: |
+ *       Aggregates requests, token usage and cost from the request log.
+ *       Named API keys only see their own usage; the primary key sees all requests.
+ *     tags: [Usage]
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         description: Start of the time range, in milliseconds since epoch
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: End of the time range, in milliseconds since epoch
+ *       - in: query
+ *         name: key_id
+ *         schema:
+ *           type: string
+ *         description: Only count requests made with this API key
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Model ID without the provider prefix
+ *       - in: query
+ *         name: route
+ *         schema:
+ *           type: string
+ *         description: Route prefix, e.g. /v1/chat
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [success, error]
+ *       - in: query
+ *         name: group_by
+ *         schema:
+ *           type: string
+ *           enum: [key, model, provider, route, day]
+ *     responses:
+ *       200:
+ *         description: Usage totals, plus one entry per group when group_by is set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UsageResponse'
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', async (req: Request, res: Response) => {
+  const parsed = ApiUsageQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: {
+        message: 'Invalid query parameters',
+        type: 'invalid_request_error',
+        code: 'invalid_parameters',
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      }
+    })
+  }
+
+  const key = getAuthenticatedKey(res)
+  const query = parsed.data
+  if (key && key.id !== PRIMARY_KEY_ID) {
+    query.key_id = key.id
+  }
+
+  try {
+    return res.json(await apiRequestLogService.getUsage(query))
+  } catch (error: unknown) {
+    logger.error('Failed to query API usage', { error })
+    return res.status(500).json({
+      error: {
+        message: `Failed to query API usage: ${error instanceof Error ? error.message : String(error)}`,
+        type: 'server_error',
+        code: 'internal_error'
+      }
+    })
+  }
+})
+
+export { router as usageRoutes }
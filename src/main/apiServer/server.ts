@@ -6,6 +6,7 @@ import { IpcChannel } from '@shared/IpcChannel'
 import { windowService } from '../services/WindowService'
 import { app } from './app'
 import { config } from './config'
+import { apiRequestLogService } from './services/requestLog'
 
 const logger = loggerService.withContext('ApiServer')
 
@@ -71,7 +72,10 @@ export class ApiServer {
       this.server!.close(() => {
         logger.info('API server stopped')
         this.server = null
-        resolve()
+        apiRequestLogService
+          .flush()
+          .catch((error) => logger.warn('Failed to flush request log', { error }))
+          .finally(() => resolve())
       })
     })
   }
@@ -0,0 +1,199 @@
+import type { TextStreamPart, ToolSet } from 'ai'
+import { describe, expect, it } from 'vitest'
+
+import {
+  toAiSdkCallOptions,
+  toChatCompletion,
+  toChatCompletionChunks,
+  toModelMessages
+} from '../chat-completion-translator'
+
+async function* streamOf(parts: unknown[]): AsyncGenerator<TextStreamPart<ToolSet>> {
+  for (const part of parts) {
+    yield part as TextStreamPart<ToolSet>
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15, reasoningTokens: 2, cachedInputTokens: 3 }
+
+describe('chat-completion-translator', () => {
+  describe('toModelMessages', () => {
+    it('converts system, image and tool messages', () => {
+      const messages = toModelMessages([
+        { role: 'developer', content: 'Be brief' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } }
+          ]
+        },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'a cat' }
+      ])
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', image: 'aGVsbG8=', mediaType: 'image/png' }
+          ]
+        },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool-call', toolCallId: 'call_1', toolName: 'lookup', input: { q: 'cat' } }]
+        },
+        {
+          role: 'tool',
+          content: [
+            { type: 'tool-result', toolCallId: 'call_1', toolName: 'lookup', output: { type: 'text', value: 'a cat' } }
+          ]
+        }
+      ])
+    })
+  })
+
+  describe('toAiSdkCallOptions', () => {
+    it('maps sampling parameters, tools and reasoning effort', () => {
+      const options = toAiSdkCallOptions(
+        {
+          model: 'claude:claude-sonnet-4',
+          messages: [{ role: 'user', content: 'hi' }],
+          max_tokens: 256,
+          temperature: 0.3,
+          stop: 'END',
+          reasoning_effort: 'low',
+          tools: [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object', properties: {} } } }],
+          tool_choice: { type: 'function', function: { name: 'lookup' } }
+        },
+        'anthropic'
+      )
+
+      expect(options.maxOutputTokens).toBe(256)
+      expect(options.temperature).toBe(0.3)
+      expect(options.stopSequences).toEqual(['END'])
+      expect(Object.keys(options.tools ?? {})).toEqual(['lookup'])
+      expect(options.toolChoice).toEqual({ type: 'tool', toolName: 'lookup' })
+      expect(options.providerOptions).toEqual({ anthropic: { thinking: { type: 'enabled', budgetTokens: 2048 } } })
+    })
+
+    it('maps response_format to the JSON output mode', async () => {
+      const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      const options = toAiSdkCallOptions(
+        {
+          model: 'claude:claude-sonnet-4',
+          messages: [{ role: 'user', content: 'hi' }],
+          response_format: { type: 'json_schema', json_schema: { name: 'weather', schema } }
+        },
+        'anthropic'
+      )
+
+      expect(options.experimental_output?.responseFormat).toEqual({
+        type: 'json',
+        schema,
+        name: 'weather',
+        description: undefined
+      })
+      await expect(options.experimental_output?.parseOutput({ text: 'not json' }, {} as any)).resolves.toBe('not json')
+
+      const jsonObject = toAiSdkCallOptions(
+        { model: 'claude:claude-sonnet-4', messages: [], response_format: { type: 'json_object' } },
+        'anthropic'
+      )
+      expect(jsonObject.experimental_output?.responseFormat).toEqual({ type: 'json' })
+
+      const text = toAiSdkCallOptions(
+        { model: 'claude:claude-sonnet-4', messages: [], response_format: { type: 'text' } },
+        'anthropic'
+      )
+      expect(text.experimental_output).toBeUndefined()
+    })
+  })
+
+  describe('toChatCompletion', () => {
+    it('builds an OpenAI completion with reasoning, tool calls and usage', () => {
+      const completion = toChatCompletion(
+        {
+          text: '',
+          reasoningText: 'thinking',
+          toolCalls: [{ toolCallId: 'call_1', toolName: 'lookup', input: { q: 'cat' } }],
+          finishReason: 'tool-calls',
+          totalUsage: usage
+        },
+        'claude-sonnet-4'
+      )
+
+      expect(completion.model).toBe('claude-sonnet-4')
+      expect(completion.choices[0].finish_reason).toBe('tool_calls')
+      expect(completion.choices[0].message).toMatchObject({
+        role: 'assistant',
+        content: null,
+        reasoning_content: 'thinking',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } }]
+      })
+      expect(completion.usage).toMatchObject({
+        prompt_tokens: 10,
+        completion_tokens: 5,
+        total_tokens: 15,
+        completion_tokens_details: { reasoning_tokens: 2 },
+        prompt_tokens_details: { cached_tokens: 3 }
+      })
+    })
+  })
+
+  describe('toChatCompletionChunks', () => {
+    it('streams content, reasoning, tool calls and usage', async () => {
+      const chunks = await collect(
+        toChatCompletionChunks(
+          streamOf([
+            { type: 'start' },
+            { type: 'reasoning-delta', id: 'r', text: 'hmm' },
+            { type: 'text-delta', id: 't', text: 'Hello' },
+            { type: 'tool-input-start', id: 'call_1', toolName: 'lookup' },
+            { type: 'tool-input-delta', id: 'call_1', delta: '{"q":' },
+            { type: 'tool-input-delta', id: 'call_1', delta: '"cat"}' },
+            { type: 'tool-call', toolCallId: 'call_1', toolName: 'lookup', input: { q: 'cat' } },
+            { type: 'finish', finishReason: 'tool-calls', totalUsage: usage }
+          ]),
+          'gemini-2.5-pro',
+          true
+        )
+      )
+
+      expect(chunks.map((chunk) => chunk.choices[0]?.delta)).toEqual([
+        { role: 'assistant', content: '' },
+        { reasoning_content: 'hmm' },
+        { content: 'Hello' },
+        { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '{"q":' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '"cat"}' } }] },
+        {},
+        undefined
+      ])
+      expect(chunks[6].choices[0].finish_reason).toBe('tool_calls')
+      expect(chunks[7].usage?.total_tokens).toBe(15)
+      expect(new Set(chunks.map((chunk) => chunk.id)).size).toBe(1)
+    })
+
+    it('throws stream errors', async () => {
+      const error = new Error('upstream failed')
+      await expect(collect(toChatCompletionChunks(streamOf([{ type: 'error', error }]), 'm', false))).rejects.toBe(
+        error
+      )
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { embedMany } from 'ai'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { validateModelId } from '../../utils'
+import { createEmbeddingModel } from '../../utils/aiSdkProvider'
+import { EmbeddingsModelError, EmbeddingsService, EmbeddingsValidationError } from '../embeddings'
+
+vi.mock('ai', () => ({
+  embedMany: vi.fn()
+}))
+
+vi.mock('../../utils', () => ({
+  validateModelId: vi.fn()
+}))
+
+vi.mock('../../utils/aiSdkProvider', () => ({
+  createEmbeddingModel: vi.fn()
+}))
+
+const geminiProvider = {
+  id: 'gemini',
+  type: 'gemini',
+  name: 'Gemini',
+  apiKey: 'key',
+  apiHost: 'https://generativelanguage.googleapis.com',
+  models: [],
+  enabled: true
+}
+
+describe('EmbeddingsService', () => {
+  const service = new EmbeddingsService()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(validateModelId).mockResolvedValue({
+      valid: true,
+      provider: geminiProvider as any,
+      modelId: 'text-embedding-004'
+    })
+    vi.mocked(createEmbeddingModel).mockResolvedValue({ providerId: 'google', model: {} as any })
+  })
+
+  it('rejects invalid requests', () => {
+    const result = service.validateRequest({ model: 'gemini:text-embedding-004', input: [], dimensions: -1 })
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toEqual(['Input array cannot be empty', 'Dimensions must be a positive integer'])
+  })
+
+  it('embeds a batch through the AI SDK and reports usage', async () => {
+    vi.mocked(embedMany).mockResolvedValue({
+      embeddings: [
+        [0.1, 0.2],
+        [0.3, 0.4]
+      ],
+      usage: { tokens: 7 }
+    } as any)
+
+    const { response } = await service.createEmbeddings({
+      model: 'gemini:text-embedding-004',
+      input: ['hello', 'world'],
+      dimensions: 2
+    })
+
+    expect(embedMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        values: ['hello', 'world'],
+        providerOptions: { google: { outputDimensionality: 2 } }
+      })
+    )
+    expect(response).toEqual({
+      object: 'list',
+      model: 'text-embedding-004',
+      data: [
+        { object: 'embedding', index: 0, embedding: [0.1, 0.2] },
+        { object: 'embedding', index: 1, embedding: [0.3, 0.4] }
+      ],
+      usage: { prompt_tokens: 7, total_tokens: 7 }
+    })
+  })
+
+  it('encodes embeddings as base64 when requested', async () => {
+    vi.mocked(embedMany).mockResolvedValue({ embeddings: [[1, 2]], usage: { tokens: 1 } } as any)
+
+    const { response } = await service.createEmbeddings({
+      model: 'gemini:text-embedding-004',
+      input: 'hello',
+      encoding_format: 'base64'
+    })
+
+    const bytes = Buffer.from(response.data[0].embedding as unknown as string, 'base64')
+    const decoded = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4)
+    expect(Array.from(decoded)).toEqual([1, 2])
+  })
+
+  it('rejects token array input for non-OpenAI providers', async () => {
+    await expect(
+      service.createEmbeddings({ model: 'gemini:text-embedding-004', input: [[1, 2, 3]] })
+    ).rejects.toBeInstanceOf(EmbeddingsValidationError)
+    expect(embedMany).not.toHaveBeenCalled()
+  })
+
+  it('surfaces model validation errors', async () => {
+    vi.mocked(validateModelId).mockResolvedValue({
+      valid: false,
+      error: { type: 'provider_not_found', message: 'not found', code: 'provider_not_found' }
+    })
+
+    await expect(service.createEmbeddings({ model: 'missing:model', input: 'hello' })).rejects.toBeInstanceOf(
+      EmbeddingsModelError
+    )
+  })
+})
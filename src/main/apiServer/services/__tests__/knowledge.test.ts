@@ -0,0 +1,146 @@
+import KnowledgeService from '@main/services/KnowledgeService'
+import { reduxService } from '@main/services/ReduxService'
+import { windowService } from '@main/services/WindowService'
+import { IpcChannel } from '@shared/IpcChannel'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { KnowledgeApiError, knowledgeApiService } from '../knowledge'
+
+vi.mock('@main/services/KnowledgeService', () => ({
+  DEFAULT_SEARCH_RESULT_COUNT: 30,
+  default: {
+    search: vi.fn(),
+    rerank: vi.fn()
+  }
+}))
+
+vi.mock('@main/services/ReduxService', () => ({
+  reduxService: {
+    select: vi.fn()
+  }
+}))
+
+vi.mock('@main/services/WindowService', () => ({
+  windowService: {
+    getMainWindow: vi.fn()
+  }
+}))
+
+const base = {
+  id: 'base-1',
+  name: 'Docs',
+  model: { id: 'text-embedding-3-small', provider: 'openai' },
+  rerankModel: { id: 'rerank-v1', provider: 'jina' },
+  items: [{ id: 'item-1' }],
+  documentCount: 2,
+  threshold: 0.5,
+  created_at: 1,
+  updated_at: 2
+}
+
+const params = { id: 'base-1', embedApiClient: {} }
+
+const send = vi.fn((_channel: string, request: { requestId: string; action: string }) => {
+  const result = request.action === 'get-base-params' ? params : { id: 'new-item', type: 'note' }
+  // Answer like the renderer does, asynchronously over IPC
+  queueMicrotask(() => knowledgeApiService.respond({ requestId: request.requestId, result }))
+})
+
+describe('KnowledgeApiService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(reduxService.select).mockResolvedValue([base])
+    vi.mocked(windowService.getMainWindow).mockReturnValue({
+      isDestroyed: () => false,
+      webContents: { send }
+    } as any)
+  })
+
+  it('lists knowledge bases with provider-qualified model ids', async () => {
+    await expect(knowledgeApiService.listBases()).resolves.toEqual([
+      {
+        id: 'base-1',
+        name: 'Docs',
+        description: undefined,
+        model: 'openai:text-embedding-3-small',
+        rerank_model: 'jina:rerank-v1',
+        dimensions: undefined,
+        document_count: 2,
+        threshold: 0.5,
+        item_count: 1,
+        created_at: 1,
+        updated_at: 2
+      }
+    ])
+  })
+
+  it('searches with the base params from the renderer and the threshold, then applies top_k', async () => {
+    vi.mocked(KnowledgeService.search).mockResolvedValue([
+      { pageContent: 'a', score: 0.9, metadata: { source: 'a.md' } },
+      { pageContent: 'c', score: 0.7, metadata: { source: 'c.md' } }
+    ])
+
+    const results = await knowledgeApiService.search('base-1', { query: 'hello', top_k: 1 })
+
+    expect(send).toHaveBeenCalledWith(
+      IpcChannel.ApiServer_KnowledgeRequest,
+      expect.objectContaining({ action: 'get-base-params', baseId: 'base-1' })
+    )
+    expect(KnowledgeService.search).toHaveBeenCalledWith(expect.anything(), {
+      search: 'hello',
+      base: params,
+      threshold: 0.5
+    })
+    expect(KnowledgeService.rerank).not.toHaveBeenCalled()
+    expect(results).toEqual([{ content: 'a', score: 0.9, source: 'a.md', metadata: { source: 'a.md' } }])
+  })
+
+  it('reranks results when requested', async () => {
+    const hits = [{ pageContent: 'a', score: 0.9, metadata: {} }]
+    vi.mocked(KnowledgeService.search).mockResolvedValue(hits)
+    vi.mocked(KnowledgeService.rerank).mockResolvedValue([{ pageContent: 'a', score: 0.99, metadata: {} }])
+
+    const results = await knowledgeApiService.search('base-1', { query: 'hello', rerank: true })
+
+    expect(KnowledgeService.rerank).toHaveBeenCalledWith(expect.anything(), {
+      search: 'hello',
+      base: params,
+      results: hits
+    })
+    expect(results[0].score).toBe(0.99)
+  })
+
+  it('rejects top_k above the document count of the base', async () => {
+    await expect(knowledgeApiService.search('base-1', { query: 'hello', top_k: 3 })).rejects.toMatchObject({
+      status: 400,
+      code: 'top_k_too_large'
+    })
+    expect(KnowledgeService.search).not.toHaveBeenCalled()
+  })
+
+  it('rejects unknown bases', async () => {
+    await expect(knowledgeApiService.search('missing', { query: 'hello' })).rejects.toMatchObject({
+      status: 404,
+      code: 'knowledge_base_not_found'
+    })
+  })
+
+  it('rejects rerank when the base has no rerank model', async () => {
+    vi.mocked(reduxService.select).mockResolvedValue([{ ...base, rerankModel: undefined }])
+
+    await expect(knowledgeApiService.search('base-1', { query: 'hello', rerank: true })).rejects.toBeInstanceOf(
+      KnowledgeApiError
+    )
+  })
+
+  it('adds items through the renderer', async () => {
+    await expect(knowledgeApiService.addItem('base-1', { type: 'note', content: 'remember this' })).resolves.toEqual({
+      id: 'new-item',
+      type: 'note'
+    })
+    expect(send).toHaveBeenCalledWith(
+      IpcChannel.ApiServer_KnowledgeRequest,
+      expect.objectContaining({ action: 'add-item', baseId: 'base-1', type: 'note', content: 'remember this' })
+    )
+  })
+})
@@ -0,0 +1,81 @@
+import mcpService from '@main/services/MCPService'
+import type { MCPServer } from '@types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getMCPServersFromRedux } from '../../utils/mcp'
+import { buildGatewayCatalog, getGatewayServers } from '../mcpGateway'
+
+vi.mock('@main/services/MCPService', () => ({
+  default: {
+    listTools: vi.fn(),
+    listPrompts: vi.fn(),
+    listResources: vi.fn()
+  }
+}))
+
+vi.mock('../../utils/mcp', () => ({
+  getMCPServersFromRedux: vi.fn()
+}))
+
+const github = { id: 'srv-1', name: 'github', isActive: true, disabledTools: ['delete_repo'] } as MCPServer
+const files = { id: 'srv-2', name: 'files', isActive: true } as MCPServer
+const inactive = { id: 'srv-3', name: 'inactive', isActive: false } as MCPServer
+const hub = { id: 'hub', name: '@cherry/hub', isActive: true } as MCPServer
+
+const tool = (server: MCPServer, name: string) => ({
+  id: `${server.id}__${name}`,
+  name,
+  description: `${name} tool`,
+  inputSchema: { type: 'object' as const, properties: {} },
+  serverId: server.id,
+  serverName: server.name,
+  type: 'mcp' as const
+})
+
+describe('MCP gateway', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getMCPServersFromRedux).mockResolvedValue([github, files, inactive, hub])
+  })
+
+  describe('getGatewayServers', () => {
+    it('returns active servers except the hub', async () => {
+      expect(await getGatewayServers()).toEqual([github, files])
+    })
+
+    it('applies the API key allow-list', async () => {
+      expect(await getGatewayServers(['srv-2', 'srv-3'])).toEqual([files])
+    })
+  })
+
+  describe('buildGatewayCatalog', () => {
+    it('namespaces tools and prompts and skips failing servers', async () => {
+      vi.mocked(mcpService.listTools).mockImplementation(async (_, server) =>
+        server.id === 'srv-1'
+          ? [tool(github, 'search_issues'), tool(github, 'delete_repo')]
+          : Promise.reject(new Error('connection refused'))
+      )
+      vi.mocked(mcpService.listPrompts).mockImplementation(async (_, server) =>
+        server.id === 'srv-2' ? [{ id: 'p1', name: 'summarize', serverId: 'srv-2', serverName: 'files' }] : []
+      )
+      vi.mocked(mcpService.listResources).mockImplementation(async (_, server) =>
+        server.id === 'srv-2'
+          ? [{ uri: 'file:///readme.md', name: 'readme', serverId: 'srv-2', serverName: 'files' }]
+          : []
+      )
+
+      const catalog = await buildGatewayCatalog([github, files])
+
+      expect(Array.from(catalog.tools.keys())).toEqual(['mcp__github__searchIssues'])
+      expect(catalog.tools.get('mcp__github__searchIssues')).toMatchObject({
+        server: github,
+        item: { name: 'search_issues' }
+      })
+      expect(Array.from(catalog.prompts.keys())).toEqual(['mcp__files__summarize'])
+      expect(catalog.resources.get('file:///readme.md')).toEqual({
+        server: files,
+        item: { uri: 'file:///readme.md', name: 'readme' }
+      })
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import type { ApiRequestLogEntry } from '@types'
+import { describe, expect, it, vi } from 'vitest'
+
+import { aggregateUsage, matchesFilter, toDayKey } from '../requestLog'
+
+vi.mock('../../config', () => ({
+  config: {}
+}))
+
+vi.mock('../../utils', () => ({
+  getAvailableProviders: vi.fn()
+}))
+
+const day = new Date(2025, 0, 15, 12).getTime()
+
+const entry = (overrides: Partial<ApiRequestLogEntry>): ApiRequestLogEntry => ({
+  id: 'id',
+  timestamp: day,
+  method: 'POST',
+  route: '/v1/chat/completions',
+  status: 200,
+  latencyMs: 100,
+  ...overrides
+})
+
+const entries = [
+  entry({ keyId: 'a', provider: 'openai', model: 'gpt-4o', inputTokens: 10, outputTokens: 5, cost: 0.5 }),
+  entry({ keyId: 'a', provider: 'openai', model: 'gpt-4o', inputTokens: 20, outputTokens: 10, cost: 1 }),
+  entry({ keyId: 'b', provider: 'gemini', model: 'gemini-2.5-pro', status: 500, timestamp: day + 86_400_000 }),
+  entry({ keyId: 'b', provider: 'deepseek', model: 'deepseek-chat', cost: 2, currencySymbol: '¥' })
+]
+
+describe('request log aggregation', () => {
+  it('matches filters on key, provider, status and time range', () => {
+    expect(entries.filter((e) => matchesFilter(e, { key_id: 'a' }))).toHaveLength(2)
+    expect(entries.filter((e) => matchesFilter(e, { provider: 'gemini' }))).toHaveLength(1)
+    expect(entries.filter((e) => matchesFilter(e, { status: 'error' }))).toHaveLength(1)
+    expect(entries.filter((e) => matchesFilter(e, { to: day }))).toHaveLength(3)
+    expect(entries.filter((e) => matchesFilter(e, { route: '/v1/chat' }))).toHaveLength(4)
+  })
+
+  it('sums totals and keeps costs per currency', () => {
+    const usage = aggregateUsage(entries, {})
+
+    expect(usage.total).toEqual({
+      requests: 4,
+      errors: 1,
+      input_tokens: 30,
+      output_tokens: 15,
+      cost: { $: 1.5, '¥': 2 }
+    })
+    expect(usage.data).toEqual([])
+  })
+
+  it('groups by model, ordered by request count', () => {
+    const usage = aggregateUsage(entries, { group_by: 'model' })
+
+    expect(usage.data.map((group) => [group.group, group.requests])).toEqual([
+      ['openai:gpt-4o', 2],
+      ['gemini:gemini-2.5-pro', 1],
+      ['deepseek:deepseek-chat', 1]
+    ])
+  })
+
+  it('groups by local day in chronological order', () => {
+    const usage = aggregateUsage(entries, { group_by: 'day', key_id: 'b' })
+
+    expect(usage.data.map((group) => group.group)).toEqual([toDayKey(day), toDayKey(day + 86_400_000)])
+  })
+})
@@ -0,0 +1,227 @@
+import type OpenAI from '@cherrystudio/openai'
+import { describe, expect, it } from 'vitest'
+
+import {
+  createResponse,
+  ResponsesValidationError,
+  toChatCompletionRequest,
+  toChatMessages,
+  toOutputMessages,
+  toResponse,
+  toResponseEvents
+} from '../responses-translator'
+
+async function* streamOf(chunks: unknown[]): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
+  for (const chunk of chunks) {
+    yield chunk as OpenAI.Chat.Completions.ChatCompletionChunk
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+})
+
+describe('responses-translator', () => {
+  describe('toChatMessages', () => {
+    it('converts a string input to a user message', () => {
+      expect(toChatMessages('Hello')).toEqual([{ role: 'user', content: 'Hello' }])
+    })
+
+    it('converts message, function call and function call output items', () => {
+      const messages = toChatMessages([
+        {
+          role: 'user',
+          content: [
+            { type: 'input_text', text: 'What is this?' },
+            { type: 'input_image', image_url: 'data:image/png;base64,aGVsbG8=', detail: 'auto' }
+          ]
+        },
+        { type: 'reasoning', id: 'rs_1', summary: [] },
+        { type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":"cat"}' },
+        { type: 'function_call', call_id: 'call_2', name: 'lookup', arguments: '{"q":"dog"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: 'a cat' }
+      ])
+
+      expect(messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=', detail: 'auto' } }
+          ]
+        },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"q":"dog"}' } }
+          ]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'a cat' }
+      ])
+    })
+
+    it('rejects unsupported item types', () => {
+      expect(() => toChatMessages([{ type: 'web_search_call', id: 'ws_1', status: 'completed' } as never])).toThrow(
+        ResponsesValidationError
+      )
+    })
+  })
+
+  describe('toChatCompletionRequest', () => {
+    it('maps instructions, tools and output options', () => {
+      const request = toChatCompletionRequest(
+        {
+          model: 'openai:gpt-4o',
+          instructions: 'Be brief',
+          max_output_tokens: 100,
+          reasoning: { effort: 'low' },
+          tools: [{ type: 'function', name: 'lookup', parameters: { type: 'object' }, strict: true }],
+          tool_choice: { type: 'function', name: 'lookup' },
+          text: { format: { type: 'json_object' } },
+          stream: true
+        },
+        [{ role: 'user', content: 'Hello' }]
+      )
+
+      expect(request).toMatchObject({
+        model: 'openai:gpt-4o',
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hello' }
+        ],
+        max_completion_tokens: 100,
+        reasoning_effort: 'low',
+        tools: [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object' }, strict: true } }],
+        tool_choice: { type: 'function', function: { name: 'lookup' } },
+        response_format: { type: 'json_object' },
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+    })
+
+    it('rejects hosted tools', () => {
+      expect(() =>
+        toChatCompletionRequest({ model: 'openai:gpt-4o', tools: [{ type: 'web_search_preview' }] }, [])
+      ).toThrow(ResponsesValidationError)
+    })
+  })
+
+  describe('toResponse', () => {
+    it('converts reasoning, text and tool calls to output items', () => {
+      const response = toResponse(createResponse({ model: 'openai:gpt-4o' }), {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            logprobs: null,
+            finish_reason: 'tool_calls',
+            message: {
+              role: 'assistant',
+              content: 'Looking it up',
+              refusal: null,
+              reasoning_content: 'Need a lookup',
+              tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{}' } }]
+            } as OpenAI.Chat.Completions.ChatCompletionMessage
+          }
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      })
+
+      expect(response.status).toBe('completed')
+      expect(response.output_text).toBe('Looking it up')
+      expect(response.output.map((item) => item.type)).toEqual(['reasoning', 'message', 'function_call'])
+      expect(response.usage).toMatchObject({ input_tokens: 10, output_tokens: 5, total_tokens: 15 })
+      expect(toOutputMessages(response.output)).toEqual([
+        {
+          role: 'assistant',
+          content: 'Looking it up',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{}' } }]
+        }
+      ])
+    })
+  })
+
+  describe('toResponseEvents', () => {
+    it('streams reasoning, text and function call events', async () => {
+      const events = await collect(
+        toResponseEvents(
+          streamOf([
+            chunk({ reasoning_content: 'Thinking' }),
+            chunk({ content: 'Hel' }),
+            chunk({ content: 'lo' }),
+            chunk({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'lookup', arguments: '{"q"' } }] }),
+            chunk({ tool_calls: [{ index: 0, function: { arguments: ':1}' } }] }, 'tool_calls'),
+            { ...chunk({}), choices: [], usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 } }
+          ]),
+          createResponse({ model: 'openai:gpt-4o' })
+        )
+      )
+
+      expect(events.map((event) => event.type)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.reasoning_summary_part.added',
+        'response.reasoning_summary_text.delta',
+        'response.reasoning_summary_text.done',
+        'response.reasoning_summary_part.done',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed'
+      ])
+      expect(events.map((event) => event.sequence_number)).toEqual(events.map((_, index) => index))
+
+      const completed = events.at(-1)
+      expect(completed?.type === 'response.completed' && completed.response).toMatchObject({
+        status: 'completed',
+        output_text: 'Hello',
+        usage: { input_tokens: 3, output_tokens: 4 },
+        output: [
+          { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Thinking' }] },
+          { type: 'message', status: 'completed' },
+          { type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":1}' }
+        ]
+      })
+    })
+
+    it('reports truncated output as incomplete', async () => {
+      const events = await collect(
+        toResponseEvents(streamOf([chunk({ content: 'Hi' }, 'length')]), createResponse({ model: 'openai:gpt-4o' }))
+      )
+
+      const last = events.at(-1)
+      expect(last?.type).toBe('response.incomplete')
+      expect(last?.type === 'response.incomplete' && last.response.incomplete_details).toEqual({
+        reason: 'max_output_tokens'
+      })
+    })
+  })
+})
@@ -0,0 +1,444 @@
+import type OpenAI from '@cherrystudio/openai'
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionToolChoiceOption
+} from '@cherrystudio/openai/resources'
+import type { ReasoningEffort } from '@cherrystudio/openai/resources/shared'
+import type {
+  FilePart,
+  FinishReason,
+  ImagePart,
+  LanguageModelUsage,
+  ModelMessage,
+  Output,
+  TextPart,
+  TextStreamPart,
+  ToolCallPart,
+  ToolChoice,
+  ToolSet
+} from 'ai'
+import { jsonSchema, tool } from 'ai'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * OpenAI chat completions 与 AI SDK 之间的协议转换，
+ * 用于通过 aiCore 访问 Anthropic、Gemini、Bedrock、Vertex 等非 OpenAI 协议的 provider。
+ */
+
+// 非标准字段，与 DeepSeek 等兼容接口一致，用于返回思考内容
+type ReasoningDelta = { reasoning_content?: string }
+
+export type TranslatedChatCompletion = OpenAI.Chat.Completions.ChatCompletion & {
+  choices: Array<OpenAI.Chat.Completions.ChatCompletion.Choice & { message: ReasoningDelta }>
+}
+
+export type TranslatedChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk & {
+  choices: Array<OpenAI.Chat.Completions.ChatCompletionChunk.Choice & { delta: ReasoningDelta }>
+}
+
+export interface AiSdkCallOptions {
+  messages: ModelMessage[]
+  tools?: ToolSet
+  toolChoice?: ToolChoice<ToolSet>
+  maxOutputTokens?: number
+  temperature?: number
+  topP?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  stopSequences?: string[]
+  seed?: number
+  providerOptions?: Record<string, Record<string, any>>
+  experimental_output?: Output.Output<string, string>
+}
+
+// 各 provider 的思考预算（tokens）
+const REASONING_BUDGETS: Record<Exclude<ReasoningEffort, null | 'none'>, number> = {
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+  xhigh: 32768
+}
+
+const DATA_URL_REGEX = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s
+
+function textOf(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (!content) {
+    return ''
+  }
+  if (typeof content === 'string') {
+    return content
+  }
+  return content
+    .map((part) => part.text ?? '')
+    .filter(Boolean)
+    .join('\n')
+}
+
+function toMediaData(url: string): { data: string | URL; mediaType?: string } {
+  const match = url.match(DATA_URL_REGEX)
+  if (match) {
+    return { data: match[2], mediaType: match[1] }
+  }
+  return { data: new URL(url) }
+}
+
+function toUserContentPart(part: ChatCompletionContentPart): TextPart | ImagePart | FilePart {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text }
+    case 'image_url': {
+      const { data, mediaType } = toMediaData(part.image_url.url)
+      return { type: 'image', image: data, mediaType }
+    }
+    case 'input_audio':
+      return {
+        type: 'file',
+        data: part.input_audio.data,
+        mediaType: part.input_audio.format === 'mp3' ? 'audio/mpeg' : 'audio/wav'
+      }
+    case 'file': {
+      const { data, mediaType } = toMediaData(part.file.file_data ?? '')
+      return {
+        type: 'file',
+        data,
+        mediaType: mediaType ?? 'application/octet-stream',
+        filename: part.file.filename
+      }
+    }
+  }
+}
+
+function parseToolArguments(args: string): unknown {
+  try {
+    return args ? JSON.parse(args) : {}
+  } catch {
+    return args
+  }
+}
+
+/**
+ * 将 OpenAI 消息转换为 AI SDK 的 ModelMessage
+ */
+export function toModelMessages(messages: ChatCompletionMessageParam[]): ModelMessage[] {
+  const toolNames = new Map<string, string>()
+  const result: ModelMessage[] = []
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        result.push({ role: 'system', content: textOf(message.content) })
+        break
+      case 'user':
+        result.push({
+          role: 'user',
+          content: typeof message.content === 'string' ? message.content : message.content.map(toUserContentPart)
+        })
+        break
+      case 'assistant': {
+        const content: Array<TextPart | ToolCallPart> = []
+        const text = textOf(message.content as string | Array<{ type: string; text?: string }> | null)
+        if (text) {
+          content.push({ type: 'text', text })
+        }
+        for (const toolCall of message.tool_calls ?? []) {
+          if (toolCall.type !== 'function') {
+            continue
+          }
+          toolNames.set(toolCall.id, toolCall.function.name)
+          content.push({
+            type: 'tool-call',
+            toolCallId: toolCall.id,
+            toolName: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments)
+          })
+        }
+        result.push({ role: 'assistant', content })
+        break
+      }
+      case 'tool':
+        result.push({
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: message.tool_call_id,
+              toolName: toolNames.get(message.tool_call_id) ?? '',
+              output: { type: 'text', value: textOf(message.content) }
+            }
+          ]
+        })
+        break
+      default:
+        // 已废弃的 function 角色不再转换
+        break
+    }
+  }
+
+  return result
+}
+
+function toToolChoice(choice: ChatCompletionToolChoiceOption | undefined): ToolChoice<ToolSet> | undefined {
+  if (!choice) {
+    return undefined
+  }
+  if (typeof choice === 'string') {
+    return choice
+  }
+  if (choice.type === 'function') {
+    return { type: 'tool', toolName: choice.function.name }
+  }
+  return undefined
+}
+
+function toReasoningOptions(
+  providerId: string,
+  effort: ReasoningEffort | undefined
+): Record<string, Record<string, any>> | undefined {
+  if (!effort || effort === 'none') {
+    return undefined
+  }
+
+  const budgetTokens = REASONING_BUDGETS[effort]
+  switch (providerId) {
+    case 'anthropic':
+    case 'google-vertex-anthropic':
+      return { anthropic: { thinking: { type: 'enabled', budgetTokens } } }
+    case 'google':
+    case 'google-vertex':
+      return { google: { thinkingConfig: { thinkingBudget: budgetTokens, includeThoughts: true } } }
+    case 'bedrock':
+      return { bedrock: { reasoningConfig: { type: 'enabled', budgetTokens } } }
+    case 'openai':
+    case 'azure':
+      return { openai: { reasoningEffort: effort } }
+    default:
+      return { [providerId]: { reasoningEffort: effort } }
+  }
+}
+
+/**
+ * 将 response_format 转换为 AI SDK 的结构化输出。只设置 provider 的 JSON 输出模式，
+ * 不校验生成的内容，与 OpenAI 一样原样返回文本
+ */
+function toStructuredOutput(
+  format: ChatCompletionCreateParams['response_format']
+): Output.Output<string, string> | undefined {
+  let responseFormat: Output.Output<string, string>['responseFormat']
+  switch (format?.type) {
+    case 'json_object':
+      responseFormat = { type: 'json' }
+      break
+    case 'json_schema':
+      responseFormat = {
+        type: 'json',
+        schema: format.json_schema.schema as Record<string, any> | undefined,
+        name: format.json_schema.name,
+        description: format.json_schema.description
+      }
+      break
+    default:
+      return undefined
+  }
+
+  return {
+    type: 'object',
+    responseFormat,
+    parsePartial: async ({ text }) => ({ partial: text }),
+    parseOutput: async ({ text }) => text
+  }
+}
+
+/**
+ * 将 OpenAI chat completions 请求转换为 AI SDK generateText/streamText 的参数
+ */
+export function toAiSdkCallOptions(request: ChatCompletionCreateParams, providerId: string): AiSdkCallOptions {
+  let tools: ToolSet | undefined
+  for (const definition of request.tools ?? []) {
+    if (definition.type !== 'function') {
+      continue
+    }
+    tools ??= {}
+    tools[definition.function.name] = tool({
+      description: definition.function.description,
+      inputSchema: jsonSchema((definition.function.parameters ?? { type: 'object', properties: {} }) as any)
+    })
+  }
+
+  const stop = request.stop ?? undefined
+
+  return {
+    messages: toModelMessages(request.messages),
+    tools,
+    toolChoice: tools ? toToolChoice(request.tool_choice) : undefined,
+    maxOutputTokens: request.max_completion_tokens ?? request.max_tokens ?? undefined,
+    temperature: request.temperature ?? undefined,
+    topP: request.top_p ?? undefined,
+    presencePenalty: request.presence_penalty ?? undefined,
+    frequencyPenalty: request.frequency_penalty ?? undefined,
+    stopSequences: typeof stop === 'string' ? [stop] : stop,
+    seed: request.seed ?? undefined,
+    providerOptions: toReasoningOptions(providerId, request.reasoning_effort),
+    experimental_output: toStructuredOutput(request.response_format)
+  }
+}
+
+export function toFinishReason(reason: FinishReason): OpenAI.Chat.Completions.ChatCompletion.Choice['finish_reason'] {
+  switch (reason) {
+    case 'length':
+      return 'length'
+    case 'content-filter':
+      return 'content_filter'
+    case 'tool-calls':
+      return 'tool_calls'
+    default:
+      return 'stop'
+  }
+}
+
+export function toCompletionUsage(usage: LanguageModelUsage): OpenAI.CompletionUsage {
+  const promptTokens = usage.inputTokens ?? 0
+  const completionTokens = usage.outputTokens ?? 0
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.totalTokens ?? promptTokens + completionTokens,
+    completion_tokens_details: { reasoning_tokens: usage.reasoningTokens ?? 0 },
+    prompt_tokens_details: { cached_tokens: usage.cachedInputTokens ?? 0 }
+  }
+}
+
+/**
+ * 将 AI SDK generateText 的结果转换为 OpenAI chat completion
+ */
+export function toChatCompletion(
+  result: {
+    text: string
+    reasoningText?: string
+    toolCalls: Array<{ toolCallId: string; toolName: string; input: unknown }>
+    finishReason: FinishReason
+    totalUsage: LanguageModelUsage
+  },
+  model: string
+): TranslatedChatCompletion {
+  const toolCalls = result.toolCalls.map((toolCall) => ({
+    id: toolCall.toolCallId,
+    type: 'function' as const,
+    function: { name: toolCall.toolName, arguments: JSON.stringify(toolCall.input ?? {}) }
+  }))
+
+  return {
+    id: `chatcmpl-${uuidv4()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: result.text || null,
+          refusal: null,
+          ...(result.reasoningText ? { reasoning_content: result.reasoningText } : {}),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: toFinishReason(result.finishReason),
+        logprobs: null
+      }
+    ],
+    usage: toCompletionUsage(result.totalUsage)
+  }
+}
+
+/**
+ * 将 AI SDK streamText 的 fullStream 转换为 OpenAI chat completion chunk 流
+ */
+export async function* toChatCompletionChunks(
+  parts: AsyncIterable<TextStreamPart<ToolSet>>,
+  model: string,
+  includeUsage: boolean
+): AsyncGenerator<TranslatedChatCompletionChunk> {
+  const id = `chatcmpl-${uuidv4()}`
+  const created = Math.floor(Date.now() / 1000)
+  const toolCallIndexes = new Map<string, number>()
+
+  const chunk = (
+    delta: TranslatedChatCompletionChunk['choices'][number]['delta'],
+    finishReason: TranslatedChatCompletionChunk['choices'][number]['finish_reason'] = null
+  ): TranslatedChatCompletionChunk => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+  })
+
+  yield chunk({ role: 'assistant', content: '' })
+
+  for await (const part of parts) {
+    switch (part.type) {
+      case 'text-delta':
+        if (part.text) {
+          yield chunk({ content: part.text })
+        }
+        break
+      case 'reasoning-delta':
+        if (part.text) {
+          yield chunk({ reasoning_content: part.text })
+        }
+        break
+      case 'tool-input-start': {
+        const index = toolCallIndexes.size
+        toolCallIndexes.set(part.id, index)
+        yield chunk({
+          tool_calls: [{ index, id: part.id, type: 'function', function: { name: part.toolName, arguments: '' } }]
+        })
+        break
+      }
+      case 'tool-input-delta': {
+        const index = toolCallIndexes.get(part.id)
+        if (index !== undefined && part.delta) {
+          yield chunk({ tool_calls: [{ index, function: { arguments: part.delta } }] })
+        }
+        break
+      }
+      case 'tool-call':
+        // 部分 provider 不输出增量参数，只在最后给出完整的工具调用
+        if (!toolCallIndexes.has(part.toolCallId)) {
+          const index = toolCallIndexes.size
+          toolCallIndexes.set(part.toolCallId, index)
+          yield chunk({
+            tool_calls: [
+              {
+                index,
+                id: part.toolCallId,
+                type: 'function',
+                function: { name: part.toolName, arguments: JSON.stringify(part.input ?? {}) }
+              }
+            ]
+          })
+        }
+        break
+      case 'finish':
+        yield chunk({}, toFinishReason(part.finishReason))
+        if (includeUsage) {
+          yield {
+            id,
+            object: 'chat.completion.chunk',
+            created,
+            model,
+            choices: [],
+            usage: toCompletionUsage(part.totalUsage)
+          }
+        }
+        break
+      case 'error':
+        throw part.error
+      default:
+        break
+    }
+  }
+}
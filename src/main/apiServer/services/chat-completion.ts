@@ -1,10 +1,15 @@
 import OpenAI from '@cherrystudio/openai'
 import type { ChatCompletionCreateParams, ChatCompletionCreateParamsStreaming } from '@cherrystudio/openai/resources'
 import type { Provider } from '@types'
+import type { LanguageModel, TextStreamPart, ToolSet } from 'ai'
+import { generateText, streamText } from 'ai'
 
 import { loggerService } from '../../services/LoggerService'
 import type { ModelValidationError } from '../utils'
 import { validateModelId } from '../utils'
+import { createLanguageModel } from '../utils/aiSdkProvider'
+import type { AiSdkCallOptions } from './chat-completion-translator'
+import { toAiSdkCallOptions, toChatCompletion, toChatCompletionChunks } from './chat-completion-translator'
 
 const logger = loggerService.withContext('ChatCompletionService')
 
@@ -27,24 +32,65 @@ export class ChatCompletionModelError extends Error {
   }
 }
 
+/**
+ * openai 类型的 provider 直接转发请求；其他类型通过 aiCore 创建 AI SDK 模型并转换协议
+ */
+export type ProviderContext =
+  | { protocol: 'openai'; provider: Provider; modelId: string; client: OpenAI }
+  | { protocol: 'ai-sdk'; provider: Provider; modelId: string; model: LanguageModel; aiSdkProviderId: string }
+
 export type PrepareRequestResult =
   | { status: 'validation_error'; errors: string[] }
   | { status: 'model_error'; error: ModelValidationError }
-  | {
+  | (Extract<ProviderContext, { protocol: 'openai' }> & {
       status: 'ok'
-      provider: Provider
-      modelId: string
-      client: OpenAI
       providerRequest: ChatCompletionCreateParams
+    })
+  | (Extract<ProviderContext, { protocol: 'ai-sdk' }> & {
+      status: 'ok'
+      callOptions: AiSdkCallOptions
+    })
+
+/**
+ * 预读流的第一个有效事件，使上游的鉴权、限流等错误在发送响应头之前抛出
+ */
+async function peekStream(
+  parts: AsyncIterable<TextStreamPart<ToolSet>>
+): Promise<AsyncIterable<TextStreamPart<ToolSet>>> {
+  const iterator = parts[Symbol.asyncIterator]()
+  const buffered: TextStreamPart<ToolSet>[] = []
+
+  while (true) {
+    const { done, value } = await iterator.next()
+    if (done) {
+      break
+    }
+    if (value.type === 'error') {
+      throw value.error
+    }
+    buffered.push(value)
+    if (value.type !== 'start' && value.type !== 'start-step') {
+      break
     }
+  }
+
+  return (async function* () {
+    yield* buffered
+    while (true) {
+      const { done, value } = await iterator.next()
+      if (done) {
+        return
+      }
+      yield value
+    }
+  })()
+}
 
 export class ChatCompletionService {
   async resolveProviderContext(
     model: string
-  ): Promise<
-    { ok: false; error: ModelValidationError } | { ok: true; provider: Provider; modelId: string; client: OpenAI }
-  > {
-    const modelValidation = await validateModelId(model)
+  ): Promise<{ ok: false; error: ModelValidationError } | ({ ok: true } & ProviderContext)> {
+    const modelValidation = await validateModelId(model, { includeAiSdkProviders: true })
     if (!modelValidation.valid) {
       return {
         ok: false,
@@ -53,20 +99,32 @@ export class ChatCompletionService {
     }
 
     const provider = modelValidation.provider!
+    const modelId = modelValidation.modelId!
 
     if (provider.type !== 'openai') {
-      return {
-        ok: false,
-        error: {
-          type: 'unsupported_provider_type',
-          message: `Provider '${provider.id}' of type '${provider.type}' is not supported for OpenAI chat completions`,
-          code: 'unsupported_provider_type'
+      try {
+        const { providerId, model: languageModel } = await createLanguageModel(provider, modelId)
+        return {
+          ok: true,
+          protocol: 'ai-sdk',
+          provider,
+          modelId,
+          model: languageModel,
+          aiSdkProviderId: providerId
+        }
+      } catch (error: any) {
+        logger.warn('Failed to create AI SDK provider', { provider: provider.id, error })
+        return {
+          ok: false,
+          error: {
+            type: 'unsupported_provider_type',
+            message: `Provider '${provider.id}' of type '${provider.type}' could not be initialized: ${error?.message}`,
+            code: 'unsupported_provider_type'
+          }
         }
       }
     }
 
-    const modelId = modelValidation.modelId!
-
     const client = new OpenAI({
       baseURL: provider.apiHost,
       apiKey: provider.apiKey
@@ -74,6 +132,7 @@ export class ChatCompletionService {
 
     return {
       ok: true,
+      protocol: 'openai',
       provider,
       modelId,
       client
@@ -97,20 +156,34 @@ export class ChatCompletionService {
       }
     }
 
-    const { provider, modelId, client } = providerContext
+    const { provider, modelId } = providerContext
 
     logger.debug('Model validation successful', {
       provider: provider.id,
       providerType: provider.type,
+      protocol: providerContext.protocol,
       modelId,
       fullModelId: request.model
     })
 
+    if (providerContext.protocol === 'ai-sdk') {
+      return {
+        status: 'ok',
+        protocol: 'ai-sdk',
+        provider,
+        modelId,
+        model: providerContext.model,
+        aiSdkProviderId: providerContext.aiSdkProviderId,
+        callOptions: toAiSdkCallOptions(request, providerContext.aiSdkProviderId)
+      }
+    }
+
     return {
       status: 'ok',
+      protocol: 'openai',
       provider,
       modelId,
-      client,
+      client: providerContext.client,
       providerRequest: stream
         ? {
             ...request,
@@ -176,15 +249,24 @@ export class ChatCompletionService {
         throw new ChatCompletionModelError(preparation.error)
       }
 
-      const { provider, modelId, client, providerRequest } = preparation
+      const { provider, modelId } = preparation
 
       logger.debug('Sending request to provider', {
         provider: provider.id,
         model: modelId,
-        apiHost: provider.apiHost
+        apiHost: provider.apiHost,
+        protocol: preparation.protocol
       })
 
-      const response = (await client.chat.completions.create(providerRequest)) as OpenAI.Chat.Completions.ChatCompletion
+      let response: OpenAI.Chat.Completions.ChatCompletion
+      if (preparation.protocol === 'ai-sdk') {
+        const result = await generateText({ model: preparation.model, ...preparation.callOptions })
+        response = toChatCompletion(result, modelId)
+      } else {
+        response = (await preparation.client.chat.completions.create(
+          preparation.providerRequest
+        )) as OpenAI.Chat.Completions.ChatCompletion
+      }
 
       logger.info('Chat completion processed', {
         modelId,
@@ -224,18 +306,30 @@ export class ChatCompletionService {
         throw new ChatCompletionModelError(preparation.error)
       }
 
-      const { provider, modelId, client, providerRequest } = preparation
+      const { provider, modelId } = preparation
 
       logger.debug('Sending streaming request to provider', {
         provider: provider.id,
         model: modelId,
-        apiHost: provider.apiHost
+        apiHost: provider.apiHost,
+        protocol: preparation.protocol
       })
 
-      const streamRequest = providerRequest as ChatCompletionCreateParamsStreaming
-      const stream = (await client.chat.completions.create(
-        streamRequest
-      )) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>
+      let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>
+      if (preparation.protocol === 'ai-sdk') {
+        const result = streamText({
+          model: preparation.model,
+          ...preparation.callOptions,
+          onError: ({ error }) => logger.warn('AI SDK stream error', { error })
+        })
+        const parts = await peekStream(result.fullStream)
+        stream = toChatCompletionChunks(parts, modelId, !!request.stream_options?.include_usage)
+      } else {
+        const streamRequest = preparation.providerRequest as ChatCompletionCreateParamsStreaming
+        stream = (await preparation.client.chat.completions.create(
+          streamRequest
+        )) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>
+      }
 
       logger.info('Streaming chat completion started', {
         modelId,
@@ -0,0 +1,199 @@
+import OpenAI from '@cherrystudio/openai'
+import type { CreateEmbeddingResponse, EmbeddingCreateParams } from '@cherrystudio/openai/resources'
+import type { Provider } from '@types'
+import { embedMany } from 'ai'
+
+import { loggerService } from '../../services/LoggerService'
+import type { ModelValidationError } from '../utils'
+import { validateModelId } from '../utils'
+import { createEmbeddingModel } from '../utils/aiSdkProvider'
+import type { ValidationResult } from './chat-completion'
+
+const logger = loggerService.withContext('EmbeddingsService')
+
+// 与 OpenAI 接口一致的单次请求输入上限
+const MAX_EMBEDDING_INPUTS = 2048
+
+export class EmbeddingsValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Request validation failed: ${errors.join('; ')}`)
+    this.name = 'EmbeddingsValidationError'
+  }
+}
+
+export class EmbeddingsModelError extends Error {
+  constructor(public readonly error: ModelValidationError) {
+    super(`Model validation failed: ${error.message}`)
+    this.name = 'EmbeddingsModelError'
+  }
+}
+
+function isTokenArrayInput(input: EmbeddingCreateParams['input']): boolean {
+  return Array.isArray(input) && input.some((item) => typeof item !== 'string')
+}
+
+function toBase64Embedding(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString('base64')
+}
+
+function toEmbeddingProviderOptions(
+  providerId: string,
+  dimensions: number | undefined
+): Record<string, Record<string, any>> | undefined {
+  if (!dimensions) {
+    return undefined
+  }
+
+  switch (providerId) {
+    case 'google':
+    case 'google-vertex':
+      return { google: { outputDimensionality: dimensions } }
+    case 'openai':
+    case 'azure':
+      return { openai: { dimensions } }
+    default:
+      return { [providerId]: { dimensions } }
+  }
+}
+
+export class EmbeddingsService {
+  validateRequest(request: EmbeddingCreateParams): ValidationResult {
+    const errors: string[] = []
+
+    if (!request.model) {
+      errors.push('Model is required')
+    }
+
+    const { input } = request
+    if (input === undefined || input === null || input === '') {
+      errors.push('Input is required')
+    } else if (Array.isArray(input)) {
+      if (input.length === 0) {
+        errors.push('Input array cannot be empty')
+      } else if (input.length > MAX_EMBEDDING_INPUTS) {
+        errors.push(`Input array cannot contain more than ${MAX_EMBEDDING_INPUTS} items`)
+      }
+    } else if (typeof input !== 'string') {
+      errors.push('Input must be a string or an array')
+    }
+
+    if (request.dimensions !== undefined && (!Number.isInteger(request.dimensions) || request.dimensions <= 0)) {
+      errors.push('Dimensions must be a positive integer')
+    }
+
+    if (request.encoding_format !== undefined && !['float', 'base64'].includes(request.encoding_format)) {
+      errors.push("Encoding format must be 'float' or 'base64'")
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+
+  async createEmbeddings(request: EmbeddingCreateParams): Promise<{
+    provider: Provider
+    modelId: string
+    response: CreateEmbeddingResponse
+  }> {
+    const requestValidation = this.validateRequest(request)
+    if (!requestValidation.isValid) {
+      throw new EmbeddingsValidationError(requestValidation.errors)
+    }
+
+    const modelValidation = await validateModelId(request.model, { includeAiSdkProviders: true })
+    if (!modelValidation.valid) {
+      throw new EmbeddingsModelError(modelValidation.error!)
+    }
+
+    const provider = modelValidation.provider!
+    const modelId = modelValidation.modelId!
+
+    logger.debug('Processing embeddings request', {
+      provider: provider.id,
+      providerType: provider.type,
+      modelId,
+      inputs: Array.isArray(request.input) ? request.input.length : 1,
+      dimensions: request.dimensions
+    })
+
+    const response =
+      provider.type === 'openai'
+        ? await this.createOpenAIEmbeddings(provider, modelId, request)
+        : await this.createAiSdkEmbeddings(provider, modelId, request)
+
+    logger.info('Embeddings processed', {
+      modelId,
+      provider: provider.id,
+      count: response.data.length,
+      promptTokens: response.usage.prompt_tokens
+    })
+
+    return { provider, modelId, response }
+  }
+
+  private async createOpenAIEmbeddings(
+    provider: Provider,
+    modelId: string,
+    request: EmbeddingCreateParams
+  ): Promise<CreateEmbeddingResponse> {
+    const client = new OpenAI({
+      baseURL: provider.apiHost,
+      apiKey: provider.apiKey
+    })
+
+    return client.embeddings.create({ ...request, model: modelId })
+  }
+
+  private async createAiSdkEmbeddings(
+    provider: Provider,
+    modelId: string,
+    request: EmbeddingCreateParams
+  ): Promise<CreateEmbeddingResponse> {
+    if (isTokenArrayInput(request.input)) {
+      throw new EmbeddingsValidationError([
+        `Token array input is not supported for provider '${provider.id}' of type '${provider.type}'`
+      ])
+    }
+
+    const values = typeof request.input === 'string' ? [request.input] : (request.input as string[])
+
+    let embeddingModel: Awaited<ReturnType<typeof createEmbeddingModel>>
+    try {
+      embeddingModel = await createEmbeddingModel(provider, modelId)
+    } catch (error: any) {
+      logger.warn('Failed to create AI SDK embedding model', { provider: provider.id, error })
+      throw new EmbeddingsModelError({
+        type: 'unsupported_provider_type',
+        message: `Provider '${provider.id}' of type '${provider.type}' could not be initialized: ${error?.message}`,
+        code: 'unsupported_provider_type'
+      })
+    }
+
+    // embedMany 会按模型的 maxEmbeddingsPerCall 自动分批请求
+    const { embeddings, usage } = await embedMany({
+      model: embeddingModel.model,
+      values,
+      providerOptions: toEmbeddingProviderOptions(embeddingModel.providerId, request.dimensions)
+    })
+
+    const base64 = request.encoding_format === 'base64'
+
+    return {
+      object: 'list',
+      model: modelId,
+      data: embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        // OpenAI SDK 的类型只声明了 number[]，base64 编码时实际返回字符串
+        embedding: (base64 ? toBase64Embedding(embedding) : embedding) as number[]
+      })),
+      usage: {
+        prompt_tokens: usage.tokens ?? 0,
+        total_tokens: usage.tokens ?? 0
+      }
+    }
+  }
+}
+
+export const embeddingsService = new EmbeddingsService()
@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto'
+
+import KnowledgeService, { DEFAULT_SEARCH_RESULT_COUNT } from '@main/services/KnowledgeService'
+import { reduxService } from '@main/services/ReduxService'
+import { windowService } from '@main/services/WindowService'
+import type { ApiServerKnowledgeRequest, ApiServerKnowledgeResponse } from '@shared/config/types'
+import { IpcChannel } from '@shared/IpcChannel'
+import type {
+  ApiKnowledgeAddItemRequest,
+  ApiKnowledgeBase,
+  ApiKnowledgeSearchRequest,
+  ApiKnowledgeSearchResult,
+  KnowledgeBase,
+  KnowledgeBaseParams,
+  KnowledgeItem
+} from '@types'
+
+import { loggerService } from '../../services/LoggerService'
+
+const logger = loggerService.withContext('KnowledgeApiService')
+
+// 与渲染进程中知识库搜索的默认值一致
+const DEFAULT_DOCUMENT_COUNT = 6
+const RENDERER_REQUEST_TIMEOUT_MS = 30 * 1000
+
+// Distributes ApiServerKnowledgeRequest over its union members so `action` stays a discriminant
+type RendererRequestPayload<T = ApiServerKnowledgeRequest> = T extends unknown ? Omit<T, 'requestId'> : never
+
+export class KnowledgeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string
+  ) {
+    super(message)
+    this.name = 'KnowledgeApiError'
+  }
+}
+
+function toModelId(model: KnowledgeBase['model'] | undefined): string | undefined {
+  return model ? `${model.provider}:${model.id}` : undefined
+}
+
+function toApiKnowledgeBase(base: KnowledgeBase): ApiKnowledgeBase {
+  return {
+    id: base.id,
+    name: base.name,
+    description: base.description,
+    model: toModelId(base.model)!,
+    rerank_model: toModelId(base.rerankModel),
+    dimensions: base.dimensions,
+    document_count: base.documentCount,
+    threshold: base.threshold,
+    item_count: base.items.length,
+    created_at: base.created_at,
+    updated_at: base.updated_at
+  }
+}
+
+/**
+ * KnowledgeApiService - API layer for knowledge bases
+ *
+ * Knowledge bases live in the renderer's Redux store, and the renderer builds the
+ * embedding/rerank client params for them. Reads go through ReduxService, params and
+ * new items are requested from the renderer over IPC, and the actual search runs on
+ * the main process KnowledgeService.
+ */
+class KnowledgeApiService {
+  private pendingRequests = new Map<
+    string,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  >()
+
+  async listBases(): Promise<ApiKnowledgeBase[]> {
+    const bases = await this.getBases()
+    return bases.map(toApiKnowledgeBase)
+  }
+
+  async search(baseId: string, request: ApiKnowledgeSearchRequest): Promise<ApiKnowledgeSearchResult[]> {
+    const base = await this.getBase(baseId)
+
+    if (request.rerank && !base.rerankModel) {
+      throw new KnowledgeApiError(
+        `Knowledge base '${baseId}' has no rerank model configured`,
+        400,
+        'rerank_model_not_configured'
+      )
+    }
+
+    // The search itself returns at most the base's document count
+    const maxTopK = base.documentCount || DEFAULT_SEARCH_RESULT_COUNT
+    if (request.top_k !== undefined && request.top_k > maxTopK) {
+      throw new KnowledgeApiError(
+        `top_k cannot exceed the document count of knowledge base '${baseId}' (${maxTopK})`,
+        400,
+        'top_k_too_large'
+      )
+    }
+
+    const params = await this.requestRenderer<KnowledgeBaseParams>({ action: 'get-base-params', baseId })
+    const topK = request.top_k ?? base.documentCount ?? DEFAULT_DOCUMENT_COUNT
+    const threshold = request.threshold ?? base.threshold ?? 0
+
+    logger.debug('Searching knowledge base', { baseId, topK, threshold, rerank: !!request.rerank })
+
+    let results = await KnowledgeService.search({} as Electron.IpcMainInvokeEvent, {
+      search: request.query,
+      base: params,
+      threshold
+    })
+
+    if (request.rerank && results.length > 0) {
+      results = await KnowledgeService.rerank({} as Electron.IpcMainInvokeEvent, {
+        search: request.query,
+        base: params,
+        results
+      })
+    }
+
+    return results.slice(0, topK).map((result) => ({
+      content: result.pageContent,
+      score: result.score,
+      source: result.metadata?.source,
+      metadata: result.metadata ?? {}
+    }))
+  }
+
+  async addItem(baseId: string, request: ApiKnowledgeAddItemRequest): Promise<KnowledgeItem> {
+    await this.getBase(baseId)
+
+    const content = request.type === 'url' ? request.url : request.content
+    const item = await this.requestRenderer<KnowledgeItem>({ action: 'add-item', baseId, type: request.type, content })
+
+    logger.info('Knowledge item added', { baseId, itemId: item.id, type: item.type })
+    return item
+  }
+
+  respond(response: ApiServerKnowledgeResponse): boolean {
+    const pending = this.pendingRequests.get(response.requestId)
+    if (!pending) {
+      return false
+    }
+
+    this.pendingRequests.delete(response.requestId)
+    clearTimeout(pending.timer)
+
+    if ('error' in response) {
+      pending.reject(new Error(response.error))
+    } else {
+      pending.resolve(response.result)
+    }
+    return true
+  }
+
+  private async getBases(): Promise<KnowledgeBase[]> {
+    const bases = await reduxService.select<KnowledgeBase[]>('state.knowledge.bases')
+    return Array.isArray(bases) ? bases : []
+  }
+
+  private async getBase(baseId: string): Promise<KnowledgeBase> {
+    const base = (await this.getBases()).find((b) => b.id === baseId)
+    if (!base) {
+      throw new KnowledgeApiError(`Knowledge base '${baseId}' not found`, 404, 'knowledge_base_not_found')
+    }
+    return base
+  }
+
+  private requestRenderer<T>(payload: RendererRequestPayload): Promise<T> {
+    const mainWindow = windowService.getMainWindow()
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      return Promise.reject(new KnowledgeApiError('Main window is not available', 503, 'renderer_unavailable'))
+    }
+
+    const requestId = randomUUID()
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId)
+        reject(new KnowledgeApiError('Knowledge request to the renderer timed out', 504, 'renderer_timeout'))
+      }, RENDERER_REQUEST_TIMEOUT_MS)
+
+      this.pendingRequests.set(requestId, { resolve: resolve as (value: unknown) => void, reject, timer })
+      mainWindow.webContents.send(IpcChannel.ApiServer_KnowledgeRequest, { ...payload, requestId })
+    })
+  }
+}
+
+export const knowledgeApiService = new KnowledgeApiService()
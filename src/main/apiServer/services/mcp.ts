@@ -52,8 +52,8 @@ class MCPApiService extends EventEmitter {
     this.transport.onmessage = this.onMessage
   }
 
-  // get all activated servers
-  async getAllServers(req: Request): Promise<McpServersResp> {
+  // get all activated servers, limited to the allowed ones when given
+  async getAllServers(req: Request, allowedServers?: string[]): Promise<McpServersResp> {
     try {
       const servers = await getMCPServersFromRedux()
       logger.debug('Returning servers from Redux', { count: servers.length })
@@ -61,7 +61,7 @@ class MCPApiService extends EventEmitter {
         servers: {}
       }
       for (const server of servers) {
-        if (server.isActive) {
+        if (server.isActive && (!allowedServers?.length || allowedServers.includes(server.id))) {
           resp.servers[server.id] = {
             id: server.id,
             name: server.name,
@@ -0,0 +1,248 @@
+import mcpService from '@main/services/MCPService'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp'
+import type { CallToolResult, Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types.js'
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { buildFunctionCallToolName } from '@shared/mcp'
+import type { MCPPrompt, MCPServer, MCPTool } from '@types'
+import { BuiltinMCPServerNames } from '@types'
+import { randomUUID } from 'crypto'
+import type { Request, Response } from 'express'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { omit } from 'lodash'
+
+import { loggerService } from '../../services/LoggerService'
+import { getMCPServersFromRedux } from '../utils/mcp'
+
+const logger = loggerService.withContext('MCPGatewayService')
+
+const GATEWAY_SERVER_NAME = 'cherry-studio-gateway'
+const GATEWAY_SERVER_VERSION = '1.0.0'
+
+type Entry<T> = { server: MCPServer; item: T }
+
+export interface GatewayCatalog {
+  /** Namespaced tool name (mcp__server__tool) -> source tool */
+  tools: Map<string, Entry<MCPTool>>
+  /** Namespaced prompt name (mcp__server__prompt) -> source prompt */
+  prompts: Map<string, Entry<MCPPrompt>>
+  /** Resource URI -> source resource, URIs are kept as-is */
+  resources: Map<string, Entry<Resource>>
+}
+
+interface GatewaySession {
+  transport: StreamableHTTPServerTransport
+  keyId?: string
+}
+
+/**
+ * Active servers exposed through the gateway. The hub server is excluded since it
+ * already aggregates every other server.
+ */
+export async function getGatewayServers(allowedServerIds?: string[]): Promise<MCPServer[]> {
+  const servers = await getMCPServersFromRedux()
+  return servers.filter(
+    (server) =>
+      server.isActive &&
+      server.name !== BuiltinMCPServerNames.hub &&
+      (!allowedServerIds?.length || allowedServerIds.includes(server.id))
+  )
+}
+
+// Lists from every server in parallel, a failing server is skipped instead of failing the whole list
+async function collect<T>(
+  servers: MCPServer[],
+  kind: string,
+  list: (server: MCPServer) => Promise<T[]>
+): Promise<Entry<T>[]> {
+  const results = await Promise.allSettled(servers.map(list))
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      logger.warn(`Failed to list ${kind}`, { server: servers[index].name, error: result.reason })
+      return []
+    }
+    return result.value.map((item) => ({ server: servers[index], item }))
+  })
+}
+
+// First entry wins when two servers produce the same namespaced name
+function addUnique<T>(map: Map<string, Entry<T>>, name: string, entry: Entry<T>) {
+  if (map.has(name)) {
+    logger.warn('Duplicate namespaced name, skipping', { name, server: entry.server.name })
+    return
+  }
+  map.set(name, entry)
+}
+
+export async function buildGatewayCatalog(servers: MCPServer[]): Promise<GatewayCatalog> {
+  const catalog: GatewayCatalog = { tools: new Map(), prompts: new Map(), resources: new Map() }
+
+  const [tools, prompts, resources] = await Promise.all([
+    collect(servers, 'tools', async (server) => {
+      const disabledTools = new Set(server.disabledTools ?? [])
+      const tools = await mcpService.listTools(null as unknown as Electron.IpcMainInvokeEvent, server)
+      return tools.filter((tool) => !disabledTools.has(tool.name))
+    }),
+    collect(servers, 'prompts', (server) =>
+      mcpService.listPrompts(null as unknown as Electron.IpcMainInvokeEvent, server)
+    ),
+    collect(servers, 'resources', (server) =>
+      mcpService.listResources(null as unknown as Electron.IpcMainInvokeEvent, server)
+    )
+  ])
+
+  for (const entry of tools) {
+    addUnique(catalog.tools, buildFunctionCallToolName(entry.server.name, entry.item.name), entry)
+  }
+  for (const entry of prompts) {
+    addUnique(catalog.prompts, buildFunctionCallToolName(entry.server.name, entry.item.name), entry)
+  }
+  for (const { server, item } of resources) {
+    addUnique(catalog.resources, item.uri, { server, item: omit(item, ['serverId', 'serverName']) })
+  }
+
+  return catalog
+}
+
+/**
+ * MCPGatewayService - one Streamable HTTP MCP endpoint for every active server
+ *
+ * Tools and prompts are exposed under namespaced names (`mcp__{server}__{name}`) and
+ * forwarded to the owning server through MCPService, so stdio, SSE and HTTP servers
+ * all work. API keys with `allowedMcpServers` only see those servers.
+ */
+class MCPGatewayService {
+  private sessions: Record<string, GatewaySession> = {}
+
+  async handleRequest(req: Request, res: Response, keyId?: string, allowedServerIds?: string[]) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined
+    const existing = sessionId ? this.sessions[sessionId] : undefined
+
+    if (existing && existing.keyId !== keyId) {
+      logger.warn('MCP gateway session used with a different API key', { sessionId })
+      return res.status(403).json({
+        error: {
+          message: 'MCP session belongs to a different API key',
+          type: 'permission_error',
+          code: 'session_forbidden'
+        }
+      })
+    }
+
+    let transport: StreamableHTTPServerTransport
+    if (existing) {
+      transport = existing.transport
+    } else {
+      transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          this.sessions[sessionId] = { transport, keyId }
+        }
+      })
+      transport.onclose = () => {
+        logger.info('Gateway transport closed', { sessionId: transport.sessionId })
+        if (transport.sessionId) {
+          delete this.sessions[transport.sessionId]
+        }
+      }
+      await this.createServer(allowedServerIds).connect(transport)
+    }
+
+    logger.debug('Dispatching MCP gateway request', { sessionId: transport.sessionId ?? sessionId })
+    return transport.handleRequest(req as IncomingMessage, res as ServerResponse, req.body)
+  }
+
+  private createServer(allowedServerIds?: string[]): Server {
+    const server = new Server(
+      { name: GATEWAY_SERVER_NAME, version: GATEWAY_SERVER_VERSION },
+      { capabilities: { tools: {}, prompts: {}, resources: {} } }
+    )
+    const catalog = async () => buildGatewayCatalog(await getGatewayServers(allowedServerIds))
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const { tools } = await catalog()
+      return {
+        tools: Array.from(
+          tools,
+          ([name, { server, item }]): Tool => ({
+            name,
+            description: item.description ? `[${server.name}] ${item.description}` : `[${server.name}]`,
+            inputSchema: item.inputSchema as Tool['inputSchema'],
+            outputSchema: item.outputSchema as Tool['outputSchema']
+          })
+        )
+      }
+    })
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const entry = (await catalog()).tools.get(request.params.name)
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${request.params.name}`)
+      }
+      const result = await mcpService.callTool(null as unknown as Electron.IpcMainInvokeEvent, {
+        server: entry.server,
+        name: entry.item.name,
+        args: request.params.arguments ?? {}
+      })
+      return result as CallToolResult
+    })
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const { prompts } = await catalog()
+      return {
+        prompts: Array.from(
+          prompts,
+          ([name, { item }]): Prompt => ({
+            name,
+            description: item.description,
+            arguments: item.arguments
+          })
+        )
+      }
+    })
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const entry = (await catalog()).prompts.get(request.params.name)
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`)
+      }
+      return mcpService.getPrompt(null as unknown as Electron.IpcMainInvokeEvent, {
+        server: entry.server,
+        name: entry.item.name,
+        args: request.params.arguments
+      })
+    })
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const { resources } = await catalog()
+      return { resources: Array.from(resources.values(), ({ item }) => item) }
+    })
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const entry = (await catalog()).resources.get(request.params.uri)
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`)
+      }
+      const { contents } = await mcpService.getResource(null as unknown as Electron.IpcMainInvokeEvent, {
+        server: entry.server,
+        uri: request.params.uri
+      })
+      return {
+        contents: contents.map((content) => omit(content, ['serverId', 'serverName']))
+      }
+    })
+
+    return server
+  }
+}
+
+export const mcpGatewayService = new MCPGatewayService()
@@ -5,6 +5,7 @@ import { loggerService } from '../../services/LoggerService'
 import {
   getAvailableProviders,
   getProviderAnthropicModelChecker,
+  isEmbeddingModel,
   listAllAvailableModels,
   transformModelToOpenAI
 } from '../utils'
@@ -16,7 +17,10 @@ const logger = loggerService.withContext('ModelsService')
 export type ModelsFilter = ApiModelsFilter
 
 export class ModelsService {
-  async getModels(filter: ModelsFilter): Promise<ApiModelsResponse> {
+  /**
+   * @param allowedModels Restricts the list to these `provider:model_id` ids, e.g. for a scoped API key
+   */
+  async getModels(filter: ModelsFilter, allowedModels?: string[]): Promise<ApiModelsResponse> {
     try {
       logger.debug('Getting available models from providers', { filter })
 
@@ -46,9 +50,18 @@ export class ModelsService {
           }
         }
 
+        if (filter.type && (filter.type === 'embedding') !== isEmbeddingModel(model)) {
+          logger.debug(`Skipping model ${model.id} from ${model.provider}. Reason: Not a ${filter.type} model.`)
+          continue
+        }
+
         const openAIModel = transformModelToOpenAI(model, provider)
         const fullModelId = openAIModel.id // This is already in format "provider:model_id"
 
+        if (allowedModels?.length && !allowedModels.includes(fullModelId)) {
+          continue
+        }
+
         // Only add if not already present (first occurrence wins)
         if (!uniqueModels.has(fullModelId)) {
           uniqueModels.set(fullModelId, openAIModel)
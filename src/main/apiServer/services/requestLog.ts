@@ -0,0 +1,288 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { getDataPath } from '@main/utils'
+import type {
+  ApiRequestLogEntry,
+  ApiRequestLogFilter,
+  ApiRequestLogPage,
+  ApiRequestLogQuery,
+  ApiUsageGroup,
+  ApiUsageQuery,
+  ApiUsageResponse,
+  ApiUsageTotals
+} from '@types'
+
+import { loggerService } from '../../services/LoggerService'
+import { config } from '../config'
+import { getAvailableProviders } from '../utils'
+
+const logger = loggerService.withContext('ApiRequestLogService')
+
+const FLUSH_INTERVAL_MS = 2 * 1000
+const MAX_BUFFERED_ENTRIES = 100
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+const LOG_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Local calendar day, used for log file names and the `day` usage grouping
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function matchesFilter(entry: ApiRequestLogEntry, filter: ApiRequestLogFilter): boolean {
+  if (filter.from !== undefined && entry.timestamp < filter.from) return false
+  if (filter.to !== undefined && entry.timestamp > filter.to) return false
+  if (filter.key_id && entry.keyId !== filter.key_id) return false
+  if (filter.provider && entry.provider !== filter.provider) return false
+  if (filter.model && entry.model !== filter.model) return false
+  if (filter.route && !entry.route.startsWith(filter.route)) return false
+  if (filter.status === 'success' && entry.status >= 400) return false
+  if (filter.status === 'error' && entry.status < 400) return false
+  return true
+}
+
+const emptyTotals = (): ApiUsageTotals => ({
+  requests: 0,
+  errors: 0,
+  input_tokens: 0,
+  output_tokens: 0,
+  cost: {}
+})
+
+const addToTotals = (totals: ApiUsageTotals, entry: ApiRequestLogEntry) => {
+  totals.requests += 1
+  if (entry.status >= 400) {
+    totals.errors += 1
+  }
+  totals.input_tokens += entry.inputTokens ?? 0
+  totals.output_tokens += entry.outputTokens ?? 0
+  if (entry.cost) {
+    const currency = entry.currencySymbol || '$'
+    totals.cost[currency] = (totals.cost[currency] ?? 0) + entry.cost
+  }
+}
+
+const groupKey = (entry: ApiRequestLogEntry, groupBy: NonNullable<ApiUsageQuery['group_by']>): string => {
+  switch (groupBy) {
+    case 'key':
+      return entry.keyId ?? 'unauthenticated'
+    case 'model':
+      return entry.provider && entry.model ? `${entry.provider}:${entry.model}` : 'none'
+    case 'provider':
+      return entry.provider ?? 'none'
+    case 'route':
+      return entry.route
+    case 'day':
+      return toDayKey(entry.timestamp)
+  }
+}
+
+export function aggregateUsage(entries: ApiRequestLogEntry[], query: ApiUsageQuery): ApiUsageResponse {
+  const total = emptyTotals()
+  const groups = new Map<string, ApiUsageGroup>()
+
+  for (const entry of entries) {
+    if (!matchesFilter(entry, query)) {
+      continue
+    }
+    addToTotals(total, entry)
+
+    if (query.group_by) {
+      const key = groupKey(entry, query.group_by)
+      let group = groups.get(key)
+      if (!group) {
+        group = { group: key, ...emptyTotals() }
+        groups.set(key, group)
+      }
+      addToTotals(group, entry)
+    }
+  }
+
+  return {
+    object: 'usage',
+    from: query.from,
+    to: query.to,
+    group_by: query.group_by,
+    total,
+    data: Array.from(groups.values()).sort((a, b) =>
+      query.group_by === 'day' ? a.group.localeCompare(b.group) : b.requests - a.requests
+    )
+  }
+}
+
+/**
+ * ApiRequestLogService - persisted log of API server requests
+ *
+ * Entries are appended to one JSONL file per day under `Data/ApiServer/requests`,
+ * buffered briefly to avoid a disk write per request. Files older than the
+ * configured retention are deleted.
+ */
+class ApiRequestLogService {
+  private buffer: ApiRequestLogEntry[] = []
+  private flushTimer: NodeJS.Timeout | null = null
+  private flushing: Promise<void> = Promise.resolve()
+  private lastPrunedAt = 0
+
+  private get logDir(): string {
+    return path.join(getDataPath(), 'ApiServer', 'requests')
+  }
+
+  async record(entry: ApiRequestLogEntry): Promise<void> {
+    const settings = await config.getRequestLogSettings()
+    if (!settings.enabled) {
+      return
+    }
+
+    this.buffer.push(await this.withCost(entry))
+
+    if (this.buffer.length >= MAX_BUFFERED_ENTRIES) {
+      await this.flush()
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch((error) => logger.warn('Failed to flush request log', { error }))
+      }, FLUSH_INTERVAL_MS)
+      this.flushTimer.unref?.()
+    }
+  }
+
+  async query(query: ApiRequestLogQuery): Promise<ApiRequestLogPage> {
+    const entries = (await this.readEntries(query)).filter((entry) => matchesFilter(entry, query))
+    entries.sort((a, b) => b.timestamp - a.timestamp)
+
+    const offset = query.offset ?? 0
+    const limit = query.limit ?? 50
+    return { data: entries.slice(offset, offset + limit), total: entries.length }
+  }
+
+  async getUsage(query: ApiUsageQuery): Promise<ApiUsageResponse> {
+    return aggregateUsage(await this.readEntries(query), query)
+  }
+
+  async clear(): Promise<void> {
+    this.buffer = []
+    await this.flushing
+    await fs.promises.rm(this.logDir, { recursive: true, force: true })
+    logger.info('Request log cleared')
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+
+    const entries = this.buffer
+    this.buffer = []
+
+    this.flushing = this.flushing.then(async () => {
+      if (entries.length > 0) {
+        await this.write(entries)
+      }
+      await this.pruneIfDue()
+    })
+    await this.flushing
+  }
+
+  private async write(entries: ApiRequestLogEntry[]): Promise<void> {
+    await fs.promises.mkdir(this.logDir, { recursive: true })
+
+    const byDay = new Map<string, string[]>()
+    for (const entry of entries) {
+      const day = toDayKey(entry.timestamp)
+      byDay.set(day, [...(byDay.get(day) ?? []), JSON.stringify(entry)])
+    }
+
+    for (const [day, lines] of byDay) {
+      await fs.promises.appendFile(path.join(this.logDir, `${day}.jsonl`), lines.join('\n') + '\n', 'utf-8')
+    }
+  }
+
+  private async pruneIfDue(): Promise<void> {
+    const now = Date.now()
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return
+    }
+    this.lastPrunedAt = now
+
+    const { retentionDays } = await config.getRequestLogSettings()
+    const oldestDay = toDayKey(now - retentionDays * DAY_MS)
+
+    for (const file of await this.listFiles()) {
+      if (file.day < oldestDay) {
+        await fs.promises.rm(file.path, { force: true })
+        logger.debug('Pruned request log file', { day: file.day })
+      }
+    }
+  }
+
+  private async listFiles(): Promise<{ day: string; path: string }[]> {
+    try {
+      const names = await fs.promises.readdir(this.logDir)
+      return names.flatMap((name) => {
+        const match = LOG_FILE_PATTERN.exec(name)
+        return match ? [{ day: match[1], path: path.join(this.logDir, name) }] : []
+      })
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+  }
+
+  // Reads the entries from the day files overlapping the filter's time range
+  private async readEntries(filter: ApiRequestLogFilter): Promise<ApiRequestLogEntry[]> {
+    await this.flush()
+
+    const fromDay = filter.from !== undefined ? toDayKey(filter.from) : undefined
+    const toDay = filter.to !== undefined ? toDayKey(filter.to) : undefined
+    const entries: ApiRequestLogEntry[] = []
+
+    for (const file of await this.listFiles()) {
+      if ((fromDay && file.day < fromDay) || (toDay && file.day > toDay)) {
+        continue
+      }
+
+      const content = await fs.promises.readFile(file.path, 'utf-8')
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue
+        }
+        try {
+          entries.push(JSON.parse(line))
+        } catch {
+          logger.warn('Skipping malformed request log line', { day: file.day })
+        }
+      }
+    }
+
+    return entries
+  }
+
+  private async withCost(entry: ApiRequestLogEntry): Promise<ApiRequestLogEntry> {
+    if (!entry.provider || !entry.model || (!entry.inputTokens && !entry.outputTokens)) {
+      return entry
+    }
+
+    const providers = await getAvailableProviders({ includeAiSdkProviders: true })
+    const model = providers
+      .find((provider) => provider.id === entry.provider)
+      ?.models.find((model) => model.id === entry.model)
+    const pricing = model?.pricing
+    if (!pricing) {
+      return entry
+    }
+
+    const cost =
+      ((entry.inputTokens ?? 0) * pricing.input_per_million_tokens +
+        (entry.outputTokens ?? 0) * pricing.output_per_million_tokens) /
+      1_000_000
+    return { ...entry, cost, currencySymbol: pricing.currencySymbol || '$' }
+  }
+}
+
+export const apiRequestLogService = new ApiRequestLogService()
@@ -0,0 +1,97 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import type { ChatCompletionMessageParam } from '@cherrystudio/openai/resources'
+import type { Response } from '@cherrystudio/openai/resources/responses/responses'
+import { getDataPath } from '@main/utils'
+
+import { loggerService } from '../../services/LoggerService'
+
+const logger = loggerService.withContext('ApiResponseStore')
+
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const RESPONSE_ID_PATTERN = /^resp_[A-Za-z0-9-]+$/
+
+export interface StoredResponse {
+  response: Response
+  /** Full conversation up to and including this response, used to continue from `previous_response_id` */
+  messages: ChatCompletionMessageParam[]
+  /** Id of the API key that created the response */
+  keyId?: string
+}
+
+/**
+ * ResponseStore - stored responses of the `/v1/responses` endpoint
+ *
+ * Each response is a JSON file under `Data/ApiServer/responses`, deleted after 30 days.
+ */
+class ResponseStore {
+  private lastPrunedAt = 0
+
+  private get storeDir(): string {
+    return path.join(getDataPath(), 'ApiServer', 'responses')
+  }
+
+  // Ids come from the request path, never let them escape the store directory
+  private filePath(id: string): string | null {
+    return RESPONSE_ID_PATTERN.test(id) ? path.join(this.storeDir, `${id}.json`) : null
+  }
+
+  async get(id: string): Promise<StoredResponse | null> {
+    const file = this.filePath(id)
+    if (!file) {
+      return null
+    }
+
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf-8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async save(stored: StoredResponse): Promise<void> {
+    const file = this.filePath(stored.response.id)
+    if (!file) {
+      throw new Error(`Invalid response id: ${stored.response.id}`)
+    }
+
+    await fs.promises.mkdir(this.storeDir, { recursive: true })
+    await fs.promises.writeFile(file, JSON.stringify(stored), 'utf-8')
+
+    this.pruneIfDue().catch((error) => logger.warn('Failed to prune stored responses', { error }))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const file = this.filePath(id)
+    if (!file || !fs.existsSync(file)) {
+      return false
+    }
+
+    await fs.promises.rm(file, { force: true })
+    return true
+  }
+
+  private async pruneIfDue(): Promise<void> {
+    const now = Date.now()
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return
+    }
+    this.lastPrunedAt = now
+
+    for (const name of await fs.promises.readdir(this.storeDir)) {
+      const file = path.join(this.storeDir, name)
+      const stats = await fs.promises.stat(file)
+      if (now - stats.mtimeMs > RETENTION_MS) {
+        await fs.promises.rm(file, { force: true })
+        logger.debug('Pruned stored response', { file: name })
+      }
+    }
+  }
+}
+
+export const responseStore = new ResponseStore()
@@ -0,0 +1,581 @@
+import type OpenAI from '@cherrystudio/openai'
+import type {
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption
+} from '@cherrystudio/openai/resources'
+import type {
+  Response,
+  ResponseCreateParams,
+  ResponseFunctionToolCall,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseOutputMessage,
+  ResponseReasoningItem,
+  ResponseStreamEvent,
+  ResponseUsage
+} from '@cherrystudio/openai/resources/responses/responses'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * OpenAI Responses API 与 chat completions 之间的协议转换。
+ * 请求转换为 chat completions 后交给 ChatCompletionService，因此所有 provider（包括经 AI SDK 转换的）都可使用。
+ */
+
+// 与 chat-completion-translator 一致，思考内容通过 reasoning_content 返回
+type ReasoningDelta = { reasoning_content?: string | null }
+
+type ChatCompletionMessage = OpenAI.Chat.Completions.ChatCompletionMessage & ReasoningDelta
+
+export class ResponsesValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Validation failed: ${errors.join(', ')}`)
+    this.name = 'ResponsesValidationError'
+  }
+}
+
+const newId = (prefix: string) => `${prefix}_${uuidv4().replace(/-/g, '')}`
+
+function textOf(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (!content) {
+    return ''
+  }
+  if (typeof content === 'string') {
+    return content
+  }
+  return content
+    .map((part) => part.text ?? '')
+    .filter(Boolean)
+    .join('\n')
+}
+
+function toChatContentPart(part: ResponseInputContent): ChatCompletionContentPart {
+  switch (part.type) {
+    case 'input_text':
+      return { type: 'text', text: part.text }
+    case 'input_image':
+      if (!part.image_url) {
+        throw new ResponsesValidationError(['input_image requires image_url, file_id is not supported'])
+      }
+      return { type: 'image_url', image_url: { url: part.image_url, detail: part.detail } }
+    case 'input_file':
+      if (!part.file_data) {
+        throw new ResponsesValidationError(['input_file requires file_data, file_id and file_url are not supported'])
+      }
+      return { type: 'file', file: { file_data: part.file_data, filename: part.filename } }
+    default:
+      throw new ResponsesValidationError([`Input content type '${(part as { type: string }).type}' is not supported`])
+  }
+}
+
+/**
+ * 将 Responses 的 input 转换为 chat completions 消息。
+ * 连续的 function_call 合并到同一条 assistant 消息中。
+ */
+export function toChatMessages(input: ResponseCreateParams['input']): ChatCompletionMessageParam[] {
+  if (input === undefined) {
+    return []
+  }
+  if (typeof input === 'string') {
+    return [{ role: 'user', content: input }]
+  }
+
+  const messages: ChatCompletionMessageParam[] = []
+  let assistant: ChatCompletionAssistantMessageParam | null = null
+
+  const pushAssistant = (message: ChatCompletionAssistantMessageParam) => {
+    messages.push(message)
+    assistant = message
+  }
+
+  for (const item of input as ResponseInputItem[]) {
+    const type = item.type ?? 'message'
+
+    switch (type) {
+      case 'message': {
+        const message = item as Extract<ResponseInputItem, { role: string; content: unknown }>
+        if (message.role === 'assistant') {
+          pushAssistant({
+            role: 'assistant',
+            content: textOf(message.content as Array<{ type: string; text?: string }>)
+          })
+          continue
+        }
+        assistant = null
+        if (message.role === 'user') {
+          messages.push({
+            role: 'user',
+            content:
+              typeof message.content === 'string'
+                ? message.content
+                : (message.content as ResponseInputContent[]).map(toChatContentPart)
+          })
+        } else {
+          messages.push({
+            role: message.role,
+            content: textOf(message.content as Array<{ type: string; text?: string }>)
+          })
+        }
+        break
+      }
+      case 'function_call': {
+        const call = item as ResponseFunctionToolCall
+        const toolCall = {
+          id: call.call_id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments }
+        }
+        const current = assistant as ChatCompletionAssistantMessageParam | null
+        if (current) {
+          current.tool_calls = [...(current.tool_calls ?? []), toolCall]
+        } else {
+          pushAssistant({ role: 'assistant', content: null, tool_calls: [toolCall] })
+        }
+        break
+      }
+      case 'function_call_output': {
+        const output = item as ResponseInputItem.FunctionCallOutput
+        assistant = null
+        messages.push({
+          role: 'tool',
+          tool_call_id: output.call_id,
+          content: typeof output.output === 'string' ? output.output : textOf(output.output)
+        })
+        break
+      }
+      case 'reasoning':
+      case 'item_reference':
+        // 思考内容无法回传给其他 provider，引用项由 previous_response_id 覆盖
+        break
+      default:
+        throw new ResponsesValidationError([`Input item type '${type}' is not supported`])
+    }
+  }
+
+  return messages
+}
+
+function toChatTools(tools: ResponseCreateParams['tools']): ChatCompletionTool[] | undefined {
+  if (!tools?.length) {
+    return undefined
+  }
+
+  const unsupported = tools.filter((tool) => tool.type !== 'function').map((tool) => tool.type)
+  if (unsupported.length > 0) {
+    throw new ResponsesValidationError([`Tool types not supported by this gateway: ${unsupported.join(', ')}`])
+  }
+
+  return tools.flatMap((tool) =>
+    tool.type === 'function'
+      ? [
+          {
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description ?? undefined,
+              parameters: tool.parameters ?? undefined,
+              strict: tool.strict ?? undefined
+            }
+          }
+        ]
+      : []
+  )
+}
+
+function toChatToolChoice(choice: ResponseCreateParams['tool_choice']): ChatCompletionToolChoiceOption | undefined {
+  if (!choice) {
+    return undefined
+  }
+  if (typeof choice === 'string') {
+    return choice
+  }
+  if (choice.type === 'function') {
+    return { type: 'function', function: { name: choice.name } }
+  }
+  return undefined
+}
+
+function toResponseFormat(
+  text: ResponseCreateParams['text']
+): ChatCompletionCreateParams['response_format'] | undefined {
+  const format = text?.format
+  switch (format?.type) {
+    case 'json_schema':
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: format.name,
+          description: format.description,
+          schema: format.schema,
+          strict: format.strict
+        }
+      }
+    case 'json_object':
+      return { type: 'json_object' }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 将 Responses 请求转换为 chat completions 请求，messages 为之前的对话与本次 input
+ */
+export function toChatCompletionRequest(
+  request: ResponseCreateParams,
+  messages: ChatCompletionMessageParam[]
+): ChatCompletionCreateParams {
+  const tools = toChatTools(request.tools)
+
+  return {
+    model: request.model as string,
+    messages: request.instructions ? [{ role: 'system', content: request.instructions }, ...messages] : messages,
+    tools,
+    tool_choice: tools ? toChatToolChoice(request.tool_choice) : undefined,
+    parallel_tool_calls: tools ? (request.parallel_tool_calls ?? undefined) : undefined,
+    max_completion_tokens: request.max_output_tokens ?? undefined,
+    temperature: request.temperature ?? undefined,
+    top_p: request.top_p ?? undefined,
+    reasoning_effort: request.reasoning?.effort ?? undefined,
+    response_format: toResponseFormat(request.text),
+    user: request.user,
+    stream: !!request.stream,
+    ...(request.stream ? { stream_options: { include_usage: true } } : {})
+  }
+}
+
+/**
+ * 创建状态为 in_progress 的 Response，回显请求参数
+ */
+export function createResponse(request: ResponseCreateParams): Response {
+  return {
+    id: newId('resp'),
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'in_progress',
+    model: request.model as string,
+    instructions: request.instructions ?? null,
+    previous_response_id: request.previous_response_id ?? null,
+    metadata: request.metadata ?? null,
+    tools: request.tools ?? [],
+    tool_choice: request.tool_choice ?? 'auto',
+    parallel_tool_calls: request.parallel_tool_calls ?? true,
+    temperature: request.temperature ?? null,
+    top_p: request.top_p ?? null,
+    max_output_tokens: request.max_output_tokens ?? null,
+    reasoning: request.reasoning ?? null,
+    text: request.text ?? { format: { type: 'text' } },
+    user: request.user,
+    output: [],
+    output_text: '',
+    error: null,
+    incomplete_details: null
+  }
+}
+
+export function toResponseUsage(usage: OpenAI.CompletionUsage | undefined): ResponseUsage | undefined {
+  if (!usage) {
+    return undefined
+  }
+  return {
+    input_tokens: usage.prompt_tokens,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0 },
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+    total_tokens: usage.total_tokens
+  }
+}
+
+function completeResponse(
+  base: Response,
+  output: ResponseOutputItem[],
+  finishReason: string | null | undefined,
+  usage: ResponseUsage | undefined
+): Response {
+  const incomplete = finishReason === 'length' || finishReason === 'content_filter'
+  return {
+    ...base,
+    status: incomplete ? 'incomplete' : 'completed',
+    incomplete_details: incomplete
+      ? { reason: finishReason === 'length' ? 'max_output_tokens' : 'content_filter' }
+      : null,
+    output,
+    output_text: output
+      .flatMap((item) => (item.type === 'message' ? item.content : []))
+      .map((part) => (part.type === 'output_text' ? part.text : ''))
+      .join(''),
+    usage
+  }
+}
+
+/**
+ * 将 chat completion 转换为 Response
+ */
+export function toResponse(base: Response, completion: OpenAI.Chat.Completions.ChatCompletion): Response {
+  const choice = completion.choices[0]
+  const message = choice?.message as ChatCompletionMessage | undefined
+  const output: ResponseOutputItem[] = []
+
+  if (message?.reasoning_content) {
+    output.push({
+      type: 'reasoning',
+      id: newId('rs'),
+      summary: [{ type: 'summary_text', text: message.reasoning_content }]
+    })
+  }
+  if (message?.content) {
+    output.push({
+      type: 'message',
+      id: newId('msg'),
+      role: 'assistant',
+      status: 'completed',
+      content: [{ type: 'output_text', text: message.content, annotations: [] }]
+    })
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    if (toolCall.type !== 'function') {
+      continue
+    }
+    output.push({
+      type: 'function_call',
+      id: newId('fc'),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: 'completed'
+    })
+  }
+
+  return completeResponse(base, output, choice?.finish_reason, toResponseUsage(completion.usage))
+}
+
+/**
+ * 将 Response 的输出转换为 chat completions 消息，用于 previous_response_id 续接对话
+ */
+export function toOutputMessages(output: ResponseOutputItem[]): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = []
+  let assistant: ChatCompletionAssistantMessageParam | null = null
+
+  for (const item of output) {
+    if (item.type === 'message') {
+      assistant = {
+        role: 'assistant',
+        content: textOf(item.content.map((part) => ({ type: part.type, text: 'text' in part ? part.text : '' })))
+      }
+      messages.push(assistant)
+    } else if (item.type === 'function_call') {
+      const toolCall = {
+        id: item.call_id,
+        type: 'function' as const,
+        function: { name: item.name, arguments: item.arguments }
+      }
+      if (assistant) {
+        assistant.tool_calls = [...(assistant.tool_calls ?? []), toolCall]
+      } else {
+        assistant = { role: 'assistant', content: null, tool_calls: [toolCall] }
+        messages.push(assistant)
+      }
+    }
+  }
+
+  return messages
+}
+
+type StreamEvent = ResponseStreamEvent extends infer E
+  ? E extends { sequence_number: number }
+    ? Omit<E, 'sequence_number'>
+    : never
+  : never
+
+/**
+ * 将 chat completion chunk 流转换为 Responses 的流式事件
+ */
+export async function* toResponseEvents(
+  chunks: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  base: Response
+): AsyncGenerator<ResponseStreamEvent> {
+  let sequenceNumber = 0
+  const event = (payload: StreamEvent): ResponseStreamEvent =>
+    ({ ...payload, sequence_number: sequenceNumber++ }) as ResponseStreamEvent
+
+  const output: ResponseOutputItem[] = []
+  let reasoning: { item: ResponseReasoningItem; index: number; text: string } | null = null
+  let message: { item: ResponseOutputMessage; index: number; text: string } | null = null
+  const calls = new Map<number, { item: ResponseFunctionToolCall & { id: string }; index: number }>()
+  let finishReason: string | null = null
+  let usage: ResponseUsage | undefined
+
+  function* closeReasoning(): Generator<ResponseStreamEvent> {
+    if (!reasoning) {
+      return
+    }
+    const { item, index, text } = reasoning
+    const part = { type: 'summary_text' as const, text }
+    item.summary = [part]
+    yield event({
+      type: 'response.reasoning_summary_text.done',
+      item_id: item.id,
+      output_index: index,
+      summary_index: 0,
+      text
+    })
+    yield event({
+      type: 'response.reasoning_summary_part.done',
+      item_id: item.id,
+      output_index: index,
+      summary_index: 0,
+      part
+    })
+    yield event({ type: 'response.output_item.done', output_index: index, item })
+    reasoning = null
+  }
+
+  function* closeMessage(): Generator<ResponseStreamEvent> {
+    if (!message) {
+      return
+    }
+    const { item, index, text } = message
+    const part = { type: 'output_text' as const, text, annotations: [] }
+    item.content = [part]
+    item.status = 'completed'
+    yield event({
+      type: 'response.output_text.done',
+      item_id: item.id,
+      output_index: index,
+      content_index: 0,
+      text,
+      logprobs: []
+    })
+    yield event({ type: 'response.content_part.done', item_id: item.id, output_index: index, content_index: 0, part })
+    yield event({ type: 'response.output_item.done', output_index: index, item })
+    message = null
+  }
+
+  yield event({ type: 'response.created', response: base })
+  yield event({ type: 'response.in_progress', response: base })
+
+  for await (const chunk of chunks) {
+    if (chunk.usage) {
+      usage = toResponseUsage(chunk.usage)
+    }
+
+    const choice = chunk.choices[0]
+    if (!choice) {
+      continue
+    }
+    const delta = choice.delta as typeof choice.delta & ReasoningDelta
+
+    if (delta.reasoning_content) {
+      if (!reasoning) {
+        const item: ResponseReasoningItem = { type: 'reasoning', id: newId('rs'), summary: [] }
+        reasoning = { item, index: output.push(item) - 1, text: '' }
+        yield event({ type: 'response.output_item.added', output_index: reasoning.index, item })
+        yield event({
+          type: 'response.reasoning_summary_part.added',
+          item_id: item.id,
+          output_index: reasoning.index,
+          summary_index: 0,
+          part: { type: 'summary_text', text: '' }
+        })
+      }
+      reasoning.text += delta.reasoning_content
+      yield event({
+        type: 'response.reasoning_summary_text.delta',
+        item_id: reasoning.item.id,
+        output_index: reasoning.index,
+        summary_index: 0,
+        delta: delta.reasoning_content
+      })
+    }
+
+    if (delta.content) {
+      yield* closeReasoning()
+      if (!message) {
+        const item: ResponseOutputMessage = {
+          type: 'message',
+          id: newId('msg'),
+          role: 'assistant',
+          status: 'in_progress',
+          content: []
+        }
+        message = { item, index: output.push(item) - 1, text: '' }
+        yield event({ type: 'response.output_item.added', output_index: message.index, item })
+        yield event({
+          type: 'response.content_part.added',
+          item_id: item.id,
+          output_index: message.index,
+          content_index: 0,
+          part: { type: 'output_text', text: '', annotations: [] }
+        })
+      }
+      message.text += delta.content
+      yield event({
+        type: 'response.output_text.delta',
+        item_id: message.item.id,
+        output_index: message.index,
+        content_index: 0,
+        delta: delta.content,
+        logprobs: []
+      })
+    }
+
+    for (const toolCall of delta.tool_calls ?? []) {
+      yield* closeReasoning()
+      yield* closeMessage()
+
+      let call = calls.get(toolCall.index)
+      if (!call) {
+        const item = {
+          type: 'function_call' as const,
+          id: newId('fc'),
+          call_id: toolCall.id ?? newId('call'),
+          name: toolCall.function?.name ?? '',
+          arguments: '',
+          status: 'in_progress' as const
+        }
+        call = { item, index: output.push(item) - 1 }
+        calls.set(toolCall.index, call)
+        yield event({ type: 'response.output_item.added', output_index: call.index, item })
+      }
+
+      const args = toolCall.function?.arguments
+      if (args) {
+        call.item.arguments += args
+        yield event({
+          type: 'response.function_call_arguments.delta',
+          item_id: call.item.id,
+          output_index: call.index,
+          delta: args
+        })
+      }
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason
+    }
+  }
+
+  yield* closeReasoning()
+  yield* closeMessage()
+  for (const { item, index } of calls.values()) {
+    item.status = 'completed'
+    yield event({
+      type: 'response.function_call_arguments.done',
+      item_id: item.id,
+      output_index: index,
+      name: item.name,
+      arguments: item.arguments
+    })
+    yield event({ type: 'response.output_item.done', output_index: index, item })
+  }
+
+  const response = completeResponse(base, output, finishReason, usage)
+  yield event(
+    response.status === 'incomplete'
+      ? { type: 'response.incomplete', response }
+      : { type: 'response.completed', response }
+  )
+}
@@ -0,0 +1,168 @@
+import type { ChatCompletionMessageParam } from '@cherrystudio/openai/resources'
+import type {
+  Response,
+  ResponseCreateParams,
+  ResponseStreamEvent
+} from '@cherrystudio/openai/resources/responses/responses'
+
+import { loggerService } from '../../services/LoggerService'
+import { PRIMARY_KEY_ID } from '../middleware/auth'
+import { chatCompletionService } from './chat-completion'
+import {
+  createResponse,
+  ResponsesValidationError,
+  toChatCompletionRequest,
+  toChatMessages,
+  toOutputMessages,
+  toResponse,
+  toResponseEvents
+} from './responses-translator'
+import type { StoredResponse } from './responseStore'
+import { responseStore } from './responseStore'
+
+const logger = loggerService.withContext('ResponsesService')
+
+export class ResponsesApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string
+  ) {
+    super(message)
+    this.name = 'ResponsesApiError'
+  }
+}
+
+interface StoreOwner {
+  /** Id of the API key making the request, responses are only visible to the key that created them */
+  keyId?: string
+}
+
+interface PreparedRequest {
+  base: Response
+  messages: ChatCompletionMessageParam[]
+}
+
+/**
+ * ResponsesService - OpenAI Responses API on top of the chat completion service
+ *
+ * Requests are translated to chat completions so every configured provider can serve them.
+ * Responses are kept in the local response store unless `store: false` is set, which is
+ * what `previous_response_id` continues from. Stored responses belong to the key that created
+ * them, other keys get a 404 as if they did not exist. The primary key can access all of them.
+ */
+export class ResponsesService {
+  async create(request: ResponseCreateParams, owner: StoreOwner = {}): Promise<Response> {
+    const { base, messages } = await this.prepare(request, owner)
+    const { response: completion } = await chatCompletionService.processCompletion(
+      toChatCompletionRequest({ ...request, stream: false }, messages)
+    )
+
+    const response = toResponse(base, completion)
+    await this.save(request, response, messages, owner)
+    logger.info('Response created', { id: response.id, model: response.model, status: response.status })
+    return response
+  }
+
+  async createStream(
+    request: ResponseCreateParams,
+    owner: StoreOwner = {}
+  ): Promise<AsyncIterable<ResponseStreamEvent>> {
+    const { base, messages } = await this.prepare(request, owner)
+    const { stream } = await chatCompletionService.processStreamingCompletion(
+      toChatCompletionRequest({ ...request, stream: true }, messages)
+    )
+
+    const save = (response: Response) => this.save(request, response, messages, owner)
+    return (async function* () {
+      for await (const event of toResponseEvents(stream, base)) {
+        if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+          await save(event.response)
+        }
+        yield event
+      }
+    })()
+  }
+
+  async get(id: string, owner: StoreOwner = {}): Promise<Response> {
+    const stored = await this.find(id, owner)
+    if (!stored) {
+      throw new ResponsesApiError(`Response '${id}' not found`, 404, 'response_not_found')
+    }
+    return stored.response
+  }
+
+  async delete(id: string, owner: StoreOwner = {}): Promise<void> {
+    if (!(await this.find(id, owner)) || !(await responseStore.delete(id))) {
+      throw new ResponsesApiError(`Response '${id}' not found`, 404, 'response_not_found')
+    }
+  }
+
+  private async find(id: string, owner: StoreOwner): Promise<StoredResponse | null> {
+    const stored = await responseStore.get(id)
+    if (!stored || !owner.keyId || owner.keyId === PRIMARY_KEY_ID || stored.keyId === owner.keyId) {
+      return stored
+    }
+    return null
+  }
+
+  private async prepare(request: ResponseCreateParams, owner: StoreOwner): Promise<PreparedRequest> {
+    const errors: string[] = []
+    if (!request.model || typeof request.model !== 'string') {
+      errors.push('Model is required')
+    }
+    if (request.input === undefined) {
+      errors.push('Input is required')
+    }
+    if (request.background) {
+      errors.push('Background responses are not supported')
+    }
+    if (request.conversation) {
+      errors.push('Conversations are not supported, use previous_response_id instead')
+    }
+    if (errors.length > 0) {
+      throw new ResponsesValidationError(errors)
+    }
+
+    let history: ChatCompletionMessageParam[] = []
+    if (request.previous_response_id) {
+      const previous = await this.find(request.previous_response_id, owner)
+      if (!previous) {
+        throw new ResponsesApiError(
+          `Previous response '${request.previous_response_id}' not found`,
+          404,
+          'previous_response_not_found'
+        )
+      }
+      history = previous.messages
+    }
+
+    return {
+      base: createResponse(request),
+      messages: [...history, ...toChatMessages(request.input)]
+    }
+  }
+
+  private async save(
+    request: ResponseCreateParams,
+    response: Response,
+    messages: ChatCompletionMessageParam[],
+    owner: StoreOwner
+  ): Promise<void> {
+    if (request.store === false) {
+      return
+    }
+
+    try {
+      await responseStore.save({
+        response,
+        messages: [...messages, ...toOutputMessages(response.output)],
+        keyId: owner.keyId
+      })
+    } catch (error) {
+      logger.warn('Failed to store response', { id: response.id, error })
+    }
+  }
+}
+
+export const responsesService = new ResponsesService()
@@ -0,0 +1,255 @@
+import {
+  createProvider,
+  formatPrivateKey,
+  ProviderConfigFactory,
+  registerMultipleProviderConfigs
+} from '@cherrystudio/ai-core/provider'
+import { loggerService } from '@main/services/LoggerService'
+import { reduxService } from '@main/services/ReduxService'
+import { NEW_PROVIDER_CONFIGS } from '@shared/config/aiSdkProviders'
+import { defaultAppHeaders, hasAPIVersion, withoutTrailingSlash } from '@shared/utils'
+import type { Provider } from '@types'
+import type { EmbeddingModel, LanguageModel, Provider as AiSdkProvider } from 'ai'
+
+const logger = loggerService.withContext('ApiServerAiSdkProvider')
+
+let providersRegistered = false
+
+/**
+ * 注册与渲染进程相同的 aiCore 动态 provider（bedrock、vertex、mistral、ollama 等）
+ */
+function registerNewProviders(): void {
+  if (providersRegistered) {
+    return
+  }
+  providersRegistered = true
+
+  try {
+    if (registerMultipleProviderConfigs(NEW_PROVIDER_CONFIGS) < NEW_PROVIDER_CONFIGS.length) {
+      logger.warn('Some providers failed to register')
+    }
+  } catch (error) {
+    logger.error('Failed to register providers', error as Error)
+  }
+}
+
+interface LlmSettings {
+  vertexai: {
+    serviceAccount: { privateKey: string; clientEmail: string }
+    projectId: string
+    location: string
+  }
+  awsBedrock: {
+    authType: 'iam' | 'apiKey'
+    accessKeyId: string
+    secretAccessKey: string
+    apiKey: string
+    region: string
+  }
+}
+
+export interface AiSdkProviderConfig {
+  providerId: string
+  options: Record<string, any>
+}
+
+function formatApiHost(host: string | undefined, apiVersion = 'v1'): string {
+  const normalizedHost = withoutTrailingSlash((host ?? '').trim())
+  if (!normalizedHost) {
+    return ''
+  }
+  if (normalizedHost.endsWith('#')) {
+    return normalizedHost.slice(0, -1)
+  }
+  return hasAPIVersion(normalizedHost) ? normalizedHost : `${normalizedHost}/${apiVersion}`
+}
+
+function isVertexAnthropicModel(provider: Provider, modelId: string): boolean {
+  return provider.type === 'vertex-anthropic' || (provider.type === 'vertexai' && modelId.includes('claude'))
+}
+
+/**
+ * 按 provider 类型解析 aiCore 中的 provider ID，openai 及兼容类型使用 openai-compatible
+ */
+export function getAiSdkProviderId(provider: Provider, modelId: string): string {
+  switch (provider.type) {
+    case 'anthropic':
+      return 'anthropic'
+    case 'gemini':
+      return 'google'
+    case 'azure-openai':
+      return 'azure'
+    case 'vertexai':
+    case 'vertex-anthropic':
+      return isVertexAnthropicModel(provider, modelId) ? 'google-vertex-anthropic' : 'google-vertex'
+    case 'aws-bedrock':
+      return 'bedrock'
+    case 'mistral':
+      return 'mistral'
+    case 'ollama':
+      return 'ollama'
+    case 'gateway':
+      return 'gateway'
+    case 'openai-response':
+      return 'openai'
+    default:
+      return 'openai-compatible'
+  }
+}
+
+/**
+ * 将 Cherry Studio 的 Provider 配置转换为 aiCore provider 工厂的参数
+ */
+export async function providerToAiSdkConfig(provider: Provider, modelId: string): Promise<AiSdkProviderConfig> {
+  const providerId = getAiSdkProviderId(provider, modelId)
+  const headers = { ...defaultAppHeaders(), ...provider.extra_headers }
+  const baseConfig = { baseURL: formatApiHost(provider.apiHost), apiKey: provider.apiKey }
+
+  switch (providerId) {
+    case 'anthropic':
+      baseConfig.baseURL = formatApiHost(provider.anthropicApiHost || provider.apiHost)
+      break
+    case 'google':
+      baseConfig.baseURL = formatApiHost(provider.apiHost, 'v1beta')
+      break
+    case 'azure': {
+      const host = withoutTrailingSlash(provider.apiHost.trim())
+        .replace(/\/v1$/, '')
+        .replace(/\/openai$/, '')
+      const apiVersion = provider.apiVersion?.trim()
+      return {
+        providerId,
+        options: ProviderConfigFactory.fromProvider(
+          'azure',
+          { ...baseConfig, baseURL: `${host}/openai` },
+          {
+            headers,
+            apiVersion,
+            useDeploymentBasedUrls: apiVersion && !['preview', 'v1'].includes(apiVersion) ? true : undefined
+          }
+        )
+      }
+    }
+    case 'google-vertex':
+    case 'google-vertex-anthropic': {
+      const { vertexai } = (await reduxService.select<LlmSettings>('state.llm.settings')) ?? {}
+      if (!vertexai?.projectId || !vertexai.location || !vertexai.serviceAccount?.privateKey) {
+        throw new Error(
+          'VertexAI is not configured. Please configure project, location and service account credentials.'
+        )
+      }
+      const { projectId: project, location, serviceAccount } = vertexai
+      const trimmedHost = withoutTrailingSlash(provider.apiHost.trim())
+      const host =
+        !trimmedHost || trimmedHost.endsWith('aiplatform.googleapis.com')
+          ? `${formatApiHost(location === 'global' ? 'https://aiplatform.googleapis.com' : `https://${location}-aiplatform.googleapis.com`)}/projects/${project}/locations/${location}`
+          : formatApiHost(trimmedHost)
+      const publisher = providerId === 'google-vertex' ? '/publishers/google' : '/publishers/anthropic/models'
+      return {
+        providerId,
+        options: ProviderConfigFactory.fromProvider(
+          providerId,
+          { ...baseConfig, baseURL: host + publisher },
+          {
+            headers,
+            project,
+            location,
+            googleCredentials: {
+              clientEmail: serviceAccount.clientEmail,
+              privateKey: formatPrivateKey(serviceAccount.privateKey)
+            }
+          }
+        )
+      }
+    }
+    case 'bedrock': {
+      const { awsBedrock } = (await reduxService.select<LlmSettings>('state.llm.settings')) ?? {}
+      const credentials =
+        awsBedrock?.authType === 'apiKey'
+          ? { apiKey: awsBedrock.apiKey }
+          : { accessKeyId: awsBedrock?.accessKeyId, secretAccessKey: awsBedrock?.secretAccessKey }
+      return {
+        providerId,
+        options: ProviderConfigFactory.fromProvider(providerId, baseConfig, {
+          headers,
+          region: awsBedrock?.region,
+          ...credentials
+        })
+      }
+    }
+    case 'ollama': {
+      const host = withoutTrailingSlash(provider.apiHost.trim())
+        .replace(/\/v1$/, '')
+        .replace(/\/api$/, '')
+        .replace(/\/chat$/, '')
+      return {
+        providerId,
+        options: {
+          baseURL: `${host}/api`,
+          headers: {
+            ...provider.extra_headers,
+            ...(provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {})
+          }
+        }
+      }
+    }
+    case 'openai-compatible':
+      return {
+        providerId,
+        options: {
+          ...ProviderConfigFactory.createOpenAICompatible(baseConfig.baseURL, baseConfig.apiKey),
+          name: provider.id,
+          headers,
+          includeUsage: true
+        }
+      }
+  }
+
+  return {
+    providerId,
+    options: ProviderConfigFactory.fromProvider(providerId, baseConfig, { headers })
+  }
+}
+
+type AiSdkProviderInstance = AiSdkProvider & { chat?: (modelId: string) => LanguageModel }
+
+async function createAiSdkProvider(
+  provider: Provider,
+  modelId: string
+): Promise<{ providerId: string; aiSdkProvider: AiSdkProviderInstance }> {
+  registerNewProviders()
+
+  const { providerId, options } = await providerToAiSdkConfig(provider, modelId)
+  const aiSdkProvider: AiSdkProviderInstance = await createProvider(providerId, options)
+
+  logger.debug('AI SDK provider created', { provider: provider.id, providerId, modelId })
+
+  return { providerId, aiSdkProvider }
+}
+
+/**
+ * 通过 aiCore provider 工厂创建指定模型的 AI SDK LanguageModel
+ */
+export async function createLanguageModel(
+  provider: Provider,
+  modelId: string
+): Promise<{ providerId: string; model: LanguageModel }> {
+  const { providerId, aiSdkProvider } = await createAiSdkProvider(provider, modelId)
+
+  // Azure 默认走 Responses API，此处与 OpenAI chat completions 语义保持一致
+  const model =
+    providerId === 'azure' && aiSdkProvider.chat ? aiSdkProvider.chat(modelId) : aiSdkProvider.languageModel(modelId)
+
+  return { providerId, model }
+}
+
+/**
+ * 通过 aiCore provider 工厂创建指定模型的 AI SDK EmbeddingModel
+ */
+export async function createEmbeddingModel(
+  provider: Provider,
+  modelId: string
+): Promise<{ providerId: string; model: EmbeddingModel<string> }> {
+  const { providerId, aiSdkProvider } = await createAiSdkProvider(provider, modelId)
+  return { providerId, model: aiSdkProvider.textEmbeddingModel(modelId) }
+}
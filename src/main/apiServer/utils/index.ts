@@ -1,8 +1,9 @@
 import { CacheService } from '@main/services/CacheService'
 import { loggerService } from '@main/services/LoggerService'
 import { reduxService } from '@main/services/ReduxService'
+import { EMBEDDING_REGEX, RERANKING_REGEX } from '@shared/config/models'
 import { isSiliconAnthropicCompatibleModel } from '@shared/config/providers'
-import type { ApiModel, Model, Provider } from '@types'
+import type { ApiModel, Model, ModelType, Provider } from '@types'
 
 const logger = loggerService.withContext('ApiServerUtils')
 
@@ -10,15 +11,25 @@ const logger = loggerService.withContext('ApiServerUtils')
 const PROVIDERS_CACHE_KEY = 'api-server:providers'
 const PROVIDERS_CACHE_TTL = 10 * 1000 // 10 seconds
 
-export async function getAvailableProviders(): Promise<Provider[]> {
+export interface ProviderQueryOptions {
+  // Also accept provider types that are only reachable through the AI SDK protocol translation
+  includeAiSdkProviders?: boolean
+}
+
+function isSupportedProviderType(provider: Provider, { includeAiSdkProviders }: ProviderQueryOptions): boolean {
+  return includeAiSdkProviders || provider.type === 'openai' || provider.type === 'anthropic'
+}
+
+export async function getAvailableProviders(options: ProviderQueryOptions = {}): Promise<Provider[]> {
   try {
     // Try to get from cache first (faster)
-    const cachedSupportedProviders = CacheService.get<Provider[]>(PROVIDERS_CACHE_KEY)
-    if (cachedSupportedProviders && cachedSupportedProviders.length > 0) {
+    const cachedEnabledProviders = CacheService.get<Provider[]>(PROVIDERS_CACHE_KEY)
+    if (cachedEnabledProviders && cachedEnabledProviders.length > 0) {
+      const supportedProviders = cachedEnabledProviders.filter((p) => isSupportedProviderType(p, options))
       logger.debug('Providers resolved from cache', {
-        count: cachedSupportedProviders.length
+        count: supportedProviders.length
       })
-      return cachedSupportedProviders
+      return supportedProviders
     }
 
     // If cache is not available, get fresh data from Redux
@@ -28,13 +39,12 @@ export async function getAvailableProviders(): Promise<Provider[]> {
       return []
     }
 
-    // Support OpenAI and Anthropic type providers for API server
-    const supportedProviders = providers.filter(
-      (p: Provider) => p.enabled && (p.type === 'openai' || p.type === 'anthropic')
-    )
+    // Cache the enabled providers, the type filter depends on the caller
+    const enabledProviders = providers.filter((p: Provider) => p.enabled)
+    CacheService.set(PROVIDERS_CACHE_KEY, enabledProviders, PROVIDERS_CACHE_TTL)
 
-    // Cache the filtered results
-    CacheService.set(PROVIDERS_CACHE_KEY, supportedProviders, PROVIDERS_CACHE_TTL)
+    // Only OpenAI and Anthropic type providers are supported unless the caller goes through the AI SDK
+    const supportedProviders = enabledProviders.filter((p) => isSupportedProviderType(p, options))
 
     logger.info('Providers filtered', {
       supported: supportedProviders.length,
@@ -60,7 +70,10 @@ export async function listAllAvailableModels(providers?: Provider[]): Promise<Mo
   }
 }
 
-export async function getProviderByModel(model: string): Promise<Provider | undefined> {
+export async function getProviderByModel(
+  model: string,
+  options: ProviderQueryOptions = {}
+): Promise<Provider | undefined> {
   try {
     if (!model || typeof model !== 'string') {
       logger.warn('Invalid model parameter', { model })
@@ -73,7 +86,7 @@ export async function getProviderByModel(model: string): Promise<Provider | unde
       return undefined
     }
 
-    const providers = await getAvailableProviders()
+    const providers = await getAvailableProviders(options)
     const modelInfo = model.split(':')
 
     if (modelInfo.length < 2 || modelInfo[0].length === 0 || modelInfo[1].length === 0) {
@@ -110,7 +123,10 @@ export interface ModelValidationError {
   code: string
 }
 
-export async function validateModelId(model: string): Promise<{
+export async function validateModelId(
+  model: string,
+  options: ProviderQueryOptions = {}
+): Promise<{
   valid: boolean
   error?: ModelValidationError
   provider?: Provider
@@ -153,14 +169,16 @@ export async function validateModelId(model: string): Promise<{
 
     const providerId = modelInfo[0]
     const modelId = getRealProviderModel(model)
-    const provider = await getProviderByModel(model)
+    const provider = await getProviderByModel(model, options)
 
     if (!provider) {
       return {
         valid: false,
         error: {
           type: 'provider_not_found',
-          message: `Provider '${providerId}' not found, not enabled, or not supported. Only OpenAI providers are currently supported.`,
+          message: options.includeAiSdkProviders
+            ? `Provider '${providerId}' not found or not enabled.`
+            : `Provider '${providerId}' not found, not enabled, or not supported. Only OpenAI providers are currently supported.`,
           code: 'provider_not_found'
         }
       }
@@ -239,7 +257,7 @@ export async function getProviderById(providerId: string): Promise<Provider | un
   }
 }
 
-export function validateProvider(provider: Provider): boolean {
+export function validateProvider(provider: Provider, options: ProviderQueryOptions = {}): boolean {
   try {
     if (!provider) {
       return false
@@ -263,7 +281,7 @@ export function validateProvider(provider: Provider): boolean {
     }
 
     // Support OpenAI and Anthropic type providers
-    if (provider.type !== 'openai' && provider.type !== 'anthropic') {
+    if (!isSupportedProviderType(provider, options)) {
       logger.debug('Provider type not supported', {
         providerId: provider.id,
         providerType: provider.type
@@ -295,3 +313,34 @@ export const getProviderAnthropicModelChecker = (providerId: string): ((m: Model
       return () => true
   }
 }
+
+function getUserSelectedModelType(model: Model, type: ModelType): boolean | undefined {
+  return model.capabilities?.find((c) => c.type === type)?.isUserSelected
+}
+
+/**
+ * Mirrors the renderer's isEmbeddingModel check, which depends on renderer-only utils
+ */
+export const isEmbeddingModel = (model: Model): boolean => {
+  const baseName = (model.id.split('/').pop() ?? model.id).toLowerCase()
+
+  const userSelectedRerank = getUserSelectedModelType(model, 'rerank')
+  if (userSelectedRerank ?? RERANKING_REGEX.test(baseName)) {
+    return false
+  }
+
+  const userSelectedEmbedding = getUserSelectedModelType(model, 'embedding')
+  if (userSelectedEmbedding !== undefined) {
+    return userSelectedEmbedding
+  }
+
+  if (model.provider === 'anthropic') {
+    return false
+  }
+
+  if (model.provider === 'doubao' || baseName.includes('doubao')) {
+    return EMBEDDING_REGEX.test(model.name)
+  }
+
+  return EMBEDDING_REGEX.test(baseName)
+}
@@ -0,0 +1,93 @@
+import type { Response } from 'express'
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+const toNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0)
+
+/**
+ * Reads token usage from an OpenAI, Anthropic or Responses style payload.
+ * Handles both full responses and stream events (`message_start`, `message_delta`, `response.completed`).
+ */
+export function extractUsage(payload: unknown): TokenUsage | undefined {
+  if (!payload || typeof payload !== 'object') {
+    return undefined
+  }
+
+  const record = payload as Record<string, any>
+  const usage = record.usage ?? record.message?.usage ?? record.response?.usage
+  if (!usage || typeof usage !== 'object') {
+    return undefined
+  }
+
+  return {
+    inputTokens: toNumber(usage.prompt_tokens ?? usage.input_tokens),
+    outputTokens: toNumber(usage.completion_tokens ?? usage.output_tokens)
+  }
+}
+
+/**
+ * Accumulates usage across stream events. Anthropic reports input tokens on `message_start`
+ * and cumulative output tokens on `message_delta`, so each field keeps its largest value.
+ */
+export function mergeUsage(current: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined {
+  if (!next) {
+    return current
+  }
+  if (!current) {
+    return next
+  }
+  return {
+    inputTokens: Math.max(current.inputTokens, next.inputTokens),
+    outputTokens: Math.max(current.outputTokens, next.outputTokens)
+  }
+}
+
+/**
+ * Extracts usage from a chunk of server-sent events, reading every `data:` line
+ */
+export function extractUsageFromSse(chunk: string): TokenUsage | undefined {
+  let usage: TokenUsage | undefined
+  for (const line of chunk.split('\n')) {
+    if (!line.startsWith('data:')) {
+      continue
+    }
+    const data = line.slice(5).trim()
+    if (!data || data === '[DONE]' || !data.includes('usage')) {
+      continue
+    }
+    try {
+      usage = mergeUsage(usage, extractUsage(JSON.parse(data)))
+    } catch {
+      // Partial or non-JSON event, skip it
+    }
+  }
+  return usage
+}
+
+/**
+ * Calls `onClose` once the response is closed, with the token usage it reported either through
+ * `res.json` or as server-sent events through `res.write`. Usage is undefined if none was reported.
+ */
+export function trackResponseUsage(res: Response, onClose: (usage: TokenUsage | undefined) => void): void {
+  let usage: TokenUsage | undefined
+
+  const originalJson = res.json.bind(res)
+  res.json = (body: any) => {
+    usage = mergeUsage(usage, extractUsage(body))
+    return originalJson(body)
+  }
+
+  const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean
+  res.write = ((...args: unknown[]) => {
+    const [chunk] = args
+    if (typeof chunk === 'string' || Buffer.isBuffer(chunk)) {
+      usage = mergeUsage(usage, extractUsageFromSse(chunk.toString()))
+    }
+    return originalWrite(...args)
+  }) as Response['write']
+
+  res.once('close', () => onClose(usage))
+}
@@ -606,6 +606,8 @@ export async function registerIpc(mainWindow: BrowserWindow, app: Electron.App)
   ipcMain.handle(IpcChannel.Backup_CheckS3Connection, backupManager.checkS3Connection.bind(backupManager))
   ipcMain.handle(IpcChannel.Backup_CreateLanTransferBackup, backupManager.createLanTransferBackup.bind(backupManager))
   ipcMain.handle(IpcChannel.Backup_DeleteTempBackup, backupManager.deleteTempBackup.bind(backupManager))
+  ipcMain.handle(IpcChannel.Backup_GetStoredPassphrase, backupManager.getStoredPassphrase.bind(backupManager))
+  ipcMain.handle(IpcChannel.Backup_SetStoredPassphrase, backupManager.setStoredPassphrase.bind(backupManager))
 
   // file
   ipcMain.handle(IpcChannel.File_Open, fileManager.open.bind(fileManager))
@@ -705,6 +707,16 @@ export async function registerIpc(mainWindow: BrowserWindow, app: Electron.App)
   ipcMain.handle(IpcChannel.KnowledgeBase_Remove, KnowledgeService.remove.bind(KnowledgeService))
   ipcMain.handle(IpcChannel.KnowledgeBase_Search, KnowledgeService.search.bind(KnowledgeService))
   ipcMain.handle(IpcChannel.KnowledgeBase_Rerank, KnowledgeService.rerank.bind(KnowledgeService))
+  ipcMain.handle(
+    IpcChannel.KnowledgeBase_UpdateItemMetadata,
+    KnowledgeService.updateItemMetadata.bind(KnowledgeService)
+  )
+  ipcMain.handle(IpcChannel.KnowledgeBase_ExportBundle, KnowledgeService.exportBundle.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_ReadBundle, KnowledgeService.readBundle.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_ImportBundle, KnowledgeService.importBundle.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_SyncDirectory, KnowledgeService.syncDirectory.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_WatchDirectory, KnowledgeService.watchDirectory.bind(KnowledgeService))
+  ipcMain.handle(IpcChannel.KnowledgeBase_UnwatchDirectory, KnowledgeService.unwatchDirectory.bind(KnowledgeService))
 
   // memory
   ipcMain.handle(IpcChannel.Memory_Add, (_, messages, config) => memoryService.add(messages, config))
@@ -821,6 +833,13 @@ export async function registerIpc(mainWindow: BrowserWindow, app: Electron.App)
   ipcMain.handle(IpcChannel.Mcp_AbortTool, mcpService.abortTool)
   ipcMain.handle(IpcChannel.Mcp_GetServerVersion, mcpService.getServerVersion)
   ipcMain.handle(IpcChannel.Mcp_GetServerLogs, mcpService.getServerLogs)
+  ipcMain.handle(IpcChannel.Mcp_GetToolCallHistory, mcpService.getToolCallHistory)
+  ipcMain.handle(IpcChannel.Mcp_ClearToolCallHistory, mcpService.clearToolCallHistory)
+  ipcMain.handle(IpcChannel.Mcp_GetServerHealth, mcpService.getServerHealth)
+  ipcMain.handle(IpcChannel.Mcp_SetRoots, (event, callerId: string, serverIds: string[], paths: string[]) =>
+    mcpService.setRoots(event, callerId, serverIds, paths)
+  )
+  ipcMain.handle(IpcChannel.Mcp_ClientRequestResponse, mcpService.respondToClientRequest)
 
   // DXT upload handler
   ipcMain.handle(IpcChannel.Mcp_UploadDxt, async (event, fileBuffer: ArrayBuffer, fileName: string) => {
@@ -0,0 +1,45 @@
+import { createClient } from '@libsql/client'
+import { describe, expect, it } from 'vitest'
+
+import { KNOWLEDGE_BUNDLE_FORMAT, KNOWLEDGE_BUNDLE_VERSION, parseBundleManifest, readVectorDimensions } from '../bundle'
+
+const manifest = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: KNOWLEDGE_BUNDLE_FORMAT,
+    version: KNOWLEDGE_BUNDLE_VERSION,
+    exportedAt: 1000,
+    embedding: { model: 'text-embedding-3-small', provider: 'openai', name: 'text-embedding-3-small', dimensions: 3 },
+    base: { id: 'base', name: 'Docs', items: [] },
+    ...overrides
+  })
+
+describe('parseBundleManifest', () => {
+  it('accepts a manifest written by the exporter', () => {
+    expect(parseBundleManifest(manifest()).embedding).toMatchObject({ model: 'text-embedding-3-small', dimensions: 3 })
+  })
+
+  it('rejects other archives and newer versions', () => {
+    expect(() => parseBundleManifest('not json')).toThrow('not valid JSON')
+    expect(() => parseBundleManifest(manifest({ format: 'something-else' }))).toThrow('unknown format')
+    expect(() => parseBundleManifest(manifest({ version: KNOWLEDGE_BUNDLE_VERSION + 1 }))).toThrow('Unsupported')
+  })
+
+  it('requires the embedding model and the base definition', () => {
+    expect(() => parseBundleManifest(manifest({ embedding: { name: 'x' } }))).toThrow('missing embedding model')
+    expect(() => parseBundleManifest(manifest({ base: { id: 'base' } }))).toThrow('missing knowledge base definition')
+  })
+})
+
+describe('readVectorDimensions', () => {
+  it('reads the length of stored vectors', async () => {
+    const client = createClient({ url: ':memory:' })
+    await client.execute('CREATE TABLE vectors (id TEXT PRIMARY KEY, vector F32_BLOB(3))')
+
+    expect(await readVectorDimensions(client)).toBeUndefined()
+
+    await client.execute("INSERT INTO vectors (id, vector) VALUES ('a', vector32('[0.1,0.2,0.3]'))")
+    expect(await readVectorDimensions(client)).toBe(3)
+
+    client.close()
+  })
+})
@@ -0,0 +1,125 @@
+import * as fs from 'node:fs'
+import path from 'node:path'
+
+import type { Client } from '@libsql/client'
+import type { KnowledgeBundleManifest } from '@shared/config/types'
+import archiver from 'archiver'
+import StreamZip from 'node-stream-zip'
+
+export const KNOWLEDGE_BUNDLE_FORMAT = 'cherry-studio-knowledge-bundle'
+export const KNOWLEDGE_BUNDLE_VERSION = 1
+
+const MANIFEST_ENTRY = 'manifest.json'
+const DATABASE_ENTRY = 'vectors.db'
+const FILES_DIR = 'files'
+
+export interface KnowledgeBundleFile {
+  // Name inside the files directory of the app, `${id}${ext}`
+  name: string
+  path: string
+}
+
+/**
+ * Read the length of the stored vectors, undefined when the base has no chunks yet.
+ */
+export async function readVectorDimensions(client: Client, tableName = 'vectors'): Promise<number | undefined> {
+  const result = await client.execute(`SELECT vector FROM ${tableName} WHERE vector IS NOT NULL LIMIT 1`)
+  const vector = result.rows[0]?.vector
+  if (vector instanceof ArrayBuffer) {
+    return vector.byteLength / Float32Array.BYTES_PER_ELEMENT
+  }
+  return undefined
+}
+
+/**
+ * Validate the manifest of a bundle, throwing when it was not written by a compatible exporter.
+ */
+export function parseBundleManifest(raw: string): KnowledgeBundleManifest {
+  let manifest: Partial<KnowledgeBundleManifest>
+  try {
+    manifest = JSON.parse(raw)
+  } catch {
+    throw new Error('Invalid knowledge base bundle: manifest is not valid JSON')
+  }
+
+  if (manifest?.format !== KNOWLEDGE_BUNDLE_FORMAT) {
+    throw new Error('Invalid knowledge base bundle: unknown format')
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > KNOWLEDGE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported knowledge base bundle version: ${manifest.version}`)
+  }
+  if (!manifest.embedding?.model || !manifest.embedding.provider) {
+    throw new Error('Invalid knowledge base bundle: missing embedding model')
+  }
+  if (!manifest.base || !Array.isArray(manifest.base.items)) {
+    throw new Error('Invalid knowledge base bundle: missing knowledge base definition')
+  }
+
+  return manifest as KnowledgeBundleManifest
+}
+
+export async function writeKnowledgeBundle(
+  filePath: string,
+  manifest: KnowledgeBundleManifest,
+  databasePath: string,
+  files: KnowledgeBundleFile[]
+): Promise<void> {
+  const output = fs.createWriteStream(filePath)
+  const archive = archiver('zip', { zlib: { level: 6 }, zip64: true })
+
+  await new Promise<void>((resolve, reject) => {
+    output.on('close', () => resolve())
+    output.on('error', reject)
+    archive.on('error', reject)
+
+    archive.pipe(output)
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY })
+    archive.file(databasePath, { name: DATABASE_ENTRY })
+    for (const file of files) {
+      archive.file(file.path, { name: `${FILES_DIR}/${file.name}` })
+    }
+    void archive.finalize()
+  })
+}
+
+export async function readKnowledgeBundleManifest(filePath: string): Promise<KnowledgeBundleManifest> {
+  const zip = new StreamZip.async({ file: filePath })
+  try {
+    const data = await zip.entryData(MANIFEST_ENTRY)
+    return parseBundleManifest(data.toString('utf-8'))
+  } finally {
+    await zip.close()
+  }
+}
+
+/**
+ * Extract the vector database of a bundle to `databasePath` and its files to `filesDir`.
+ * Files already present are kept, since they are addressed by id they have the same content.
+ */
+export async function extractKnowledgeBundle(
+  filePath: string,
+  databasePath: string,
+  filesDir: string
+): Promise<KnowledgeBundleManifest> {
+  const zip = new StreamZip.async({ file: filePath })
+  try {
+    const manifest = parseBundleManifest((await zip.entryData(MANIFEST_ENTRY)).toString('utf-8'))
+    await zip.extract(DATABASE_ENTRY, databasePath)
+
+    const entries = Object.values(await zip.entries())
+    for (const entry of entries) {
+      if (entry.isDirectory || !entry.name.startsWith(`${FILES_DIR}/`)) {
+        continue
+      }
+      // Only keep the base name so an entry cannot escape the files directory
+      const target = path.join(filesDir, path.basename(entry.name))
+      if (!fs.existsSync(target)) {
+        await zip.extract(entry.name, target)
+      }
+    }
+
+    return manifest
+  } finally {
+    await zip.close()
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { getCodeLanguage, splitCode } from '../code'
+
+describe('getCodeLanguage', () => {
+  it('resolves programming languages by extension', () => {
+    expect(getCodeLanguage('.py')).toBe('Python')
+    expect(getCodeLanguage('.TS')).toBe('TypeScript')
+  })
+
+  it('returns undefined for prose and unknown files', () => {
+    expect(getCodeLanguage('.md')).toBeUndefined()
+    expect(getCodeLanguage('.unknownext')).toBeUndefined()
+  })
+})
+
+describe('splitCode', () => {
+  const python = [
+    'class Parser:',
+    '    def parse(self, text):',
+    '        return text.split()',
+    '',
+    '    def render(self, tokens):',
+    '        return " ".join(tokens)',
+    '',
+    'def main():',
+    '    print(Parser().parse("a b"))'
+  ].join('\n')
+
+  it('splits on definition boundaries', async () => {
+    const chunks = await splitCode(python, 'Python', { chunkSize: 80, chunkOverlap: 0 })
+
+    expect(chunks.some((c) => c.pageContent.startsWith('def main():'))).toBe(true)
+    expect(chunks.every((c) => !c.pageContent.includes('return text.split()\n\n    def render'))).toBe(true)
+  })
+
+  it('records the enclosing definitions of each chunk', async () => {
+    const chunks = await splitCode(python, 'Python', { chunkSize: 80, chunkOverlap: 0 })
+
+    const main = chunks.find((c) => c.pageContent.startsWith('def main():'))
+    expect(main?.headingPath).toEqual(['def main'])
+
+    const render = chunks.find((c) => c.pageContent.includes('def render'))
+    expect(render?.headingPath[0]).toBe('class Parser')
+  })
+
+  it('falls back to blank-line boundaries for languages without splitter support', async () => {
+    const text = ['proc first {} {', '  puts a', '}', '', 'proc second {} {', '  puts b', '}'].join('\n')
+
+    const chunks = await splitCode(text, 'Tcl', { chunkSize: 30, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.headingPath)).toEqual([['proc first'], ['proc second']])
+  })
+})
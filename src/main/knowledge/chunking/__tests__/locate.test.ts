@@ -0,0 +1,49 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { describe, expect, it } from 'vitest'
+
+import { locateChunkLines } from '../locate'
+import { splitMarkdown } from '../markdown'
+
+describe('locateChunkLines', () => {
+  it('finds the lines of exact substrings', () => {
+    const text = 'line one\nline two\nline three\nline four'
+
+    expect(locateChunkLines(text, ['line two\nline three', 'line four'])).toEqual([
+      { from: 2, to: 3 },
+      { from: 4, to: 4 }
+    ])
+  })
+
+  it('ignores whitespace differences introduced by splitters', async () => {
+    const text = '# Title\n\nFirst paragraph\nspans two lines.\n\n\n\nSecond paragraph.\n'
+
+    const chunks = await splitMarkdown(text, { chunkSize: 1000, chunkOverlap: 0 })
+    const ranges = locateChunkLines(
+      text,
+      chunks.map((chunk) => chunk.pageContent)
+    )
+
+    expect(ranges).toEqual([{ from: 1, to: 8 }])
+  })
+
+  it('follows overlapping chunks in document order', async () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `Sentence number ${i + 1} repeats the same words.`)
+    const text = lines.join('\n')
+    const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 200, chunkOverlap: 50 })
+
+    const chunks = await splitter.splitText(text)
+    const ranges = locateChunkLines(text, chunks)
+
+    expect(ranges.every(Boolean)).toBe(true)
+    expect(ranges[0]!.from).toBe(1)
+    expect(ranges[ranges.length - 1]!.to).toBe(40)
+    for (let i = 1; i < ranges.length; i++) {
+      expect(ranges[i]!.from).toBeGreaterThan(ranges[i - 1]!.from)
+      expect(ranges[i]!.from).toBeLessThanOrEqual(ranges[i - 1]!.to)
+    }
+  })
+
+  it('leaves chunks that do not come from the text unlocated', () => {
+    expect(locateChunkLines('some text', ['other content', '   '])).toEqual([undefined, undefined])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+
+import { splitMarkdown } from '../markdown'
+
+describe('splitMarkdown', () => {
+  it('splits at headings and records the heading path', async () => {
+    const text = ['# Guide', 'Intro text.', '## Install', 'Run the installer.', '## Usage', 'Open the app.'].join('\n')
+
+    const chunks = await splitMarkdown(text, { chunkSize: 500, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.headingPath)).toEqual([['Guide'], ['Guide', 'Install'], ['Guide', 'Usage']])
+    expect(chunks[1].pageContent).toBe('## Install\nRun the installer.')
+  })
+
+  it('pops the heading stack when going back to a higher level', async () => {
+    const text = ['# A', '## B', 'b', '### C', 'c', '## D', 'd'].join('\n')
+
+    const chunks = await splitMarkdown(text, { chunkSize: 500, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.headingPath)).toEqual([
+      ['A', 'B'],
+      ['A', 'B', 'C'],
+      ['A', 'D']
+    ])
+  })
+
+  it('ignores headings inside fenced code blocks', async () => {
+    const text = ['# Script', '```bash', '# not a heading', 'echo hi', '```'].join('\n')
+
+    const chunks = await splitMarkdown(text, { chunkSize: 500, chunkOverlap: 0 })
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].headingPath).toEqual(['Script'])
+    expect(chunks[0].pageContent).toContain('# not a heading')
+  })
+
+  it('keeps a table in one chunk when it fits', async () => {
+    const table = ['| a | b |', '| - | - |', '| 1 | 2 |', '| 3 | 4 |'].join('\n')
+    const text = ['# Data', 'x'.repeat(40), '', table].join('\n')
+
+    const chunks = await splitMarkdown(text, { chunkSize: 60, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.pageContent)).toContain(table)
+  })
+
+  it('repeats the table header when an oversized table is split', async () => {
+    const rows = Array.from({ length: 10 }, (_, i) => `| row${i} | value${i} |`)
+    const text = ['| name | value |', '| --- | --- |', ...rows].join('\n')
+
+    const chunks = await splitMarkdown(text, { chunkSize: 80, chunkOverlap: 0 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.pageContent.startsWith('| name | value |\n| --- | --- |')).toBe(true)
+    }
+  })
+})
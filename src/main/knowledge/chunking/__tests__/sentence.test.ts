@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { splitBySentence, splitSentences } from '../sentence'
+
+describe('splitSentences', () => {
+  it('splits Latin and CJK sentences', () => {
+    expect(splitSentences('First one. Second one! 第三句。第四句？')).toEqual([
+      'First one.',
+      'Second one!',
+      '第三句。',
+      '第四句？'
+    ])
+  })
+})
+
+describe('splitBySentence', () => {
+  it('never cuts a sentence in half', async () => {
+    const text = 'Alpha beta gamma. Delta epsilon zeta. Eta theta iota. Kappa lambda mu.'
+
+    const chunks = await splitBySentence(text, { chunkSize: 40, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.pageContent)).toEqual([
+      'Alpha beta gamma.\nDelta epsilon zeta.',
+      'Eta theta iota.\nKappa lambda mu.'
+    ])
+  })
+
+  it('keeps whole paragraphs together when they fit', async () => {
+    const chunks = await splitBySentence('One. Two.\n\nThree.', { chunkSize: 100, chunkOverlap: 0 })
+
+    expect(chunks.map((c) => c.pageContent)).toEqual(['One. Two.\nThree.'])
+  })
+
+  it('overlaps with whole trailing sentences', async () => {
+    const text = 'Alpha beta gamma. Delta epsilon zeta. Eta theta iota.'
+
+    const chunks = await splitBySentence(text, { chunkSize: 40, chunkOverlap: 20 })
+
+    expect(chunks.map((c) => c.pageContent)).toEqual([
+      'Alpha beta gamma.\nDelta epsilon zeta.',
+      'Delta epsilon zeta.\nEta theta iota.'
+    ])
+  })
+})
@@ -0,0 +1,131 @@
+import type { SupportedTextSplitterLanguage } from '@langchain/textsplitters'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { codeLanguages } from '@shared/config/code-languages'
+
+import type { ChunkerOptions, StructuredChunk } from './types'
+
+// Linguist language name -> language with dedicated function/class separators in the text splitter
+const SPLITTER_LANGUAGES: Record<string, SupportedTextSplitterLanguage> = {
+  C: 'cpp',
+  'C++': 'cpp',
+  'Objective-C': 'cpp',
+  Go: 'go',
+  Java: 'java',
+  JavaScript: 'js',
+  TypeScript: 'js',
+  TSX: 'js',
+  PHP: 'php',
+  'Protocol Buffer': 'proto',
+  Python: 'python',
+  Ruby: 'ruby',
+  Rust: 'rust',
+  Scala: 'scala',
+  Swift: 'swift',
+  Solidity: 'sol'
+}
+
+const GENERIC_SEPARATORS = ['\n\n\n', '\n\n', '\n', ' ', '']
+
+const DEFINITION_PATTERN =
+  /^(\s*)(?:export\s+)?(?:default\s+)?(?:public\s+|private\s+|protected\s+|internal\s+|static\s+|abstract\s+|final\s+|async\s+|pub(?:\([a-z]+\))?\s+)*(class|interface|struct|enum|trait|impl|object|protocol|extension|module|namespace|def|fn|func|function|fun|sub|proc)\b\s*([^\s({:<;=]*)/
+
+let extensionLanguageCache: Map<string, string> | null = null
+
+/**
+ * Resolve the linguist programming language for a file extension, or undefined for non-code files.
+ * Extensions also claimed by a prose language (`.md`, `.txt`, `.rst`...) are not treated as code.
+ */
+export function getCodeLanguage(ext: string): string | undefined {
+  if (!extensionLanguageCache) {
+    extensionLanguageCache = new Map()
+    const proseExtensions = new Set(
+      Object.values(codeLanguages)
+        .filter((data) => data.type === 'prose')
+        .flatMap((data) => data.extensions ?? [])
+        .map((extension) => extension.toLowerCase())
+    )
+    for (const [name, data] of Object.entries(codeLanguages)) {
+      if (data.type !== 'programming' && !SPLITTER_LANGUAGES[name]) continue
+      for (const extension of data.extensions ?? []) {
+        const normalized = extension.toLowerCase()
+        if (proseExtensions.has(normalized)) continue
+        // First language wins, same as the renderer's extension lookup
+        if (!extensionLanguageCache.has(normalized)) {
+          extensionLanguageCache.set(normalized, name)
+        }
+      }
+    }
+  }
+  return extensionLanguageCache.get(ext.toLowerCase())
+}
+
+interface Definition {
+  offset: number
+  indent: number
+  label: string
+}
+
+function findDefinitions(text: string): Definition[] {
+  const definitions: Definition[] = []
+  let offset = 0
+
+  for (const line of text.split('\n')) {
+    const match = line.match(DEFINITION_PATTERN)
+    if (match) {
+      definitions.push({
+        offset,
+        indent: match[1].replace(/\t/g, '    ').length,
+        label: match[3] ? `${match[2]} ${match[3]}` : match[2]
+      })
+    }
+    offset += line.length + 1
+  }
+
+  return definitions
+}
+
+/**
+ * Definitions enclosing `offset`, approximated by indentation: each definition before the offset
+ * closes every earlier definition at the same or deeper indentation.
+ */
+function definitionPathAt(definitions: Definition[], offset: number): string[] {
+  const stack: Definition[] = []
+  for (const definition of definitions) {
+    if (definition.offset > offset) break
+    while (stack.length > 0 && stack[stack.length - 1].indent >= definition.indent) {
+      stack.pop()
+    }
+    stack.push(definition)
+  }
+  return stack.map((d) => d.label)
+}
+
+/**
+ * Code-aware splitting on function and class boundaries.
+ *
+ * Languages known to the text splitter use its language separators, others fall back to blank-line
+ * boundaries. Each chunk records the definitions enclosing its first line.
+ */
+export async function splitCode(
+  text: string,
+  language: string | undefined,
+  { chunkSize, chunkOverlap }: ChunkerOptions
+): Promise<StructuredChunk[]> {
+  const splitterLanguage = language ? SPLITTER_LANGUAGES[language] : undefined
+  const splitter = splitterLanguage
+    ? RecursiveCharacterTextSplitter.fromLanguage(splitterLanguage, { chunkSize, chunkOverlap })
+    : new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap, separators: GENERIC_SEPARATORS })
+
+  const definitions = findDefinitions(text)
+  const pieces = await splitter.splitText(text)
+  let searchFrom = 0
+
+  return pieces.map((pageContent) => {
+    const found = text.indexOf(pageContent, searchFrom)
+    const offset = found === -1 ? searchFrom : found
+    if (found !== -1) {
+      searchFrom = found + 1
+    }
+    return { pageContent, headingPath: definitionPathAt(definitions, offset) }
+  })
+}
@@ -0,0 +1,44 @@
+import { getCodeLanguage, splitCode } from './code'
+import { splitMarkdown } from './markdown'
+import { splitBySentence } from './sentence'
+import type { ChunkerOptions, StructuredChunk, StructuredChunkStrategy } from './types'
+
+export { getCodeLanguage } from './code'
+export type { LineRange } from './locate'
+export { locateChunkLines } from './locate'
+export type { ChunkerOptions, StructuredChunk, StructuredChunkStrategy } from './types'
+
+const MARKDOWN_EXTS = ['.md', '.markdown', '.mdx']
+
+/**
+ * Whether a file with the given extension can be split with the given strategy.
+ * Binary and rich documents (PDF, Office, EPUB...) always use their own loaders.
+ */
+export function supportsChunkStrategy(strategy: StructuredChunkStrategy, ext: string, isPlainText: boolean): boolean {
+  const normalizedExt = ext.toLowerCase()
+  switch (strategy) {
+    case 'markdown':
+      return MARKDOWN_EXTS.includes(normalizedExt)
+    case 'code':
+      return getCodeLanguage(normalizedExt) !== undefined
+    case 'sentence':
+      return isPlainText || MARKDOWN_EXTS.includes(normalizedExt)
+    default:
+      return false
+  }
+}
+
+export async function splitStructuredText(
+  text: string,
+  strategy: StructuredChunkStrategy,
+  options: ChunkerOptions & { ext?: string }
+): Promise<StructuredChunk[]> {
+  switch (strategy) {
+    case 'markdown':
+      return splitMarkdown(text, options)
+    case 'code':
+      return splitCode(text, options.ext ? getCodeLanguage(options.ext) : undefined, options)
+    case 'sentence':
+      return splitBySentence(text, options)
+  }
+}
@@ -0,0 +1,98 @@
+export interface LineRange {
+  /** 1-based, inclusive */
+  from: number
+  to: number
+}
+
+// Long enough to be unique in practice, short enough to stay inside a chunk with trimmed edges
+const ANCHOR_LENGTH = 64
+
+interface NormalizedText {
+  value: string
+  /** Offset in the original text of every character of `value` */
+  offsets: number[]
+}
+
+/**
+ * Collapse whitespace runs into a single space, remembering where each character came from.
+ */
+function normalizeWhitespace(text: string): NormalizedText {
+  let value = ''
+  const offsets: number[] = []
+  let inWhitespace = false
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inWhitespace) {
+        value += ' '
+        offsets.push(i)
+      }
+      inWhitespace = true
+      continue
+    }
+    value += text[i]
+    offsets.push(i)
+    inWhitespace = false
+  }
+
+  return { value, offsets }
+}
+
+/**
+ * Find the line range each chunk covers in the text it was split from.
+ *
+ * Splitters trim chunks and may join blocks with different whitespace, so chunks are matched
+ * on whitespace-normalized anchors taken from their start and end. Chunks are expected in
+ * document order; a chunk that cannot be found gets no range.
+ */
+export function locateChunkLines(text: string, chunks: string[]): (LineRange | undefined)[] {
+  const source = normalizeWhitespace(text)
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1)
+    }
+  }
+
+  const lineAt = (offset: number) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return low + 1
+  }
+
+  let cursor = 0
+  return chunks.map((chunk) => {
+    const content = normalizeWhitespace(chunk).value.trim()
+    if (!content) {
+      return undefined
+    }
+
+    const head = content.slice(0, ANCHOR_LENGTH)
+    const tail = content.slice(-ANCHOR_LENGTH)
+
+    let start = source.value.indexOf(head, cursor)
+    if (start === -1) {
+      start = source.value.indexOf(head)
+    }
+    if (start === -1) {
+      return undefined
+    }
+
+    let end = source.value.indexOf(tail, start + content.length - tail.length)
+    if (end === -1) {
+      end = source.value.indexOf(tail, start)
+    }
+    const last = end === -1 ? start + head.length - 1 : end + tail.length - 1
+
+    cursor = start + 1
+    return { from: lineAt(source.offsets[start]), to: lineAt(source.offsets[last]) }
+  })
+}
@@ -0,0 +1,196 @@
+import { packBlocks } from './pack'
+import type { ChunkerOptions, StructuredChunk } from './types'
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+const TABLE_ROW_PATTERN = /^\s*\|/
+
+interface MarkdownSection {
+  headingPath: string[]
+  lines: string[]
+}
+
+interface MarkdownBlock {
+  kind: 'code' | 'table' | 'text'
+  lines: string[]
+}
+
+// A section made of its heading line alone carries no content worth a chunk
+const hasBody = (section: MarkdownSection) =>
+  section.lines.some((line, index) => line.trim() && !(index === 0 && section.headingPath.length > 0))
+
+/**
+ * Split a document into sections at ATX headings, ignoring `#` lines inside fenced code blocks.
+ */
+function splitSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = []
+  const headingStack: { level: number; title: string }[] = []
+  let current: MarkdownSection = { headingPath: [], lines: [] }
+  let fence: string | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    const fenceMatch = line.match(FENCE_PATTERN)
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch[1] === fence) {
+        fence = null
+      }
+    }
+
+    const headingMatch = fence === null ? line.match(HEADING_PATTERN) : null
+    if (headingMatch) {
+      if (hasBody(current)) {
+        sections.push(current)
+      }
+
+      const level = headingMatch[1].length
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop()
+      }
+      headingStack.push({ level, title: headingMatch[2] })
+      current = { headingPath: headingStack.map((h) => h.title), lines: [line] }
+      continue
+    }
+
+    current.lines.push(line)
+  }
+
+  if (hasBody(current)) {
+    sections.push(current)
+  }
+
+  return sections
+}
+
+/**
+ * Group section lines into blocks that should stay together: fenced code, tables and paragraphs.
+ */
+function splitBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let current: MarkdownBlock | null = null
+  let fence: string | null = null
+
+  const push = () => {
+    if (current && current.lines.length > 0) blocks.push(current)
+    current = null
+  }
+
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE_PATTERN)
+
+    if (fence !== null) {
+      current!.lines.push(line)
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null
+        push()
+      }
+      continue
+    }
+
+    if (fenceMatch) {
+      push()
+      fence = fenceMatch[1]
+      current = { kind: 'code', lines: [line] }
+      continue
+    }
+
+    if (!line.trim()) {
+      push()
+      continue
+    }
+
+    const kind = TABLE_ROW_PATTERN.test(line) ? 'table' : 'text'
+    if (current?.kind !== kind) {
+      push()
+      current = { kind, lines: [] }
+    }
+    current!.lines.push(line)
+  }
+  push()
+
+  return blocks
+}
+
+/**
+ * Cut an oversized table into row groups that each repeat the header and delimiter rows.
+ */
+function splitTable(lines: string[], chunkSize: number): string[] {
+  const header = lines.slice(0, 2)
+  const headerLength = header.join('\n').length
+  const parts: string[] = []
+  let rows: string[] = []
+  let rowsLength = 0
+
+  for (const row of lines.slice(2)) {
+    if (rows.length > 0 && headerLength + rowsLength + row.length + 1 > chunkSize) {
+      parts.push([...header, ...rows].join('\n'))
+      rows = []
+      rowsLength = 0
+    }
+    rows.push(row)
+    rowsLength += row.length + 1
+  }
+  if (rows.length > 0 || parts.length === 0) {
+    parts.push([...header, ...rows].join('\n'))
+  }
+
+  return parts
+}
+
+/**
+ * Cut an oversized fenced code block at line boundaries, re-opening and closing the fence in each part.
+ */
+function splitFencedCode(lines: string[], chunkSize: number): string[] {
+  const open = lines[0]
+  const hasClose = lines.length > 1 && FENCE_PATTERN.test(lines[lines.length - 1])
+  const close = hasClose ? lines[lines.length - 1] : open.trim().slice(0, 3)
+  const body = lines.slice(1, hasClose ? -1 : undefined)
+  const wrapperLength = open.length + close.length + 2
+  const parts: string[] = []
+  let current: string[] = []
+  let currentLength = 0
+
+  for (const line of body) {
+    if (current.length > 0 && wrapperLength + currentLength + line.length + 1 > chunkSize) {
+      parts.push([open, ...current, close].join('\n'))
+      current = []
+      currentLength = 0
+    }
+    current.push(line)
+    currentLength += line.length + 1
+  }
+  if (current.length > 0) {
+    parts.push([open, ...current, close].join('\n'))
+  }
+
+  return parts
+}
+
+/**
+ * Heading-aware Markdown splitting.
+ *
+ * Chunks never cross a heading, tables and fenced code blocks are kept whole where they fit,
+ * and every chunk records the heading path of the section it belongs to.
+ */
+export async function splitMarkdown(text: string, options: ChunkerOptions): Promise<StructuredChunk[]> {
+  const chunks: StructuredChunk[] = []
+
+  for (const section of splitSections(text)) {
+    const blocks = splitBlocks(section.lines).flatMap((block) => {
+      if (block.kind === 'table' && block.lines.join('\n').length > options.chunkSize && block.lines.length > 2) {
+        return splitTable(block.lines, options.chunkSize)
+      }
+      if (block.kind === 'code' && block.lines.join('\n').length > options.chunkSize) {
+        return splitFencedCode(block.lines, options.chunkSize)
+      }
+      return [block.lines.join('\n')]
+    })
+
+    for (const pageContent of await packBlocks(blocks, options)) {
+      chunks.push({ pageContent, headingPath: section.headingPath })
+    }
+  }
+
+  return chunks
+}
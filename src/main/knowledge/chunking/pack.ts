@@ -0,0 +1,64 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+
+import type { ChunkerOptions } from './types'
+
+/**
+ * Greedily pack structural blocks (paragraphs, tables, code blocks, sentences) into chunks.
+ *
+ * Blocks are never cut unless a single block exceeds the chunk size, in which case it is split
+ * with the recursive character splitter. Overlap is made of whole trailing blocks of the previous chunk.
+ */
+export async function packBlocks(
+  blocks: string[],
+  { chunkSize, chunkOverlap }: ChunkerOptions,
+  separator = '\n\n'
+): Promise<string[]> {
+  const fallbackSplitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap })
+  const chunks: string[] = []
+  let current: string[] = []
+  // Whether `current` holds anything besides overlap carried over from the previous chunk
+  let hasNewContent = false
+
+  const joinedLength = (parts: string[]) => parts.join(separator).length
+
+  const flush = () => {
+    if (hasNewContent) {
+      chunks.push(current.join(separator))
+    }
+
+    const overlap: string[] = []
+    for (let i = current.length - 1; i >= 0; i--) {
+      if (joinedLength([current[i], ...overlap]) > chunkOverlap) break
+      overlap.unshift(current[i])
+    }
+    current = overlap
+    hasNewContent = false
+  }
+
+  for (const block of blocks) {
+    if (!block.trim()) continue
+
+    if (block.length > chunkSize) {
+      flush()
+      current = []
+      chunks.push(...(await fallbackSplitter.splitText(block)))
+      continue
+    }
+
+    if (joinedLength([...current, block]) > chunkSize) {
+      flush()
+      while (current.length > 0 && joinedLength([...current, block]) > chunkSize) {
+        current.shift()
+      }
+    }
+
+    current.push(block)
+    hasNewContent = true
+  }
+
+  if (hasNewContent) {
+    chunks.push(current.join(separator))
+  }
+
+  return chunks
+}
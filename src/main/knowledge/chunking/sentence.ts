@@ -0,0 +1,29 @@
+import { packBlocks } from './pack'
+import type { ChunkerOptions, StructuredChunk } from './types'
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' })
+
+/**
+ * Split text into sentences with the ICU sentence segmenter, which also handles CJK punctuation.
+ */
+export function splitSentences(text: string): string[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => segment.trim()).filter(Boolean)
+}
+
+/**
+ * Sentence-based splitting: chunks end on sentence boundaries and paragraphs are only merged
+ * when they fit together, so no sentence is cut in half unless it is longer than a chunk.
+ */
+export async function splitBySentence(text: string, options: ChunkerOptions): Promise<StructuredChunk[]> {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+
+  const blocks = paragraphs.flatMap((paragraph) =>
+    paragraph.length > options.chunkSize ? splitSentences(paragraph) : [paragraph]
+  )
+
+  const chunks = await packBlocks(blocks, options, '\n')
+  return chunks.map((pageContent) => ({ pageContent, headingPath: [] }))
+}
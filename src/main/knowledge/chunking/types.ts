@@ -0,0 +1,14 @@
+import type { KnowledgeChunkStrategy } from '@types'
+
+export interface StructuredChunk {
+  pageContent: string
+  /** Enclosing headings (Markdown) or definitions (code), outermost first */
+  headingPath: string[]
+}
+
+export interface ChunkerOptions {
+  chunkSize: number
+  chunkOverlap: number
+}
+
+export type StructuredChunkStrategy = Exclude<KnowledgeChunkStrategy, 'default'>
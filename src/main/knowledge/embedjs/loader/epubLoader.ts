@@ -53,6 +53,18 @@ interface EpubChapter {
   order?: number
 }
 
+/**
+ * 章节在提取文本中的位置
+ */
+interface EpubSection {
+  /** 章节标题 */
+  title: string
+  /** 起始偏移 */
+  start: number
+  /** 结束偏移（不含） */
+  end: number
+}
+
 /**
  * epub 文件加载器
  * 用于解析 epub 电子书文件，提取文本内容和元数据
@@ -62,6 +74,7 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
   protected chunkSize: number
   protected chunkOverlap: number
   private extractedText: string
+  private sections: EpubSection[]
   private metadata: EpubMetadata | null
 
   /**
@@ -77,6 +90,7 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
     this.chunkSize = options.chunkSize
     this.chunkOverlap = options.chunkOverlap
     this.extractedText = ''
+    this.sections = []
     this.metadata = null
   }
 
@@ -164,6 +178,8 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
       // 使用临时文件而不是内存数组
       const tempFilePath = path.join(getTempDir(), `epub-${Date.now()}.txt`)
       const writeStream = fs.createWriteStream(tempFilePath)
+      const sections: EpubSection[] = []
+      let offset = 0
 
       // 遍历所有章节
       for (const chapter of chapters) {
@@ -181,8 +197,10 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
             .trim() // 移除首尾空白
 
           if (text) {
-            // 直接写入文件
+            // 直接写入文件，并记录章节位置
             writeStream.write(text + '\n\n')
+            sections.push({ title: chapter.title || chapter.id, start: offset, end: offset + text.length })
+            offset += text.length + 2
           }
         } catch (error) {
           logger.error(`[EpubLoader] Error processing chapter ${chapter.id}:`, error as Error)
@@ -200,6 +218,7 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
 
       // 从临时文件读取内容
       this.extractedText = fs.readFileSync(tempFilePath, 'utf-8')
+      this.sections = sections
 
       // 删除临时文件
       fs.unlinkSync(tempFilePath)
@@ -214,8 +233,8 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
 
   /**
    * 生成文本块
-   * 重写 BaseLoader 的方法，将提取的文本分割成适当大小的块
-   * 每个块都包含源文件和元数据信息
+   * 重写 BaseLoader 的方法，将提取的文本按章节分割成适当大小的块
+   * 每个块都包含源文件、章节标题和元数据信息
    */
   override async *getUnfilteredChunks() {
     // 如果还没有提取文本，先提取
@@ -231,18 +250,22 @@ export class EpubLoader extends BaseLoader<Record<string, string | number | bool
       chunkOverlap: this.chunkOverlap
     })
 
-    // 清理并分割文本
-    const chunks = await chunker.splitText(cleanString(this.extractedText))
-
-    // 为每个文本块添加元数据
-    for (const chunk of chunks) {
-      yield {
-        pageContent: chunk,
-        metadata: {
-          source: this.filePath,
-          title: this.metadata?.title || '',
-          creator: this.metadata?.creator || '',
-          language: this.metadata?.language || ''
+    // 分块不跨章节，以便引用时定位到章节
+    for (const section of this.sections) {
+      // 清理并分割文本
+      const chunks = await chunker.splitText(cleanString(this.extractedText.slice(section.start, section.end)))
+
+      // 为每个文本块添加元数据
+      for (const chunk of chunks) {
+        yield {
+          pageContent: chunk,
+          metadata: {
+            source: this.filePath,
+            title: this.metadata?.title || '',
+            creator: this.metadata?.creator || '',
+            language: this.metadata?.language || '',
+            chapter: section.title
+          }
         }
       }
     }
@@ -1,28 +1,35 @@
 import type { RAGApplication } from '@cherrystudio/embedjs'
-import { JsonLoader, LocalPathLoader, TextLoader } from '@cherrystudio/embedjs'
+import { JsonLoader, LocalPathLoader } from '@cherrystudio/embedjs'
 import type { AddLoaderReturn } from '@cherrystudio/embedjs-interfaces'
 import { WebLoader } from '@cherrystudio/embedjs-loader-web'
 import { loggerService } from '@logger'
-import { readTextFileWithAutoEncoding } from '@main/utils/file'
+import type { StructuredChunkStrategy } from '@main/knowledge/chunking'
+import { supportsChunkStrategy } from '@main/knowledge/chunking'
+import { getTempDir, readTextFileWithAutoEncoding } from '@main/utils/file'
 import type { LoaderReturn } from '@shared/config/types'
 import type { FileMetadata, KnowledgeBaseParams } from '@types'
+import officeParser from 'officeparser'
 
 import { DraftsExportLoader } from './draftsExportLoader'
 import { EpubLoader } from './epubLoader'
+import { LineTextLoader } from './lineTextLoader'
 import { OdLoader, OdType } from './odLoader'
+import { PdfPageLoader } from './pdfPageLoader'
+import { StructuredTextLoader } from './structuredTextLoader'
 
 const logger = loggerService.withContext('KnowledgeLoader')
 
 // 文件扩展名到加载器类型的映射
 const FILE_LOADER_MAP: Record<string, string> = {
   // 内置类型
-  '.pdf': 'common',
   '.csv': 'common',
   '.doc': 'common',
-  '.docx': 'common',
   '.pptx': 'common',
   '.xlsx': 'common',
-  '.md': 'common',
+  // 按页分块，记录页码
+  '.pdf': 'pdf',
+  // 提取文本后记录行号
+  '.docx': 'docx',
   // OD类型
   '.odt': 'od',
   '.ods': 'od',
@@ -39,6 +46,18 @@ const FILE_LOADER_MAP: Record<string, string> = {
   // 其他类型默认为文本类型
 }
 
+/**
+ * 获取适用于该文件的结构化分块策略，不适用时返回 undefined 并使用默认加载器
+ */
+function getStructuredChunkStrategy(base: KnowledgeBaseParams, ext: string): StructuredChunkStrategy | undefined {
+  const strategy = base.chunkStrategy
+  if (!strategy || strategy === 'default') {
+    return undefined
+  }
+  const isPlainText = !FILE_LOADER_MAP[ext.toLowerCase()]
+  return supportsChunkStrategy(strategy, ext, isPlainText) ? strategy : undefined
+}
+
 export async function addOdLoader(
   ragApplication: RAGApplication,
   file: FileMetadata,
@@ -71,8 +90,9 @@ export async function addFileLoader(
   base: KnowledgeBaseParams,
   forceReload: boolean
 ): Promise<LoaderReturn> {
-  // 获取文件类型，如果没有匹配则默认为文本类型
-  const loaderType = FILE_LOADER_MAP[file.ext.toLowerCase()] || 'text'
+  // 获取文件类型，如果没有匹配则默认为文本类型；启用结构化分块且文件支持时使用结构化加载器
+  const chunkStrategy = getStructuredChunkStrategy(base, file.ext)
+  const loaderType = chunkStrategy ? 'structured' : FILE_LOADER_MAP[file.ext.toLowerCase()] || 'text'
   let loaderReturn: AddLoaderReturn
   // 使用文件的实际路径
   const filePath = file.path
@@ -82,6 +102,21 @@ export async function addFileLoader(
   let jsonParsed = true
   logger.info(`[KnowledgeBase] processing file ${filePath} as ${loaderType} type`)
   switch (loaderType) {
+    case 'structured':
+      // 结构化分块处理
+      loaderReturn = await ragApplication.addLoader(
+        new StructuredTextLoader({
+          text: await readTextFileWithAutoEncoding(filePath),
+          source: filePath,
+          strategy: chunkStrategy!,
+          ext: file.ext,
+          chunkSize: base.chunkSize,
+          chunkOverlap: base.chunkOverlap
+        }) as any,
+        forceReload
+      )
+      break
+
     case 'common':
       // 内置类型处理
       loaderReturn = await ragApplication.addLoader(
@@ -94,6 +129,31 @@ export async function addFileLoader(
       )
       break
 
+    case 'pdf':
+      // PDF 按页处理
+      loaderReturn = await ragApplication.addLoader(
+        new PdfPageLoader({
+          filePath,
+          chunkSize: base.chunkSize,
+          chunkOverlap: base.chunkOverlap
+        }) as any,
+        forceReload
+      )
+      break
+
+    case 'docx':
+      // docx 处理，行号对应文件预览中使用同一解析器提取的文本
+      loaderReturn = await ragApplication.addLoader(
+        new LineTextLoader({
+          text: await officeParser.parseOfficeAsync(filePath, { tempFilesLocation: getTempDir() }),
+          source: filePath,
+          chunkSize: base.chunkSize,
+          chunkOverlap: base.chunkOverlap
+        }) as any,
+        forceReload
+      )
+      break
+
     case 'od':
       // OD类型处理
       loaderReturn = await addOdLoader(ragApplication, file, base, forceReload)
@@ -144,11 +204,12 @@ export async function addFileLoader(
     // fallthrough - JSON 解析失败时作为文本处理
     // oxlint-disable-next-line no-fallthrough 利用switch特性，刻意不break
     default:
-      // 文本类型处理（默认）
+      // 文本类型处理（默认，包括 Markdown），记录行号
       // 如果是其他文本类型且尚未读取文件，则读取文件
       loaderReturn = await ragApplication.addLoader(
-        new TextLoader({
+        new LineTextLoader({
           text: await readTextFileWithAutoEncoding(filePath),
+          source: filePath,
           chunkSize: base.chunkSize,
           chunkOverlap: base.chunkOverlap
         }) as any,
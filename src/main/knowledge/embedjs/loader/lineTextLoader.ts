@@ -0,0 +1,51 @@
+import { BaseLoader } from '@cherrystudio/embedjs-interfaces'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { locateChunkLines } from '@main/knowledge/chunking'
+import md5 from 'md5'
+
+/**
+ * 按字符切分文本的加载器，与 TextLoader 相同，但保留来源路径
+ * 每个分块的 metadata 中带有行号范围（lineFrom/lineTo，从 1 开始），用于引用时定位到原文
+ * 对于 docx 等文档，行号对应的是提取出的文本
+ */
+export class LineTextLoader extends BaseLoader<{ type: 'LineTextLoader' }> {
+  private readonly text: string
+  private readonly source: string
+
+  constructor({
+    text,
+    source,
+    chunkSize,
+    chunkOverlap
+  }: {
+    text: string
+    source: string
+    chunkSize?: number
+    chunkOverlap?: number
+  }) {
+    super(`LineTextLoader_${md5(`${source}:${text}`)}`, { source }, chunkSize ?? 300, chunkOverlap ?? 0)
+    this.text = text
+    this.source = source
+  }
+
+  override async *getUnfilteredChunks() {
+    const chunker = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap
+    })
+    const chunks = await chunker.splitText(this.text)
+    const ranges = locateChunkLines(this.text, chunks)
+
+    for (const [index, chunk] of chunks.entries()) {
+      const range = ranges[index]
+      yield {
+        pageContent: chunk,
+        metadata: {
+          type: 'LineTextLoader' as const,
+          source: this.source,
+          ...(range && { lineFrom: range.from, lineTo: range.to })
+        }
+      }
+    }
+  }
+}
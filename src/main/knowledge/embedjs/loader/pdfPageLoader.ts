@@ -0,0 +1,74 @@
+import * as fs from 'node:fs'
+
+import { BaseLoader } from '@cherrystudio/embedjs-interfaces'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import md5 from 'md5'
+// 直接引用 lib 以跳过 pdf-parse 入口文件中的调试代码
+import parsePdf from 'pdf-parse/lib/pdf-parse.js'
+
+/**
+ * 提取单页文本，同一行的文本项之间保留空格，换行处插入换行符
+ */
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    if (lastY !== undefined && lastY !== item.transform[5]) {
+      text += '\n'
+    }
+    text += item.str + ' '
+    lastY = item.transform[5]
+  }
+  return text
+}
+
+/**
+ * 按页切分 PDF 的加载器
+ * 分块不跨页，每个分块的 metadata 中带有页码（page，从 1 开始），用于引用时定位到页
+ */
+export class PdfPageLoader extends BaseLoader<{ type: 'PdfPageLoader' }> {
+  private readonly filePath: string
+
+  constructor({ filePath, chunkSize, chunkOverlap }: { filePath: string; chunkSize?: number; chunkOverlap?: number }) {
+    super(`PdfPageLoader_${md5(filePath)}`, { filePath }, chunkSize ?? 1000, chunkOverlap ?? 0)
+    this.filePath = filePath
+  }
+
+  private async extractPages(): Promise<string[]> {
+    const pages: string[] = []
+    await parsePdf(await fs.promises.readFile(this.filePath), {
+      pagerender: async (pageData: any) => {
+        const text = await renderPage(pageData)
+        // pdf-parse 会吞掉单页的错误，按页索引存放以免页码错位
+        pages[pageData.pageIndex] = text
+        return text
+      }
+    })
+    return pages
+  }
+
+  override async *getUnfilteredChunks() {
+    const chunker = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap
+    })
+    const pages = await this.extractPages()
+
+    for (const [index, text] of pages.entries()) {
+      if (!text?.trim()) {
+        continue
+      }
+      for (const chunk of await chunker.splitText(text)) {
+        yield {
+          pageContent: chunk,
+          metadata: {
+            type: 'PdfPageLoader' as const,
+            source: this.filePath,
+            page: index + 1
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseLoader } from '@cherrystudio/embedjs-interfaces'
+import type { StructuredChunkStrategy } from '@main/knowledge/chunking'
+import { locateChunkLines, splitStructuredText } from '@main/knowledge/chunking'
+import md5 from 'md5'
+
+/**
+ * 按文档结构（Markdown 标题、代码定义、句子）切分文本的加载器
+ * 每个分块的 metadata 中带有 headingPath 和行号范围，用于在检索结果中展示出处
+ */
+export class StructuredTextLoader extends BaseLoader<{ type: 'StructuredTextLoader' }> {
+  private readonly text: string
+  private readonly source: string
+  private readonly strategy: StructuredChunkStrategy
+  private readonly ext?: string
+
+  constructor({
+    text,
+    source,
+    strategy,
+    ext,
+    chunkSize,
+    chunkOverlap
+  }: {
+    text: string
+    source: string
+    strategy: StructuredChunkStrategy
+    ext?: string
+    chunkSize?: number
+    chunkOverlap?: number
+  }) {
+    super(
+      `StructuredTextLoader_${md5(`${strategy}:${source}:${text}`)}`,
+      { source, strategy },
+      chunkSize ?? 1000,
+      chunkOverlap ?? 0
+    )
+    this.text = text
+    this.source = source
+    this.strategy = strategy
+    this.ext = ext
+  }
+
+  override async *getUnfilteredChunks() {
+    const chunks = await splitStructuredText(this.text, this.strategy, {
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      ext: this.ext
+    })
+
+    const ranges = locateChunkLines(
+      this.text,
+      chunks.map((chunk) => chunk.pageContent)
+    )
+
+    for (const [index, chunk] of chunks.entries()) {
+      const range = ranges[index]
+      yield {
+        pageContent: chunk.pageContent,
+        metadata: {
+          type: 'StructuredTextLoader' as const,
+          source: this.source,
+          chunkStrategy: this.strategy,
+          headingPath: chunk.headingPath,
+          ...(range && { lineFrom: range.from, lineTo: range.to })
+        }
+      }
+    }
+  }
+}
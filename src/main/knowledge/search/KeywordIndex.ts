@@ -0,0 +1,123 @@
+import type { Client } from '@libsql/client'
+import { loggerService } from '@logger'
+import type { KnowledgeSearchResult } from '@types'
+
+import type { ScopeClause } from './scope'
+
+const logger = loggerService.withContext('KnowledgeKeywordIndex')
+
+// Trigram tokenizer cannot match terms shorter than three characters
+const MIN_TERM_LENGTH = 3
+const MAX_QUERY_TERMS = 64
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/u
+const TERM_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_\-.]+/gu
+
+/**
+ * Build an FTS5 MATCH expression from a free-text query.
+ *
+ * Latin tokens (identifiers, error codes, SKUs) are kept whole and quoted so they match as phrases,
+ * CJK runs are split into trigrams because they are not separated by whitespace.
+ * All terms are OR-ed together and ranked by BM25.
+ */
+export function buildMatchQuery(query: string): string | null {
+  const terms = new Set<string>()
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const token = match[0].replace(/^[-.]+|[-.]+$/g, '')
+
+    if (CJK_RUN.test(token)) {
+      const chars = Array.from(token)
+      if (chars.length <= MIN_TERM_LENGTH) {
+        terms.add(token)
+      } else {
+        for (let i = 0; i + MIN_TERM_LENGTH <= chars.length; i++) {
+          terms.add(chars.slice(i, i + MIN_TERM_LENGTH).join(''))
+        }
+      }
+    } else {
+      terms.add(token)
+    }
+  }
+
+  const usableTerms = [...terms].filter((term) => Array.from(term).length >= MIN_TERM_LENGTH).slice(0, MAX_QUERY_TERMS)
+
+  if (usableTerms.length === 0) {
+    return null
+  }
+
+  return usableTerms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' OR ')
+}
+
+/**
+ * BM25 keyword index kept next to the LibSqlDb vector table.
+ *
+ * The index is an external-content FTS5 table over the `pageContent` column of the vector table,
+ * kept in sync by triggers, so every loader that writes chunks is indexed without extra bookkeeping.
+ */
+export default class KeywordIndex {
+  private readonly client: Client
+  private readonly tableName: string
+  private readonly ftsTableName: string
+
+  constructor(client: Client, tableName = 'vectors') {
+    this.client = client
+    this.tableName = tableName
+    this.ftsTableName = `${tableName}_fts`
+  }
+
+  public async init(): Promise<void> {
+    const existing = await this.client.execute({
+      sql: `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      args: [this.ftsTableName]
+    })
+
+    await this.client.batch(
+      [
+        `CREATE VIRTUAL TABLE IF NOT EXISTS ${this.ftsTableName} USING fts5(
+          pageContent,
+          content='${this.tableName}',
+          content_rowid='rowid',
+          tokenize='trigram'
+        );`,
+        `CREATE TRIGGER IF NOT EXISTS ${this.ftsTableName}_ai AFTER INSERT ON ${this.tableName} BEGIN
+          INSERT INTO ${this.ftsTableName}(rowid, pageContent) VALUES (new.rowid, new.pageContent);
+        END;`,
+        `CREATE TRIGGER IF NOT EXISTS ${this.ftsTableName}_ad AFTER DELETE ON ${this.tableName} BEGIN
+          INSERT INTO ${this.ftsTableName}(${this.ftsTableName}, rowid, pageContent) VALUES ('delete', old.rowid, old.pageContent);
+        END;`
+      ],
+      'write'
+    )
+
+    // Knowledge bases created before the keyword index existed need their chunks indexed once
+    if (existing.rows.length === 0) {
+      await this.client.execute(`INSERT INTO ${this.ftsTableName}(${this.ftsTableName}) VALUES ('rebuild');`)
+      logger.debug(`Built keyword index ${this.ftsTableName} from existing chunks`)
+    }
+  }
+
+  public async search(query: string, k: number, scope?: ScopeClause | null): Promise<KnowledgeSearchResult[]> {
+    const matchQuery = buildMatchQuery(query)
+    if (!matchQuery) {
+      return []
+    }
+
+    const results = await this.client.execute({
+      sql: `SELECT v.pageContent AS pageContent, v.metadata AS metadata, bm25(${this.ftsTableName}) AS rank
+        FROM ${this.ftsTableName}
+        JOIN ${this.tableName} v ON v.rowid = ${this.ftsTableName}.rowid
+        WHERE ${this.ftsTableName} MATCH ?${scope ? ` AND ${scope.sql}` : ''}
+        ORDER BY rank
+        LIMIT ?;`,
+      args: [matchQuery, ...(scope?.args ?? []), k]
+    })
+
+    return results.rows.map((row) => ({
+      pageContent: String(row.pageContent),
+      // bm25() is lower-is-better, flip it so higher scores rank first like vector similarity
+      score: -Number(row.rank),
+      metadata: row.metadata ? JSON.parse(String(row.metadata)) : {}
+    }))
+  }
+}
@@ -0,0 +1,84 @@
+import type { Client } from '@libsql/client'
+import { createClient } from '@libsql/client'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import KeywordIndex, { buildMatchQuery } from '../KeywordIndex'
+
+const createVectorTable = (client: Client) =>
+  client.execute(`CREATE TABLE IF NOT EXISTS vectors (
+    id              TEXT PRIMARY KEY,
+    pageContent     TEXT UNIQUE,
+    uniqueLoaderId  TEXT NOT NULL,
+    source          TEXT NOT NULL,
+    vector          F32_BLOB(2),
+    metadata        TEXT
+  );`)
+
+const insertChunk = (client: Client, id: string, pageContent: string, uniqueLoaderId = 'loader') =>
+  client.execute({
+    sql: `INSERT INTO vectors (id, pageContent, uniqueLoaderId, source, vector, metadata)
+      VALUES (?, ?, ?, ?, vector32('[0,1]'), ?);`,
+    args: [id, pageContent, uniqueLoaderId, `${id}.md`, JSON.stringify({ id, source: `${id}.md`, uniqueLoaderId })]
+  })
+
+describe('buildMatchQuery', () => {
+  it('quotes identifiers as whole phrases', () => {
+    expect(buildMatchQuery('what is ERR_CONN_RESET?')).toBe('"what" OR "ERR_CONN_RESET"')
+  })
+
+  it('splits CJK runs into trigrams', () => {
+    expect(buildMatchQuery('连接重置错误')).toBe('"连接重" OR "接重置" OR "重置错" OR "置错误"')
+  })
+
+  it('returns null when no term is long enough', () => {
+    expect(buildMatchQuery('a b 中')).toBeNull()
+  })
+})
+
+describe('KeywordIndex', () => {
+  let client: Client
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:' })
+    await createVectorTable(client)
+  })
+
+  afterEach(() => {
+    client.close()
+  })
+
+  it('indexes chunks that existed before the index was created', async () => {
+    await insertChunk(client, 'a', 'The device reports SKU-4711 on boot')
+
+    const index = new KeywordIndex(client)
+    await index.init()
+
+    const results = await index.search('SKU-4711', 5)
+    expect(results).toHaveLength(1)
+    expect(results[0].metadata.id).toBe('a')
+  })
+
+  it('follows inserts and deletes on the vector table', async () => {
+    const index = new KeywordIndex(client)
+    await index.init()
+
+    await insertChunk(client, 'a', 'Gateway returns ERR_CONN_RESET under load', 'first')
+    await insertChunk(client, 'b', 'Unrelated chunk about colors', 'second')
+    expect((await index.search('ERR_CONN_RESET', 5)).map((r) => r.metadata.id)).toEqual(['a'])
+
+    await client.execute(`DELETE FROM vectors WHERE uniqueLoaderId = 'first';`)
+    expect(await index.search('ERR_CONN_RESET', 5)).toEqual([])
+  })
+
+  it('ranks chunks with more matching terms higher', async () => {
+    const index = new KeywordIndex(client)
+    await index.init()
+
+    await insertChunk(client, 'a', 'restart the gateway service')
+    await insertChunk(client, 'b', 'restart the gateway service after ERR_CONN_RESET')
+
+    const results = await index.search('gateway ERR_CONN_RESET', 5)
+    expect(results.map((r) => r.metadata.id)).toEqual(['b', 'a'])
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+  })
+})
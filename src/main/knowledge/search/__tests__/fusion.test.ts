@@ -0,0 +1,55 @@
+import type { KnowledgeSearchResult } from '@types'
+import { describe, expect, it } from 'vitest'
+
+import { fuseHybridResults, reciprocalRankFusion } from '../fusion'
+
+const result = (pageContent: string, score = 0.5): KnowledgeSearchResult => ({
+  pageContent,
+  score,
+  metadata: { source: `${pageContent}.md` }
+})
+
+describe('reciprocalRankFusion', () => {
+  it('ranks documents found by both retrievers first', () => {
+    const vector = [result('a'), result('b'), result('c')]
+    const keyword = [result('c'), result('d')]
+
+    const fused = reciprocalRankFusion([vector, keyword])
+
+    expect(fused.map((r) => r.pageContent)).toEqual(['c', 'a', 'b', 'd'])
+  })
+
+  it('normalizes scores to the best achievable score', () => {
+    const fused = reciprocalRankFusion([[result('a')], [result('a')]])
+
+    expect(fused).toHaveLength(1)
+    expect(fused[0].score).toBeCloseTo(1)
+  })
+
+  it('keeps metadata of the first occurrence', () => {
+    const fused = reciprocalRankFusion([[result('a')], [{ ...result('a'), metadata: { source: 'other' } }]])
+
+    expect(fused[0].metadata.source).toBe('a.md')
+  })
+
+  it('returns an empty list when nothing was found', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([])
+  })
+})
+
+describe('fuseHybridResults', () => {
+  it('keeps keyword-only hits when the threshold is above 0.5', () => {
+    const vector = [result('a', 0.9), result('b', 0.6)]
+    const keyword = [result('SKU-1234', 3.2)]
+
+    const fused = fuseHybridResults(vector, keyword, 0.8)
+
+    expect(fused.map((r) => r.pageContent)).toEqual(['a', 'SKU-1234'])
+  })
+
+  it('applies the threshold to vector similarity before fusion', () => {
+    const fused = fuseHybridResults([result('a', 0.3)], [], 0.5)
+
+    expect(fused).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import type { Client } from '@libsql/client'
+import { createClient } from '@libsql/client'
+import type { KnowledgeItem } from '@types'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import KeywordIndex from '../KeywordIndex'
+import { buildScopeClause, scopedVectorSearch, stampItemMetadata } from '../scope'
+
+const createVectorTable = (client: Client) =>
+  client.execute(`CREATE TABLE IF NOT EXISTS vectors (
+    id              TEXT PRIMARY KEY,
+    pageContent     TEXT UNIQUE,
+    uniqueLoaderId  TEXT NOT NULL,
+    source          TEXT NOT NULL,
+    vector          F32_BLOB(2),
+    metadata        TEXT
+  );`)
+
+const insertChunk = (client: Client, id: string, pageContent: string, uniqueLoaderId: string, source: string) =>
+  client.execute({
+    sql: `INSERT INTO vectors (id, pageContent, uniqueLoaderId, source, vector, metadata)
+      VALUES (?, ?, ?, ?, vector32(?), ?);`,
+    args: [id, pageContent, uniqueLoaderId, source, '[1,0]', JSON.stringify({ id, source, uniqueLoaderId })]
+  })
+
+const item = (overrides: Partial<KnowledgeItem>): KnowledgeItem => ({
+  id: 'item',
+  type: 'url',
+  content: 'https://example.com',
+  created_at: 1000,
+  updated_at: 1000,
+  ...overrides
+})
+
+const metadataOf = async (client: Client, id: string) => {
+  const result = await client.execute({ sql: 'SELECT metadata FROM vectors WHERE id = ?', args: [id] })
+  return JSON.parse(String(result.rows[0].metadata))
+}
+
+const scopedIds = async (client: Client, filter: Parameters<typeof buildScopeClause>[0]) => {
+  const scope = buildScopeClause(filter)!
+  const results = await scopedVectorSearch(client, [1, 0], 10, scope)
+  return results.map((result) => result.metadata.id).sort()
+}
+
+describe('buildScopeClause', () => {
+  it('returns null for empty filters', () => {
+    expect(buildScopeClause(undefined)).toBeNull()
+    expect(buildScopeClause({ itemIds: [], tags: [] })).toBeNull()
+  })
+
+  it('normalizes extensions', () => {
+    expect(buildScopeClause({ extensions: ['PDF', '.md'] })?.args).toEqual(['.pdf', '.md'])
+  })
+})
+
+describe('scoped search', () => {
+  let client: Client
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:' })
+    await createVectorTable(client)
+    await insertChunk(client, 'pdf', 'quarterly revenue report', 'loader-pdf', '/files/report.pdf')
+    await insertChunk(client, 'md', 'revenue notes in markdown', 'loader-dir-md', '/docs/notes.md')
+    await insertChunk(client, 'txt', 'revenue plain text', 'loader-dir-txt', '/docs/plain.txt')
+    await insertChunk(client, 'web', 'revenue news article', 'loader-url', 'https://example.com')
+
+    await stampItemMetadata(
+      client,
+      item({ id: 'file', type: 'file', content: { ext: '.PDF' } as any, created_at: 100, tags: ['finance'] }),
+      ['loader-pdf']
+    )
+    await stampItemMetadata(client, item({ id: 'dir', type: 'directory', content: '/docs', created_at: 200 }), [
+      'loader-dir-md',
+      'loader-dir-txt'
+    ])
+    await stampItemMetadata(client, item({ id: 'url', created_at: 300, tags: ['news', 'finance'] }), ['loader-url'])
+  })
+
+  afterEach(() => {
+    client.close()
+  })
+
+  it('stamps item metadata and keeps existing fields', async () => {
+    expect(await metadataOf(client, 'pdf')).toMatchObject({
+      id: 'pdf',
+      source: '/files/report.pdf',
+      itemId: 'file',
+      itemType: 'file',
+      itemExt: '.pdf',
+      itemAddedAt: 100,
+      itemTags: ['finance']
+    })
+    expect(await metadataOf(client, 'txt')).toMatchObject({ itemId: 'dir', itemExt: '.txt' })
+    expect((await metadataOf(client, 'web')).itemExt).toBeUndefined()
+  })
+
+  it('restricts vector search to the matching items', async () => {
+    expect(await scopedIds(client, { itemIds: ['dir'] })).toEqual(['md', 'txt'])
+    expect(await scopedIds(client, { itemTypes: ['url'] })).toEqual(['web'])
+    expect(await scopedIds(client, { extensions: ['md', 'pdf'] })).toEqual(['md', 'pdf'])
+    expect(await scopedIds(client, { addedAfter: 150, addedBefore: 250 })).toEqual(['md', 'txt'])
+    expect(await scopedIds(client, { tags: ['finance'] })).toEqual(['pdf', 'web'])
+    expect(await scopedIds(client, { tags: ['finance'], itemTypes: ['file'] })).toEqual(['pdf'])
+  })
+
+  it('replaces tags when an item is stamped again', async () => {
+    await stampItemMetadata(client, item({ id: 'url', created_at: 300, tags: ['archive'] }), ['loader-url'])
+
+    expect(await scopedIds(client, { tags: ['finance'] })).toEqual(['pdf'])
+    expect(await scopedIds(client, { tags: ['archive'] })).toEqual(['web'])
+  })
+
+  it('applies the scope to keyword search', async () => {
+    const keywordIndex = new KeywordIndex(client)
+    await keywordIndex.init()
+
+    const results = await keywordIndex.search('revenue', 10, buildScopeClause({ itemTypes: ['directory'] }))
+
+    expect(results.map((result) => result.metadata.id).sort()).toEqual(['md', 'txt'])
+  })
+})
@@ -0,0 +1,46 @@
+import type { KnowledgeSearchResult } from '@types'
+
+export const RRF_K = 60
+
+/**
+ * Merge several ranked result lists with reciprocal rank fusion.
+ *
+ * Each document scores `sum(1 / (k + rank))` over the lists it appears in. The fused score is divided by
+ * the best achievable score so it stays within [0, 1]. It reflects ranks rather than similarity, so similarity
+ * thresholds have to be applied before fusion.
+ * Documents are identified by their page content, which is unique per vector table.
+ */
+export function reciprocalRankFusion(rankings: KnowledgeSearchResult[][], k = RRF_K): KnowledgeSearchResult[] {
+  const fused = new Map<string, { result: KnowledgeSearchResult; score: number }>()
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, index) => {
+      const contribution = 1 / (k + index + 1)
+      const existing = fused.get(result.pageContent)
+      if (existing) {
+        existing.score += contribution
+      } else {
+        fused.set(result.pageContent, { result, score: contribution })
+      }
+    })
+  }
+
+  const maxScore = rankings.length / (k + 1)
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, score }) => ({ ...result, score: maxScore > 0 ? score / maxScore : 0 }))
+}
+
+/**
+ * Fuse vector and keyword results of a hybrid search. The similarity threshold only applies to the vector
+ * results: a document found by one retriever never scores above 0.5 after fusion, so thresholding fused
+ * scores would drop every keyword-only hit.
+ */
+export function fuseHybridResults(
+  vectorResults: KnowledgeSearchResult[],
+  keywordResults: KnowledgeSearchResult[],
+  threshold = 0
+): KnowledgeSearchResult[] {
+  return reciprocalRankFusion([vectorResults.filter((result) => result.score >= threshold), keywordResults])
+}
@@ -0,0 +1,144 @@
+import path from 'node:path'
+
+import type { Client, InStatement } from '@libsql/client'
+import type { KnowledgeChunkMetadata, KnowledgeItem, KnowledgeSearchFilter, KnowledgeSearchResult } from '@types'
+
+export interface ScopeClause {
+  sql: string
+  args: (string | number)[]
+}
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ')
+
+export const normalizeExtension = (ext: string) => {
+  const lower = ext.trim().toLowerCase()
+  return lower.startsWith('.') ? lower : `.${lower}`
+}
+
+/**
+ * Translate a search filter into a SQL condition over the chunk metadata of the vector table.
+ * Returns null when the filter does not restrict anything.
+ */
+export function buildScopeClause(filter: KnowledgeSearchFilter | undefined, alias = 'v'): ScopeClause | null {
+  if (!filter) {
+    return null
+  }
+
+  const field = (name: keyof KnowledgeChunkMetadata) => `json_extract(${alias}.metadata, '$.${name}')`
+  const conditions: string[] = []
+  const args: (string | number)[] = []
+
+  if (filter.itemIds?.length) {
+    conditions.push(`${field('itemId')} IN (${placeholders(filter.itemIds)})`)
+    args.push(...filter.itemIds)
+  }
+  if (filter.itemTypes?.length) {
+    conditions.push(`${field('itemType')} IN (${placeholders(filter.itemTypes)})`)
+    args.push(...filter.itemTypes)
+  }
+  if (filter.extensions?.length) {
+    conditions.push(`${field('itemExt')} IN (${placeholders(filter.extensions)})`)
+    args.push(...filter.extensions.map(normalizeExtension))
+  }
+  if (filter.addedAfter !== undefined) {
+    conditions.push(`${field('itemAddedAt')} >= ?`)
+    args.push(filter.addedAfter)
+  }
+  if (filter.addedBefore !== undefined) {
+    conditions.push(`${field('itemAddedAt')} <= ?`)
+    args.push(filter.addedBefore)
+  }
+  if (filter.tags?.length) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(${alias}.metadata, '$.itemTags') WHERE value IN (${placeholders(filter.tags)}))`
+    )
+    args.push(...filter.tags)
+  }
+
+  if (conditions.length === 0) {
+    return null
+  }
+
+  return { sql: conditions.join(' AND '), args }
+}
+
+/**
+ * Stamp the metadata of a knowledge item on all chunks produced by its loaders.
+ *
+ * Runs after the loaders are done instead of inside them, so it also serves to update tags
+ * and to backfill chunks stored before scoped search existed. Directory items get the
+ * extension of each file, taken from the chunk source.
+ */
+export async function stampItemMetadata(
+  client: Client,
+  item: KnowledgeItem,
+  uniqueIds: string[],
+  tableName = 'vectors'
+): Promise<void> {
+  const loaderIds = uniqueIds.filter(Boolean)
+  if (loaderIds.length === 0) {
+    return
+  }
+
+  const metadata: KnowledgeChunkMetadata = {
+    itemId: item.id,
+    itemType: item.type,
+    itemAddedAt: item.created_at,
+    itemTags: item.tags ?? []
+  }
+  const update = (patch: KnowledgeChunkMetadata, ids: string[]): InStatement => ({
+    sql: `UPDATE ${tableName} SET metadata = json_patch(metadata, ?) WHERE uniqueLoaderId IN (${placeholders(ids)})`,
+    args: [JSON.stringify(patch), ...ids]
+  })
+
+  if (item.type === 'file' && typeof item.content === 'object' && !Array.isArray(item.content)) {
+    await client.execute(update({ ...metadata, itemExt: normalizeExtension(item.content.ext) }, loaderIds))
+    return
+  }
+
+  if (item.type !== 'directory') {
+    await client.execute(update(metadata, loaderIds))
+    return
+  }
+
+  const sources = await client.execute({
+    sql: `SELECT uniqueLoaderId, MIN(source) AS source FROM ${tableName}
+      WHERE uniqueLoaderId IN (${placeholders(loaderIds)}) GROUP BY uniqueLoaderId`,
+    args: loaderIds
+  })
+  const statements = sources.rows.map((row) => {
+    const ext = path.extname(String(row.source))
+    return update({ ...metadata, itemExt: ext ? normalizeExtension(ext) : undefined }, [String(row.uniqueLoaderId)])
+  })
+  if (statements.length > 0) {
+    await client.batch(statements, 'write')
+  }
+}
+
+/**
+ * Nearest-neighbour search limited to the chunks matching a scope.
+ * The unscoped path goes through embedjs, which cannot filter before ranking.
+ */
+export async function scopedVectorSearch(
+  client: Client,
+  queryVector: number[],
+  k: number,
+  scope: ScopeClause,
+  tableName = 'vectors'
+): Promise<KnowledgeSearchResult[]> {
+  const results = await client.execute({
+    sql: `SELECT v.pageContent AS pageContent, v.metadata AS metadata,
+        vector_distance_cos(v.vector, vector32(?)) AS distance
+      FROM ${tableName} v
+      WHERE ${scope.sql}
+      ORDER BY distance ASC
+      LIMIT ?;`,
+    args: [`[${queryVector.join(',')}]`, ...scope.args, k]
+  })
+
+  return results.rows.map((row) => ({
+    pageContent: String(row.pageContent),
+    score: 1 - Number(row.distance),
+    metadata: row.metadata ? JSON.parse(String(row.metadata)) : {}
+  }))
+}
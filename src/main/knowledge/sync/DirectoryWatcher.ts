@@ -0,0 +1,87 @@
+import { loggerService } from '@logger'
+import { windowService } from '@main/services/WindowService'
+import type { KnowledgeDirectoryChangedEvent } from '@shared/config/types'
+import { IpcChannel } from '@shared/IpcChannel'
+import type { FSWatcher } from 'chokidar'
+import chokidar from 'chokidar'
+
+const logger = loggerService.withContext('KnowledgeDirectoryWatcher')
+
+// Batch bursts of changes (git checkout, bulk copy) into a single sync
+const DEBOUNCE_MS = 3000
+
+interface WatchedDirectory {
+  baseId: string
+  watcher: FSWatcher
+  timer?: NodeJS.Timeout
+}
+
+/**
+ * Watches knowledge base directory items and notifies the renderer when their files change.
+ * The renderer owns the embedding configuration, so it decides when to run the actual sync.
+ */
+export default class DirectoryWatcher {
+  private watched: Map<string, WatchedDirectory> = new Map()
+
+  public watch(baseId: string, itemId: string, directory: string): void {
+    if (this.watched.has(itemId)) {
+      return
+    }
+
+    const watcher = chokidar.watch(directory, {
+      ignored: /(^|[/\\])\../,
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 1000, pollInterval: 100 },
+      atomic: true
+    })
+    const entry: WatchedDirectory = { baseId, watcher }
+
+    const handleChange = () => {
+      if (entry.timer) {
+        clearTimeout(entry.timer)
+      }
+      entry.timer = setTimeout(() => {
+        entry.timer = undefined
+        const event: KnowledgeDirectoryChangedEvent = { baseId, itemId }
+        windowService.getMainWindow()?.webContents.send(IpcChannel.KnowledgeBase_DirectoryChanged, event)
+      }, DEBOUNCE_MS)
+    }
+
+    watcher
+      .on('add', handleChange)
+      .on('change', handleChange)
+      .on('unlink', handleChange)
+      .on('unlinkDir', handleChange)
+      .on('error', (error: unknown) => {
+        logger.error(`Directory watcher error for ${directory}`, error as Error)
+      })
+
+    this.watched.set(itemId, entry)
+    logger.info(`Watching knowledge directory ${directory}`, { baseId, itemId })
+  }
+
+  public unwatch(itemId: string): void {
+    const entry = this.watched.get(itemId)
+    if (!entry) {
+      return
+    }
+    clearTimeout(entry.timer)
+    void entry.watcher.close()
+    this.watched.delete(itemId)
+  }
+
+  public unwatchBase(baseId: string): void {
+    for (const [itemId, entry] of this.watched) {
+      if (entry.baseId === baseId) {
+        this.unwatch(itemId)
+      }
+    }
+  }
+
+  public unwatchAll(): void {
+    for (const itemId of [...this.watched.keys()]) {
+      this.unwatch(itemId)
+    }
+  }
+}
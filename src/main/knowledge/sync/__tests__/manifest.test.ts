@@ -0,0 +1,92 @@
+import * as fs from 'node:fs'
+import { Readable } from 'node:stream'
+
+import type { FileMetadata } from '@types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { DirectoryManifestEntry } from '../manifest'
+import { diffDirectory, hashFile } from '../manifest'
+
+const contents: Record<string, string> = {}
+const stats: Record<string, { size: number; mtimeMs: number }> = {}
+
+const file = (filePath: string): FileMetadata =>
+  ({ id: filePath, name: filePath, origin_name: filePath, path: filePath, size: 0, ext: '.md' }) as FileMetadata
+
+const setFile = (filePath: string, content: string, mtimeMs: number) => {
+  contents[filePath] = content
+  stats[filePath] = { size: content.length, mtimeMs }
+}
+
+const entryFor = async (filePath: string, uniqueId: string): Promise<DirectoryManifestEntry> => ({
+  uniqueId,
+  ...stats[filePath],
+  hash: await hashFile(filePath)
+})
+
+describe('diffDirectory', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(contents)) delete contents[key]
+    for (const key of Object.keys(stats)) delete stats[key]
+    vi.mocked(fs.promises.stat).mockImplementation(async (filePath) => stats[filePath as string] as fs.Stats)
+    vi.mocked(fs.createReadStream).mockImplementation(
+      (filePath) => Readable.from([Buffer.from(contents[filePath as string])]) as fs.ReadStream
+    )
+  })
+
+  it('treats every file as added without a previous manifest', async () => {
+    setFile('/dir/a.md', 'a', 1)
+    setFile('/dir/b.md', 'b', 1)
+
+    const diff = await diffDirectory([file('/dir/a.md'), file('/dir/b.md')], {})
+
+    expect(diff.added.map((f) => f.path)).toEqual(['/dir/a.md', '/dir/b.md'])
+    expect(diff.modified).toEqual([])
+    expect(diff.deleted).toEqual([])
+  })
+
+  it('detects added, modified and deleted files', async () => {
+    setFile('/dir/same.md', 'same', 1)
+    setFile('/dir/changed.md', 'old', 1)
+    setFile('/dir/gone.md', 'gone', 1)
+    const entries = {
+      '/dir/same.md': await entryFor('/dir/same.md', 'same'),
+      '/dir/changed.md': await entryFor('/dir/changed.md', 'changed'),
+      '/dir/gone.md': await entryFor('/dir/gone.md', 'gone')
+    }
+
+    setFile('/dir/changed.md', 'new content', 2)
+    setFile('/dir/new.md', 'new', 2)
+
+    const diff = await diffDirectory([file('/dir/same.md'), file('/dir/changed.md'), file('/dir/new.md')], entries)
+
+    expect(diff.added.map((f) => f.path)).toEqual(['/dir/new.md'])
+    expect(diff.modified.map(({ file, previous }) => [file.path, previous.uniqueId])).toEqual([
+      ['/dir/changed.md', 'changed']
+    ])
+    expect(diff.deleted.map((entry) => entry.uniqueId)).toEqual(['gone'])
+    expect(Object.keys(diff.unchanged)).toEqual(['/dir/same.md'])
+  })
+
+  it('keeps touched files with identical content and refreshes their mtime', async () => {
+    setFile('/dir/a.md', 'a', 1)
+    const entries = { '/dir/a.md': await entryFor('/dir/a.md', 'a') }
+
+    setFile('/dir/a.md', 'a', 5)
+
+    const diff = await diffDirectory([file('/dir/a.md')], entries)
+
+    expect(diff.modified).toEqual([])
+    expect(diff.unchanged['/dir/a.md']).toMatchObject({ uniqueId: 'a', mtimeMs: 5 })
+  })
+
+  it('does not hash files whose size and mtime are unchanged', async () => {
+    setFile('/dir/a.md', 'a', 1)
+    const entries = { '/dir/a.md': await entryFor('/dir/a.md', 'a') }
+    vi.mocked(fs.createReadStream).mockClear()
+
+    await diffDirectory([file('/dir/a.md')], entries)
+
+    expect(fs.createReadStream).not.toHaveBeenCalled()
+  })
+})
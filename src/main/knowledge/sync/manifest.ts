@@ -0,0 +1,111 @@
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import path from 'node:path'
+
+import { loggerService } from '@logger'
+import type { FileMetadata } from '@types'
+
+const logger = loggerService.withContext('KnowledgeDirectoryManifest')
+
+export interface DirectoryManifestEntry {
+  uniqueId: string
+  size: number
+  mtimeMs: number
+  hash: string
+}
+
+/**
+ * What a directory item looked like when it was last embedded, keyed by absolute file path.
+ */
+export interface DirectoryManifest {
+  directory: string
+  syncedAt: number
+  files: Record<string, DirectoryManifestEntry>
+}
+
+export interface DirectoryDiff {
+  added: FileMetadata[]
+  modified: { file: FileMetadata; previous: DirectoryManifestEntry }[]
+  deleted: DirectoryManifestEntry[]
+  // Entries still valid for the next manifest, with refreshed stats for touched-but-identical files
+  unchanged: Record<string, DirectoryManifestEntry>
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    fs.createReadStream(filePath)
+      .on('data', (data) => hash.update(data))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+export async function createManifestEntry(filePath: string, uniqueId: string): Promise<DirectoryManifestEntry> {
+  const [stats, hash] = await Promise.all([fs.promises.stat(filePath), hashFile(filePath)])
+  return { uniqueId, size: stats.size, mtimeMs: stats.mtimeMs, hash }
+}
+
+/**
+ * Compare the files currently in a directory with the manifest of the last sync.
+ *
+ * Size and mtime are checked first, the content hash is only computed when they differ,
+ * so files that were merely touched are not embedded again.
+ */
+export async function diffDirectory(
+  files: FileMetadata[],
+  entries: Record<string, DirectoryManifestEntry>
+): Promise<DirectoryDiff> {
+  const diff: DirectoryDiff = { added: [], modified: [], deleted: [], unchanged: {} }
+  const seen = new Set<string>()
+
+  for (const file of files) {
+    seen.add(file.path)
+    const previous = entries[file.path]
+    if (!previous) {
+      diff.added.push(file)
+      continue
+    }
+
+    const stats = await fs.promises.stat(file.path)
+    if (stats.size === previous.size && stats.mtimeMs === previous.mtimeMs) {
+      diff.unchanged[file.path] = previous
+      continue
+    }
+
+    const hash = await hashFile(file.path)
+    if (hash === previous.hash) {
+      diff.unchanged[file.path] = { ...previous, size: stats.size, mtimeMs: stats.mtimeMs }
+    } else {
+      diff.modified.push({ file, previous })
+    }
+  }
+
+  for (const [filePath, entry] of Object.entries(entries)) {
+    if (!seen.has(filePath)) {
+      diff.deleted.push(entry)
+    }
+  }
+
+  return diff
+}
+
+export function readManifest(manifestPath: string): DirectoryManifest | null {
+  try {
+    if (fs.existsSync(manifestPath)) {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as DirectoryManifest
+    }
+  } catch (error) {
+    logger.warn(`Failed to read directory manifest ${manifestPath}`, error as Error)
+  }
+  return null
+}
+
+export function writeManifest(manifestPath: string, manifest: DirectoryManifest): void {
+  try {
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true })
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest))
+  } catch (error) {
+    logger.warn(`Failed to write directory manifest ${manifestPath}`, error as Error)
+  }
+}
@@ -1,6 +1,9 @@
+import type { ApiServerKnowledgeResponse } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import type {
+  ApiRequestLogQuery,
   ApiServerConfig,
+  ApiUsageQuery,
   GetApiServerStatusResult,
   RestartApiServerStatusResult,
   StartApiServerStatusResult,
@@ -10,6 +13,8 @@ import { ipcMain } from 'electron'
 
 import { apiServer } from '../apiServer'
 import { config } from '../apiServer/config'
+import { knowledgeApiService } from '../apiServer/services/knowledge'
+import { apiRequestLogService } from '../apiServer/services/requestLog'
 import { loggerService } from './LoggerService'
 const logger = loggerService.withContext('ApiServerService')
 
@@ -107,6 +112,18 @@ export class ApiServerService {
         return null
       }
     })
+
+    ipcMain.handle(IpcChannel.ApiServer_KnowledgeResponse, (_, response: ApiServerKnowledgeResponse) =>
+      knowledgeApiService.respond(response)
+    )
+
+    ipcMain.handle(IpcChannel.ApiServer_GetRequestLog, (_, query: ApiRequestLogQuery) =>
+      apiRequestLogService.query(query)
+    )
+
+    ipcMain.handle(IpcChannel.ApiServer_GetUsage, (_, query: ApiUsageQuery) => apiRequestLogService.getUsage(query))
+
+    ipcMain.handle(IpcChannel.ApiServer_ClearRequestLog, () => apiRequestLogService.clear())
   }
 }
 
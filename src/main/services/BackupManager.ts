@@ -15,18 +15,20 @@
  * --------------------------------------------------------------------------
  */
 import { loggerService } from '@logger'
+import { BACKUP_PASSPHRASE_REQUIRED } from '@shared/config/constant'
 import { IpcChannel } from '@shared/IpcChannel'
 import type { WebDavConfig } from '@types'
 import type { S3Config } from '@types'
 import archiver from 'archiver'
 import { exec } from 'child_process'
-import { app } from 'electron'
+import { app, safeStorage } from 'electron'
 import * as fs from 'fs-extra'
 import StreamZip from 'node-stream-zip'
 import * as path from 'path'
 import type { CreateDirectoryOptions, FileStat } from 'webdav'
 
 import { getDataPath } from '../utils'
+import { decryptBackupFile, encryptBackupFile, isEncryptedBackup } from '../utils/backupCrypto'
 import { closeAllDataConnections } from '../utils/lifecycle'
 import S3Storage from './S3Storage'
 import WebDav from './WebDav'
@@ -37,6 +39,8 @@ const logger = loggerService.withContext('BackupManager')
 class BackupManager {
   private tempDir = path.join(app.getPath('temp'), 'cherry-studio', 'backup', 'temp')
   private backupDir = path.join(app.getPath('temp'), 'cherry-studio', 'backup')
+  // 自动备份使用的口令，经 safeStorage 加密后保存
+  private passphraseFilePath = path.join(app.getPath('userData'), '.backup_passphrase')
 
   // 缓存实例，避免重复创建
   private s3Storage: S3Storage | null = null
@@ -76,6 +80,8 @@ class BackupManager {
     this.listS3Files = this.listS3Files.bind(this)
     this.deleteS3File = this.deleteS3File.bind(this)
     this.checkS3Connection = this.checkS3Connection.bind(this)
+    this.getStoredPassphrase = this.getStoredPassphrase.bind(this)
+    this.setStoredPassphrase = this.setStoredPassphrase.bind(this)
   }
 
   private async setWritableRecursive(dirPath: string): Promise<void> {
@@ -212,7 +218,8 @@ class BackupManager {
     fileName: string,
     data: string,
     destinationPath: string = this.backupDir,
-    skipBackupFile: boolean = false
+    skipBackupFile: boolean = false,
+    passphrase?: string
   ): Promise<string> {
     const mainWindow = windowService.getMainWindow()
 
@@ -353,6 +360,13 @@ class BackupManager {
         archive.finalize()
       })
 
+      if (passphrase) {
+        onProgress({ stage: 'encrypting', progress: 100, total: 100 })
+        const encryptedFilePath = `${backupedFilePath}.enc`
+        await encryptBackupFile(backupedFilePath, encryptedFilePath, passphrase)
+        await fs.move(encryptedFilePath, backupedFilePath, { overwrite: true })
+      }
+
       // 清理临时目录
       await fs.remove(this.tempDir)
       onProgress({ stage: 'completed', progress: 100, total: 100 })
@@ -367,7 +381,7 @@ class BackupManager {
     }
   }
 
-  async restore(_: Electron.IpcMainInvokeEvent, backupPath: string): Promise<string> {
+  async restore(_: Electron.IpcMainInvokeEvent, backupPath: string, passphrase?: string): Promise<string> {
     const mainWindow = windowService.getMainWindow()
 
     const onProgress = (processData: { stage: string; progress: number; total: number }) => {
@@ -379,16 +393,34 @@ class BackupManager {
       }
     }
 
+    const decryptedFilePath = path.join(this.backupDir, 'restore.decrypted.zip')
+
     try {
+      // 加密备份需要口令，由渲染进程提示用户输入后重试
+      const encrypted = await isEncryptedBackup(backupPath)
+      if (encrypted && !passphrase) {
+        throw new Error(BACKUP_PASSPHRASE_REQUIRED)
+      }
+
       // 创建临时目录
       await fs.ensureDir(this.tempDir)
       onProgress({ stage: 'preparing', progress: 0, total: 100 })
 
+      let zipFilePath = backupPath
+      if (encrypted && passphrase) {
+        logger.debug('step 0: decrypt backup file')
+        onProgress({ stage: 'decrypting', progress: 5, total: 100 })
+        await decryptBackupFile(backupPath, decryptedFilePath, passphrase)
+        zipFilePath = decryptedFilePath
+      }
+
       logger.debug(`step 1: unzip backup file: ${this.tempDir}`)
 
-      const zip = new StreamZip.async({ file: backupPath })
+      const zip = new StreamZip.async({ file: zipFilePath })
       onProgress({ stage: 'extracting', progress: 15, total: 100 })
       await zip.extract(null, this.tempDir)
+      await zip.close()
+      await fs.remove(decryptedFilePath)
       onProgress({ stage: 'extracted', progress: 25, total: 100 })
 
       logger.debug('step 2: read data.json')
@@ -439,13 +471,21 @@ class BackupManager {
     } catch (error) {
       logger.error('Restore failed:', error as Error)
       await fs.remove(this.tempDir).catch(() => {})
+      await fs.remove(decryptedFilePath).catch(() => {})
       throw error
     }
   }
 
   async backupToWebdav(_: Electron.IpcMainInvokeEvent, data: string, webdavConfig: WebDavConfig) {
     const filename = webdavConfig.fileName || 'cherry-studio.backup.zip'
-    const backupedFilePath = await this.backup(_, filename, data, undefined, webdavConfig.skipBackupFile)
+    const backupedFilePath = await this.backup(
+      _,
+      filename,
+      data,
+      undefined,
+      webdavConfig.skipBackupFile,
+      webdavConfig.passphrase
+    )
     const webdavClient = this.getWebDavInstance(webdavConfig)
     try {
       let result
@@ -492,7 +532,7 @@ class BackupManager {
         writeStream.on('error', (error) => reject(error))
       })
 
-      return await this.restore(_, backupedFilePath)
+      return await this.restore(_, backupedFilePath, webdavConfig.passphrase)
     } catch (error: any) {
       logger.error('Failed to restore from WebDAV:', error)
       throw new Error(error.message || 'Failed to restore backup file')
@@ -622,6 +662,7 @@ class BackupManager {
     localConfig: {
       localBackupDir: string
       skipBackupFile: boolean
+      passphrase?: string
     }
   ) {
     try {
@@ -629,7 +670,14 @@ class BackupManager {
       // Create backup directory if it doesn't exist
       await fs.ensureDir(backupDir)
 
-      const backupedFilePath = await this.backup(_, fileName, data, backupDir, localConfig.skipBackupFile)
+      const backupedFilePath = await this.backup(
+        _,
+        fileName,
+        data,
+        backupDir,
+        localConfig.skipBackupFile,
+        localConfig.passphrase
+      )
       return backupedFilePath
     } catch (error) {
       logger.error('[BackupManager] Local backup failed:', error as Error)
@@ -648,7 +696,14 @@ class BackupManager {
 
     logger.debug(`Starting S3 backup to ${filename}`)
 
-    const backupedFilePath = await this.backup(_, filename, data, undefined, s3Config.skipBackupFile)
+    const backupedFilePath = await this.backup(
+      _,
+      filename,
+      data,
+      undefined,
+      s3Config.skipBackupFile,
+      s3Config.passphrase
+    )
     const s3Client = this.getS3Storage(s3Config)
     try {
       const fileBuffer = await fs.promises.readFile(backupedFilePath)
@@ -664,7 +719,12 @@ class BackupManager {
     }
   }
 
-  async restoreFromLocalBackup(_: Electron.IpcMainInvokeEvent, fileName: string, localBackupDir: string) {
+  async restoreFromLocalBackup(
+    _: Electron.IpcMainInvokeEvent,
+    fileName: string,
+    localBackupDir: string,
+    passphrase?: string
+  ) {
     try {
       const backupDir = localBackupDir
       const backupPath = path.join(backupDir, fileName)
@@ -673,7 +733,7 @@ class BackupManager {
         throw new Error(`Backup file not found: ${backupPath}`)
       }
 
-      return await this.restore(_, backupPath)
+      return await this.restore(_, backupPath, passphrase)
     } catch (error) {
       logger.error('[BackupManager] Local restore failed:', error as Error)
       throw error
@@ -743,7 +803,7 @@ class BackupManager {
       })
 
       logger.debug(`S3 restore file downloaded successfully: ${filename}`)
-      return await this.restore(_, backupedFilePath)
+      return await this.restore(_, backupedFilePath, s3Config.passphrase)
     } catch (error: any) {
       logger.error('[BackupManager] Failed to restore from S3:', error)
       throw new Error(error.message || 'Failed to restore backup file')
@@ -789,6 +849,36 @@ class BackupManager {
     return await s3Client.checkConnection()
   }
 
+  /**
+   * 读取系统密钥库中保存的备份口令，未保存时返回 null
+   */
+  async getStoredPassphrase(): Promise<string | null> {
+    try {
+      if (!(await fs.pathExists(this.passphraseFilePath))) {
+        return null
+      }
+      const encrypted = await fs.readFile(this.passphraseFilePath)
+      return safeStorage.decryptString(encrypted)
+    } catch (error) {
+      logger.error('Failed to read backup passphrase:', error as Error)
+      return null
+    }
+  }
+
+  /**
+   * 保存备份口令，传入 null 时清除
+   */
+  async setStoredPassphrase(_: Electron.IpcMainInvokeEvent, passphrase: string | null): Promise<void> {
+    if (!passphrase) {
+      await fs.remove(this.passphraseFilePath)
+      return
+    }
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error('System secret storage is not available')
+    }
+    await fs.writeFile(this.passphraseFilePath, safeStorage.encryptString(passphrase))
+  }
+
   /**
    * Create a temporary backup for LAN transfer
    * Creates a lightweight backup (skipBackupFile=true) in the temp directory
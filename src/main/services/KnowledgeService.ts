@@ -8,6 +8,9 @@
  * - Concurrent task processing with workload management
  * - Multiple data source support
  * - Vector database integration
+ * - Optional hybrid retrieval fusing vector similarity with a BM25 keyword index
+ * - Search scoped by item metadata stamped on every chunk
+ * - Incremental sync and change watching for directory items
  *
  * For detailed documentation, see:
  * @see {@link ../../../docs/technical/KnowledgeService.md}
@@ -21,21 +24,46 @@ import { RAGApplicationBuilder } from '@cherrystudio/embedjs'
 import { LibSqlDb } from '@cherrystudio/embedjs-libsql'
 import { SitemapLoader } from '@cherrystudio/embedjs-loader-sitemap'
 import { WebLoader } from '@cherrystudio/embedjs-loader-web'
+import { cleanString } from '@cherrystudio/embedjs-utils'
+import type { Client } from '@libsql/client'
 import { loggerService } from '@logger'
+import {
+  extractKnowledgeBundle,
+  KNOWLEDGE_BUNDLE_FORMAT,
+  KNOWLEDGE_BUNDLE_VERSION,
+  readKnowledgeBundleManifest,
+  readVectorDimensions,
+  writeKnowledgeBundle
+} from '@main/knowledge/bundle/bundle'
 import Embeddings from '@main/knowledge/embedjs/embeddings/Embeddings'
 import { addFileLoader } from '@main/knowledge/embedjs/loader'
 import { NoteLoader } from '@main/knowledge/embedjs/loader/noteLoader'
+import { StructuredTextLoader } from '@main/knowledge/embedjs/loader/structuredTextLoader'
 import PreprocessProvider from '@main/knowledge/preprocess/PreprocessProvider'
 import Reranker from '@main/knowledge/reranker/Reranker'
+import { fuseHybridResults } from '@main/knowledge/search/fusion'
+import KeywordIndex from '@main/knowledge/search/KeywordIndex'
+import type { ScopeClause } from '@main/knowledge/search/scope'
+import { buildScopeClause, scopedVectorSearch, stampItemMetadata } from '@main/knowledge/search/scope'
+import DirectoryWatcher from '@main/knowledge/sync/DirectoryWatcher'
+import type { DirectoryManifest, DirectoryManifestEntry } from '@main/knowledge/sync/manifest'
+import { createManifestEntry, diffDirectory, readManifest, writeManifest } from '@main/knowledge/sync/manifest'
 import { fileStorage } from '@main/services/FileStorage'
 import { windowService } from '@main/services/WindowService'
 import { getDataPath } from '@main/utils'
-import { getAllFiles, sanitizeFilename } from '@main/utils/file'
+import { getAllFiles, getFilesDir, getTempDir, sanitizeFilename } from '@main/utils/file'
 import { TraceMethod } from '@mcp-trace/trace-core'
 import { MB } from '@shared/config/constant'
-import type { LoaderReturn } from '@shared/config/types'
+import type { KnowledgeBundleManifest, KnowledgeDirectorySyncReturn, LoaderReturn } from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
-import type { FileMetadata, KnowledgeBaseParams, KnowledgeItem, KnowledgeSearchResult } from '@types'
+import type {
+  FileMetadata,
+  KnowledgeBase,
+  KnowledgeBaseParams,
+  KnowledgeItem,
+  KnowledgeSearchFilter,
+  KnowledgeSearchResult
+} from '@types'
 import { v4 as uuidv4 } from 'uuid'
 
 const logger = loggerService.withContext('MainKnowledgeService')
@@ -95,6 +123,8 @@ const loaderTaskIntoOfSet = (loaderTask: LoaderTask): LoaderTaskOfSet => {
   }
 }
 
+export const DEFAULT_SEARCH_RESULT_COUNT = 30
+
 class KnowledgeService {
   private storageDir = path.join(getDataPath(), 'KnowledgeBase')
   private pendingDeleteFile = path.join(this.storageDir, 'knowledge_pending_delete.json')
@@ -104,6 +134,10 @@ class KnowledgeService {
   private knowledgeItemProcessingQueueMappingPromise: Map<LoaderTaskOfSet, () => void> = new Map()
   private ragApplications: Map<string, RAGApplication> = new Map()
   private dbInstances: Map<string, LibSqlDb> = new Map()
+  private keywordIndexes: Map<string, KeywordIndex> = new Map()
+  private embeddings: Map<string, Embeddings> = new Map()
+  private directoryWatcher = new DirectoryWatcher()
+  private directorySyncs: Map<string, Promise<KnowledgeDirectorySyncReturn>> = new Map()
   private static MAXIMUM_WORKLOAD = 80 * MB
   private static MAXIMUM_PROCESSING_ITEM_COUNT = 30
   private static ERROR_LOADER_RETURN: LoaderReturn = {
@@ -143,6 +177,9 @@ class KnowledgeService {
         this.dbInstances.delete(id)
         logger.debug(`Removed database instance reference for id: ${id}`)
       }
+
+      this.keywordIndexes.delete(id)
+      this.embeddings.delete(id)
     } catch (error) {
       logger.warn(`Failed to cleanup resources for id: ${id}`, error as Error)
     }
@@ -153,11 +190,20 @@ class KnowledgeService {
     return path.join(this.storageDir, sanitizeFilename(id, '_'))
   }
 
+  private getDirectorySyncDir = (id: string): string => {
+    return `${this.getDbPath(id)}_sync`
+  }
+
+  private getDirectoryManifestPath = (id: string, itemId: string): string => {
+    return path.join(this.getDirectorySyncDir(id), `${sanitizeFilename(itemId, '_')}.json`)
+  }
+
   /**
    * Delete knowledge base file
    */
   private deleteKnowledgeFile = (id: string): boolean => {
     const dbPath = this.getDbPath(id)
+    fs.rmSync(this.getDirectorySyncDir(id), { recursive: true, force: true })
     if (fs.existsSync(dbPath)) {
       try {
         fs.rmSync(dbPath, { recursive: true })
@@ -259,17 +305,61 @@ class KnowledgeService {
         .setModel('NO_MODEL')
         .setEmbeddingModel(embeddings)
         .setVectorDatabase(libSqlDb)
-        .setSearchResultCount(documentCount || 30)
+        .setSearchResultCount(documentCount || DEFAULT_SEARCH_RESULT_COUNT)
         .build()
       this.ragApplications.set(id, ragApplication)
+      this.embeddings.set(id, embeddings)
     } catch (e) {
       logger.error('Failed to create RAGApplication:', e as Error)
       throw new Error(`Failed to create RAGApplication: ${e}`)
     }
 
+    await this.initKeywordIndex(id)
+
     return ragApplication
   }
 
+  /**
+   * Create the BM25 keyword index next to the vector table.
+   * A failure only disables keyword matching, vector search keeps working.
+   */
+  private initKeywordIndex = async (id: string): Promise<void> => {
+    const client = this.getDbClient(id)
+    if (!client) {
+      return
+    }
+
+    try {
+      const keywordIndex = new KeywordIndex(client)
+      await keywordIndex.init()
+      this.keywordIndexes.set(id, keywordIndex)
+    } catch (error) {
+      logger.warn(`Failed to initialize keyword index for id: ${id}`, error as Error)
+    }
+  }
+
+  private getDbClient = (id: string): Client | undefined => {
+    // LibSqlDb's client is private, see closeAll
+    return (this.dbInstances.get(id) as any)?.client
+  }
+
+  /**
+   * Stamp item metadata on the chunks of an item for scoped search.
+   * A failure only leaves the chunks out of filtered searches, so it is not fatal.
+   */
+  private stampItem = async (id: string, item: KnowledgeItem, uniqueIds: string[]): Promise<void> => {
+    const client = this.getDbClient(id)
+    if (!client) {
+      return
+    }
+
+    try {
+      await stampItemMetadata(client, item, uniqueIds)
+    } catch (error) {
+      logger.warn(`Failed to stamp metadata for item ${item.id}`, error as Error)
+    }
+  }
+
   public create = async (_: Electron.IpcMainInvokeEvent, base: KnowledgeBaseParams): Promise<void> => {
     await this.getRagApplication(base)
   }
@@ -282,6 +372,7 @@ class KnowledgeService {
   public async delete(_: Electron.IpcMainInvokeEvent, id: string): Promise<void> {
     logger.debug(`delete id: ${id}`)
 
+    this.directoryWatcher.unwatchBase(id)
     await this.cleanupKnowledgeResources(id)
 
     await new Promise((resolve) => setTimeout(resolve, 100))
@@ -350,53 +441,89 @@ class KnowledgeService {
 
     return loaderTask
   }
-  private directoryTask(
+  /**
+   * One loader task per directory file. Each file is snapshotted for the sync manifest before it is
+   * embedded, so edits made while embedding are picked up by the next sync.
+   */
+  private directoryFileTasks(
     ragApplication: RAGApplication,
-    options: KnowledgeBaseAddItemOptionsNonNullableAttribute
-  ): LoaderTask {
-    const { base, item, forceReload } = options
-    const directory = item.content as string
-    const files = getAllFiles(directory)
+    itemId: string,
+    files: FileMetadata[],
+    base: KnowledgeBaseParams,
+    forceReload: boolean,
+    onLoaded: (file: FileMetadata, entry: DirectoryManifestEntry, result: LoaderReturn) => void,
+    onSettled?: () => void
+  ): LoaderTaskItem[] {
     const totalFiles = files.length
     let processedFiles = 0
 
     const sendDirectoryProcessingPercent = (totalFiles: number, processedFiles: number) => {
       const mainWindow = windowService.getMainWindow()
       mainWindow?.webContents.send(IpcChannel.DirectoryProcessingPercent, {
-        itemId: item.id,
+        itemId,
         percent: (processedFiles / totalFiles) * 100
       })
     }
 
+    return files.map((file) => ({
+      state: LoaderTaskItemState.PENDING,
+      task: async () => {
+        try {
+          const snapshot = await createManifestEntry(file.path, '')
+          const result = await addFileLoader(ragApplication, file, base, forceReload)
+          onLoaded(file, { ...snapshot, uniqueId: result.uniqueId }, result)
+          return result
+        } catch (err: any) {
+          logger.error('Failed to add dir loader:', err)
+          return {
+            ...KnowledgeService.ERROR_LOADER_RETURN,
+            message: `Failed to add dir loader: ${err.message}`,
+            messageSource: 'embedding'
+          }
+        } finally {
+          processedFiles += 1
+          sendDirectoryProcessingPercent(totalFiles, processedFiles)
+          if (processedFiles === totalFiles) {
+            onSettled?.()
+          }
+        }
+      },
+      evaluateTaskWorkload: { workload: file.size }
+    }))
+  }
+
+  private directoryTask(
+    ragApplication: RAGApplication,
+    options: KnowledgeBaseAddItemOptionsNonNullableAttribute
+  ): LoaderTask {
+    const { base, item, forceReload } = options
+    const directory = item.content as string
+    const files = getAllFiles(directory)
+    const manifestPath = this.getDirectoryManifestPath(base.id, item.id)
+    const manifest: DirectoryManifest = { directory, syncedAt: Date.now(), files: {} }
+
     const loaderDoneReturn: LoaderDoneReturn = {
       entriesAdded: 0,
       uniqueId: `DirectoryLoader_${uuidv4()}`,
       uniqueIds: [],
       loaderType: 'DirectoryLoader'
     }
-    const loaderTasks: LoaderTaskItem[] = []
-    for (const file of files) {
-      loaderTasks.push({
-        state: LoaderTaskItemState.PENDING,
-        task: () =>
-          addFileLoader(ragApplication, file, base, forceReload)
-            .then((result) => {
-              loaderDoneReturn.entriesAdded += 1
-              processedFiles += 1
-              sendDirectoryProcessingPercent(totalFiles, processedFiles)
-              loaderDoneReturn.uniqueIds.push(result.uniqueId)
-              return result
-            })
-            .catch((err) => {
-              logger.error('Failed to add dir loader:', err)
-              return {
-                ...KnowledgeService.ERROR_LOADER_RETURN,
-                message: `Failed to add dir loader: ${err.message}`,
-                messageSource: 'embedding'
-              }
-            }),
-        evaluateTaskWorkload: { workload: file.size }
-      })
+    const loaderTasks = this.directoryFileTasks(
+      ragApplication,
+      item.id,
+      files,
+      base,
+      forceReload,
+      (file, entry, result) => {
+        loaderDoneReturn.entriesAdded += 1
+        loaderDoneReturn.uniqueIds.push(result.uniqueId)
+        manifest.files[file.path] = entry
+      },
+      () => writeManifest(manifestPath, manifest)
+    )
+
+    if (files.length === 0) {
+      writeManifest(manifestPath, manifest)
     }
 
     return {
@@ -512,15 +639,23 @@ class KnowledgeService {
         {
           state: LoaderTaskItemState.PENDING,
           task: () => {
-            const loaderReturn = ragApplication.addLoader(
-              new NoteLoader({
-                text: content,
-                sourceUrl,
-                chunkSize: base.chunkSize,
-                chunkOverlap: base.chunkOverlap
-              }),
-              forceReload
-            ) as Promise<LoaderReturn>
+            // Notes are Markdown, so they can use the Markdown or sentence strategies
+            const loader =
+              base.chunkStrategy === 'markdown' || base.chunkStrategy === 'sentence'
+                ? new StructuredTextLoader({
+                    text: content,
+                    source: sourceUrl || 'note',
+                    strategy: base.chunkStrategy,
+                    chunkSize: base.chunkSize,
+                    chunkOverlap: base.chunkOverlap
+                  })
+                : new NoteLoader({
+                    text: content,
+                    sourceUrl,
+                    chunkSize: base.chunkSize,
+                    chunkOverlap: base.chunkOverlap
+                  })
+            const loaderReturn = ragApplication.addLoader(loader, forceReload) as Promise<LoaderReturn>
 
             return loaderReturn
               .then(({ entriesAdded, uniqueId, loaderType }) => {
@@ -627,9 +762,16 @@ class KnowledgeService {
           })()
 
           if (task) {
-            this.appendProcessingQueue(task).then(() => {
-              resolve(task.loaderDoneReturn!)
-            })
+            this.appendProcessingQueue(task)
+              .then(async () => {
+                const result = task.loaderDoneReturn
+                if (result && result.status !== 'failed') {
+                  await this.stampItem(base.id, item, result.uniqueIds)
+                }
+              })
+              .then(() => {
+                resolve(task.loaderDoneReturn!)
+              })
             this.processingQueueHandle()
           } else {
             resolve({
@@ -650,25 +792,276 @@ class KnowledgeService {
     })
   }
 
+  /**
+   * Bring a directory item up to date with its folder: embed new files, re-embed modified ones
+   * and drop the loaders of deleted ones. Syncs of the same item run one after another.
+   */
+  public syncDirectory = async (
+    _: Electron.IpcMainInvokeEvent,
+    { base, item }: { base: KnowledgeBaseParams; item: KnowledgeItem }
+  ): Promise<KnowledgeDirectorySyncReturn> => {
+    const previous = this.directorySyncs.get(item.id) ?? Promise.resolve(null)
+    const current = previous
+      .catch(() => null)
+      .then(() => this.runDirectorySync(base, item))
+      .catch((err) => {
+        logger.error(`Failed to sync directory ${item.content}:`, err)
+        return {
+          ...KnowledgeService.ERROR_LOADER_RETURN,
+          message: `Failed to sync directory: ${err.message}`,
+          messageSource: 'embedding' as const,
+          added: 0,
+          updated: 0,
+          removed: 0,
+          syncedAt: Date.now()
+        }
+      })
+    this.directorySyncs.set(item.id, current)
+
+    try {
+      return await current
+    } finally {
+      if (this.directorySyncs.get(item.id) === current) {
+        this.directorySyncs.delete(item.id)
+      }
+    }
+  }
+
+  private async runDirectorySync(
+    base: KnowledgeBaseParams,
+    item: KnowledgeItem
+  ): Promise<KnowledgeDirectorySyncReturn> {
+    const ragApplication = await this.getRagApplication(base)
+    const directory = item.content as string
+    const manifestPath = this.getDirectoryManifestPath(base.id, item.id)
+    const manifest = readManifest(manifestPath)
+    const files = getAllFiles(directory)
+
+    if (!manifest) {
+      // Items embedded before sync was available have no manifest, so start over from scratch
+      for (const id of item.uniqueIds ?? []) {
+        await ragApplication.deleteLoader(id)
+      }
+    }
+
+    const diff = await diffDirectory(files, manifest?.files ?? {})
+    for (const entry of [...diff.deleted, ...diff.modified.map(({ previous }) => previous)]) {
+      await ragApplication.deleteLoader(entry.uniqueId)
+    }
+
+    const next: DirectoryManifest = { directory, syncedAt: Date.now(), files: { ...diff.unchanged } }
+    const pendingFiles = [...diff.added, ...diff.modified.map(({ file }) => file)]
+    let entriesAdded = 0
+
+    if (pendingFiles.length > 0) {
+      const loaderTasks = this.directoryFileTasks(ragApplication, item.id, pendingFiles, base, true, (file, entry) => {
+        entriesAdded += 1
+        next.files[file.path] = entry
+      })
+      const done = this.appendProcessingQueue({ loaderTasks, loaderDoneReturn: null })
+      this.processingQueueHandle()
+      await done
+    }
+
+    writeManifest(manifestPath, next)
+    const uniqueIds = Object.values(next.files).map(({ uniqueId }) => uniqueId)
+    await this.stampItem(base.id, item, uniqueIds)
+    logger.info(
+      `Synced directory ${directory}: ${diff.added.length} added, ${diff.modified.length} updated, ${diff.deleted.length} removed`
+    )
+
+    return {
+      entriesAdded,
+      uniqueId: item.uniqueId || `DirectoryLoader_${uuidv4()}`,
+      uniqueIds,
+      loaderType: 'DirectoryLoader',
+      added: diff.added.length,
+      updated: diff.modified.length,
+      removed: diff.deleted.length,
+      syncedAt: next.syncedAt
+    }
+  }
+
+  public watchDirectory = (
+    _: Electron.IpcMainInvokeEvent,
+    { baseId, itemId, directory }: { baseId: string; itemId: string; directory: string }
+  ): void => {
+    this.directoryWatcher.watch(baseId, itemId, directory)
+  }
+
+  public unwatchDirectory = (_: Electron.IpcMainInvokeEvent, itemId: string): void => {
+    this.directoryWatcher.unwatch(itemId)
+  }
+
+  /**
+   * Delete the loaders of an item. `itemId` is passed when the item itself is removed,
+   * which also stops watching it and drops its directory sync manifest.
+   */
   @TraceMethod({ spanName: 'remove', tag: 'Knowledge' })
   public async remove(
     _: Electron.IpcMainInvokeEvent,
-    { uniqueId, uniqueIds, base }: { uniqueId: string; uniqueIds: string[]; base: KnowledgeBaseParams }
+    {
+      uniqueId,
+      uniqueIds,
+      base,
+      itemId
+    }: { uniqueId: string; uniqueIds: string[]; base: KnowledgeBaseParams; itemId?: string }
   ): Promise<void> {
     const ragApplication = await this.getRagApplication(base)
     logger.debug(`Remove Item UniqueId: ${uniqueId}`)
     for (const id of uniqueIds) {
       await ragApplication.deleteLoader(id)
     }
+
+    if (itemId) {
+      this.directoryWatcher.unwatch(itemId)
+      fs.rmSync(this.getDirectoryManifestPath(base.id, itemId), { force: true })
+    }
+  }
+
+  /**
+   * Re-stamp item metadata on stored chunks, after tags change or for chunks stored before scoped search.
+   */
+  public updateItemMetadata = async (
+    _: Electron.IpcMainInvokeEvent,
+    { base, items }: { base: KnowledgeBaseParams; items: KnowledgeItem[] }
+  ): Promise<void> => {
+    await this.getRagApplication(base)
+    for (const item of items) {
+      await this.stampItem(base.id, item, item.uniqueIds ?? [])
+    }
+  }
+
+  /**
+   * Export a base with its vector database and files as a bundle in `directory`, returns the bundle path.
+   * Note items in `base` are expected to carry their content.
+   */
+  public exportBundle = async (
+    _: Electron.IpcMainInvokeEvent,
+    { base, params, directory }: { base: KnowledgeBase; params: KnowledgeBaseParams; directory: string }
+  ): Promise<string> => {
+    await this.getRagApplication(params)
+    const client = this.getDbClient(base.id)
+    if (!client) {
+      throw new Error(`Knowledge base ${base.id} is not available`)
+    }
+
+    const filePath = path.join(directory, `${sanitizeFilename(base.name, '_')}.zip`)
+    const snapshotPath = path.join(getTempDir(), `knowledge_bundle_${uuidv4()}.db`)
+
+    try {
+      await fs.promises.mkdir(getTempDir(), { recursive: true })
+      // Consistent copy of the database while it stays open
+      await client.execute({ sql: 'VACUUM INTO ?', args: [snapshotPath] })
+
+      const manifest: KnowledgeBundleManifest = {
+        format: KNOWLEDGE_BUNDLE_FORMAT,
+        version: KNOWLEDGE_BUNDLE_VERSION,
+        exportedAt: Date.now(),
+        embedding: {
+          model: base.model.id,
+          provider: base.model.provider,
+          name: base.model.name,
+          dimensions: (await readVectorDimensions(client)) ?? base.dimensions
+        },
+        base
+      }
+
+      const files = base.items
+        .flatMap((item) => {
+          if (item.type === 'file') return [item.content as FileMetadata]
+          if (item.type === 'video') return item.content as FileMetadata[]
+          return []
+        })
+        .map((file) => ({ name: file.id + file.ext, path: fileStorage.getFilePathById(file) }))
+        .filter((file) => {
+          const exists = fs.existsSync(file.path)
+          if (!exists) {
+            logger.warn(`Skipping missing file ${file.path} in knowledge base export`)
+          }
+          return exists
+        })
+
+      await writeKnowledgeBundle(filePath, manifest, snapshotPath, files)
+      logger.info(`Exported knowledge base ${base.id} to ${filePath}`)
+      return filePath
+    } finally {
+      fs.rmSync(snapshotPath, { force: true })
+    }
+  }
+
+  public readBundle = (_: Electron.IpcMainInvokeEvent, filePath: string): Promise<KnowledgeBundleManifest> => {
+    return readKnowledgeBundleManifest(filePath)
+  }
+
+  /**
+   * Extract a bundle as the database of a new base. The renderer registers the base afterwards,
+   * once it has checked that the embedding model is available.
+   */
+  public importBundle = async (
+    _: Electron.IpcMainInvokeEvent,
+    { filePath, baseId }: { filePath: string; baseId: string }
+  ): Promise<KnowledgeBundleManifest> => {
+    const dbPath = this.getDbPath(baseId)
+    if (fs.existsSync(dbPath)) {
+      throw new Error(`Knowledge base ${baseId} already exists`)
+    }
+
+    try {
+      const manifest = await extractKnowledgeBundle(filePath, dbPath, getFilesDir())
+      logger.info(`Imported knowledge base bundle ${filePath} as ${baseId}`)
+      return manifest
+    } catch (error) {
+      fs.rmSync(dbPath, { force: true })
+      throw error
+    }
   }
 
   @TraceMethod({ spanName: 'RagSearch', tag: 'Knowledge' })
   public async search(
     _: Electron.IpcMainInvokeEvent,
-    { search, base }: { search: string; base: KnowledgeBaseParams }
+    {
+      search,
+      base,
+      filter,
+      threshold = 0
+    }: { search: string; base: KnowledgeBaseParams; filter?: KnowledgeSearchFilter; threshold?: number }
   ): Promise<KnowledgeSearchResult[]> {
     const ragApplication = await this.getRagApplication(base)
-    return await ragApplication.search(search)
+    const scope = buildScopeClause(filter)
+    const resultCount = base.documentCount || DEFAULT_SEARCH_RESULT_COUNT
+    const vectorSearch = scope
+      ? this.searchVectorsInScope(base.id, search, resultCount, scope)
+      : ragApplication.search(search)
+
+    if (base.searchMode !== 'hybrid') {
+      return (await vectorSearch).filter((result) => result.score >= threshold)
+    }
+
+    const keywordIndex = this.keywordIndexes.get(base.id)
+    const [vectorResults, keywordResults] = await Promise.all([
+      vectorSearch,
+      keywordIndex ? keywordIndex.search(search, resultCount, scope) : Promise.resolve([])
+    ])
+    logger.debug(`Hybrid search: ${vectorResults.length} vector results, ${keywordResults.length} keyword results`)
+
+    return fuseHybridResults(vectorResults, keywordResults, threshold)
+  }
+
+  private async searchVectorsInScope(
+    id: string,
+    search: string,
+    resultCount: number,
+    scope: ScopeClause
+  ): Promise<KnowledgeSearchResult[]> {
+    const client = this.getDbClient(id)
+    const embeddings = this.embeddings.get(id)
+    if (!client || !embeddings) {
+      return []
+    }
+
+    const queryVector = await embeddings.embedQuery(cleanString(search))
+    return scopedVectorSearch(client, queryVector, resultCount, scope)
   }
 
   @TraceMethod({ spanName: 'rerank', tag: 'Knowledge' })
@@ -709,6 +1102,9 @@ class KnowledgeService {
 
     this.dbInstances.clear()
     this.ragApplications.clear()
+    this.keywordIndexes.clear()
+    this.embeddings.clear()
+    this.directoryWatcher.unwatchAll()
 
     if (failed.length > 0) {
       throw new Error(`Failed to close KnowledgeBase connections: ${failed.join(', ')}`)
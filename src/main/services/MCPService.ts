@@ -1,11 +1,13 @@
 import crypto from 'node:crypto'
 import os from 'node:os'
 import path from 'node:path'
+import { pathToFileURL } from 'node:url'
 
 import { loggerService } from '@logger'
 import { getMCPServersFromRedux } from '@main/apiServer/utils/mcp'
 import { createInMemoryMCPServer } from '@main/mcpServers/factory'
 import { makeSureDirExists, removeEnvProxy } from '@main/utils'
+import { t } from '@main/utils/locales'
 import { findCommandInShellEnv, getBinaryName, getBinaryPath, isBinaryExists } from '@main/utils/process'
 import getLoginShellEnvironment from '@main/utils/shell-env'
 import { TraceMethod, withSpanFunc } from '@mcp-trace/trace-core'
@@ -19,11 +21,16 @@ import {
   type StreamableHTTPClientTransportOptions
 } from '@modelcontextprotocol/sdk/client/streamableHttp'
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory'
-import { McpError, type Tool as SDKTool } from '@modelcontextprotocol/sdk/types'
+import { ErrorCode, McpError, type Tool as SDKTool } from '@modelcontextprotocol/sdk/types'
 // Import notification schemas from MCP SDK
 import {
   CancelledNotificationSchema,
+  CreateMessageRequestSchema,
+  type CreateMessageResult,
+  ElicitRequestSchema,
+  type ElicitResult,
   type GetPromptResult,
+  ListRootsRequestSchema,
   LoggingMessageNotificationSchema,
   PromptListChangedNotificationSchema,
   ResourceListChangedNotificationSchema,
@@ -33,7 +40,12 @@ import {
 import { nanoid } from '@reduxjs/toolkit'
 import { HOME_CHERRY_DIR } from '@shared/config/constant'
 import type { MCPProgressEvent } from '@shared/config/types'
-import type { MCPServerLogEntry } from '@shared/config/types'
+import type {
+  MCPClientRequestResponse,
+  MCPServerHealth,
+  MCPServerLogEntry,
+  MCPToolCallRecord
+} from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import { buildFunctionCallToolName } from '@shared/mcp'
 import { defaultAppHeaders } from '@shared/utils'
@@ -56,9 +68,14 @@ import * as z from 'zod'
 
 import { CacheService } from './CacheService'
 import DxtService from './DxtService'
+import { ClientRequestBroker } from './mcp/ClientRequestBroker'
 import { CallBackServer } from './mcp/oauth/callback'
 import { McpOAuthClientProvider } from './mcp/oauth/provider'
+import { ServerHealthMonitor } from './mcp/ServerHealthMonitor'
 import { ServerLogBuffer } from './mcp/ServerLogBuffer'
+import { ServerRoots } from './mcp/ServerRoots'
+import { ToolCallHistory } from './mcp/ToolCallHistory'
+import NotificationService from './NotificationService'
 import { windowService } from './WindowService'
 
 // Generic type for caching wrapped functions
@@ -68,6 +85,11 @@ type CallToolArgs = { server: MCPServer; name: string; args: any; callId?: strin
 
 const logger = loggerService.withContext('MCPService')
 
+// Sampling and elicitation wait for the user, give them time to read and answer
+const CLIENT_REQUEST_TIMEOUT = 10 * 60 * 1000
+
+const HEALTH_CHECK_TIMEOUT = 5000
+
 // Redact potentially sensitive fields in objects (headers, tokens, api keys)
 function redactSensitive(input: any): any {
   const SENSITIVE_KEYS = ['authorization', 'Authorization', 'apiKey', 'api_key', 'apikey', 'token', 'access_token']
@@ -96,6 +118,14 @@ function redactSensitive(input: any): any {
   return redact(input)
 }
 
+// Sorts object keys so equal arguments produce the same cache key regardless of key order
+function sortKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value
+  }
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+}
+
 // Create a context-aware logger for a server
 function getServerLogger(server: MCPServer, extra?: Record<string, any>) {
   const base = {
@@ -146,6 +176,27 @@ class McpService {
   private dxtService = new DxtService()
   private activeToolCalls: Map<string, AbortController> = new Map()
   private serverLogs = new ServerLogBuffer(200)
+  private toolCallHistory = new ToolCallHistory(500)
+  private notificationService = new NotificationService()
+  private healthMonitor = new ServerHealthMonitor({
+    getServers: async () => (await getMCPServersFromRedux()).filter((server) => server.isActive),
+    check: (server) => this.pingServer(server),
+    restart: (server) => this.reconnectServer(server),
+    onChange: (health) => {
+      windowService.getMainWindow()?.webContents.send(IpcChannel.Mcp_ServerHealthChanged, health)
+    },
+    onGiveUp: (server, health) => this.notifyServerGivenUp(server, health)
+  })
+  // Directories exposed to each server through roots/list
+  private serverRoots = new ServerRoots()
+  private clientRequests = new ClientRequestBroker((channel, payload) => {
+    const mainWindow = windowService.getMainWindow()
+    if (!mainWindow) {
+      return false
+    }
+    mainWindow.webContents.send(channel, payload)
+    return true
+  })
 
   constructor() {
     this.initClient = this.initClient.bind(this)
@@ -164,6 +215,11 @@ class McpService {
     this.checkMcpConnectivity = this.checkMcpConnectivity.bind(this)
     this.getServerVersion = this.getServerVersion.bind(this)
     this.getServerLogs = this.getServerLogs.bind(this)
+    this.getToolCallHistory = this.getToolCallHistory.bind(this)
+    this.clearToolCallHistory = this.clearToolCallHistory.bind(this)
+    this.getServerHealth = this.getServerHealth.bind(this)
+    this.setRoots = this.setRoots.bind(this)
+    this.respondToClientRequest = this.respondToClientRequest.bind(this)
   }
 
   /**
@@ -295,7 +351,18 @@ class McpService {
     const initPromise = (async () => {
       try {
         // Create new client instance for each connection
-        const client = new Client({ name: 'Cherry Studio', version: app.getVersion() }, { capabilities: {} })
+        const client = new Client(
+          { name: 'Cherry Studio', version: app.getVersion() },
+          {
+            capabilities: {
+              sampling: {},
+              elicitation: { form: {} },
+              roots: { listChanged: true }
+            }
+          }
+        )
+        // Servers may ask for roots right after initialization, register before connecting
+        this.setupRequestHandlers(client, server)
 
         let args = [...(server.args || [])]
 
@@ -610,6 +677,10 @@ class McpService {
 
           // Store the new client in the cache
           this.clients.set(serverKey, client)
+          // In-memory servers run inside the app and cannot crash on their own
+          if (server.type !== 'inMemory') {
+            this.healthMonitor.watch(server.id)
+          }
 
           // Set up notification handlers
           this.setupNotificationHandlers(client, server)
@@ -648,6 +719,61 @@ class McpService {
     return initPromise
   }
 
+  /**
+   * Set up handlers for requests the server sends to the client
+   */
+  private setupRequestHandlers(client: Client, server: MCPServer) {
+    // Sampling and elicitation are answered by the user in the renderer
+    client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      getServerLogger(server).debug(`Sampling requested`, { maxTokens: request.params.maxTokens })
+      return this.clientRequests.request<CreateMessageResult>(
+        IpcChannel.Mcp_SamplingRequest,
+        { serverId: server.id, serverName: server.name, params: request.params },
+        { timeout: CLIENT_REQUEST_TIMEOUT, signal: extra.signal }
+      )
+    })
+
+    client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      getServerLogger(server).debug(`Elicitation requested`)
+      return this.clientRequests.request<ElicitResult>(
+        IpcChannel.Mcp_ElicitationRequest,
+        { serverId: server.id, serverName: server.name, params: request.params },
+        { timeout: CLIENT_REQUEST_TIMEOUT, signal: extra.signal }
+      )
+    })
+
+    client.setRequestHandler(ListRootsRequestSchema, async () => {
+      const paths = this.serverRoots.get(server.id)
+      return {
+        roots: paths.map((dir) => ({ uri: pathToFileURL(dir).href, name: path.basename(dir) }))
+      }
+    })
+  }
+
+  /**
+   * Set the directories a caller (an assistant or an agent session) lets the given servers access,
+   * exposed to them as MCP roots. A server shared by several callers only sees the directories all of
+   * them granted. Connected servers are notified when their roots change.
+   */
+  public async setRoots(_: Electron.IpcMainInvokeEvent | null, callerId: string, serverIds: string[], paths: string[]) {
+    for (const serverId of this.serverRoots.set(callerId, serverIds, paths)) {
+      for (const [serverKey, client] of this.clients) {
+        if (JSON.parse(serverKey).id !== serverId) {
+          continue
+        }
+        try {
+          await client.sendRootsListChanged()
+        } catch (error) {
+          logger.warn(`Failed to notify roots change`, { serverId, error: (error as Error)?.message })
+        }
+      }
+    }
+  }
+
+  public respondToClientRequest(_: Electron.IpcMainInvokeEvent, response: MCPClientRequestResponse) {
+    return this.clientRequests.respond(response)
+  }
+
   /**
    * Set up notification handlers for MCP client
    */
@@ -750,11 +876,13 @@ class McpService {
       message: 'Stopping server',
       source: 'client'
     })
+    this.healthMonitor.unwatch(server.id)
     await this.closeClient(serverKey)
   }
 
   async removeServer(_: Electron.IpcMainInvokeEvent, server: MCPServer) {
     const serverKey = this.getServerKey(server)
+    this.healthMonitor.unwatch(server.id)
     const existingClient = this.clients.get(serverKey)
     if (existingClient) {
       await this.closeClient(serverKey)
@@ -774,6 +902,10 @@ class McpService {
   }
 
   async restartServer(_: Electron.IpcMainInvokeEvent, server: MCPServer) {
+    await this.reconnectServer(server)
+  }
+
+  private async reconnectServer(server: MCPServer) {
     getServerLogger(server).debug(`Restarting server`)
     const serverKey = this.getServerKey(server)
     this.emitServerLog(server, {
@@ -789,6 +921,7 @@ class McpService {
   }
 
   async cleanup() {
+    this.healthMonitor.stop()
     for (const [key] of this.clients) {
       try {
         await this.closeClient(key)
@@ -798,6 +931,46 @@ class McpService {
     }
   }
 
+  /**
+   * Ping a connected server, servers that do not implement ping are asked for their tools instead
+   */
+  private async pingServer(server: MCPServer) {
+    const client = this.clients.get(this.getServerKey(server))
+    if (!client) {
+      throw new Error('Server is not connected')
+    }
+    try {
+      await client.ping({ timeout: HEALTH_CHECK_TIMEOUT })
+    } catch (error) {
+      if (!(error instanceof McpError && error.code === ErrorCode.MethodNotFound)) {
+        throw error
+      }
+      await client.listTools(undefined, { timeout: HEALTH_CHECK_TIMEOUT })
+    }
+  }
+
+  private notifyServerGivenUp(server: MCPServer, health: MCPServerHealth) {
+    this.emitServerLog(server, {
+      timestamp: Date.now(),
+      level: 'error',
+      message: `Automatic restart gave up after ${health.restartAttempts} attempts: ${health.error ?? 'unknown error'}`,
+      source: 'health'
+    })
+    void this.notificationService.sendNotification({
+      id: uuidv4(),
+      type: 'error',
+      title: t('settings.mcp.health.gaveUp.title'),
+      message: `${server.name}: ${t('settings.mcp.health.gaveUp.message')}`,
+      timestamp: Date.now(),
+      channel: 'system',
+      source: 'mcp'
+    })
+  }
+
+  public getServerHealth(): MCPServerHealth[] {
+    return this.healthMonitor.getAll()
+  }
+
   /**
    * Check connectivity for an MCP server
    */
@@ -893,6 +1066,7 @@ class McpService {
     this.activeToolCalls.set(toolCallId, abortController)
 
     const callToolFunc = async ({ server, name, args }: CallToolArgs) => {
+      const startedAt = Date.now()
       try {
         getServerLogger(server, { tool: name, callId: toolCallId }).debug(`Calling tool`, {
           args: redactSensitive(args)
@@ -909,6 +1083,18 @@ class McpService {
             args = {}
           }
         }
+
+        const cacheTtl = server.toolCacheTtls?.[name]
+        const cacheKey = cacheTtl ? this.getToolCallCacheKey(server, name, args) : undefined
+        if (cacheKey && CacheService.has(cacheKey)) {
+          const cached = CacheService.get<MCPCallToolResponse>(cacheKey)
+          if (cached) {
+            getServerLogger(server, { tool: name, callId: toolCallId }).debug(`Tool result loaded from cache`)
+            this.recordToolCall(server, name, args, startedAt, cached, true)
+            return cached
+          }
+        }
+
         const client = await this.initClient(server)
         const result = await client.callTool({ name, arguments: args }, undefined, {
           onprogress: (process) => {
@@ -930,9 +1116,15 @@ class McpService {
           maxTotalTimeout: server.longRunning ? 10 * 60 * 1000 : undefined,
           signal: this.activeToolCalls.get(toolCallId)?.signal
         })
+        // Errors are not cached so a flaky call is retried next time
+        if (cacheKey && cacheTtl && !result.isError) {
+          CacheService.set(cacheKey, result, cacheTtl * 1000)
+        }
+        this.recordToolCall(server, name, args, startedAt, result as MCPCallToolResponse, false)
         return result as MCPCallToolResponse
       } catch (error) {
         getServerLogger(server, { tool: name, callId: toolCallId }).error(`Error calling tool`, error as Error)
+        this.recordToolCall(server, name, args, startedAt, error as Error, false)
         throw error
       } finally {
         this.activeToolCalls.delete(toolCallId)
@@ -942,6 +1134,51 @@ class McpService {
     return await withSpanFunc(`${server.name}.${name}`, `MCP`, callToolFunc, [{ server, name, args }])
   }
 
+  private getToolCallCacheKey(server: MCPServer, name: string, args: unknown): string {
+    const argsHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(args ?? {}, (_, value) => sortKeys(value)))
+      .digest('hex')
+    return `mcp:call_tool:${server.id}:${name}:${argsHash}`
+  }
+
+  private recordToolCall(
+    server: MCPServer,
+    name: string,
+    args: unknown,
+    startedAt: number,
+    outcome: MCPCallToolResponse | Error,
+    cached: boolean
+  ) {
+    const isException = outcome instanceof Error
+    this.toolCallHistory
+      .append({
+        id: uuidv4(),
+        serverId: server.id,
+        toolName: name,
+        args: redactSensitive(args),
+        timestamp: startedAt,
+        durationMs: Date.now() - startedAt,
+        resultSize: isException ? 0 : Buffer.byteLength(JSON.stringify(outcome)),
+        isError: isException || !!outcome.isError,
+        error: isException ? outcome.message : undefined,
+        cached
+      })
+      .catch((error) => getServerLogger(server).warn('Failed to record tool call', { error }))
+  }
+
+  public async getToolCallHistory(
+    _: Electron.IpcMainInvokeEvent,
+    serverId: string,
+    search?: string
+  ): Promise<MCPToolCallRecord[]> {
+    return this.toolCallHistory.list(serverId, search)
+  }
+
+  public async clearToolCallHistory(_: Electron.IpcMainInvokeEvent, serverId: string): Promise<void> {
+    await this.toolCallHistory.clear(serverId)
+  }
+
   public async getInstallInfo() {
     const dir = path.join(os.homedir(), HOME_CHERRY_DIR, 'bin')
     const uvName = await getBinaryName('uv')
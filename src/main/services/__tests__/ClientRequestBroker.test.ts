@@ -0,0 +1,69 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { IpcChannel } from '@shared/IpcChannel'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ClientRequestBroker } from '../mcp/ClientRequestBroker'
+
+describe('ClientRequestBroker', () => {
+  const send = vi.fn<(channel: IpcChannel, payload: unknown) => boolean>(() => true)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    send.mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const sentRequestId = () => (send.mock.calls[0][1] as { requestId: string }).requestId
+
+  it('resolves with the renderer response', async () => {
+    const broker = new ClientRequestBroker(send)
+    const promise = broker.request(IpcChannel.Mcp_ElicitationRequest, { serverId: 's' }, { timeout: 1000 })
+
+    expect(send).toHaveBeenCalledWith(IpcChannel.Mcp_ElicitationRequest, expect.objectContaining({ serverId: 's' }))
+    expect(broker.respond({ requestId: sentRequestId(), result: { action: 'decline' } })).toBe(true)
+    await expect(promise).resolves.toEqual({ action: 'decline' })
+    // Already settled
+    expect(broker.respond({ requestId: sentRequestId(), result: { action: 'decline' } })).toBe(false)
+  })
+
+  it('rejects with the error code sent by the renderer', async () => {
+    const broker = new ClientRequestBroker(send)
+    const promise = broker.request(IpcChannel.Mcp_SamplingRequest, {}, { timeout: 1000 })
+
+    broker.respond({ requestId: sentRequestId(), error: 'User rejected sampling request', code: -1 })
+
+    await expect(promise).rejects.toMatchObject({ code: -1 })
+  })
+
+  it('times out and tells the renderer to close the dialog', async () => {
+    const broker = new ClientRequestBroker(send)
+    const promise = broker.request(IpcChannel.Mcp_SamplingRequest, {}, { timeout: 1000 })
+    const assertion = expect(promise).rejects.toBeInstanceOf(McpError)
+
+    vi.advanceTimersByTime(1000)
+
+    await assertion
+    expect(send).toHaveBeenLastCalledWith(IpcChannel.Mcp_ClientRequestCancelled, { requestId: sentRequestId() })
+  })
+
+  it('rejects when the server cancels the request', async () => {
+    const broker = new ClientRequestBroker(send)
+    const controller = new AbortController()
+    const promise = broker.request(IpcChannel.Mcp_SamplingRequest, {}, { timeout: 1000, signal: controller.signal })
+
+    controller.abort()
+
+    await expect(promise).rejects.toThrow('Request cancelled by server')
+  })
+
+  it('rejects right away when there is no window to ask', async () => {
+    const broker = new ClientRequestBroker(() => false)
+
+    await expect(broker.request(IpcChannel.Mcp_SamplingRequest, {}, { timeout: 1000 })).rejects.toThrow(
+      'Main window not found'
+    )
+  })
+})
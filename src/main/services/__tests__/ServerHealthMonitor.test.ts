@@ -0,0 +1,109 @@
+import type { MCPServer } from '@types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ServerHealthMonitorHandlers } from '../mcp/ServerHealthMonitor'
+import { ServerHealthMonitor } from '../mcp/ServerHealthMonitor'
+
+const server = { id: 'srv-1', name: 'github', isActive: true } as MCPServer
+
+const createHandlers = () =>
+  ({
+    getServers: vi.fn(async () => [server]),
+    check: vi.fn(async () => undefined),
+    restart: vi.fn(async () => undefined),
+    onChange: vi.fn(),
+    onGiveUp: vi.fn()
+  }) satisfies ServerHealthMonitorHandlers
+
+describe('ServerHealthMonitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('only checks watched servers on every interval', async () => {
+    const handlers = createHandlers()
+    const monitor = new ServerHealthMonitor(handlers, { intervalMs: 1000 })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(handlers.check).not.toHaveBeenCalled()
+
+    monitor.watch('srv-1')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(handlers.check).toHaveBeenCalledTimes(1)
+    expect(monitor.getAll()).toEqual([expect.objectContaining({ serverId: 'srv-1', status: 'healthy' })])
+    monitor.stop()
+  })
+
+  it('restarts an unresponsive server with exponential backoff', async () => {
+    const handlers = createHandlers()
+    handlers.check
+      .mockRejectedValueOnce(new Error('ping timeout'))
+      .mockRejectedValueOnce(new Error('still down'))
+      .mockResolvedValue(undefined)
+    handlers.restart.mockRejectedValueOnce(new Error('spawn failed'))
+    const monitor = new ServerHealthMonitor(handlers, { intervalMs: 1000, baseRestartDelayMs: 100 })
+    monitor.watch('srv-1')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(monitor.getAll()[0]).toMatchObject({ status: 'unhealthy', error: 'ping timeout' })
+
+    // First restart throws, the second one waits twice as long
+    await vi.advanceTimersByTimeAsync(100)
+    expect(handlers.restart).toHaveBeenCalledTimes(1)
+    expect(monitor.getAll()[0]).toMatchObject({ status: 'restarting', restartAttempts: 1 })
+
+    await vi.advanceTimersByTimeAsync(199)
+    expect(handlers.restart).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(handlers.restart).toHaveBeenCalledTimes(2)
+    expect(monitor.getAll()[0]).toMatchObject({ status: 'restarting', restartAttempts: 2, error: 'still down' })
+
+    await vi.advanceTimersByTimeAsync(400)
+    expect(monitor.getAll()[0]).toMatchObject({ status: 'healthy', restartAttempts: 0 })
+    expect(handlers.onGiveUp).not.toHaveBeenCalled()
+    monitor.stop()
+  })
+
+  it('gives up after the maximum restart attempts until the server connects again', async () => {
+    const handlers = createHandlers()
+    handlers.check.mockRejectedValue(new Error('ping timeout'))
+    const monitor = new ServerHealthMonitor(handlers, {
+      intervalMs: 1000,
+      baseRestartDelayMs: 100,
+      maxRestartAttempts: 2
+    })
+    monitor.watch('srv-1')
+
+    await vi.advanceTimersByTimeAsync(1000 + 100 + 200)
+
+    expect(handlers.restart).toHaveBeenCalledTimes(2)
+    expect(handlers.onGiveUp).toHaveBeenCalledWith(server, expect.objectContaining({ status: 'failed' }))
+
+    // No more checks or restarts for a failed server
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(handlers.restart).toHaveBeenCalledTimes(2)
+
+    monitor.watch('srv-1')
+    expect(monitor.getAll()[0]).toMatchObject({ status: 'healthy', restartAttempts: 0 })
+    monitor.stop()
+  })
+
+  it('forgets servers that are no longer watched', async () => {
+    const handlers = createHandlers()
+    handlers.check.mockRejectedValue(new Error('ping timeout'))
+    const monitor = new ServerHealthMonitor(handlers, { intervalMs: 1000, baseRestartDelayMs: 100 })
+    monitor.watch('srv-1')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    monitor.unwatch('srv-1')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(handlers.restart).not.toHaveBeenCalled()
+    expect(monitor.getAll()).toEqual([])
+  })
+})
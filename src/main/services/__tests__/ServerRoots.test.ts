@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { ServerRoots } from '../mcp/ServerRoots'
+
+describe('ServerRoots', () => {
+  it("exposes a single caller's directories", () => {
+    const roots = new ServerRoots()
+
+    expect(roots.set('assistant-1', ['srv'], ['/a', '/b'])).toEqual(['srv'])
+    expect(roots.get('srv')).toEqual(['/a', '/b'])
+    expect(roots.get('other')).toEqual([])
+  })
+
+  it('exposes only directories every caller of a shared server granted', () => {
+    const roots = new ServerRoots()
+    roots.set('assistant-1', ['srv'], ['/a', '/b'])
+    roots.set('assistant-2', ['srv'], ['/b', '/c'])
+
+    expect(roots.get('srv')).toEqual(['/b'])
+
+    // Order of calls does not matter
+    roots.set('assistant-1', ['srv'], ['/a', '/b'])
+    expect(roots.get('srv')).toEqual(['/b'])
+  })
+
+  it('drops a caller from servers it no longer uses', () => {
+    const roots = new ServerRoots()
+    roots.set('assistant-1', ['srv'], ['/a'])
+    roots.set('assistant-2', ['srv'], ['/c'])
+    expect(roots.get('srv')).toEqual([])
+
+    expect(roots.set('assistant-2', ['other'], ['/c'])).toEqual(['other', 'srv'])
+    expect(roots.get('srv')).toEqual(['/a'])
+  })
+
+  it('reports no change when the exposed roots stay the same', () => {
+    const roots = new ServerRoots()
+    roots.set('assistant-1', ['srv'], ['/a'])
+
+    expect(roots.set('assistant-1', ['srv'], ['/a'])).toEqual([])
+  })
+})
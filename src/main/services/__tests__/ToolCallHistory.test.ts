@@ -0,0 +1,79 @@
+import fs from 'node:fs'
+
+import type { MCPToolCallRecord } from '@shared/config/types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ToolCallHistory } from '../mcp/ToolCallHistory'
+
+vi.mock('node:fs', () => {
+  const mock = {
+    promises: {
+      readFile: vi.fn(),
+      writeFile: vi.fn(),
+      appendFile: vi.fn(),
+      mkdir: vi.fn(),
+      rm: vi.fn()
+    }
+  }
+  return { ...mock, default: mock }
+})
+
+vi.mock('@main/utils', () => ({
+  getDataPath: () => '/data'
+}))
+
+const record = (overrides: Partial<MCPToolCallRecord>): MCPToolCallRecord => ({
+  id: 'id',
+  serverId: 'server-1',
+  toolName: 'search',
+  timestamp: 0,
+  durationMs: 10,
+  resultSize: 100,
+  isError: false,
+  cached: false,
+  ...overrides
+})
+
+describe('ToolCallHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(fs.promises.readFile).mockRejectedValue(Object.assign(new Error('missing'), { code: 'ENOENT' }))
+  })
+
+  it('lists the most recent calls first and searches tool names, arguments and errors', async () => {
+    const history = new ToolCallHistory()
+    await history.append(record({ id: '1', toolName: 'search', args: { query: 'vitest' } }))
+    await history.append(record({ id: '2', toolName: 'fetch', isError: true, error: 'timeout' }))
+
+    expect((await history.list('server-1')).map((r) => r.id)).toEqual(['2', '1'])
+    expect((await history.list('server-1', 'VITEST')).map((r) => r.id)).toEqual(['1'])
+    expect((await history.list('server-1', 'timeout')).map((r) => r.id)).toEqual(['2'])
+    expect(fs.promises.appendFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('loads persisted calls and compacts the file once it outgrows the limit', async () => {
+    vi.mocked(fs.promises.readFile).mockResolvedValue(
+      [record({ id: '1' }), record({ id: '2' }), record({ id: '3' })].map((r) => JSON.stringify(r)).join('\n')
+    )
+    const history = new ToolCallHistory(2)
+
+    await history.append(record({ id: '4' }))
+
+    expect(fs.promises.writeFile).toHaveBeenCalledTimes(1)
+    const written = String(vi.mocked(fs.promises.writeFile).mock.calls[0][1])
+    expect(
+      written
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).id)
+    ).toEqual(['3', '4'])
+    expect((await history.list('server-1')).map((r) => r.id)).toEqual(['4', '3'])
+  })
+
+  it('ignores server ids that are not safe file names', async () => {
+    const history = new ToolCallHistory()
+    await history.append(record({ serverId: '../escape' }))
+
+    expect(fs.promises.appendFile).not.toHaveBeenCalled()
+  })
+})
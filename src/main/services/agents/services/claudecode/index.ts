@@ -19,6 +19,7 @@ import { validateModelId } from '@main/apiServer/utils'
 import { isWin } from '@main/constant'
 import { pluginService } from '@main/services/agents/plugins/PluginService'
 import { configManager } from '@main/services/ConfigManager'
+import mcpService from '@main/services/MCPService'
 import { autoDiscoverGitBash } from '@main/utils/process'
 import getLoginShellEnvironment from '@main/utils/shell-env'
 import { languageEnglishNameMap } from '@shared/config/languages'
@@ -324,6 +325,8 @@ class ClaudeCodeService implements AgentServiceInterface {
       }
       options.mcpServers = mcpList
       options.strictMcpConfig = true
+      // Expose the session's accessible directories as MCP roots
+      await mcpService.setRoots(null, session.id, session.mcps, session.accessible_paths)
     }
 
     if (lastAgentSessionId && !NO_RESUME_COMMANDS.some((cmd) => prompt.includes(cmd))) {
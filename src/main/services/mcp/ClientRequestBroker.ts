@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto'
+
+import { loggerService } from '@logger'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPClientRequestResponse } from '@shared/config/types'
+import { IpcChannel } from '@shared/IpcChannel'
+
+const logger = loggerService.withContext('MCPClientRequestBroker')
+
+type PendingRequest = {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  dispose: () => void
+}
+
+type SendToRenderer = (channel: IpcChannel, payload: unknown) => boolean
+
+/**
+ * Forwards requests that MCP servers send to the client (sampling, elicitation) to the renderer,
+ * where the user answers them, and resolves each one with the renderer's response.
+ */
+export class ClientRequestBroker {
+  private pending: Map<string, PendingRequest> = new Map()
+
+  constructor(private readonly send: SendToRenderer) {}
+
+  request<T>(
+    channel: IpcChannel,
+    payload: Record<string, unknown>,
+    { timeout, signal }: { timeout: number; signal?: AbortSignal }
+  ): Promise<T> {
+    const requestId = randomUUID()
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () =>
+        this.cancel(requestId, new McpError(ErrorCode.RequestTimeout, 'Request cancelled by server'))
+      const timer = setTimeout(
+        () => this.cancel(requestId, new McpError(ErrorCode.RequestTimeout, 'Timed out waiting for the user')),
+        timeout
+      )
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(requestId, {
+        resolve: (result) => resolve(result as T),
+        reject,
+        dispose: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      })
+
+      if (!this.send(channel, { ...payload, requestId })) {
+        this.settle(requestId)?.reject(new McpError(ErrorCode.InternalError, 'Main window not found'))
+      }
+    })
+  }
+
+  /**
+   * Handle the renderer's answer to a request; returns false for unknown or already settled requests
+   */
+  respond(response: MCPClientRequestResponse): boolean {
+    const pending = this.settle(response.requestId)
+    if (!pending) {
+      logger.warn('Received response for unknown MCP client request', { requestId: response.requestId })
+      return false
+    }
+
+    if ('error' in response) {
+      pending.reject(new McpError(response.code ?? ErrorCode.InternalError, response.error))
+    } else {
+      pending.resolve(response.result)
+    }
+    return true
+  }
+
+  private cancel(requestId: string, error: Error) {
+    const pending = this.settle(requestId)
+    if (pending) {
+      pending.reject(error)
+      // Let the renderer close the dialog of a request nobody is waiting for anymore
+      this.send(IpcChannel.Mcp_ClientRequestCancelled, { requestId })
+    }
+  }
+
+  private settle(requestId: string): PendingRequest | undefined {
+    const pending = this.pending.get(requestId)
+    if (pending) {
+      this.pending.delete(requestId)
+      pending.dispose()
+    }
+    return pending
+  }
+}
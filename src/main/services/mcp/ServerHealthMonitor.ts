@@ -0,0 +1,213 @@
+import { loggerService } from '@logger'
+import type { MCPServerHealth } from '@shared/config/types'
+import type { MCPServer } from '@types'
+
+const logger = loggerService.withContext('MCPServerHealthMonitor')
+
+export interface ServerHealthMonitorOptions {
+  /** Interval between background checks */
+  intervalMs: number
+  /** Delay before the first automatic restart, doubled after every failed attempt */
+  baseRestartDelayMs: number
+  maxRestartDelayMs: number
+  /** Failed restarts before the server is given up on */
+  maxRestartAttempts: number
+}
+
+export interface ServerHealthMonitorHandlers {
+  /** Active servers, the monitor only checks the ones it watches */
+  getServers: () => Promise<MCPServer[]>
+  /** Resolves when the server answers, rejects otherwise */
+  check: (server: MCPServer) => Promise<void>
+  restart: (server: MCPServer) => Promise<void>
+  onChange: (health: MCPServerHealth) => void
+  onGiveUp: (server: MCPServer, health: MCPServerHealth) => void
+}
+
+const DEFAULT_OPTIONS: ServerHealthMonitorOptions = {
+  intervalMs: 60_000,
+  baseRestartDelayMs: 5_000,
+  maxRestartDelayMs: 5 * 60_000,
+  maxRestartAttempts: 5
+}
+
+/**
+ * Background health checks for connected MCP servers.
+ *
+ * Servers are watched once they connect. A failed check schedules a restart with
+ * exponential backoff; after `maxRestartAttempts` failed restarts the server is
+ * given up on until it is started again.
+ */
+export class ServerHealthMonitor {
+  private options: ServerHealthMonitorOptions
+  private watched = new Set<string>()
+  private health = new Map<string, MCPServerHealth>()
+  private restartTimers = new Map<string, NodeJS.Timeout>()
+  private interval: NodeJS.Timeout | null = null
+  private checking = false
+
+  constructor(
+    private handlers: ServerHealthMonitorHandlers,
+    options: Partial<ServerHealthMonitorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /** Start watching a server that just connected, clears a previous give-up */
+  watch(serverId: string) {
+    this.watched.add(serverId)
+    const current = this.health.get(serverId)
+    if (current?.status === 'failed') {
+      this.update({ serverId, status: 'healthy', lastCheckedAt: Date.now(), restartAttempts: 0 })
+    }
+    if (!this.interval) {
+      this.interval = setInterval(() => void this.checkAll(), this.options.intervalMs)
+    }
+  }
+
+  /** Stop watching a server that was stopped or removed */
+  unwatch(serverId: string) {
+    this.watched.delete(serverId)
+    this.health.delete(serverId)
+    this.clearRestartTimer(serverId)
+    if (this.watched.size === 0) {
+      this.stop()
+    }
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = null
+    }
+    for (const serverId of this.restartTimers.keys()) {
+      this.clearRestartTimer(serverId)
+    }
+  }
+
+  getAll(): MCPServerHealth[] {
+    return Array.from(this.health.values())
+  }
+
+  async checkAll() {
+    if (this.checking) {
+      return
+    }
+    this.checking = true
+    try {
+      const servers = (await this.handlers.getServers()).filter((server) => this.watched.has(server.id))
+      await Promise.all(
+        servers
+          .filter((server) => !this.restartTimers.has(server.id))
+          .filter((server) => !['restarting', 'failed'].includes(this.health.get(server.id)?.status ?? ''))
+          .map((server) => this.checkServer(server))
+      )
+    } catch (error) {
+      logger.warn('Failed to run health checks', error as Error)
+    } finally {
+      this.checking = false
+    }
+  }
+
+  private async checkServer(server: MCPServer) {
+    const start = Date.now()
+    try {
+      await this.handlers.check(server)
+      this.update({
+        serverId: server.id,
+        status: 'healthy',
+        lastCheckedAt: Date.now(),
+        latencyMs: Date.now() - start,
+        restartAttempts: 0
+      })
+    } catch (error) {
+      logger.warn(`Health check failed for ${server.name}`, { error: (error as Error)?.message })
+      this.scheduleRestart(server, (error as Error)?.message, 0)
+    }
+  }
+
+  private scheduleRestart(server: MCPServer, error: string | undefined, attempts: number) {
+    if (!this.watched.has(server.id)) {
+      return
+    }
+
+    if (attempts >= this.options.maxRestartAttempts) {
+      const health: MCPServerHealth = {
+        serverId: server.id,
+        status: 'failed',
+        lastCheckedAt: Date.now(),
+        error,
+        restartAttempts: attempts
+      }
+      this.update(health)
+      logger.error(`Giving up on ${server.name} after ${attempts} restart attempts`)
+      this.handlers.onGiveUp(server, health)
+      return
+    }
+
+    const delay = Math.min(this.options.baseRestartDelayMs * 2 ** attempts, this.options.maxRestartDelayMs)
+    this.update({
+      serverId: server.id,
+      status: attempts === 0 ? 'unhealthy' : 'restarting',
+      lastCheckedAt: Date.now(),
+      error,
+      restartAttempts: attempts,
+      nextRestartAt: Date.now() + delay
+    })
+
+    this.clearRestartTimer(server.id)
+    this.restartTimers.set(
+      server.id,
+      setTimeout(() => {
+        this.restartTimers.delete(server.id)
+        void this.restart(server, attempts)
+      }, delay)
+    )
+  }
+
+  private async restart(server: MCPServer, attempts: number) {
+    if (!this.watched.has(server.id)) {
+      return
+    }
+
+    this.update({
+      serverId: server.id,
+      status: 'restarting',
+      lastCheckedAt: Date.now(),
+      restartAttempts: attempts
+    })
+
+    const start = Date.now()
+    try {
+      await this.handlers.restart(server)
+      await this.handlers.check(server)
+      logger.info(`Restarted ${server.name}`, { attempts: attempts + 1 })
+      this.update({
+        serverId: server.id,
+        status: 'healthy',
+        lastCheckedAt: Date.now(),
+        latencyMs: Date.now() - start,
+        restartAttempts: 0
+      })
+    } catch (error) {
+      logger.warn(`Restart attempt ${attempts + 1} failed for ${server.name}`, { error: (error as Error)?.message })
+      this.scheduleRestart(server, (error as Error)?.message, attempts + 1)
+    }
+  }
+
+  private clearRestartTimer(serverId: string) {
+    const timer = this.restartTimers.get(serverId)
+    if (timer) {
+      clearTimeout(timer)
+      this.restartTimers.delete(serverId)
+    }
+  }
+
+  private update(health: MCPServerHealth) {
+    if (!this.watched.has(health.serverId)) {
+      return
+    }
+    this.health.set(health.serverId, health)
+    this.handlers.onChange(health)
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Directories each caller (an assistant or an agent session) grants to the MCP servers it uses.
+ *
+ * A server connection is shared by every caller, so a server is only exposed the directories that
+ * all of its current callers granted. A server used by a single caller sees exactly that caller's roots.
+ */
+export class ServerRoots {
+  // server id -> caller id -> granted directories
+  private roots: Map<string, Map<string, string[]>> = new Map()
+
+  /**
+   * Record the directories a caller grants to the servers it uses. The caller stops counting for
+   * any server it no longer lists.
+   *
+   * @returns ids of the servers whose exposed roots changed
+   */
+  set(callerId: string, serverIds: string[], paths: string[]): string[] {
+    const changed: string[] = []
+    for (const serverId of new Set([...serverIds, ...this.roots.keys()])) {
+      const before = this.get(serverId)
+
+      const callers = this.roots.get(serverId) ?? new Map<string, string[]>()
+      if (serverIds.includes(serverId)) {
+        callers.set(callerId, [...paths])
+      } else {
+        callers.delete(callerId)
+      }
+      if (callers.size > 0) {
+        this.roots.set(serverId, callers)
+      } else {
+        this.roots.delete(serverId)
+      }
+
+      const after = this.get(serverId)
+      if (before.length !== after.length || before.some((dir, index) => dir !== after[index])) {
+        changed.push(serverId)
+      }
+    }
+    return changed
+  }
+
+  get(serverId: string): string[] {
+    const [first, ...rest] = this.roots.get(serverId)?.values() ?? []
+    if (!first) {
+      return []
+    }
+    return first.filter((dir) => rest.every((paths) => paths.includes(dir)))
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { loggerService } from '@logger'
+import { getDataPath } from '@main/utils'
+import type { MCPToolCallRecord } from '@shared/config/types'
+
+const logger = loggerService.withContext('MCPToolCallHistory')
+
+const SERVER_ID_PATTERN = /^[\w-]+$/
+
+const matchesSearch = (record: MCPToolCallRecord, search: string): boolean => {
+  const needle = search.toLowerCase()
+  return [record.toolName, record.error, JSON.stringify(record.args ?? '')].some((value) =>
+    value?.toLowerCase().includes(needle)
+  )
+}
+
+/**
+ * Persisted per-server history of MCP tool calls.
+ *
+ * Each server gets a JSONL file under `Data/MCP/history`; appends are cheap and the
+ * file is compacted back to `maxEntries` once it grows past twice that.
+ */
+export class ToolCallHistory {
+  // Loading is shared so concurrent calls for one server append to the same list
+  private records: Map<string, Promise<MCPToolCallRecord[]>> = new Map()
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(private maxEntries = 500) {}
+
+  private get historyDir(): string {
+    return path.join(getDataPath(), 'MCP', 'history')
+  }
+
+  private filePath(serverId: string): string | null {
+    return SERVER_ID_PATTERN.test(serverId) ? path.join(this.historyDir, `${serverId}.jsonl`) : null
+  }
+
+  async append(record: MCPToolCallRecord): Promise<void> {
+    const file = this.filePath(record.serverId)
+    if (!file) {
+      return
+    }
+
+    const records = await this.load(record.serverId)
+    records.push(record)
+    const compact = records.length >= this.maxEntries * 2
+    if (compact) {
+      records.splice(0, records.length - this.maxEntries)
+    }
+
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(this.historyDir, { recursive: true })
+        if (compact) {
+          await fs.promises.writeFile(file, records.map((r) => JSON.stringify(r)).join('\n') + '\n', 'utf-8')
+        } else {
+          await fs.promises.appendFile(file, JSON.stringify(record) + '\n', 'utf-8')
+        }
+      })
+      .catch((error) => logger.warn('Failed to write tool call history', { serverId: record.serverId, error }))
+    await this.writing
+  }
+
+  /** Most recent calls first, optionally filtered by tool name, arguments or error */
+  async list(serverId: string, search?: string): Promise<MCPToolCallRecord[]> {
+    const records = (await this.load(serverId)).slice(-this.maxEntries).reverse()
+    return search?.trim() ? records.filter((record) => matchesSearch(record, search.trim())) : records
+  }
+
+  async clear(serverId: string): Promise<void> {
+    const file = this.filePath(serverId)
+    this.records.delete(serverId)
+    await this.writing
+    if (file) {
+      await fs.promises.rm(file, { force: true })
+    }
+  }
+
+  private load(serverId: string): Promise<MCPToolCallRecord[]> {
+    let loading = this.records.get(serverId)
+    if (!loading) {
+      loading = this.read(serverId)
+      this.records.set(serverId, loading)
+    }
+    return loading
+  }
+
+  private async read(serverId: string): Promise<MCPToolCallRecord[]> {
+    const records: MCPToolCallRecord[] = []
+    const file = this.filePath(serverId)
+    try {
+      const content = file ? await fs.promises.readFile(file, 'utf-8') : ''
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue
+        }
+        try {
+          records.push(JSON.parse(line))
+        } catch {
+          logger.warn('Skipping malformed tool call history line', { serverId })
+        }
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        logger.warn('Failed to read tool call history', { serverId, error })
+      }
+    }
+
+    return records
+  }
+}
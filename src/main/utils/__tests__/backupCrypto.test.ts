@@ -0,0 +1,62 @@
+import { BACKUP_PASSPHRASE_INVALID } from '@shared/config/constant'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { decryptBackupFile, encryptBackupFile, isEncryptedBackup } from '../backupCrypto'
+
+// 加解密需要读写真实的临时文件
+vi.mock('node:fs', async () => vi.importActual('node:fs'))
+vi.mock('node:os', async () => vi.importActual('node:os'))
+vi.mock('node:path', async () => vi.importActual('node:path'))
+
+describe('backupCrypto', () => {
+  let dir: string
+  let plainPath: string
+  let encryptedPath: string
+  let decryptedPath: string
+  const content = Buffer.from('PK\u0003\u0004 backup archive 备份内容 '.repeat(1000))
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'backup-crypto-'))
+    plainPath = path.join(dir, 'backup.zip')
+    encryptedPath = path.join(dir, 'backup.enc.zip')
+    decryptedPath = path.join(dir, 'backup.dec.zip')
+    await fs.promises.writeFile(plainPath, content)
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should round-trip a file with the right passphrase', async () => {
+    await encryptBackupFile(plainPath, encryptedPath, 'correct horse')
+
+    expect(await isEncryptedBackup(encryptedPath)).toBe(true)
+    expect(await isEncryptedBackup(plainPath)).toBe(false)
+
+    await decryptBackupFile(encryptedPath, decryptedPath, 'correct horse')
+    expect((await fs.promises.readFile(decryptedPath)).equals(content)).toBe(true)
+  })
+
+  it('should reject a wrong passphrase without leaving output behind', async () => {
+    await encryptBackupFile(plainPath, encryptedPath, 'correct horse')
+
+    await expect(decryptBackupFile(encryptedPath, decryptedPath, 'battery staple')).rejects.toThrow(
+      BACKUP_PASSPHRASE_INVALID
+    )
+    expect(fs.existsSync(decryptedPath)).toBe(false)
+  })
+
+  it('should detect tampered archives', async () => {
+    await encryptBackupFile(plainPath, encryptedPath, 'correct horse')
+    const encrypted = await fs.promises.readFile(encryptedPath)
+    encrypted[100] ^= 0xff
+    await fs.promises.writeFile(encryptedPath, encrypted)
+
+    await expect(decryptBackupFile(encryptedPath, decryptedPath, 'correct horse')).rejects.toThrow(
+      BACKUP_PASSPHRASE_INVALID
+    )
+  })
+})
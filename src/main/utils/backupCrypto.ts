@@ -0,0 +1,102 @@
+import { BACKUP_PASSPHRASE_INVALID } from '@shared/config/constant'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import { pipeline } from 'stream/promises'
+import { promisify } from 'util'
+
+/**
+ * 加密备份文件格式：
+ * MAGIC(8) | VERSION(1) | SALT(16) | IV(12) | AES-256-GCM 密文 | AUTH TAG(16)
+ *
+ * 密钥由用户口令经 scrypt 派生，认证标签放在文件末尾以便流式加密大文件。
+ */
+const MAGIC = Buffer.from('CSENCBAK')
+const VERSION = 1
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const HEADER_LENGTH = MAGIC.length + 1 + SALT_LENGTH + IV_LENGTH
+
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+
+const scrypt = promisify<crypto.BinaryLike, crypto.BinaryLike, number, crypto.ScryptOptions, Buffer>(crypto.scrypt)
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return scrypt(passphrase.normalize('NFKC'), salt, 32, SCRYPT_OPTIONS)
+}
+
+async function readBytes(filePath: string, position: number, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, position)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * 通过文件头判断是否为加密备份
+ */
+export async function isEncryptedBackup(filePath: string): Promise<boolean> {
+  const magic = await readBytes(filePath, 0, MAGIC.length)
+  return magic.equals(MAGIC)
+}
+
+/**
+ * 使用口令加密备份文件，写入 outputPath
+ */
+export async function encryptBackupFile(inputPath: string, outputPath: string, passphrase: string): Promise<void> {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const key = await deriveKey(passphrase, salt)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+
+  const output = fs.createWriteStream(outputPath)
+  output.write(Buffer.concat([MAGIC, Buffer.from([VERSION]), salt, iv]))
+  await pipeline(fs.createReadStream(inputPath), cipher, output)
+  await fs.promises.appendFile(outputPath, cipher.getAuthTag())
+}
+
+/**
+ * 解密备份文件到 outputPath，口令错误或文件被篡改时抛出 BACKUP_PASSPHRASE_INVALID
+ */
+export async function decryptBackupFile(inputPath: string, outputPath: string, passphrase: string): Promise<void> {
+  const { size } = await fs.promises.stat(inputPath)
+  if (size < HEADER_LENGTH + TAG_LENGTH) {
+    throw new Error('Encrypted backup file is truncated')
+  }
+
+  const header = await readBytes(inputPath, 0, HEADER_LENGTH)
+  if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('Not an encrypted backup file')
+  }
+  const version = header[MAGIC.length]
+  if (version !== VERSION) {
+    throw new Error(`Unsupported encrypted backup version: ${version}`)
+  }
+
+  const salt = header.subarray(MAGIC.length + 1, MAGIC.length + 1 + SALT_LENGTH)
+  const iv = header.subarray(MAGIC.length + 1 + SALT_LENGTH, HEADER_LENGTH)
+  const tag = await readBytes(inputPath, size - TAG_LENGTH, TAG_LENGTH)
+  const key = await deriveKey(passphrase, salt)
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(tag)
+
+  try {
+    // 认证在 final 时完成，失败时输出文件不可用
+    await pipeline(
+      fs.createReadStream(inputPath, { start: HEADER_LENGTH, end: size - TAG_LENGTH - 1 }),
+      decipher,
+      fs.createWriteStream(outputPath)
+    )
+  } catch (error) {
+    await fs.promises.rm(outputPath, { force: true })
+    if (error instanceof Error && /unable to authenticate/i.test(error.message)) {
+      throw new Error(BACKUP_PASSPHRASE_INVALID)
+    }
+    throw error
+  }
+}
@@ -6,7 +6,10 @@ import type { SpanContext } from '@opentelemetry/api'
 import type { GitBashPathInfo, TerminalConfig, UpgradeChannel } from '@shared/config/constant'
 import type { LogLevel, LogSourceWithContext } from '@shared/config/logger'
 import type {
+  ApiServerKnowledgeResponse,
   FileChangeEvent,
+  KnowledgeBundleManifest,
+  KnowledgeDirectorySyncReturn,
   LanClientEvent,
   LanFileCompleteMessage,
   LanHandshakeAckMessage,
@@ -15,19 +18,30 @@ import type {
   NodeCheckResult,
   WebviewKeyEvent
 } from '@shared/config/types'
-import type { MCPServerLogEntry } from '@shared/config/types'
+import type {
+  MCPClientRequestResponse,
+  MCPServerHealth,
+  MCPServerLogEntry,
+  MCPToolCallRecord
+} from '@shared/config/types'
 import type { ExternalAppInfo } from '@shared/externalApp/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import type { Notification } from '@types'
 import type {
   AddMemoryOptions,
+  ApiRequestLogPage,
+  ApiRequestLogQuery,
+  ApiUsageQuery,
+  ApiUsageResponse,
   AssistantMessage,
   FileListResponse,
   FileMetadata,
   FileUploadResponse,
   GetApiServerStatusResult,
+  KnowledgeBase,
   KnowledgeBaseParams,
   KnowledgeItem,
+  KnowledgeSearchFilter,
   KnowledgeSearchResult,
   MCPServer,
   MemoryConfig,
@@ -174,9 +188,9 @@ const api = {
     decompress: (text: Buffer) => ipcRenderer.invoke(IpcChannel.Zip_Decompress, text)
   },
   backup: {
-    backup: (filename: string, content: string, path: string, skipBackupFile: boolean) =>
-      ipcRenderer.invoke(IpcChannel.Backup_Backup, filename, content, path, skipBackupFile),
-    restore: (path: string) => ipcRenderer.invoke(IpcChannel.Backup_Restore, path),
+    backup: (filename: string, content: string, path: string, skipBackupFile: boolean, passphrase?: string) =>
+      ipcRenderer.invoke(IpcChannel.Backup_Backup, filename, content, path, skipBackupFile, passphrase),
+    restore: (path: string, passphrase?: string) => ipcRenderer.invoke(IpcChannel.Backup_Restore, path, passphrase),
     backupToWebdav: (data: string, webdavConfig: WebDavConfig) =>
       ipcRenderer.invoke(IpcChannel.Backup_BackupToWebdav, data, webdavConfig),
     restoreFromWebdav: (webdavConfig: WebDavConfig) =>
@@ -192,10 +206,10 @@ const api = {
     backupToLocalDir: (
       data: string,
       fileName: string,
-      localConfig: { localBackupDir?: string; skipBackupFile?: boolean }
+      localConfig: { localBackupDir?: string; skipBackupFile?: boolean; passphrase?: string }
     ) => ipcRenderer.invoke(IpcChannel.Backup_BackupToLocalDir, data, fileName, localConfig),
-    restoreFromLocalBackup: (fileName: string, localBackupDir?: string) =>
-      ipcRenderer.invoke(IpcChannel.Backup_RestoreFromLocalBackup, fileName, localBackupDir),
+    restoreFromLocalBackup: (fileName: string, localBackupDir?: string, passphrase?: string) =>
+      ipcRenderer.invoke(IpcChannel.Backup_RestoreFromLocalBackup, fileName, localBackupDir, passphrase),
     listLocalBackupFiles: (localBackupDir?: string) =>
       ipcRenderer.invoke(IpcChannel.Backup_ListLocalBackupFiles, localBackupDir),
     deleteLocalBackupFile: (fileName: string, localBackupDir?: string) =>
@@ -212,7 +226,10 @@ const api = {
     createLanTransferBackup: (data: string): Promise<string> =>
       ipcRenderer.invoke(IpcChannel.Backup_CreateLanTransferBackup, data),
     deleteTempBackup: (filePath: string): Promise<boolean> =>
-      ipcRenderer.invoke(IpcChannel.Backup_DeleteTempBackup, filePath)
+      ipcRenderer.invoke(IpcChannel.Backup_DeleteTempBackup, filePath),
+    getStoredPassphrase: (): Promise<string | null> => ipcRenderer.invoke(IpcChannel.Backup_GetStoredPassphrase),
+    setStoredPassphrase: (passphrase: string | null): Promise<void> =>
+      ipcRenderer.invoke(IpcChannel.Backup_SetStoredPassphrase, passphrase)
   },
   file: {
     select: (options?: OpenDialogOptions): Promise<FileMetadata[] | null> =>
@@ -318,14 +335,56 @@ const api = {
       userId?: string
       forceReload?: boolean
     }) => ipcRenderer.invoke(IpcChannel.KnowledgeBase_Add, { base, item, forceReload, userId }),
-    remove: ({ uniqueId, uniqueIds, base }: { uniqueId: string; uniqueIds: string[]; base: KnowledgeBaseParams }) =>
-      ipcRenderer.invoke(IpcChannel.KnowledgeBase_Remove, { uniqueId, uniqueIds, base }),
-    search: ({ search, base }: { search: string; base: KnowledgeBaseParams }, context?: SpanContext) =>
-      tracedInvoke(IpcChannel.KnowledgeBase_Search, context, { search, base }),
+    remove: ({
+      uniqueId,
+      uniqueIds,
+      base,
+      itemId
+    }: {
+      uniqueId: string
+      uniqueIds: string[]
+      base: KnowledgeBaseParams
+      itemId?: string
+    }) => ipcRenderer.invoke(IpcChannel.KnowledgeBase_Remove, { uniqueId, uniqueIds, base, itemId }),
+    search: (
+      {
+        search,
+        base,
+        filter,
+        threshold
+      }: { search: string; base: KnowledgeBaseParams; filter?: KnowledgeSearchFilter; threshold?: number },
+      context?: SpanContext
+    ) => tracedInvoke(IpcChannel.KnowledgeBase_Search, context, { search, base, filter, threshold }),
     rerank: (
       { search, base, results }: { search: string; base: KnowledgeBaseParams; results: KnowledgeSearchResult[] },
       context?: SpanContext
-    ) => tracedInvoke(IpcChannel.KnowledgeBase_Rerank, context, { search, base, results })
+    ) => tracedInvoke(IpcChannel.KnowledgeBase_Rerank, context, { search, base, results }),
+    updateItemMetadata: ({ base, items }: { base: KnowledgeBaseParams; items: KnowledgeItem[] }) =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_UpdateItemMetadata, { base, items }),
+    exportBundle: ({
+      base,
+      params,
+      directory
+    }: {
+      base: KnowledgeBase
+      params: KnowledgeBaseParams
+      directory: string
+    }): Promise<string> => ipcRenderer.invoke(IpcChannel.KnowledgeBase_ExportBundle, { base, params, directory }),
+    readBundle: (filePath: string): Promise<KnowledgeBundleManifest> =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_ReadBundle, filePath),
+    importBundle: ({ filePath, baseId }: { filePath: string; baseId: string }): Promise<KnowledgeBundleManifest> =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_ImportBundle, { filePath, baseId }),
+    syncDirectory: ({
+      base,
+      item
+    }: {
+      base: KnowledgeBaseParams
+      item: KnowledgeItem
+    }): Promise<KnowledgeDirectorySyncReturn> =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_SyncDirectory, { base, item }),
+    watchDirectory: ({ baseId, itemId, directory }: { baseId: string; itemId: string; directory: string }) =>
+      ipcRenderer.invoke(IpcChannel.KnowledgeBase_WatchDirectory, { baseId, itemId, directory }),
+    unwatchDirectory: (itemId: string) => ipcRenderer.invoke(IpcChannel.KnowledgeBase_UnwatchDirectory, itemId)
   },
   memory: {
     add: (messages: string | AssistantMessage[], options?: AddMemoryOptions) =>
@@ -425,12 +484,28 @@ const api = {
       ipcRenderer.invoke(IpcChannel.Mcp_GetServerVersion, server),
     getServerLogs: (server: MCPServer): Promise<MCPServerLogEntry[]> =>
       ipcRenderer.invoke(IpcChannel.Mcp_GetServerLogs, server),
+    getToolCallHistory: (serverId: string, search?: string): Promise<MCPToolCallRecord[]> =>
+      ipcRenderer.invoke(IpcChannel.Mcp_GetToolCallHistory, serverId, search),
+    clearToolCallHistory: (serverId: string): Promise<void> =>
+      ipcRenderer.invoke(IpcChannel.Mcp_ClearToolCallHistory, serverId),
+    getServerHealth: (): Promise<MCPServerHealth[]> => ipcRenderer.invoke(IpcChannel.Mcp_GetServerHealth),
+    setRoots: (callerId: string, serverIds: string[], paths: string[]): Promise<void> =>
+      ipcRenderer.invoke(IpcChannel.Mcp_SetRoots, callerId, serverIds, paths),
+    respondToClientRequest: (response: MCPClientRequestResponse): Promise<boolean> =>
+      ipcRenderer.invoke(IpcChannel.Mcp_ClientRequestResponse, response),
     onServerLog: (callback: (log: MCPServerLogEntry & { serverId?: string }) => void) => {
       const listener = (_event: Electron.IpcRendererEvent, log: MCPServerLogEntry & { serverId?: string }) => {
         callback(log)
       }
       ipcRenderer.on(IpcChannel.Mcp_ServerLog, listener)
       return () => ipcRenderer.off(IpcChannel.Mcp_ServerLog, listener)
+    },
+    onServerHealthChanged: (callback: (health: MCPServerHealth) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, health: MCPServerHealth) => {
+        callback(health)
+      }
+      ipcRenderer.on(IpcChannel.Mcp_ServerHealthChanged, listener)
+      return () => ipcRenderer.off(IpcChannel.Mcp_ServerHealthChanged, listener)
     }
   },
   python: {
@@ -631,7 +706,14 @@ const api = {
       return () => {
         ipcRenderer.removeListener(IpcChannel.ApiServer_Ready, listener)
       }
-    }
+    },
+    respondToKnowledgeRequest: (response: ApiServerKnowledgeResponse): Promise<boolean> =>
+      ipcRenderer.invoke(IpcChannel.ApiServer_KnowledgeResponse, response),
+    getRequestLog: (query: ApiRequestLogQuery): Promise<ApiRequestLogPage> =>
+      ipcRenderer.invoke(IpcChannel.ApiServer_GetRequestLog, query),
+    getUsage: (query: ApiUsageQuery): Promise<ApiUsageResponse> =>
+      ipcRenderer.invoke(IpcChannel.ApiServer_GetUsage, query),
+    clearRequestLog: (): Promise<void> => ipcRenderer.invoke(IpcChannel.ApiServer_ClearRequestLog)
   },
   claudeCodePlugin: {
     install: (options: InstallPluginOptions): Promise<PluginResult<PluginMetadata>> =>
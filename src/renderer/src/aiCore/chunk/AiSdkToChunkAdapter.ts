@@ -346,7 +346,14 @@ export class AiSdkToChunkAdapter {
         const usage = {
           completion_tokens: chunk.totalUsage?.outputTokens || 0,
           prompt_tokens: chunk.totalUsage?.inputTokens || 0,
-          total_tokens: chunk.totalUsage?.totalTokens || 0
+          total_tokens: chunk.totalUsage?.totalTokens || 0,
+          // 缓存命中和推理 token 单独计价，用于计算费用
+          ...(chunk.totalUsage?.cachedInputTokens && {
+            prompt_tokens_details: { cached_tokens: chunk.totalUsage.cachedInputTokens }
+          }),
+          ...(chunk.totalUsage?.reasoningTokens && {
+            completion_tokens_details: { reasoning_tokens: chunk.totalUsage.reasoningTokens }
+          })
         }
         const metrics = this.buildMetrics(chunk.totalUsage)
         const baseResponse = {
@@ -357,7 +357,9 @@ export default class ModernAiProvider {
 
       return {
         getText: () => finalText,
-        usage
+        usage,
+        finishReason: await streamResult.finishReason,
+        providerMetadata: await streamResult.providerMetadata
       }
     }
   }
@@ -2,7 +2,7 @@ import type { Assistant, MCPTool } from '@renderer/types'
 import type { Chunk } from '@renderer/types/chunk'
 import type { Message } from '@renderer/types/newMessage'
 import type { SdkRawChunk, SdkRawOutput } from '@renderer/types/sdk'
-import type { LanguageModelUsage } from 'ai'
+import type { FinishReason, LanguageModelUsage, ProviderMetadata } from 'ai'
 
 import type { ProcessingState } from './types'
 
@@ -71,6 +71,8 @@ export interface CompletionsResult {
   stream?: ReadableStream<SdkRawChunk> | ReadableStream<Chunk> | AsyncIterable<Chunk>
   controller?: AbortController
   usage?: LanguageModelUsage
+  finishReason?: FinishReason
+  providerMetadata?: ProviderMetadata
 
   getText: () => string
 }
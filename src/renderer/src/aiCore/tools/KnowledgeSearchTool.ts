@@ -1,11 +1,35 @@
 import { REFERENCE_PROMPT } from '@renderer/config/prompts'
-import { processKnowledgeSearch } from '@renderer/services/KnowledgeService'
-import type { Assistant, KnowledgeReference } from '@renderer/types'
+import { findKnowledgeItemIdsByName, processKnowledgeSearch } from '@renderer/services/KnowledgeService'
+import store from '@renderer/store'
+import type { Assistant, KnowledgeReference, KnowledgeSearchFilter } from '@renderer/types'
 import type { ExtractResults, KnowledgeExtractResults } from '@renderer/utils/extract'
 import { type InferToolInput, type InferToolOutput, tool } from 'ai'
+import dayjs from 'dayjs'
 import { isEmpty } from 'lodash'
 import * as z from 'zod'
 
+const scopeSchema = z.object({
+  fileNames: z
+    .array(z.string())
+    .optional()
+    .describe('Only search items whose file name, folder path or URL contains one of these strings'),
+  itemTypes: z
+    .array(z.enum(['file', 'directory', 'url', 'sitemap', 'note', 'video']))
+    .optional()
+    .describe('Only search items of these types'),
+  extensions: z.array(z.string()).optional().describe('Only search files with these extensions, e.g. ".pdf"'),
+  tags: z.array(z.string()).optional().describe('Only search items tagged with any of these tags'),
+  addedAfter: z.string().optional().describe('ISO 8601 date, only search items added on or after it'),
+  addedBefore: z.string().optional().describe('ISO 8601 date, only search items added on or before it')
+})
+
+const parseDate = (value: string | undefined, edge: 'start' | 'end') => {
+  if (!value) return undefined
+  const date = dayjs(value)
+  if (!date.isValid()) return undefined
+  return (edge === 'start' ? date.startOf('day') : date.endOf('day')).valueOf()
+}
+
 /**
  * 知识库搜索工具
  * 使用预提取关键词，直接使用插件阶段分析的搜索意图，避免重复分析
@@ -24,16 +48,18 @@ This tool has been configured with search parameters based on the conversation c
 - Prepared queries: ${extractedKeywords.question.map((q) => `"${q}"`).join(', ')}
 - Query rewrite: "${extractedKeywords.rewrite}"
 
-You can use this tool as-is, or provide additionalContext to refine the search focus within the knowledge base.`,
+You can use this tool as-is, or provide additionalContext to refine the search focus within the knowledge base.
+Use scope only when the user asks to restrict the search, e.g. to specific files or to URLs added this month.`,
 
     inputSchema: z.object({
       additionalContext: z
         .string()
         .optional()
-        .describe('Optional additional context or specific focus to enhance the knowledge search')
+        .describe('Optional additional context or specific focus to enhance the knowledge search'),
+      scope: scopeSchema.optional().describe('Optional restriction of the searched knowledge items')
     }),
 
-    execute: async ({ additionalContext }) => {
+    execute: async ({ additionalContext, scope }) => {
       // try {
       // 获取助手的知识库配置
       const knowledgeBaseIds = assistant.knowledge_bases?.map((base) => base.id)
@@ -86,8 +112,27 @@ You can use this tool as-is, or provide additionalContext to refine the search f
         knowledge: searchCriteria
       }
 
+      // 构建检索范围
+      let filter: KnowledgeSearchFilter | undefined
+      if (scope) {
+        const { fileNames, addedAfter, addedBefore, ...rest } = scope
+        filter = {
+          ...rest,
+          addedAfter: parseDate(addedAfter, 'start'),
+          addedBefore: parseDate(addedBefore, 'end')
+        }
+        if (fileNames?.length) {
+          const bases = store.getState().knowledge.bases.filter((base) => knowledgeBaseIds?.includes(base.id))
+          filter.itemIds = findKnowledgeItemIdsByName(bases, fileNames)
+          // 没有匹配的项目时不能退化为全库检索
+          if (filter.itemIds.length === 0) {
+            return []
+          }
+        }
+      }
+
       // 执行知识库搜索
-      const knowledgeReferences = await processKnowledgeSearch(extractResults, knowledgeBaseIds, topicId)
+      const knowledgeReferences = await processKnowledgeSearch(extractResults, knowledgeBaseIds, topicId, { filter })
       const knowledgeReferencesData = knowledgeReferences.map((ref: KnowledgeReference) => ({
         id: ref.id,
         content: ref.content,
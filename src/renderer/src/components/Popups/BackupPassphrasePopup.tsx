@@ -0,0 +1,102 @@
+import { Input, Modal } from 'antd'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Box } from '../Layout'
+import { TopView } from '../TopView'
+
+interface ShowParams {
+  // set: 设置新口令，需要再次输入确认；enter: 输入口令以加密或恢复备份
+  mode: 'set' | 'enter'
+  // 上一次输入的口令无法解密备份
+  invalid?: boolean
+}
+
+interface Props extends ShowParams {
+  resolve: (value: string | null) => void
+}
+
+const PopupContainer: React.FC<Props> = ({ mode, invalid = false, resolve }) => {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(true)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [result, setResult] = useState<string | null>(null)
+
+  const mismatch = mode === 'set' && confirm.length > 0 && confirm !== passphrase
+  const canSubmit = passphrase.length > 0 && (mode === 'enter' || confirm === passphrase)
+
+  const onOk = () => {
+    if (!canSubmit) {
+      return
+    }
+    setResult(passphrase)
+    setOpen(false)
+  }
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onAfterClose = () => {
+    resolve(result)
+    TopView.hide(TopViewKey)
+  }
+
+  BackupPassphrasePopup.hide = onCancel
+
+  return (
+    <Modal
+      title={t(
+        mode === 'set' ? 'settings.data.backup.encryption.set_title' : 'settings.data.backup.encryption.enter_title'
+      )}
+      open={open}
+      onOk={onOk}
+      onCancel={onCancel}
+      afterClose={onAfterClose}
+      okButtonProps={{ disabled: !canSubmit }}
+      transitionName="animation-move-down"
+      destroyOnHidden
+      centered>
+      <Box mb={8}>
+        {t(mode === 'set' ? 'settings.data.backup.encryption.set_help' : 'settings.data.backup.encryption.enter_help')}
+      </Box>
+      <Input.Password
+        autoFocus
+        value={passphrase}
+        status={invalid && !passphrase ? 'error' : undefined}
+        placeholder={t('settings.data.backup.encryption.passphrase')}
+        onChange={(e) => setPassphrase(e.target.value)}
+        onPressEnter={onOk}
+      />
+      {mode === 'set' && (
+        <Input.Password
+          style={{ marginTop: 8 }}
+          value={confirm}
+          status={mismatch ? 'error' : undefined}
+          placeholder={t('settings.data.backup.encryption.confirm')}
+          onChange={(e) => setConfirm(e.target.value)}
+          onPressEnter={onOk}
+        />
+      )}
+      {(invalid || mismatch) && (
+        <Box mt={8} style={{ color: 'var(--color-error)', fontSize: 12 }}>
+          {t(invalid ? 'settings.data.backup.encryption.invalid' : 'settings.data.backup.encryption.mismatch')}
+        </Box>
+      )}
+    </Modal>
+  )
+}
+
+const TopViewKey = 'BackupPassphrasePopup'
+
+export default class BackupPassphrasePopup {
+  static hide() {
+    TopView.hide(TopViewKey)
+  }
+  static show(props: ShowParams) {
+    return new Promise<string | null>((resolve) => {
+      TopView.show(<PopupContainer {...props} resolve={resolve} />, TopViewKey)
+    })
+  }
+}
@@ -1,7 +1,10 @@
-import { importChatGPTConversations } from '@renderer/services/import'
-import { Alert, Modal, Progress, Space, Spin } from 'antd'
+import type { ImportPreview } from '@renderer/services/import'
+import { ImportService } from '@renderer/services/import'
+import { Alert, Checkbox, Modal, Progress, Space, Spin } from 'antd'
+import dayjs from 'dayjs'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
 
 import { TopView } from '../TopView'
 
@@ -13,54 +16,82 @@ interface Props {
   resolve: (data: PopupResult) => void
 }
 
+// 导入器名称对应的显示名称
+const IMPORTER_LABELS: Record<string, string> = {
+  ChatGPT: 'ChatGPT',
+  Claude: 'Claude',
+  Gemini: 'Gemini',
+  OpenWebUI: 'Open WebUI',
+  LobeChat: 'LobeChat'
+}
+
 const PopupContainer: React.FC<Props> = ({ resolve }) => {
   const [open, setOpen] = useState(true)
   const [selecting, setSelecting] = useState(false)
   const [importing, setImporting] = useState(false)
+  const [preview, setPreview] = useState<ImportPreview>()
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
   const { t } = useTranslation()
 
-  const onOk = async () => {
+  const selectFile = async () => {
     setSelecting(true)
     try {
-      // Select ChatGPT JSON file
       const file = await window.api.file.open({
-        filters: [{ name: 'ChatGPT Conversations', extensions: ['json'] }]
+        filters: [{ name: 'JSON', extensions: ['json'] }]
       })
 
-      setSelecting(false)
-
       if (!file) {
         return
       }
 
-      setImporting(true)
-
       // Parse file content
       const fileContent = typeof file.content === 'string' ? file.content : new TextDecoder().decode(file.content)
 
-      // Import conversations
-      const result = await importChatGPTConversations(fileContent)
+      const result = await ImportService.previewImport(fileContent)
+
+      if (result.preview) {
+        setPreview(result.preview)
+        setSelectedIds(result.preview.conversations.map((conversation) => conversation.topicId))
+      } else {
+        window.toast.error(result.error || t('import.error.unknown'))
+      }
+    } catch (error) {
+      window.toast.error(t('import.error.unknown'))
+    } finally {
+      setSelecting(false)
+    }
+  }
+
+  const importSelected = async () => {
+    if (!preview) {
+      return
+    }
+
+    setImporting(true)
+    try {
+      const result = await ImportService.importPreview(preview, selectedIds)
 
       if (result.success) {
         window.toast.success(
-          t('import.chatgpt.success', {
+          t('import.success', {
             topics: result.topicsCount,
             messages: result.messagesCount
           })
         )
         setOpen(false)
       } else {
-        window.toast.error(result.error || t('import.chatgpt.error.unknown'))
+        window.toast.error(result.error || t('import.error.unknown'))
       }
     } catch (error) {
-      window.toast.error(t('import.chatgpt.error.unknown'))
+      window.toast.error(t('import.error.unknown'))
       setOpen(false)
     } finally {
-      setSelecting(false)
       setImporting(false)
     }
   }
 
+  const onOk = () => (preview ? importSelected() : selectFile())
+
   const onCancel = () => {
     setOpen(false)
   }
@@ -71,29 +102,42 @@ const PopupContainer: React.FC<Props> = ({ resolve }) => {
 
   ImportPopup.hide = onCancel
 
+  const conversations = preview?.conversations ?? []
+  const selectedIdSet = new Set(selectedIds)
+  const allSelected = conversations.length > 0 && selectedIds.length === conversations.length
+
+  const toggleConversation = (topicId: string, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, topicId] : ids.filter((id) => id !== topicId)))
+  }
+
   return (
     <Modal
-      title={t('import.chatgpt.title')}
+      title={t('import.title')}
       open={open}
       onOk={onOk}
       onCancel={onCancel}
       afterClose={onClose}
-      okText={t('import.chatgpt.button')}
-      okButtonProps={{ disabled: selecting || importing, loading: selecting }}
+      okText={preview ? t('import.preview.import', { count: selectedIds.length }) : t('import.button')}
+      okButtonProps={{
+        disabled: selecting || importing || (!!preview && selectedIds.length === 0),
+        loading: selecting || importing
+      }}
       cancelButtonProps={{ disabled: selecting || importing }}
       maskClosable={false}
       transitionName="animation-move-down"
       centered>
-      {!selecting && !importing && (
+      {!selecting && !importing && !preview && (
         <Space direction="vertical" style={{ width: '100%' }}>
-          <div>{t('import.chatgpt.description')}</div>
+          <div>{t('import.description')}</div>
           <Alert
-            message={t('import.chatgpt.help.title')}
+            message={t('import.help.title')}
             description={
               <div>
-                <p>{t('import.chatgpt.help.step1')}</p>
-                <p>{t('import.chatgpt.help.step2')}</p>
-                <p>{t('import.chatgpt.help.step3')}</p>
+                <p>{t('import.help.chatgpt')}</p>
+                <p>{t('import.help.claude')}</p>
+                <p>{t('import.help.gemini')}</p>
+                <p>{t('import.help.openwebui')}</p>
+                <p>{t('import.help.lobechat')}</p>
               </div>
             }
             type="info"
@@ -105,19 +149,86 @@ const PopupContainer: React.FC<Props> = ({ resolve }) => {
       {selecting && (
         <div style={{ textAlign: 'center', padding: '40px 0' }}>
           <Spin size="large" />
-          <div style={{ marginTop: 16 }}>{t('import.chatgpt.selecting')}</div>
+          <div style={{ marginTop: 16 }}>{t('import.parsing')}</div>
         </div>
       )}
+      {!importing && preview && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <div>
+            {t('import.preview.detected', {
+              name: IMPORTER_LABELS[preview.importerName] ?? preview.importerName,
+              count: conversations.length
+            })}
+          </div>
+          <Checkbox
+            checked={allSelected}
+            indeterminate={selectedIds.length > 0 && !allSelected}
+            onChange={(e) =>
+              setSelectedIds(e.target.checked ? conversations.map((conversation) => conversation.topicId) : [])
+            }>
+            {t('import.preview.select_all')}
+          </Checkbox>
+          <ConversationList>
+            {conversations.map((conversation) => (
+              <ConversationItem key={conversation.topicId}>
+                <Checkbox
+                  checked={selectedIdSet.has(conversation.topicId)}
+                  onChange={(e) => toggleConversation(conversation.topicId, e.target.checked)}>
+                  <ConversationTitle>{conversation.title}</ConversationTitle>
+                </Checkbox>
+                <ConversationMeta>
+                  {conversation.assistantName && `${conversation.assistantName} · `}
+                  {dayjs(conversation.updatedAt).format('YYYY-MM-DD')} ·{' '}
+                  {t('import.preview.messages', { count: conversation.messageCount })}
+                </ConversationMeta>
+              </ConversationItem>
+            ))}
+          </ConversationList>
+        </Space>
+      )}
       {importing && (
         <div style={{ textAlign: 'center', padding: '20px 0' }}>
           <Progress percent={100} status="active" strokeColor="var(--color-primary)" showInfo={false} />
-          <div style={{ marginTop: 16 }}>{t('import.chatgpt.importing')}</div>
+          <div style={{ marginTop: 16 }}>{t('import.importing')}</div>
         </div>
       )}
     </Modal>
   )
 }
 
+const ConversationList = styled.div`
+  max-height: 360px;
+  overflow-y: auto;
+  border: 0.5px solid var(--color-border);
+  border-radius: 8px;
+  padding: 4px 0;
+`
+
+const ConversationItem = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 6px 12px;
+
+  .ant-checkbox-wrapper {
+    min-width: 0;
+  }
+`
+
+const ConversationTitle = styled.span`
+  display: block;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+const ConversationMeta = styled.span`
+  flex-shrink: 0;
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
 const TopViewKey = 'ImportPopup'
 
 export default class ImportPopup {
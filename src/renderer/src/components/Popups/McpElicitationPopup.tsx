@@ -0,0 +1,168 @@
+import type { ElicitResult, PrimitiveSchemaDefinition } from '@modelcontextprotocol/sdk/types.js'
+import {
+  buildElicitationContent,
+  type ElicitationFieldValue,
+  getElicitationDefaults,
+  getElicitationOptions
+} from '@renderer/utils/mcp-client-requests'
+import type { MCPElicitationRequest } from '@shared/config/types'
+import type { FormRule } from 'antd'
+import { Button, Form, Input, InputNumber, Modal, Select, Switch } from 'antd'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { TopView } from '../TopView'
+
+interface Props {
+  request: MCPElicitationRequest
+  resolve: (result: ElicitResult) => void
+}
+
+// 服务器取消请求时用于关闭对应的弹窗
+const cancelers = new Map<string, () => void>()
+
+const FieldInput: React.FC<{ field: PrimitiveSchemaDefinition }> = ({ field, ...props }) => {
+  const options = getElicitationOptions(field)
+  if (options) {
+    return <Select {...props} options={options} mode={field.type === 'array' ? 'multiple' : undefined} />
+  }
+
+  switch (field.type) {
+    case 'boolean':
+      return <Switch {...props} />
+    case 'number':
+    case 'integer':
+      return (
+        <InputNumber
+          {...props}
+          min={field.minimum}
+          max={field.maximum}
+          precision={field.type === 'integer' ? 0 : undefined}
+          style={{ width: '100%' }}
+        />
+      )
+    case 'string': {
+      const format = 'format' in field ? field.format : undefined
+      if (format === 'date') {
+        return <Input {...props} type="date" />
+      }
+      if (format === 'date-time') {
+        return <Input {...props} type="datetime-local" />
+      }
+      return <Input {...props} type={format === 'email' ? 'email' : undefined} />
+    }
+    default:
+      return null
+  }
+}
+
+function getFieldRules(field: PrimitiveSchemaDefinition, required: boolean): FormRule[] {
+  const rules: FormRule[] = [{ required }]
+  if (field.type === 'string' && !('enum' in field) && !('oneOf' in field)) {
+    if (field.minLength !== undefined || field.maxLength !== undefined) {
+      rules.push({ min: field.minLength, max: field.maxLength })
+    }
+    if (field.format === 'email') {
+      rules.push({ type: 'email' })
+    }
+    if (field.format === 'uri') {
+      rules.push({ type: 'url' })
+    }
+  }
+  if (field.type === 'array' && (field.minItems !== undefined || field.maxItems !== undefined)) {
+    rules.push({ type: 'array', min: field.minItems, max: field.maxItems })
+  }
+  return rules
+}
+
+const PopupContainer: React.FC<Props> = ({ request, resolve }) => {
+  const [open, setOpen] = useState(true)
+  const [result, setResult] = useState<ElicitResult>({ action: 'cancel' })
+  const { t } = useTranslation()
+  const [form] = Form.useForm<Record<string, ElicitationFieldValue>>()
+  const { params } = request
+  const required = new Set(params.requestedSchema.required ?? [])
+
+  const close = (value: ElicitResult) => {
+    setResult(value)
+    setOpen(false)
+  }
+
+  const onSubmit = async () => {
+    const values = await form.validateFields()
+    close({ action: 'accept', content: buildElicitationContent(params, values) })
+  }
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    cancelers.delete(request.requestId)
+    resolve(result)
+  }
+
+  cancelers.set(request.requestId, onCancel)
+
+  return (
+    <Modal
+      title={t('settings.mcp.elicitation.title', { server: request.serverName })}
+      open={open}
+      onCancel={onCancel}
+      afterClose={onClose}
+      transitionName="animation-move-down"
+      width={520}
+      centered
+      footer={[
+        <Button key="decline" onClick={() => close({ action: 'decline' })}>
+          {t('settings.mcp.elicitation.decline')}
+        </Button>,
+        <Button key="submit" type="primary" onClick={onSubmit}>
+          {t('settings.mcp.elicitation.submit')}
+        </Button>
+      ]}>
+      <Message>{params.message}</Message>
+      <Form form={form} layout="vertical" initialValues={getElicitationDefaults(params)}>
+        {Object.entries(params.requestedSchema.properties).map(([key, field]) => (
+          <Form.Item
+            key={key}
+            name={key}
+            label={field.title || key}
+            tooltip={field.description}
+            rules={getFieldRules(field, required.has(key))}
+            valuePropName={field.type === 'boolean' ? 'checked' : 'value'}>
+            <FieldInput field={field} />
+          </Form.Item>
+        ))}
+      </Form>
+    </Modal>
+  )
+}
+
+const Message = styled.div`
+  margin-bottom: 16px;
+  white-space: pre-wrap;
+  word-break: break-word;
+`
+
+export default class McpElicitationPopup {
+  static hide(requestId: string) {
+    cancelers.get(requestId)?.()
+  }
+  static show(request: MCPElicitationRequest) {
+    const key = `McpElicitationPopup_${request.requestId}`
+    return new Promise<ElicitResult>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          request={request}
+          resolve={(v) => {
+            resolve(v)
+            TopView.hide(key)
+          }}
+        />,
+        key
+      )
+    })
+  }
+}
@@ -0,0 +1,161 @@
+import ModelSelector from '@renderer/components/ModelSelector'
+import { isEmbeddingModel, isRerankModel, isTextToImageModel } from '@renderer/config/models'
+import { useDefaultModel } from '@renderer/hooks/useAssistant'
+import { useProviders } from '@renderer/hooks/useProvider'
+import { getModelUniqId, hasModel } from '@renderer/services/ModelService'
+import type { Model } from '@renderer/types'
+import { findSamplingModel, getSamplingMessageText } from '@renderer/utils/mcp-client-requests'
+import type { MCPSamplingRequest } from '@shared/config/types'
+import { Modal } from 'antd'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { TopView } from '../TopView'
+
+interface Props {
+  request: MCPSamplingRequest
+  resolve: (model: Model | undefined) => void
+}
+
+// 服务器取消请求时用于关闭对应的弹窗
+const cancelers = new Map<string, () => void>()
+
+const PopupContainer: React.FC<Props> = ({ request, resolve }) => {
+  const [open, setOpen] = useState(true)
+  const { t } = useTranslation()
+  const { providers } = useProviders()
+  const { defaultModel } = useDefaultModel()
+  const { params } = request
+
+  const modelPredicate = useCallback(
+    (m: Model) => !isEmbeddingModel(m) && !isRerankModel(m) && !isTextToImageModel(m),
+    []
+  )
+  const allModels = useMemo(
+    () => providers.flatMap((p) => p.models).filter(modelPredicate),
+    [providers, modelPredicate]
+  )
+
+  const [model, setModel] = useState<Model | undefined>(
+    () => findSamplingModel(params, allModels) ?? (hasModel(defaultModel) ? defaultModel : undefined)
+  )
+  const [result, setResult] = useState<Model | undefined>()
+
+  const onOk = () => {
+    if (!model) {
+      window.toast.error(t('message.error.enter.model'))
+      return
+    }
+    setResult(model)
+    setOpen(false)
+  }
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    cancelers.delete(request.requestId)
+    resolve(result)
+  }
+
+  cancelers.set(request.requestId, onCancel)
+
+  return (
+    <Modal
+      title={t('settings.mcp.sampling.title', { server: request.serverName })}
+      open={open}
+      onOk={onOk}
+      onCancel={onCancel}
+      afterClose={onClose}
+      okText={t('settings.mcp.sampling.approve')}
+      cancelText={t('settings.mcp.sampling.decline')}
+      transitionName="animation-move-down"
+      width={560}
+      centered>
+      <Description>{t('settings.mcp.sampling.description', { server: request.serverName })}</Description>
+      <Messages>
+        {params.systemPrompt && (
+          <MessageItem>
+            <MessageRole>system</MessageRole>
+            <MessageText>{params.systemPrompt}</MessageText>
+          </MessageItem>
+        )}
+        {params.messages.map((message, index) => (
+          <MessageItem key={index}>
+            <MessageRole>{message.role}</MessageRole>
+            <MessageText>{getSamplingMessageText(message)}</MessageText>
+          </MessageItem>
+        ))}
+      </Messages>
+      <Description>{t('settings.mcp.sampling.max_tokens', { count: params.maxTokens })}</Description>
+      <ModelSelector
+        providers={providers}
+        predicate={modelPredicate}
+        value={model ? getModelUniqId(model) : undefined}
+        placeholder={t('settings.models.empty')}
+        style={{ width: '100%' }}
+        onChange={(value) => setModel(allModels.find((m) => getModelUniqId(m) === value))}
+      />
+    </Modal>
+  )
+}
+
+const Description = styled.div`
+  margin-bottom: 8px;
+  font-size: 13px;
+  color: var(--color-text-2);
+`
+
+const Messages = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  max-height: 40vh;
+  margin-bottom: 12px;
+  padding: 8px 12px;
+  overflow-y: auto;
+  border-radius: 8px;
+  background-color: var(--color-background-mute);
+`
+
+const MessageItem = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+`
+
+const MessageRole = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  color: var(--color-text-3);
+  text-transform: capitalize;
+`
+
+const MessageText = styled.div`
+  font-size: 13px;
+  white-space: pre-wrap;
+  word-break: break-word;
+`
+
+export default class McpSamplingPopup {
+  static hide(requestId: string) {
+    cancelers.get(requestId)?.()
+  }
+  static show(request: MCPSamplingRequest) {
+    const key = `McpSamplingPopup_${request.requestId}`
+    return new Promise<Model | undefined>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          request={request}
+          resolve={(v) => {
+            resolve(v)
+            TopView.hide(key)
+          }}
+        />,
+        key
+      )
+    })
+  }
+}
@@ -0,0 +1,78 @@
+import { Modal } from 'antd'
+import { useState } from 'react'
+
+import { TopView } from '../TopView'
+
+interface Props {
+  path: string
+  title: string
+  // 1-based page to open at
+  page?: number
+  resolve: (data: any) => void
+}
+
+const PopupContainer: React.FC<Props> = ({ path, title, page, resolve }) => {
+  const [open, setOpen] = useState(true)
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    resolve({})
+  }
+
+  PdfPreviewPopup.hide = onCancel
+
+  // Chromium's built-in PDF viewer honours the #page fragment
+  const filePath = path.replace(/\\/g, '/')
+  const src = `file://${filePath.startsWith('/') ? '' : '/'}${filePath}${page ? `#page=${page}` : ''}`
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onCancel}
+      afterClose={onClose}
+      title={title}
+      width="80vw"
+      transitionName="animation-move-down"
+      styles={{
+        content: {
+          borderRadius: 20,
+          padding: 0,
+          overflow: 'hidden'
+        },
+        body: {
+          height: '85vh',
+          padding: 0
+        }
+      }}
+      centered
+      closable={true}
+      footer={null}>
+      <webview src={src} plugins={'true' as any} style={{ width: '100%', height: '100%' }} />
+    </Modal>
+  )
+}
+
+export default class PdfPreviewPopup {
+  static hide() {
+    TopView.hide('PdfPreviewPopup')
+  }
+  static show(path: string, title: string, page?: number) {
+    return new Promise<any>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          path={path}
+          title={title}
+          page={page}
+          resolve={(v) => {
+            resolve(v)
+            TopView.hide('PdfPreviewPopup')
+          }}
+        />,
+        'PdfPreviewPopup'
+      )
+    })
+  }
+}
@@ -1,7 +1,8 @@
 import { Modal } from 'antd'
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import styled from 'styled-components'
 
+import type { CodeEditorHandles } from '../CodeEditor'
 import CodeEditor from '../CodeEditor'
 import { TopView } from '../TopView'
 
@@ -9,11 +10,14 @@ interface Props {
   text: string
   title: string
   extension?: string
+  // 1-based line to scroll to and highlight once opened
+  line?: number
   resolve: (data: any) => void
 }
 
-const PopupContainer: React.FC<Props> = ({ text, title, extension, resolve }) => {
+const PopupContainer: React.FC<Props> = ({ text, title, extension, line, resolve }) => {
   const [open, setOpen] = useState(true)
+  const editorRef = useRef<CodeEditorHandles>(null)
 
   const onOk = () => {
     setOpen(false)
@@ -35,6 +39,7 @@ const PopupContainer: React.FC<Props> = ({ text, title, extension, resolve }) =>
       onOk={onOk}
       onCancel={onCancel}
       afterClose={onClose}
+      afterOpenChange={(opened) => opened && line && editorRef.current?.scrollToLine?.(line, { highlight: true })}
       title={title}
       width={700}
       transitionName="animation-move-down"
@@ -55,6 +60,7 @@ const PopupContainer: React.FC<Props> = ({ text, title, extension, resolve }) =>
       footer={null}>
       {extension !== undefined ? (
         <Editor
+          ref={editorRef}
           readOnly={true}
           expanded={false}
           height="100%"
@@ -89,13 +95,14 @@ export default class TextFilePreviewPopup {
   static hide() {
     TopView.hide('TextFilePreviewPopup')
   }
-  static show(text: string, title: string, extension?: string) {
+  static show(text: string, title: string, extension?: string, line?: number) {
     return new Promise<any>((resolve) => {
       TopView.show(
         <PopupContainer
           text={text}
           title={title}
           extension={extension}
+          line={line}
           resolve={(v) => {
             resolve(v)
             TopView.hide('TextFilePreviewPopup')
@@ -0,0 +1,82 @@
+import type { Model } from '@renderer/types'
+import { getLowerBaseModelName } from '@renderer/utils/naming'
+
+// 未知模型按保守的上下文长度处理
+export const DEFAULT_CONTEXT_WINDOW = 32_768
+
+// 默认 token 预算占上下文长度的比例，其余留给系统提示词、工具定义和输出
+export const DEFAULT_CONTEXT_BUDGET_RATIO = 0.75
+
+// 按顺序匹配，更具体的模式放在前面
+const CONTEXT_WINDOW_MAP: Record<string, number> = {
+  // OpenAI models
+  'gpt-4\\.1.*$': 1_047_576,
+  'gpt-5.*$': 400_000,
+  'gpt-4o.*$': 128_000,
+  'gpt-4-turbo.*$': 128_000,
+  'gpt-4(-\\d+)?$': 8_192,
+  'gpt-3\\.5-turbo.*$': 16_385,
+  'gpt-oss.*$': 131_072,
+  '^o[134](-.*)?$': 200_000,
+
+  // Claude models
+  '(?:anthropic\\.)?claude-.*$': 200_000,
+
+  // Gemini models
+  'gemini-(1\\.5|2\\.0|2\\.5|3).*$': 1_048_576,
+  'gemma-3.*$': 131_072,
+
+  // DeepSeek models
+  'deepseek-.*$': 128_000,
+
+  // Qwen models
+  'qwen-long.*$': 10_000_000,
+  'qwen-turbo.*$': 1_000_000,
+  'qwen3-coder.*$': 262_144,
+  'qwen(3|-plus|-max|-flash).*$': 131_072,
+
+  // Moonshot models
+  'kimi-k2.*$': 262_144,
+  'moonshot-v1-8k.*$': 8_192,
+  'moonshot-v1-32k.*$': 32_768,
+  'moonshot-v1-128k.*$': 131_072,
+
+  // Zhipu models
+  'glm-4\\.[56].*$': 131_072,
+  'glm-4.*$': 128_000,
+
+  // Others
+  'grok-4.*$': 256_000,
+  'grok-3.*$': 131_072,
+  'llama-?3\\.[1-3].*$': 131_072,
+  'llama-?4.*$': 1_048_576,
+  'mistral-(large|medium).*$': 131_072,
+  'minimax-m.*$': 1_000_000,
+  'doubao-.*$': 262_144
+}
+
+/**
+ * 获取模型的上下文长度（tokens），未知模型返回 undefined
+ */
+export const findContextWindow = (modelId: string): number | undefined => {
+  for (const [pattern, contextWindow] of Object.entries(CONTEXT_WINDOW_MAP)) {
+    if (new RegExp(pattern, 'i').test(modelId)) {
+      return contextWindow
+    }
+  }
+  return undefined
+}
+
+export function getModelContextWindow(model?: Model): number {
+  if (!model) {
+    return DEFAULT_CONTEXT_WINDOW
+  }
+  return findContextWindow(getLowerBaseModelName(model.id)) ?? DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * 根据模型上下文长度计算默认的上下文 token 预算
+ */
+export function getDefaultContextTokenBudget(model?: Model): number {
+  return Math.floor(getModelContextWindow(model) * DEFAULT_CONTEXT_BUDGET_RATIO)
+}
@@ -1,12 +1,9 @@
 import type { Model } from '@renderer/types'
 import { getLowerBaseModelName, isUserSelectedModelType } from '@renderer/utils'
+import { EMBEDDING_REGEX, RERANKING_REGEX } from '@shared/config/models'
 
-// Embedding models
-export const EMBEDDING_REGEX =
-  /(?:^text-|embed|bge-|e5-|LLM2Vec|retrieval|uae-|gte-|jina-clip|jina-embeddings|voyage-)/i
+export { EMBEDDING_REGEX, RERANKING_REGEX }
 
-// Rerank models
-export const RERANKING_REGEX = /(?:rerank|re-rank|re-ranker|re-ranking|retrieval|retriever)/i
 export function isEmbeddingModel(model: Model): boolean {
   if (!model || isRerankModel(model)) {
     return false
@@ -1,3 +1,4 @@
+export * from './context'
 export * from './default'
 export * from './embedding'
 export * from './logo'
@@ -49,6 +49,24 @@ As [role name], with [list skills], strictly adhering to [list constraints], usi
 export const SUMMARIZE_PROMPT =
   "You are an assistant skilled in conversation. You need to summarize the user's conversation into a title within 10 words. The language of the title should be consistent with the user's primary language. Do not use punctuation marks or other special symbols"
 
+export const CONTEXT_COMPACT_PROMPT = `You maintain a running summary of a long conversation so it can continue after older messages are removed from the context window.
+
+You will receive the previous summary (if any) inside <previous_summary> tags and the messages to fold into it inside <conversation> tags, as a JSON array ordered from oldest to newest.
+
+Write an updated summary that:
+- Keeps every decision, requirement, constraint and conclusion that was reached, and who asked for it
+- Keeps names, identifiers, file paths, code snippets, numbers and other exact details that later messages may rely on
+- Notes open questions and unfinished tasks
+- Drops greetings, repetition and reasoning that did not lead anywhere
+
+Use the same language as the conversation. Output only the summary in Markdown, without any preamble.`
+
+export const CONTEXT_SUMMARY_PROMPT = `The earlier part of this conversation was removed from the context and summarized below. Treat it as what has already been discussed.
+
+<conversation_summary>
+{{summary}}
+</conversation_summary>`
+
 // https://github.com/ItzCrazyKns/Perplexica/blob/master/src/lib/prompts/webSearch.ts
 export const SEARCH_SUMMARY_PROMPT = `
   You are an AI question rephraser. Your role is to rephrase follow-up queries from a conversation into standalone queries that can be used by another LLM to retrieve information, either through web search or from a knowledge base.
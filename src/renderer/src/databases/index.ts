@@ -22,6 +22,7 @@ import type {
   TranslateHistory
 } from '@renderer/types'
 // Import necessary types for blocks and new message structure
+import type { MessageSearchDocument } from '@renderer/types/messageSearch'
 import type { Message as NewMessage, MessageBlock } from '@renderer/types/newMessage'
 import { Dexie, type EntityTable } from 'dexie'
 
@@ -39,6 +40,7 @@ export const db = new Dexie('CherryStudio', {
   quick_phrases: EntityTable<QuickPhrase, 'id'>
   message_blocks: EntityTable<MessageBlock, 'id'> // Correct type for message_blocks
   translate_languages: EntityTable<CustomTranslateLanguage, 'id'>
+  message_search_index: EntityTable<MessageSearchDocument, 'id'>
 }
 
 db.version(1).stores({
@@ -135,4 +137,16 @@ db.version(10).stores({
   message_blocks: 'id, messageId, file.id'
 })
 
+db.version(11).stores({
+  files: 'id, name, origin_name, path, size, ext, type, created_at, count',
+  topics: '&id',
+  settings: '&id, value',
+  knowledge_notes: '&id, baseId, type, content, created_at, updated_at',
+  translate_history: '&id, sourceText, targetText, sourceLanguage, targetLanguage, createdAt',
+  translate_languages: '&id, langCode',
+  quick_phrases: 'id',
+  message_blocks: 'id, messageId, file.id',
+  message_search_index: 'id, messageId, topicId, modelId, *terms'
+})
+
 export default db
@@ -5,9 +5,15 @@ import { useTheme } from '@renderer/context/ThemeProvider'
 import db from '@renderer/databases'
 import i18n, { setDayjsLocale } from '@renderer/i18n'
 import KnowledgeQueue from '@renderer/queue/KnowledgeQueue'
+import { handleApiServerKnowledgeRequest } from '@renderer/services/ApiServerKnowledgeService'
 import { backgroundSlideshowService } from '@renderer/services/BackgroundSlideshowService'
+import {
+  cancelClientRequest,
+  handleElicitationRequest,
+  handleSamplingRequest
+} from '@renderer/services/McpClientRequestService'
 import MemoryService from '@renderer/services/MemoryService'
-import { handleSaveData, useAppDispatch, useAppSelector } from '@renderer/store'
+import store, { handleSaveData, useAppDispatch, useAppSelector } from '@renderer/store'
 import { selectMemoryConfig } from '@renderer/store/memory'
 import { setAvatar, setFilesPath, setResourcesPath, setUpdateState } from '@renderer/store/runtime'
 import {
@@ -18,6 +24,12 @@ import {
 import { delay, runAsyncFunction } from '@renderer/utils'
 import { checkDataLimit } from '@renderer/utils'
 import { defaultLanguage } from '@shared/config/constant'
+import type {
+  ApiServerKnowledgeRequest,
+  KnowledgeDirectoryChangedEvent,
+  MCPElicitationRequest,
+  MCPSamplingRequest
+} from '@shared/config/types'
 import { IpcChannel } from '@shared/IpcChannel'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { useEffect } from 'react'
@@ -163,6 +175,57 @@ export function useAppInit() {
     KnowledgeQueue.checkAllBases()
   }, [])
 
+  useEffect(() => {
+    const bases = store.getState().knowledge.bases
+    for (const base of bases) {
+      for (const item of base.items) {
+        if (item.type !== 'directory' || !item.watch) continue
+        void window.api.knowledgeBase
+          .watchDirectory({ baseId: base.id, itemId: item.id, directory: item.content as string })
+          // Catch up with changes made while the app was closed
+          .then(() => KnowledgeQueue.syncDirectory(base.id, item.id))
+          .catch((error) => logger.error(`Failed to watch knowledge directory ${item.content}`, error as Error))
+      }
+    }
+
+    return window.electron.ipcRenderer.on(
+      IpcChannel.KnowledgeBase_DirectoryChanged,
+      (_, { baseId, itemId }: KnowledgeDirectoryChangedEvent) => {
+        void KnowledgeQueue.syncDirectory(baseId, itemId)
+      }
+    )
+  }, [])
+
+  useEffect(() => {
+    // 本地 API 服务器的知识库接口需要渲染进程提供知识库参数和添加条目
+    return window.electron.ipcRenderer.on(
+      IpcChannel.ApiServer_KnowledgeRequest,
+      (_, request: ApiServerKnowledgeRequest) => {
+        void handleApiServerKnowledgeRequest(request)
+      }
+    )
+  }, [])
+
+  useEffect(() => {
+    // MCP 服务器发给客户端的请求，需要用户确认或填写
+    const removeListeners = [
+      window.electron.ipcRenderer.on(IpcChannel.Mcp_SamplingRequest, (_, request: MCPSamplingRequest) => {
+        void handleSamplingRequest(request)
+      }),
+      window.electron.ipcRenderer.on(IpcChannel.Mcp_ElicitationRequest, (_, request: MCPElicitationRequest) => {
+        void handleElicitationRequest(request)
+      }),
+      window.electron.ipcRenderer.on(
+        IpcChannel.Mcp_ClientRequestCancelled,
+        (_, { requestId }: { requestId: string }) => {
+          cancelClientRequest(requestId)
+        }
+      )
+    ]
+
+    return () => removeListeners.forEach((removeListener) => removeListener())
+  }, [])
+
   useEffect(() => {
     let customCssElement = document.getElementById('user-defined-custom-css') as HTMLStyleElement
     if (customCssElement) {
@@ -1,3 +1,4 @@
+import { loggerService } from '@logger'
 import { db } from '@renderer/databases'
 import KnowledgeQueue from '@renderer/queue/KnowledgeQueue'
 import { getKnowledgeBaseParams } from '@renderer/services/KnowledgeService'
@@ -20,16 +21,21 @@ import { addFilesThunk, addItemThunk, addNoteThunk, addVedioThunk } from '@rende
 import type { FileMetadata, KnowledgeBase, KnowledgeItem, KnowledgeNoteItem, ProcessingStatus } from '@renderer/types'
 import { isKnowledgeFileItem, isKnowledgeNoteItem, isKnowledgeVideoItem } from '@renderer/types'
 import { runAsyncFunction, uuid } from '@renderer/utils'
+import { formatErrorMessage } from '@renderer/utils/error'
 import dayjs from 'dayjs'
 import { cloneDeep } from 'lodash'
 import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
 import { useDispatch, useSelector } from 'react-redux'
 
 import { useAssistants } from './useAssistant'
 import { useAssistantPresets } from './useAssistantPresets'
 import { useTimer } from './useTimer'
 
+const logger = loggerService.withContext('useKnowledge')
+
 export const useKnowledge = (baseId: string) => {
+  const { t } = useTranslation()
   const dispatch = useAppDispatch()
   const base = useSelector((state: RootState) => state.knowledge.bases.find((b) => b.id === baseId))
   const { setTimeoutTimer } = useTimer()
@@ -116,6 +122,9 @@ export const useKnowledge = (baseId: string) => {
   // 移除项目
   const removeItem = async (item: KnowledgeItem) => {
     dispatch(removeItemAction({ baseId, item }))
+    if (item.watch) {
+      await window.api.knowledgeBase.unwatchDirectory(item.id)
+    }
     if (!base || !item?.uniqueId || !item?.uniqueIds) {
       return
     }
@@ -123,7 +132,8 @@ export const useKnowledge = (baseId: string) => {
     const removalParams = {
       uniqueId: item.uniqueId,
       uniqueIds: item.uniqueIds,
-      base: getKnowledgeBaseParams(base)
+      base: getKnowledgeBaseParams(base),
+      itemId: item.id
     }
 
     await window.api.knowledgeBase.remove(removalParams)
@@ -189,6 +199,43 @@ export const useKnowledge = (baseId: string) => {
     setTimeout(() => KnowledgeQueue.checkAllBases(), 0)
   }
 
+  // 更新项目标签，并写入已存储分块的元数据以便按标签检索
+  const updateItemTags = async (item: KnowledgeItem, tags: string[]) => {
+    // 笔记列表中的项目带有正文，从 store 中取原始项目
+    const current = base?.items.find((i) => i.id === item.id) ?? item
+    const updated = { ...current, tags, updated_at: Date.now() }
+    updateItem(updated)
+    if (base && updated.uniqueIds?.length) {
+      await window.api.knowledgeBase.updateItemMetadata({ base: getKnowledgeBaseParams(base), items: [updated] })
+    }
+  }
+
+  // 增量同步目录，只处理新增、修改和删除的文件
+  const syncDirectory = (item: KnowledgeItem) => KnowledgeQueue.syncDirectory(baseId, item.id)
+
+  // 开关目录监听
+  const toggleDirectoryWatch = async (item: KnowledgeItem) => {
+    const watch = !item.watch
+    updateItem({ ...item, watch })
+    try {
+      if (watch) {
+        await window.api.knowledgeBase.watchDirectory({ baseId, itemId: item.id, directory: item.content as string })
+        // 补上未监听期间的改动
+        await KnowledgeQueue.syncDirectory(baseId, item.id)
+      } else {
+        await window.api.knowledgeBase.unwatchDirectory(item.id)
+      }
+    } catch (error) {
+      logger.error('Failed to toggle directory watch', error as Error)
+      // 监听没有生效，恢复原来的状态；同步失败时监听已经开启，需要一并关闭
+      if (watch) {
+        await window.api.knowledgeBase.unwatchDirectory(item.id).catch(() => {})
+      }
+      updateItem({ ...item, watch: item.watch })
+      window.toast.error(t('knowledge.directory_sync.watch_failed') + ': ' + formatErrorMessage(error))
+    }
+  }
+
   // 更新处理状态
   const updateItemStatus = (itemId: string, status: ProcessingStatus, progress?: number, error?: string) => {
     dispatch(
@@ -334,7 +381,10 @@ export const useKnowledge = (baseId: string) => {
     clearAll,
     removeItem,
     directoryItems,
-    addDirectory
+    addDirectory,
+    syncDirectory,
+    toggleDirectoryWatch,
+    updateItemTags
   }
 }
 
@@ -2,7 +2,7 @@ import { getEmbeddingMaxContext } from '@renderer/config/embedings'
 import { usePreprocessProviders } from '@renderer/hooks/usePreprocess'
 import { useProviders } from '@renderer/hooks/useProvider'
 import { getModelUniqId } from '@renderer/services/ModelService'
-import type { KnowledgeBase } from '@renderer/types'
+import type { KnowledgeBase, KnowledgeChunkStrategy, KnowledgeSearchMode } from '@renderer/types'
 import { nanoid } from 'nanoid'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
@@ -30,7 +30,9 @@ const createInitialKnowledgeBase = (): KnowledgeBase => ({
  *   - `handleDocPreprocessChange`: Updates the document preprocess provider.
  *   - `handleChunkSizeChange`: Updates the chunk size.
  *   - `handleChunkOverlapChange`: Updates the chunk overlap.
+ *   - `handleChunkStrategyChange`: Updates the chunking strategy.
  *   - `handleThresholdChange`: Updates the threshold.
+ *   - `handleSearchModeChange`: Updates the search mode.
  * @param base - The base knowledge base to use as the initial state. If not provided, an empty base will be used.
  * @returns An object containing the new base state, a function to update the base, and handlers for various form actions.
  *          Also includes provider data for dropdown options and selected provider.
@@ -128,6 +130,10 @@ export const useKnowledgeBaseForm = (base?: KnowledgeBase) => {
     [newBase.chunkSize, t]
   )
 
+  const handleChunkStrategyChange = useCallback((value: KnowledgeChunkStrategy) => {
+    setNewBase((prev) => ({ ...prev, chunkStrategy: value }))
+  }, [])
+
   const handleThresholdChange = useCallback(
     (value: number | null) => {
       setNewBase((prev) => ({ ...prev, threshold: value || undefined }))
@@ -135,6 +141,10 @@ export const useKnowledgeBaseForm = (base?: KnowledgeBase) => {
     [setNewBase]
   )
 
+  const handleSearchModeChange = useCallback((value: KnowledgeSearchMode) => {
+    setNewBase((prev) => ({ ...prev, searchMode: value }))
+  }, [])
+
   const handlers = {
     handleEmbeddingModelChange,
     handleRerankModelChange,
@@ -142,7 +152,9 @@ export const useKnowledgeBaseForm = (base?: KnowledgeBase) => {
     handleDocPreprocessChange,
     handleChunkSizeChange,
     handleChunkOverlapChange,
-    handleThresholdChange
+    handleChunkStrategyChange,
+    handleThresholdChange,
+    handleSearchModeChange
   }
 
   const providerData = {
@@ -2,8 +2,16 @@ import { createSelector } from '@reduxjs/toolkit'
 import NavigationService from '@renderer/services/NavigationService'
 import type { RootState } from '@renderer/store'
 import store, { useAppDispatch, useAppSelector } from '@renderer/store'
-import { addMCPServer, deleteMCPServer, setMCPServers, updateMCPServer } from '@renderer/store/mcp'
-import type { MCPServer } from '@renderer/types'
+import {
+  addMCPProfile,
+  addMCPServer,
+  deleteMCPProfile,
+  deleteMCPServer,
+  setMCPServers,
+  updateMCPProfile,
+  updateMCPServer
+} from '@renderer/store/mcp'
+import type { MCPProfile, MCPServer } from '@renderer/types'
 import { IpcChannel } from '@shared/IpcChannel'
 
 // Listen for server changes from main process
@@ -18,6 +26,7 @@ window.electron.ipcRenderer.on(IpcChannel.Mcp_AddServer, (_event, server: MCPSer
 })
 
 const selectMcpServers = (state: RootState) => state.mcp.servers
+const selectMcpProfiles = (state: RootState) => state.mcp.profiles
 const selectActiveMcpServers = createSelector([selectMcpServers], (servers) =>
   servers.filter((server) => server.isActive)
 )
@@ -50,3 +59,15 @@ export const useMCPServer = (id: string) => {
     deleteMCPServer: (id: string) => dispatch(deleteMCPServer(id))
   }
 }
+
+export const useMCPProfiles = () => {
+  const profiles = useAppSelector(selectMcpProfiles)
+  const dispatch = useAppDispatch()
+
+  return {
+    profiles,
+    addMCPProfile: (profile: MCPProfile) => dispatch(addMCPProfile(profile)),
+    updateMCPProfile: (profile: MCPProfile) => dispatch(updateMCPProfile(profile)),
+    deleteMCPProfile: (id: string) => dispatch(deleteMCPProfile(id))
+  }
+}
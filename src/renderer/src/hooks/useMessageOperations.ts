@@ -1,7 +1,8 @@
 import { loggerService } from '@logger'
 import { createSelector } from '@reduxjs/toolkit'
+import { getDefaultModel } from '@renderer/services/AssistantService'
 import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
-import { appendMessageTrace, pauseTrace, restartTrace } from '@renderer/services/SpanManagerService'
+import { appendMessageTrace, pauseTrace, restartTrace, spanManagerService } from '@renderer/services/SpanManagerService'
 import { estimateUserPromptUsage } from '@renderer/services/TokenService'
 import store, { type RootState, useAppDispatch, useAppSelector } from '@renderer/store'
 import { updateOneBlock } from '@renderer/store/messageBlock'
@@ -378,21 +379,17 @@ export function useMessageOperations(topic: Topic) {
   )
 
   /**
-   * 在用户消息的主文本块被编辑后重新发送该消息。 / Resends a user message after its main text block has been edited.
+   * 编辑用户消息后重新发送，作为原消息的兄弟分支。 / Resends an edited user message as a new sibling branch of the original.
    * Dispatches resendUserMessageWithEditThunk.
    */
   const resendUserMessageWithEdit = useCallback(
     async (message: Message, editedBlocks: MessageBlock[], assistant: Assistant) => {
-      await editMessageBlocks(message.id, editedBlocks)
-
       const mainTextBlock = editedBlocks.find((block) => block.type === MessageBlockType.MAIN_TEXT)
       if (!mainTextBlock) {
         logger.error('[resendUserMessageWithEdit] Main text block not found in edited blocks')
         return
       }
 
-      await restartTrace(message, mainTextBlock.content)
-
       const fileBlocks = editedBlocks.filter(
         (block) => block.type === MessageBlockType.FILE || block.type === MessageBlockType.IMAGE
       )
@@ -400,19 +397,31 @@ export function useMessageOperations(topic: Topic) {
       const files = fileBlocks.map((block) => block.file).filter((file) => file !== undefined)
 
       const usage = await estimateUserPromptUsage({ content: mainTextBlock.content, files })
-      const messageUpdates: Partial<Message> & Pick<Message, 'id'> = {
-        id: message.id,
-        updatedAt: new Date().toISOString(),
-        usage
-      }
+      const trace = spanManagerService.startTrace(
+        { topicId: topic.id, name: 'sendMessage', inputs: mainTextBlock.content },
+        message.mentions?.length ? message.mentions : [assistant.model ?? getDefaultModel()]
+      )
 
       await dispatch(
-        newMessagesActions.updateMessage({ topicId: topic.id, messageId: message.id, updates: messageUpdates })
+        resendUserMessageWithEditThunk(topic.id, message, editedBlocks, assistant, {
+          usage,
+          traceId: trace?.spanContext().traceId
+        })
       )
-      // 对于message的修改会在下面的thunk中保存
-      await dispatch(resendUserMessageWithEditThunk(topic.id, message, assistant))
     },
-    [dispatch, editMessageBlocks, topic.id]
+    [dispatch, topic.id]
+  )
+
+  /**
+   * 切换到分叉处的另一个分支。 / Switches the conversation to another sibling branch at a fork.
+   */
+  const switchMessageBranch = useCallback(
+    async (message: Message) => {
+      await dispatch(
+        updateMessageAndBlocksThunk(topic.id, { id: message.id, branchSelectedAt: new Date().toISOString() }, [])
+      )
+    },
+    [dispatch, topic.id]
   )
 
   /**
@@ -453,6 +462,7 @@ export function useMessageOperations(topic: Topic) {
     resendMessage,
     regenerateAssistantMessage,
     resendUserMessageWithEdit,
+    switchMessageBranch,
     appendAssistantResponse,
     createNewContext,
     clearTopicMessages,
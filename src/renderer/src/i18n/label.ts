@@ -5,7 +5,7 @@
  */
 
 import { loggerService } from '@logger'
-import type { AgentType, BuiltinMCPServerName, BuiltinOcrProviderId } from '@renderer/types'
+import type { AgentType, ApiServerKeyScope, BuiltinMCPServerName, BuiltinOcrProviderId } from '@renderer/types'
 import { BuiltinMCPServerNames } from '@renderer/types'
 
 import i18n from './index'
@@ -109,6 +109,7 @@ const backupProgressKeyMap = {
   completed: 'backup.progress.completed',
   compressing: 'backup.progress.compressing',
   copying_files: 'backup.progress.copying_files',
+  encrypting: 'backup.progress.encrypting',
   preparing_compression: 'backup.progress.preparing_compression',
   preparing: 'backup.progress.preparing',
   title: 'backup.progress.title',
@@ -122,6 +123,7 @@ export const getBackupProgressLabel = (key: string): string => {
 const restoreProgressKeyMap = {
   completed: 'restore.progress.completed',
   copying_files: 'restore.progress.copying_files',
+  decrypting: 'restore.progress.decrypting',
   extracted: 'restore.progress.extracted',
   extracting: 'restore.progress.extracting',
   preparing: 'restore.progress.preparing',
@@ -379,3 +381,15 @@ export const getAgentTypeLabel = (key: AgentType) => {
       return 'Unknown Type'
   }
 }
+
+const apiServerKeyScopeKeyMap = {
+  chat: 'apiServer.keys.scopes.chat',
+  models: 'apiServer.keys.scopes.models',
+  mcps: 'apiServer.keys.scopes.mcps',
+  agents: 'apiServer.keys.scopes.agents',
+  knowledge: 'apiServer.keys.scopes.knowledge'
+} as const satisfies Record<ApiServerKeyScope, string>
+
+export const getApiServerKeyScopeLabel = (key: ApiServerKeyScope): string => {
+  return getLabel(apiServerKeyScopeKeyMap, key)
+}
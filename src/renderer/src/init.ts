@@ -2,6 +2,7 @@ import KeyvStorage from '@kangfenmao/keyv-storage'
 import { loggerService } from '@logger'
 
 import { startAutoSync } from './services/BackupService'
+import { initMessageSearchIndex } from './services/messageSearch'
 import { startNutstoreAutoSync } from './services/NutstoreService'
 import storeSyncService from './services/StoreSyncService'
 import { webTraceService } from './services/WebTraceService'
@@ -31,6 +32,10 @@ function initStoreSync() {
   storeSyncService.subscribe()
 }
 
+function initMessageSearch() {
+  initMessageSearchIndex()
+}
+
 function initWebTrace() {
   webTraceService.init()
 }
@@ -39,3 +44,4 @@ initKeyv()
 initAutoSync()
 initStoreSync()
 initWebTrace()
+initMessageSearch()
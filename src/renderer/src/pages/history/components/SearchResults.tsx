@@ -1,29 +1,28 @@
+import { loggerService } from '@logger'
 import { LoadingIcon } from '@renderer/components/Icons'
-import db from '@renderer/databases'
+import { useAssistants } from '@renderer/hooks/useAssistant'
 import useScrollPosition from '@renderer/hooks/useScrollPosition'
+import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
+import type { MessageSearchIndexProgress, MessageSearchSortOrder } from '@renderer/services/messageSearch'
+import { getIndexedModelIds, searchMessages, splitHighlights } from '@renderer/services/messageSearch'
 import { selectTopicsMap } from '@renderer/store/assistants'
 import type { Topic } from '@renderer/types'
-import { type Message, MessageBlockType } from '@renderer/types/newMessage'
-import {
-  buildKeywordRegexes,
-  buildKeywordUnionRegex,
-  type KeywordMatchMode,
-  splitKeywordsToTerms
-} from '@renderer/utils/keywordSearch'
-import { List, Segmented, Spin, Typography } from 'antd'
-import { useLiveQuery } from 'dexie-react-hooks'
+import type { Message } from '@renderer/types/newMessage'
+import { DatePicker, List, Segmented, Select, Spin, Typography } from 'antd'
+import type { Dayjs } from 'dayjs'
 import type { FC } from 'react'
-import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useSelector } from 'react-redux'
 import styled from 'styled-components'
 
 const { Text, Title } = Typography
 
+const logger = loggerService.withContext('SearchResults')
+
 type SearchResult = {
   message: Message
   topic: Topic
-  content: string
   snippet: string
 }
 
@@ -33,253 +32,94 @@ interface Props extends React.HTMLAttributes<HTMLDivElement> {
   onTopicClick: (topic: Topic) => void
 }
 
-const SEARCH_SNIPPET_CONTEXT_LINES = 1
-const SEARCH_SNIPPET_MAX_LINES = 12
-const SEARCH_SNIPPET_MAX_LINE_LENGTH = 160
-const SEARCH_SNIPPET_LINE_FRAGMENT_RADIUS = 40
-const SEARCH_SNIPPET_MAX_LINE_FRAGMENTS = 3
-
-type ResultSortOrder = 'newest' | 'oldest'
-
-const stripMarkdownFormatting = (text: string) => {
-  return text
-    .replace(/```(?:[^\n]*\n)?([\s\S]*?)```/g, '$1')
-    .replace(/!\[(.*?)\]\((.*?)\)/g, '$1')
-    .replace(/\[(.*?)\]\((.*?)\)/g, '$1')
-    .replace(/\*\*(.*?)\*\*/g, '$1')
-    .replace(/\*(.*?)\*/g, '$1')
-    .replace(/`(.*?)`/g, '$1')
-    .replace(/#+\s/g, '')
-    .replace(/<[^>]*>/g, '')
-}
-
-const normalizeText = (text: string) => text.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
-
-const mergeRanges = (ranges: Array<[number, number]>) => {
-  const sorted = ranges.slice().sort((a, b) => a[0] - b[0])
-  const merged: Array<[number, number]> = []
-  for (const range of sorted) {
-    const last = merged[merged.length - 1]
-    if (!last || range[0] > last[1] + 1) {
-      merged.push([range[0], range[1]])
-      continue
-    }
-    last[1] = Math.max(last[1], range[1])
-  }
-  return merged
-}
-
-const buildLineSnippet = (line: string, regexes: RegExp[]) => {
-  if (line.length <= SEARCH_SNIPPET_MAX_LINE_LENGTH) {
-    return line
-  }
-
-  const matchRanges: Array<[number, number]> = []
-  for (const regex of regexes) {
-    regex.lastIndex = 0
-    let match: RegExpExecArray | null
-    while ((match = regex.exec(line)) !== null) {
-      matchRanges.push([match.index, match.index + match[0].length])
-      if (match[0].length === 0) {
-        regex.lastIndex += 1
-      }
-    }
-  }
-
-  if (matchRanges.length === 0) {
-    return `${line.slice(0, SEARCH_SNIPPET_MAX_LINE_LENGTH)}...`
-  }
-
-  const expandedRanges: Array<[number, number]> = matchRanges.map(([start, end]) => [
-    Math.max(0, start - SEARCH_SNIPPET_LINE_FRAGMENT_RADIUS),
-    Math.min(line.length, end + SEARCH_SNIPPET_LINE_FRAGMENT_RADIUS)
-  ])
-  const mergedRanges = mergeRanges(expandedRanges)
-  const limitedRanges = mergedRanges.slice(0, SEARCH_SNIPPET_MAX_LINE_FRAGMENTS)
-
-  let result = limitedRanges.map(([start, end]) => line.slice(start, end)).join(' ... ')
-  // 片段未从行首开始，补前置省略号。
-  if (limitedRanges[0][0] > 0) {
-    result = `...${result}`
-  }
-  // 片段未覆盖到行尾，补后置省略号。
-  if (limitedRanges[limitedRanges.length - 1][1] < line.length) {
-    result = `${result}...`
-  }
-  // 还有未展示的匹配片段，提示省略。
-  if (mergedRanges.length > SEARCH_SNIPPET_MAX_LINE_FRAGMENTS) {
-    result = `${result}...`
-  }
-  // 最终长度超限，强制截断并补省略号。
-  if (result.length > SEARCH_SNIPPET_MAX_LINE_LENGTH) {
-    result = `${result.slice(0, SEARCH_SNIPPET_MAX_LINE_LENGTH)}...`
-  }
-  return result
-}
-
-const buildSearchSnippet = (text: string, terms: string[], matchMode: KeywordMatchMode) => {
-  const normalized = normalizeText(stripMarkdownFormatting(text))
-  const lines = normalized.split('\n')
-  if (lines.length === 0) {
-    return ''
-  }
-
-  const nonEmptyTerms = terms.filter((term) => term.length > 0)
-  const regexes = buildKeywordRegexes(nonEmptyTerms, { matchMode, flags: 'gi' })
-  const matchedLineIndexes: number[] = []
-
-  if (regexes.length > 0) {
-    for (let i = 0; i < lines.length; i += 1) {
-      const line = lines[i]
-      const isMatch = regexes.some((regex) => {
-        regex.lastIndex = 0
-        return regex.test(line)
-      })
-      if (isMatch) {
-        matchedLineIndexes.push(i)
-      }
-    }
-  }
-
-  const ranges: Array<[number, number]> =
-    matchedLineIndexes.length > 0
-      ? mergeRanges(
-          matchedLineIndexes.map((index) => [
-            Math.max(0, index - SEARCH_SNIPPET_CONTEXT_LINES),
-            Math.min(lines.length - 1, index + SEARCH_SNIPPET_CONTEXT_LINES)
-          ])
-        )
-      : [[0, Math.min(lines.length - 1, SEARCH_SNIPPET_MAX_LINES - 1)]]
-
-  const outputLines: string[] = []
-  let truncated = false
-
-  if (ranges[0][0] > 0) {
-    outputLines.push('...')
-  }
-
-  for (const [start, end] of ranges) {
-    if (outputLines.length >= SEARCH_SNIPPET_MAX_LINES) {
-      truncated = true
-      break
-    }
-    if (outputLines.length > 0 && outputLines[outputLines.length - 1] !== '...') {
-      outputLines.push('...')
-    }
-    for (let i = start; i <= end; i += 1) {
-      if (outputLines.length >= SEARCH_SNIPPET_MAX_LINES) {
-        truncated = true
-        break
-      }
-      outputLines.push(buildLineSnippet(lines[i], regexes))
-    }
-    if (truncated) {
-      break
-    }
-  }
-
-  if ((truncated || ranges[ranges.length - 1][1] < lines.length - 1) && outputLines.at(-1) !== '...') {
-    outputLines.push('...')
-  }
-
-  return outputLines.join('\n')
-}
+type RoleFilter = 'all' | 'user' | 'assistant'
 
 const SearchResults: FC<Props> = ({ keywords, onMessageClick, onTopicClick, ...props }) => {
   const { t } = useTranslation()
   const { handleScroll, containerRef } = useScrollPosition('SearchResults')
   const observerRef = useRef<MutationObserver | null>(null)
+  const { assistants } = useAssistants()
 
-  const [matchMode, setMatchMode] = useState<KeywordMatchMode>('whole-word')
-  const [sortOrder, setSortOrder] = useState<ResultSortOrder>('newest')
-  const [searchTerms, setSearchTerms] = useState<string[]>(splitKeywordsToTerms(keywords))
+  const [sortOrder, setSortOrder] = useState<MessageSearchSortOrder>('relevance')
+  const [role, setRole] = useState<RoleFilter>('all')
+  const [assistantId, setAssistantId] = useState<string>()
+  const [modelId, setModelId] = useState<string>()
+  const [dateRange, setDateRange] = useState<[Dayjs | null, Dayjs | null] | null>(null)
+  const [modelIds, setModelIds] = useState<string[]>([])
 
-  const topics = useLiveQuery(() => db.topics.toArray(), [])
   // FIXME: db 中没有 topic.name 等信息，只能从 store 获取
   const storeTopicsMap = useSelector(selectTopicsMap)
 
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  const [highlightRegex, setHighlightRegex] = useState<RegExp | null>(null)
   const [searchStats, setSearchStats] = useState({ count: 0, time: 0 })
   const [isLoading, setIsLoading] = useState(false)
+  const [indexProgress, setIndexProgress] = useState<MessageSearchIndexProgress | null>(null)
 
   const onSearch = useCallback(async () => {
     setSearchResults([])
-    setIsLoading(true)
 
     if (keywords.length === 0) {
       setSearchStats({ count: 0, time: 0 })
-      setSearchTerms([])
-      setIsLoading(false)
+      setHighlightRegex(null)
       return
     }
 
+    setIsLoading(true)
     const startTime = performance.now()
-    const newSearchTerms = splitKeywordsToTerms(keywords)
-    const searchRegexes = buildKeywordRegexes(newSearchTerms, { matchMode, flags: 'i' })
-
-    const blocks = (await db.message_blocks.toArray())
-      .filter((block) => block.type === MessageBlockType.MAIN_TEXT)
-      .filter((block) => {
-        const searchableContent = stripMarkdownFormatting(block.content)
-        return searchRegexes.some((regex) => regex.test(searchableContent))
+    const [start, end] = dateRange ?? [null, null]
+
+    try {
+      const response = await searchMessages(
+        keywords,
+        {
+          assistantId,
+          modelId,
+          role: role === 'all' ? undefined : role,
+          createdAfter: start?.startOf('day').toISOString(),
+          createdBefore: end?.endOf('day').toISOString()
+        },
+        { sortOrder }
+      )
+
+      const results = response.results.flatMap(({ message, snippet }) => {
+        const topic = storeTopicsMap.get(message.topicId)
+        return topic ? [{ message, topic, snippet }] : []
       })
 
-    const messages = topics?.flatMap((topic) => topic.messages)
-
-    const results = await Promise.all(
-      blocks.map(async (block) => {
-        const message = messages?.find((message) => message.id === block.messageId)
-        if (message) {
-          const topic = storeTopicsMap.get(message.topicId)
-          if (topic) {
-            return {
-              message,
-              topic,
-              content: block.content,
-              snippet: buildSearchSnippet(block.content, newSearchTerms, matchMode)
-            }
-          }
-        }
-        return null
+      setSearchResults(results)
+      setHighlightRegex(response.highlightRegex)
+      setSearchStats({
+        count: results.length,
+        time: (performance.now() - startTime) / 1000
       })
-    ).then((results) => results.filter(Boolean) as SearchResult[])
-
-    const endTime = performance.now()
-    setSearchResults(results)
-    setSearchStats({
-      count: results.length,
-      time: (endTime - startTime) / 1000
-    })
-    setSearchTerms(newSearchTerms)
-    setIsLoading(false)
-  }, [keywords, matchMode, storeTopicsMap, topics])
-
-  const sortedSearchResults = useMemo(() => {
-    const results = [...searchResults]
-    results.sort((a, b) => {
-      const timeA = Date.parse(a.message.createdAt) || 0
-      const timeB = Date.parse(b.message.createdAt) || 0
-      if (timeA !== timeB) {
-        return sortOrder === 'newest' ? timeB - timeA : timeA - timeB
-      }
-      return a.message.id.localeCompare(b.message.id)
-    })
-    return results
-  }, [searchResults, sortOrder])
-
-  const highlightText = (text: string) => {
-    const highlightRegex = buildKeywordUnionRegex(searchTerms, { matchMode, flags: 'gi' })
-    if (!highlightRegex) {
-      return <span dangerouslySetInnerHTML={{ __html: text }} />
+    } catch (error) {
+      logger.error('Failed to search messages', error as Error)
+    } finally {
+      setIndexProgress(null)
+      setIsLoading(false)
     }
-    const highlightedText = text.replace(highlightRegex, (match) => `<mark>${match}</mark>`)
-    return <span dangerouslySetInnerHTML={{ __html: highlightedText }} />
-  }
+  }, [assistantId, dateRange, keywords, modelId, role, sortOrder, storeTopicsMap])
+
+  const highlightText = (text: string) =>
+    splitHighlights(text, highlightRegex).map((segment, index) =>
+      segment.highlighted ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>
+    )
 
   useEffect(() => {
     onSearch()
   }, [onSearch])
 
+  useEffect(() => {
+    const unsubscribe = EventEmitter.on(EVENT_NAMES.MESSAGE_SEARCH_INDEX_PROGRESS, (progress) => {
+      setIndexProgress(progress as MessageSearchIndexProgress)
+    })
+    getIndexedModelIds()
+      .then(setModelIds)
+      .catch((error) => logger.warn('Failed to load indexed models', error as Error))
+    return unsubscribe
+  }, [])
+
   useEffect(() => {
     if (!containerRef.current) return
 
@@ -297,14 +137,18 @@ const SearchResults: FC<Props> = ({ keywords, onMessageClick, onTopicClick, ...p
 
   return (
     <Container ref={containerRef} {...props} onScroll={handleScroll}>
-      <Spin spinning={isLoading} indicator={<LoadingIcon color="var(--color-text-2)" />}>
+      <Spin
+        spinning={isLoading}
+        indicator={<LoadingIcon color="var(--color-text-2)" />}
+        tip={indexProgress ? t('history.search.indexing', { ...indexProgress }) : undefined}>
         <SearchToolbar>
           <Segmented
             shape="round"
             size="small"
             value={sortOrder}
-            onChange={(value) => setSortOrder(value as ResultSortOrder)}
+            onChange={(value) => setSortOrder(value as MessageSearchSortOrder)}
             options={[
+              { label: t('history.search.sort.relevance'), value: 'relevance' },
               { label: t('history.search.sort.newest'), value: 'newest' },
               { label: t('history.search.sort.oldest'), value: 'oldest' }
             ]}
@@ -312,22 +156,53 @@ const SearchResults: FC<Props> = ({ keywords, onMessageClick, onTopicClick, ...p
           <Segmented
             shape="round"
             size="small"
-            value={matchMode}
-            onChange={(value) => setMatchMode(value as KeywordMatchMode)}
+            value={role}
+            onChange={(value) => setRole(value as RoleFilter)}
             options={[
-              { label: t('history.search.match.whole_word'), value: 'whole-word' },
-              { label: t('history.search.match.substring'), value: 'substring' }
+              { label: t('history.search.filter.role.all'), value: 'all' },
+              { label: t('history.search.filter.role.user'), value: 'user' },
+              { label: t('history.search.filter.role.assistant'), value: 'assistant' }
             ]}
           />
         </SearchToolbar>
-        {sortedSearchResults.length > 0 && (
+        <SearchToolbar>
+          <Select
+            size="small"
+            allowClear
+            showSearch
+            optionFilterProp="label"
+            placeholder={t('history.search.filter.assistant')}
+            options={assistants.map((assistant) => ({ label: assistant.name, value: assistant.id }))}
+            value={assistantId}
+            onChange={setAssistantId}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <Select
+            size="small"
+            allowClear
+            showSearch
+            placeholder={t('history.search.filter.model')}
+            options={modelIds.map((id) => ({ label: id, value: id }))}
+            value={modelId}
+            onChange={setModelId}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <DatePicker.RangePicker
+            size="small"
+            allowEmpty={[true, true]}
+            value={dateRange}
+            onChange={(range) => setDateRange(range)}
+            style={{ flex: 2, minWidth: 0 }}
+          />
+        </SearchToolbar>
+        {searchResults.length > 0 && (
           <SearchStats>
-            Found {searchStats.count} results in {searchStats.time.toFixed(3)} seconds
+            {t('history.search.stats', { count: searchStats.count, time: searchStats.time.toFixed(3) })}
           </SearchStats>
         )}
         <List
           itemLayout="vertical"
-          dataSource={sortedSearchResults}
+          dataSource={searchResults}
           pagination={{
             pageSize: 10,
             hideOnSinglePage: true
@@ -28,7 +28,9 @@ import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
 import FileManager from '@renderer/services/FileManager'
 import { checkRateLimit, getUserMessage } from '@renderer/services/MessagesService'
 import { spanManagerService } from '@renderer/services/SpanManagerService'
-import { estimateTextTokens as estimateTxtTokens, estimateUserPromptUsage } from '@renderer/services/TokenService'
+import { TOKENIZER_NAMES } from '@renderer/services/TokenizerRegistry'
+import { tokenizerService } from '@renderer/services/TokenizerService'
+import { countTextTokens, estimateUserPromptUsage } from '@renderer/services/TokenService'
 import WebSearchService from '@renderer/services/WebSearchService'
 import { useAppDispatch, useAppSelector } from '@renderer/store'
 import { sendMessage as _sendMessage } from '@renderer/store/thunk/messageThunk'
@@ -292,12 +294,15 @@ const InputbarInner: FC<InputbarInnerProps> = ({ assistant: initialAssistant, se
       return undefined
     }
 
+    const tokenizerFamily = tokenizerService.getFamily(model)
+
     return {
       estimateTokenCount,
       inputTokenCount: estimateTokenCount,
-      contextCount
+      contextCount,
+      tokenizer: { name: TOKENIZER_NAMES[tokenizerFamily], exact: tokenizerService.isExact(model) }
     }
-  }, [config.showTokenCount, contextCount, estimateTokenCount, showInputEstimatedTokens])
+  }, [config.showTokenCount, contextCount, estimateTokenCount, model, showInputEstimatedTokens])
 
   const onPause = useCallback(async () => {
     await pauseMessages()
@@ -403,16 +408,23 @@ const InputbarInner: FC<InputbarInnerProps> = ({ assistant: initialAssistant, se
   }, [addNewTopic])
 
   useEffect(() => {
-    const debouncedEstimate = debounce((value: string) => {
+    let cancelled = false
+    const debouncedEstimate = debounce(async (value: string) => {
       if (showInputEstimatedTokens) {
-        const count = estimateTxtTokens(value) || 0
-        setEstimateTokenCount(count)
+        const count = (await countTextTokens(value, model)) || 0
+        // 分词在 Worker 中异步完成，输入已变化时丢弃旧结果
+        if (!cancelled) {
+          setEstimateTokenCount(count)
+        }
       }
     }, 500)
 
     debouncedEstimate(text)
-    return () => debouncedEstimate.cancel()
-  }, [showInputEstimatedTokens, text])
+    return () => {
+      cancelled = true
+      debouncedEstimate.cancel()
+    }
+  }, [model, showInputEstimatedTokens, text])
 
   useEffect(() => {
     if (!document.querySelector('.topview-fullscreen-container')) {
@@ -488,6 +500,7 @@ const InputbarInner: FC<InputbarInnerProps> = ({ assistant: initialAssistant, se
           estimateTokenCount={tokenCountProps.estimateTokenCount}
           inputTokenCount={tokenCountProps.inputTokenCount}
           contextCount={tokenCountProps.contextCount}
+          tokenizer={tokenCountProps.tokenizer}
           onClick={onNewContext}
         />
       )}
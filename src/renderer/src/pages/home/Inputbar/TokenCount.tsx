@@ -11,9 +11,10 @@ type Props = {
   estimateTokenCount: number
   inputTokenCount: number
   contextCount: { current: number; max: number }
+  tokenizer?: { name: string; exact: boolean }
 } & React.HTMLAttributes<HTMLDivElement>
 
-const TokenCount: FC<Props> = ({ estimateTokenCount, inputTokenCount, contextCount }) => {
+const TokenCount: FC<Props> = ({ estimateTokenCount, inputTokenCount, contextCount, tokenizer }) => {
   const { t } = useTranslation()
   const { showInputEstimatedTokens } = useSettings()
 
@@ -39,6 +40,16 @@ const TokenCount: FC<Props> = ({ estimateTokenCount, inputTokenCount, contextCou
           <Text>{t('chat.input.estimated_tokens.tip')}</Text>
           <Text>{estimateTokenCount}</Text>
         </HStack>
+        {tokenizer && (
+          <HStack justifyContent="space-between" w="100%">
+            <Text>{t('chat.input.estimated_tokens.tokenizer')}</Text>
+            <Text>
+              {tokenizer.exact
+                ? tokenizer.name
+                : t('chat.input.estimated_tokens.approximate', { name: tokenizer.name })}
+            </Text>
+          </HStack>
+        )}
       </VStack>
     )
   }
@@ -0,0 +1,14 @@
+import { defineTool, registerTool, TopicType } from '@renderer/pages/home/Inputbar/types'
+
+import CompactContextButton from './components/CompactContextButton'
+
+const compactContextTool = defineTool({
+  key: 'compact_context',
+  label: (t) => t('chat.input.compact.label'),
+  visibleInScopes: [TopicType.Chat],
+  render: () => <CompactContextButton />
+})
+
+registerTool(compactContextTool)
+
+export default compactContextTool
@@ -0,0 +1,24 @@
+import { ActionIconButton } from '@renderer/components/Buttons'
+import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
+import { Tooltip } from 'antd'
+import { Package } from 'lucide-react'
+import type { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const CompactContextButton: FC = () => {
+  const { t } = useTranslation()
+
+  const onCompactContext = () => {
+    EventEmitter.emit(EVENT_NAMES.COMPACT_CONTEXT)
+  }
+
+  return (
+    <Tooltip placement="top" title={t('chat.input.compact.label')} mouseLeaveDelay={0} arrow>
+      <ActionIconButton onClick={onCompactContext} aria-label={t('chat.input.compact.label')}>
+        <Package size={18} />
+      </ActionIconButton>
+    </Tooltip>
+  )
+}
+
+export default CompactContextButton
@@ -3,17 +3,18 @@ import type { QuickPanelListItem } from '@renderer/components/QuickPanel'
 import { QuickPanelReservedSymbol, useQuickPanel } from '@renderer/components/QuickPanel'
 import { isGeminiModel } from '@renderer/config/models'
 import { useAssistant } from '@renderer/hooks/useAssistant'
-import { useMCPServers } from '@renderer/hooks/useMCPServers'
+import { useMCPProfiles, useMCPServers } from '@renderer/hooks/useMCPServers'
 import { useTimer } from '@renderer/hooks/useTimer'
 import type { ToolQuickPanelApi } from '@renderer/pages/home/Inputbar/types'
 import { getProviderByModel } from '@renderer/services/AssistantService'
 import { EventEmitter } from '@renderer/services/EventService'
+import { useAppSelector } from '@renderer/store'
 import type { McpMode, MCPPrompt, MCPResource, MCPServer } from '@renderer/types'
 import { getEffectiveMcpMode } from '@renderer/types'
 import { isToolUseModeFunction } from '@renderer/utils/assistant'
 import { isGeminiWebSearchProvider, isSupportUrlContextProvider } from '@renderer/utils/provider'
 import { Form, Input, Tooltip } from 'antd'
-import { CircleX, Hammer, Plus, Sparkles } from 'lucide-react'
+import { CircleX, Hammer, Layers, Plus, Sparkles, Undo2 } from 'lucide-react'
 import type { FC } from 'react'
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
@@ -106,12 +107,18 @@ const extractPromptContent = (response: any): string | null => {
 
 const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea, assistantId }) => {
   const { activedMcpServers } = useMCPServers()
+  const { profiles } = useMCPProfiles()
   const { t } = useTranslation()
   const quickPanelHook = useQuickPanel()
   const navigate = useNavigate()
   const [form] = Form.useForm()
 
-  const { assistant, updateAssistant } = useAssistant(assistantId)
+  const { assistant, updateAssistant, updateTopic } = useAssistant(assistantId)
+  const activeTopicId = useAppSelector((state) => state.runtime.chat.activeTopic?.id)
+  const topic = useMemo(
+    () => assistant.topics.find((item) => item.id === activeTopicId),
+    [assistant.topics, activeTopicId]
+  )
   const model = assistant.model
   const { setTimeoutTimer } = useTimer()
 
@@ -124,6 +131,20 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
   }, [])
 
   const currentMode = useMemo(() => getEffectiveMcpMode(assistant), [assistant])
+  // 话题选择的配置覆盖助手的 MCP 模式
+  const topicProfile = useMemo(
+    () => profiles.find((profile) => profile.id === topic?.mcpProfileId),
+    [profiles, topic?.mcpProfileId]
+  )
+
+  const setTopicProfile = useCallback(
+    (mcpProfileId?: string) => {
+      if (topic && topic.mcpProfileId !== mcpProfileId) {
+        updateTopic({ ...topic, mcpProfileId })
+      }
+    },
+    [topic, updateTopic]
+  )
 
   const mcpServers = useMemo(() => assistant.mcpServers || [], [assistant.mcpServers])
   const assistantMcpServers = useMemo(
@@ -140,11 +161,12 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
             ...assistant,
             mcpMode: mode
           })
+          setTopicProfile(undefined)
         },
         200
       )
     },
-    [assistant, setTimeoutTimer, updateAssistant]
+    [assistant, setTimeoutTimer, setTopicProfile, updateAssistant]
   )
 
   const handleMcpServerSelect = useCallback(
@@ -170,8 +192,9 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
 
       update.mcpMode = 'manual'
       updateAssistant(update)
+      setTopicProfile(undefined)
     },
-    [assistant, assistantMcpServers, mcpServers, model, t, updateAssistant]
+    [assistant, assistantMcpServers, mcpServers, model, setTopicProfile, t, updateAssistant]
   )
 
   const handleMcpServerSelectRef = useRef(handleMcpServerSelect)
@@ -213,14 +236,56 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
     })
   }, [manualModeMenuItems, quickPanelHook, t])
 
+  const profileMenuItems = useMemo(() => {
+    const newList: QuickPanelListItem[] = profiles.map((profile) => ({
+      label: profile.name,
+      description: profile.description,
+      icon: <Layers />,
+      isSelected: topicProfile?.id === profile.id,
+      action: () => {
+        setTopicProfile(profile.id)
+        quickPanelHook.close()
+      }
+    }))
+
+    if (topicProfile) {
+      newList.push({
+        label: t('chat.mcp.profile.follow_assistant'),
+        icon: <Undo2 />,
+        action: () => {
+          setTopicProfile(undefined)
+          quickPanelHook.close()
+        }
+      })
+    }
+
+    newList.push({
+      label: t('settings.mcp.profiles.add') + '...',
+      icon: <Plus />,
+      action: () => navigate('/settings/mcp/profiles')
+    })
+
+    return newList
+  }, [profiles, topicProfile, setTopicProfile, quickPanelHook, t, navigate])
+
+  const openProfilePanel = useCallback(() => {
+    quickPanelHook.open({
+      title: t('chat.mcp.profile.title'),
+      list: profileMenuItems,
+      symbol: QuickPanelReservedSymbol.Mcp,
+      multiple: false
+    })
+  }, [profileMenuItems, quickPanelHook, t])
+
   const menuItems = useMemo(() => {
     const newList: QuickPanelListItem[] = []
+    const modeSelected = (mode: McpMode) => !topicProfile && currentMode === mode
 
     newList.push({
       label: t('assistants.settings.mcp.mode.disabled.label'),
       description: t('assistants.settings.mcp.mode.disabled.description'),
       icon: <CircleX />,
-      isSelected: currentMode === 'disabled',
+      isSelected: modeSelected('disabled'),
       action: () => {
         handleModeChange('disabled')
         quickPanelHook.close()
@@ -231,7 +296,7 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
       label: t('assistants.settings.mcp.mode.auto.label'),
       description: t('assistants.settings.mcp.mode.auto.description'),
       icon: <Sparkles />,
-      isSelected: currentMode === 'auto',
+      isSelected: modeSelected('auto'),
       action: () => {
         handleModeChange('auto')
         quickPanelHook.close()
@@ -242,7 +307,7 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
       label: t('assistants.settings.mcp.mode.manual.label'),
       description: t('assistants.settings.mcp.mode.manual.description'),
       icon: <Hammer />,
-      isSelected: currentMode === 'manual',
+      isSelected: modeSelected('manual'),
       isMenu: true,
       action: () => {
         handleModeChange('manual')
@@ -250,8 +315,19 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
       }
     })
 
+    if (topic) {
+      newList.push({
+        label: t('chat.mcp.profile.title'),
+        description: topicProfile ? topicProfile.name : t('chat.mcp.profile.description'),
+        icon: <Layers />,
+        isSelected: !!topicProfile,
+        isMenu: true,
+        action: () => openProfilePanel()
+      })
+    }
+
     return newList
-  }, [t, currentMode, handleModeChange, quickPanelHook, openManualModePanel])
+  }, [t, topic, topicProfile, currentMode, handleModeChange, quickPanelHook, openManualModePanel, openProfilePanel])
 
   const openQuickPanel = useCallback(() => {
     quickPanelHook.open({
@@ -540,12 +616,17 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
     }
   }, [openPromptList, openQuickPanel, openResourcesList, quickPanel, t])
 
-  const isActive = currentMode !== 'disabled'
+  const isActive = !!topicProfile || currentMode !== 'disabled'
 
   const getButtonIcon = () => {
+    if (topicProfile) {
+      return <Layers size={18} />
+    }
     switch (currentMode) {
       case 'auto':
         return <Sparkles size={18} />
+      case 'profile':
+        return <Layers size={18} />
       case 'disabled':
       case 'manual':
       default:
@@ -554,7 +635,11 @@ const MCPToolsButton: FC<Props> = ({ quickPanel, setInputValue, resizeTextArea,
   }
 
   return (
-    <Tooltip placement="top" title={t('settings.mcp.title')} mouseLeaveDelay={0} arrow>
+    <Tooltip
+      placement="top"
+      title={topicProfile ? `${t('settings.mcp.title')}: ${topicProfile.name}` : t('settings.mcp.title')}
+      mouseLeaveDelay={0}
+      arrow>
       <ActionIconButton onClick={handleOpenQuickPanel} active={isActive} aria-label={t('settings.mcp.title')}>
         {getButtonIcon()}
       </ActionIconButton>
@@ -1,4 +1,5 @@
 import Favicon from '@renderer/components/Icons/FallbackFavicon'
+import { formatChunkLocation, openKnowledgeSource, resolveKnowledgeSourcePath } from '@renderer/utils/knowledgeSource'
 import { Tooltip } from 'antd'
 import React, { memo, useCallback, useMemo } from 'react'
 import styled from 'styled-components'
@@ -7,12 +8,36 @@ import * as z from 'zod'
 export const CitationSchema = z.object({
   url: z.url(),
   title: z.string().optional(),
-  content: z.string().optional()
+  content: z.string().optional(),
+  // 知识库引用的原文路径和出处
+  source: z.string().optional(),
+  location: z
+    .object({
+      page: z.number().optional(),
+      lineFrom: z.number().optional(),
+      lineTo: z.number().optional(),
+      chapter: z.string().optional()
+    })
+    .optional()
 })
 
+export type CitationData = z.infer<typeof CitationSchema>
+
+/**
+ * 打开引用：能定位到本地文件的知识库引用在内置预览中打开，其余在浏览器中打开
+ */
+export function openCitation(citation: CitationData) {
+  const path = citation.location && resolveKnowledgeSourcePath(citation.url, citation.source)
+  if (path) {
+    void openKnowledgeSource(path, citation.title || path, citation.location)
+    return
+  }
+  window.open(citation.url, '_blank', 'noopener,noreferrer')
+}
+
 interface CitationTooltipProps {
   children: React.ReactNode
-  citation: z.infer<typeof CitationSchema>
+  citation: CitationData
 }
 
 const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation }) => {
@@ -28,9 +53,11 @@ const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation })
     return citation.title?.trim() || hostname
   }, [citation.title, hostname])
 
+  const locationText = useMemo(() => formatChunkLocation(citation.location), [citation.location])
+
   const handleClick = useCallback(() => {
-    window.open(citation.url, '_blank', 'noopener,noreferrer')
-  }, [citation.url])
+    openCitation(citation)
+  }, [citation])
 
   // 自定义悬浮卡片内容
   const tooltipContent = useMemo(
@@ -48,11 +75,11 @@ const CitationTooltip: React.FC<CitationTooltipProps> = ({ children, citation })
           </TooltipBody>
         )}
         <TooltipFooter role="button" aria-label={`Visit ${hostname}`} onClick={handleClick}>
-          {hostname}
+          {locationText || hostname}
         </TooltipFooter>
       </div>
     ),
-    [citation.content, hostname, handleClick, sourceTitle]
+    [citation.content, hostname, handleClick, locationText, sourceTitle]
   )
 
   return (
@@ -4,7 +4,7 @@ import { isEmpty, omit } from 'lodash'
 import React, { useMemo } from 'react'
 import type { Node } from 'unist'
 
-import CitationTooltip, { CitationSchema } from './CitationTooltip'
+import CitationTooltip, { CitationSchema, openCitation } from './CitationTooltip'
 import Hyperlink from './Hyperlink'
 
 interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
@@ -40,7 +40,14 @@ const Link: React.FC<LinkProps> = (props) => {
           href={isEmpty(props.href) ? undefined : props.href}
           target="_blank"
           rel="noreferrer"
-          onClick={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation()
+            // 带出处的知识库引用在内置预览中打开
+            if (citationData.location) {
+              e.preventDefault()
+              openCitation(citationData)
+            }
+          }}
         />
       </CitationTooltip>
     )
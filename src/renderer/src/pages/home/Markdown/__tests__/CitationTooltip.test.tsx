@@ -6,6 +6,13 @@ import CitationTooltip from '../CitationTooltip'
 
 // Mock dependencies
 const mockWindowOpen = vi.fn()
+const mockOpenKnowledgeSource = vi.fn()
+
+vi.mock('@renderer/utils/knowledgeSource', () => ({
+  formatChunkLocation: (location?: { page?: number }) => (location?.page ? `Page ${location.page}` : ''),
+  openKnowledgeSource: (...args: any[]) => mockOpenKnowledgeSource(...args),
+  resolveKnowledgeSourcePath: (_url: string, source?: string) => source
+}))
 
 vi.mock('@renderer/components/Icons/FallbackFavicon', () => ({
   __esModule: true,
@@ -262,6 +269,23 @@ describe('CitationTooltip', () => {
 
       expectWindowOpenCalled('invalid-url')
     })
+
+    it('should open knowledge citations at their location', async () => {
+      const user = userEvent.setup()
+      const citation = createCitationData({
+        url: 'http://file/abc.pdf',
+        title: 'manual.pdf',
+        source: '/files/abc.pdf',
+        location: { page: 12 }
+      })
+      renderCitationTooltip(citation)
+
+      expect(getCitationFooterButton()).toHaveTextContent('Page 12')
+      await user.click(getCitationFooterButton())
+
+      expect(mockOpenKnowledgeSource).toHaveBeenCalledWith('/files/abc.pdf', 'manual.pdf', { page: 12 })
+      expect(mockWindowOpen).not.toHaveBeenCalled()
+    })
   })
 
   describe('real-world usage scenarios', () => {
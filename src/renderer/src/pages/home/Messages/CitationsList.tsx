@@ -3,8 +3,10 @@ import Favicon from '@renderer/components/Icons/FallbackFavicon'
 import Scrollbar from '@renderer/components/Scrollbar'
 import { useTemporaryValue } from '@renderer/hooks/useTemporaryValue'
 import type { Citation } from '@renderer/types'
+import { getKnowledgeChunkLocation } from '@renderer/types'
 import { fetchWebContent } from '@renderer/utils/fetch'
 import { cleanMarkdownContent } from '@renderer/utils/formats'
+import { formatChunkLocation, openKnowledgeSource, resolveKnowledgeSourcePath } from '@renderer/utils/knowledgeSource'
 import { QueryClient, QueryClientProvider, useQuery } from '@tanstack/react-query'
 import { Button, message, Popover, Skeleton } from 'antd'
 import { Check, Copy, FileSearch } from 'lucide-react'
@@ -173,15 +175,28 @@ const WebSearchCitation: React.FC<{ citation: Citation }> = ({ citation }) => {
 }
 
 const KnowledgeCitation: React.FC<{ citation: Citation }> = ({ citation }) => {
+  const location = getKnowledgeChunkLocation(citation.metadata)
+
+  const handleClick = (event: React.MouseEvent) => {
+    const path = location && resolveKnowledgeSourcePath(citation.url, citation.metadata?.source)
+    if (!path) {
+      handleLinkClick(citation.url, event)
+      return
+    }
+    event.preventDefault()
+    void openKnowledgeSource(path, citation.title || path, location)
+  }
+
   return (
     <ContextMenu>
       <WebSearchCard>
         <WebSearchCardHeader>
           {citation.showFavicon && <FileSearch width={16} />}
-          <CitationLink className="text-nowrap" href={citation.url} onClick={(e) => handleLinkClick(citation.url, e)}>
+          <CitationLink className="text-nowrap" href={citation.url} onClick={handleClick}>
             {/* example title: User/path/example.pdf */}
             {citation.title?.split('/').pop()}
           </CitationLink>
+          {location && <CitationLocation>{formatChunkLocation(location)}</CitationLocation>}
           <CitationIndex>{citation.number}</CitationIndex>
           {citation.content && <CopyButton content={citation.content} />}
         </WebSearchCardHeader>
@@ -225,6 +240,13 @@ const PreviewIcon = styled.div`
   }
 `
 
+const CitationLocation = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+  white-space: nowrap;
+  flex-shrink: 0;
+`
+
 const CitationIndex = styled.div`
   width: 14px;
   height: 14px;
@@ -23,6 +23,8 @@ import React, { memo, useCallback, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import MessageBlockRenderer from './Blocks'
+import MessageBranchSwitcher from './MessageBranchSwitcher'
 import MessageContent from './MessageContent'
 import MessageEditor from './MessageEditor'
 import MessageErrorBoundary from './MessageErrorBoundary'
@@ -43,6 +45,8 @@ interface Props {
   onSetMessages?: Dispatch<SetStateAction<Message[]>>
   onUpdateUseful?: (msgId: string) => void
   isGroupContextMessage?: boolean
+  // 分叉处的兄弟分支，包含当前消息
+  branchSiblings?: Message[]
 }
 
 const logger = loggerService.withContext('MessageItem')
@@ -65,7 +69,8 @@ const MessageItem: FC<Props> = ({
   hideMenuBar = false,
   isGrouped,
   onUpdateUseful,
-  isGroupContextMessage
+  isGroupContextMessage,
+  branchSiblings
 }) => {
   const { t } = useTranslation()
   const { assistant, setModel } = useAssistant(message.assistantId)
@@ -185,6 +190,14 @@ const MessageItem: FC<Props> = ({
     )
   }
 
+  if (message.type === 'compact') {
+    return (
+      <CompactContextMessage className="compact-context-message">
+        <MessageBlockRenderer blocks={message.blocks} message={message} />
+      </CompactContextMessage>
+    )
+  }
+
   return (
     <WrapperContainer isMultiSelectMode={isMultiSelectMode}>
       <MessageContainer
@@ -250,6 +263,9 @@ const MessageItem: FC<Props> = ({
                     setModel={setModel}
                     onUpdateUseful={onUpdateUseful}
                   />
+                  {branchSiblings && branchSiblings.length > 1 && (
+                    <MessageBranchSwitcher message={message} siblings={branchSiblings} topic={topic} />
+                  )}
                 </HorizontalScrollContainer>
               </MessageFooter>
             )}
@@ -303,6 +319,10 @@ const MessageFooter = styled.div`
   margin-top: 3px;
 `
 
+const CompactContextMessage = styled.div`
+  padding: 0 20px;
+`
+
 const NewContextMessage = styled.div<{ isMultiSelectMode: boolean }>`
   cursor: pointer;
   flex: 1;
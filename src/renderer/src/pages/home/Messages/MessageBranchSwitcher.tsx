@@ -0,0 +1,83 @@
+import { useMessageOperations } from '@renderer/hooks/useMessageOperations'
+import type { Topic } from '@renderer/types'
+import type { Message } from '@renderer/types/newMessage'
+import { Tooltip } from 'antd'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { FC } from 'react'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+interface Props {
+  message: Message
+  siblings: Message[]
+  topic: Topic
+}
+
+/**
+ * 分叉处的 "< 2/3 >" 分支切换器
+ */
+const MessageBranchSwitcher: FC<Props> = ({ message, siblings, topic }) => {
+  const { t } = useTranslation()
+  const { switchMessageBranch } = useMessageOperations(topic)
+  const index = siblings.findIndex((sibling) => sibling.id === message.id)
+
+  if (index === -1) {
+    return null
+  }
+
+  const previous = siblings[index - 1]
+  const next = siblings[index + 1]
+
+  return (
+    <Container className="message-branch-switcher">
+      <Tooltip title={t('chat.message.branch.previous')} mouseEnterDelay={0.8}>
+        <SwitchButton $disabled={!previous} onClick={() => previous && switchMessageBranch(previous)}>
+          <ChevronLeft size={14} />
+        </SwitchButton>
+      </Tooltip>
+      <Position>
+        {index + 1}/{siblings.length}
+      </Position>
+      <Tooltip title={t('chat.message.branch.next')} mouseEnterDelay={0.8}>
+        <SwitchButton $disabled={!next} onClick={() => next && switchMessageBranch(next)}>
+          <ChevronRight size={14} />
+        </SwitchButton>
+      </Tooltip>
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: row;
+  align-items: center;
+  gap: 2px;
+  color: var(--color-text-3);
+  user-select: none;
+`
+
+const Position = styled.span`
+  min-width: 28px;
+  font-size: 12px;
+  text-align: center;
+  font-variant-numeric: tabular-nums;
+`
+
+const SwitchButton = styled.div<{ $disabled: boolean }>`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 22px;
+  height: 22px;
+  border-radius: 6px;
+  cursor: ${(props) => (props.$disabled ? 'not-allowed' : 'pointer')};
+  opacity: ${(props) => (props.$disabled ? 0.4 : 1)};
+  transition: all 0.2s ease;
+  &:hover {
+    background-color: ${(props) => (props.$disabled ? 'transparent' : 'var(--color-background-mute)')};
+    color: var(--color-text-1);
+  }
+`
+
+export default memo(MessageBranchSwitcher)
@@ -24,9 +24,11 @@ interface Props {
   messages: (Message & { index: number })[]
   topic: Topic
   registerMessageElement?: (id: string, element: HTMLElement | null) => void
+  // 对话树中分叉处的兄弟分支，key 为消息 ID
+  branchSiblingsById?: Record<string, Message[]>
 }
 
-const MessageGroup = ({ messages, topic, registerMessageElement }: Props) => {
+const MessageGroup = ({ messages, topic, registerMessageElement, branchSiblingsById }: Props) => {
   const messageLength = messages.length
 
   // Hooks
@@ -201,7 +203,8 @@ const MessageGroup = ({ messages, topic, registerMessageElement }: Props) => {
         isGrouped,
         message,
         topic,
-        index: message.index
+        index: message.index,
+        branchSiblings: branchSiblingsById?.[message.id]
       } satisfies ComponentProps<typeof MessageItem>
 
       const messageContent = (
@@ -260,7 +263,8 @@ const MessageGroup = ({ messages, topic, registerMessageElement }: Props) => {
       selectedMessageId,
       onUpdateUseful,
       groupContextMessageId,
-      gridPopoverTrigger
+      gridPopoverTrigger,
+      branchSiblingsById
     ]
   )
 
@@ -1,6 +1,7 @@
 // import { useRuntime } from '@renderer/hooks/useRuntime'
 import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
 import type { Message } from '@renderer/types/newMessage'
+import { getCurrencySymbol, getMessageCost } from '@renderer/utils/cost'
 import { Popover } from 'antd'
 import { t } from 'i18next'
 import styled from 'styled-components'
@@ -16,37 +17,13 @@ const MessageTokens: React.FC<MessageTokensProps> = ({ message }) => {
     EventEmitter.emit(EVENT_NAMES.LOCATE_MESSAGE + ':' + message.id, false)
   }
 
-  const getPrice = () => {
-    const inputTokens = message?.usage?.prompt_tokens ?? 0
-    const outputTokens = message?.usage?.completion_tokens ?? 0
-    const model = message.model
-
-    // For OpenRouter, use the cost directly from usage if available
-    if (model?.provider === 'openrouter' && message?.usage?.cost !== undefined) {
-      return message.usage.cost
-    }
-
-    if (!model || model.pricing?.input_per_million_tokens === 0 || model.pricing?.output_per_million_tokens === 0) {
-      return 0
-    }
-    return (
-      (inputTokens * (model.pricing?.input_per_million_tokens ?? 0) +
-        outputTokens * (model.pricing?.output_per_million_tokens ?? 0)) /
-      1000000
-    )
-  }
-
   const getPriceString = () => {
-    const price = getPrice()
-    if (price === 0) {
-      return ''
-    }
-    // For OpenRouter, always show cost even without pricing config
-    const shouldShowCost = message.model?.provider === 'openrouter' || price > 0
-    if (!shouldShowCost) {
+    // For OpenRouter the cost comes from usage, otherwise it is computed from the model's pricing
+    const price = getMessageCost(message) ?? 0
+    if (price <= 0) {
       return ''
     }
-    const currencySymbol = message.model?.pricing?.currencySymbol || '$'
+    const currencySymbol = getCurrencySymbol(message.model)
     return `| ${t('models.price.cost')}: ${currencySymbol}${price.toFixed(6)}`
   }
 
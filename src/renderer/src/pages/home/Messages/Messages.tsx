@@ -15,7 +15,11 @@ import { estimateHistoryTokens } from '@renderer/services/TokenService'
 import store, { useAppDispatch } from '@renderer/store'
 import { messageBlocksSelectors, updateOneBlock } from '@renderer/store/messageBlock'
 import { newMessagesActions } from '@renderer/store/newMessage'
-import { saveMessageAndBlocksToDB, updateMessageAndBlocksThunk } from '@renderer/store/thunk/messageThunk'
+import {
+  compactTopicContextThunk,
+  saveMessageAndBlocksToDB,
+  updateMessageAndBlocksThunk
+} from '@renderer/store/thunk/messageThunk'
 import type { Assistant, Topic } from '@renderer/types'
 import type { MessageBlock } from '@renderer/types/newMessage'
 import { type Message, MessageBlockType } from '@renderer/types/newMessage'
@@ -25,7 +29,9 @@ import {
   removeSpecialCharactersForFileName,
   runAsyncFunction
 } from '@renderer/utils'
+import { formatErrorMessageWithPrefix } from '@renderer/utils/error'
 import { updateCodeBlock } from '@renderer/utils/markdown'
+import { buildMessageTree } from '@renderer/utils/messageUtils/branch'
 import { getMainTextContent } from '@renderer/utils/messageUtils/find'
 import { isTextLikeBlock } from '@renderer/utils/messageUtils/is'
 import { last } from 'lodash'
@@ -75,7 +81,9 @@ const Messages: React.FC<MessagesProps> = ({
   const { showPrompt } = useSettings()
   const { t } = useTranslation()
   const dispatch = useAppDispatch()
-  const messages = useTopicMessages(topic.id)
+  const topicMessages = useTopicMessages(topic.id)
+  // 只展示对话树中当前分支上的消息
+  const { activeMessages: messages, siblingsById } = useMemo(() => buildMessageTree(topicMessages), [topicMessages])
   const { clearTopicMessages, deleteMessage, createTopicBranch } = useMessageOperations(topic)
 
   const { isMultiSelectMode, handleSelectMessage } = useChatContext(topic)
@@ -192,6 +200,7 @@ const Messages: React.FC<MessagesProps> = ({
           }
 
           const { message: clearMessage } = getUserMessage({ assistant, topic, type: 'clear' })
+          clearMessage.parentId = lastMessage?.id ?? null
           dispatch(newMessagesActions.addMessage({ topicId: topic.id, message: clearMessage }))
           await saveMessageAndBlocksToDB(topic.id, clearMessage, [])
 
@@ -200,6 +209,30 @@ const Messages: React.FC<MessagesProps> = ({
           setIsProcessingContext(false)
         }
       }),
+      EventEmitter.on(EVENT_NAMES.COMPACT_CONTEXT, async () => {
+        if (isProcessingContext) return
+        if (store.getState().messages.loadingByTopic[topic.id]) {
+          window.toast.warning(t('chat.input.compact.busy'))
+          return
+        }
+        setIsProcessingContext(true)
+        window.toast.info(t('chat.input.compact.loading'))
+
+        try {
+          const compactMessage = await dispatch(compactTopicContextThunk(topic.id, assistant, true))
+          if (compactMessage) {
+            window.toast.success(t('chat.input.compact.success'))
+            scrollToBottom()
+          } else {
+            window.toast.info(t('chat.input.compact.empty'))
+          }
+        } catch (error) {
+          logger.error('Failed to compact topic context', error as Error)
+          window.toast.error(formatErrorMessageWithPrefix(error, t('chat.input.compact.error')))
+        } finally {
+          setIsProcessingContext(false)
+        }
+      }),
       EventEmitter.on(EVENT_NAMES.NEW_BRANCH, async (index: number) => {
         const newTopic = getDefaultTopic(assistant.id)
         newTopic.name = topic.name
@@ -392,6 +425,7 @@ const Messages: React.FC<MessagesProps> = ({
                 <MessageGroup
                   key={key}
                   messages={groupMessages}
+                  branchSiblingsById={siblingsById}
                   topic={topic}
                   registerMessageElement={registerMessageElement}
                 />
@@ -7,10 +7,11 @@ import Scrollbar from '@renderer/components/Scrollbar'
 import { useKnowledgeBases } from '@renderer/hooks/useKnowledge'
 import { useShortcut } from '@renderer/hooks/useShortcuts'
 import KnowledgeSearchPopup from '@renderer/pages/knowledge/components/KnowledgeSearchPopup'
+import { exportKnowledgeBase, importKnowledgeBase } from '@renderer/services/KnowledgeBundleService'
 import type { KnowledgeBase } from '@renderer/types'
 import type { MenuProps } from 'antd'
 import { Dropdown, Empty } from 'antd'
-import { Book, Plus, Settings } from 'lucide-react'
+import { Book, FileDown, FileUp, Plus, Settings } from 'lucide-react'
 import type { FC } from 'react'
 import { useCallback, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
@@ -33,6 +34,13 @@ const KnowledgePage: FC = () => {
     }
   }, [t])
 
+  const handleImportKnowledge = useCallback(async () => {
+    const newBase = await importKnowledgeBase()
+    if (newBase) {
+      setSelectedBase(newBase)
+    }
+  }, [])
+
   const handleEditKnowledgeBase = useCallback(async (base: KnowledgeBase) => {
     const newBase = await EditKnowledgeBasePopup.show({ base })
     if (newBase && newBase?.id !== base.id) {
@@ -69,6 +77,12 @@ const KnowledgePage: FC = () => {
           icon: <Settings size={14} />,
           onClick: () => handleEditKnowledgeBase(base)
         },
+        {
+          label: t('knowledge.bundle.export'),
+          key: 'export',
+          icon: <FileDown size={14} />,
+          onClick: () => exportKnowledgeBase(base)
+        },
         { type: 'divider' },
         {
           label: t('common.delete'),
@@ -133,6 +147,14 @@ const KnowledgePage: FC = () => {
               </AddKnowledgeName>
             </AddKnowledgeItem>
           )}
+          {!isDragging && (
+            <AddKnowledgeItem onClick={handleImportKnowledge}>
+              <AddKnowledgeName>
+                <FileUp size={18} />
+                {t('knowledge.bundle.import')}
+              </AddKnowledgeName>
+            </AddKnowledgeItem>
+          )}
           <div style={{ minHeight: '10px' }}></div>
         </KnowledgeSideNav>
         {bases.length === 0 ? (
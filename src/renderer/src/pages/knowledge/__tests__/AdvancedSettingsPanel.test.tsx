@@ -12,6 +12,8 @@ const mocks = vi.hoisted(() => {
           'knowledge.chunk_size': '分块大小',
           'knowledge.chunk_overlap': '分块重叠',
           'knowledge.threshold': '检索相似度阈值',
+          'knowledge.search_mode.label': '检索模式',
+          'knowledge.chunk_strategy.label': '分块策略',
           'knowledge.chunk_size_change_warning': '避免修改这个高级设置。',
           'settings.tool.preprocess.title': '文档预处理',
           'models.rerank_model': '重排模型',
@@ -23,9 +25,11 @@ const mocks = vi.hoisted(() => {
     handlers: {
       handleChunkSizeChange: vi.fn(),
       handleChunkOverlapChange: vi.fn(),
+      handleChunkStrategyChange: vi.fn(),
       handleThresholdChange: vi.fn(),
       handleDocPreprocessChange: vi.fn(),
-      handleRerankModelChange: vi.fn()
+      handleRerankModelChange: vi.fn(),
+      handleSearchModeChange: vi.fn()
     }
   }
 })
@@ -59,8 +63,8 @@ vi.mock('antd', () => ({
       style={style}
     />
   ),
-  Select: ({ value, onChange, options, placeholder }: any) => (
-    <select value={value} onChange={(e) => onChange(e.target.value)} data-testid="select">
+  Select: ({ value, onChange, options, placeholder, 'aria-label': ariaLabel }: any) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} data-testid="select" aria-label={ariaLabel}>
       <option value="">{placeholder}</option>
       {options?.map((opt: any) => (
         <option key={opt.value} value={opt.value}>
@@ -149,6 +153,20 @@ describe('AdvancedSettingsPanel', () => {
       const thresholdInput = screen.getByLabelText('检索相似度阈值')
       fireEvent.change(thresholdInput, { target: { value: '0.6' } })
       expect(mocks.handlers.handleThresholdChange).toHaveBeenCalledWith(0.6)
+
+      const searchModeSelect = screen.getByLabelText('检索模式')
+      fireEvent.change(searchModeSelect, { target: { value: 'hybrid' } })
+      expect(mocks.handlers.handleSearchModeChange).toHaveBeenCalledWith('hybrid')
+
+      const chunkStrategySelect = screen.getByLabelText('分块策略')
+      fireEvent.change(chunkStrategySelect, { target: { value: 'markdown' } })
+      expect(mocks.handlers.handleChunkStrategyChange).toHaveBeenCalledWith('markdown')
+    })
+
+    it('should default the search mode to vector', () => {
+      render(<AdvancedSettingsPanel newBase={mockBase} handlers={mocks.handlers} docPreprocessSelectOptions={[]} />)
+
+      expect(screen.getByLabelText('检索模式')).toHaveValue('vector')
     })
   })
 })
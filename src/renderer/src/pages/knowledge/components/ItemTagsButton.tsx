@@ -0,0 +1,54 @@
+import PromptPopup from '@renderer/components/Popups/PromptPopup'
+import type { KnowledgeItem } from '@renderer/types'
+import { Button, Tooltip } from 'antd'
+import { Tag } from 'lucide-react'
+import type { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface ItemTagsButtonProps {
+  item: KnowledgeItem
+  onChange: (item: KnowledgeItem, tags: string[]) => void
+}
+
+const parseTags = (value: string) => [
+  ...new Set(
+    value
+      .split(/[,，]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+  )
+]
+
+const ItemTagsButton: FC<ItemTagsButtonProps> = ({ item, onChange }) => {
+  const { t } = useTranslation()
+  const tags = item.tags ?? []
+
+  const handleEdit = async () => {
+    const value: string | undefined = await PromptPopup.show({
+      title: t('knowledge.item_tags.edit'),
+      message: '',
+      inputPlaceholder: t('knowledge.item_tags.placeholder'),
+      defaultValue: tags.join(', '),
+      inputProps: {
+        maxLength: 200,
+        rows: 1
+      }
+    })
+
+    if (value !== undefined && value !== null) {
+      onChange(item, parseTags(value))
+    }
+  }
+
+  return (
+    <Tooltip title={tags.length > 0 ? tags.join(', ') : t('knowledge.item_tags.edit')}>
+      <Button
+        type="text"
+        icon={<Tag size={15} color={tags.length > 0 ? 'var(--color-primary)' : undefined} />}
+        onClick={handleEdit}
+      />
+    </Tooltip>
+  )
+}
+
+export default ItemTagsButton
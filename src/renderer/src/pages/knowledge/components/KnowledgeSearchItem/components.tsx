@@ -4,7 +4,7 @@ import { Tooltip, Typography } from 'antd'
 import React from 'react'
 import { useTranslation } from 'react-i18next'
 
-import { CopyButton, MetadataContainer, ScoreTag, TagContainer } from '.'
+import { CopyButton, HeadingPath, MetadataContainer, ScoreTag, TagContainer } from '.'
 import { useCopyText, useKnowledgeItemMetadata } from './hooks'
 
 const { Text } = Typography
@@ -20,6 +20,7 @@ export const KnowledgeItemMetadata: React.FC<KnowledgeItemMetadataProps> = ({ it
   const { t } = useTranslation()
 
   const sourceLink = getSourceLink(item)
+  const headingPath: string[] = Array.isArray(item.metadata.headingPath) ? item.metadata.headingPath : []
 
   return (
     <MetadataContainer>
@@ -28,6 +29,7 @@ export const KnowledgeItemMetadata: React.FC<KnowledgeItemMetadataProps> = ({ it
         <a href={sourceLink.href} target="_blank" rel="noreferrer">
           {sourceLink.text}
         </a>
+        {headingPath.length > 0 && <HeadingPath title={headingPath.join(' › ')}>{headingPath.join(' › ')}</HeadingPath>}
       </Text>
       {item.score !== 0 && <ScoreTag>Score: {(item.score * 100).toFixed(1)}%</ScoreTag>}
     </MetadataContainer>
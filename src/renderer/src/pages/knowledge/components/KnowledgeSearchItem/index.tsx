@@ -81,6 +81,14 @@ export const CopyButton = styled.div`
   }
 `
 
+export const HeadingPath = styled.span`
+  display: block;
+  font-size: 12px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
 export const MetadataContainer = styled.div`
   display: flex;
   justify-content: space-between;
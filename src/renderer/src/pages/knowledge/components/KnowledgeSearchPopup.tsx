@@ -1,12 +1,20 @@
 import { loggerService } from '@logger'
 import { HStack } from '@renderer/components/Layout'
 import { TopView } from '@renderer/components/TopView'
-import { searchKnowledgeBase } from '@renderer/services/KnowledgeService'
-import type { FileMetadata, KnowledgeBase, KnowledgeSearchResult } from '@renderer/types'
+import { getKnowledgeItemName, searchKnowledgeBase } from '@renderer/services/KnowledgeService'
+import type {
+  FileMetadata,
+  KnowledgeBase,
+  KnowledgeItemType,
+  KnowledgeSearchFilter,
+  KnowledgeSearchResult
+} from '@renderer/types'
 import type { InputRef } from 'antd'
-import { Divider, Input, List, Modal, Spin } from 'antd'
+import { DatePicker, Divider, Input, List, Modal, Select, Spin } from 'antd'
+import type { Dayjs } from 'dayjs'
+import dayjs from 'dayjs'
 import { Search } from 'lucide-react'
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
@@ -22,6 +30,15 @@ interface Props extends ShowParams {
 
 const logger = loggerService.withContext('KnowledgeSearchPopup')
 
+const ITEM_TYPE_LABEL_KEYS: Partial<Record<KnowledgeItemType, string>> = {
+  file: 'files.title',
+  directory: 'knowledge.directories',
+  url: 'knowledge.urls',
+  sitemap: 'knowledge.sitemaps',
+  note: 'knowledge.notes',
+  video: 'knowledge.videos'
+}
+
 const PopupContainer: React.FC<Props> = ({ base, resolve }) => {
   const [open, setOpen] = useState(true)
   const [loading, setLoading] = useState(false)
@@ -29,27 +46,72 @@ const PopupContainer: React.FC<Props> = ({ base, resolve }) => {
   const [searchKeyword, setSearchKeyword] = useState('')
   const { t } = useTranslation()
   const searchInputRef = useRef<InputRef>(null)
+  // 最近一次搜索的关键词，筛选条件变化时用它重新搜索
+  const lastQueryRef = useRef('')
+  const [itemIds, setItemIds] = useState<string[]>([])
+  const [itemTypes, setItemTypes] = useState<KnowledgeItemType[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [addedRange, setAddedRange] = useState<[Dayjs | null, Dayjs | null] | null>(null)
 
-  const handleSearch = async (value: string) => {
-    if (!value.trim()) {
-      setResults([])
-      setSearchKeyword('')
-      return
-    }
+  const itemOptions = useMemo(
+    () =>
+      base.items
+        .filter((item) => item.type !== 'note' && item.uniqueId)
+        .map((item) => ({ value: item.id, label: getKnowledgeItemName(item) })),
+    [base.items]
+  )
 
-    setSearchKeyword(value.trim())
-    setLoading(true)
-    try {
-      const searchResults = await searchKnowledgeBase(value, base)
-      logger.debug(`KnowledgeSearchPopup Search Results: ${searchResults}`)
-      setResults(searchResults)
-    } catch (error) {
-      logger.error(`Failed to search knowledge base ${base.name}:`, error as Error)
-      setResults([])
-    } finally {
-      setLoading(false)
+  const typeOptions = useMemo(
+    () =>
+      [...new Set(base.items.map((item) => item.type))]
+        .filter((type) => ITEM_TYPE_LABEL_KEYS[type])
+        .map((type) => ({ value: type, label: t(ITEM_TYPE_LABEL_KEYS[type]!) })),
+    [base.items, t]
+  )
+
+  const tagOptions = useMemo(
+    () => [...new Set(base.items.flatMap((item) => item.tags ?? []))].map((tag) => ({ value: tag, label: tag })),
+    [base.items]
+  )
+
+  const filter = useMemo<KnowledgeSearchFilter | undefined>(() => {
+    const [start, end] = addedRange ?? [null, null]
+    if (!itemIds.length && !itemTypes.length && !tags.length && !start && !end) {
+      return undefined
     }
-  }
+    return {
+      itemIds,
+      itemTypes,
+      tags,
+      addedAfter: start?.startOf('day').valueOf(),
+      addedBefore: end?.endOf('day').valueOf()
+    }
+  }, [itemIds, itemTypes, tags, addedRange])
+
+  const handleSearch = useCallback(
+    async (value: string) => {
+      lastQueryRef.current = value.trim()
+      if (!value.trim()) {
+        setResults([])
+        setSearchKeyword('')
+        return
+      }
+
+      setSearchKeyword(value.trim())
+      setLoading(true)
+      try {
+        const searchResults = await searchKnowledgeBase(value, base, { filter })
+        logger.debug(`KnowledgeSearchPopup Search Results: ${searchResults}`)
+        setResults(searchResults)
+      } catch (error) {
+        logger.error(`Failed to search knowledge base ${base.name}:`, error as Error)
+        setResults([])
+      } finally {
+        setLoading(false)
+      }
+    },
+    [base, filter]
+  )
 
   const onOk = () => {
     setOpen(false)
@@ -71,6 +133,13 @@ const PopupContainer: React.FC<Props> = ({ base, resolve }) => {
     }
   }, [])
 
+  // Re-run the current search when the scope changes
+  useEffect(() => {
+    if (lastQueryRef.current) {
+      handleSearch(lastQueryRef.current)
+    }
+  }, [handleSearch])
+
   return (
     <Modal
       title={null}
@@ -116,6 +185,56 @@ const PopupContainer: React.FC<Props> = ({ base, resolve }) => {
           onPressEnter={() => handleSearch(searchKeyword)}
         />
       </HStack>
+      <FilterBar>
+        <Select
+          mode="multiple"
+          size="small"
+          allowClear
+          maxTagCount="responsive"
+          placeholder={t('knowledge.search_filter.items')}
+          options={itemOptions}
+          optionFilterProp="label"
+          value={itemIds}
+          onChange={setItemIds}
+          style={{ flex: 2, minWidth: 0 }}
+        />
+        <Select
+          mode="multiple"
+          size="small"
+          allowClear
+          maxTagCount="responsive"
+          placeholder={t('knowledge.search_filter.types')}
+          options={typeOptions}
+          value={itemTypes}
+          onChange={setItemTypes}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        {tagOptions.length > 0 && (
+          <Select
+            mode="multiple"
+            size="small"
+            allowClear
+            maxTagCount="responsive"
+            placeholder={t('knowledge.search_filter.tags')}
+            options={tagOptions}
+            value={tags}
+            onChange={setTags}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+        )}
+        <DatePicker.RangePicker
+          size="small"
+          allowEmpty={[true, true]}
+          placeholder={[t('knowledge.search_filter.added_after'), t('knowledge.search_filter.added_before')]}
+          presets={[
+            { label: t('knowledge.search_filter.this_week'), value: [dayjs().startOf('week'), dayjs()] },
+            { label: t('knowledge.search_filter.this_month'), value: [dayjs().startOf('month'), dayjs()] }
+          ]}
+          value={addedRange}
+          onChange={(range) => setAddedRange(range)}
+          style={{ flex: 2, minWidth: 0 }}
+        />
+      </FilterBar>
       <Divider style={{ margin: 0, marginTop: 4, borderBlockStartWidth: 0.5 }} />
 
       <ResultsContainer>
@@ -138,6 +257,12 @@ const PopupContainer: React.FC<Props> = ({ base, resolve }) => {
   )
 }
 
+const FilterBar = styled.div`
+  display: flex;
+  gap: 6px;
+  padding: 4px 12px 8px;
+`
+
 const ResultsContainer = styled.div`
   padding: 0 16px;
   overflow-y: auto;
@@ -3,7 +3,7 @@ import { InfoTooltip } from '@renderer/components/TooltipIcons'
 import { isRerankModel } from '@renderer/config/models'
 import { useProviders } from '@renderer/hooks/useProvider'
 import { getModelUniqId } from '@renderer/services/ModelService'
-import type { KnowledgeBase, PreprocessProvider } from '@renderer/types'
+import type { KnowledgeBase, KnowledgeChunkStrategy, KnowledgeSearchMode, PreprocessProvider } from '@renderer/types'
 import type { SelectProps } from 'antd'
 import { Alert, InputNumber, Select } from 'antd'
 import { TriangleAlert } from 'lucide-react'
@@ -18,9 +18,11 @@ interface AdvancedSettingsPanelProps {
   handlers: {
     handleChunkSizeChange: (value: number | null) => void
     handleChunkOverlapChange: (value: number | null) => void
+    handleChunkStrategyChange: (value: KnowledgeChunkStrategy) => void
     handleThresholdChange: (value: number | null) => void
     handleDocPreprocessChange: (value: string) => void
     handleRerankModelChange: (value: string) => void
+    handleSearchModeChange: (value: KnowledgeSearchMode) => void
   }
 }
 
@@ -35,11 +37,25 @@ const AdvancedSettingsPanel: React.FC<AdvancedSettingsPanelProps> = ({
   const {
     handleChunkSizeChange,
     handleChunkOverlapChange,
+    handleChunkStrategyChange,
     handleThresholdChange,
     handleDocPreprocessChange,
-    handleRerankModelChange
+    handleRerankModelChange,
+    handleSearchModeChange
   } = handlers
 
+  const searchModeOptions: { value: KnowledgeSearchMode; label: string }[] = [
+    { value: 'vector', label: t('knowledge.search_mode.vector') },
+    { value: 'hybrid', label: t('knowledge.search_mode.hybrid') }
+  ]
+
+  const chunkStrategyOptions: { value: KnowledgeChunkStrategy; label: string }[] = [
+    { value: 'default', label: t('knowledge.chunk_strategy.default') },
+    { value: 'markdown', label: t('knowledge.chunk_strategy.markdown') },
+    { value: 'code', label: t('knowledge.chunk_strategy.code') },
+    { value: 'sentence', label: t('knowledge.chunk_strategy.sentence') }
+  ]
+
   return (
     <SettingsPanel>
       <SettingsItem>
@@ -73,6 +89,34 @@ const AdvancedSettingsPanel: React.FC<AdvancedSettingsPanelProps> = ({
         />
       </SettingsItem>
 
+      <SettingsItem>
+        <div className="settings-label">
+          {t('knowledge.search_mode.label')}
+          <InfoTooltip title={t('knowledge.search_mode.tooltip')} placement="right" />
+        </div>
+        <Select
+          value={newBase.searchMode ?? 'vector'}
+          style={{ width: '100%' }}
+          onChange={handleSearchModeChange}
+          options={searchModeOptions}
+          aria-label={t('knowledge.search_mode.label')}
+        />
+      </SettingsItem>
+
+      <SettingsItem>
+        <div className="settings-label">
+          {t('knowledge.chunk_strategy.label')}
+          <InfoTooltip title={t('knowledge.chunk_strategy.tooltip')} placement="right" />
+        </div>
+        <Select
+          value={newBase.chunkStrategy ?? 'default'}
+          style={{ width: '100%' }}
+          onChange={handleChunkStrategyChange}
+          options={chunkStrategyOptions}
+          aria-label={t('knowledge.chunk_strategy.label')}
+        />
+      </SettingsItem>
+
       <SettingsItem>
         <div className="settings-label">
           {t('knowledge.chunk_size')}
@@ -8,12 +8,14 @@ import { getProviderName } from '@renderer/services/ProviderService'
 import type { KnowledgeBase, KnowledgeItem } from '@renderer/types'
 import { Button, Tooltip } from 'antd'
 import dayjs from 'dayjs'
-import { PlusIcon } from 'lucide-react'
+import type { TFunction } from 'i18next'
+import { Eye, EyeOff, FolderSync, PlusIcon } from 'lucide-react'
 import type { FC } from 'react'
 import { useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import ItemTagsButton from '../components/ItemTagsButton'
 import StatusIcon from '../components/StatusIcon'
 import {
   ClickableSpan,
@@ -38,12 +40,27 @@ const getDisplayTime = (item: KnowledgeItem) => {
   return dayjs(timestamp).format('MM-DD HH:mm')
 }
 
+const getSyncStatus = (item: KnowledgeItem, t: TFunction) => {
+  if (!item.lastSyncedAt) {
+    return getDisplayTime(item)
+  }
+  return t('knowledge.directory_sync.last_synced', { time: dayjs(item.lastSyncedAt).format('MM-DD HH:mm') })
+}
+
 const KnowledgeDirectories: FC<KnowledgeContentProps> = ({ selectedBase, progressMap }) => {
   const { t } = useTranslation()
 
-  const { base, directoryItems, refreshItem, removeItem, getProcessingStatus, addDirectory } = useKnowledge(
-    selectedBase.id || ''
-  )
+  const {
+    base,
+    directoryItems,
+    refreshItem,
+    removeItem,
+    getProcessingStatus,
+    addDirectory,
+    syncDirectory,
+    toggleDirectoryWatch,
+    updateItemTags
+  } = useKnowledge(selectedBase.id || '')
 
   const providerName = getProviderName(base?.model)
   const disabled = !base?.version || !providerName
@@ -100,9 +117,28 @@ const KnowledgeDirectories: FC<KnowledgeContentProps> = ({ selectedBase, progres
                   </ClickableSpan>
                 ),
                 ext: '.folder',
-                extra: getDisplayTime(item),
+                extra: getSyncStatus(item, t),
                 actions: (
                   <FlexAlignCenter>
+                    <ItemTagsButton item={item} onChange={updateItemTags} />
+                    <Tooltip
+                      title={item.watch ? t('knowledge.directory_sync.unwatch') : t('knowledge.directory_sync.watch')}>
+                      <Button
+                        type="text"
+                        icon={item.watch ? <Eye size={15} /> : <EyeOff size={15} />}
+                        onClick={() => toggleDirectoryWatch(item)}
+                      />
+                    </Tooltip>
+                    {item.uniqueId && (
+                      <Tooltip title={t('knowledge.directory_sync.sync_now')}>
+                        <Button
+                          type="text"
+                          icon={<FolderSync size={15} />}
+                          disabled={!!getProcessingStatus(item.id)}
+                          onClick={() => syncDirectory(item)}
+                        />
+                      </Tooltip>
+                    )}
                     {item.uniqueId && <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />}
                     <StatusIconWrapper>
                       <StatusIcon
@@ -3,6 +3,7 @@ import Ellipsis from '@renderer/components/Ellipsis'
 import { useFiles } from '@renderer/hooks/useFiles'
 import { useKnowledge } from '@renderer/hooks/useKnowledge'
 import FileItem from '@renderer/pages/files/FileItem'
+import ItemTagsButton from '@renderer/pages/knowledge/components/ItemTagsButton'
 import StatusIcon from '@renderer/pages/knowledge/components/StatusIcon'
 import FileManager from '@renderer/services/FileManager'
 import { getProviderName } from '@renderer/services/ProviderService'
@@ -54,7 +55,7 @@ const KnowledgeFiles: FC<KnowledgeContentProps> = ({ selectedBase, progressMap,
   const [windowHeight, setWindowHeight] = useState(window.innerHeight)
   const { onSelectFile, selecting } = useFiles({ extensions: fileTypes })
 
-  const { base, fileItems, addFiles, refreshItem, removeItem, getProcessingStatus } = useKnowledge(
+  const { base, fileItems, addFiles, refreshItem, removeItem, getProcessingStatus, updateItemTags } = useKnowledge(
     selectedBase.id || ''
   )
 
@@ -201,6 +202,7 @@ const KnowledgeFiles: FC<KnowledgeContentProps> = ({ selectedBase, progressMap,
                       extra: `${getDisplayTime(item)} · ${formatFileSize(file.size)}`,
                       actions: (
                         <FlexAlignCenter>
+                          <ItemTagsButton item={item} onChange={updateItemTags} />
                           {item.uniqueId && (
                             <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />
                           )}
@@ -14,6 +14,7 @@ import { useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import ItemTagsButton from '../components/ItemTagsButton'
 import StatusIcon from '../components/StatusIcon'
 import {
   FlexAlignCenter,
@@ -36,7 +37,7 @@ const getDisplayTime = (item: KnowledgeItem) => {
 const KnowledgeNotes: FC<KnowledgeContentProps> = ({ selectedBase }) => {
   const { t } = useTranslation()
 
-  const { base, noteItems, updateNoteContent, removeItem, getProcessingStatus, addNote } = useKnowledge(
+  const { base, noteItems, updateNoteContent, removeItem, getProcessingStatus, addNote, updateItemTags } = useKnowledge(
     selectedBase.id || ''
   )
 
@@ -114,6 +115,7 @@ const KnowledgeNotes: FC<KnowledgeContentProps> = ({ selectedBase }) => {
                 extra: getDisplayTime(note),
                 actions: (
                   <FlexAlignCenter>
+                    <ItemTagsButton item={note} onChange={updateItemTags} />
                     <Button type="text" onClick={() => handleEditNote(note)} icon={<EditIcon size={14} />} />
                     <StatusIconWrapper>
                       <StatusIcon
@@ -15,6 +15,7 @@ import { useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import ItemTagsButton from '../components/ItemTagsButton'
 import StatusIcon from '../components/StatusIcon'
 import {
   ClickableSpan,
@@ -41,7 +42,7 @@ const getDisplayTime = (item: KnowledgeItem) => {
 const KnowledgeSitemaps: FC<KnowledgeContentProps> = ({ selectedBase }) => {
   const { t } = useTranslation()
 
-  const { base, sitemapItems, refreshItem, addSitemap, removeItem, getProcessingStatus } = useKnowledge(
+  const { base, sitemapItems, refreshItem, addSitemap, removeItem, getProcessingStatus, updateItemTags } = useKnowledge(
     selectedBase.id || ''
   )
 
@@ -126,6 +127,7 @@ const KnowledgeSitemaps: FC<KnowledgeContentProps> = ({ selectedBase }) => {
                 extra: getDisplayTime(item),
                 actions: (
                   <FlexAlignCenter>
+                    <ItemTagsButton item={item} onChange={updateItemTags} />
                     {item.uniqueId && <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />}
                     <StatusIconWrapper>
                       <StatusIcon
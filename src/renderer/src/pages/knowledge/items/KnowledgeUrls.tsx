@@ -14,6 +14,7 @@ import { useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import ItemTagsButton from '../components/ItemTagsButton'
 import StatusIcon from '../components/StatusIcon'
 import {
   ClickableSpan,
@@ -38,9 +39,8 @@ const getDisplayTime = (item: KnowledgeItem) => {
 const KnowledgeUrls: FC<KnowledgeContentProps> = ({ selectedBase }) => {
   const { t } = useTranslation()
 
-  const { base, urlItems, refreshItem, addUrl, removeItem, getProcessingStatus, updateItem } = useKnowledge(
-    selectedBase.id || ''
-  )
+  const { base, urlItems, refreshItem, addUrl, removeItem, getProcessingStatus, updateItem, updateItemTags } =
+    useKnowledge(selectedBase.id || '')
 
   const providerName = getProviderName(base?.model)
   const disabled = !base?.version || !providerName
@@ -176,6 +176,7 @@ const KnowledgeUrls: FC<KnowledgeContentProps> = ({ selectedBase }) => {
                 extra: getDisplayTime(item),
                 actions: (
                   <FlexAlignCenter>
+                    <ItemTagsButton item={item} onChange={updateItemTags} />
                     {item.uniqueId && <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />}
                     <StatusIconWrapper>
                       <StatusIcon sourceId={item.id} base={base} getProcessingStatus={getProcessingStatus} type="url" />
@@ -21,6 +21,7 @@ const logger = loggerService.withContext('KnowledgeVideos')
 import FileItem from '@renderer/pages/files/FileItem'
 import { formatFileSize } from '@renderer/utils'
 
+import ItemTagsButton from '../components/ItemTagsButton'
 import StatusIcon from '../components/StatusIcon'
 import {
   ClickableSpan,
@@ -45,7 +46,7 @@ const getDisplayTime = (item: KnowledgeItem) => {
 const KnowledgeVideos: FC<KnowledgeContentProps> = ({ selectedBase }) => {
   const { t } = useTranslation()
 
-  const { base, videoItems, refreshItem, removeItem, getProcessingStatus, addVideo } = useKnowledge(
+  const { base, videoItems, refreshItem, removeItem, getProcessingStatus, addVideo, updateItemTags } = useKnowledge(
     selectedBase.id || ''
   )
   const [windowHeight, setWindowHeight] = useState(window.innerHeight)
@@ -138,6 +139,7 @@ const KnowledgeVideos: FC<KnowledgeContentProps> = ({ selectedBase }) => {
                       extra: `${getDisplayTime(item)} · ${formatFileSize(videoFile.size)}`,
                       actions: (
                         <FlexAlignCenter>
+                          <ItemTagsButton item={item} onChange={updateItemTags} />
                           {item.uniqueId && (
                             <Button type="text" icon={<RefreshIcon />} onClick={() => refreshItem(item)} />
                           )}
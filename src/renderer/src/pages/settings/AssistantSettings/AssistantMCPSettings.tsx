@@ -1,9 +1,11 @@
 import { InfoCircleOutlined } from '@ant-design/icons'
+import { loggerService } from '@logger'
 import { Box } from '@renderer/components/Layout'
-import { useMCPServers } from '@renderer/hooks/useMCPServers'
+import { useMCPProfiles, useMCPServers } from '@renderer/hooks/useMCPServers'
 import type { Assistant, AssistantSettings, McpMode } from '@renderer/types'
 import { getEffectiveMcpMode } from '@renderer/types'
-import { Empty, Radio, Switch, Tooltip } from 'antd'
+import { Button, Empty, Radio, Select, Switch, Tooltip } from 'antd'
+import { FolderPlus, X } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
@@ -18,6 +20,8 @@ export interface MCPServer {
   isActive: boolean
 }
 
+const logger = loggerService.withContext('AssistantMCPSettings')
+
 interface Props {
   assistant: Assistant
   updateAssistant: (assistant: Assistant) => void
@@ -27,6 +31,7 @@ interface Props {
 const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) => {
   const { t } = useTranslation()
   const { mcpServers: allMcpServers } = useMCPServers()
+  const { profiles } = useMCPProfiles()
 
   const currentMode = getEffectiveMcpMode(assistant)
 
@@ -53,6 +58,27 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
   }
 
   const enabledCount = assistant.mcpServers?.length || 0
+  const accessiblePaths = assistant.accessiblePaths ?? []
+
+  const addAccessiblePath = async () => {
+    try {
+      const selected = await window.api.file.selectFolder()
+      if (!selected) {
+        return
+      }
+      if (accessiblePaths.includes(selected)) {
+        window.toast.warning(t('assistants.settings.mcp.roots.duplicate'))
+        return
+      }
+      updateAssistant({ ...assistant, accessiblePaths: [...accessiblePaths, selected] })
+    } catch (error) {
+      logger.error('Failed to select accessible path:', error as Error)
+    }
+  }
+
+  const removeAccessiblePath = (path: string) => {
+    updateAssistant({ ...assistant, accessiblePaths: accessiblePaths.filter((p) => p !== path) })
+  }
 
   return (
     <Container>
@@ -85,6 +111,12 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
               <ModeDescription>{t('assistants.settings.mcp.mode.manual.description')}</ModeDescription>
             </ModeOption>
           </Radio.Button>
+          <Radio.Button value="profile">
+            <ModeOption>
+              <ModeLabel>{t('assistants.settings.mcp.mode.profile.label')}</ModeLabel>
+              <ModeDescription>{t('assistants.settings.mcp.mode.profile.description')}</ModeDescription>
+            </ModeOption>
+          </Radio.Button>
         </Radio.Group>
       </ModeSelector>
 
@@ -135,10 +167,59 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
           )}
         </>
       )}
+
+      {currentMode === 'profile' && (
+        <Select
+          value={profiles.some((p) => p.id === assistant.mcpProfileId) ? assistant.mcpProfileId : undefined}
+          onChange={(mcpProfileId) => updateAssistant({ ...assistant, mcpProfileId })}
+          options={profiles.map((profile) => ({ label: profile.name, value: profile.id }))}
+          placeholder={t('assistants.settings.mcp.profile.placeholder')}
+          notFoundContent={t('settings.mcp.profiles.empty')}
+          style={{ width: '100%' }}
+        />
+      )}
+
+      {currentMode !== 'disabled' && (
+        <RootsSection>
+          <HeaderContainer>
+            <Box style={{ fontWeight: 'bold', fontSize: '14px' }}>
+              {t('assistants.settings.mcp.roots.title')}
+              <Tooltip title={t('assistants.settings.mcp.roots.description')}>
+                <InfoIcon />
+              </Tooltip>
+            </Box>
+            <Button size="small" icon={<FolderPlus size={14} />} onClick={addAccessiblePath}>
+              {t('assistants.settings.mcp.roots.add')}
+            </Button>
+          </HeaderContainer>
+          {accessiblePaths.length > 0 ? (
+            <ServerList>
+              {accessiblePaths.map((path) => (
+                <ServerItem key={path} isEnabled>
+                  <ServerUrl title={path}>{path}</ServerUrl>
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<X size={14} />}
+                    aria-label={t('common.delete')}
+                    onClick={() => removeAccessiblePath(path)}
+                  />
+                </ServerItem>
+              ))}
+            </ServerList>
+          ) : (
+            <EnabledCount>{t('assistants.settings.mcp.roots.empty')}</EnabledCount>
+          )}
+        </RootsSection>
+      )}
     </Container>
   )
 }
 
+const RootsSection = styled.div`
+  margin-top: 24px;
+`
+
 const Container = styled.div`
   display: flex;
   flex: 1;
@@ -7,12 +7,15 @@ import { HStack } from '@renderer/components/Layout'
 import { SelectModelPopup } from '@renderer/components/Popups/SelectModelPopup'
 import Selector from '@renderer/components/Selector'
 import { DEFAULT_CONTEXTCOUNT, DEFAULT_TEMPERATURE, MAX_CONTEXT_COUNT } from '@renderer/config/constant'
-import { isEmbeddingModel, isRerankModel } from '@renderer/config/models'
+import { getDefaultContextTokenBudget, isEmbeddingModel, isRerankModel } from '@renderer/config/models'
 import { useModelGroups } from '@renderer/hooks/useProvider'
 import { useTimer } from '@renderer/hooks/useTimer'
 import { SettingRow } from '@renderer/pages/settings'
 import { DEFAULT_ASSISTANT_SETTINGS } from '@renderer/services/AssistantService'
-import { resolveAssistantDisplayModel } from '@renderer/services/ModelCandidatesService'
+import {
+  DEFAULT_MODEL_FAILOVER_COOLDOWN,
+  resolveAssistantDisplayModel
+} from '@renderer/services/ModelCandidatesService'
 import { getModelUniqId } from '@renderer/services/ModelService'
 import { getProviderName } from '@renderer/services/ProviderService'
 import type {
@@ -43,6 +46,8 @@ const AssistantModelSettings: FC<Props> = ({ assistant, updateAssistant, updateA
   const [contextCount, setContextCount] = useState(assistant?.settings?.contextCount ?? DEFAULT_CONTEXTCOUNT)
   const [enableMaxTokens, setEnableMaxTokens] = useState(assistant?.settings?.enableMaxTokens ?? false)
   const [maxTokens, setMaxTokens] = useState(assistant?.settings?.maxTokens ?? 0)
+  const [enableContextBudget, setEnableContextBudget] = useState(assistant?.settings?.enableContextBudget ?? false)
+  const [contextTokenBudget, setContextTokenBudget] = useState(assistant?.settings?.contextTokenBudget)
   const [streamOutput, setStreamOutput] = useState(assistant?.settings?.streamOutput)
   const [toolUseMode, setToolUseMode] = useState<AssistantSettings['toolUseMode']>(
     assistant?.settings?.toolUseMode ?? 'function'
@@ -398,6 +403,8 @@ const AssistantModelSettings: FC<Props> = ({ assistant, updateAssistant, updateA
     setContextCount(DEFAULT_ASSISTANT_SETTINGS.contextCount)
     setEnableMaxTokens(DEFAULT_ASSISTANT_SETTINGS.enableMaxTokens ?? false)
     setMaxTokens(DEFAULT_ASSISTANT_SETTINGS.maxTokens ?? 0)
+    setEnableContextBudget(DEFAULT_ASSISTANT_SETTINGS.enableContextBudget)
+    setContextTokenBudget(DEFAULT_ASSISTANT_SETTINGS.contextTokenBudget)
     setStreamOutput(DEFAULT_ASSISTANT_SETTINGS.streamOutput)
     setTopP(DEFAULT_ASSISTANT_SETTINGS.topP)
     setEnableTopP(DEFAULT_ASSISTANT_SETTINGS.enableTopP ?? false)
@@ -492,13 +499,38 @@ const AssistantModelSettings: FC<Props> = ({ assistant, updateAssistant, updateA
         <Selector
           value={modelGroupRoutingMode}
           options={[
-            { label: 'Order First (failover)', value: 'order-first' },
-            { label: 'Round Robin', value: 'round-robin' }
+            { label: 'Order First', value: 'order-first' },
+            { label: 'Round Robin', value: 'round-robin' },
+            { label: 'Failover (retry next model)', value: 'failover' }
           ]}
           onChange={(value) => onChangeModelGroupRoutingMode(value as ModelGroupRoutingMode)}
           size={14}
         />
       </SettingRow>
+      {modelGroupRoutingMode === 'failover' && (
+        <SettingRow style={{ minHeight: 30 }}>
+          <HStack alignItems="center">
+            <Label>
+              Failover Cool-down
+              <Tooltip title="How long a model that keeps failing is skipped before it is tried again">
+                <QuestionIcon />
+              </Tooltip>
+            </Label>
+          </HStack>
+          <InputNumber
+            min={0}
+            step={10}
+            addonAfter="s"
+            value={assistant.modelFailoverCooldown ?? DEFAULT_MODEL_FAILOVER_COOLDOWN}
+            onChange={(value) => {
+              if (!isNull(value)) {
+                updateAssistant({ ...assistant, modelFailoverCooldown: value })
+              }
+            }}
+            style={{ width: 120 }}
+          />
+        </SettingRow>
+      )}
       <SettingRow style={{ minHeight: 30 }}>
         <Label>Model Groups</Label>
         <Button icon={<PlusIcon size={18} />} onClick={onAddModelGroup}>
@@ -710,6 +742,48 @@ const AssistantModelSettings: FC<Props> = ({ assistant, updateAssistant, updateA
         </Col>
       </Row>
       <Divider style={{ margin: '10px 0' }} />
+      <SettingRow style={{ minHeight: 30 }}>
+        <HStack alignItems="center">
+          <Label>{t('chat.settings.context_budget.label')}</Label>
+          <Tooltip title={t('chat.settings.context_budget.tip')}>
+            <QuestionIcon />
+          </Tooltip>
+        </HStack>
+        <Switch
+          checked={enableContextBudget}
+          onChange={(enabled) => {
+            setEnableContextBudget(enabled)
+            updateAssistantSettings({ enableContextBudget: enabled })
+          }}
+        />
+      </SettingRow>
+      {enableContextBudget && (
+        <Row align="middle" style={{ marginTop: 5, marginBottom: 5 }}>
+          <Col span={24}>
+            <InputNumber
+              min={1000}
+              max={10000000}
+              step={1000}
+              value={contextTokenBudget}
+              placeholder={t('chat.settings.context_budget.placeholder', {
+                count: getDefaultContextTokenBudget(assistant.model)
+              })}
+              changeOnBlur
+              onChange={(value) => {
+                const budget = value ?? undefined
+                setContextTokenBudget(budget)
+                setTimeoutTimer(
+                  'contextTokenBudget_onChange',
+                  () => updateAssistantSettings({ contextTokenBudget: budget }),
+                  1000
+                )
+              }}
+              style={{ width: '100%' }}
+            />
+          </Col>
+        </Row>
+      )}
+      <Divider style={{ margin: '10px 0' }} />
       <SettingRow style={{ minHeight: 30 }}>
         <HStack alignItems="center">
           <Label>{t('chat.settings.max_tokens.label')}</Label>
@@ -3,6 +3,7 @@ import DividerWithText from '@renderer/components/DividerWithText'
 import { NutstoreIcon } from '@renderer/components/Icons/NutstoreIcons'
 import { HStack } from '@renderer/components/Layout'
 import ListItem from '@renderer/components/ListItem'
+import BackupPassphrasePopup from '@renderer/components/Popups/BackupPassphrasePopup'
 import BackupPopup from '@renderer/components/Popups/BackupPopup'
 import LanTransferPopup from '@renderer/components/Popups/LanTransferPopup'
 import RestorePopup from '@renderer/components/Popups/RestorePopup'
@@ -12,7 +13,7 @@ import { useTimer } from '@renderer/hooks/useTimer'
 import ImportMenuOptions from '@renderer/pages/settings/DataSettings/ImportMenuSettings'
 import { reset } from '@renderer/services/BackupService'
 import store, { useAppDispatch } from '@renderer/store'
-import { setSkipBackupFile as _setSkipBackupFile } from '@renderer/store/settings'
+import { setBackupEncryption, setSkipBackupFile as _setSkipBackupFile } from '@renderer/store/settings'
 import type { AppInfo } from '@renderer/types'
 import { formatFileSize } from '@renderer/utils'
 import { occupiedDirs } from '@shared/config/constant'
@@ -57,6 +58,7 @@ const DataSettings: FC = () => {
 
   const _skipBackupFile = store.getState().settings.skipBackupFile
   const [skipBackupFile, setSkipBackupFile] = useState<boolean>(_skipBackupFile)
+  const [backupEncryption, setBackupEncryptionState] = useState<boolean>(store.getState().settings.backupEncryption)
 
   const dispatch = useAppDispatch()
 
@@ -576,6 +578,38 @@ const DataSettings: FC = () => {
     dispatch(_setSkipBackupFile(value))
   }
 
+  // 设置口令并保存到系统密钥库，取消时返回 false
+  const setupBackupPassphrase = async () => {
+    const passphrase = await BackupPassphrasePopup.show({ mode: 'set' })
+    if (!passphrase) {
+      return false
+    }
+    try {
+      await window.api.backup.setStoredPassphrase(passphrase)
+      return true
+    } catch (error) {
+      window.toast.error((error as Error).message)
+      return false
+    }
+  }
+
+  const onBackupEncryptionChange = async (value: boolean) => {
+    if (value && !(await setupBackupPassphrase())) {
+      return
+    }
+    if (!value) {
+      await window.api.backup.setStoredPassphrase(null)
+    }
+    setBackupEncryptionState(value)
+    dispatch(setBackupEncryption(value))
+  }
+
+  const onChangeBackupPassphrase = async () => {
+    if (await setupBackupPassphrase()) {
+      window.toast.success(t('settings.data.backup.encryption.saved'))
+    }
+  }
+
   return (
     <Container>
       <MenuList>
@@ -630,6 +664,19 @@ const DataSettings: FC = () => {
                 <SettingHelpText>{t('settings.data.backup.skip_file_data_help')}</SettingHelpText>
               </SettingRow>
               <SettingDivider />
+              <SettingRow>
+                <SettingRowTitle>{t('settings.data.backup.encryption.title')}</SettingRowTitle>
+                <HStack gap="5px" alignItems="center">
+                  {backupEncryption && (
+                    <Button onClick={onChangeBackupPassphrase}>{t('settings.data.backup.encryption.change')}</Button>
+                  )}
+                  <Switch checked={backupEncryption} onChange={onBackupEncryptionChange} />
+                </HStack>
+              </SettingRow>
+              <SettingRow>
+                <SettingHelpText>{t('settings.data.backup.encryption.help')}</SettingHelpText>
+              </SettingRow>
+              <SettingDivider />
               <SettingRow>
                 <SettingRowTitle>{t('settings.data.export_to_phone.title')}</SettingRowTitle>
                 <HStack gap="5px" justifyContent="space-between">
@@ -17,7 +17,7 @@ const ImportMenuOptions: FC = () => {
       </SettingRow>
       <SettingDivider />
       <SettingRow>
-        <SettingRowTitle>{t('settings.data.import_settings.chatgpt')}</SettingRowTitle>
+        <SettingRowTitle>{t('settings.data.import_settings.conversations')}</SettingRowTitle>
         <HStack gap="5px" justifyContent="space-between">
           <Button onClick={ImportPopup.show}>{t('settings.data.import_settings.button')}</Button>
         </HStack>
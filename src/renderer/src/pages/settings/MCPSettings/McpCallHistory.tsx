@@ -0,0 +1,140 @@
+import { loggerService } from '@logger'
+import type { MCPServer } from '@renderer/types'
+import type { MCPToolCallRecord } from '@shared/config/types'
+import type { TableColumnsType } from 'antd'
+import { Button, Flex, Input, Table, Tag, Tooltip, Typography } from 'antd'
+import dayjs from 'dayjs'
+import { RefreshCw, Trash2 } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const logger = loggerService.withContext('MCPCallHistorySection')
+
+interface MCPCallHistorySectionProps {
+  server: MCPServer
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const MCPCallHistorySection = ({ server }: MCPCallHistorySectionProps) => {
+  const { t } = useTranslation()
+  const [records, setRecords] = useState<MCPToolCallRecord[]>([])
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setRecords(await window.api.mcp.getToolCallHistory(server.id, search))
+    } catch (error) {
+      logger.error('Failed to load tool call history', error as Error)
+    } finally {
+      setLoading(false)
+    }
+  }, [server.id, search])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const onClear = () => {
+    window.modal.confirm({
+      title: t('settings.mcp.history.clear'),
+      content: t('settings.mcp.history.clearConfirm'),
+      centered: true,
+      okButtonProps: { danger: true },
+      onOk: async () => {
+        await window.api.mcp.clearToolCallHistory(server.id)
+        await load()
+      }
+    })
+  }
+
+  const columns: TableColumnsType<MCPToolCallRecord> = [
+    {
+      title: t('settings.mcp.history.columns.time'),
+      dataIndex: 'timestamp',
+      width: 150,
+      render: (timestamp: number) => dayjs(timestamp).format('MM-DD HH:mm:ss')
+    },
+    {
+      title: t('settings.mcp.history.columns.tool'),
+      dataIndex: 'toolName',
+      ellipsis: true
+    },
+    {
+      title: t('settings.mcp.history.columns.duration'),
+      dataIndex: 'durationMs',
+      width: 100,
+      render: (ms: number) => `${ms} ms`
+    },
+    {
+      title: t('settings.mcp.history.columns.size'),
+      dataIndex: 'resultSize',
+      width: 100,
+      render: (size: number) => formatSize(size)
+    },
+    {
+      title: t('settings.mcp.history.columns.status'),
+      key: 'status',
+      width: 140,
+      render: (_, record) => (
+        <Flex gap={4}>
+          {record.isError ? (
+            <Tooltip title={record.error}>
+              <Tag color="error">{t('settings.mcp.history.error')}</Tag>
+            </Tooltip>
+          ) : (
+            <Tag color="success">{t('settings.mcp.history.success')}</Tag>
+          )}
+          {record.cached && <Tag color="blue">{t('settings.mcp.history.cached')}</Tag>}
+        </Flex>
+      )
+    }
+  ]
+
+  return (
+    <Flex vertical gap={10}>
+      <Flex gap={8} align="center">
+        <Input.Search
+          allowClear
+          size="small"
+          placeholder={t('settings.mcp.history.search')}
+          onSearch={setSearch}
+          style={{ flex: 1 }}
+        />
+        <Tooltip title={t('common.refresh')}>
+          <Button size="small" type="text" icon={<RefreshCw size={14} />} onClick={load} />
+        </Tooltip>
+        <Tooltip title={t('settings.mcp.history.clear')}>
+          <Button size="small" type="text" danger icon={<Trash2 size={14} />} onClick={onClear} />
+        </Tooltip>
+      </Flex>
+      <Table
+        size="small"
+        rowKey="id"
+        loading={loading}
+        columns={columns}
+        dataSource={records}
+        pagination={{ pageSize: 20, showSizeChanger: false, hideOnSinglePage: true }}
+        locale={{ emptyText: t('settings.mcp.history.empty') }}
+        expandable={{
+          expandedRowRender: (record) => (
+            <Flex vertical gap={4}>
+              {record.error && <Typography.Text type="danger">{record.error}</Typography.Text>}
+              <Typography.Paragraph code copyable style={{ whiteSpace: 'pre-wrap', marginBottom: 0 }}>
+                {JSON.stringify(record.args ?? {}, null, 2)}
+              </Typography.Paragraph>
+            </Flex>
+          )
+        }}
+      />
+    </Flex>
+  )
+}
+
+export default MCPCallHistorySection
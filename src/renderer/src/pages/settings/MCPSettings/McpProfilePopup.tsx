@@ -0,0 +1,171 @@
+import { loggerService } from '@logger'
+import { TopView } from '@renderer/components/TopView'
+import { useMCPServers } from '@renderer/hooks/useMCPServers'
+import type { MCPProfile, MCPTool } from '@renderer/types'
+import type { FormProps } from 'antd'
+import { Button, Flex, Form, Input, Modal, Select } from 'antd'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { v4 as uuidv4 } from 'uuid'
+
+const logger = loggerService.withContext('McpProfilePopup')
+
+interface ShowParams {
+  profile?: MCPProfile
+}
+
+interface Props extends ShowParams {
+  resolve: (data: MCPProfile | null) => void
+}
+
+type FieldType = {
+  name: string
+  description?: string
+  servers: string[]
+  tools?: Record<string, string[] | undefined>
+}
+
+const PopupContainer: React.FC<Props> = ({ profile, resolve }) => {
+  const [open, setOpen] = useState(true)
+  const [result, setResult] = useState<MCPProfile | null>(null)
+  const [tools, setTools] = useState<Record<string, MCPTool[]>>({})
+  const requestedRef = useRef(new Set<string>())
+  const [form] = Form.useForm<FieldType>()
+  const { mcpServers } = useMCPServers()
+  const { t } = useTranslation()
+
+  const watchedServerIds = Form.useWatch('servers', form)
+  const selectedServerIds = useMemo(() => watchedServerIds ?? [], [watchedServerIds])
+
+  useEffect(() => {
+    // 只为已启用且尚未请求过的服务器拉取工具列表
+    const pending = mcpServers.filter(
+      (server) => server.isActive && selectedServerIds.includes(server.id) && !requestedRef.current.has(server.id)
+    )
+    for (const server of pending) {
+      requestedRef.current.add(server.id)
+      window.api.mcp
+        .listTools(server)
+        .then((list) => setTools((prev) => ({ ...prev, [server.id]: list })))
+        .catch((error) => {
+          logger.warn(`Failed to list tools of ${server.name}`, error as Error)
+          setTools((prev) => ({ ...prev, [server.id]: [] }))
+        })
+    }
+  }, [mcpServers, selectedServerIds])
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    resolve(result)
+  }
+
+  const onFinish: FormProps<FieldType>['onFinish'] = (values) => {
+    const now = Date.now()
+    setResult({
+      id: profile?.id ?? uuidv4(),
+      name: values.name.trim(),
+      description: values.description?.trim() || undefined,
+      servers: values.servers.map((serverId) => {
+        const enabledTools = values.tools?.[serverId]
+        return { serverId, enabledTools: enabledTools?.length ? enabledTools : undefined }
+      }),
+      createdAt: profile?.createdAt ?? now,
+      updatedAt: now
+    })
+    setOpen(false)
+  }
+
+  return (
+    <Modal
+      title={profile ? t('settings.mcp.profiles.edit') : t('settings.mcp.profiles.add')}
+      open={open}
+      onCancel={onCancel}
+      maskClosable={false}
+      afterClose={onClose}
+      footer={null}
+      transitionName="animation-move-down"
+      centered>
+      <Form
+        form={form}
+        layout="vertical"
+        style={{ marginTop: 20 }}
+        initialValues={{
+          name: profile?.name,
+          description: profile?.description,
+          servers: profile?.servers.map((s) => s.serverId) ?? [],
+          tools: Object.fromEntries(profile?.servers.map((s) => [s.serverId, s.enabledTools ?? []]) ?? [])
+        }}
+        onFinish={onFinish}>
+        <Form.Item
+          name="name"
+          label={t('settings.mcp.profiles.fields.name')}
+          rules={[{ required: true, whitespace: true }]}>
+          <Input placeholder={t('settings.mcp.profiles.fields.namePlaceholder')} maxLength={100} />
+        </Form.Item>
+        <Form.Item name="description" label={t('settings.mcp.profiles.fields.description')}>
+          <Input.TextArea autoSize={{ minRows: 1, maxRows: 3 }} />
+        </Form.Item>
+        <Form.Item name="servers" label={t('settings.mcp.profiles.fields.servers')} rules={[{ required: true }]}>
+          <Select
+            mode="multiple"
+            options={mcpServers.map((server) => ({ label: server.name, value: server.id }))}
+            maxTagCount="responsive"
+          />
+        </Form.Item>
+        {selectedServerIds.map((serverId) => {
+          const server = mcpServers.find((s) => s.id === serverId)
+          return (
+            <Form.Item
+              key={serverId}
+              name={['tools', serverId]}
+              label={server?.name ?? serverId}
+              tooltip={t('settings.mcp.profiles.fields.toolsTooltip')}>
+              <Select
+                mode="multiple"
+                allowClear
+                loading={!!server?.isActive && !(serverId in tools)}
+                options={(tools[serverId] ?? []).map((tool) => ({ label: tool.name, value: tool.name }))}
+                placeholder={t('settings.mcp.profiles.fields.allTools')}
+                maxTagCount="responsive"
+              />
+            </Form.Item>
+          )
+        })}
+        <Form.Item style={{ marginBottom: 8 }}>
+          <Flex justify="end" gap={8}>
+            <Button onClick={onCancel}>{t('common.cancel')}</Button>
+            <Button type="primary" htmlType="submit">
+              {t('common.save')}
+            </Button>
+          </Flex>
+        </Form.Item>
+      </Form>
+    </Modal>
+  )
+}
+
+const TopViewKey = 'McpProfilePopup'
+
+export default class McpProfilePopup {
+  static topviewId = 0
+  static hide() {
+    TopView.hide(TopViewKey)
+  }
+  static show(props: ShowParams = {}) {
+    return new Promise<MCPProfile | null>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          {...props}
+          resolve={(v) => {
+            resolve(v)
+            this.hide()
+          }}
+        />,
+        TopViewKey
+      )
+    })
+  }
+}
@@ -0,0 +1,168 @@
+import { loggerService } from '@logger'
+import { useMCPProfiles, useMCPServers } from '@renderer/hooks/useMCPServers'
+import type { MCPProfile } from '@renderer/types'
+import { exportMcpProfiles, importMcpProfiles } from '@renderer/utils/mcpProfile'
+import { Button, Empty, Flex, Tag, Tooltip } from 'antd'
+import { Download, Edit, Plus, Trash2, Upload } from 'lucide-react'
+import type { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingTitle } from '..'
+import McpProfilePopup from './McpProfilePopup'
+
+const logger = loggerService.withContext('McpProfilesList')
+
+const McpProfilesList: FC = () => {
+  const { t } = useTranslation()
+  const { mcpServers } = useMCPServers()
+  const { profiles, addMCPProfile, updateMCPProfile, deleteMCPProfile } = useMCPProfiles()
+
+  const onAdd = async () => {
+    const profile = await McpProfilePopup.show()
+    if (profile) {
+      addMCPProfile(profile)
+    }
+  }
+
+  const onEdit = async (profile: MCPProfile) => {
+    const updated = await McpProfilePopup.show({ profile })
+    if (updated) {
+      updateMCPProfile(updated)
+    }
+  }
+
+  const onDelete = (profile: MCPProfile) => {
+    window.modal.confirm({
+      title: t('settings.mcp.profiles.delete'),
+      content: t('settings.mcp.profiles.deleteConfirm', { name: profile.name }),
+      centered: true,
+      okButtonProps: { danger: true },
+      onOk: () => deleteMCPProfile(profile.id)
+    })
+  }
+
+  const onExport = async (items: MCPProfile[]) => {
+    const fileName = items.length === 1 ? `${items[0].name}.json` : 'mcp-profiles.json'
+    await window.api.file.save(fileName, exportMcpProfiles(items, mcpServers))
+  }
+
+  const onImport = async () => {
+    try {
+      const file = await window.api.file.open({ filters: [{ name: 'JSON', extensions: ['json'] }] })
+      if (!file) {
+        return
+      }
+      const content = typeof file.content === 'string' ? file.content : new TextDecoder().decode(file.content)
+      const imported = importMcpProfiles(content, mcpServers)
+      for (const profile of imported) {
+        addMCPProfile(profile)
+      }
+      window.toast.success(t('settings.mcp.profiles.importSuccess', { count: imported.length }))
+    } catch (error) {
+      logger.error('Failed to import MCP profiles', error as Error)
+      window.toast.error(t('settings.mcp.profiles.importError'))
+    }
+  }
+
+  const getServerName = (serverId: string) => mcpServers.find((server) => server.id === serverId)?.name
+
+  return (
+    <>
+      <Flex justify="space-between" align="center" style={{ marginBottom: 10 }}>
+        <SettingTitle style={{ gap: 3 }}>{t('settings.mcp.profiles.title')}</SettingTitle>
+        <Flex gap={8}>
+          <Button icon={<Upload size={14} />} onClick={onImport}>
+            {t('settings.mcp.profiles.import')}
+          </Button>
+          <Button icon={<Download size={14} />} disabled={!profiles.length} onClick={() => onExport(profiles)}>
+            {t('settings.mcp.profiles.export')}
+          </Button>
+          <Button type="primary" icon={<Plus size={14} />} onClick={onAdd}>
+            {t('settings.mcp.profiles.add')}
+          </Button>
+        </Flex>
+      </Flex>
+      <Description>{t('settings.mcp.profiles.intro')}</Description>
+      {profiles.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.mcp.profiles.empty')} />
+      ) : (
+        <ProfileList>
+          {profiles.map((profile) => (
+            <ProfileCard key={profile.id}>
+              <Flex justify="space-between" align="center">
+                <ProfileName>{profile.name}</ProfileName>
+                <Flex gap={4}>
+                  <Tooltip title={t('common.edit')}>
+                    <Button type="text" size="small" icon={<Edit size={14} />} onClick={() => onEdit(profile)} />
+                  </Tooltip>
+                  <Tooltip title={t('settings.mcp.profiles.export')}>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<Download size={14} />}
+                      onClick={() => onExport([profile])}
+                    />
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<Trash2 size={14} />}
+                      onClick={() => onDelete(profile)}
+                    />
+                  </Tooltip>
+                </Flex>
+              </Flex>
+              {profile.description && <ProfileDescription>{profile.description}</ProfileDescription>}
+              <Flex wrap gap={4}>
+                {profile.servers.map((entry) => (
+                  <Tag key={entry.serverId} color={getServerName(entry.serverId) ? 'processing' : 'default'}>
+                    {getServerName(entry.serverId) ?? t('settings.mcp.profiles.missingServer')}
+                    {entry.enabledTools?.length
+                      ? ` · ${t('settings.mcp.profiles.toolCount', { count: entry.enabledTools.length })}`
+                      : ''}
+                  </Tag>
+                ))}
+              </Flex>
+            </ProfileCard>
+          ))}
+        </ProfileList>
+      )}
+    </>
+  )
+}
+
+const Description = styled.div`
+  font-size: 12px;
+  color: var(--color-text-2);
+  margin-bottom: 16px;
+`
+
+const ProfileList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+`
+
+const ProfileCard = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 12px 16px;
+  border-radius: 8px;
+  border: 0.5px solid var(--color-border);
+  background-color: var(--color-background);
+`
+
+const ProfileName = styled.div`
+  font-weight: 600;
+`
+
+const ProfileDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-2);
+`
+
+export default McpProfilesList
@@ -1,11 +1,16 @@
 import { ErrorBoundary } from '@renderer/components/ErrorBoundary'
+import type { HealthResult } from '@renderer/components/HealthStatusIndicator'
+import { HealthStatusIndicator } from '@renderer/components/HealthStatusIndicator'
 import { DeleteIcon } from '@renderer/components/Icons'
 import GeneralPopup from '@renderer/components/Popups/GeneralPopup'
 import Scrollbar from '@renderer/components/Scrollbar'
 import { getMcpTypeLabel } from '@renderer/i18n/label'
 import type { MCPServer } from '@renderer/types'
+import { HealthStatus } from '@renderer/types/healthCheck'
 import { formatErrorMessage } from '@renderer/utils/error'
+import type { MCPServerHealth } from '@shared/config/types'
 import { Alert, Button, Space, Switch, Tag, Tooltip, Typography } from 'antd'
+import type { TFunction } from 'i18next'
 import { CircleXIcon, Settings2, SquareArrowOutUpRight } from 'lucide-react'
 import type { FC } from 'react'
 import { useCallback } from 'react'
@@ -16,6 +21,7 @@ import styled from 'styled-components'
 interface McpServerCardProps {
   server: MCPServer
   version?: string | null
+  health?: MCPServerHealth
   isLoading: boolean
   onToggle: (active: boolean) => void
   onDelete: () => void
@@ -23,9 +29,24 @@ interface McpServerCardProps {
   onOpenUrl: (url: string) => void
 }
 
+const toHealthResult = (health: MCPServerHealth, t: TFunction): HealthResult => {
+  if (health.status === 'healthy') {
+    return { status: HealthStatus.SUCCESS, latency: health.latencyMs }
+  }
+  return {
+    status: HealthStatus.FAILED,
+    label:
+      health.status === 'failed'
+        ? t('settings.mcp.health.failed', { count: health.restartAttempts })
+        : t('settings.mcp.health.unhealthy'),
+    error: health.error ? { name: null, message: health.error, stack: null } : undefined
+  }
+}
+
 const McpServerCard: FC<McpServerCardProps> = ({
   server,
   version,
+  health,
   isLoading,
   onToggle,
   onDelete,
@@ -119,6 +140,9 @@ const McpServerCard: FC<McpServerCardProps> = ({
           <ServerNameWrapper>
             {server.logoUrl && <ServerLogo src={server.logoUrl} alt={`${server.name} logo`} />}
             <ServerNameText ellipsis={{ tooltip: true }}>{server.name}</ServerNameText>
+            {health && (
+              <HealthStatusIndicator loading={health.status === 'restarting'} results={[toHealthResult(health, t)]} />
+            )}
             {server.providerUrl && (
               <Button
                 type="text"
@@ -9,7 +9,9 @@ import { useMCPServerTrust } from '@renderer/hooks/useMCPServerTrust'
 import type { MCPServer } from '@renderer/types'
 import { formatMcpError } from '@renderer/utils/error'
 import { matchKeywordsInString } from '@renderer/utils/match'
+import type { MCPServerHealth } from '@shared/config/types'
 import { Button, Dropdown, Empty } from 'antd'
+import { omit } from 'lodash'
 import { Plus } from 'lucide-react'
 import type { FC } from 'react'
 import { startTransition, useCallback, useEffect, useMemo, useRef, useState } from 'react'
@@ -34,6 +36,21 @@ const McpServersList: FC = () => {
   const [modalType, setModalType] = useState<'json' | 'dxt'>('json')
   const [loadingServerIds, setLoadingServerIds] = useState<Set<string>>(new Set())
   const [serverVersions, setServerVersions] = useState<Record<string, string | null>>({})
+  const [serverHealth, setServerHealth] = useState<Record<string, MCPServerHealth>>({})
+
+  useEffect(() => {
+    window.api.mcp
+      .getServerHealth()
+      .then((list) => setServerHealth(Object.fromEntries(list.map((health) => [health.serverId, health]))))
+      .catch((error) => logger.warn('Failed to load MCP server health', error as Error))
+    const unsubscribe = window.api.mcp.onServerHealthChanged((health) =>
+      setServerHealth((prev) => ({ ...prev, [health.serverId]: health }))
+    )
+
+    return () => {
+      unsubscribe()
+    }
+  }, [])
 
   const [searchText, _setSearchText] = useState('')
 
@@ -170,6 +187,7 @@ const McpServersList: FC = () => {
       } else {
         await window.api.mcp.stopServer(serverForUpdate)
         setServerVersions((prev) => ({ ...prev, [serverForUpdate.id]: null }))
+        setServerHealth((prev) => omit(prev, serverForUpdate.id))
       }
       updateMCPServer({ ...serverForUpdate, isActive: active })
     } catch (error: any) {
@@ -257,6 +275,7 @@ const McpServersList: FC = () => {
           <McpServerCard
             server={server}
             version={serverVersions[server.id]}
+            health={server.isActive ? serverHealth[server.id] : undefined}
             isLoading={loadingServerIds.has(server.id)}
             onToggle={async (active) => await handleToggleActive(server, active)}
             onDelete={() => onDeleteMcpServer(server)}
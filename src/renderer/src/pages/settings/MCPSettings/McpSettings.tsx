@@ -20,6 +20,7 @@ import { useNavigate, useParams } from 'react-router'
 import styled from 'styled-components'
 
 import { SettingContainer, SettingDivider, SettingGroup, SettingTitle } from '..'
+import MCPCallHistorySection from './McpCallHistory'
 import MCPPromptsSection from './McpPrompt'
 import MCPResourcesSection from './McpResource'
 import MCPToolsSection from './McpTool'
@@ -63,7 +64,7 @@ const PipRegistry: Registry[] = [
   { name: '腾讯云', url: 'https://mirrors.cloud.tencent.com/pypi/simple/' }
 ]
 
-type TabKey = 'settings' | 'description' | 'tools' | 'prompts' | 'resources'
+type TabKey = 'settings' | 'description' | 'tools' | 'prompts' | 'resources' | 'history'
 
 const McpSettings: React.FC = () => {
   const { t } = useTranslation()
@@ -499,6 +500,19 @@ const McpSettings: React.FC = () => {
   )
 
   // Handle toggling auto-approve for a tool
+  const handleChangeCacheTtl = useCallback(
+    (tool: MCPTool, ttl: number) => {
+      const toolCacheTtls = { ...server.toolCacheTtls }
+      if (ttl > 0) {
+        toolCacheTtls[tool.name] = ttl
+      } else {
+        delete toolCacheTtls[tool.name]
+      }
+      updateMCPServer({ ...server, toolCacheTtls })
+    },
+    [server, updateMCPServer]
+  )
+
   const handleToggleAutoApprove = useCallback(
     async (tool: MCPTool, autoApprove: boolean) => {
       let disabledAutoApproveTools = [...(server.disabledAutoApproveTools || [])]
@@ -745,6 +759,7 @@ const McpSettings: React.FC = () => {
             server={server}
             onToggleTool={handleToggleTool}
             onToggleAutoApprove={handleToggleAutoApprove}
+            onChangeCacheTtl={handleChangeCacheTtl}
           />
         )
       },
@@ -761,6 +776,12 @@ const McpSettings: React.FC = () => {
     )
   }
 
+  tabs.push({
+    key: 'history',
+    label: t('settings.mcp.tabs.history'),
+    children: <MCPCallHistorySection server={server} />
+  })
+
   return (
     <Container>
       <SettingContainer theme={theme} style={{ width: '100%', paddingTop: 55, backgroundColor: 'transparent' }}>
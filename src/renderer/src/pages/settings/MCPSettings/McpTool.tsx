@@ -1,9 +1,9 @@
 import { McpLogo } from '@renderer/components/Icons'
 import type { MCPServer, MCPTool } from '@renderer/types'
 import { isToolAutoApproved } from '@renderer/utils/mcp-tools'
-import { Badge, Descriptions, Empty, Flex, Switch, Table, Tag, Tooltip, Typography } from 'antd'
+import { Badge, Descriptions, Empty, Flex, Select, Switch, Table, Tag, Tooltip, Typography } from 'antd'
 import type { ColumnsType } from 'antd/es/table'
-import { Info, Zap } from 'lucide-react'
+import { Database, Info, Zap } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 
 interface MCPToolsSectionProps {
@@ -11,11 +11,28 @@ interface MCPToolsSectionProps {
   server: MCPServer
   onToggleTool: (tool: MCPTool, enabled: boolean) => void
   onToggleAutoApprove: (tool: MCPTool, autoApprove: boolean) => void
+  onChangeCacheTtl: (tool: MCPTool, ttl: number) => void
 }
 
-const MCPToolsSection = ({ tools, server, onToggleTool, onToggleAutoApprove }: MCPToolsSectionProps) => {
+// Cache TTLs in seconds, 0 disables caching
+const CACHE_TTL_OPTIONS = [0, 60, 5 * 60, 30 * 60, 60 * 60, 24 * 60 * 60]
+
+const MCPToolsSection = ({
+  tools,
+  server,
+  onToggleTool,
+  onToggleAutoApprove,
+  onChangeCacheTtl
+}: MCPToolsSectionProps) => {
   const { t } = useTranslation()
 
+  const formatCacheTtl = (ttl: number) => {
+    if (!ttl) return t('settings.mcp.tools.cache.off')
+    if (ttl < 60 * 60) return t('settings.mcp.tools.cache.minutes', { count: ttl / 60 })
+    if (ttl < 24 * 60 * 60) return t('settings.mcp.tools.cache.hours', { count: ttl / (60 * 60) })
+    return t('settings.mcp.tools.cache.days', { count: ttl / (24 * 60 * 60) })
+  }
+
   // Check if a tool is enabled (not in the disabledTools array)
   const isToolEnabled = (tool: MCPTool) => {
     return !server.disabledTools?.includes(tool.name)
@@ -176,6 +193,29 @@ const MCPToolsSection = ({ tools, server, onToggleTool, onToggleAutoApprove }: M
           />
         </Tooltip>
       )
+    },
+    {
+      title: (
+        <Tooltip title={t('settings.mcp.tools.cache.tooltip')}>
+          <Flex align="center" justify="center" gap={4}>
+            <Database size={14} />
+            <Typography.Text strong>{t('settings.mcp.tools.cache.label')}</Typography.Text>
+          </Flex>
+        </Tooltip>
+      ),
+      key: 'cache',
+      width: 150,
+      align: 'center',
+      render: (_, tool) => (
+        <Select
+          size="small"
+          value={server.toolCacheTtls?.[tool.name] ?? 0}
+          disabled={!isToolEnabled(tool)}
+          onChange={(ttl) => onChangeCacheTtl(tool, ttl)}
+          options={CACHE_TTL_OPTIONS.map((ttl) => ({ value: ttl, label: formatCacheTtl(ttl) }))}
+          style={{ width: 110 }}
+        />
+      )
     }
   ]
 
@@ -12,7 +12,7 @@ import Scrollbar from '@renderer/components/Scrollbar'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useMCPServers } from '@renderer/hooks/useMCPServers'
 import { Button, Flex } from 'antd'
-import { FolderCog, Package, ShoppingBag } from 'lucide-react'
+import { FolderCog, Layers, Package, ShoppingBag } from 'lucide-react'
 import type { FC } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router'
@@ -23,6 +23,7 @@ import { SettingContainer } from '..'
 import BuiltinMCPServerList from './BuiltinMCPServerList'
 import InstallNpxUv from './InstallNpxUv'
 import McpMarketList from './McpMarketList'
+import McpProfilesList from './McpProfilesList'
 import ProviderDetail from './McpProviderSettings'
 import McpServersList from './McpServersList'
 import McpSettings from './McpSettings'
@@ -43,6 +44,7 @@ const MCPSettings: FC = () => {
     // 精确匹配路径
     if (path === '/settings/mcp/builtin') return 'builtin'
     if (path === '/settings/mcp/marketplaces') return 'marketplaces'
+    if (path === '/settings/mcp/profiles') return 'profiles'
 
     // 检查是否是服务商页面 - 精确匹配
     for (const provider of providers) {
@@ -63,6 +65,7 @@ const MCPSettings: FC = () => {
     // 主页面不显示返回按钮
     if (path === '/settings/mcp' || path === '/settings/mcp/servers') return true
     if (path === '/settings/mcp/builtin' || path === '/settings/mcp/marketplaces') return true
+    if (path === '/settings/mcp/profiles') return true
 
     // 服务商页面也是主页面
     return providers.some((p) => path === `/settings/mcp/${p.key}`)
@@ -89,6 +92,13 @@ const MCPSettings: FC = () => {
             icon={<McpLogo width={18} height={18} style={{ opacity: 0.8 }} />}
             titleStyle={{ fontWeight: 500 }}
           />
+          <ListItem
+            title={t('settings.mcp.profiles.title')}
+            active={activeView === 'profiles'}
+            onClick={() => navigate('/settings/mcp/profiles')}
+            icon={<Layers size={18} />}
+            titleStyle={{ fontWeight: 500 }}
+          />
           <DividerWithText text={t('settings.mcp.discover', 'Discover')} style={{ margin: '10px 0 8px 0' }} />
           <ListItem
             title={t('settings.mcp.builtinServers', 'Built-in Servers')}
@@ -154,6 +164,14 @@ const MCPSettings: FC = () => {
                 </ContentWrapper>
               }
             />
+            <Route
+              path="profiles"
+              element={
+                <ContentWrapper>
+                  <McpProfilesList />
+                </ContentWrapper>
+              }
+            />
             <Route
               path="marketplaces"
               element={
@@ -37,6 +37,11 @@ interface ModelEditContentProps {
 }
 
 const symbols = ['$', '¥', '€', '£']
+
+// 缓存输入和推理价格留空时按普通输入/输出价格计算
+const toOptionalPrice = (value: unknown): number | undefined =>
+  value === null || value === undefined || value === '' ? undefined : Number(value)
+
 const ModelEditContent: FC<ModelEditContentProps & ModalProps> = ({ provider, model, onUpdateModel, ...props }) => {
   const [form] = Form.useForm()
   const { t } = useTranslation()
@@ -74,6 +79,8 @@ const ModelEditContent: FC<ModelEditContentProps & ModalProps> = ({ provider, mo
       pricing: {
         input_per_million_tokens: Number(formValues.input_per_million_tokens) || 0,
         output_per_million_tokens: Number(formValues.output_per_million_tokens) || 0,
+        cached_input_per_million_tokens: toOptionalPrice(formValues.cached_input_per_million_tokens),
+        reasoning_per_million_tokens: toOptionalPrice(formValues.reasoning_per_million_tokens),
         currencySymbol: finalCurrencySymbol
       }
     }
@@ -93,6 +100,8 @@ const ModelEditContent: FC<ModelEditContentProps & ModalProps> = ({ provider, mo
       pricing: {
         input_per_million_tokens: Number(values.input_per_million_tokens) || 0,
         output_per_million_tokens: Number(values.output_per_million_tokens) || 0,
+        cached_input_per_million_tokens: toOptionalPrice(values.cached_input_per_million_tokens),
+        reasoning_per_million_tokens: toOptionalPrice(values.reasoning_per_million_tokens),
         currencySymbol: finalCurrencySymbol || '$'
       }
     }
@@ -248,6 +257,8 @@ const ModelEditContent: FC<ModelEditContentProps & ModalProps> = ({ provider, mo
           endpointType: model.endpoint_type,
           input_per_million_tokens: model.pricing?.input_per_million_tokens ?? 0,
           output_per_million_tokens: model.pricing?.output_per_million_tokens ?? 0,
+          cached_input_per_million_tokens: model.pricing?.cached_input_per_million_tokens,
+          reasoning_per_million_tokens: model.pricing?.reasoning_per_million_tokens,
           currencySymbol: symbols.includes(model.pricing?.currencySymbol || '$')
             ? model.pricing?.currencySymbol || '$'
             : 'custom',
@@ -435,6 +446,42 @@ const ModelEditContent: FC<ModelEditContentProps & ModalProps> = ({ provider, mo
                 }}
               />
             </Form.Item>
+            <Form.Item
+              label={t('models.price.cached_input')}
+              tooltip={t('models.price.cached_input_tip')}
+              style={{ marginBottom: 10 }}
+              name="cached_input_per_million_tokens">
+              <InputNumber
+                placeholder={t('models.price.same_as_input')}
+                min={0}
+                step={0.01}
+                precision={2}
+                style={{ width: '240px' }}
+                addonAfter={`${currencySymbol} / ${t('models.price.million_tokens')}`}
+                onChange={() => {
+                  // 自动保存
+                  autoSave()
+                }}
+              />
+            </Form.Item>
+            <Form.Item
+              label={t('models.price.reasoning')}
+              tooltip={t('models.price.reasoning_tip')}
+              style={{ marginBottom: 10 }}
+              name="reasoning_per_million_tokens">
+              <InputNumber
+                placeholder={t('models.price.same_as_output')}
+                min={0}
+                step={0.01}
+                precision={2}
+                style={{ width: '240px' }}
+                addonAfter={`${currencySymbol} / ${t('models.price.million_tokens')}`}
+                onChange={() => {
+                  // 自动保存
+                  autoSave()
+                }}
+              />
+            </Form.Item>
           </div>
         )}
       </Form>
@@ -0,0 +1,105 @@
+import { useProvider } from '@renderer/hooks/useProvider'
+import { getProviderCurrencySymbol, getProviderMonthlySpend } from '@renderer/services/SpendBudgetService'
+import type { ProviderSpendBudget } from '@renderer/types'
+import { formatCost } from '@renderer/utils/cost'
+import { InputNumber, Switch } from 'antd'
+import type { FC } from 'react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingHelpText, SettingHelpTextRow, SettingRow, SettingSubtitle } from '..'
+
+const DEFAULT_SPEND_BUDGET: ProviderSpendBudget = {
+  enabled: false,
+  monthlyLimit: 0,
+  warningThreshold: 0.8
+}
+
+interface Props {
+  providerId: string
+}
+
+const ProviderBudgetSettings: FC<Props> = ({ providerId }) => {
+  const { t } = useTranslation()
+  const { provider, updateProvider } = useProvider(providerId)
+  const [spent, setSpent] = useState<number>()
+  const budget = provider.spendBudget ?? DEFAULT_SPEND_BUDGET
+  const currencySymbol = getProviderCurrencySymbol(provider)
+
+  useEffect(() => {
+    if (!budget.enabled) {
+      return
+    }
+
+    let cancelled = false
+    getProviderMonthlySpend(providerId)
+      .then((amount) => !cancelled && setSpent(amount))
+      .catch(() => !cancelled && setSpent(undefined))
+
+    return () => {
+      cancelled = true
+    }
+  }, [budget.enabled, providerId])
+
+  const updateBudget = (updates: Partial<ProviderSpendBudget>) => {
+    updateProvider({ spendBudget: { ...budget, ...updates } })
+  }
+
+  return (
+    <Container>
+      <SettingRow>
+        <SettingSubtitle style={{ marginTop: 0 }}>{t('settings.provider.budget.title')}</SettingSubtitle>
+        <Switch size="small" checked={budget.enabled} onChange={(enabled) => updateBudget({ enabled })} />
+      </SettingRow>
+      {budget.enabled && (
+        <>
+          <BudgetInputs>
+            <InputNumber
+              style={{ flex: 1 }}
+              min={0}
+              step={1}
+              precision={2}
+              value={budget.monthlyLimit}
+              prefix={currencySymbol}
+              addonBefore={t('settings.provider.budget.monthly_limit')}
+              onChange={(value) => updateBudget({ monthlyLimit: value ?? 0 })}
+            />
+            <InputNumber
+              style={{ width: 180 }}
+              min={1}
+              max={100}
+              step={5}
+              value={Math.round(budget.warningThreshold * 100)}
+              addonBefore={t('settings.provider.budget.warning_threshold')}
+              addonAfter="%"
+              onChange={(value) => updateBudget({ warningThreshold: (value ?? 80) / 100 })}
+            />
+          </BudgetInputs>
+          <SettingHelpTextRow>
+            <SettingHelpText>
+              {spent !== undefined &&
+                t('settings.provider.budget.spent', {
+                  spent: formatCost(spent, currencySymbol),
+                  limit: formatCost(budget.monthlyLimit, currencySymbol)
+                })}{' '}
+              {t('settings.provider.budget.tip')}
+            </SettingHelpText>
+          </SettingHelpTextRow>
+        </>
+      )}
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  margin-top: 15px;
+`
+
+const BudgetInputs = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-top: 5px;
+`
+
+export default ProviderBudgetSettings
@@ -1,13 +1,16 @@
 import { useTheme } from '@renderer/context/ThemeProvider'
 import db from '@renderer/databases'
-import { aggregateUsageStatistics } from '@renderer/services/UsageStatisticsService'
+import { getProviderNameById } from '@renderer/services/ProviderService'
+import type { UsageBreakdownDimension } from '@renderer/services/UsageStatisticsService'
+import { aggregateUsageBreakdown, aggregateUsageStatistics } from '@renderer/services/UsageStatisticsService'
 import { useAppSelector } from '@renderer/store'
 import type { Message } from '@renderer/types/newMessage'
-import { Empty } from 'antd'
+import { formatCosts } from '@renderer/utils/cost'
+import { Empty, Segmented } from 'antd'
 import dayjs from 'dayjs'
 import { useLiveQuery } from 'dexie-react-hooks'
 import type { FC } from 'react'
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
@@ -19,6 +22,7 @@ const StatisticsSettings: FC = () => {
   const { theme } = useTheme()
   const assistants = useAppSelector((state) => state.assistants.assistants)
   const topics = useLiveQuery(() => db.topics.toArray(), [])
+  const [breakdownDimension, setBreakdownDimension] = useState<UsageBreakdownDimension>('provider')
 
   const numberFormatter = useMemo(() => new Intl.NumberFormat(i18n.language), [i18n.language])
 
@@ -36,13 +40,29 @@ const StatisticsSettings: FC = () => {
     [assistants, topicMessagesById]
   )
 
+  const breakdownRows = useMemo(
+    () => aggregateUsageBreakdown(assistants, topicMessagesById, breakdownDimension),
+    [assistants, topicMessagesById, breakdownDimension]
+  )
+
   const formatNumber = (value: number) => numberFormatter.format(value)
 
+  const breakdownLabels: Record<UsageBreakdownDimension, string> = {
+    provider: t('settings.statistics.breakdown.provider'),
+    model: t('settings.statistics.breakdown.model'),
+    assistant: t('settings.statistics.breakdown.assistant'),
+    day: t('settings.statistics.breakdown.day')
+  }
+
   const globalCards = [
     {
       label: t('settings.statistics.cards.total_tokens'),
       value: formatNumber(statistics.totalTokens)
     },
+    {
+      label: t('settings.statistics.cards.cost'),
+      value: formatCosts(statistics.cost)
+    },
     {
       label: t('settings.statistics.cards.prompt_tokens'),
       value: formatNumber(statistics.promptTokens)
@@ -90,6 +110,47 @@ const StatisticsSettings: FC = () => {
         </LastUpdated>
       </SettingGroup>
 
+      <SettingGroup theme={theme}>
+        <BreakdownTitleRow>
+          <SettingTitle>{t('settings.statistics.breakdown.title')}</SettingTitle>
+          <Segmented<UsageBreakdownDimension>
+            size="small"
+            value={breakdownDimension}
+            onChange={setBreakdownDimension}
+            options={Object.entries(breakdownLabels).map(([value, label]) => ({
+              value: value as UsageBreakdownDimension,
+              label
+            }))}
+          />
+        </BreakdownTitleRow>
+        <SettingDivider />
+        {breakdownRows.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.statistics.breakdown.empty')} />
+        ) : (
+          <ConversationTable>
+            <BreakdownHeader>
+              <span>{breakdownLabels[breakdownDimension]}</span>
+              <span>{t('settings.statistics.columns.responses')}</span>
+              <span>{t('settings.statistics.columns.total_tokens')}</span>
+              <span>{t('settings.statistics.columns.prompt_tokens')}</span>
+              <span>{t('settings.statistics.columns.completion_tokens')}</span>
+              <span>{t('settings.statistics.columns.cost')}</span>
+            </BreakdownHeader>
+
+            {breakdownRows.map((row) => (
+              <BreakdownRow key={row.key}>
+                <span>{breakdownDimension === 'provider' ? getProviderNameById(row.key) : row.label}</span>
+                <span>{formatNumber(row.messageCount)}</span>
+                <span>{formatNumber(row.totalTokens)}</span>
+                <span>{formatNumber(row.promptTokens)}</span>
+                <span>{formatNumber(row.completionTokens)}</span>
+                <span>{formatCosts(row.cost)}</span>
+              </BreakdownRow>
+            ))}
+          </ConversationTable>
+        )}
+      </SettingGroup>
+
       {statistics.assistants.map((assistant) => (
         <CollapsibleSettingGroup
           key={assistant.assistantId}
@@ -132,6 +193,7 @@ const StatisticsSettings: FC = () => {
                     <span>{t('settings.statistics.columns.total_tokens')}</span>
                     <span>{t('settings.statistics.columns.prompt_tokens')}</span>
                     <span>{t('settings.statistics.columns.completion_tokens')}</span>
+                    <span>{t('settings.statistics.columns.cost')}</span>
                     <span>{t('settings.statistics.columns.messages')}</span>
                     <span>{t('settings.statistics.columns.updated_at')}</span>
                   </ConversationHeader>
@@ -142,6 +204,7 @@ const StatisticsSettings: FC = () => {
                       <span>{formatNumber(conversation.totalTokens)}</span>
                       <span>{formatNumber(conversation.promptTokens)}</span>
                       <span>{formatNumber(conversation.completionTokens)}</span>
+                      <span>{formatCosts(conversation.cost)}</span>
                       <span>{formatNumber(conversation.messageCount)}</span>
                       <span>
                         {conversation.updatedAt ? dayjs(conversation.updatedAt).format('YYYY-MM-DD HH:mm:ss') : '-'}
@@ -244,7 +307,7 @@ const ConversationTable = styled.div`
 
 const ConversationHeader = styled.div`
   display: grid;
-  grid-template-columns: minmax(120px, 1.3fr) repeat(4, minmax(70px, 1fr)) minmax(160px, 1.4fr);
+  grid-template-columns: minmax(120px, 1.3fr) repeat(5, minmax(70px, 1fr)) minmax(160px, 1.4fr);
   gap: 8px;
   padding: 8px 10px;
   font-size: 12px;
@@ -254,7 +317,7 @@ const ConversationHeader = styled.div`
 
 const ConversationRow = styled.div`
   display: grid;
-  grid-template-columns: minmax(120px, 1.3fr) repeat(4, minmax(70px, 1fr)) minmax(160px, 1.4fr);
+  grid-template-columns: minmax(120px, 1.3fr) repeat(5, minmax(70px, 1fr)) minmax(160px, 1.4fr);
   gap: 8px;
   padding: 8px 10px;
   font-size: 12px;
@@ -262,4 +325,19 @@ const ConversationRow = styled.div`
   border-top: 0.5px solid var(--color-border);
 `
 
+const BreakdownTitleRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+`
+
+const BreakdownHeader = styled(ConversationHeader)`
+  grid-template-columns: minmax(160px, 2fr) repeat(5, minmax(70px, 1fr));
+`
+
+const BreakdownRow = styled(ConversationRow)`
+  grid-template-columns: minmax(160px, 2fr) repeat(5, minmax(70px, 1fr));
+`
+
 export default StatisticsSettings
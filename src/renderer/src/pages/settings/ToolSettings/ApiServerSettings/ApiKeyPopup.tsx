@@ -0,0 +1,178 @@
+import { TopView } from '@renderer/components/TopView'
+import { useMCPServers } from '@renderer/hooks/useMCPServers'
+import { useProviders } from '@renderer/hooks/useProvider'
+import { getApiServerKeyScopeLabel } from '@renderer/i18n/label'
+import type { ApiServerKey, ApiServerKeyScope } from '@renderer/types'
+import { API_SERVER_KEY_SCOPES } from '@renderer/types'
+import { getFancyProviderName } from '@renderer/utils/naming'
+import type { FormProps } from 'antd'
+import { Button, Checkbox, Flex, Form, Input, InputNumber, Modal, Select } from 'antd'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { v4 as uuidv4 } from 'uuid'
+
+interface ShowParams {
+  apiKey?: ApiServerKey
+}
+
+interface Props extends ShowParams {
+  resolve: (data: ApiServerKey | null) => void
+}
+
+type FieldType = {
+  name: string
+  scopes: ApiServerKeyScope[]
+  allowedModels?: string[]
+  allowedMcpServers?: string[]
+  requestsPerMinute?: number | null
+  tokensPerMinute?: number | null
+}
+
+const PopupContainer: React.FC<Props> = ({ apiKey, resolve }) => {
+  const [open, setOpen] = useState(true)
+  const [result, setResult] = useState<ApiServerKey | null>(null)
+  const [form] = Form.useForm<FieldType>()
+  const { providers } = useProviders()
+  const { mcpServers } = useMCPServers()
+  const { t } = useTranslation()
+
+  const modelOptions = useMemo(
+    () =>
+      providers
+        .filter((provider) => provider.models.length > 0)
+        .map((provider) => ({
+          label: getFancyProviderName(provider),
+          options: provider.models.map((model) => ({
+            label: model.name || model.id,
+            value: `${provider.id}:${model.id}`
+          }))
+        })),
+    [providers]
+  )
+
+  const onCancel = () => {
+    setOpen(false)
+  }
+
+  const onClose = () => {
+    resolve(result)
+  }
+
+  const onFinish: FormProps<FieldType>['onFinish'] = (values) => {
+    setResult({
+      id: apiKey?.id ?? uuidv4(),
+      key: apiKey?.key ?? `cs-sk-${uuidv4()}`,
+      enabled: apiKey?.enabled ?? true,
+      createdAt: apiKey?.createdAt ?? Date.now(),
+      lastUsedAt: apiKey?.lastUsedAt,
+      name: values.name.trim(),
+      scopes: values.scopes,
+      allowedModels: values.allowedModels?.length ? values.allowedModels : undefined,
+      allowedMcpServers: values.allowedMcpServers?.length ? values.allowedMcpServers : undefined,
+      requestsPerMinute: values.requestsPerMinute || undefined,
+      tokensPerMinute: values.tokensPerMinute || undefined
+    })
+    setOpen(false)
+  }
+
+  return (
+    <Modal
+      title={apiKey ? t('apiServer.keys.edit') : t('apiServer.keys.add')}
+      open={open}
+      onCancel={onCancel}
+      maskClosable={false}
+      afterClose={onClose}
+      footer={null}
+      transitionName="animation-move-down"
+      centered>
+      <Form
+        form={form}
+        labelCol={{ flex: '130px' }}
+        labelAlign="left"
+        colon={false}
+        style={{ marginTop: 25 }}
+        initialValues={{
+          name: apiKey?.name,
+          scopes: apiKey?.scopes ?? [...API_SERVER_KEY_SCOPES],
+          allowedModels: apiKey?.allowedModels ?? [],
+          allowedMcpServers: apiKey?.allowedMcpServers ?? [],
+          requestsPerMinute: apiKey?.requestsPerMinute,
+          tokensPerMinute: apiKey?.tokensPerMinute
+        }}
+        onFinish={onFinish}>
+        <Form.Item name="name" label={t('apiServer.keys.fields.name')} rules={[{ required: true, whitespace: true }]}>
+          <Input placeholder={t('apiServer.keys.fields.namePlaceholder')} spellCheck={false} maxLength={100} />
+        </Form.Item>
+        <Form.Item name="scopes" label={t('apiServer.keys.fields.scopes')} rules={[{ required: true }]}>
+          <Checkbox.Group
+            options={API_SERVER_KEY_SCOPES.map((scope) => ({
+              label: getApiServerKeyScopeLabel(scope),
+              value: scope
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          name="allowedModels"
+          label={t('apiServer.keys.fields.allowedModels')}
+          tooltip={t('apiServer.keys.fields.allowedModelsTooltip')}>
+          <Select
+            mode="multiple"
+            allowClear
+            options={modelOptions}
+            placeholder={t('apiServer.keys.fields.allModels')}
+            maxTagCount="responsive"
+          />
+        </Form.Item>
+        <Form.Item
+          name="allowedMcpServers"
+          label={t('apiServer.keys.fields.allowedMcpServers')}
+          tooltip={t('apiServer.keys.fields.allowedMcpServersTooltip')}>
+          <Select
+            mode="multiple"
+            allowClear
+            options={mcpServers.map((server) => ({ label: server.name, value: server.id }))}
+            placeholder={t('apiServer.keys.fields.allMcpServers')}
+            maxTagCount="responsive"
+          />
+        </Form.Item>
+        <Form.Item name="requestsPerMinute" label={t('apiServer.keys.fields.requestsPerMinute')}>
+          <InputNumber min={1} precision={0} placeholder={t('apiServer.keys.unlimited')} style={{ width: '100%' }} />
+        </Form.Item>
+        <Form.Item name="tokensPerMinute" label={t('apiServer.keys.fields.tokensPerMinute')}>
+          <InputNumber min={1} precision={0} placeholder={t('apiServer.keys.unlimited')} style={{ width: '100%' }} />
+        </Form.Item>
+        <Form.Item style={{ marginBottom: 8 }}>
+          <Flex justify="end" gap={8}>
+            <Button onClick={onCancel}>{t('common.cancel')}</Button>
+            <Button type="primary" htmlType="submit">
+              {t('common.save')}
+            </Button>
+          </Flex>
+        </Form.Item>
+      </Form>
+    </Modal>
+  )
+}
+
+const TopViewKey = 'ApiServerKeyPopup'
+
+export default class ApiKeyPopup {
+  static topviewId = 0
+  static hide() {
+    TopView.hide(TopViewKey)
+  }
+  static show(props: ShowParams = {}) {
+    return new Promise<ApiServerKey | null>((resolve) => {
+      TopView.show(
+        <PopupContainer
+          {...props}
+          resolve={(v) => {
+            resolve(v)
+            this.hide()
+          }}
+        />,
+        TopViewKey
+      )
+    })
+  }
+}
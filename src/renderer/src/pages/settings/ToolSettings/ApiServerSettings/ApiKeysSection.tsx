@@ -0,0 +1,197 @@
+import { getApiServerKeyScopeLabel } from '@renderer/i18n/label'
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { addApiServerKey, removeApiServerKey, updateApiServerKey } from '@renderer/store/settings'
+import type { ApiServerKey } from '@renderer/types'
+import { Button, Empty, Switch, Tag, Tooltip } from 'antd'
+import dayjs from 'dayjs'
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react'
+import type { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import ApiKeyPopup from './ApiKeyPopup'
+
+const maskKey = (key: string) => `${key.slice(0, 8)}••••${key.slice(-4)}`
+
+const ApiKeysSection: FC = () => {
+  const keys = useAppSelector((state) => state.settings.apiServer.keys ?? [])
+  const dispatch = useAppDispatch()
+  const { t } = useTranslation()
+
+  const onAdd = async () => {
+    const key = await ApiKeyPopup.show()
+    if (key) {
+      dispatch(addApiServerKey(key))
+      navigator.clipboard.writeText(key.key)
+      window.toast.success(t('apiServer.keys.created'))
+    }
+  }
+
+  const onEdit = async (apiKey: ApiServerKey) => {
+    const key = await ApiKeyPopup.show({ apiKey })
+    if (key) {
+      dispatch(updateApiServerKey(key))
+    }
+  }
+
+  const onCopy = (apiKey: ApiServerKey) => {
+    navigator.clipboard.writeText(apiKey.key)
+    window.toast.success(t('apiServer.messages.apiKeyCopied'))
+  }
+
+  const onDelete = (apiKey: ApiServerKey) => {
+    window.modal.confirm({
+      title: t('apiServer.keys.delete'),
+      content: t('apiServer.keys.deleteConfirm', { name: apiKey.name }),
+      centered: true,
+      okButtonProps: { danger: true },
+      onOk: () => {
+        dispatch(removeApiServerKey(apiKey.id))
+      }
+    })
+  }
+
+  const formatLimit = (value: number | undefined, unit: string) =>
+    value ? `${value.toLocaleString()} ${unit}` : t('apiServer.keys.unlimited')
+
+  return (
+    <Section>
+      <SectionHeader>
+        <div>
+          <FieldLabel>{t('apiServer.keys.title')}</FieldLabel>
+          <FieldDescription>{t('apiServer.keys.description')}</FieldDescription>
+        </div>
+        <Button icon={<Plus size={14} />} onClick={onAdd}>
+          {t('apiServer.keys.add')}
+        </Button>
+      </SectionHeader>
+
+      {keys.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('apiServer.keys.empty')} />
+      ) : (
+        keys.map((apiKey) => (
+          <KeyRow key={apiKey.id} $disabled={!apiKey.enabled}>
+            <KeyInfo>
+              <KeyTitle>
+                <span>{apiKey.name}</span>
+                <KeyValue>{maskKey(apiKey.key)}</KeyValue>
+              </KeyTitle>
+              <div>
+                {apiKey.scopes.map((scope) => (
+                  <Tag key={scope}>{getApiServerKeyScopeLabel(scope)}</Tag>
+                ))}
+                {apiKey.allowedModels?.length ? (
+                  <Tooltip title={apiKey.allowedModels.join(', ')}>
+                    <Tag color="blue">{t('apiServer.keys.modelCount', { count: apiKey.allowedModels.length })}</Tag>
+                  </Tooltip>
+                ) : null}
+                {apiKey.allowedMcpServers?.length ? (
+                  <Tag color="purple">
+                    {t('apiServer.keys.mcpServerCount', { count: apiKey.allowedMcpServers.length })}
+                  </Tag>
+                ) : null}
+              </div>
+              <KeyMeta>
+                {formatLimit(apiKey.requestsPerMinute, t('apiServer.keys.rpm'))}
+                {' · '}
+                {formatLimit(apiKey.tokensPerMinute, t('apiServer.keys.tpm'))}
+                {' · '}
+                {apiKey.lastUsedAt
+                  ? t('apiServer.keys.lastUsed', { time: dayjs(apiKey.lastUsedAt).format('YYYY-MM-DD HH:mm') })
+                  : t('apiServer.keys.neverUsed')}
+              </KeyMeta>
+            </KeyInfo>
+            <KeyActions>
+              <Tooltip title={t('apiServer.fields.apiKey.copyTooltip')}>
+                <Button type="text" size="small" icon={<Copy size={14} />} onClick={() => onCopy(apiKey)} />
+              </Tooltip>
+              <Tooltip title={t('apiServer.keys.edit')}>
+                <Button type="text" size="small" icon={<Pencil size={14} />} onClick={() => onEdit(apiKey)} />
+              </Tooltip>
+              <Tooltip title={t('apiServer.keys.delete')}>
+                <Button type="text" size="small" danger icon={<Trash2 size={14} />} onClick={() => onDelete(apiKey)} />
+              </Tooltip>
+              <Switch
+                size="small"
+                checked={apiKey.enabled}
+                onChange={(enabled) => dispatch(updateApiServerKey({ id: apiKey.id, enabled }))}
+              />
+            </KeyActions>
+          </KeyRow>
+        ))
+      )}
+    </Section>
+  )
+}
+
+const Section = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 16px;
+  margin-top: 16px;
+  background: var(--color-background);
+  border-radius: 8px;
+  border: 1px solid var(--color-border);
+`
+
+const SectionHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`
+
+const FieldLabel = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  color: var(--color-text-1);
+`
+
+const FieldDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const KeyRow = styled.div<{ $disabled: boolean }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 10px 12px;
+  border-radius: 6px;
+  border: 1px solid var(--color-border-soft);
+  opacity: ${(props) => (props.$disabled ? 0.6 : 1)};
+`
+
+const KeyInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  min-width: 0;
+`
+
+const KeyTitle = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-weight: 500;
+`
+
+const KeyValue = styled.code`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const KeyMeta = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const KeyActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+`
+
+export default ApiKeysSection
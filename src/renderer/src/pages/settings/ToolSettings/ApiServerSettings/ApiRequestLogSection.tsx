@@ -0,0 +1,323 @@
+import { loggerService } from '@logger'
+import { useProviders } from '@renderer/hooks/useProvider'
+import { useAppDispatch, useAppSelector } from '@renderer/store'
+import { setApiServerRequestLog } from '@renderer/store/settings'
+import type { ApiRequestLogEntry, ApiRequestLogQuery, ApiUsageTotals } from '@renderer/types'
+import { getFancyProviderName } from '@renderer/utils/naming'
+import type { TableColumnsType } from 'antd'
+import { Button, Select, Switch, Table, Tag, Tooltip } from 'antd'
+import dayjs from 'dayjs'
+import { RefreshCw, Trash2 } from 'lucide-react'
+import type { FC } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+const logger = loggerService.withContext('ApiRequestLogSection')
+
+const PAGE_SIZE = 20
+const RETENTION_OPTIONS = [7, 30, 90, 180]
+const TIME_RANGES = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+} as const
+
+type TimeRange = keyof typeof TIME_RANGES | 'all'
+
+const formatCost = (cost: Record<string, number>) =>
+  Object.entries(cost)
+    .map(([currency, value]) => `${currency}${value.toFixed(4)}`)
+    .join(' + ') || '-'
+
+const ApiRequestLogSection: FC = () => {
+  const { t } = useTranslation()
+  const dispatch = useAppDispatch()
+  const { providers } = useProviders()
+  const keys = useAppSelector((state) => state.settings.apiServer.keys ?? [])
+  const requestLog = useAppSelector((state) => state.settings.apiServer.requestLog)
+
+  const [keyId, setKeyId] = useState<string>()
+  const [provider, setProvider] = useState<string>()
+  const [status, setStatus] = useState<ApiRequestLogQuery['status']>()
+  const [timeRange, setTimeRange] = useState<TimeRange>('day')
+  const [page, setPage] = useState(1)
+  const [entries, setEntries] = useState<ApiRequestLogEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [totals, setTotals] = useState<ApiUsageTotals>()
+  const [loading, setLoading] = useState(false)
+
+  const keyNames = useMemo(() => new Map(keys.map((key) => [key.id, key.name])), [keys])
+
+  const load = useCallback(async () => {
+    const filter = {
+      key_id: keyId,
+      provider,
+      status,
+      from: timeRange === 'all' ? undefined : Date.now() - TIME_RANGES[timeRange]
+    }
+
+    setLoading(true)
+    try {
+      const [logPage, usage] = await Promise.all([
+        window.api.apiServer.getRequestLog({ ...filter, offset: (page - 1) * PAGE_SIZE, limit: PAGE_SIZE }),
+        window.api.apiServer.getUsage(filter)
+      ])
+      setEntries(logPage.data)
+      setTotal(logPage.total)
+      setTotals(usage.total)
+    } catch (error) {
+      logger.error('Failed to load request log', error as Error)
+    } finally {
+      setLoading(false)
+    }
+  }, [keyId, provider, status, timeRange, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const onClear = () => {
+    window.modal.confirm({
+      title: t('apiServer.requestLog.clear'),
+      content: t('apiServer.requestLog.clearConfirm'),
+      centered: true,
+      okButtonProps: { danger: true },
+      onOk: async () => {
+        await window.api.apiServer.clearRequestLog()
+        setPage(1)
+        await load()
+      }
+    })
+  }
+
+  const columns: TableColumnsType<ApiRequestLogEntry> = [
+    {
+      title: t('apiServer.requestLog.columns.time'),
+      dataIndex: 'timestamp',
+      width: 150,
+      render: (timestamp: number) => dayjs(timestamp).format('MM-DD HH:mm:ss')
+    },
+    {
+      title: t('apiServer.requestLog.columns.key'),
+      dataIndex: 'keyId',
+      ellipsis: true,
+      render: (id: string | undefined, entry) => (id ? (keyNames.get(id) ?? entry.keyName ?? id) : '-')
+    },
+    {
+      title: t('apiServer.requestLog.columns.route'),
+      dataIndex: 'route',
+      ellipsis: true,
+      render: (route: string, entry) => `${entry.method} ${route}`
+    },
+    {
+      title: t('apiServer.requestLog.columns.model'),
+      dataIndex: 'model',
+      ellipsis: true,
+      render: (model: string | undefined, entry) => (model ? [entry.provider, model].filter(Boolean).join(':') : '-')
+    },
+    {
+      title: t('apiServer.requestLog.columns.status'),
+      dataIndex: 'status',
+      width: 80,
+      render: (code: number) => <Tag color={code >= 400 ? 'error' : 'success'}>{code}</Tag>
+    },
+    {
+      title: t('apiServer.requestLog.columns.latency'),
+      dataIndex: 'latencyMs',
+      width: 90,
+      render: (ms: number) => `${ms} ms`
+    },
+    {
+      title: t('apiServer.requestLog.columns.tokens'),
+      key: 'tokens',
+      width: 110,
+      render: (_, entry) =>
+        entry.inputTokens !== undefined || entry.outputTokens !== undefined
+          ? `${entry.inputTokens ?? 0} / ${entry.outputTokens ?? 0}`
+          : '-'
+    },
+    {
+      title: t('apiServer.requestLog.columns.cost'),
+      dataIndex: 'cost',
+      width: 100,
+      render: (cost: number | undefined, entry) => (cost ? formatCost({ [entry.currencySymbol || '$']: cost }) : '-')
+    }
+  ]
+
+  return (
+    <Section>
+      <SectionHeader>
+        <div>
+          <FieldLabel>{t('apiServer.requestLog.title')}</FieldLabel>
+          <FieldDescription>{t('apiServer.requestLog.description')}</FieldDescription>
+        </div>
+        <HeaderActions>
+          <Tooltip title={t('apiServer.requestLog.enabled')}>
+            <Switch
+              size="small"
+              checked={requestLog?.enabled ?? true}
+              onChange={(enabled) => dispatch(setApiServerRequestLog({ enabled }))}
+            />
+          </Tooltip>
+          <Select
+            size="small"
+            value={requestLog?.retentionDays ?? 30}
+            onChange={(retentionDays) => dispatch(setApiServerRequestLog({ retentionDays }))}
+            options={RETENTION_OPTIONS.map((days) => ({
+              value: days,
+              label: t('apiServer.requestLog.retention', { days })
+            }))}
+            style={{ width: 120 }}
+          />
+          <Tooltip title={t('common.refresh')}>
+            <Button size="small" type="text" icon={<RefreshCw size={14} />} onClick={load} />
+          </Tooltip>
+          <Tooltip title={t('apiServer.requestLog.clear')}>
+            <Button size="small" type="text" danger icon={<Trash2 size={14} />} onClick={onClear} />
+          </Tooltip>
+        </HeaderActions>
+      </SectionHeader>
+
+      <Filters>
+        <Select
+          size="small"
+          value={timeRange}
+          onChange={(value) => {
+            setTimeRange(value)
+            setPage(1)
+          }}
+          options={[
+            { value: 'day', label: t('apiServer.requestLog.range.day') },
+            { value: 'week', label: t('apiServer.requestLog.range.week') },
+            { value: 'month', label: t('apiServer.requestLog.range.month') },
+            { value: 'all', label: t('apiServer.requestLog.range.all') }
+          ]}
+          style={{ width: 130 }}
+        />
+        <Select
+          size="small"
+          allowClear
+          value={keyId}
+          placeholder={t('apiServer.requestLog.filters.allKeys')}
+          onChange={(value) => {
+            setKeyId(value)
+            setPage(1)
+          }}
+          options={[
+            { value: 'primary', label: t('apiServer.requestLog.primaryKey') },
+            ...keys.map((key) => ({ value: key.id, label: key.name }))
+          ]}
+          style={{ width: 160 }}
+        />
+        <Select
+          size="small"
+          allowClear
+          value={provider}
+          placeholder={t('apiServer.requestLog.filters.allProviders')}
+          onChange={(value) => {
+            setProvider(value)
+            setPage(1)
+          }}
+          options={providers.map((p) => ({ value: p.id, label: getFancyProviderName(p) }))}
+          style={{ width: 160 }}
+        />
+        <Select
+          size="small"
+          allowClear
+          value={status}
+          placeholder={t('apiServer.requestLog.filters.allStatuses')}
+          onChange={(value) => {
+            setStatus(value)
+            setPage(1)
+          }}
+          options={[
+            { value: 'success', label: t('apiServer.requestLog.filters.success') },
+            { value: 'error', label: t('apiServer.requestLog.filters.error') }
+          ]}
+          style={{ width: 120 }}
+        />
+      </Filters>
+
+      {totals && (
+        <Summary>
+          <span>{t('apiServer.requestLog.summary.requests', { count: totals.requests })}</span>
+          <span>{t('apiServer.requestLog.summary.errors', { count: totals.errors })}</span>
+          <span>
+            {t('apiServer.requestLog.summary.tokens', {
+              input: totals.input_tokens.toLocaleString(),
+              output: totals.output_tokens.toLocaleString()
+            })}
+          </span>
+          <span>{t('apiServer.requestLog.summary.cost', { cost: formatCost(totals.cost) })}</span>
+        </Summary>
+      )}
+
+      <Table
+        size="small"
+        rowKey="id"
+        loading={loading}
+        columns={columns}
+        dataSource={entries}
+        pagination={{
+          current: page,
+          pageSize: PAGE_SIZE,
+          total,
+          showSizeChanger: false,
+          onChange: setPage
+        }}
+      />
+    </Section>
+  )
+}
+
+const Section = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  padding: 16px;
+  margin-top: 16px;
+  background: var(--color-background);
+  border-radius: 8px;
+  border: 1px solid var(--color-border);
+`
+
+const SectionHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`
+
+const HeaderActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`
+
+const FieldLabel = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  color: var(--color-text-1);
+`
+
+const FieldDescription = styled.div`
+  font-size: 12px;
+  color: var(--color-text-3);
+`
+
+const Filters = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+`
+
+const Summary = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 16px;
+  font-size: 12px;
+  color: var(--color-text-2);
+`
+
+export default ApiRequestLogSection
@@ -14,6 +14,8 @@ import styled from 'styled-components'
 import { v4 as uuidv4 } from 'uuid'
 
 import { SettingContainer } from '../..'
+import ApiKeysSection from './ApiKeysSection'
+import ApiRequestLogSection from './ApiRequestLogSection'
 
 const { Text, Title } = Typography
 
@@ -186,6 +188,10 @@ const ApiServerSettings: FC = () => {
           />
         </AuthHeaderSection>
       </ConfigurationField>
+
+      <ApiKeysSection />
+
+      <ApiRequestLogSection />
     </Container>
   )
 }
@@ -7,18 +7,21 @@ import store from '@renderer/store'
 import {
   clearCompletedProcessing,
   updateBaseItemIsPreprocessed,
+  updateBaseItemLastSyncedAt,
   updateBaseItemUniqueId,
   updateItemProcessingStatus
 } from '@renderer/store/knowledge'
 import type { KnowledgeItem } from '@renderer/types'
 import { uuid } from '@renderer/utils'
-import type { LoaderReturn } from '@shared/config/types'
+import type { KnowledgeDirectorySyncReturn, LoaderReturn } from '@shared/config/types'
 import { t } from 'i18next'
 
 const logger = loggerService.withContext('KnowledgeQueue')
 
 class KnowledgeQueue {
   private processing: Map<string, boolean> = new Map()
+  // Directory items that changed while they were queued or being processed
+  private pendingDirectorySyncs: Set<string> = new Set()
   private readonly MAX_RETRIES = 1
 
   public async checkAllBases(): Promise<void> {
@@ -84,6 +87,69 @@ class KnowledgeQueue {
     }
   }
 
+  /**
+   * Incrementally sync a directory item with its folder, only touching added, modified and deleted files.
+   * Items that are still queued or processing are synced again once they complete.
+   */
+  public async syncDirectory(baseId: string, itemId: string): Promise<KnowledgeDirectorySyncReturn | null> {
+    const base = store.getState().knowledge.bases.find((b) => b.id === baseId)
+    const item = base?.items.find((i) => i.id === itemId)
+
+    if (!base || !item || item.type !== 'directory') {
+      return null
+    }
+
+    if (item.processingStatus === 'pending' || item.processingStatus === 'processing') {
+      this.pendingDirectorySyncs.add(itemId)
+      return null
+    }
+
+    // Never embedded successfully, a full pass is needed rather than a sync
+    if (!item.uniqueId) {
+      return null
+    }
+
+    store.dispatch(updateItemProcessingStatus({ baseId, itemId, status: 'processing' }))
+
+    const result = await window.api.knowledgeBase.syncDirectory({ base: getKnowledgeBaseParams(base), item })
+
+    if (result.status === 'failed') {
+      logger.error(`Failed to sync directory item ${itemId}: ${result.message}`)
+      NotificationService.getInstance().send({
+        id: uuid(),
+        type: 'error',
+        title: t('common.knowledge_base'),
+        message: t('notification.knowledge.error', { error: result.message }),
+        silent: false,
+        timestamp: Date.now(),
+        source: 'knowledge'
+      })
+      // A failed sync keeps the previous embeddings, don't let the queue re-add the whole directory
+      store.dispatch(
+        updateItemProcessingStatus({
+          baseId,
+          itemId,
+          status: 'failed',
+          error: result.message,
+          retryCount: this.MAX_RETRIES
+        })
+      )
+      return result
+    }
+
+    logger.info(`Synced directory item ${itemId}`, {
+      added: result.added,
+      updated: result.updated,
+      removed: result.removed
+    })
+    store.dispatch(updateBaseItemUniqueId({ baseId, itemId, uniqueId: result.uniqueId, uniqueIds: result.uniqueIds }))
+    store.dispatch(updateBaseItemLastSyncedAt({ baseId, itemId, lastSyncedAt: result.syncedAt }))
+    store.dispatch(updateItemProcessingStatus({ baseId, itemId, status: 'completed' }))
+    store.dispatch(clearCompletedProcessing({ baseId }))
+
+    return result
+  }
+
   stopProcessing(baseId: string): void {
     this.processing.set(baseId, false)
   }
@@ -224,10 +290,17 @@ class KnowledgeQueue {
             isPreprocessed: !!base.preprocessProvider
           })
         )
+        if (item.type === 'directory') {
+          store.dispatch(updateBaseItemLastSyncedAt({ baseId, itemId: item.id, lastSyncedAt: Date.now() }))
+        }
       }
       logger.info(`Updated uniqueId for item ${item.id} in base ${baseId} `)
 
       store.dispatch(clearCompletedProcessing({ baseId }))
+
+      if (this.pendingDirectorySyncs.delete(item.id)) {
+        await this.syncDirectory(baseId, item.id)
+      }
     } catch (error) {
       logger.error(`Error processing item ${item.id}: `, error as Error)
       notificationService.send({
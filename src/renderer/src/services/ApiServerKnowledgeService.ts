@@ -0,0 +1,44 @@
+import { loggerService } from '@logger'
+import KnowledgeQueue from '@renderer/queue/KnowledgeQueue'
+import store from '@renderer/store'
+import { addItemThunk, addNoteThunk } from '@renderer/store/thunk/knowledgeThunk'
+import { getErrorMessage } from '@renderer/utils/error'
+import type { ApiServerKnowledgeRequest } from '@shared/config/types'
+
+import { getKnowledgeBaseParams } from './KnowledgeService'
+
+const logger = loggerService.withContext('ApiServerKnowledgeService')
+
+async function processRequest(request: ApiServerKnowledgeRequest): Promise<unknown> {
+  const base = store.getState().knowledge.bases.find((b) => b.id === request.baseId)
+  if (!base) {
+    throw new Error(`Knowledge base ${request.baseId} not found`)
+  }
+
+  switch (request.action) {
+    case 'get-base-params':
+      return getKnowledgeBaseParams(base)
+    case 'add-item': {
+      const item =
+        request.type === 'note'
+          ? await store.dispatch(addNoteThunk(base.id, request.content))
+          : store.dispatch(addItemThunk(base.id, 'url', request.content))
+      KnowledgeQueue.checkAllBases()
+      return item
+    }
+  }
+}
+
+/**
+ * 处理 API 服务器的知识库请求：知识库状态和 embedding 参数都在渲染进程中
+ */
+export async function handleApiServerKnowledgeRequest(request: ApiServerKnowledgeRequest) {
+  const { requestId } = request
+  try {
+    const result = await processRequest(request)
+    await window.api.apiServer.respondToKnowledgeRequest({ requestId, result })
+  } catch (error) {
+    logger.error(`API server knowledge request ${request.action} failed`, error as Error)
+    await window.api.apiServer.respondToKnowledgeRequest({ requestId, error: getErrorMessage(error) })
+  }
+}
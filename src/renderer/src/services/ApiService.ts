@@ -2,10 +2,12 @@
  * 职责：提供原子化的、无状态的API调用函数
  */
 import { loggerService } from '@logger'
+import type { CreateMessageRequestParams, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js'
 import type { AiSdkMiddlewareConfig } from '@renderer/aiCore/middleware/AiSdkMiddlewareBuilder'
 import { buildStreamTextParams } from '@renderer/aiCore/prepareParams'
 import { buildProviderOptions } from '@renderer/aiCore/utils/options'
 import { isDedicatedImageGenerationModel, isEmbeddingModel, isFunctionCallingModel } from '@renderer/config/models'
+import { CONTEXT_COMPACT_PROMPT } from '@renderer/config/prompts'
 import { getStoreSetting } from '@renderer/hooks/useSettings'
 import i18n from '@renderer/i18n'
 import store from '@renderer/store'
@@ -21,7 +23,14 @@ import { trackTokenUsage } from '@renderer/utils/analytics'
 import { isToolUseModeFunction } from '@renderer/utils/assistant'
 import { getErrorMessage, isAbortError } from '@renderer/utils/error'
 import { purifyMarkdownImages } from '@renderer/utils/markdown'
+import { samplingMessagesToModelMessages, toSamplingStopReason } from '@renderer/utils/mcp-client-requests'
 import { isPromptToolUse, isSupportedToolUse } from '@renderer/utils/mcp-tools'
+import {
+  applyTopicMcpProfile,
+  filterServersByProfile,
+  filterToolsByProfile,
+  resolveMcpProfile
+} from '@renderer/utils/mcpProfile'
 import { findFileBlocks, getMainTextContent } from '@renderer/utils/messageUtils/find'
 import { containsSupportedVariables, replacePromptVariables } from '@renderer/utils/prompt'
 import { NOT_SUPPORT_API_KEY_PROVIDER_TYPES, NOT_SUPPORT_API_KEY_PROVIDERS } from '@renderer/utils/provider'
@@ -40,7 +49,10 @@ import {
 import { ConversationService } from './ConversationService'
 import { injectUserMessageWithKnowledgeSearchPrompt } from './KnowledgeService'
 import type { BlockManager } from './messageStreaming'
+import { runWithModelFailover } from './ModelFailoverService'
+import { checkProviderBudget } from './SpendBudgetService'
 import type { StreamProcessorCallbacks } from './StreamProcessingService'
+import { contextTokenEstimator } from './TokenService'
 // import { processKnowledgeSearch } from './KnowledgeService'
 // import {
 //   filterContextMessages,
@@ -71,6 +83,10 @@ export function getMcpServersForAssistant(assistant: Assistant): MCPServer[] {
       const assistantMcpServers = assistant.mcpServers || []
       return activedMcpServers.filter((server) => assistantMcpServers.some((s) => s.id === server.id))
     }
+    case 'profile': {
+      const profile = resolveMcpProfile(store.getState().mcp.profiles ?? [], assistant)
+      return profile ? filterServersByProfile(activedMcpServers, profile) : []
+    }
     default:
       return []
   }
@@ -109,6 +125,15 @@ export async function fetchMcpTools(assistant: Assistant) {
   let mcpTools: MCPTool[] = []
   const enabledMCPs = getMcpServersForAssistant(assistant)
 
+  // 先同步根目录，服务器在连接后就可能请求 roots/list；没有启用的服务器时也要同步，以便不再计入之前使用的服务器
+  await window.api.mcp
+    .setRoots(
+      assistant.id,
+      (enabledMCPs ?? []).map((server) => server.id),
+      assistant.accessiblePaths ?? []
+    )
+    .catch((error) => logger.warn('Failed to set MCP roots:', error as Error))
+
   if (enabledMCPs && enabledMCPs.length > 0) {
     try {
       const toolPromises = enabledMCPs.map(async (mcpServer: MCPServer) => {
@@ -125,6 +150,11 @@ export async function fetchMcpTools(assistant: Assistant) {
         .filter((result): result is PromiseFulfilledResult<MCPTool[]> => result.status === 'fulfilled')
         .map((result) => result.value)
         .flat()
+
+      const profile = resolveMcpProfile(store.getState().mcp.profiles ?? [], assistant)
+      if (profile) {
+        mcpTools = filterToolsByProfile(mcpTools, profile)
+      }
     } catch (toolError) {
       logger.error('Error fetching MCP tools:', toolError as Error)
     }
@@ -157,7 +187,11 @@ export async function transformMessagesAndFetch(
   const { messages, assistant } = request
 
   try {
-    const { modelMessages, uiMessages } = await ConversationService.prepareMessagesForModel(messages, assistant)
+    const { modelMessages, uiMessages } = await ConversationService.prepareMessagesForModel(
+      messages,
+      assistant,
+      contextTokenEstimator
+    )
 
     // replace prompt variables
     assistant.prompt = await replacePromptVariables(assistant.prompt, assistant.model?.name)
@@ -172,14 +206,23 @@ export async function transformMessagesAndFetch(
       setCitationBlockId: request.callbacks.setCitationBlockId!
     })
 
-    await fetchChatCompletion({
-      messages: modelMessages,
-      assistant: assistant,
-      topicId: request.topicId,
-      requestOptions: request.options,
-      uiMessages,
-      onChunkReceived
-    })
+    await runWithModelFailover(
+      {
+        assistant,
+        signal: request.options.signal,
+        onChunkReceived,
+        onModelFailover: request.callbacks.onModelFailover
+      },
+      (assistantForRequest, onChunk) =>
+        fetchChatCompletion({
+          messages: modelMessages,
+          assistant: assistantForRequest,
+          topicId: request.topicId,
+          requestOptions: request.options,
+          uiMessages,
+          onChunkReceived: onChunk
+        })
+    )
   } catch (error: any) {
     onChunkReceived({ type: ChunkType.ERROR, error })
   }
@@ -204,10 +247,18 @@ export async function fetchChatCompletion({
     modelName: assistant.model?.name
   })
 
+  // 话题选择的 MCP 配置覆盖助手自身的 MCP 设置
+  const state = store.getState()
+  const topic = topicId
+    ? state.assistants.assistants.find((a) => a.id === assistant.id)?.topics.find((t) => t.id === topicId)
+    : undefined
+  assistant = applyTopicMcpProfile(assistant, topic, state.mcp.profiles ?? [])
+
   // Get base provider and apply API key rotation
   // NOTE: Shallow copy is intentional. Provider objects are not mutated by downstream code.
   // Nested properties (if any) are never modified after creation.
   const baseProvider = getProviderByModel(assistant.model || getDefaultModel())
+  await checkProviderBudget(baseProvider)
   const providerWithRotatedKey = {
     ...baseProvider,
     apiKey: getRotatedApiKey(baseProvider)
@@ -403,6 +454,103 @@ export async function fetchMessagesSummary({
   }
 }
 
+/**
+ * 将较早的对话折叠进上下文摘要，返回更新后的完整摘要
+ */
+export async function fetchContextSummary({
+  messages,
+  previousSummary,
+  assistant
+}: {
+  messages: Message[]
+  previousSummary?: string
+  assistant: Assistant
+}): Promise<{ text: string | null; error?: string }> {
+  const model = getQuickModel() || assistant?.model || getDefaultModel()
+  const provider = getProviderByModel(model)
+
+  if (!hasApiKey(provider)) {
+    return { text: null, error: i18n.t('error.no_api_key') }
+  }
+
+  const providerWithRotatedKey = {
+    ...provider,
+    apiKey: getRotatedApiKey(provider)
+  }
+
+  const AI = new AiProviderNew(model, providerWithRotatedKey)
+  const actualProvider = AI.getActualProvider()
+
+  const topicId = messages.find((message) => message.topicId)?.topicId || ''
+
+  // 与话题命名相同，用单条结构化的消息表示会话内容
+  const conversation = JSON.stringify(
+    messages.map((message) => {
+      const files = findFileBlocks(message).map((fileBlock) => fileBlock.file.origin_name)
+      return {
+        role: message.role,
+        mainText: purifyMarkdownImages(getMainTextContent(message)),
+        files: files.length > 0 ? files : undefined
+      }
+    })
+  )
+  const prompt = [
+    previousSummary ? `<previous_summary>\n${previousSummary}\n</previous_summary>` : '',
+    `<conversation>\n${conversation}\n</conversation>`
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  const summaryAssistant = {
+    ...assistant,
+    settings: {
+      ...assistant.settings,
+      reasoning_effort: undefined,
+      qwenThinkMode: false
+    },
+    prompt: CONTEXT_COMPACT_PROMPT,
+    model
+  }
+
+  const { providerOptions, standardParams } = buildProviderOptions(summaryAssistant, model, actualProvider, {
+    enableReasoning: false,
+    enableWebSearch: false,
+    enableGenerateImage: false
+  })
+
+  const middlewareConfig: AiSdkMiddlewareConfig = {
+    streamOutput: false,
+    enableReasoning: false,
+    isPromptToolUse: false,
+    isSupportedToolUse: false,
+    isImageGenerationEndpoint: false,
+    enableWebSearch: false,
+    enableGenerateImage: false,
+    enableUrlContext: false,
+    mcpTools: []
+  }
+
+  try {
+    const { getText, usage } = await AI.completions(
+      model.id,
+      { system: CONTEXT_COMPACT_PROMPT, prompt, providerOptions, ...standardParams },
+      {
+        ...middlewareConfig,
+        assistant: summaryAssistant,
+        topicId,
+        callType: 'summary'
+      }
+    )
+
+    trackTokenUsage({ usage, model })
+
+    const text = getText().trim()
+    return text ? { text } : { text: null, error: i18n.t('error.no_response') }
+  } catch (error: any) {
+    return { text: null, error: getErrorMessage(error) }
+  }
+}
+
 export async function fetchNoteSummary({ content, assistant }: { content: string; assistant?: Assistant }) {
   let prompt = (getStoreSetting('topicNamingPrompt') as string) || i18n.t('prompts.title')
   const resolvedAssistant = assistant || getDefaultAssistant()
@@ -571,6 +719,65 @@ export async function fetchGenerate({
   }
 }
 
+/**
+ * 使用用户选择的模型响应 MCP 服务器的 sampling/createMessage 请求
+ */
+export async function fetchMcpSampling({
+  params,
+  model
+}: {
+  params: CreateMessageRequestParams
+  model: Model
+}): Promise<CreateMessageResult> {
+  const provider = getProviderByModel(model)
+
+  if (!hasApiKey(provider)) {
+    throw new Error(i18n.t('error.no_api_key'))
+  }
+
+  const providerWithRotatedKey = {
+    ...provider,
+    apiKey: getRotatedApiKey(provider)
+  }
+
+  const AI = new AiProviderNew(model, providerWithRotatedKey)
+
+  const assistant = getDefaultAssistant()
+  assistant.model = model
+
+  const result = await AI.completions(
+    model.id,
+    {
+      system: params.systemPrompt,
+      messages: samplingMessagesToModelMessages(params.messages),
+      maxOutputTokens: params.maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences
+    },
+    {
+      streamOutput: false,
+      enableReasoning: false,
+      isPromptToolUse: false,
+      isSupportedToolUse: false,
+      isImageGenerationEndpoint: false,
+      enableWebSearch: false,
+      enableGenerateImage: false,
+      enableUrlContext: false,
+      assistant,
+      callType: 'generate'
+    }
+  )
+
+  trackTokenUsage({ usage: result.usage, model })
+
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: result.getText() || '' },
+    model: model.id,
+    stopReason: toSamplingStopReason(result.finishReason, result.providerMetadata)
+  }
+}
+
 export function hasApiKey(provider: Provider) {
   if (!provider) return false
   if (provider.id === 'cherryai') return true
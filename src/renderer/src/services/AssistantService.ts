@@ -6,7 +6,7 @@ import {
   MAX_CONTEXT_COUNT,
   UNLIMITED_CONTEXT_COUNT
 } from '@renderer/config/constant'
-import { getModelSupportedReasoningEffortOptions } from '@renderer/config/models'
+import { getDefaultContextTokenBudget, getModelSupportedReasoningEffortOptions } from '@renderer/config/models'
 import { isQwenMTModel } from '@renderer/config/models/qwen'
 import { UNKNOWN } from '@renderer/config/translate'
 import { getStoreProviders } from '@renderer/hooks/useStore'
@@ -48,6 +48,8 @@ export const DEFAULT_ASSISTANT_SETTINGS = {
   topP: 1,
   enableTopP: false,
   contextCount: DEFAULT_CONTEXTCOUNT,
+  enableContextBudget: false,
+  contextTokenBudget: undefined,
   streamOutput: true,
   defaultModel: undefined,
   customParameters: [],
@@ -220,7 +222,8 @@ export function getProviderByModelId(modelId?: string) {
  * 1. **Context Count**: Converts `MAX_CONTEXT_COUNT` to `UNLIMITED_CONTEXT_COUNT` for internal processing
  * 2. **Max Tokens**: Only returns a value when `enableMaxTokens` is true, otherwise returns `undefined`
  * 3. **Max Tokens Validation**: Ensures maxTokens > 0, falls back to `DEFAULT_MAX_TOKENS` if invalid
- * 4. **Fallback Defaults**: Applies system defaults for all undefined/missing settings
+ * 4. **Context Token Budget**: Only returns a value when `enableContextBudget` is true, defaults to a share of the model's context length
+ * 5. **Fallback Defaults**: Applies system defaults for all undefined/missing settings
  *
  * @param assistant - The assistant instance to extract settings from
  * @returns Normalized assistant settings with all transformations applied
@@ -237,9 +240,20 @@ export const getAssistantSettings = (assistant: Assistant): AssistantSettings =>
     }
     return undefined
   }
+  const getAssistantContextTokenBudget = () => {
+    if (assistant.settings?.enableContextBudget) {
+      const budget = assistant.settings.contextTokenBudget
+      return typeof budget === 'number' && budget > 0
+        ? budget
+        : getDefaultContextTokenBudget(assistant.model ?? getDefaultModel())
+    }
+    return undefined
+  }
 
   return {
     contextCount: contextCount === MAX_CONTEXT_COUNT ? UNLIMITED_CONTEXT_COUNT : contextCount,
+    enableContextBudget: assistant?.settings?.enableContextBudget ?? DEFAULT_ASSISTANT_SETTINGS.enableContextBudget,
+    contextTokenBudget: getAssistantContextTokenBudget(),
     temperature: assistant?.settings?.temperature ?? DEFAULT_TEMPERATURE,
     enableTemperature: assistant?.settings?.enableTemperature ?? DEFAULT_ASSISTANT_SETTINGS.enableTemperature,
     topP: assistant?.settings?.topP ?? DEFAULT_ASSISTANT_SETTINGS.topP,
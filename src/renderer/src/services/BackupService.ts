@@ -1,4 +1,5 @@
 import { loggerService } from '@logger'
+import BackupPassphrasePopup from '@renderer/components/Popups/BackupPassphrasePopup'
 import db from '@renderer/databases'
 import { upgradeToV7, upgradeToV8 } from '@renderer/databases/upgrades'
 import i18n from '@renderer/i18n'
@@ -6,6 +7,7 @@ import store from '@renderer/store'
 import { setLocalBackupSyncState, setS3SyncState, setWebDAVSyncState } from '@renderer/store/backup'
 import type { S3Config, WebDavConfig } from '@renderer/types'
 import { uuid } from '@renderer/utils'
+import { BACKUP_PASSPHRASE_INVALID, BACKUP_PASSPHRASE_REQUIRED } from '@shared/config/constant'
 import dayjs from 'dayjs'
 
 import { NotificationService } from './NotificationService'
@@ -62,12 +64,65 @@ async function deleteWebdavFileWithRetry(fileName: string, webdavConfig: WebDavC
   return false
 }
 
+/**
+ * 开启备份加密时返回加密口令：优先使用系统密钥库中保存的口令，
+ * 未保存时手动备份提示用户输入，自动备份直接报错
+ */
+export async function getBackupPassphrase(interactive: boolean): Promise<string | undefined> {
+  if (!store.getState().settings.backupEncryption) {
+    return undefined
+  }
+
+  const stored = await window.api.backup.getStoredPassphrase()
+  if (stored) {
+    return stored
+  }
+
+  if (interactive) {
+    const passphrase = await BackupPassphrasePopup.show({ mode: 'set' })
+    if (passphrase) {
+      return passphrase
+    }
+  }
+
+  throw new Error(i18n.t('settings.data.backup.encryption.missing'))
+}
+
+const isPassphraseError = (error: unknown, code: string) => error instanceof Error && error.message.includes(code)
+
+/**
+ * 执行恢复：备份已加密且口令缺失或错误时，提示用户输入口令后重试
+ */
+export async function withBackupPassphrase<T>(restore: (passphrase?: string) => Promise<T>): Promise<T> {
+  const stored = (await window.api.backup.getStoredPassphrase()) ?? undefined
+  let passphrase = stored
+
+  while (true) {
+    try {
+      return await restore(passphrase)
+    } catch (error) {
+      const invalid = isPassphraseError(error, BACKUP_PASSPHRASE_INVALID)
+      if (!invalid && !isPassphraseError(error, BACKUP_PASSPHRASE_REQUIRED)) {
+        throw error
+      }
+
+      // 保存的口令与该备份不匹配时不提示错误，只要求输入
+      const entered = await BackupPassphrasePopup.show({ mode: 'enter', invalid: invalid && passphrase !== stored })
+      if (!entered) {
+        throw new Error(i18n.t('settings.data.backup.encryption.cancelled'))
+      }
+      passphrase = entered
+    }
+  }
+}
+
 export async function backup(skipBackupFile: boolean) {
   const filename = `cherry-studio.${dayjs().format('YYYYMMDDHHmm')}.zip`
   const fileContnet = await getBackupData()
   const selectFolder = await window.api.file.selectFolder()
   if (selectFolder) {
-    await window.api.backup.backup(filename, fileContnet, selectFolder, skipBackupFile)
+    const passphrase = await getBackupPassphrase(true)
+    await window.api.backup.backup(filename, fileContnet, selectFolder, skipBackupFile, passphrase)
     window.toast.success(i18n.t('message.backup.success'))
   }
 }
@@ -82,7 +137,9 @@ export async function restore() {
 
       // zip backup file
       if (file?.fileName.endsWith('.zip')) {
-        const restoreData = await window.api.backup.restore(file.filePath)
+        const restoreData = await withBackupPassphrase((passphrase) =>
+          window.api.backup.restore(file.filePath, passphrase)
+        )
         data = JSON.parse(restoreData)
       } else {
         data = JSON.parse(await window.api.zip.decompress(file.content))
@@ -186,6 +243,7 @@ export async function backupToWebdav({
 
   // 上传文件
   try {
+    const passphrase = await getBackupPassphrase(!autoBackupProcess)
     const success = await window.api.backup.backupToWebdav(backupData, {
       webdavHost,
       webdavUser,
@@ -193,7 +251,8 @@ export async function backupToWebdav({
       webdavPath,
       fileName: finalFileName,
       skipBackupFile: webdavSkipBackupFile,
-      disableStream: webdavDisableStream
+      disableStream: webdavDisableStream,
+      passphrase
     })
     if (success) {
       store.dispatch(
@@ -304,7 +363,9 @@ export async function restoreFromWebdav(fileName?: string) {
   let data = ''
 
   try {
-    data = await window.api.backup.restoreFromWebdav({ webdavHost, webdavUser, webdavPass, webdavPath, fileName })
+    data = await withBackupPassphrase((passphrase) =>
+      window.api.backup.restoreFromWebdav({ webdavHost, webdavUser, webdavPass, webdavPath, fileName, passphrase })
+    )
   } catch (error: any) {
     logger.error('[Backup] restoreFromWebdav: Error downloading file from WebDAV:', error)
     window.modal.error({
@@ -359,9 +420,11 @@ export async function backupToS3({
   const backupData = await getBackupData()
 
   try {
+    const passphrase = await getBackupPassphrase(!autoBackupProcess)
     const success = await window.api.backup.backupToS3(backupData, {
       ...s3Config,
-      fileName: finalFileName
+      fileName: finalFileName,
+      passphrase
     })
 
     if (success) {
@@ -465,10 +528,13 @@ export async function restoreFromS3(fileName?: string) {
   }
 
   if (fileName) {
-    const restoreData = await window.api.backup.restoreFromS3({
-      ...s3Config,
-      fileName
-    })
+    const restoreData = await withBackupPassphrase((passphrase) =>
+      window.api.backup.restoreFromS3({
+        ...s3Config,
+        fileName,
+        passphrase
+      })
+    )
     const data = JSON.parse(restoreData)
     await handleData(data)
   }
@@ -881,8 +947,11 @@ export async function handleData(data: Record<string, any>) {
   window.toast.error(i18n.t('error.backup.file_format'))
 }
 
+// Derived data rebuilt from the messages after startup, not worth carrying in backups
+const DERIVED_TABLES = ['message_search_index']
+
 async function backupDatabase() {
-  const tables = db.tables
+  const tables = db.tables.filter((table) => !DERIVED_TABLES.includes(table.name))
   const backup = {}
 
   for (const table of tables) {
@@ -895,9 +964,17 @@ async function backupDatabase() {
 async function restoreDatabase(backup: Record<string, any>) {
   await db.transaction('rw', db.tables, async () => {
     for (const tableName in backup) {
+      if (DERIVED_TABLES.includes(tableName)) {
+        continue
+      }
       await db.table(tableName).clear()
       await db.table(tableName).bulkAdd(backup[tableName])
     }
+
+    // The restored messages are indexed again after the relaunch
+    for (const tableName of DERIVED_TABLES) {
+      await db.table(tableName).clear()
+    }
   })
 }
 
@@ -957,9 +1034,11 @@ export async function backupToLocal({
   const backupData = await getBackupData()
 
   try {
+    const passphrase = await getBackupPassphrase(!autoBackupProcess)
     const result = await window.api.backup.backupToLocalDir(backupData, finalFileName, {
       localBackupDir,
-      skipBackupFile: localBackupSkipBackupFile
+      skipBackupFile: localBackupSkipBackupFile,
+      passphrase
     })
 
     if (result) {
@@ -1067,7 +1146,9 @@ export async function restoreFromLocal(fileName: string) {
   try {
     const { localBackupDir: localBackupDirSetting } = store.getState().settings
     const localBackupDir = await window.api.resolvePath(localBackupDirSetting)
-    const restoreData = await window.api.backup.restoreFromLocalBackup(fileName, localBackupDir)
+    const restoreData = await withBackupPassphrase((passphrase) =>
+      window.api.backup.restoreFromLocalBackup(fileName, localBackupDir, passphrase)
+    )
     const data = JSON.parse(restoreData)
     await handleData(data)
 
@@ -1,45 +1,76 @@
 import { loggerService } from '@logger'
 import { convertMessagesToSdkMessages } from '@renderer/aiCore/prepareParams'
-import type { Assistant, Message } from '@renderer/types'
+import { CONTEXT_SUMMARY_PROMPT } from '@renderer/config/prompts'
+import type { Assistant, Message, Model } from '@renderer/types'
 import { filterAdjacentUserMessaegs, filterLastAssistantMessage } from '@renderer/utils/messageUtils/filters'
+import { findAllBlocks } from '@renderer/utils/messageUtils/find'
+import { isCompactBlock } from '@renderer/utils/messageUtils/is'
 import type { ModelMessage } from 'ai'
-import { findLast, isEmpty, takeRight } from 'lodash'
+import { findLast, isEmpty, sumBy, takeRight } from 'lodash'
 
 import { getAssistantSettings, getDefaultModel } from './AssistantService'
 import {
   filterAfterContextClearMessages,
+  filterAfterContextCompactMessages,
   filterEmptyMessages,
   filterErrorOnlyMessagesWithRelated,
   filterUsefulMessages,
-  filterUserRoleStartMessages
+  filterUserRoleStartMessages,
+  findContextCompactMessage
 } from './MessagesService'
 
 const logger = loggerService.withContext('ConversationService')
 
+// 自动折叠后保留的最近上下文占预算的比例，避免每轮都重新生成摘要
+const COMPACT_KEEP_RATIO = 0.5
+
+/**
+ * 按 token 预算裁剪上下文时使用的估算函数，由调用方传入（通常是 TokenService 的 contextTokenEstimator）
+ */
+export interface ContextTokenEstimator {
+  preloadMessageTokens: (messages: Message[], model?: Model) => Promise<void>
+  estimateMessageTokens: (message: Message, model?: Model) => number
+  estimateTextTokens: (text: string, model?: Model) => number
+}
+
+export interface ContextTokenLimit {
+  budget: number
+  estimator: ContextTokenEstimator
+  model?: Model
+}
+
 export class ConversationService {
   /**
    * Applies the filtering pipeline that prepares UI messages for model consumption.
    * This keeps the logic testable and prevents future regressions when the pipeline changes.
+   * With a token limit the history is trimmed by estimated tokens instead of `contextCount`.
    */
-  static filterMessagesPipeline(messages: Message[], contextCount: number): Message[] {
+  static filterMessagesPipeline(messages: Message[], contextCount: number, tokenLimit?: ContextTokenLimit): Message[] {
     const messagesAfterContextClear = filterAfterContextClearMessages(messages)
-    const usefulMessages = filterUsefulMessages(messagesAfterContextClear)
+    const messagesAfterCompact = filterAfterContextCompactMessages(messagesAfterContextClear)
+    const usefulMessages = filterUsefulMessages(messagesAfterCompact)
     // Run the error-only filter before trimming trailing assistant responses so the pair is removed together.
     const withoutErrorOnlyPairs = filterErrorOnlyMessagesWithRelated(usefulMessages)
     const withoutTrailingAssistant = filterLastAssistantMessage(withoutErrorOnlyPairs)
     const withoutAdjacentUsers = filterAdjacentUserMessaegs(withoutTrailingAssistant)
-    const limitedByContext = takeRight(withoutAdjacentUsers, contextCount + 2)
+    const limitedByContext = tokenLimit
+      ? ConversationService.limitMessagesByTokenBudget(withoutAdjacentUsers, tokenLimit)
+      : takeRight(withoutAdjacentUsers, contextCount + 2)
     const contextClearFiltered = filterAfterContextClearMessages(limitedByContext)
     const nonEmptyMessages = filterEmptyMessages(contextClearFiltered)
     const userRoleStartMessages = filterUserRoleStartMessages(nonEmptyMessages)
     return userRoleStartMessages
   }
 
+  /**
+   * Without `tokenEstimator` the context is limited by `contextCount` even if the assistant has a token budget.
+   */
   static async prepareMessagesForModel(
     messages: Message[],
-    assistant: Assistant
+    assistant: Assistant,
+    tokenEstimator?: ContextTokenEstimator
   ): Promise<{ modelMessages: ModelMessage[]; uiMessages: Message[] }> {
-    const { contextCount } = getAssistantSettings(assistant)
+    const { contextCount, contextTokenBudget } = getAssistantSettings(assistant)
     // This logic is extracted from the original ApiService.fetchChatCompletion
     // const contextMessages = filterContextMessages(messages)
     const lastUserMessage = findLast(messages, (m) => m.role === 'user')
@@ -50,7 +81,18 @@ export class ConversationService {
       }
     }
 
-    const uiMessagesFromPipeline = ConversationService.filterMessagesPipeline(messages, contextCount)
+    const model = assistant.model || getDefaultModel()
+    const contextSummary = ConversationService.getContextSummary(messages)
+    let tokenLimit: ContextTokenLimit | undefined
+    if (contextTokenBudget !== undefined && tokenEstimator) {
+      // 先用模型的分词器统计上下文，之后按预算裁剪时直接使用统计结果
+      await tokenEstimator.preloadMessageTokens(filterAfterContextClearMessages(messages), model)
+      // 摘要同样占用上下文预算
+      const summaryTokens = contextSummary ? tokenEstimator.estimateTextTokens(contextSummary, model) : 0
+      tokenLimit = { budget: Math.max(contextTokenBudget - summaryTokens, 0), estimator: tokenEstimator, model }
+    }
+
+    const uiMessagesFromPipeline = ConversationService.filterMessagesPipeline(messages, contextCount, tokenLimit)
     logger.debug('uiMessagesFromPipeline', uiMessagesFromPipeline)
 
     // Fallback: ensure at least the last user message is present to avoid empty payloads
@@ -59,12 +101,77 @@ export class ConversationService {
       uiMessages = [lastUserMessage]
     }
 
+    const modelMessages = await convertMessagesToSdkMessages(uiMessages, model)
+    if (contextSummary) {
+      modelMessages.unshift({ role: 'system', content: CONTEXT_SUMMARY_PROMPT.replace('{{summary}}', contextSummary) })
+    }
+
     return {
-      modelMessages: await convertMessagesToSdkMessages(uiMessages, assistant.model || getDefaultModel()),
+      modelMessages,
       uiMessages
     }
   }
 
+  /**
+   * Keeps the newest messages whose estimated tokens fit in the budget. The last message is always kept.
+   */
+  static limitMessagesByTokenBudget(messages: Message[], { budget, estimator, model }: ContextTokenLimit): Message[] {
+    let usedTokens = 0
+    let startIndex = messages.length
+    while (startIndex > 0) {
+      usedTokens += estimator.estimateMessageTokens(messages[startIndex - 1], model)
+      if (usedTokens > budget && startIndex < messages.length) {
+        break
+      }
+      startIndex--
+    }
+    return messages.slice(startIndex)
+  }
+
+  /**
+   * Content of the latest context summary that still applies to the messages.
+   */
+  static getContextSummary(messages: Message[]): string | undefined {
+    const compactMessage = findContextCompactMessage(filterAfterContextClearMessages(messages))
+    return compactMessage ? findAllBlocks(compactMessage).find(isCompactBlock)?.content : undefined
+  }
+
+  /**
+   * Picks the messages to fold into the context summary, oldest first.
+   *
+   * Without `force` this only happens once the context exceeds the token budget, and the newest turns
+   * that fit in part of the budget are kept as they are. With `force` the whole context is folded.
+   */
+  static selectMessagesToCompact(messages: Message[], tokenLimit: ContextTokenLimit, force = false): Message[] {
+    const contextMessages = filterEmptyMessages(
+      filterErrorOnlyMessagesWithRelated(
+        filterUsefulMessages(filterAfterContextCompactMessages(filterAfterContextClearMessages(messages)))
+      )
+    )
+    if (force) {
+      return contextMessages
+    }
+
+    const { budget, estimator, model } = tokenLimit
+    const contextSummary = ConversationService.getContextSummary(messages)
+    const usedTokens =
+      sumBy(contextMessages, (message) => estimator.estimateMessageTokens(message, model)) +
+      (contextSummary ? estimator.estimateTextTokens(contextSummary, model) : 0)
+    if (usedTokens <= budget) {
+      return []
+    }
+
+    const keptMessages = ConversationService.limitMessagesByTokenBudget(contextMessages, {
+      ...tokenLimit,
+      budget: Math.floor(budget * COMPACT_KEEP_RATIO)
+    })
+    // 保留部分从用户消息开始，避免把一轮对话拆开
+    const keptStartIndex = contextMessages.findIndex(
+      (message, index) => index >= contextMessages.length - keptMessages.length && message.role === 'user'
+    )
+    return keptStartIndex === -1 ? contextMessages : contextMessages.slice(0, keptStartIndex)
+  }
+
   static needsWebSearch(assistant: Assistant): boolean {
     return !!assistant.webSearchProviderId
   }
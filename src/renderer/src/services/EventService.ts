@@ -16,6 +16,7 @@ export const EVENT_NAMES = {
   SHOW_TOPIC_SIDEBAR: 'SHOW_TOPIC_SIDEBAR',
   SWITCH_TOPIC_SIDEBAR: 'SWITCH_TOPIC_SIDEBAR',
   NEW_CONTEXT: 'NEW_CONTEXT',
+  COMPACT_CONTEXT: 'COMPACT_CONTEXT',
   NEW_BRANCH: 'NEW_BRANCH',
   COPY_TOPIC_IMAGE: 'COPY_TOPIC_IMAGE',
   EXPORT_TOPIC_IMAGE: 'EXPORT_TOPIC_IMAGE',
@@ -25,5 +26,6 @@ export const EVENT_NAMES = {
   RESEND_MESSAGE: 'RESEND_MESSAGE',
   SHOW_MODEL_SELECTOR: 'SHOW_MODEL_SELECTOR',
   EDIT_CODE_BLOCK: 'EDIT_CODE_BLOCK',
-  CHANGE_TOPIC: 'CHANGE_TOPIC'
+  CHANGE_TOPIC: 'CHANGE_TOPIC',
+  MESSAGE_SEARCH_INDEX_PROGRESS: 'MESSAGE_SEARCH_INDEX_PROGRESS'
 }
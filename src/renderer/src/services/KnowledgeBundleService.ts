@@ -0,0 +1,199 @@
+import { loggerService } from '@logger'
+import AiProviderNew from '@renderer/aiCore/index_new'
+import db from '@renderer/databases'
+import i18n from '@renderer/i18n'
+import store from '@renderer/store'
+import { addBase } from '@renderer/store/knowledge'
+import type { FileMetadata, KnowledgeBase, KnowledgeItem, Model, Provider } from '@renderer/types'
+import { uuid } from '@renderer/utils'
+import { getErrorMessage } from '@renderer/utils/error'
+import type { KnowledgeBundleManifest } from '@shared/config/types'
+
+import { getProviderByModel } from './AssistantService'
+import FileManager from './FileManager'
+import { getKnowledgeBaseParams } from './KnowledgeService'
+
+const logger = loggerService.withContext('KnowledgeBundleService')
+
+/**
+ * Find a configured model by id, preferring the provider it was configured with on the exporting machine.
+ */
+export const findLocalModel = (providers: Provider[], model?: Pick<Model, 'id' | 'provider'>): Model | undefined => {
+  if (!model) {
+    return undefined
+  }
+
+  const sameProvider = providers.find((p) => p.id === model.provider)?.models.find((m) => m.id === model.id)
+  if (sameProvider) {
+    return sameProvider
+  }
+
+  for (const provider of providers) {
+    const found = provider.models.find((m) => m.id === model.id)
+    if (found) {
+      return found
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Check that the local model produces vectors of the length stored in the bundle.
+ * With a fixed dimension the model is asked for that length, otherwise its native length is probed.
+ */
+const checkBundleDimensions = async (manifest: KnowledgeBundleManifest, model: Model): Promise<boolean> => {
+  const expected = manifest.embedding.dimensions
+  if (!expected) {
+    return true
+  }
+  if (manifest.base.dimensions) {
+    return manifest.base.dimensions === expected
+  }
+
+  const aiProvider = new AiProviderNew(getProviderByModel(model))
+  return (await aiProvider.getEmbeddingDimensions(model)) === expected
+}
+
+const getItemFiles = (item: KnowledgeItem): FileMetadata[] => {
+  if (item.type === 'file') return [item.content as FileMetadata]
+  if (item.type === 'video') return item.content as FileMetadata[]
+  return []
+}
+
+/**
+ * Export a knowledge base as a bundle in a folder picked by the user.
+ */
+export async function exportKnowledgeBase(base: KnowledgeBase) {
+  const directory = await window.api.file.selectFolder()
+  if (!directory) {
+    return
+  }
+
+  // The store only keeps references to notes
+  const items = await Promise.all(
+    base.items.map(async (item) => {
+      if (item.type !== 'note') {
+        return item
+      }
+      const note = await db.knowledge_notes.get(item.id)
+      return note ? { ...note, ...item, content: note.content } : item
+    })
+  )
+
+  const promise = window.api.knowledgeBase.exportBundle({
+    base: { ...base, items },
+    params: getKnowledgeBaseParams(base),
+    directory
+  })
+  window.toast.loading({ title: i18n.t('knowledge.bundle.exporting'), promise })
+
+  try {
+    const filePath = await promise
+    window.toast.success(i18n.t('knowledge.bundle.export_success', { path: filePath }))
+  } catch (error) {
+    logger.error('Failed to export knowledge base', error as Error)
+    window.toast.error(`${i18n.t('knowledge.bundle.export_failed')}: ${getErrorMessage(error)}`)
+  }
+}
+
+/**
+ * Register the extracted bundle as a new base. Items get new ids so a bundle can be imported
+ * next to the base it was exported from.
+ */
+const registerImportedBase = async (
+  manifest: KnowledgeBundleManifest,
+  baseId: string,
+  model: Model
+): Promise<KnowledgeBase> => {
+  const providers = store.getState().llm.providers
+  const timestamp = Date.now()
+
+  const items = await Promise.all(
+    manifest.base.items.map(async (item): Promise<KnowledgeItem> => {
+      const imported: KnowledgeItem = {
+        ...item,
+        id: uuid(),
+        baseId,
+        processingStatus: item.processingStatus === 'processing' ? 'pending' : item.processingStatus
+      }
+
+      if (imported.type === 'note') {
+        await db.knowledge_notes.put({ ...imported, type: 'note', content: imported.content as string })
+        return { ...imported, content: '' }
+      }
+      if (imported.type === 'directory') {
+        // The folder usually does not exist on this machine
+        return { ...imported, watch: false }
+      }
+
+      await FileManager.addFiles(getItemFiles(imported))
+      return imported
+    })
+  )
+
+  const base: KnowledgeBase = {
+    ...manifest.base,
+    id: baseId,
+    model,
+    rerankModel: findLocalModel(providers, manifest.base.rerankModel),
+    items,
+    created_at: timestamp,
+    updated_at: timestamp
+  }
+  store.dispatch(addBase(base))
+
+  // Chunks still carry the item ids of the exporting machine
+  await window.api.knowledgeBase.updateItemMetadata({
+    base: getKnowledgeBaseParams(base),
+    items: items.filter((item) => item.uniqueIds?.length)
+  })
+
+  return base
+}
+
+/**
+ * Import a bundle picked by the user as a new knowledge base.
+ * The embedding model of the bundle must be configured here, since queries are embedded locally.
+ */
+export async function importKnowledgeBase(): Promise<KnowledgeBase | undefined> {
+  const files = await window.api.file.select({
+    properties: ['openFile'],
+    filters: [{ name: i18n.t('knowledge.bundle.file_type'), extensions: ['zip'] }]
+  })
+  const filePath = files?.[0]?.path
+  if (!filePath) {
+    return undefined
+  }
+
+  try {
+    const manifest = await window.api.knowledgeBase.readBundle(filePath)
+    const model = findLocalModel(store.getState().llm.providers, {
+      id: manifest.embedding.model,
+      provider: manifest.embedding.provider
+    })
+
+    if (!model) {
+      window.toast.error(
+        i18n.t('knowledge.bundle.model_missing', { model: manifest.embedding.name || manifest.embedding.model })
+      )
+      return undefined
+    }
+
+    if (!(await checkBundleDimensions(manifest, model))) {
+      window.toast.error(i18n.t('knowledge.bundle.dimensions_mismatch', { dimensions: manifest.embedding.dimensions }))
+      return undefined
+    }
+
+    const baseId = uuid()
+    await window.api.knowledgeBase.importBundle({ filePath, baseId })
+    const base = await registerImportedBase(manifest, baseId, model)
+
+    window.toast.success(i18n.t('knowledge.bundle.import_success', { name: base.name }))
+    return base
+  } catch (error) {
+    logger.error('Failed to import knowledge base', error as Error)
+    window.toast.error(`${i18n.t('knowledge.bundle.import_failed')}: ${getErrorMessage(error)}`)
+    return undefined
+  }
+}
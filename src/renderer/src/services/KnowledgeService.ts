@@ -11,9 +11,13 @@ import store from '@renderer/store'
 import type { Assistant } from '@renderer/types'
 import {
   type FileMetadata,
+  isKnowledgeFileItem,
+  isKnowledgeVideoItem,
   type KnowledgeBase,
   type KnowledgeBaseParams,
+  type KnowledgeItem,
   type KnowledgeReference,
+  type KnowledgeSearchFilter,
   type KnowledgeSearchResult,
   SystemProviderIds
 } from '@renderer/types'
@@ -89,6 +93,7 @@ export const getKnowledgeBaseParams = (base: KnowledgeBase): KnowledgeBaseParams
     },
     chunkSize,
     chunkOverlap: base.chunkOverlap,
+    chunkStrategy: base.chunkStrategy,
     rerankApiClient: {
       model: base.rerankModel?.id || '',
       provider: rerankProvider.name.toLowerCase(),
@@ -96,6 +101,7 @@ export const getKnowledgeBaseParams = (base: KnowledgeBase): KnowledgeBaseParams
       baseURL: rerankHost
     },
     documentCount: base.documentCount,
+    searchMode: base.searchMode,
     preprocessProvider: updatedPreprocessProvider
   }
 }
@@ -139,13 +145,62 @@ export const getKnowledgeSourceUrl = async (item: KnowledgeSearchResult & { file
   return item.metadata.source
 }
 
+// Bases whose chunks were stamped with item metadata during this session
+const stampedBaseIds = new Set<string>()
+
+/**
+ * Chunks stored before scoped search existed carry no item metadata and would never match a filter,
+ * so stamp every item of the base once per session before its first filtered search.
+ */
+const ensureItemMetadata = async (base: KnowledgeBase, baseParams: KnowledgeBaseParams) => {
+  if (stampedBaseIds.has(base.id)) {
+    return
+  }
+  const items = base.items.filter((item) => item.uniqueIds?.length)
+  await window.api.knowledgeBase.updateItemMetadata({ base: baseParams, items })
+  stampedBaseIds.add(base.id)
+}
+
+/**
+ * Display name of a knowledge item: the original file name, the folder path or the URL.
+ */
+export const getKnowledgeItemName = (item: KnowledgeItem): string => {
+  if (isKnowledgeFileItem(item)) {
+    return item.content.origin_name
+  }
+  if (isKnowledgeVideoItem(item)) {
+    return item.content.map((file) => file.origin_name).join(', ')
+  }
+  return item.remark || (typeof item.content === 'string' ? item.content : '')
+}
+
+/**
+ * Ids of the items whose name contains one of `names`, case-insensitively. Notes have no name and never match.
+ */
+export const findKnowledgeItemIdsByName = (bases: KnowledgeBase[], names: string[]): string[] => {
+  const needles = names.map((name) => name.trim().toLowerCase()).filter(Boolean)
+  return bases
+    .flatMap((base) => base.items)
+    .filter((item) => item.type !== 'note')
+    .filter((item) => {
+      const name = getKnowledgeItemName(item).toLowerCase()
+      return needles.some((needle) => name.includes(needle))
+    })
+    .map((item) => item.id)
+}
+
+export interface KnowledgeSearchOptions {
+  rewrite?: string
+  topicId?: string
+  parentSpanId?: string
+  modelName?: string
+  filter?: KnowledgeSearchFilter
+}
+
 export const searchKnowledgeBase = async (
   query: string,
   base: KnowledgeBase,
-  rewrite?: string,
-  topicId?: string,
-  parentSpanId?: string,
-  modelName?: string
+  { rewrite, topicId, parentSpanId, modelName, filter }: KnowledgeSearchOptions = {}
 ): Promise<Array<KnowledgeSearchResult & { file: FileMetadata | null }>> => {
   // Truncate query based on embedding model's max_context to prevent embedding errors
   const maxContext = getEmbeddingMaxContext(base.model.id)
@@ -170,7 +225,8 @@ export const searchKnowledgeBase = async (
         inputs: {
           query,
           rewrite,
-          base: baseParams
+          base: baseParams,
+          filter
         },
         tag: 'Knowledge',
         parentSpanId,
@@ -178,25 +234,29 @@ export const searchKnowledgeBase = async (
       })
     }
 
+    if (filter) {
+      await ensureItemMetadata(base, baseParams)
+    }
+
     const searchResults: KnowledgeSearchResult[] = await window.api.knowledgeBase.search(
       {
         search: query || rewrite || '',
-        base: baseParams
+        base: baseParams,
+        filter,
+        // 阈值在主进程中过滤，混合检索时只作用于向量相似度
+        threshold
       },
       currentSpan?.spanContext()
     )
 
-    // 过滤阈值不达标的结果
-    const filteredResults = searchResults.filter((item) => item.score >= threshold)
-
     // 如果有rerank模型，执行重排
-    let rerankResults = filteredResults
-    if (base.rerankModel && filteredResults.length > 0) {
+    let rerankResults = searchResults
+    if (base.rerankModel && searchResults.length > 0) {
       rerankResults = await window.api.knowledgeBase.rerank(
         {
           search: rewrite || query,
           base: baseParams,
-          results: filteredResults
+          results: searchResults
         },
         currentSpan?.spanContext()
       )
@@ -240,8 +300,7 @@ export const processKnowledgeSearch = async (
   extractResults: ExtractResults,
   knowledgeBaseIds: string[] | undefined,
   topicId: string,
-  parentSpanId?: string,
-  modelName?: string
+  { parentSpanId, modelName, filter }: Pick<KnowledgeSearchOptions, 'parentSpanId' | 'modelName' | 'filter'> = {}
 ): Promise<KnowledgeReference[]> => {
   if (
     !extractResults.knowledge?.question ||
@@ -267,7 +326,8 @@ export const processKnowledgeSearch = async (
     inputs: {
       questions,
       rewrite,
-      knowledgeBaseIds: knowledgeBaseIds
+      knowledgeBaseIds: knowledgeBaseIds,
+      filter
     },
     tag: 'Knowledge',
     parentSpanId,
@@ -279,7 +339,13 @@ export const processKnowledgeSearch = async (
     // 为每个问题搜索并合并结果
     const allResults = await Promise.all(
       questions.map((question) =>
-        searchKnowledgeBase(question, base, rewrite, topicId, span?.spanContext().spanId, modelName)
+        searchKnowledgeBase(question, base, {
+          rewrite,
+          topicId,
+          parentSpanId: span?.spanContext().spanId,
+          modelName,
+          filter
+        })
       )
     )
 
@@ -0,0 +1,59 @@
+import { loggerService } from '@logger'
+import McpElicitationPopup from '@renderer/components/Popups/McpElicitationPopup'
+import McpSamplingPopup from '@renderer/components/Popups/McpSamplingPopup'
+import i18n from '@renderer/i18n'
+import { getErrorMessage } from '@renderer/utils/error'
+import type { MCPElicitationRequest, MCPSamplingRequest } from '@shared/config/types'
+
+import { fetchMcpSampling } from './ApiService'
+
+const logger = loggerService.withContext('McpClientRequestService')
+
+// JSON-RPC error code for requests the user rejected, as in the MCP sampling spec
+const USER_REJECTED_CODE = -1
+
+/**
+ * 处理 MCP 服务器的 sampling 请求：用户确认并选择模型后调用模型，结果返回给服务器
+ */
+export async function handleSamplingRequest(request: MCPSamplingRequest) {
+  const { requestId, serverName } = request
+  const model = await McpSamplingPopup.show(request)
+
+  if (!model) {
+    logger.info(`Sampling request from ${serverName} rejected by user`)
+    await window.api.mcp.respondToClientRequest({
+      requestId,
+      error: 'User rejected sampling request',
+      code: USER_REJECTED_CODE
+    })
+    return
+  }
+
+  try {
+    const promise = fetchMcpSampling({ params: request.params, model })
+    window.toast.loading({ title: i18n.t('settings.mcp.sampling.running', { server: serverName }), promise })
+    const result = await promise
+    await window.api.mcp.respondToClientRequest({ requestId, result })
+  } catch (error) {
+    logger.error(`Sampling request from ${serverName} failed`, error as Error)
+    window.toast.error(`${i18n.t('settings.mcp.sampling.failed')}: ${getErrorMessage(error)}`)
+    await window.api.mcp.respondToClientRequest({ requestId, error: getErrorMessage(error) })
+  }
+}
+
+/**
+ * 处理 MCP 服务器的 elicitation 请求：按请求的 schema 显示表单，用户的选择返回给服务器
+ */
+export async function handleElicitationRequest(request: MCPElicitationRequest) {
+  const result = await McpElicitationPopup.show(request)
+  logger.debug(`Elicitation request from ${request.serverName} answered`, { action: result.action })
+  await window.api.mcp.respondToClientRequest({ requestId: request.requestId, result })
+}
+
+/**
+ * 服务器取消请求或请求超时后关闭对应的弹窗
+ */
+export function cancelClientRequest(requestId: string) {
+  McpSamplingPopup.hide(requestId)
+  McpElicitationPopup.hide(requestId)
+}
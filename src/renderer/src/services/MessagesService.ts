@@ -35,11 +35,13 @@ const logger = loggerService.withContext('MessagesService')
 
 export {
   filterAfterContextClearMessages,
+  filterAfterContextCompactMessages,
   filterEmptyMessages,
   filterErrorOnlyMessagesWithRelated,
   filterMessages,
   filterUsefulMessages,
   filterUserRoleStartMessages,
+  findContextCompactMessage,
   getGroupedMessages
 } from '@renderer/utils/messageUtils/filters'
 
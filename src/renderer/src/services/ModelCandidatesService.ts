@@ -9,6 +9,17 @@ const logger = loggerService.withContext('ModelCandidatesService')
 
 const roundRobinCursorByGroup = new Map<string, number>()
 
+// Consecutive failures after which a model is benched in 'failover' routing
+const MODEL_FAILURE_THRESHOLD = 3
+export const DEFAULT_MODEL_FAILOVER_COOLDOWN = 60
+
+type ModelHealth = {
+  failures: number
+  benchedUntil: number
+}
+
+const modelHealthById = new Map<string, ModelHealth>()
+
 const hasModelIdentity = (model?: Model): model is Model => !!(model?.id && model?.provider)
 
 const uniqModels = (models: Model[]): Model[] => {
@@ -47,7 +58,7 @@ const normalizeModelGroups = (groups: AssistantModelGroup[] | undefined): Assist
   return normalized
 }
 
-const getGroupRoutingMode = (assistant: Assistant): ModelGroupRoutingMode => {
+export const getGroupRoutingMode = (assistant: Assistant): ModelGroupRoutingMode => {
   return assistant.modelGroupRoutingMode ?? 'order-first'
 }
 
@@ -88,6 +99,33 @@ const getFirstAccessibleModel = (models: Model[]): Model | undefined => {
   return models.find(hasModelIdentity)
 }
 
+export const isModelBenched = (model: Model, now = Date.now()): boolean => {
+  const health = modelHealthById.get(getModelUniqId(model))
+  return !!health && health.benchedUntil > now
+}
+
+/**
+ * Count a failed request; the model is benched for the assistant's cool-down once it keeps failing
+ */
+export const recordModelFailure = (assistant: Assistant, model: Model): void => {
+  const key = getModelUniqId(model)
+  const health = modelHealthById.get(key) ?? { failures: 0, benchedUntil: 0 }
+  health.failures += 1
+
+  if (health.failures >= MODEL_FAILURE_THRESHOLD) {
+    const cooldown = assistant.modelFailoverCooldown ?? DEFAULT_MODEL_FAILOVER_COOLDOWN
+    health.benchedUntil = Date.now() + cooldown * 1000
+    health.failures = 0
+    logger.warn('Model keeps failing, benching it.', { model: key, cooldown })
+  }
+
+  modelHealthById.set(key, health)
+}
+
+export const recordModelSuccess = (model: Model): void => {
+  modelHealthById.delete(getModelUniqId(model))
+}
+
 const getGlobalModelGroups = (): AssistantModelGroup[] => {
   const state = store.getState()
   return normalizeModelGroups(state.llm.modelGroups)
@@ -156,6 +194,13 @@ export const selectAssistantModelForRequest = (assistant: Assistant): Model | un
     return picked
   }
 
+  if (getGroupRoutingMode(assistant) === 'failover') {
+    const [available] = getAssistantFailoverModels(assistant)
+    if (available) {
+      return available
+    }
+  }
+
   const fallback = getFirstAccessibleModel(validModels)
   if (!fallback) {
     logger.warn('Selected model group has no valid model, falling back to assistant model.', {
@@ -165,3 +210,24 @@ export const selectAssistantModelForRequest = (assistant: Assistant): Model | un
   }
   return fallback ?? resolveAssistantDisplayModel(assistant)
 }
+
+/**
+ * Models of the selected group that a failed request may be retried on, in group order.
+ * Benched models are skipped; models listed in `exclude` (already tried) are left out.
+ */
+export const getAssistantFailoverModels = (assistant: Assistant, exclude: Model[] = []): Model[] => {
+  const selectedGroup = getAssistantSelectedModelGroup(assistant)
+  if (!selectedGroup || getGroupRoutingMode(assistant) !== 'failover') {
+    return []
+  }
+
+  const excluded = new Set(exclude.map(getModelUniqId))
+  const now = Date.now()
+  return selectedGroup.models.filter(
+    (model) =>
+      hasModelIdentity(model) &&
+      !excluded.has(getModelUniqId(model)) &&
+      isModelAccessible(model) &&
+      !isModelBenched(model, now)
+  )
+}
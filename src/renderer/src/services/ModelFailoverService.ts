@@ -0,0 +1,149 @@
+import { loggerService } from '@logger'
+import type { Assistant, Model } from '@renderer/types'
+import type { Chunk } from '@renderer/types/chunk'
+import { ChunkType } from '@renderer/types/chunk'
+import { ProviderSpecificError } from '@renderer/types/provider-specific-error'
+import { isAbortError } from '@renderer/utils/error'
+import { APICallError, RetryError } from 'ai'
+
+import {
+  getAssistantFailoverModels,
+  getGroupRoutingMode,
+  recordModelFailure,
+  recordModelSuccess
+} from './ModelCandidatesService'
+import { getModelUniqId } from './ModelService'
+import { ProviderBudgetExceededError } from './SpendBudgetService'
+
+const logger = loggerService.withContext('ModelFailoverService')
+
+// 401/403: 密钥失效或无权限, 408: 超时, 429: 限流
+const FAILOVER_STATUS_CODES = new Set([401, 403, 408, 429])
+
+// 在模型产出内容之前暂存的 chunk，失败切换时直接丢弃
+const HELD_CHUNK_TYPES = new Set<ChunkType>([
+  ChunkType.ERROR,
+  ChunkType.BLOCK_COMPLETE,
+  ChunkType.LLM_RESPONSE_COMPLETE
+])
+
+/**
+ * 判断错误是否值得换一个模型重试：限流、5xx、超时、鉴权错误与提供商超出预算
+ */
+export function isModelFailoverError(error: unknown): boolean {
+  if (!error || isAbortError(error)) {
+    return false
+  }
+
+  if (RetryError.isInstance(error)) {
+    return isModelFailoverError(error.lastError)
+  }
+
+  if (ProviderSpecificError.isInstance(error)) {
+    return isModelFailoverError(error.cause)
+  }
+
+  if (ProviderBudgetExceededError.isInstance(error)) {
+    return true
+  }
+
+  if (APICallError.isInstance(error)) {
+    const { statusCode } = error
+    if (statusCode === undefined) {
+      return /timed? ?out/i.test(error.message)
+    }
+    return FAILOVER_STATUS_CODES.has(statusCode) || statusCode >= 500
+  }
+
+  return error instanceof Error && error.name === 'TimeoutError'
+}
+
+type FailoverRequest = {
+  assistant: Assistant
+  signal?: AbortSignal
+  onChunkReceived: (chunk: Chunk) => void
+  // 切换到组内下一个模型时调用，用于在消息上记录实际回答的模型
+  onModelFailover?: (model: Model) => void
+}
+
+/**
+ * 以 'failover' 路由执行请求：模型在产出任何内容之前失败时，用模型组中的下一个模型重试同一请求。
+ * 其他路由模式直接执行请求。
+ */
+export async function runWithModelFailover(
+  { assistant, signal, onChunkReceived, onModelFailover }: FailoverRequest,
+  fetch: (assistant: Assistant, onChunkReceived: (chunk: Chunk) => void) => Promise<void>
+): Promise<void> {
+  if (!assistant.model || getGroupRoutingMode(assistant) !== 'failover') {
+    return fetch(assistant, onChunkReceived)
+  }
+
+  const tried: Model[] = []
+  let current: Assistant & { model: Model } = { ...assistant, model: assistant.model }
+  let responseCreated = false
+
+  while (true) {
+    const model = current.model
+    const held: Chunk[] = []
+    let committed = false
+    let failure: unknown
+
+    tried.push(model)
+
+    const forward = (chunk: Chunk) => {
+      if (chunk.type === ChunkType.ERROR) {
+        failure ??= chunk.error
+      }
+      if (committed) {
+        onChunkReceived(chunk)
+        return
+      }
+      if (chunk.type === ChunkType.LLM_RESPONSE_CREATED) {
+        // 重试时复用同一个占位块
+        if (!responseCreated) {
+          responseCreated = true
+          onChunkReceived(chunk)
+        }
+        return
+      }
+      if (HELD_CHUNK_TYPES.has(chunk.type)) {
+        held.push(chunk)
+        return
+      }
+      committed = true
+      held.splice(0).forEach(onChunkReceived)
+      onChunkReceived(chunk)
+    }
+
+    let thrown: unknown
+    try {
+      await fetch(current, forward)
+    } catch (error) {
+      failure ??= error
+      thrown = error
+    }
+
+    if (failure === undefined) {
+      recordModelSuccess(model)
+    } else if (isModelFailoverError(failure)) {
+      // 超出预算不是模型本身的问题，不计入模型的失败次数
+      if (!ProviderBudgetExceededError.isInstance(failure)) {
+        recordModelFailure(assistant, model)
+      }
+
+      const [next] = committed || signal?.aborted ? [] : getAssistantFailoverModels(assistant, tried)
+      if (next) {
+        logger.warn(`Model ${getModelUniqId(model)} failed, failing over to ${getModelUniqId(next)}`, failure as Error)
+        current = { ...assistant, model: next }
+        onModelFailover?.(next)
+        continue
+      }
+    }
+
+    held.forEach(onChunkReceived)
+    if (thrown !== undefined) {
+      throw thrown
+    }
+    return
+  }
+}
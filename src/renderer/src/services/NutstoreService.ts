@@ -7,7 +7,7 @@ import { NUTSTORE_HOST } from '@shared/config/nutstore'
 import dayjs from 'dayjs'
 import { type CreateDirectoryOptions } from 'webdav'
 
-import { getBackupData, handleData } from './BackupService'
+import { getBackupData, getBackupPassphrase, handleData, withBackupPassphrase } from './BackupService'
 
 const logger = loggerService.withContext('NutstoreService')
 
@@ -151,10 +151,12 @@ export async function backupToNutstore({
     // 先清理旧备份
     await cleanupOldBackups(config, maxBackups)
 
+    const passphrase = await getBackupPassphrase(showMessage)
     const isSuccess = await window.api.backup.backupToWebdav(backupData, {
       ...config,
       fileName: finalFileName,
-      skipBackupFile: skipBackupFile
+      skipBackupFile: skipBackupFile,
+      passphrase
     })
 
     if (isSuccess) {
@@ -188,7 +190,9 @@ export async function restoreFromNutstore(fileName?: string) {
   let data = ''
 
   try {
-    data = await window.api.backup.restoreFromWebdav({ ...config, fileName })
+    data = await withBackupPassphrase((passphrase) =>
+      window.api.backup.restoreFromWebdav({ ...config, fileName, passphrase })
+    )
   } catch (error: any) {
     logger.error('[backup] restoreFromWebdav: Error downloading file from WebDAV:', error as Error)
     window.modal.error({
@@ -0,0 +1,142 @@
+import { loggerService } from '@logger'
+import db from '@renderer/databases'
+import i18n from '@renderer/i18n'
+import type { Provider } from '@renderer/types'
+import { getFancyProviderName } from '@renderer/utils'
+import { formatCost, getCurrencySymbol, getMessageCost } from '@renderer/utils/cost'
+import dayjs from 'dayjs'
+
+const logger = loggerService.withContext('SpendBudgetService')
+
+/**
+ * 提供商本月花费超出预算时抛出，请求不会发送
+ */
+export class ProviderBudgetExceededError extends Error {
+  constructor(
+    public readonly providerId: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ProviderBudgetExceededError'
+  }
+
+  static isInstance(error: unknown): error is ProviderBudgetExceededError {
+    return error instanceof Error && error.name === 'ProviderBudgetExceededError'
+  }
+}
+
+// 本月各提供商的花费，统计一次后由新完成的回复累加
+let monthlySpendCache: { month: string; spend: Map<string, number> } | null = null
+let monthlySpendPromise: Promise<Map<string, number>> | null = null
+// 统计过程中有新的花费时，不缓存这次的统计结果
+let monthlySpendVersion = 0
+
+// 本月已经提醒过的提供商，每个提供商每月只提醒一次
+const warnedProviders = new Set<string>()
+
+async function loadMonthlySpend(month: dayjs.Dayjs): Promise<Map<string, number>> {
+  const monthStart = month.startOf('month')
+  const spend = new Map<string, number>()
+
+  await db.topics.each((topic) => {
+    for (const message of topic.messages ?? []) {
+      if (message.role !== 'assistant' || !message.model || dayjs(message.createdAt).isBefore(monthStart)) {
+        continue
+      }
+      const cost = getMessageCost(message)
+      if (cost) {
+        spend.set(message.model.provider, (spend.get(message.model.provider) ?? 0) + cost)
+      }
+    }
+  })
+
+  return spend
+}
+
+/**
+ * 统计本月各提供商的花费
+ * 同一提供商的模型按同一种货币计价，不同货币的金额直接相加
+ */
+export async function getMonthlySpendByProvider(): Promise<Map<string, number>> {
+  const now = dayjs()
+  const month = now.format('YYYY-MM')
+  if (monthlySpendCache?.month === month) {
+    return monthlySpendCache.spend
+  }
+
+  if (!monthlySpendPromise) {
+    const version = monthlySpendVersion
+    monthlySpendPromise = loadMonthlySpend(now)
+      .then((spend) => {
+        if (version === monthlySpendVersion) {
+          monthlySpendCache = { month, spend }
+        }
+        return spend
+      })
+      .finally(() => {
+        monthlySpendPromise = null
+      })
+  }
+
+  return monthlySpendPromise
+}
+
+export async function getProviderMonthlySpend(providerId: string): Promise<number> {
+  return (await getMonthlySpendByProvider()).get(providerId) ?? 0
+}
+
+/**
+ * 有新的花费记录时调用，累加到已统计的本月花费中，不必重新遍历历史消息
+ */
+export function recordMonthlySpend(providerId: string, cost: number): void {
+  // 正在进行的统计可能漏掉这次花费，不缓存它的结果
+  monthlySpendVersion++
+
+  if (monthlySpendCache?.month !== dayjs().format('YYYY-MM')) {
+    monthlySpendCache = null
+    return
+  }
+  const { spend } = monthlySpendCache
+  spend.set(providerId, (spend.get(providerId) ?? 0) + cost)
+}
+
+export function getProviderCurrencySymbol(provider: Provider): string {
+  return getCurrencySymbol(provider.models.find((model) => model.pricing))
+}
+
+/**
+ * 发送请求前检查提供商的月度预算
+ * 花费达到提醒比例时提示一次，超出预算时抛出 ProviderBudgetExceededError
+ */
+export async function checkProviderBudget(provider: Provider): Promise<void> {
+  const budget = provider.spendBudget
+  if (!budget?.enabled || !(budget.monthlyLimit > 0)) {
+    return
+  }
+
+  let spent: number
+  try {
+    spent = await getProviderMonthlySpend(provider.id)
+  } catch (error) {
+    // 统计失败时不阻止请求
+    logger.warn('Failed to get monthly spend', error as Error)
+    return
+  }
+
+  const currencySymbol = getProviderCurrencySymbol(provider)
+  const params = {
+    provider: getFancyProviderName(provider),
+    spent: formatCost(spent, currencySymbol),
+    limit: formatCost(budget.monthlyLimit, currencySymbol)
+  }
+
+  if (spent >= budget.monthlyLimit) {
+    throw new ProviderBudgetExceededError(provider.id, i18n.t('settings.provider.budget.exceeded', params))
+  }
+
+  const warningKey = `${dayjs().format('YYYY-MM')}:${provider.id}`
+  if (spent >= budget.monthlyLimit * budget.warningThreshold && !warnedProviders.has(warningKey)) {
+    warnedProviders.add(warningKey)
+    window.toast.warning(i18n.t('settings.provider.budget.warning', params))
+  }
+}
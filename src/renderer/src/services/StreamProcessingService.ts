@@ -3,6 +3,7 @@ import type {
   ExternalToolResult,
   GenerateImageResponse,
   MCPToolResponse,
+  Model,
   NormalToolResponse,
   WebSearchResponse
 } from '@renderer/types'
@@ -60,6 +61,8 @@ export interface StreamProcessorCallbacks {
   onBlockCreated?: () => void
   // Called when raw data is received (e.g., session_id updates from Agent SDK)
   onRawData?: (content: unknown, metadata?: Record<string, any>) => void
+  // Called when a failed request is retried on another model of the assistant's model group
+  onModelFailover?: (model: Model) => void
 }
 
 // Function to create a stream processor instance
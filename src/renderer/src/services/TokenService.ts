@@ -1,12 +1,13 @@
-import type { Assistant, FileMetadata, Usage } from '@renderer/types'
+import type { Assistant, FileMetadata, Model, Usage } from '@renderer/types'
 import { FILE_TYPE } from '@renderer/types'
 import type { Message } from '@renderer/types/newMessage'
 import { findFileBlocks, getMainTextContent, getThinkingContent } from '@renderer/utils/messageUtils/find'
-import { flatten, takeRight } from 'lodash'
-import { approximateTokenSize } from 'tokenx'
+import { flatten, sum, takeRight } from 'lodash'
 
 import { getAssistantSettings } from './AssistantService'
+import type { ContextTokenEstimator } from './ConversationService'
 import { filterAfterContextClearMessages, filterMessages } from './MessagesService'
+import { tokenizerService } from './TokenizerService'
 
 interface MessageItem {
   name?: string
@@ -52,11 +53,25 @@ async function getMessageParam(message: Message): Promise<MessageItem[]> {
 /**
  * 估算文本内容的 token 数量
  *
+ * 同步返回结果：文本已经由分词器统计过时返回准确值，否则按模型的分词器类型近似估算。
+ *
  * @param text - 需要估算的文本内容
+ * @param model - 使用的模型，用于选择分词器
  * @returns 返回估算的 token 数量
  */
-export function estimateTextTokens(text: string) {
-  return approximateTokenSize(text)
+export function estimateTextTokens(text: string, model?: Model) {
+  return tokenizerService.countTokensSync(text, model)
+}
+
+/**
+ * 使用模型对应的分词器统计文本的 token 数量，在 Worker 中计算
+ *
+ * @param text - 需要统计的文本内容
+ * @param model - 使用的模型，用于选择分词器
+ * @returns 返回 token 数量
+ */
+export async function countTextTokens(text: string, model?: Model): Promise<number> {
+  return tokenizerService.countTokens(text, model)
 }
 
 /**
@@ -120,6 +135,55 @@ export async function estimateUserPromptUsage({
  * @returns {Promise<Usage>} 返回一个 Usage 对象，包含 prompt_tokens、completion_tokens、total_tokens
  */
 export async function estimateMessageUsage(message: Partial<Message>): Promise<Usage> {
+  const { textTokens, imageTokens } = estimateMessageContentTokens(message)
+
+  return {
+    prompt_tokens: textTokens,
+    completion_tokens: textTokens,
+    total_tokens: textTokens + (imageTokens ? imageTokens - 7 : 0)
+  }
+}
+
+/**
+ * 同步估算单条消息在上下文中占用的 token 数量，用于按 token 预算裁剪上下文。
+ *
+ * 先调用 {@link preloadMessageTokens} 可以让结果使用模型的分词器。
+ *
+ * @param {Partial<Message>} message - 消息对象
+ * @param {Model} [model] - 使用的模型，用于选择分词器
+ * @returns {number} 文本、推理内容和图片的 token 总数
+ */
+export function estimateMessageTokens(message: Partial<Message>, model?: Model): number {
+  const { textTokens, imageTokens } = estimateMessageContentTokens(message, model)
+  return textTokens + imageTokens
+}
+
+/**
+ * 预先用分词器统计消息的文本内容，之后 {@link estimateMessageTokens} 会直接使用缓存的结果。
+ *
+ * @param {Message[]} messages - 消息列表
+ * @param {Model} [model] - 使用的模型，用于选择分词器
+ */
+export async function preloadMessageTokens(messages: Message[], model?: Model): Promise<void> {
+  await tokenizerService.countTokensBatch(messages.map(getMessageTextContent), model)
+}
+
+/**
+ * 按 token 预算裁剪上下文时传给 ConversationService 的估算函数
+ */
+export const contextTokenEstimator: ContextTokenEstimator = {
+  preloadMessageTokens,
+  estimateMessageTokens,
+  estimateTextTokens
+}
+
+function getMessageTextContent(message: Partial<Message>) {
+  const content = getMainTextContent(message as Message)
+  const reasoningContent = getThinkingContent(message as Message)
+  return [content, reasoningContent].filter((s) => s !== undefined).join(' ')
+}
+
+function estimateMessageContentTokens(message: Partial<Message>, model?: Model) {
   const fileBlocks = findFileBlocks(message as Message)
   const files = fileBlocks.map((f) => f.file)
 
@@ -134,16 +198,7 @@ export async function estimateMessageUsage(message: Partial<Message>): Promise<U
     }
   }
 
-  const content = getMainTextContent(message as Message)
-  const reasoningContent = getThinkingContent(message as Message)
-  const combinedContent = [content, reasoningContent].filter((s) => s !== undefined).join(' ')
-  const tokens = estimateTextTokens(combinedContent)
-
-  return {
-    prompt_tokens: tokens,
-    completion_tokens: tokens,
-    total_tokens: tokens + (imageTokens ? imageTokens - 7 : 0)
-  }
+  return { textTokens: estimateTextTokens(getMessageTextContent(message), model), imageTokens }
 }
 
 export async function estimateMessagesUsage({
@@ -187,10 +242,9 @@ export async function estimateHistoryTokens(assistant: Assistant, msgs: Message[
     allMessages = allMessages.concat(items)
   }
 
-  const prompt = assistant.prompt
-  const input = flatten(allMessages)
-    .map((m) => m.content)
-    .join('\n')
+  // 逐段统计，便于命中分词缓存，输入新内容时不必重新统计整段历史
+  const texts = [assistant.prompt, ...flatten(allMessages).map((m) => m.content)]
+  const counts = await tokenizerService.countTokensBatch(texts, assistant.model)
 
-  return estimateTextTokens(prompt + input) + uasageTokens
+  return sum(counts) + uasageTokens
 }
@@ -0,0 +1,161 @@
+/**
+ * 按模型选择分词器，并统计文本的 token 数量
+ *
+ * 注意：该模块会在 tokenizer worker 中运行，保持依赖简单，不要引入 store、window.api 等
+ */
+import type { Tiktoken } from 'js-tiktoken/lite'
+import { approximateTokenSize } from 'tokenx'
+
+export type TiktokenEncodingName = 'o200k_base' | 'cl100k_base'
+
+export type TokenizerFamily =
+  | 'openai-o200k'
+  | 'openai-cl100k'
+  | 'claude'
+  | 'gemini'
+  | 'qwen'
+  | 'deepseek'
+  | 'llama'
+  | 'generic'
+
+export interface TokenizerProfile {
+  /** 计数使用的 tiktoken 编码 */
+  encoding: TiktokenEncodingName
+  /** 是否与模型实际使用的分词器一致 */
+  exact: boolean
+  /** 非 CJK 文本相对于 encoding 计数的修正系数 */
+  textRatio: number
+  /** 每个 CJK 字符对应的 token 数，未设置时 CJK 文本也直接用 encoding 计数 */
+  cjkRatio?: number
+}
+
+// 没有公开分词器的模型按各自词表的实测比例近似
+const TOKENIZER_PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  'openai-o200k': { encoding: 'o200k_base', exact: true, textRatio: 1 },
+  'openai-cl100k': { encoding: 'cl100k_base', exact: true, textRatio: 1 },
+  claude: { encoding: 'cl100k_base', exact: false, textRatio: 1.15, cjkRatio: 1.1 },
+  gemini: { encoding: 'o200k_base', exact: false, textRatio: 1, cjkRatio: 0.75 },
+  qwen: { encoding: 'o200k_base', exact: false, textRatio: 1, cjkRatio: 0.65 },
+  deepseek: { encoding: 'o200k_base', exact: false, textRatio: 1.05, cjkRatio: 0.6 },
+  llama: { encoding: 'cl100k_base', exact: false, textRatio: 1, cjkRatio: 0.9 },
+  generic: { encoding: 'o200k_base', exact: false, textRatio: 1 }
+}
+
+export const TOKENIZER_NAMES: Record<TokenizerFamily, string> = {
+  'openai-o200k': 'o200k_base',
+  'openai-cl100k': 'cl100k_base',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  qwen: 'Qwen',
+  deepseek: 'DeepSeek',
+  llama: 'Llama',
+  generic: 'o200k_base'
+}
+
+// 按顺序匹配，更具体的模式放在前面
+const MODEL_TOKENIZER_MAP: Record<string, TokenizerFamily> = {
+  // OpenAI models
+  'gpt-(4o|4\\.1|4\\.5|5|oss|image)': 'openai-o200k',
+  'chatgpt-4o': 'openai-o200k',
+  '^o[134](-.*)?$': 'openai-o200k',
+  'codex-mini': 'openai-o200k',
+  'gpt-(4|3\\.5)': 'openai-cl100k',
+  'text-embedding-': 'openai-cl100k',
+
+  // Others
+  claude: 'claude',
+  'gemini|gemma': 'gemini',
+  'qwen|qwq|qvq': 'qwen',
+  deepseek: 'deepseek',
+  llama: 'llama'
+}
+
+// 汉字、假名、谚文
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g
+
+/**
+ * 获取模型使用的分词器类型，传入的模型 ID 需为小写
+ */
+export function getTokenizerFamily(modelId?: string): TokenizerFamily {
+  if (!modelId) {
+    return 'generic'
+  }
+  for (const [pattern, family] of Object.entries(MODEL_TOKENIZER_MAP)) {
+    if (new RegExp(pattern).test(modelId)) {
+      return family
+    }
+  }
+  return 'generic'
+}
+
+export function getTokenizerProfile(family: TokenizerFamily): TokenizerProfile {
+  return TOKENIZER_PROFILES[family] ?? TOKENIZER_PROFILES.generic
+}
+
+const encoderPromises = new Map<TiktokenEncodingName, Promise<Tiktoken>>()
+
+async function createEncoder(encoding: TiktokenEncodingName): Promise<Tiktoken> {
+  const { Tiktoken } = await import('js-tiktoken/lite')
+  const ranks =
+    encoding === 'o200k_base'
+      ? (await import('js-tiktoken/ranks/o200k_base')).default
+      : (await import('js-tiktoken/ranks/cl100k_base')).default
+  return new Tiktoken(ranks)
+}
+
+/**
+ * 按需加载编码表，同一编码只加载一次
+ */
+function loadEncoder(encoding: TiktokenEncodingName): Promise<Tiktoken> {
+  let promise = encoderPromises.get(encoding)
+  if (!promise) {
+    promise = createEncoder(encoding)
+    // 加载失败时允许下次重试
+    promise.catch(() => encoderPromises.delete(encoding))
+    encoderPromises.set(encoding, promise)
+  }
+  return promise
+}
+
+function splitCjk(text: string): { cjkCount: number; rest: string } {
+  const cjkCount = text.match(CJK_REGEX)?.length ?? 0
+  return { cjkCount, rest: cjkCount > 0 ? text.replace(CJK_REGEX, '') : text }
+}
+
+/**
+ * 使用模型对应的分词器统计 token 数量
+ */
+export async function countTokens(text: string, family: TokenizerFamily): Promise<number> {
+  if (!text) {
+    return 0
+  }
+
+  const profile = getTokenizerProfile(family)
+  const encoder = await loadEncoder(profile.encoding)
+  // 特殊 token 按普通文本编码，避免用户输入中出现 <|endoftext|> 时抛错
+  const encode = (value: string) => (value ? encoder.encode(value, [], []).length : 0)
+
+  if (profile.cjkRatio === undefined) {
+    return Math.ceil(encode(text) * profile.textRatio)
+  }
+
+  const { cjkCount, rest } = splitCjk(text)
+  return Math.ceil(encode(rest) * profile.textRatio + cjkCount * profile.cjkRatio)
+}
+
+/**
+ * 不加载编码表的快速近似，用于分词器尚未就绪或不可用时
+ */
+export function approximateTokens(text: string, family: TokenizerFamily): number {
+  if (!text) {
+    return 0
+  }
+
+  const profile = getTokenizerProfile(family)
+  if (profile.cjkRatio === undefined) {
+    return Math.ceil(approximateTokenSize(text) * profile.textRatio)
+  }
+
+  const { cjkCount, rest } = splitCjk(text)
+  return Math.ceil(approximateTokenSize(rest) * profile.textRatio + cjkCount * profile.cjkRatio)
+}
@@ -0,0 +1,221 @@
+import { loggerService } from '@logger'
+import type { Model } from '@renderer/types'
+import { getLowerBaseModelName } from '@renderer/utils/naming'
+import { LRUCache } from 'lru-cache'
+
+import type { TokenizerFamily } from './TokenizerRegistry'
+import { approximateTokens, getTokenizerFamily, getTokenizerProfile } from './TokenizerRegistry'
+
+const logger = loggerService.withContext('TokenizerService')
+
+const SERVICE_CONFIG = {
+  // 计数缓存配置，按文本长度计算占用
+  COUNT_CACHE: {
+    MAX_SIZE: 4_000_000, // 缓存文本的总字符数
+    TTL: 1000 * 60 * 30 // 30 分钟过期时间（毫秒）
+  },
+
+  // Worker 配置
+  WORKER: {
+    MAX_INIT_RETRY: 2, // 最大初始化重试次数
+    REQUEST_TIMEOUT: 15000 // 首次请求需要加载编码表，超时时间放宽（毫秒）
+  }
+}
+
+/**
+ * 分词服务
+ *
+ * - 根据模型选择分词器，在 Worker 中统计 token 数量，避免加载编码表和编码长文本时阻塞界面。
+ * - Worker 不可用时退回到近似估算，近似结果不会写入缓存。
+ */
+class TokenizerService {
+  // 以 family:text 为键的计数缓存
+  private countCache = new LRUCache<string, number>({
+    maxSize: SERVICE_CONFIG.COUNT_CACHE.MAX_SIZE,
+    sizeCalculation: (_value, key) => Math.max(key.length, 1),
+    ttl: SERVICE_CONFIG.COUNT_CACHE.TTL,
+    updateAgeOnGet: true
+  })
+
+  // Worker 相关资源
+  private worker: Worker | null = null
+  private workerInitPromise: Promise<Worker | null> | null = null
+  private workerInitRetryCount: number = 0
+  private pendingRequests = new Map<
+    number,
+    {
+      resolve: (value: number[]) => void
+      reject: (reason?: any) => void
+    }
+  >()
+  private requestId = 0
+
+  /**
+   * 获取模型使用的分词器类型
+   */
+  public getFamily(model?: Model): TokenizerFamily {
+    return getTokenizerFamily(model ? getLowerBaseModelName(model.id) : undefined)
+  }
+
+  /**
+   * 模型的 token 计数是否与其实际分词器一致
+   */
+  public isExact(model?: Model): boolean {
+    return getTokenizerProfile(this.getFamily(model)).exact
+  }
+
+  /**
+   * 统计单段文本的 token 数量
+   */
+  async countTokens(text: string, model?: Model): Promise<number> {
+    const [count] = await this.countTokensBatch([text], model)
+    return count
+  }
+
+  /**
+   * 批量统计 token 数量，已缓存的文本不会重复发送给 Worker
+   */
+  async countTokensBatch(texts: string[], model?: Model): Promise<number[]> {
+    const family = this.getFamily(model)
+    const results = texts.map((text) => (text ? this.countCache.get(this.getCacheKey(family, text)) : 0))
+    const missingIndexes = results.flatMap((count, index) => (count === undefined ? [index] : []))
+
+    if (missingIndexes.length === 0) {
+      return results as number[]
+    }
+
+    const missingTexts = missingIndexes.map((index) => texts[index])
+    try {
+      const counts = await this.countInWorker(missingTexts, family)
+      missingIndexes.forEach((textIndex, i) => {
+        results[textIndex] = counts[i]
+        this.countCache.set(this.getCacheKey(family, texts[textIndex]), counts[i])
+      })
+    } catch (error) {
+      logger.warn('Failed to count tokens in worker, falling back to approximation:', error as Error)
+      missingIndexes.forEach((textIndex) => {
+        results[textIndex] = approximateTokens(texts[textIndex], family)
+      })
+    }
+
+    return results as number[]
+  }
+
+  /**
+   * 同步获取 token 数量：命中缓存时返回分词器的结果，否则返回近似值
+   */
+  countTokensSync(text: string, model?: Model): number {
+    if (!text) {
+      return 0
+    }
+    const family = this.getFamily(model)
+    return this.countCache.get(this.getCacheKey(family, text)) ?? approximateTokens(text, family)
+  }
+
+  /**
+   * 释放 Worker 和缓存
+   */
+  dispose(): void {
+    this.pendingRequests.forEach(({ reject }) => reject(new Error('Tokenizer service disposed')))
+    this.pendingRequests.clear()
+    this.worker?.terminate()
+    this.worker = null
+    this.countCache.clear()
+  }
+
+  private getCacheKey(family: TokenizerFamily, text: string): string {
+    return `${family}:${text}`
+  }
+
+  private async countInWorker(texts: string[], family: TokenizerFamily): Promise<number[]> {
+    const worker = await this.initWorker()
+    if (!worker) {
+      throw new Error('Worker not available')
+    }
+
+    const id = this.requestId++
+    return new Promise<number[]>((resolve, reject) => {
+      const timerId = setTimeout(() => {
+        this.pendingRequests.delete(id)
+        reject(new Error('Worker count request timeout'))
+      }, SERVICE_CONFIG.WORKER.REQUEST_TIMEOUT)
+
+      this.pendingRequests.set(id, {
+        resolve: (value) => {
+          clearTimeout(timerId)
+          resolve(value)
+        },
+        reject: (reason) => {
+          clearTimeout(timerId)
+          reject(reason)
+        }
+      })
+
+      try {
+        worker.postMessage({ id, type: 'count', family, texts })
+      } catch (error) {
+        this.pendingRequests.delete(id)
+        clearTimeout(timerId)
+        reject(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+  }
+
+  /**
+   * 初始化 Worker
+   */
+  private async initWorker(): Promise<Worker | null> {
+    if (typeof Worker === 'undefined') return null
+    if (this.worker) return this.worker
+    if (this.workerInitPromise) return this.workerInitPromise
+
+    if (this.workerInitRetryCount >= SERVICE_CONFIG.WORKER.MAX_INIT_RETRY) {
+      return null
+    }
+
+    this.workerInitPromise = (async () => {
+      try {
+        // 动态导入 worker
+        const WorkerModule = await import('../workers/tokenizer.worker?worker')
+        const worker: Worker = new WorkerModule.default()
+
+        worker.onmessage = (event) => {
+          const { id, type, result, error } = event.data
+          const pendingRequest = this.pendingRequests.get(id)
+          if (!pendingRequest) return
+
+          this.pendingRequests.delete(id)
+          if (type === 'error') {
+            pendingRequest.reject(new Error(error))
+          } else {
+            pendingRequest.resolve(result)
+          }
+        }
+
+        worker.onerror = (event) => {
+          logger.error('Tokenizer worker error:', new Error(event.message))
+          this.pendingRequests.forEach(({ reject }) => reject(new Error(event.message)))
+          this.pendingRequests.clear()
+          worker.terminate()
+          if (this.worker === worker) {
+            this.worker = null
+          }
+          this.workerInitRetryCount++
+        }
+
+        this.worker = worker
+        return worker
+      } catch (error) {
+        this.workerInitRetryCount++
+        logger.warn('Failed to initialize tokenizer worker:', error as Error)
+        return null
+      } finally {
+        this.workerInitPromise = null
+      }
+    })()
+
+    return this.workerInitPromise
+  }
+}
+
+export const tokenizerService = new TokenizerService()
@@ -1,5 +1,7 @@
 import type { Assistant, Topic, Usage } from '@renderer/types'
 import type { Message } from '@renderer/types/newMessage'
+import { addCost, getCurrencySymbol, getMessageCost } from '@renderer/utils/cost'
+import dayjs from 'dayjs'
 
 export interface TokenUsageSummary {
   promptTokens: number
@@ -7,6 +9,8 @@ export interface TokenUsageSummary {
   totalTokens: number
   messageCount: number
   messagesWithUsage: number
+  // Keyed by currency symbol, since model prices may use different currencies
+  cost: Record<string, number>
 }
 
 export interface ConversationUsageStats extends TokenUsageSummary {
@@ -31,6 +35,13 @@ export interface AssistantUsageStats extends TokenUsageSummary {
   topics: TopicUsageStats[]
 }
 
+export type UsageBreakdownDimension = 'provider' | 'model' | 'assistant' | 'day'
+
+export interface UsageBreakdownRow extends TokenUsageSummary {
+  key: string
+  label: string
+}
+
 export interface UsageStatistics extends TokenUsageSummary {
   assistantCount: number
   topicCount: number
@@ -44,7 +55,8 @@ const createEmptySummary = (): TokenUsageSummary => ({
   completionTokens: 0,
   totalTokens: 0,
   messageCount: 0,
-  messagesWithUsage: 0
+  messagesWithUsage: 0,
+  cost: {}
 })
 
 const normalizeUsage = (
@@ -71,6 +83,12 @@ const addMessageUsage = (summary: TokenUsageSummary, message: Message): void =>
   if (message.usage) {
     summary.messagesWithUsage += 1
   }
+
+  // 只有回复消息产生费用，用户消息的 usage 是估算的输入 token
+  const cost = message.role === 'assistant' ? getMessageCost(message) : undefined
+  if (cost) {
+    addCost(summary.cost, getCurrencySymbol(message.model), cost)
+  }
 }
 
 const mergeSummary = (target: TokenUsageSummary, source: TokenUsageSummary): void => {
@@ -79,6 +97,7 @@ const mergeSummary = (target: TokenUsageSummary, source: TokenUsageSummary): voi
   target.totalTokens += source.totalTokens
   target.messageCount += source.messageCount
   target.messagesWithUsage += source.messagesWithUsage
+  Object.entries(source.cost).forEach(([currencySymbol, amount]) => addCost(target.cost, currencySymbol, amount))
 }
 
 type ConversationAccumulator = Omit<ConversationUsageStats, 'index'>
@@ -171,3 +190,65 @@ export const aggregateUsageStatistics = (
     ...globalSummary
   }
 }
+
+const getBreakdownEntry = (
+  message: Message,
+  assistant: Assistant,
+  dimension: UsageBreakdownDimension
+): Pick<UsageBreakdownRow, 'key' | 'label'> | undefined => {
+  switch (dimension) {
+    case 'provider':
+      return message.model ? { key: message.model.provider, label: message.model.provider } : undefined
+    case 'model':
+      return message.model
+        ? { key: `${message.model.provider}/${message.model.id}`, label: message.model.name || message.model.id }
+        : undefined
+    case 'assistant':
+      return { key: assistant.id, label: assistant.name }
+    case 'day': {
+      const day = dayjs(message.createdAt).format('YYYY-MM-DD')
+      return { key: day, label: day }
+    }
+  }
+}
+
+/**
+ * Aggregates assistant responses by provider, model, assistant or day.
+ * Only responses are counted, since their usage covers the whole request including the prompt.
+ * Days are sorted newest first, other groups by total tokens.
+ */
+export const aggregateUsageBreakdown = (
+  assistants: Assistant[],
+  topicMessagesById: TopicMessagesById,
+  dimension: UsageBreakdownDimension
+): UsageBreakdownRow[] => {
+  const rows = new Map<string, UsageBreakdownRow>()
+
+  for (const assistant of assistants) {
+    const topics = Array.isArray(assistant.topics) ? assistant.topics : []
+    for (const topic of topics) {
+      for (const message of topicMessagesById[topic.id] ?? []) {
+        if (message.role !== 'assistant') {
+          continue
+        }
+
+        const entry = getBreakdownEntry(message, assistant, dimension)
+        if (!entry) {
+          continue
+        }
+
+        let row = rows.get(entry.key)
+        if (!row) {
+          row = { ...entry, ...createEmptySummary() }
+          rows.set(entry.key, row)
+        }
+        addMessageUsage(row, message)
+      }
+    }
+  }
+
+  const result = Array.from(rows.values())
+  return dimension === 'day'
+    ? result.sort((a, b) => b.key.localeCompare(a.key))
+    : result.sort((a, b) => b.totalTokens - a.totalTokens)
+}
@@ -1,10 +1,17 @@
 import { combineReducers, configureStore } from '@reduxjs/toolkit'
 import { messageBlocksSlice } from '@renderer/store/messageBlock'
+import type { Message } from '@renderer/types/newMessage'
 import { MessageBlockStatus } from '@renderer/types/newMessage'
-import { createErrorBlock, createMainTextBlock, createMessage } from '@renderer/utils/messageUtils/create'
+import {
+  createCompactBlock,
+  createErrorBlock,
+  createMainTextBlock,
+  createMessage
+} from '@renderer/utils/messageUtils/create'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { ConversationService } from '../ConversationService'
+import { contextTokenEstimator } from '../TokenService'
 
 // Create a lightweight mock store for selectors used in the filtering pipeline
 const reducer = combineReducers({
@@ -164,3 +171,93 @@ describe('ConversationService.filterMessagesPipeline', () => {
     expect(filtered[filtered.length - 1].role).toBe('user')
   })
 })
+
+describe('ConversationService context compaction', () => {
+  const topicId = 'topic-1'
+  const assistantId = 'assistant-1'
+
+  beforeEach(() => {
+    mockStore = createMockStore()
+  })
+
+  const addTextMessage = (role: 'user' | 'assistant', id: string, content: string, askId?: string): Message => {
+    const block = createMainTextBlock(id, content, { status: MessageBlockStatus.SUCCESS })
+    mockStore.dispatch(messageBlocksSlice.actions.upsertOneBlock(block))
+    return createMessage(role, topicId, assistantId, { id, askId, blocks: [block.id] })
+  }
+
+  const addCompactMessage = (id: string, summary: string, compactedUntilId: string): Message => {
+    const block = createCompactBlock(id, summary, '', { status: MessageBlockStatus.SUCCESS })
+    mockStore.dispatch(messageBlocksSlice.actions.upsertOneBlock(block))
+    return createMessage('system', topicId, assistantId, {
+      id,
+      type: 'compact',
+      compactedUntilId,
+      blocks: [block.id]
+    })
+  }
+
+  const longText = (words: number) => 'decision '.repeat(words).trim()
+
+  it('replaces messages folded into the summary', () => {
+    const messages = [
+      addTextMessage('user', 'user-1', 'First question'),
+      addTextMessage('assistant', 'assistant-1', 'First answer', 'user-1'),
+      addTextMessage('user', 'user-2', 'Second question'),
+      addTextMessage('assistant', 'assistant-2', 'Second answer', 'user-2'),
+      addCompactMessage('compact-1', 'We agreed on PostgreSQL', 'assistant-1'),
+      addTextMessage('user', 'user-3', 'Third question')
+    ]
+
+    const filtered = ConversationService.filterMessagesPipeline(messages, 10)
+
+    expect(filtered.map((m) => m.id)).toEqual(['user-2', 'assistant-2', 'user-3'])
+    expect(ConversationService.getContextSummary(messages)).toBe('We agreed on PostgreSQL')
+  })
+
+  it('ignores a summary whose folded messages are no longer in the context', () => {
+    const messages = [
+      addTextMessage('user', 'user-2', 'Second question'),
+      addCompactMessage('compact-1', 'Stale summary', 'deleted-message'),
+      addTextMessage('user', 'user-3', 'Third question')
+    ]
+
+    expect(ConversationService.getContextSummary(messages)).toBeUndefined()
+    expect(ConversationService.filterMessagesPipeline(messages, 10).map((m) => m.id)).toEqual(['user-3'])
+  })
+
+  it('trims by token budget instead of message count', () => {
+    const messages = [
+      addTextMessage('user', 'user-1', longText(400)),
+      addTextMessage('assistant', 'assistant-1', longText(400), 'user-1'),
+      addTextMessage('user', 'user-2', 'Short question'),
+      addTextMessage('assistant', 'assistant-2', 'Short answer', 'user-2'),
+      addTextMessage('user', 'user-3', 'Latest question')
+    ]
+
+    const limit = (budget: number) => ({ budget, estimator: contextTokenEstimator })
+    expect(ConversationService.filterMessagesPipeline(messages, 0, limit(100)).map((m) => m.id)).toEqual([
+      'user-2',
+      'assistant-2',
+      'user-3'
+    ])
+    expect(ConversationService.filterMessagesPipeline(messages, 0, limit(10_000))).toHaveLength(5)
+  })
+
+  it('folds older turns only once the context exceeds the budget', () => {
+    const messages = [
+      addTextMessage('user', 'user-1', longText(400)),
+      addTextMessage('assistant', 'assistant-1', longText(400), 'user-1'),
+      addTextMessage('user', 'user-2', 'Short question'),
+      addTextMessage('assistant', 'assistant-2', 'Short answer', 'user-2')
+    ]
+
+    const limit = (budget: number) => ({ budget, estimator: contextTokenEstimator })
+    expect(ConversationService.selectMessagesToCompact(messages, limit(10_000))).toEqual([])
+    expect(ConversationService.selectMessagesToCompact(messages, limit(200)).map((m) => m.id)).toEqual([
+      'user-1',
+      'assistant-1'
+    ])
+    expect(ConversationService.selectMessagesToCompact(messages, limit(10_000), true)).toHaveLength(4)
+  })
+})
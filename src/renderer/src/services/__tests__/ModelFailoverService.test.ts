@@ -0,0 +1,188 @@
+import type { Assistant, Model } from '@renderer/types'
+import type { Chunk } from '@renderer/types/chunk'
+import { ChunkType } from '@renderer/types/chunk'
+import { APICallError } from 'ai'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { isModelBenched, selectAssistantModelForRequest } from '../ModelCandidatesService'
+import { isModelFailoverError, runWithModelFailover } from '../ModelFailoverService'
+import { ProviderBudgetExceededError } from '../SpendBudgetService'
+
+const mockState = vi.hoisted(() => ({
+  llm: {
+    providers: [{ id: 'openai', type: 'openai', apiKey: 'sk-test', enabled: true }],
+    modelGroups: [] as { id: string; name: string; models: Model[] }[]
+  }
+}))
+
+vi.mock('@renderer/store', () => ({
+  default: {
+    getState: () => mockState
+  }
+}))
+
+vi.mock('@renderer/hooks/useStore', () => ({
+  getStoreProviders: () => mockState.llm.providers
+}))
+
+vi.mock('@renderer/pages/code', () => ({
+  CLAUDE_SUPPORTED_PROVIDERS: []
+}))
+
+const createModel = (id: string): Model => ({ id, name: id, provider: 'openai', group: 'test' })
+
+const createApiError = (statusCode?: number, message = 'request failed') =>
+  new APICallError({ message, url: 'https://api.test', requestBodyValues: {}, statusCode })
+
+let groupSeq = 0
+
+// Each test gets its own models so the module-level circuit breaker state does not leak between tests
+const createAssistant = (models: Model[], overrides: Partial<Assistant> = {}): Assistant => {
+  const groupId = `group-${++groupSeq}`
+  mockState.llm.modelGroups = [{ id: groupId, name: 'Group', models }]
+  return {
+    id: 'assistant',
+    name: 'Assistant',
+    prompt: '',
+    topics: [],
+    type: 'assistant',
+    model: models[0],
+    selectedModelGroupId: groupId,
+    modelGroupRoutingMode: 'failover',
+    ...overrides
+  }
+}
+
+const text = (value: string): Chunk => ({ type: ChunkType.TEXT_DELTA, text: value })
+
+describe('isModelFailoverError', () => {
+  it('should fail over on rate limits, server and auth errors', () => {
+    expect(isModelFailoverError(createApiError(429))).toBe(true)
+    expect(isModelFailoverError(createApiError(503))).toBe(true)
+    expect(isModelFailoverError(createApiError(401))).toBe(true)
+    expect(isModelFailoverError(createApiError(undefined, 'Request timed out'))).toBe(true)
+  })
+
+  it('should fail over when the provider is over its monthly budget', () => {
+    expect(isModelFailoverError(new ProviderBudgetExceededError('openai', 'over budget'))).toBe(true)
+  })
+
+  it('should not fail over on client errors or user aborts', () => {
+    expect(isModelFailoverError(createApiError(400))).toBe(false)
+    expect(isModelFailoverError(new DOMException('aborted', 'AbortError'))).toBe(false)
+    expect(isModelFailoverError(undefined)).toBe(false)
+  })
+})
+
+describe('runWithModelFailover', () => {
+  let chunks: Chunk[]
+  const onChunkReceived = (chunk: Chunk) => chunks.push(chunk)
+
+  beforeEach(() => {
+    chunks = []
+  })
+
+  it('should retry the request on the next model when the first one fails before answering', async () => {
+    const [primary, backup] = [createModel('primary-1'), createModel('backup-1')]
+    const assistant = createAssistant([primary, backup])
+    const onModelFailover = vi.fn()
+    const fetch = vi.fn(async (request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      onChunk({ type: ChunkType.LLM_RESPONSE_CREATED })
+      if (request.model?.id === primary.id) {
+        onChunk({ type: ChunkType.ERROR, error: createApiError(429) })
+        onChunk({ type: ChunkType.LLM_RESPONSE_COMPLETE })
+        return
+      }
+      onChunk(text('hello'))
+      onChunk({ type: ChunkType.BLOCK_COMPLETE })
+    })
+
+    await runWithModelFailover({ assistant, onChunkReceived, onModelFailover }, fetch)
+
+    expect(fetch.mock.calls.map(([request]) => request.model?.id)).toEqual([primary.id, backup.id])
+    expect(onModelFailover).toHaveBeenCalledWith(backup)
+    expect(chunks.map((chunk) => chunk.type)).toEqual([
+      ChunkType.LLM_RESPONSE_CREATED,
+      ChunkType.TEXT_DELTA,
+      ChunkType.BLOCK_COMPLETE
+    ])
+  })
+
+  it('should not retry once the model has produced content', async () => {
+    const assistant = createAssistant([createModel('primary-2'), createModel('backup-2')])
+    const fetch = vi.fn(async (_request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      onChunk(text('partial'))
+      onChunk({ type: ChunkType.ERROR, error: createApiError(500) })
+    })
+
+    await runWithModelFailover({ assistant, onChunkReceived }, fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(chunks.map((chunk) => chunk.type)).toEqual([ChunkType.TEXT_DELTA, ChunkType.ERROR])
+  })
+
+  it('should surface errors that are not worth a retry', async () => {
+    const assistant = createAssistant([createModel('primary-3'), createModel('backup-3')])
+    const error = createApiError(400)
+    const fetch = vi.fn(async (_request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      onChunk({ type: ChunkType.ERROR, error })
+    })
+
+    await runWithModelFailover({ assistant, onChunkReceived }, fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(chunks).toEqual([{ type: ChunkType.ERROR, error }])
+  })
+
+  it('should only run once in other routing modes', async () => {
+    const assistant = createAssistant([createModel('primary-4'), createModel('backup-4')], {
+      modelGroupRoutingMode: 'order-first'
+    })
+    const fetch = vi.fn(async (_request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      onChunk({ type: ChunkType.ERROR, error: createApiError(429) })
+    })
+
+    await runWithModelFailover({ assistant, onChunkReceived }, fetch)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(chunks).toHaveLength(1)
+  })
+
+  it('should bench a model that keeps failing and skip it when selecting', async () => {
+    const [primary, backup] = [createModel('primary-5'), createModel('backup-5')]
+    const assistant = createAssistant([primary, backup], { modelFailoverCooldown: 30 })
+    const fetch = vi.fn(async (request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      if (request.model?.id === primary.id) {
+        onChunk({ type: ChunkType.ERROR, error: createApiError(502) })
+        return
+      }
+      onChunk(text('ok'))
+    })
+
+    for (let i = 0; i < 3; i++) {
+      await runWithModelFailover({ assistant, onChunkReceived }, fetch)
+    }
+
+    expect(isModelBenched(primary)).toBe(true)
+    expect(isModelBenched(primary, Date.now() + 31 * 1000)).toBe(false)
+    expect(selectAssistantModelForRequest(assistant)).toEqual(backup)
+  })
+
+  it('should fail over without benching a model whose provider is over budget', async () => {
+    const [primary, backup] = [createModel('primary-6'), createModel('backup-6')]
+    const assistant = createAssistant([primary, backup], { modelFailoverCooldown: 30 })
+    const fetch = vi.fn(async (request: Assistant, onChunk: (chunk: Chunk) => void) => {
+      if (request.model?.id === primary.id) {
+        throw new ProviderBudgetExceededError('openai', 'over budget')
+      }
+      onChunk(text('ok'))
+    })
+
+    for (let i = 0; i < 3; i++) {
+      await runWithModelFailover({ assistant, onChunkReceived }, fetch)
+    }
+
+    expect(fetch).toHaveBeenCalledTimes(6)
+    expect(isModelBenched(primary)).toBe(false)
+  })
+})
@@ -0,0 +1,56 @@
+import type { Message } from '@renderer/types/newMessage'
+import dayjs from 'dayjs'
+import { describe, expect, it, vi } from 'vitest'
+
+import { getProviderMonthlySpend, recordMonthlySpend } from '../SpendBudgetService'
+
+const mocks = vi.hoisted(() => ({
+  messages: [] as Partial<Message>[]
+}))
+
+vi.mock('@renderer/store', () => ({
+  default: {
+    getState: () => ({ llm: { providers: [] } })
+  }
+}))
+
+vi.mock('@renderer/hooks/useStore', () => ({
+  getStoreProviders: () => []
+}))
+
+vi.mock('@renderer/databases', () => ({
+  default: {
+    topics: {
+      each: vi.fn(async (callback: (topic: { messages: Partial<Message>[] }) => void) => {
+        callback({ messages: mocks.messages })
+      })
+    }
+  }
+}))
+
+const createMessage = (provider: string, cost: number, createdAt = dayjs().toISOString()): Partial<Message> => ({
+  role: 'assistant',
+  createdAt,
+  model: { id: 'model', name: 'model', provider, group: 'test' },
+  usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost }
+})
+
+describe('SpendBudgetService', () => {
+  it('adds new spend to the monthly totals without reloading the history', async () => {
+    const db = (await import('@renderer/databases')).default
+    mocks.messages = [
+      createMessage('openai', 1.5),
+      createMessage('openai', 0.5),
+      createMessage('anthropic', 2),
+      createMessage('openai', 10, dayjs().subtract(2, 'month').toISOString())
+    ]
+
+    expect(await getProviderMonthlySpend('openai')).toBe(2)
+    expect(await getProviderMonthlySpend('anthropic')).toBe(2)
+
+    recordMonthlySpend('openai', 0.25)
+
+    expect(await getProviderMonthlySpend('openai')).toBe(2.25)
+    expect(db.topics.each).toHaveBeenCalledTimes(1)
+  })
+})
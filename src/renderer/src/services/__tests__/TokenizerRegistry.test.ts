@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+
+import { approximateTokens, countTokens, getTokenizerFamily, getTokenizerProfile } from '../TokenizerRegistry'
+
+describe('TokenizerRegistry', () => {
+  describe('getTokenizerFamily', () => {
+    it('maps OpenAI models to their tiktoken encodings', () => {
+      expect(getTokenizerFamily('gpt-4o-mini')).toBe('openai-o200k')
+      expect(getTokenizerFamily('gpt-4.1')).toBe('openai-o200k')
+      expect(getTokenizerFamily('gpt-5-chat')).toBe('openai-o200k')
+      expect(getTokenizerFamily('o3-mini')).toBe('openai-o200k')
+      expect(getTokenizerFamily('gpt-4-turbo')).toBe('openai-cl100k')
+      expect(getTokenizerFamily('gpt-3.5-turbo')).toBe('openai-cl100k')
+    })
+
+    it('maps other model families to approximations', () => {
+      expect(getTokenizerFamily('claude-sonnet-4-5')).toBe('claude')
+      expect(getTokenizerFamily('gemini-2.5-pro')).toBe('gemini')
+      expect(getTokenizerFamily('qwen3-coder-plus')).toBe('qwen')
+      expect(getTokenizerFamily('deepseek-chat')).toBe('deepseek')
+      expect(getTokenizerFamily('llama-3.3-70b')).toBe('llama')
+      expect(getTokenizerProfile('claude').exact).toBe(false)
+    })
+
+    it('falls back to the generic tokenizer', () => {
+      expect(getTokenizerFamily('some-unknown-model')).toBe('generic')
+      expect(getTokenizerFamily(undefined)).toBe('generic')
+    })
+  })
+
+  describe('countTokens', () => {
+    it('counts with the exact tiktoken encoding', async () => {
+      expect(await countTokens('hello world', 'openai-o200k')).toBe(2)
+      expect(await countTokens('hello world', 'openai-cl100k')).toBe(2)
+      expect(await countTokens('', 'openai-o200k')).toBe(0)
+    })
+
+    it('encodes special tokens in user text as plain text', async () => {
+      expect(await countTokens('<|endoftext|>', 'openai-cl100k')).toBeGreaterThan(1)
+    })
+
+    it('scales CJK text by the family ratio', async () => {
+      const text = '你好世界你好世界你好'
+      expect(await countTokens(text, 'qwen')).toBe(Math.ceil(text.length * 0.65))
+      expect(await countTokens(text, 'claude')).toBe(Math.ceil(text.length * 1.1))
+    })
+  })
+
+  describe('approximateTokens', () => {
+    it('counts CJK characters separately from other text', () => {
+      expect(approximateTokens('你好世界', 'deepseek')).toBe(Math.ceil(4 * 0.6))
+      expect(approximateTokens('', 'gemini')).toBe(0)
+      expect(approximateTokens('hello world', 'generic')).toBeGreaterThan(0)
+    })
+  })
+})
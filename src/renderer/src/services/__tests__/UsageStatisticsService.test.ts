@@ -1,8 +1,12 @@
-import type { Assistant, Topic, Usage } from '@renderer/types'
+import type { Assistant, Model, Topic, Usage } from '@renderer/types'
 import { AssistantMessageStatus, type Message, UserMessageStatus } from '@renderer/types/newMessage'
 import { describe, expect, it } from 'vitest'
 
-import { aggregateUsageStatistics, buildConversationUsageStats } from '../UsageStatisticsService'
+import {
+  aggregateUsageBreakdown,
+  aggregateUsageStatistics,
+  buildConversationUsageStats
+} from '../UsageStatisticsService'
 
 const createTopic = (id: string, assistantId: string, name: string): Topic => ({
   id,
@@ -28,7 +32,8 @@ const createMessage = ({
   assistantId,
   createdAt,
   askId,
-  usage
+  usage,
+  model
 }: {
   id: string
   role: Message['role']
@@ -37,6 +42,7 @@ const createMessage = ({
   createdAt: string
   askId?: string
   usage?: Usage
+  model?: Model
 }): Message => ({
   id,
   role,
@@ -46,7 +52,8 @@ const createMessage = ({
   status: role === 'assistant' ? AssistantMessageStatus.SUCCESS : UserMessageStatus.SUCCESS,
   blocks: [],
   askId,
-  usage
+  usage,
+  model
 })
 
 describe('buildConversationUsageStats', () => {
@@ -190,3 +197,102 @@ describe('aggregateUsageStatistics', () => {
     })
   })
 })
+
+describe('aggregateUsageBreakdown', () => {
+  const gpt: Model = {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    group: 'gpt-4o',
+    pricing: { input_per_million_tokens: 2, output_per_million_tokens: 8 }
+  }
+  const qwen: Model = {
+    id: 'qwen-max',
+    name: 'Qwen Max',
+    provider: 'dashscope',
+    group: 'qwen',
+    pricing: { input_per_million_tokens: 2, output_per_million_tokens: 6, currencySymbol: '¥' }
+  }
+
+  const topicA = createTopic('topic-a', 'assistant-a', 'Topic A')
+  const topicB = createTopic('topic-b', 'assistant-b', 'Topic B')
+  const assistants = [
+    createAssistant('assistant-a', 'Assistant A', [topicA]),
+    createAssistant('assistant-b', 'Assistant B', [topicB])
+  ]
+  const topicMessagesById: Record<string, Message[]> = {
+    'topic-a': [
+      createMessage({
+        id: 'a-u-1',
+        role: 'user',
+        topicId: 'topic-a',
+        assistantId: 'assistant-a',
+        createdAt: '2026-01-01T10:00:00.000Z',
+        usage: { prompt_tokens: 100, completion_tokens: 0, total_tokens: 100 }
+      }),
+      createMessage({
+        id: 'a-a-1',
+        role: 'assistant',
+        topicId: 'topic-a',
+        assistantId: 'assistant-a',
+        askId: 'a-u-1',
+        createdAt: '2026-01-01T10:00:01.000Z',
+        model: gpt,
+        usage: { prompt_tokens: 1_000_000, completion_tokens: 1_000_000, total_tokens: 2_000_000 }
+      }),
+      createMessage({
+        id: 'a-a-2',
+        role: 'assistant',
+        topicId: 'topic-a',
+        assistantId: 'assistant-a',
+        askId: 'a-u-1',
+        createdAt: '2026-01-02T10:00:01.000Z',
+        model: qwen,
+        usage: { prompt_tokens: 500_000, completion_tokens: 0, total_tokens: 500_000 }
+      })
+    ],
+    'topic-b': [
+      createMessage({
+        id: 'b-a-1',
+        role: 'assistant',
+        topicId: 'topic-b',
+        assistantId: 'assistant-b',
+        createdAt: '2026-01-02T11:00:00.000Z',
+        model: gpt,
+        // Reported by the provider, takes precedence over the model's pricing
+        usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20, cost: 0.25 }
+      })
+    ]
+  }
+
+  it('groups responses by provider with cost per currency', () => {
+    const rows = aggregateUsageBreakdown(assistants, topicMessagesById, 'provider')
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ key: 'openai', messageCount: 2, totalTokens: 2_000_020 })
+    expect(rows[0].cost.$).toBeCloseTo(10.25)
+    expect(rows[1]).toMatchObject({ key: 'dashscope', messageCount: 1, cost: { '¥': 1 } })
+  })
+
+  it('groups responses by model, assistant and day', () => {
+    expect(aggregateUsageBreakdown(assistants, topicMessagesById, 'model').map((row) => row.label)).toEqual([
+      'GPT-4o',
+      'Qwen Max'
+    ])
+    expect(aggregateUsageBreakdown(assistants, topicMessagesById, 'assistant')).toMatchObject([
+      { key: 'assistant-a', messageCount: 2 },
+      { key: 'assistant-b', messageCount: 1 }
+    ])
+    expect(aggregateUsageBreakdown(assistants, topicMessagesById, 'day').map((row) => row.key)).toEqual([
+      '2026-01-02',
+      '2026-01-01'
+    ])
+  })
+
+  it('adds response costs to the usage statistics', () => {
+    const stats = aggregateUsageStatistics(assistants, topicMessagesById)
+
+    expect(stats.cost.$).toBeCloseTo(10.25)
+    expect(stats.cost['¥']).toBeCloseTo(1)
+  })
+})
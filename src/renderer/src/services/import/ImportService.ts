@@ -2,12 +2,21 @@ import { loggerService } from '@logger'
 import i18n from '@renderer/i18n'
 import store from '@renderer/store'
 import { addAssistant } from '@renderer/store/assistants'
-import type { Assistant } from '@renderer/types'
+import type { Assistant, Topic } from '@renderer/types'
 import { uuid } from '@renderer/utils'
 
 import { DEFAULT_ASSISTANT_SETTINGS } from '../AssistantService'
 import { availableImporters } from './importers'
-import type { ConversationImporter, ImportResponse } from './types'
+import type {
+  ConversationImporter,
+  ImportConversationSummary,
+  ImportedAssistant,
+  ImportPreview,
+  ImportPreviewResponse,
+  ImportResponse,
+  ImportResult
+} from './types'
+import { saveImportAttachments } from './utils/attachments'
 import { saveImportToDatabase } from './utils/database'
 
 const logger = loggerService.withContext('ImportService')
@@ -55,89 +64,124 @@ class ImportServiceClass {
   }
 
   /**
-   * Import conversations from file content
+   * Resolve the importer by name, or detect it from the file content
+   */
+  private resolveImporter(fileContent: string, importerName?: string): ConversationImporter | string {
+    if (importerName) {
+      const importer = this.getImporter(importerName)
+      if (!importer) {
+        return `Importer "${importerName}" not found`
+      }
+      if (!importer.validate(fileContent)) {
+        return i18n.t('import.error.invalid_format', { name: importer.name })
+      }
+      return importer
+    }
+
+    return this.detectImporter(fileContent) ?? i18n.t('import.error.unsupported_format')
+  }
+
+  /**
+   * Parse file content without saving, so the user can select which conversations to import
    * Automatically detects the format and uses the appropriate importer
    */
-  async importConversations(fileContent: string, importerName?: string): Promise<ImportResponse> {
+  async previewImport(fileContent: string, importerName?: string): Promise<ImportPreviewResponse> {
     try {
-      logger.info('Starting import...')
-
-      // Parse JSON first to validate format
-      let importer: ConversationImporter | null = null
-
-      if (importerName) {
-        // Use specified importer
-        const foundImporter = this.getImporter(importerName)
-        if (!foundImporter) {
-          return {
-            success: false,
-            topicsCount: 0,
-            messagesCount: 0,
-            error: `Importer "${importerName}" not found`
-          }
-        }
-        importer = foundImporter
-      } else {
-        // Auto-detect importer
-        importer = this.detectImporter(fileContent)
-        if (!importer) {
-          return {
-            success: false,
-            topicsCount: 0,
-            messagesCount: 0,
-            error: i18n.t('import.error.unsupported_format', { defaultValue: 'Unsupported file format' })
-          }
-        }
-      }
+      logger.info('Parsing import file...')
 
-      // Validate format
-      if (!importer.validate(fileContent)) {
-        return {
-          success: false,
-          topicsCount: 0,
-          messagesCount: 0,
-          error: i18n.t('import.error.invalid_format', {
-            defaultValue: `Invalid ${importer.name} format`
-          })
-        }
+      const importer = this.resolveImporter(fileContent, importerName)
+      if (typeof importer === 'string') {
+        return { success: false, error: importer }
       }
 
-      // Create assistant
+      // Topics are parsed with the ID of the assistant created on import
       const assistantId = uuid()
-
-      // Parse conversations
       const result = await importer.parse(fileContent, assistantId)
 
+      const assistantNames = new Map((result.assistants ?? []).map((assistant) => [assistant.id, assistant.name]))
+      const conversations: ImportConversationSummary[] = result.topics.map((topic) => ({
+        topicId: topic.id,
+        title: topic.name,
+        assistantName: assistantNames.get(topic.assistantId),
+        createdAt: topic.createdAt,
+        updatedAt: topic.updatedAt,
+        messageCount: topic.messages.length
+      }))
+
+      logger.info(`Parsed ${conversations.length} conversations with ${importer.name} importer`)
+
+      return {
+        success: true,
+        preview: { importerName: importer.name, assistantId, result, conversations }
+      }
+    } catch (error) {
+      logger.error('Failed to parse import file:', error as Error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : i18n.t('import.error.unknown')
+      }
+    }
+  }
+
+  /**
+   * Import the selected conversations of a parsed file
+   * @param preview - Result of previewImport()
+   * @param topicIds - IDs of the conversations to import, all conversations when omitted
+   */
+  async importPreview(preview: ImportPreview, topicIds?: string[]): Promise<ImportResponse> {
+    try {
+      const selectedIds = topicIds ? new Set(topicIds) : undefined
+      const topics = preview.result.topics.filter((topic) => !selectedIds || selectedIds.has(topic.id))
+      if (topics.length === 0) {
+        return { success: false, topicsCount: 0, messagesCount: 0, error: i18n.t('import.error.no_selection') }
+      }
+
+      const topicIdSet = new Set(topics.map((topic) => topic.id))
+      const messages = preview.result.messages.filter((message) => topicIdSet.has(message.topicId))
+      const messageIds = new Set(messages.map((message) => message.id))
+      const result: ImportResult = {
+        ...preview.result,
+        topics,
+        messages,
+        blocks: preview.result.blocks.filter((block) => messageIds.has(block.messageId)),
+        attachments: preview.result.attachments?.filter((attachment) => messageIds.has(attachment.messageId))
+      }
+
+      // Save attachments first so their blocks are saved with the messages
+      await saveImportAttachments(result)
+
       // Save to database
       await saveImportToDatabase(result)
 
-      // Create assistant
-      const importerKey = `import.${importer.name.toLowerCase()}.assistant_name`
-      const assistant: Assistant = {
-        id: assistantId,
-        name: i18n.t(importerKey, {
-          defaultValue: `${importer.name} Import`
-        }),
-        emoji: importer.emoji,
-        prompt: '',
-        topics: result.topics,
-        messages: [],
-        type: 'assistant',
-        settings: DEFAULT_ASSISTANT_SETTINGS
+      const importerKey = `import.${preview.importerName.toLowerCase()}.assistant_name`
+      const assistants = [
+        {
+          id: preview.assistantId,
+          name: i18n.t(importerKey, { defaultValue: `${preview.importerName} Import` }),
+          emoji: this.getImporter(preview.importerName)?.emoji
+        },
+        ...(result.assistants ?? [])
+      ]
+        .map((assistant) =>
+          this.createAssistant(
+            assistant,
+            topics.filter((topic) => topic.assistantId === assistant.id)
+          )
+        )
+        .filter((assistant) => assistant.topics.length > 0)
+
+      // Add assistants to store
+      for (const assistant of assistants) {
+        store.dispatch(addAssistant(assistant))
       }
 
-      // Add assistant to store
-      store.dispatch(addAssistant(assistant))
-
-      logger.info(
-        `Import completed: ${result.topics.length} conversations, ${result.messages.length} messages imported`
-      )
+      logger.info(`Import completed: ${topics.length} conversations, ${messages.length} messages imported`)
 
       return {
         success: true,
-        assistant,
-        topicsCount: result.topics.length,
-        messagesCount: result.messages.length
+        assistant: assistants[0],
+        topicsCount: topics.length,
+        messagesCount: messages.length
       }
     } catch (error) {
       logger.error('Import failed:', error as Error)
@@ -145,12 +189,39 @@ class ImportServiceClass {
         success: false,
         topicsCount: 0,
         messagesCount: 0,
-        error:
-          error instanceof Error ? error.message : i18n.t('import.error.unknown', { defaultValue: 'Unknown error' })
+        error: error instanceof Error ? error.message : i18n.t('import.error.unknown')
       }
     }
   }
 
+  /**
+   * Import conversations from file content
+   * Automatically detects the format and uses the appropriate importer
+   */
+  async importConversations(fileContent: string, importerName?: string): Promise<ImportResponse> {
+    logger.info('Starting import...')
+
+    const { preview, error } = await this.previewImport(fileContent, importerName)
+    if (!preview) {
+      return { success: false, topicsCount: 0, messagesCount: 0, error }
+    }
+
+    return this.importPreview(preview)
+  }
+
+  private createAssistant(imported: ImportedAssistant, topics: Topic[]): Assistant {
+    return {
+      id: imported.id,
+      name: imported.name,
+      emoji: imported.emoji,
+      prompt: imported.prompt ?? '',
+      topics,
+      messages: [],
+      type: 'assistant',
+      settings: DEFAULT_ASSISTANT_SETTINGS
+    }
+  }
+
   /**
    * Import ChatGPT conversations (backward compatibility)
    * @deprecated Use importConversations() instead
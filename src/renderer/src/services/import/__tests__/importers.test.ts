@@ -0,0 +1,233 @@
+import { MessageBlockType } from '@renderer/types/newMessage'
+import { describe, expect, it, vi } from 'vitest'
+
+import { ChatGPTImporter, ClaudeImporter, GeminiImporter, LobeChatImporter, OpenWebUIImporter } from '../importers'
+import { extractReasoning, toISODate } from '../utils/conversation'
+
+vi.mock('@renderer/store', () => ({
+  default: {
+    getState: vi.fn(),
+    dispatch: vi.fn()
+  }
+}))
+
+vi.mock('@renderer/i18n', () => ({
+  default: {
+    t: vi.fn((key: string) => key)
+  }
+}))
+
+const claudeExport = [
+  {
+    uuid: 'conv-1',
+    name: 'Sorting algorithms',
+    created_at: '2025-01-01T10:00:00.000Z',
+    updated_at: '2025-01-01T10:05:00.000Z',
+    chat_messages: [
+      {
+        uuid: 'msg-1',
+        sender: 'human',
+        text: 'Explain quicksort',
+        content: [{ type: 'text', text: 'Explain quicksort' }],
+        created_at: '2025-01-01T10:00:00.000Z',
+        attachments: [{ file_name: 'notes.txt', extracted_content: 'pivot notes' }]
+      },
+      {
+        uuid: 'msg-2',
+        sender: 'assistant',
+        text: '',
+        content: [
+          { type: 'thinking', thinking: 'The user wants an overview' },
+          { type: 'text', text: 'Quicksort picks a pivot.' }
+        ],
+        created_at: '2025-01-01T10:00:05.000Z',
+        attachments: []
+      }
+    ]
+  }
+]
+
+const geminiExport = [
+  {
+    header: 'Gemini Apps',
+    title: 'Prompted And in Python?',
+    time: '2025-02-01T09:10:00.000Z',
+    products: ['Gemini Apps'],
+    safeHtmlItem: [{ html: '<p>Use <code>sorted()</code></p>' }]
+  },
+  {
+    header: 'Gemini Apps',
+    title: 'Prompted How do I sort a list?',
+    time: '2025-02-01T09:00:00.000Z',
+    products: ['Gemini Apps'],
+    safeHtmlItem: [{ html: '<p>It depends on the language.</p>' }]
+  },
+  {
+    header: 'Gemini Apps',
+    title: 'Prompted Plan a trip',
+    time: '2025-02-02T09:00:00.000Z',
+    products: ['Gemini Apps'],
+    safeHtmlItem: [{ html: '<p>Sure!</p>' }]
+  },
+  {
+    header: 'Gemini Apps',
+    title: 'Used an Assistant feature',
+    time: '2025-02-02T10:00:00.000Z',
+    products: ['Gemini Apps']
+  }
+]
+
+const openWebUIExport = [
+  {
+    id: 'chat-1',
+    title: 'Reasoning chat',
+    created_at: 1735725600,
+    updated_at: 1735725700,
+    chat: {
+      models: ['deepseek-r1:8b'],
+      history: {
+        currentId: 'a2',
+        messages: {
+          u1: { id: 'u1', parentId: null, role: 'user', content: 'Hi', timestamp: 1735725600 },
+          a1: { id: 'a1', parentId: 'u1', role: 'assistant', content: 'Old answer', timestamp: 1735725610 },
+          a2: {
+            id: 'a2',
+            parentId: 'u1',
+            role: 'assistant',
+            content:
+              '<details type="reasoning" done="true" duration="2">\n<summary>Thought for 2 seconds</summary>\n> Say hello\n</details>\nHello!',
+            timestamp: 1735725620
+          }
+        }
+      },
+      messages: []
+    }
+  }
+]
+
+const lobeChatExport = {
+  exportType: 'all',
+  version: 7,
+  state: {
+    sessions: [
+      {
+        id: 'session-1',
+        meta: { title: 'Translator', avatar: '🌐' },
+        config: { systemRole: 'Translate everything' }
+      }
+    ],
+    topics: [{ id: 'topic-1', title: 'French', sessionId: 'session-1', createdAt: 1735725600000 }],
+    messages: [
+      {
+        id: 'm1',
+        role: 'user',
+        content: 'Bonjour',
+        createdAt: 1735725600000,
+        sessionId: 'session-1',
+        topicId: 'topic-1',
+        imageList: [{ alt: 'photo', url: 'data:image/png;base64,aGVsbG8=' }]
+      },
+      {
+        id: 'm2',
+        role: 'assistant',
+        content: 'Hello',
+        createdAt: 1735725601000,
+        sessionId: 'session-1',
+        topicId: 'topic-1',
+        model: 'gpt-4o',
+        provider: 'openai',
+        reasoning: { content: 'French greeting' }
+      },
+      { id: 'm3', role: 'user', content: 'Inbox message', createdAt: 1735725602000, sessionId: 'inbox' }
+    ]
+  }
+}
+
+const exports = {
+  Claude: claudeExport,
+  Gemini: geminiExport,
+  OpenWebUI: openWebUIExport,
+  LobeChat: lobeChatExport
+}
+
+describe('importers', () => {
+  const importers = [
+    new ChatGPTImporter(),
+    new ClaudeImporter(),
+    new GeminiImporter(),
+    new OpenWebUIImporter(),
+    new LobeChatImporter()
+  ]
+
+  it('only accepts its own export format', () => {
+    for (const [name, data] of Object.entries(exports)) {
+      const matched = importers.filter((importer) => importer.validate(JSON.stringify(data)))
+      expect(matched.map((importer) => importer.name)).toEqual([name])
+    }
+    expect(new ClaudeImporter().validate('not json')).toBe(false)
+  })
+
+  it('imports Claude conversations with thinking and attachments', async () => {
+    const result = await new ClaudeImporter().parse(JSON.stringify(claudeExport), 'assistant-1')
+
+    expect(result.topics).toHaveLength(1)
+    expect(result.topics[0]).toMatchObject({ name: 'Sorting algorithms', assistantId: 'assistant-1' })
+    expect(result.messages.map((message) => message.role)).toEqual(['user', 'assistant'])
+    expect(result.messages[1].model?.provider).toBe('anthropic')
+
+    const assistantBlocks = result.blocks.filter((block) => block.messageId === result.messages[1].id)
+    expect(assistantBlocks.map((block) => block.type)).toEqual([MessageBlockType.THINKING, MessageBlockType.MAIN_TEXT])
+    expect(result.attachments).toEqual([
+      { messageId: result.messages[0].id, name: 'notes.txt', data: 'pivot notes', encoding: 'text' }
+    ])
+  })
+
+  it('groups Gemini prompts into conversations by time', async () => {
+    const result = await new GeminiImporter().parse(JSON.stringify(geminiExport), 'assistant-1')
+
+    expect(result.topics.map((topic) => topic.name)).toEqual(['How do I sort a list?', 'Plan a trip'])
+    expect(result.topics[0].messages).toHaveLength(4)
+    expect(result.topics[0].createdAt).toBe('2025-02-01T09:00:00.000Z')
+
+    const reply = result.blocks.find(
+      (block) => block.messageId === result.topics[0].messages[3].id && block.type === MessageBlockType.MAIN_TEXT
+    )
+    expect(reply).toMatchObject({ content: expect.stringContaining('`sorted()`') })
+  })
+
+  it('imports the selected Open WebUI branch with reasoning', async () => {
+    const result = await new OpenWebUIImporter().parse(JSON.stringify(openWebUIExport), 'assistant-1')
+
+    expect(result.messages).toHaveLength(2)
+    expect(result.messages[1].model?.id).toBe('deepseek-r1:8b')
+    expect(result.topics[0].createdAt).toBe(toISODate(1735725600))
+
+    const blocks = result.blocks.filter((block) => block.messageId === result.messages[1].id)
+    expect(blocks).toMatchObject([
+      { type: MessageBlockType.THINKING, content: 'Say hello' },
+      { type: MessageBlockType.MAIN_TEXT, content: 'Hello!' }
+    ])
+  })
+
+  it('imports LobeChat sessions as assistants', async () => {
+    const result = await new LobeChatImporter().parse(JSON.stringify(lobeChatExport), 'assistant-1')
+
+    expect(result.assistants).toHaveLength(1)
+    expect(result.assistants?.[0]).toMatchObject({ name: 'Translator', emoji: '🌐', prompt: 'Translate everything' })
+
+    const [sessionTopic, inboxTopic] = result.topics
+    expect(sessionTopic).toMatchObject({ name: 'French', assistantId: result.assistants?.[0].id })
+    expect(inboxTopic.assistantId).toBe('assistant-1')
+    expect(result.messages[1].model).toMatchObject({ id: 'gpt-4o', provider: 'openai' })
+    expect(result.attachments).toEqual([
+      { messageId: result.messages[0].id, name: 'photo.png', data: 'aGVsbG8=', encoding: 'base64' }
+    ])
+  })
+})
+
+describe('extractReasoning', () => {
+  it('extracts think tags from the content', () => {
+    expect(extractReasoning('<think>plan</think>\nAnswer')).toEqual({ content: 'Answer', reasoning: 'plan' })
+    expect(extractReasoning('Plain answer')).toEqual({ content: 'Plain answer', reasoning: undefined })
+  })
+})
@@ -0,0 +1,154 @@
+import { loggerService } from '@logger'
+import i18n from '@renderer/i18n'
+import type { Model } from '@renderer/types'
+
+import type { ConversationImporter, ImportResult } from '../types'
+import type { ImportedConversation, ImportedMessage } from '../utils/conversation'
+import { convertConversations, toISODate } from '../utils/conversation'
+
+const logger = loggerService.withContext('ClaudeImporter')
+
+/**
+ * Claude.ai Export Format Types
+ */
+interface ClaudeContent {
+  type: string
+  text?: string
+  thinking?: string
+}
+
+interface ClaudeAttachment {
+  file_name?: string
+  extracted_content?: string
+}
+
+interface ClaudeChatMessage {
+  uuid: string
+  sender: 'human' | 'assistant'
+  text?: string
+  content?: ClaudeContent[]
+  created_at?: string
+  attachments?: ClaudeAttachment[]
+}
+
+interface ClaudeConversation {
+  uuid: string
+  name?: string
+  created_at?: string
+  updated_at?: string
+  chat_messages: ClaudeChatMessage[]
+}
+
+const CLAUDE_MODEL: Model = {
+  id: 'claude',
+  provider: 'anthropic',
+  name: 'Claude',
+  group: 'claude'
+}
+
+/**
+ * Claude conversation importer
+ * Handles importing conversations from the conversations.json file of a Claude.ai data export
+ */
+export class ClaudeImporter implements ConversationImporter {
+  readonly name = 'Claude'
+  readonly emoji = '✳️'
+
+  /**
+   * Validate if the file content is a valid Claude.ai export
+   */
+  validate(fileContent: string): boolean {
+    try {
+      const parsed = JSON.parse(fileContent)
+      const conversations = Array.isArray(parsed) ? parsed : [parsed]
+
+      return (
+        conversations.length > 0 &&
+        conversations.every(
+          (conv) => conv && typeof conv === 'object' && 'uuid' in conv && Array.isArray(conv.chat_messages)
+        )
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Parse Claude conversations and convert to unified format
+   */
+  async parse(fileContent: string, assistantId: string): Promise<ImportResult> {
+    logger.info('Starting Claude import...')
+
+    const parsed = JSON.parse(fileContent)
+    const conversations: ClaudeConversation[] = Array.isArray(parsed) ? parsed : [parsed]
+
+    if (conversations.length === 0) {
+      throw new Error(i18n.t('import.error.no_conversations'))
+    }
+
+    logger.info(`Found ${conversations.length} conversations`)
+
+    const importedConversations: ImportedConversation[] = []
+    for (const conversation of conversations) {
+      try {
+        importedConversations.push({
+          title: conversation.name?.trim() || i18n.t('import.untitled_conversation'),
+          createdAt: toISODate(conversation.created_at),
+          updatedAt: toISODate(conversation.updated_at),
+          messages: conversation.chat_messages.map((message) => this.convertMessage(message))
+        })
+      } catch (convError) {
+        logger.warn(`Failed to convert conversation "${conversation.name}":`, convError as Error)
+      }
+    }
+
+    const result = convertConversations(importedConversations, assistantId)
+    if (result.topics.length === 0) {
+      throw new Error(i18n.t('import.error.no_valid_conversations'))
+    }
+
+    return result
+  }
+
+  /**
+   * Convert a Claude message, keeping thinking and extracted attachment content
+   */
+  private convertMessage(message: ClaudeChatMessage): ImportedMessage {
+    const texts: string[] = []
+    const thinking: string[] = []
+
+    for (const content of message.content ?? []) {
+      if (content.type === 'text' && content.text) {
+        texts.push(content.text)
+      } else if (content.type === 'thinking' && content.thinking) {
+        thinking.push(content.thinking)
+      }
+    }
+
+    // 旧版导出没有 content 字段
+    if (texts.length === 0 && message.text) {
+      texts.push(message.text)
+    }
+
+    const role = message.sender === 'human' ? 'user' : 'assistant'
+
+    return {
+      role,
+      content: texts.join('\n\n'),
+      reasoning: thinking.join('\n\n') || undefined,
+      createdAt: toISODate(message.created_at),
+      model: role === 'assistant' ? CLAUDE_MODEL : undefined,
+      attachments: (message.attachments ?? []).flatMap((attachment, index) =>
+        attachment.extracted_content
+          ? [
+              {
+                name: attachment.file_name || `attachment-${index + 1}.txt`,
+                data: attachment.extracted_content,
+                encoding: 'text' as const
+              }
+            ]
+          : []
+      )
+    }
+  }
+}
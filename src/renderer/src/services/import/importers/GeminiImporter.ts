@@ -0,0 +1,127 @@
+import { loggerService } from '@logger'
+import i18n from '@renderer/i18n'
+import type { Model } from '@renderer/types'
+import { htmlToMarkdown } from '@renderer/utils/markdownConverter'
+
+import type { ConversationImporter, ImportResult } from '../types'
+import type { ImportedConversation } from '../utils/conversation'
+import { convertConversations, toISODate } from '../utils/conversation'
+
+const logger = loggerService.withContext('GeminiImporter')
+
+/**
+ * Google Takeout "My Activity" Format Types
+ */
+interface GeminiActivity {
+  header?: string
+  title?: string
+  time?: string
+  products?: string[]
+  safeHtmlItem?: { html?: string }[]
+}
+
+const GEMINI_MODEL: Model = {
+  id: 'gemini',
+  provider: 'gemini',
+  name: 'Gemini',
+  group: 'gemini'
+}
+
+const PROMPT_PREFIX = 'Prompted '
+
+// Takeout 不记录会话，间隔超过 30 分钟的活动视为新的对话
+const CONVERSATION_GAP_MS = 30 * 60 * 1000
+
+const TITLE_MAX_LENGTH = 50
+
+/**
+ * Gemini conversation importer
+ * Handles importing Gemini Apps activity from Google Takeout's MyActivity.json
+ */
+export class GeminiImporter implements ConversationImporter {
+  readonly name = 'Gemini'
+  readonly emoji = '✨'
+
+  /**
+   * Validate if the file content is a Gemini Apps activity export
+   */
+  validate(fileContent: string): boolean {
+    try {
+      const parsed = JSON.parse(fileContent)
+
+      return (
+        Array.isArray(parsed) &&
+        parsed.length > 0 &&
+        parsed.every((activity) => activity && typeof activity === 'object' && 'time' in activity) &&
+        parsed.some((activity) => this.isGeminiActivity(activity))
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Parse Gemini activity and group prompts into conversations
+   */
+  async parse(fileContent: string, assistantId: string): Promise<ImportResult> {
+    logger.info('Starting Gemini import...')
+
+    const parsed: GeminiActivity[] = JSON.parse(fileContent)
+    const activities = parsed
+      .filter((activity) => this.isGeminiActivity(activity) && activity.title?.startsWith(PROMPT_PREFIX))
+      .map((activity) => ({ activity, time: toISODate(activity.time) }))
+      .filter((item): item is { activity: GeminiActivity; time: string } => !!item.time)
+      // Takeout 按时间倒序导出
+      .sort((a, b) => a.time.localeCompare(b.time))
+
+    if (activities.length === 0) {
+      throw new Error(i18n.t('import.error.no_conversations'))
+    }
+
+    logger.info(`Found ${activities.length} prompts`)
+
+    const conversations: ImportedConversation[] = []
+    let current: ImportedConversation | undefined
+    let lastTime = 0
+
+    for (const { activity, time } of activities) {
+      const prompt = (activity.title ?? '').slice(PROMPT_PREFIX.length).trim()
+      const timestamp = new Date(time).getTime()
+
+      if (!current || timestamp - lastTime > CONVERSATION_GAP_MS) {
+        current = { title: this.createTitle(prompt), createdAt: time, messages: [] }
+        conversations.push(current)
+      }
+      lastTime = timestamp
+      current.updatedAt = time
+
+      const response = (activity.safeHtmlItem ?? [])
+        .map((item) => htmlToMarkdown(item.html))
+        .filter(Boolean)
+        .join('\n\n')
+
+      current.messages.push({ role: 'user', content: prompt, createdAt: time })
+      current.messages.push({ role: 'assistant', content: response, createdAt: time, model: GEMINI_MODEL })
+    }
+
+    const result = convertConversations(conversations, assistantId)
+    if (result.topics.length === 0) {
+      throw new Error(i18n.t('import.error.no_valid_conversations'))
+    }
+
+    return result
+  }
+
+  private isGeminiActivity(activity: GeminiActivity): boolean {
+    const sources = [activity.header, ...(activity.products ?? [])]
+    return sources.some((source) => typeof source === 'string' && /gemini|bard/i.test(source))
+  }
+
+  private createTitle(prompt: string): string {
+    const firstLine = prompt.split('\n')[0].trim()
+    if (!firstLine) {
+      return i18n.t('import.untitled_conversation')
+    }
+    return firstLine.length > TITLE_MAX_LENGTH ? `${firstLine.slice(0, TITLE_MAX_LENGTH)}...` : firstLine
+  }
+}
@@ -0,0 +1,172 @@
+import { loggerService } from '@logger'
+import i18n from '@renderer/i18n'
+
+import type { ConversationImporter, ImportedAssistant, ImportResult } from '../types'
+import type { ImportedConversation } from '../utils/conversation'
+import {
+  convertConversations,
+  createImportedModel,
+  dataUrlToAttachment,
+  extractReasoning,
+  toISODate
+} from '../utils/conversation'
+
+const logger = loggerService.withContext('LobeChatImporter')
+
+/**
+ * LobeChat Export Format Types
+ */
+interface LobeChatMessage {
+  id: string
+  role: 'user' | 'assistant' | 'system' | 'tool'
+  content?: string
+  createdAt?: number
+  sessionId?: string | null
+  topicId?: string | null
+  model?: string
+  provider?: string
+  reasoning?: { content?: string }
+  imageList?: { alt?: string; url?: string }[]
+}
+
+interface LobeChatSession {
+  id: string
+  meta?: {
+    title?: string
+    avatar?: string
+  }
+  config?: {
+    systemRole?: string
+  }
+}
+
+interface LobeChatTopic {
+  id: string
+  title?: string
+  sessionId?: string | null
+  createdAt?: number
+  updatedAt?: number
+}
+
+interface LobeChatExport {
+  state: {
+    messages: LobeChatMessage[]
+    sessions?: LobeChatSession[]
+    topics?: LobeChatTopic[]
+  }
+}
+
+// 默认助手（随便聊聊）的会话 ID
+const INBOX_SESSION_ID = 'inbox'
+
+/**
+ * LobeChat conversation importer
+ * Handles importing the JSON file exported from LobeChat (Settings > Data > Export)
+ * Each LobeChat assistant session is imported as its own assistant
+ */
+export class LobeChatImporter implements ConversationImporter {
+  readonly name = 'LobeChat'
+  readonly emoji = '🤯'
+
+  /**
+   * Validate if the file content is a valid LobeChat export
+   */
+  validate(fileContent: string): boolean {
+    try {
+      const parsed = JSON.parse(fileContent)
+
+      return (
+        !!parsed &&
+        typeof parsed === 'object' &&
+        !Array.isArray(parsed) &&
+        !!parsed.state &&
+        Array.isArray(parsed.state.messages) &&
+        (Array.isArray(parsed.state.sessions) || Array.isArray(parsed.state.topics))
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Parse LobeChat sessions, topics and messages and convert to unified format
+   */
+  async parse(fileContent: string, assistantId: string): Promise<ImportResult> {
+    logger.info('Starting LobeChat import...')
+
+    const { state }: LobeChatExport = JSON.parse(fileContent)
+    const messages = state.messages.filter((message) => message.role !== 'tool')
+
+    if (messages.length === 0) {
+      throw new Error(i18n.t('import.error.no_conversations'))
+    }
+
+    const topics = new Map((state.topics ?? []).map((topic) => [topic.id, topic]))
+    const assistants: Record<string, Omit<ImportedAssistant, 'id'>> = {}
+    for (const session of state.sessions ?? []) {
+      if (session.id === INBOX_SESSION_ID) continue
+      assistants[session.id] = {
+        name: session.meta?.title?.trim() || i18n.t('import.lobechat.assistant_name'),
+        emoji: this.getEmoji(session.meta?.avatar),
+        prompt: session.config?.systemRole ?? ''
+      }
+    }
+
+    // 没有话题的消息按会话归入一个默认对话
+    const conversations = new Map<string, ImportedConversation>()
+    const sortedMessages = [...messages].sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+
+    for (const message of sortedMessages) {
+      const topic = message.topicId ? topics.get(message.topicId) : undefined
+      const sessionId = topic?.sessionId ?? message.sessionId ?? INBOX_SESSION_ID
+      const key = topic ? topic.id : `session:${sessionId}`
+
+      let conversation = conversations.get(key)
+      if (!conversation) {
+        conversation = {
+          title: topic?.title?.trim() || i18n.t('import.untitled_conversation'),
+          createdAt: toISODate(topic?.createdAt),
+          updatedAt: toISODate(topic?.updatedAt),
+          assistantKey: sessionId === INBOX_SESSION_ID ? undefined : sessionId,
+          messages: []
+        }
+        conversations.set(key, conversation)
+      }
+
+      const { content, reasoning } = extractReasoning(message.content ?? '')
+      conversation.messages.push({
+        role: message.role === 'tool' ? 'system' : message.role,
+        content,
+        reasoning: message.reasoning?.content || reasoning,
+        createdAt: toISODate(message.createdAt),
+        model:
+          message.role === 'assistant' && message.model
+            ? createImportedModel(message.model, message.provider || 'lobechat')
+            : undefined,
+        attachments: (message.imageList ?? []).flatMap((image, index) => {
+          const attachment = image.url && dataUrlToAttachment(image.url, image.alt || `image-${index + 1}`)
+          return attachment ? [attachment] : []
+        })
+      })
+    }
+
+    logger.info(`Found ${conversations.size} conversations`)
+
+    const result = convertConversations(Array.from(conversations.values()), assistantId, assistants)
+    if (result.topics.length === 0) {
+      throw new Error(i18n.t('import.error.no_valid_conversations'))
+    }
+
+    return result
+  }
+
+  /**
+   * LobeChat avatars are either an emoji or an image URL, only emojis are kept
+   */
+  private getEmoji(avatar?: string): string | undefined {
+    if (!avatar || /^(https?:|data:|\/)/.test(avatar) || avatar.length > 8) {
+      return undefined
+    }
+    return avatar
+  }
+}
@@ -0,0 +1,184 @@
+import { loggerService } from '@logger'
+import i18n from '@renderer/i18n'
+
+import type { ConversationImporter, ImportResult } from '../types'
+import type { ImportedConversation, ImportedMessage } from '../utils/conversation'
+import {
+  convertConversations,
+  createImportedModel,
+  dataUrlToAttachment,
+  extractReasoning,
+  toISODate
+} from '../utils/conversation'
+
+const logger = loggerService.withContext('OpenWebUIImporter')
+
+/**
+ * Open WebUI Export Format Types
+ */
+interface OpenWebUIFile {
+  type?: string
+  name?: string
+  url?: string
+  file?: {
+    filename?: string
+    data?: { content?: string }
+  }
+}
+
+interface OpenWebUIMessage {
+  id: string
+  parentId?: string | null
+  role: 'user' | 'assistant' | 'system'
+  content?: string
+  model?: string
+  timestamp?: number
+  files?: OpenWebUIFile[]
+}
+
+interface OpenWebUIChat {
+  title?: string
+  models?: string[]
+  messages?: OpenWebUIMessage[]
+  history?: {
+    currentId?: string | null
+    messages?: Record<string, OpenWebUIMessage>
+  }
+  timestamp?: number
+}
+
+interface OpenWebUIConversation {
+  id: string
+  title?: string
+  chat: OpenWebUIChat
+  created_at?: number
+  updated_at?: number
+}
+
+/**
+ * Open WebUI conversation importer
+ * Handles importing chats exported from Open WebUI (Settings > Chats > Export Chats)
+ */
+export class OpenWebUIImporter implements ConversationImporter {
+  readonly name = 'OpenWebUI'
+  readonly emoji = '🦙'
+
+  /**
+   * Validate if the file content is a valid Open WebUI export
+   */
+  validate(fileContent: string): boolean {
+    try {
+      const parsed = JSON.parse(fileContent)
+      const conversations = Array.isArray(parsed) ? parsed : [parsed]
+
+      return (
+        conversations.length > 0 &&
+        conversations.every(
+          (conv) =>
+            conv &&
+            typeof conv === 'object' &&
+            conv.chat &&
+            typeof conv.chat === 'object' &&
+            (typeof conv.chat.history === 'object' || Array.isArray(conv.chat.messages))
+        )
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Parse Open WebUI chats and convert to unified format
+   */
+  async parse(fileContent: string, assistantId: string): Promise<ImportResult> {
+    logger.info('Starting Open WebUI import...')
+
+    const parsed = JSON.parse(fileContent)
+    const conversations: OpenWebUIConversation[] = Array.isArray(parsed) ? parsed : [parsed]
+
+    if (conversations.length === 0) {
+      throw new Error(i18n.t('import.error.no_conversations'))
+    }
+
+    logger.info(`Found ${conversations.length} conversations`)
+
+    const importedConversations: ImportedConversation[] = []
+    for (const conversation of conversations) {
+      try {
+        const { chat } = conversation
+        const defaultModel = chat.models?.[0]
+        importedConversations.push({
+          title: (conversation.title || chat.title)?.trim() || i18n.t('import.untitled_conversation'),
+          createdAt: toISODate(conversation.created_at ?? chat.timestamp),
+          updatedAt: toISODate(conversation.updated_at),
+          messages: this.extractMainThread(chat).map((message) => this.convertMessage(message, defaultModel))
+        })
+      } catch (convError) {
+        logger.warn(`Failed to convert conversation "${conversation.title}":`, convError as Error)
+      }
+    }
+
+    const result = convertConversations(importedConversations, assistantId)
+    if (result.topics.length === 0) {
+      throw new Error(i18n.t('import.error.no_valid_conversations'))
+    }
+
+    return result
+  }
+
+  /**
+   * Extract the selected branch by tracing back from the current message
+   * Falls back to the flat message list when the history tree is missing
+   */
+  private extractMainThread(chat: OpenWebUIChat): OpenWebUIMessage[] {
+    const historyMessages = chat.history?.messages
+    if (!historyMessages || !chat.history?.currentId) {
+      return chat.messages ?? []
+    }
+
+    const messages: OpenWebUIMessage[] = []
+    const visited = new Set<string>()
+    let messageId: string | null | undefined = chat.history.currentId
+
+    while (messageId && !visited.has(messageId)) {
+      const message: OpenWebUIMessage | undefined = historyMessages[messageId]
+      if (!message) break
+
+      visited.add(messageId)
+      messages.unshift(message)
+      messageId = message.parentId
+    }
+
+    return messages
+  }
+
+  private convertMessage(message: OpenWebUIMessage, defaultModel?: string): ImportedMessage {
+    const { content, reasoning } = extractReasoning(message.content ?? '')
+    const modelId = message.model || defaultModel
+
+    return {
+      role: message.role === 'user' || message.role === 'assistant' ? message.role : 'system',
+      content,
+      reasoning,
+      createdAt: toISODate(message.timestamp),
+      model: message.role === 'assistant' && modelId ? createImportedModel(modelId, 'open-webui') : undefined,
+      attachments: (message.files ?? []).flatMap((file, index) => {
+        if (file.type === 'image' && file.url) {
+          const attachment = dataUrlToAttachment(file.url, file.name || `image-${index + 1}`)
+          return attachment ? [attachment] : []
+        }
+        const extracted = file.file?.data?.content
+        if (extracted) {
+          return [
+            {
+              name: file.name || file.file?.filename || `attachment-${index + 1}.txt`,
+              data: extracted,
+              encoding: 'text' as const
+            }
+          ]
+        }
+        return []
+      })
+    }
+  }
+}
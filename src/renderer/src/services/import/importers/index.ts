@@ -1,12 +1,22 @@
 import { ChatGPTImporter } from './ChatGPTImporter'
+import { ClaudeImporter } from './ClaudeImporter'
+import { GeminiImporter } from './GeminiImporter'
+import { LobeChatImporter } from './LobeChatImporter'
+import { OpenWebUIImporter } from './OpenWebUIImporter'
 
 /**
  * Export all available importers
  */
-export { ChatGPTImporter }
+export { ChatGPTImporter, ClaudeImporter, GeminiImporter, LobeChatImporter, OpenWebUIImporter }
 
 /**
  * Registry of all available importers
  * Add new importers here as they are implemented
  */
-export const availableImporters = [new ChatGPTImporter()] as const
+export const availableImporters = [
+  new ChatGPTImporter(),
+  new ClaudeImporter(),
+  new GeminiImporter(),
+  new OpenWebUIImporter(),
+  new LobeChatImporter()
+] as const
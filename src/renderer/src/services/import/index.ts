@@ -1,3 +1,16 @@
-export { ChatGPTImporter } from './importers/ChatGPTImporter'
+export {
+  ChatGPTImporter,
+  ClaudeImporter,
+  GeminiImporter,
+  LobeChatImporter,
+  OpenWebUIImporter
+} from './importers'
 export { importChatGPTConversations, ImportService } from './ImportService'
-export type { ConversationImporter, ImportResponse, ImportResult } from './types'
+export type {
+  ConversationImporter,
+  ImportConversationSummary,
+  ImportPreview,
+  ImportPreviewResponse,
+  ImportResponse,
+  ImportResult
+} from './types'
@@ -1,5 +1,26 @@
 import type { Assistant, Topic } from '@renderer/types'
-import type { MainTextMessageBlock, Message } from '@renderer/types/newMessage'
+import type { Message, MessageBlock } from '@renderer/types/newMessage'
+
+/**
+ * Assistant parsed from the export (e.g. a LobeChat session)
+ * Topics without a matching assistant belong to the assistant created for the importer
+ */
+export interface ImportedAssistant {
+  id: string
+  name: string
+  emoji?: string
+  prompt?: string
+}
+
+/**
+ * Attachment parsed from the export, saved to file storage when imported
+ */
+export interface ImportAttachment {
+  messageId: string
+  name: string
+  data: string
+  encoding: 'text' | 'base64'
+}
 
 /**
  * Import result containing parsed data
@@ -7,10 +28,40 @@ import type { MainTextMessageBlock, Message } from '@renderer/types/newMessage'
 export interface ImportResult {
   topics: Topic[]
   messages: Message[]
-  blocks: MainTextMessageBlock[]
+  blocks: MessageBlock[]
+  assistants?: ImportedAssistant[]
+  attachments?: ImportAttachment[]
   metadata?: Record<string, unknown>
 }
 
+/**
+ * Summary of a parsed conversation shown in the import preview
+ */
+export interface ImportConversationSummary {
+  topicId: string
+  title: string
+  assistantName?: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+}
+
+/**
+ * Parsed file waiting for the user to select which conversations to import
+ */
+export interface ImportPreview {
+  importerName: string
+  assistantId: string
+  result: ImportResult
+  conversations: ImportConversationSummary[]
+}
+
+export interface ImportPreviewResponse {
+  success: boolean
+  preview?: ImportPreview
+  error?: string
+}
+
 /**
  * Response returned to caller after import
  */
@@ -0,0 +1,64 @@
+import { loggerService } from '@logger'
+import FileManager from '@renderer/services/FileManager'
+import { FILE_TYPE } from '@renderer/types'
+import { MessageBlockStatus } from '@renderer/types/newMessage'
+import { createFileBlock, createImageBlock } from '@renderer/utils/messageUtils/create'
+
+import type { ImportAttachment, ImportResult } from '../types'
+
+const logger = loggerService.withContext('ImportAttachments')
+
+function decodeAttachment(attachment: ImportAttachment): Uint8Array | string {
+  if (attachment.encoding === 'text') {
+    return attachment.data
+  }
+  const binary = atob(attachment.data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Save imported attachments to file storage and attach them to their messages as file or image blocks
+ * Attachments that fail to save are skipped so the conversation text is still imported
+ */
+export async function saveImportAttachments(result: ImportResult): Promise<void> {
+  const attachments = result.attachments ?? []
+  if (attachments.length === 0) {
+    return
+  }
+
+  const messages = new Map(result.messages.map((message) => [message.id, message]))
+  let saved = 0
+
+  for (const attachment of attachments) {
+    const message = messages.get(attachment.messageId)
+    if (!message) continue
+
+    try {
+      const tempFilePath = await window.api.file.createTempFile(attachment.name)
+      await window.api.file.write(tempFilePath, decodeAttachment(attachment))
+      const tempFile = await window.api.file.get(tempFilePath)
+      if (!tempFile) {
+        throw new Error(`Failed to read temp file ${tempFilePath}`)
+      }
+
+      const file = await FileManager.uploadFile({ ...tempFile, origin_name: attachment.name })
+      const overrides = { createdAt: message.createdAt, status: MessageBlockStatus.SUCCESS }
+      const block =
+        file.type === FILE_TYPE.IMAGE
+          ? createImageBlock(message.id, { ...overrides, file })
+          : createFileBlock(message.id, file, overrides)
+
+      result.blocks.push(block)
+      message.blocks.push(block.id)
+      saved++
+    } catch (error) {
+      logger.warn(`Failed to import attachment "${attachment.name}":`, error as Error)
+    }
+  }
+
+  logger.info(`Saved ${saved} of ${attachments.length} attachments`)
+}
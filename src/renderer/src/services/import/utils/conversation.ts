@@ -0,0 +1,195 @@
+import type { Model, Topic } from '@renderer/types'
+import {
+  AssistantMessageStatus,
+  type Message,
+  type MessageBlock,
+  MessageBlockStatus,
+  UserMessageStatus
+} from '@renderer/types/newMessage'
+import { uuid } from '@renderer/utils'
+import { createMainTextBlock, createThinkingBlock } from '@renderer/utils/messageUtils/create'
+import { getDefaultGroupName } from '@renderer/utils/naming'
+
+import type { ImportAttachment, ImportedAssistant, ImportResult } from '../types'
+
+/**
+ * Message in a format-independent shape, produced by the importers
+ */
+export interface ImportedMessage {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  reasoning?: string
+  createdAt?: string
+  model?: Model
+  attachments?: Omit<ImportAttachment, 'messageId'>[]
+}
+
+/**
+ * Conversation in a format-independent shape, produced by the importers
+ */
+export interface ImportedConversation {
+  title: string
+  createdAt?: string
+  updatedAt?: string
+  /** Key of the assistant in the importer's assistant map, the default assistant when omitted */
+  assistantKey?: string
+  messages: ImportedMessage[]
+}
+
+/**
+ * Convert a timestamp in seconds, milliseconds or a date string to an ISO string
+ */
+export function toISODate(value: unknown, fallback?: string): string | undefined {
+  let date: Date | undefined
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // 小于 1e12 的时间戳按秒处理
+    date = new Date(value < 1e12 ? value * 1000 : value)
+  } else if (typeof value === 'string' && value) {
+    date = new Date(value)
+  }
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : fallback
+}
+
+/**
+ * Model for imported assistant messages, used to show the model name and logo
+ */
+export function createImportedModel(id: string, provider: string): Model {
+  return { id, provider, name: id, group: getDefaultGroupName(id, provider) }
+}
+
+/**
+ * Convert a base64 data URL to an attachment, other URLs can't be imported
+ */
+export function dataUrlToAttachment(url: string, name: string): Omit<ImportAttachment, 'messageId'> | undefined {
+  const match = /^data:([^;,]+)?;base64,(.+)$/.exec(url)
+  if (!match) {
+    return undefined
+  }
+  const extension = match[1]?.split('/')[1]?.split('+')[0]
+  return {
+    name: extension && !name.includes('.') ? `${name}.${extension}` : name,
+    data: match[2],
+    encoding: 'base64'
+  }
+}
+
+/**
+ * Split reasoning out of message content
+ * Supports `<think>` tags and Open WebUI's `<details type="reasoning">` sections
+ */
+export function extractReasoning(content: string): { content: string; reasoning?: string } {
+  const reasoning: string[] = []
+  const text = content
+    .replace(/<details\s+type="reasoning"[^>]*>([\s\S]*?)<\/details>/g, (_, inner: string) => {
+      const lines = inner
+        .replace(/<summary>[\s\S]*?<\/summary>/, '')
+        .split('\n')
+        .map((line) => line.replace(/^>\s?/, ''))
+      reasoning.push(lines.join('\n').trim())
+      return ''
+    })
+    .replace(/<think>([\s\S]*?)<\/think>/g, (_, inner: string) => {
+      reasoning.push(inner.trim())
+      return ''
+    })
+
+  return {
+    content: text.trim(),
+    reasoning: reasoning.filter(Boolean).join('\n\n') || undefined
+  }
+}
+
+/**
+ * Convert parsed conversations into topics, messages and blocks
+ * @param conversations - Conversations parsed by an importer
+ * @param assistantId - ID of the default assistant created for the importer
+ * @param assistants - Assistants found in the export, keyed by the importer's own ids
+ */
+export function convertConversations(
+  conversations: ImportedConversation[],
+  assistantId: string,
+  assistants: Record<string, Omit<ImportedAssistant, 'id'>> = {}
+): ImportResult {
+  const topics: Topic[] = []
+  const messages: Message[] = []
+  const blocks: MessageBlock[] = []
+  const attachments: ImportAttachment[] = []
+  const importedAssistants = new Map<string, ImportedAssistant>()
+
+  for (const conversation of conversations) {
+    const importedMessages = conversation.messages.filter(
+      (message) => message.content.trim() || message.reasoning?.trim() || message.attachments?.length
+    )
+    if (importedMessages.length === 0) {
+      continue
+    }
+
+    let topicAssistantId = assistantId
+    const assistantKey = conversation.assistantKey
+    if (assistantKey && assistants[assistantKey]) {
+      let assistant = importedAssistants.get(assistantKey)
+      if (!assistant) {
+        assistant = { id: uuid(), ...assistants[assistantKey] }
+        importedAssistants.set(assistantKey, assistant)
+      }
+      topicAssistantId = assistant.id
+    }
+
+    const topicId = uuid()
+    const now = new Date().toISOString()
+    const topicMessages: Message[] = []
+    let lastCreatedAt = conversation.createdAt ?? now
+
+    for (const importedMessage of importedMessages) {
+      const messageId = uuid()
+      const createdAt = importedMessage.createdAt ?? lastCreatedAt
+      lastCreatedAt = createdAt
+      const blockOverrides = { createdAt, updatedAt: createdAt, status: MessageBlockStatus.SUCCESS }
+      const messageBlocks: MessageBlock[] = []
+
+      if (importedMessage.reasoning?.trim()) {
+        messageBlocks.push(createThinkingBlock(messageId, importedMessage.reasoning.trim(), blockOverrides))
+      }
+      if (importedMessage.content.trim()) {
+        messageBlocks.push(createMainTextBlock(messageId, importedMessage.content.trim(), blockOverrides))
+      }
+      for (const attachment of importedMessage.attachments ?? []) {
+        attachments.push({ ...attachment, messageId })
+      }
+
+      const message: Message = {
+        id: messageId,
+        role: importedMessage.role,
+        assistantId: topicAssistantId,
+        topicId,
+        createdAt,
+        updatedAt: createdAt,
+        status: importedMessage.role === 'user' ? UserMessageStatus.SUCCESS : AssistantMessageStatus.SUCCESS,
+        blocks: messageBlocks.map((block) => block.id),
+        ...(importedMessage.role === 'assistant' && importedMessage.model && { model: importedMessage.model })
+      }
+
+      topicMessages.push(message)
+      blocks.push(...messageBlocks)
+    }
+
+    topics.push({
+      id: topicId,
+      assistantId: topicAssistantId,
+      name: conversation.title,
+      createdAt: conversation.createdAt ?? topicMessages[0].createdAt,
+      updatedAt: conversation.updatedAt ?? lastCreatedAt,
+      messages: topicMessages,
+      isNameManuallyEdited: true
+    })
+    messages.push(...topicMessages)
+  }
+
+  return {
+    topics,
+    messages,
+    blocks,
+    assistants: Array.from(importedAssistants.values()),
+    attachments
+  }
+}
@@ -0,0 +1,361 @@
+import { loggerService } from '@logger'
+import db from '@renderer/databases'
+import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
+import store from '@renderer/store'
+import type { MessageSearchDocument } from '@renderer/types/messageSearch'
+import type { MainTextMessageBlock, Message, MessageBlock } from '@renderer/types/newMessage'
+import { MessageBlockType } from '@renderer/types/newMessage'
+import { chunk, sumBy } from 'lodash'
+
+import { tokenize } from './tokenizer'
+
+const logger = loggerService.withContext('MessageSearchIndex')
+
+// 分词规则或索引内容变化时递增，已有的索引会被重建
+const INDEX_VERSION = 2
+const INDEX_VERSION_KEY = 'message_search_index:version'
+// 全部文档的词项总数，用于计算 BM25 的平均文档长度
+const INDEX_TOTAL_LENGTH_KEY = 'message_search_index:total_length'
+
+// 流式输出时块会频繁更新，合并后再写入索引
+const FLUSH_DELAY_MS = 1000
+const INDEX_BATCH_SIZE = 200
+// 启动后延迟检查索引，避免影响首屏
+const RECONCILE_DELAY_MS = 5000
+
+export interface MessageSearchIndexProgress {
+  indexed: number
+  total: number
+}
+
+export interface MessageSearchIndexStats {
+  documentCount: number
+  totalLength: number
+}
+
+type MessageMeta = Pick<
+  MessageSearchDocument,
+  'messageId' | 'topicId' | 'assistantId' | 'role' | 'modelId' | 'createdAt'
+>
+
+const dirtyBlockIds = new Set<string>()
+const dirtyTopicIds = new Set<string>()
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let flushPromise: Promise<void> | null = null
+let readyPromise: Promise<void> | null = null
+let initialized = false
+
+function getMessageMeta(message: Message): MessageMeta {
+  return {
+    messageId: message.id,
+    topicId: message.topicId,
+    assistantId: message.assistantId,
+    role: message.role,
+    modelId: message.model?.id ?? message.modelId ?? '',
+    createdAt: message.createdAt
+  }
+}
+
+function isSameMeta(document: MessageMeta, meta: MessageMeta): boolean {
+  return (
+    document.topicId === meta.topicId &&
+    document.assistantId === meta.assistantId &&
+    document.role === meta.role &&
+    document.modelId === meta.modelId &&
+    document.createdAt === meta.createdAt
+  )
+}
+
+/**
+ * 为主文本块创建索引文档
+ */
+function createSearchDocument(block: MainTextMessageBlock, meta: MessageMeta): MessageSearchDocument {
+  const tokens = tokenize(block.content ?? '')
+  const termFrequencies: Record<string, number> = {}
+  for (const token of tokens) {
+    termFrequencies[token] = (termFrequencies[token] ?? 0) + 1
+  }
+
+  return {
+    id: block.id,
+    ...meta,
+    terms: Object.keys(termFrequencies),
+    termFrequencies,
+    length: tokens.length
+  }
+}
+
+function isMainTextBlock(block: MessageBlock | undefined): block is MainTextMessageBlock {
+  return block?.type === MessageBlockType.MAIN_TEXT
+}
+
+/**
+ * 删除并写入索引文档，同时更新全部文档的词项总数
+ * 索引只通过这里增删文档，总数才能和索引保持一致
+ */
+async function writeDocuments(removedIds: string[], documents: MessageSearchDocument[]): Promise<void> {
+  if (removedIds.length === 0 && documents.length === 0) {
+    return
+  }
+
+  await db.transaction('rw', db.message_search_index, db.settings, async () => {
+    // 写入的文档会覆盖同 ID 的旧文档，旧文档的长度同样要减去
+    const replacedIds = Array.from(new Set([...removedIds, ...documents.map((document) => document.id)]))
+    const replaced = await db.message_search_index.bulkGet(replacedIds)
+
+    await db.message_search_index.bulkDelete(removedIds)
+    await db.message_search_index.bulkPut(documents)
+
+    const totalLength = (await db.settings.get(INDEX_TOTAL_LENGTH_KEY))?.value ?? 0
+    await db.settings.put({
+      id: INDEX_TOTAL_LENGTH_KEY,
+      value: Math.max(
+        totalLength - sumBy(replaced, (document) => document?.length ?? 0) + sumBy(documents, 'length'),
+        0
+      )
+    })
+  })
+}
+
+/**
+ * 重新索引消息的全部主文本块
+ */
+async function indexMessages(metas: MessageMeta[]): Promise<void> {
+  if (metas.length === 0) {
+    return
+  }
+
+  const metaById = new Map(metas.map((meta) => [meta.messageId, meta]))
+  const messageIds = Array.from(metaById.keys())
+  const blocks = await db.message_blocks.where('messageId').anyOf(messageIds).toArray()
+  const documents = blocks
+    .filter(isMainTextBlock)
+    .map((block) => createSearchDocument(block, metaById.get(block.messageId)!))
+
+  await db.transaction('rw', db.message_search_index, db.settings, async () => {
+    const removedIds = (await db.message_search_index.where('messageId').anyOf(messageIds).primaryKeys()) as string[]
+    await writeDocuments(removedIds, documents)
+  })
+}
+
+/**
+ * 同步话题中消息的增删和元数据变化
+ * @returns 已经重新索引的消息 ID
+ */
+async function syncTopic(topicId: string): Promise<string[]> {
+  const topic = await db.topics.get(topicId)
+  const documents = await db.message_search_index.where('topicId').equals(topicId).toArray()
+
+  if (!topic) {
+    await writeDocuments(
+      documents.map((document) => document.id),
+      []
+    )
+    return []
+  }
+
+  const messageIds = new Set(topic.messages.map((message) => message.id))
+  const indexed = new Map(documents.map((document) => [document.messageId, document]))
+  const missing: MessageMeta[] = []
+
+  for (const message of topic.messages) {
+    const meta = getMessageMeta(message)
+    const document = indexed.get(message.id)
+    if (!document) {
+      missing.push(meta)
+    } else if (!isSameMeta(document, meta)) {
+      await db.message_search_index.where('messageId').equals(message.id).modify(meta)
+    }
+  }
+
+  const stale = documents.filter((document) => !messageIds.has(document.messageId))
+  await writeDocuments(
+    stale.map((document) => document.id),
+    []
+  )
+  await indexMessages(missing)
+
+  return missing.map((meta) => meta.messageId)
+}
+
+/**
+ * 重新索引内容变化的块，消息元数据来自已有的索引或当前加载的消息
+ */
+async function reindexBlocks(blockIds: string[], skipMessageIds: Set<string>): Promise<void> {
+  const blocks = await db.message_blocks.bulkGet(blockIds)
+  const removed = blockIds.filter((_, index) => !isMainTextBlock(blocks[index]))
+  const changed = blocks.filter(isMainTextBlock).filter((block) => !skipMessageIds.has(block.messageId))
+
+  const metaById = new Map<string, MessageMeta>()
+  const messageIds = Array.from(new Set(changed.map((block) => block.messageId)))
+  for (const document of await db.message_search_index.where('messageId').anyOf(messageIds).toArray()) {
+    metaById.set(document.messageId, document)
+  }
+
+  const entities = store.getState().messages.entities
+  const documents: MessageSearchDocument[] = []
+  for (const block of changed) {
+    const message = entities[block.messageId]
+    const meta = metaById.get(block.messageId) ?? (message && getMessageMeta(message))
+    // 找不到消息时留给下次启动时的检查处理
+    if (meta) {
+      documents.push(createSearchDocument(block, meta))
+    }
+  }
+
+  await writeDocuments(removed, documents)
+}
+
+async function flushPendingChanges(): Promise<void> {
+  const topicIds = Array.from(dirtyTopicIds)
+  const blockIds = Array.from(dirtyBlockIds)
+  dirtyTopicIds.clear()
+  dirtyBlockIds.clear()
+
+  try {
+    const indexedMessageIds = new Set<string>()
+    for (const topicId of topicIds) {
+      for (const messageId of await syncTopic(topicId)) {
+        indexedMessageIds.add(messageId)
+      }
+    }
+    if (blockIds.length > 0) {
+      await reindexBlocks(blockIds, indexedMessageIds)
+    }
+  } catch (error) {
+    logger.error('Failed to update message search index', error as Error)
+  }
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) {
+    return
+  }
+  flushTimer = setTimeout(() => {
+    flushTimer = null
+    flushPromise = (flushPromise ?? Promise.resolve()).then(flushPendingChanges)
+  }, FLUSH_DELAY_MS)
+}
+
+/**
+ * 等待尚未写入索引的变更
+ */
+async function flushNow(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+    flushPromise = (flushPromise ?? Promise.resolve()).then(flushPendingChanges)
+  }
+  await flushPromise
+}
+
+/**
+ * 检查索引是否覆盖全部消息：补全缺失的消息，删除已不存在的消息
+ * 首次使用或分词规则变化时会重建整个索引
+ */
+async function reconcileIndex(): Promise<void> {
+  const version = await db.settings.get(INDEX_VERSION_KEY)
+  // 恢复备份后索引为空，但设置中可能还有备份时的统计
+  if (version?.value !== INDEX_VERSION || (await db.message_search_index.count()) === 0) {
+    logger.info('Rebuilding message search index')
+    await db.message_search_index.clear()
+    await db.settings.bulkPut([
+      { id: INDEX_VERSION_KEY, value: INDEX_VERSION },
+      { id: INDEX_TOTAL_LENGTH_KEY, value: 0 }
+    ])
+  }
+
+  const indexedMessageIds = new Set((await db.message_search_index.orderBy('messageId').uniqueKeys()) as string[])
+  const messageIds = new Set<string>()
+  const missing: MessageMeta[] = []
+
+  await db.topics.each((topic) => {
+    for (const message of topic.messages ?? []) {
+      messageIds.add(message.id)
+      if (!indexedMessageIds.has(message.id)) {
+        missing.push(getMessageMeta(message))
+      }
+    }
+  })
+
+  const stale = Array.from(indexedMessageIds).filter((messageId) => !messageIds.has(messageId))
+  if (stale.length > 0) {
+    await writeDocuments((await db.message_search_index.where('messageId').anyOf(stale).primaryKeys()) as string[], [])
+  }
+
+  let indexed = 0
+  for (const batch of chunk(missing, INDEX_BATCH_SIZE)) {
+    await indexMessages(batch)
+    indexed += batch.length
+    EventEmitter.emit(EVENT_NAMES.MESSAGE_SEARCH_INDEX_PROGRESS, { indexed, total: missing.length })
+  }
+
+  logger.info(`Message search index checked: ${missing.length} indexed, ${stale.length} removed`)
+}
+
+/**
+ * 索引中的文档数和全部文档的词项总数，用于搜索排序
+ */
+export async function getMessageSearchIndexStats(): Promise<MessageSearchIndexStats> {
+  const [documentCount, totalLength] = await Promise.all([
+    db.message_search_index.count(),
+    db.settings.get(INDEX_TOTAL_LENGTH_KEY)
+  ])
+  return { documentCount, totalLength: totalLength?.value ?? 0 }
+}
+
+/**
+ * 确保索引已经建立并且包含最近的修改，搜索前调用
+ */
+export async function ensureMessageSearchIndex(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = reconcileIndex().catch((error) => {
+      readyPromise = null
+      throw error
+    })
+  }
+  await readyPromise
+  await flushNow()
+}
+
+/**
+ * 监听消息块和话题的写入，增量维护全文搜索索引
+ */
+export function initMessageSearchIndex(): void {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  db.message_blocks.hook('creating', (primKey, block) => {
+    if (isMainTextBlock(block)) {
+      dirtyBlockIds.add(primKey)
+      scheduleFlush()
+    }
+  })
+  db.message_blocks.hook('updating', (_mods, primKey) => {
+    dirtyBlockIds.add(primKey)
+    scheduleFlush()
+  })
+  db.message_blocks.hook('deleting', (primKey) => {
+    dirtyBlockIds.add(primKey)
+    scheduleFlush()
+  })
+
+  db.topics.hook('creating', (primKey) => {
+    dirtyTopicIds.add(primKey)
+    scheduleFlush()
+  })
+  db.topics.hook('updating', (_mods, primKey) => {
+    dirtyTopicIds.add(primKey)
+    scheduleFlush()
+  })
+  db.topics.hook('deleting', (primKey) => {
+    dirtyTopicIds.add(primKey)
+    scheduleFlush()
+  })
+
+  setTimeout(() => {
+    ensureMessageSearchIndex().catch((error) => logger.error('Failed to build message search index', error as Error))
+  }, RECONCILE_DELAY_MS)
+}
@@ -0,0 +1,175 @@
+import { loggerService } from '@logger'
+import db from '@renderer/databases'
+import type { MessageSearchDocument } from '@renderer/types/messageSearch'
+import type { Message } from '@renderer/types/newMessage'
+import { MessageBlockType } from '@renderer/types/newMessage'
+
+import { ensureMessageSearchIndex, getMessageSearchIndexStats } from './MessageSearchIndex'
+import { scoreDocument } from './ranking'
+import { buildSearchSnippet } from './snippet'
+import { buildHighlightRegex, matchesPhrase, parseSearchQuery } from './tokenizer'
+
+const logger = loggerService.withContext('MessageSearchService')
+
+const DEFAULT_RESULT_LIMIT = 200
+
+export type MessageSearchSortOrder = 'relevance' | 'newest' | 'oldest'
+
+export interface MessageSearchFilters {
+  assistantId?: string
+  modelId?: string
+  role?: Message['role']
+  /** 消息创建时间范围（ISO 字符串），包含两端 */
+  createdAfter?: string
+  createdBefore?: string
+}
+
+export interface MessageSearchOptions {
+  sortOrder?: MessageSearchSortOrder
+  limit?: number
+}
+
+export interface MessageSearchResult {
+  message: Message
+  blockId: string
+  score: number
+  snippet: string
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[]
+  /** 匹配的结果总数，可能大于返回的结果数 */
+  total: number
+  highlightRegex: RegExp | null
+}
+
+function matchesFilters(document: MessageSearchDocument, filters: MessageSearchFilters): boolean {
+  if (filters.assistantId && document.assistantId !== filters.assistantId) return false
+  if (filters.modelId && document.modelId !== filters.modelId) return false
+  if (filters.role && document.role !== filters.role) return false
+  if (filters.createdAfter && document.createdAt < filters.createdAfter) return false
+  if (filters.createdBefore && document.createdAt > filters.createdBefore) return false
+  return true
+}
+
+async function getBlockContents(blockIds: string[]): Promise<Map<string, string>> {
+  const blocks = await db.message_blocks.bulkGet(blockIds)
+  const contents = new Map<string, string>()
+  for (const block of blocks) {
+    if (block?.type === MessageBlockType.MAIN_TEXT) {
+      contents.set(block.id, block.content)
+    }
+  }
+  return contents
+}
+
+async function getMessages(documents: MessageSearchDocument[]): Promise<Map<string, Message>> {
+  const topicIds = Array.from(new Set(documents.map((document) => document.topicId)))
+  const topics = await db.topics.bulkGet(topicIds)
+  const messages = new Map<string, Message>()
+  for (const topic of topics) {
+    for (const message of topic?.messages ?? []) {
+      messages.set(message.id, message)
+    }
+  }
+  return messages
+}
+
+/**
+ * 在所有话题的消息中全文搜索
+ * 所有词项都需要命中，引号中的内容按短语匹配，结果按相关度或时间排序
+ */
+export async function searchMessages(
+  query: string,
+  filters: MessageSearchFilters = {},
+  options: MessageSearchOptions = {}
+): Promise<MessageSearchResponse> {
+  const parsedQuery = parseSearchQuery(query)
+  const highlightRegex = buildHighlightRegex(parsedQuery)
+  const { terms, phrases } = parsedQuery
+  if (terms.length === 0) {
+    return { results: [], total: 0, highlightRegex }
+  }
+
+  await ensureMessageSearchIndex()
+
+  const table = db.message_search_index
+  const termDocumentIds = await Promise.all(
+    terms.map(async (term) => {
+      const collection = term.prefix
+        ? table.where('terms').startsWith(term.value)
+        : table.where('terms').equals(term.value)
+      return new Set((await collection.primaryKeys()) as string[])
+    })
+  )
+
+  // 从命中文档最少的词项开始取交集
+  const [smallest, ...others] = [...termDocumentIds].sort((a, b) => a.size - b.size)
+  const candidateIds = Array.from(smallest).filter((id) => others.every((ids) => ids.has(id)))
+
+  let documents = (await table.bulkGet(candidateIds)).filter(
+    (document): document is MessageSearchDocument => !!document && matchesFilters(document, filters)
+  )
+
+  let contents: Map<string, string> | undefined
+  if (phrases.length > 0 && documents.length > 0) {
+    contents = await getBlockContents(documents.map((document) => document.id))
+    documents = documents.filter((document) => {
+      const content = contents?.get(document.id)
+      return content !== undefined && phrases.every((phrase) => matchesPhrase(content, phrase))
+    })
+  }
+
+  // 平均长度按整个索引计算，不同查询的分数才可比较
+  const { documentCount, totalLength } = await getMessageSearchIndexStats()
+  const stats = {
+    documentCount,
+    averageLength: totalLength / Math.max(documentCount, 1),
+    documentFrequencies: new Map(terms.map((term, index) => [term.value, termDocumentIds[index].size]))
+  }
+  const scored = documents.map((document) => ({ document, score: scoreDocument(document, terms, stats) }))
+
+  const sortOrder = options.sortOrder ?? 'relevance'
+  scored.sort((a, b) => {
+    if (sortOrder === 'relevance' && a.score !== b.score) {
+      return b.score - a.score
+    }
+    const timeA = a.document.createdAt
+    const timeB = b.document.createdAt
+    if (timeA !== timeB) {
+      return sortOrder === 'oldest' ? timeA.localeCompare(timeB) : timeB.localeCompare(timeA)
+    }
+    return a.document.id.localeCompare(b.document.id)
+  })
+
+  const top = scored.slice(0, options.limit ?? DEFAULT_RESULT_LIMIT)
+  contents ??= await getBlockContents(top.map(({ document }) => document.id))
+  const messages = await getMessages(top.map(({ document }) => document))
+
+  const results: MessageSearchResult[] = []
+  for (const { document, score } of top) {
+    const message = messages.get(document.messageId)
+    const content = contents.get(document.id)
+    if (!message || content === undefined) {
+      logger.debug(`Skipping stale search result ${document.id}`)
+      continue
+    }
+    results.push({
+      message,
+      blockId: document.id,
+      score,
+      snippet: buildSearchSnippet(content, highlightRegex)
+    })
+  }
+
+  return { results, total: scored.length, highlightRegex }
+}
+
+/**
+ * 索引中出现过的模型 ID，用于搜索过滤
+ */
+export async function getIndexedModelIds(): Promise<string[]> {
+  await ensureMessageSearchIndex()
+  const modelIds = (await db.message_search_index.orderBy('modelId').uniqueKeys()) as string[]
+  return modelIds.filter(Boolean)
+}
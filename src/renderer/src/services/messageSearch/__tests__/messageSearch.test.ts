@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+
+import { scoreDocument } from '../ranking'
+import { buildSearchSnippet, splitHighlights } from '../snippet'
+import { buildHighlightRegex, matchesPhrase, parseSearchQuery, tokenize } from '../tokenizer'
+
+const createDocument = (text: string) => {
+  const termFrequencies: Record<string, number> = {}
+  const tokens = tokenize(text)
+  for (const token of tokens) {
+    termFrequencies[token] = (termFrequencies[token] ?? 0) + 1
+  }
+  return { termFrequencies, length: tokens.length }
+}
+
+describe('tokenize', () => {
+  it('splits words and lowercases them', () => {
+    expect(tokenize('Hello, World! foo_bar 42')).toEqual(['hello', 'world', 'foo_bar', '42'])
+  })
+
+  it('indexes CJK text as unigrams and bigrams', () => {
+    expect(tokenize('你好世界')).toEqual(['你', '你好', '好', '好世', '世', '世界', '界'])
+    expect(tokenize('React组件')).toEqual(['react', '组', '组件', '件'])
+  })
+
+  it('normalizes full-width characters', () => {
+    expect(tokenize('ＡＢＣ')).toEqual(['abc'])
+  })
+})
+
+describe('parseSearchQuery', () => {
+  it('matches latin words by prefix', () => {
+    expect(parseSearchQuery('Deploy a server')).toEqual({
+      terms: [
+        { value: 'deploy', prefix: true },
+        { value: 'a', prefix: false },
+        { value: 'server', prefix: true }
+      ],
+      phrases: []
+    })
+  })
+
+  it('turns CJK runs into bigrams and treats longer runs as phrases', () => {
+    expect(parseSearchQuery('猫')).toEqual({ terms: [{ value: '猫', prefix: false }], phrases: [] })
+    expect(parseSearchQuery('机器学习')).toEqual({
+      terms: [
+        { value: '机器', prefix: false },
+        { value: '器学', prefix: false },
+        { value: '学习', prefix: false }
+      ],
+      phrases: ['机器学习']
+    })
+  })
+
+  it('extracts quoted phrases', () => {
+    const query = parseSearchQuery('"Hello World" test')
+    expect(query.phrases).toEqual(['hello world'])
+    expect(query.terms.map((term) => term.value)).toEqual(['hello', 'world', 'test'])
+  })
+})
+
+describe('matchesPhrase', () => {
+  it('requires the words to appear next to each other', () => {
+    expect(matchesPhrase('Say hello,   WORLD!', 'hello world')).toBe(true)
+    expect(matchesPhrase('hello there world', 'hello world')).toBe(false)
+    expect(matchesPhrase('我喜欢机器学习', '机器学习')).toBe(true)
+    expect(matchesPhrase('机器可以学习', '机器学习')).toBe(false)
+  })
+})
+
+describe('highlights', () => {
+  it('highlights word prefixes and phrases', () => {
+    const regex = buildHighlightRegex(parseSearchQuery('"new york" test'))
+    expect(splitHighlights('Testing in New York', regex)).toEqual([
+      { text: 'Test', highlighted: true },
+      { text: 'ing in ', highlighted: false },
+      { text: 'New York', highlighted: true }
+    ])
+    expect(splitHighlights('latest', regex)).toEqual([{ text: 'latest', highlighted: false }])
+  })
+
+  it('builds snippets around matching lines', () => {
+    const text = ['line 1', 'line 2', 'line 3', 'the **answer** is here', 'line 5', 'line 6', 'line 7'].join('\n')
+    const regex = buildHighlightRegex(parseSearchQuery('answer'))
+    expect(buildSearchSnippet(text, regex)).toBe(['...', 'line 3', 'the answer is here', 'line 5', '...'].join('\n'))
+  })
+})
+
+describe('scoreDocument', () => {
+  const query = parseSearchQuery('cache')
+  const stats = { documentCount: 100, averageLength: 10, documentFrequencies: new Map([['cache', 10]]) }
+
+  it('ranks exact and frequent matches higher', () => {
+    const exact = scoreDocument(createDocument('cache the cache result here'), query.terms, stats)
+    const single = scoreDocument(createDocument('cache the result here now'), query.terms, stats)
+    const prefix = scoreDocument(createDocument('cached the result here now'), query.terms, stats)
+
+    expect(exact).toBeGreaterThan(single)
+    expect(single).toBeGreaterThan(prefix)
+    expect(prefix).toBeGreaterThan(0)
+  })
+
+  it('ranks rare terms higher', () => {
+    const document = createDocument('cache the result here now')
+    const common = scoreDocument(document, query.terms, { ...stats, documentFrequencies: new Map([['cache', 90]]) })
+    expect(scoreDocument(document, query.terms, stats)).toBeGreaterThan(common)
+  })
+})
@@ -0,0 +1,12 @@
+export type { MessageSearchIndexProgress } from './MessageSearchIndex'
+export { ensureMessageSearchIndex, initMessageSearchIndex } from './MessageSearchIndex'
+export type {
+  MessageSearchFilters,
+  MessageSearchOptions,
+  MessageSearchResponse,
+  MessageSearchResult,
+  MessageSearchSortOrder
+} from './MessageSearchService'
+export { getIndexedModelIds, searchMessages } from './MessageSearchService'
+export type { HighlightSegment } from './snippet'
+export { splitHighlights } from './snippet'
@@ -0,0 +1,53 @@
+import type { MessageSearchDocument } from '@renderer/types/messageSearch'
+
+import type { SearchTerm } from './tokenizer'
+
+// BM25 参数
+const K1 = 1.2
+const B = 0.75
+
+// 前缀匹配（如 "test" 命中 "testing"）的词频权重低于完全匹配
+const PREFIX_MATCH_WEIGHT = 0.5
+
+export interface RankingStats {
+  documentCount: number
+  averageLength: number
+  /** 每个查询词项命中的文档数 */
+  documentFrequencies: Map<string, number>
+}
+
+function getTermFrequency(document: Pick<MessageSearchDocument, 'termFrequencies'>, term: SearchTerm): number {
+  let frequency = document.termFrequencies[term.value] ?? 0
+  if (term.prefix) {
+    for (const [value, count] of Object.entries(document.termFrequencies)) {
+      if (value !== term.value && value.startsWith(term.value)) {
+        frequency += count * PREFIX_MATCH_WEIGHT
+      }
+    }
+  }
+  return frequency
+}
+
+/**
+ * 按 BM25 计算文档与查询的相关度
+ */
+export function scoreDocument(
+  document: Pick<MessageSearchDocument, 'termFrequencies' | 'length'>,
+  terms: SearchTerm[],
+  stats: RankingStats
+): number {
+  const lengthRatio = stats.averageLength > 0 ? document.length / stats.averageLength : 1
+  let score = 0
+
+  for (const term of terms) {
+    const frequency = getTermFrequency(document, term)
+    if (frequency === 0) {
+      continue
+    }
+    const documentFrequency = stats.documentFrequencies.get(term.value) ?? 0
+    const idf = Math.log(1 + (stats.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+    score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio))
+  }
+
+  return score
+}
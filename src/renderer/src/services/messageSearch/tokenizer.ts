@@ -0,0 +1,145 @@
+import { escapeRegExp } from 'lodash'
+
+const CJK_CHAR = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+const WORD_CHAR = '\\p{L}\\p{N}_'
+
+// CJK 连续字符作为一段，其它文字按单词切分
+const SEGMENT_REGEX = new RegExp(`[${CJK_CHAR}]+|(?:(?![${CJK_CHAR}])[${WORD_CHAR}])+`, 'gu')
+const CJK_REGEX = new RegExp(`^[${CJK_CHAR}]`, 'u')
+const PHRASE_REGEX = /"([^"]+)"/g
+
+// 过长的词通常是 base64、哈希等，不参与索引
+const MAX_TERM_LENGTH = 64
+
+// 拉丁词项至少两个字符才按前缀匹配，避免单个字母匹配到大量文档
+const MIN_PREFIX_LENGTH = 2
+
+export interface SearchTerm {
+  value: string
+  /** 匹配以该词开头的词项，CJK 词项只做精确匹配 */
+  prefix: boolean
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[]
+  /** 需要连续出现的短语：引号中的内容，以及多于两个字的 CJK 片段 */
+  phrases: string[]
+}
+
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase()
+}
+
+function isCJK(segment: string): boolean {
+  return CJK_REGEX.test(segment)
+}
+
+function splitSegments(text: string): string[] {
+  return normalizeSearchText(text).match(SEGMENT_REGEX) ?? []
+}
+
+/**
+ * 切分文本为词项，CJK 文本同时生成单字和双字词项，以便单字查询和词组查询都能命中
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+
+  for (const segment of splitSegments(text)) {
+    if (!isCJK(segment)) {
+      if (segment.length <= MAX_TERM_LENGTH) {
+        tokens.push(segment)
+      }
+      continue
+    }
+
+    const chars = Array.from(segment)
+    for (let i = 0; i < chars.length; i++) {
+      tokens.push(chars[i])
+      if (i + 1 < chars.length) {
+        tokens.push(chars[i] + chars[i + 1])
+      }
+    }
+  }
+
+  return tokens
+}
+
+function toQueryTerms(segment: string): SearchTerm[] {
+  if (!isCJK(segment)) {
+    return [{ value: segment, prefix: segment.length >= MIN_PREFIX_LENGTH }]
+  }
+
+  const chars = Array.from(segment)
+  if (chars.length === 1) {
+    return [{ value: segment, prefix: false }]
+  }
+  return chars.slice(0, -1).map((char, i) => ({ value: char + chars[i + 1], prefix: false }))
+}
+
+/**
+ * 解析搜索语句，所有词项都需要命中，引号中的内容作为短语匹配
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const phrases: string[] = []
+  const segments: string[] = []
+
+  const rest = query.replace(PHRASE_REGEX, (_, phrase: string) => {
+    const phraseSegments = splitSegments(phrase)
+    if (phraseSegments.length > 0) {
+      segments.push(...phraseSegments)
+      phrases.push(phraseSegments.join(' '))
+    }
+    return ' '
+  })
+
+  for (const segment of splitSegments(rest)) {
+    segments.push(segment)
+    if (isCJK(segment) && Array.from(segment).length > 2) {
+      phrases.push(segment)
+    }
+  }
+
+  const terms = new Map<string, SearchTerm>()
+  for (const term of segments.flatMap(toQueryTerms)) {
+    const existing = terms.get(term.value)
+    terms.set(term.value, { value: term.value, prefix: term.prefix && (existing?.prefix ?? true) })
+  }
+
+  return { terms: Array.from(terms.values()), phrases }
+}
+
+/**
+ * 短语中的单词之间允许任意分隔符，CJK 字符之间需要紧邻
+ */
+function buildPhrasePattern(phrase: string): string {
+  return phrase
+    .split(' ')
+    .map((segment) => escapeRegExp(segment))
+    .join(`[^${WORD_CHAR}${CJK_CHAR}]+`)
+}
+
+/**
+ * 判断文本是否包含短语
+ */
+export function matchesPhrase(text: string, phrase: string): boolean {
+  return new RegExp(buildPhrasePattern(phrase), 'u').test(normalizeSearchText(text))
+}
+
+/**
+ * 构建用于高亮搜索结果的正则，拉丁词项只匹配单词开头
+ */
+export function buildHighlightRegex(query: ParsedSearchQuery): RegExp | null {
+  const patterns = [
+    ...query.phrases.map(buildPhrasePattern),
+    ...query.terms.map((term) =>
+      isCJK(term.value) ? escapeRegExp(term.value) : `(?<![${WORD_CHAR}])${escapeRegExp(term.value)}`
+    )
+  ]
+  if (patterns.length === 0) {
+    return null
+  }
+
+  // 长的模式优先，避免短语被拆成单词高亮
+  patterns.sort((a, b) => b.length - a.length)
+  return new RegExp(patterns.join('|'), 'giu')
+}
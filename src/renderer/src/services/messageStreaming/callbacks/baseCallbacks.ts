@@ -3,15 +3,17 @@ import { autoRenameTopic } from '@renderer/hooks/useTopic'
 import i18n from '@renderer/i18n'
 import { EVENT_NAMES, EventEmitter } from '@renderer/services/EventService'
 import { NotificationService } from '@renderer/services/NotificationService'
+import { recordMonthlySpend } from '@renderer/services/SpendBudgetService'
 import { estimateMessagesUsage } from '@renderer/services/TokenService'
 import { updateOneBlock } from '@renderer/store/messageBlock'
 import { selectMessagesForTopic } from '@renderer/store/newMessage'
 import { newMessagesActions } from '@renderer/store/newMessage'
-import type { Assistant } from '@renderer/types'
+import type { Assistant, Model } from '@renderer/types'
 import type { PlaceholderMessageBlock, Response, ThinkingMessageBlock } from '@renderer/types/newMessage'
 import { AssistantMessageStatus, MessageBlockStatus, MessageBlockType } from '@renderer/types/newMessage'
 import { uuid } from '@renderer/utils'
 import { trackTokenUsage } from '@renderer/utils/analytics'
+import { calculateUsageCost } from '@renderer/utils/cost'
 import { isAbortError, serializeError } from '@renderer/utils/error'
 import { createBaseMessageBlock, createErrorBlock } from '@renderer/utils/messageUtils/create'
 import { findAllBlocks, getMainTextContent } from '@renderer/utils/messageUtils/find'
@@ -46,6 +48,8 @@ export const createBaseCallbacks = (deps: BaseCallbacksDependencies) => {
   } = deps
 
   const startTime = Date.now()
+  // 模型组 failover 时实际回答的模型
+  let answeredModel = assistant?.model
   const notificationService = NotificationService.getInstance()
 
   // 通用的 block 查找函数
@@ -78,6 +82,19 @@ export const createBaseCallbacks = (deps: BaseCallbacksDependencies) => {
       await blockManager.handleBlockTransition(baseBlock as PlaceholderMessageBlock, MessageBlockType.UNKNOWN)
     },
 
+    onModelFailover: async (model: Model) => {
+      answeredModel = model
+      const messageUpdates = { model, modelId: model.id }
+      dispatch(
+        newMessagesActions.updateMessage({
+          topicId,
+          messageId: assistantMsgId,
+          updates: messageUpdates
+        })
+      )
+      await saveUpdatesToDB(assistantMsgId, topicId, messageUpdates, [])
+    },
+
     onError: async (error: AISDKError) => {
       logger.debug('onError', error)
       if (NoOutputGeneratedError.isInstance(error)) {
@@ -247,6 +264,14 @@ export const createBaseCallbacks = (deps: BaseCallbacksDependencies) => {
         }
       }
 
+      // 按回答模型当前的价格记录费用，之后修改价格不影响已有消息
+      if (response?.usage && response.usage.cost === undefined) {
+        const cost = calculateUsageCost(response.usage, answeredModel)
+        if (cost !== undefined) {
+          response = { ...response, usage: { ...response.usage, cost } }
+        }
+      }
+
       const messageUpdates = { status, metrics: response?.metrics, usage: response?.usage }
       dispatch(
         newMessagesActions.updateMessage({
@@ -257,9 +282,13 @@ export const createBaseCallbacks = (deps: BaseCallbacksDependencies) => {
       )
       await saveUpdatesToDB(assistantMsgId, topicId, messageUpdates, [])
 
+      if (response?.usage?.cost && answeredModel) {
+        recordMonthlySpend(answeredModel.provider, response.usage.cost)
+      }
+
       // Track token usage analytics
       if (status === 'success') {
-        trackTokenUsage({ usage: response?.usage, model: assistant?.model })
+        trackTokenUsage({ usage: response?.usage, model: answeredModel })
       }
 
       EventEmitter.emit(EVENT_NAMES.MESSAGE_COMPLETE, { id: assistantMsgId, topicId, status })
@@ -234,6 +234,14 @@ const knowledgeSlice = createSlice({
           item.isPreprocessed = action.payload.isPreprocessed
         }
       }
+    },
+
+    updateBaseItemLastSyncedAt(state, action: PayloadAction<{ baseId: string; itemId: string; lastSyncedAt: number }>) {
+      const base = state.bases.find((b) => b.id === action.payload.baseId)
+      const item = base?.items.find((item) => item.id === action.payload.itemId)
+      if (item) {
+        item.lastSyncedAt = action.payload.lastSyncedAt
+      }
     }
   }
 })
@@ -254,6 +262,7 @@ export const {
   clearAllProcessing,
   updateBaseItemUniqueId,
   updateBaseItemIsPreprocessed,
+  updateBaseItemLastSyncedAt,
   syncPreprocessProvider
 } = knowledgeSlice.actions
 
@@ -16,12 +16,19 @@
  */
 import { loggerService } from '@logger'
 import { createSlice, nanoid, type PayloadAction } from '@reduxjs/toolkit'
-import { type BuiltinMCPServer, BuiltinMCPServerNames, type MCPConfig, type MCPServer } from '@renderer/types'
+import {
+  type BuiltinMCPServer,
+  BuiltinMCPServerNames,
+  type MCPConfig,
+  type MCPProfile,
+  type MCPServer
+} from '@renderer/types'
 
 const logger = loggerService.withContext('Store:MCP')
 
 export const initialState: MCPConfig = {
   servers: [],
+  profiles: [],
   isUvInstalled: true,
   isBunInstalled: true
 }
@@ -51,6 +58,18 @@ const mcpSlice = createSlice({
         state.servers[index].isActive = action.payload.isActive
       }
     },
+    addMCPProfile: (state, action: PayloadAction<MCPProfile>) => {
+      state.profiles.push(action.payload)
+    },
+    updateMCPProfile: (state, action: PayloadAction<MCPProfile>) => {
+      const index = state.profiles.findIndex((profile) => profile.id === action.payload.id)
+      if (index !== -1) {
+        state.profiles[index] = action.payload
+      }
+    },
+    deleteMCPProfile: (state, action: PayloadAction<string>) => {
+      state.profiles = state.profiles.filter((profile) => profile.id !== action.payload)
+    },
     setIsUvInstalled: (state, action: PayloadAction<boolean>) => {
       state.isUvInstalled = action.payload
     },
@@ -72,6 +91,9 @@ export const {
   updateMCPServer,
   deleteMCPServer,
   setMCPServerActive,
+  addMCPProfile,
+  updateMCPProfile,
+  deleteMCPProfile,
   setIsBunInstalled,
   setIsUvInstalled
 } = mcpSlice.actions
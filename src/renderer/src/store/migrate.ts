@@ -3389,6 +3389,57 @@ const migrateConfig = {
       logger.error('migrate 203 error', error as Error)
       return state
     }
+  },
+  '204': (state: RootState) => {
+    try {
+      if (state.settings.backupEncryption === undefined) {
+        state.settings.backupEncryption = settingsInitialState.backupEncryption
+      }
+      logger.info('migrate 204 success')
+      return state
+    } catch (error) {
+      logger.error('migrate 204 error', error as Error)
+      return state
+    }
+  },
+  '205': (state: RootState) => {
+    try {
+      if (state.settings.apiServer && !state.settings.apiServer.keys) {
+        state.settings.apiServer.keys = []
+      }
+      logger.info('migrate 205 success')
+      return state
+    } catch (error) {
+      logger.error('migrate 205 error', error as Error)
+      return state
+    }
+  },
+  '206': (state: RootState) => {
+    try {
+      if (state.settings.apiServer && !state.settings.apiServer.requestLog) {
+        state.settings.apiServer.requestLog = {
+          enabled: true,
+          retentionDays: 30
+        }
+      }
+      logger.info('migrate 206 success')
+      return state
+    } catch (error) {
+      logger.error('migrate 206 error', error as Error)
+      return state
+    }
+  },
+  '207': (state: RootState) => {
+    try {
+      if (state.mcp && !state.mcp.profiles) {
+        state.mcp.profiles = []
+      }
+      logger.info('migrate 207 success')
+      return state
+    } catch (error) {
+      logger.error('migrate 207 error', error as Error)
+      return state
+    }
   }
 }
 
@@ -20,7 +20,9 @@ import { DEFAULT_STREAM_OPTIONS_INCLUDE_USAGE, isMac } from '@renderer/config/co
 import { TRANSLATE_PROMPT } from '@renderer/config/prompts'
 import { DEFAULT_SIDEBAR_ICONS } from '@renderer/config/sidebar'
 import type {
+  ApiRequestLogSettings,
   ApiServerConfig,
+  ApiServerKey,
   AssistantsSortType,
   CodeStyleVarious,
   LanguageVarious,
@@ -129,6 +131,8 @@ export interface SettingsState {
   messageNavigation: 'none' | 'buttons' | 'anchor'
   // 数据目录设置
   skipBackupFile: boolean
+  // 使用口令加密所有备份，口令保存在系统密钥库中
+  backupEncryption: boolean
   // webdav 配置 host, user, pass, path
   webdavHost: string
   webdavUser: string
@@ -327,6 +331,7 @@ export const initialState: SettingsState = {
   gridPopoverTrigger: 'click',
   messageNavigation: 'none',
   skipBackupFile: false,
+  backupEncryption: false,
   webdavHost: '',
   webdavUser: '',
   webdavPass: '',
@@ -451,7 +456,12 @@ export const initialState: SettingsState = {
     enabled: false,
     host: API_SERVER_DEFAULTS.HOST,
     port: API_SERVER_DEFAULTS.PORT,
-    apiKey: `cs-sk-${uuid()}`
+    apiKey: `cs-sk-${uuid()}`,
+    keys: [],
+    requestLog: {
+      enabled: true,
+      retentionDays: 30
+    }
   },
   showMessageOutline: false
 }
@@ -580,6 +590,9 @@ const settingsSlice = createSlice({
     setSkipBackupFile: (state, action: PayloadAction<boolean>) => {
       state.skipBackupFile = action.payload
     },
+    setBackupEncryption: (state, action: PayloadAction<boolean>) => {
+      state.backupEncryption = action.payload
+    },
     setWebdavHost: (state, action: PayloadAction<string>) => {
       state.webdavHost = action.payload
     },
@@ -910,6 +923,31 @@ const settingsSlice = createSlice({
         apiKey: action.payload
       }
     },
+    addApiServerKey: (state, action: PayloadAction<ApiServerKey>) => {
+      state.apiServer.keys = [...(state.apiServer.keys ?? []), action.payload]
+    },
+    updateApiServerKey: (state, action: PayloadAction<Partial<ApiServerKey> & { id: string }>) => {
+      state.apiServer.keys = (state.apiServer.keys ?? []).map((key) =>
+        key.id === action.payload.id ? { ...key, ...action.payload } : key
+      )
+    },
+    removeApiServerKey: (state, action: PayloadAction<string>) => {
+      state.apiServer.keys = (state.apiServer.keys ?? []).filter((key) => key.id !== action.payload)
+    },
+    // Batched by the API server, keyed by key id
+    setApiServerKeysLastUsed: (state, action: PayloadAction<Record<string, number>>) => {
+      state.apiServer.keys = (state.apiServer.keys ?? []).map((key) =>
+        action.payload[key.id] ? { ...key, lastUsedAt: action.payload[key.id] } : key
+      )
+    },
+    setApiServerRequestLog: (state, action: PayloadAction<Partial<ApiRequestLogSettings>>) => {
+      state.apiServer.requestLog = {
+        enabled: true,
+        retentionDays: 30,
+        ...state.apiServer.requestLog,
+        ...action.payload
+      }
+    },
     setShowMessageOutline: (state, action: PayloadAction<boolean>) => {
       state.showMessageOutline = action.payload
     }
@@ -954,6 +992,7 @@ export const {
   setRenderInputMessageAsMarkdown,
   setClickAssistantToShowTopic,
   setSkipBackupFile,
+  setBackupEncryption,
   setWebdavHost,
   setWebdavUser,
   setWebdavPass,
@@ -1049,7 +1088,12 @@ export const {
   // API Server actions
   setApiServerEnabled,
   setApiServerPort,
-  setApiServerApiKey
+  setApiServerApiKey,
+  addApiServerKey,
+  updateApiServerKey,
+  removeApiServerKey,
+  setApiServerKeysLastUsed,
+  setApiServerRequestLog
 } = settingsSlice.actions
 
 export default settingsSlice.reducer
@@ -83,6 +83,7 @@ export const addNoteThunk = (baseId: string, content: string) => async (dispatch
   const noteRef = { ...note, content: '' } // store中不需要存储实际内容
 
   dispatch(updateNotes({ baseId, item: noteRef }))
+  return note
 }
 
 /**
@@ -95,6 +96,7 @@ export const addItemThunk =
   (baseId: string, type: KnowledgeItem['type'], content: string) => (dispatch: AppDispatch) => {
     const newItem = createKnowledgeItem(type, content)
     dispatch(addItem({ baseId, item: newItem }))
+    return newItem
   }
 
 export const addVedioThunk =
@@ -18,7 +18,9 @@ import { loggerService } from '@logger'
 import { AiSdkToChunkAdapter } from '@renderer/aiCore/chunk/AiSdkToChunkAdapter'
 import { AgentApiClient } from '@renderer/api/agent'
 import db from '@renderer/databases'
-import { fetchMessagesSummary, transformMessagesAndFetch } from '@renderer/services/ApiService'
+import { fetchContextSummary, fetchMessagesSummary, transformMessagesAndFetch } from '@renderer/services/ApiService'
+import { getAssistantSettings, getDefaultModel } from '@renderer/services/AssistantService'
+import { ConversationService } from '@renderer/services/ConversationService'
 import { dbService } from '@renderer/services/db'
 import { DbService } from '@renderer/services/db/DbService'
 import FileManager from '@renderer/services/FileManager'
@@ -30,6 +32,7 @@ import {
 } from '@renderer/services/ModelCandidatesService'
 import { endSpan } from '@renderer/services/SpanManagerService'
 import { createStreamProcessor, type StreamProcessorCallbacks } from '@renderer/services/StreamProcessingService'
+import { contextTokenEstimator } from '@renderer/services/TokenService'
 import store from '@renderer/store'
 import { updateTopicUpdatedAt } from '@renderer/store/assistants'
 import { type ApiServerConfig, type Assistant, type FileMetadata, type Model, type Topic } from '@renderer/types'
@@ -44,8 +47,16 @@ import {
   extractAgentSessionIdFromTopicId,
   isAgentSessionTopicId
 } from '@renderer/utils/agentSession'
+import {
+  buildMessageTree,
+  getActiveLeafId,
+  getMessageBranch,
+  getMessageParentId
+} from '@renderer/utils/messageUtils/branch'
 import {
   createAssistantMessage,
+  createCompactBlock,
+  createMessage,
   createTranslationBlock,
   resetAssistantMessage
 } from '@renderer/utils/messageUtils/create'
@@ -858,7 +869,8 @@ const dispatchMultiModelResponses = async (
   topicId: string,
   triggeringMessage: Message, // userMessage or messageToResend
   assistant: Assistant,
-  mentionedModels: Model[]
+  mentionedModels: Model[],
+  beforeResponse?: Promise<unknown>
 ) => {
   const assistantMessageStubs: Message[] = []
   const tasksToQueue: { assistantConfig: Assistant; messageStub: Message }[] = []
@@ -890,6 +902,7 @@ const dispatchMultiModelResponses = async (
   const queue = getQueueForAssistant(topicId, assistant, mentionedModels.length || 1)
   for (const task of tasksToQueue) {
     queue.add(async () => {
+      await beforeResponse
       await fetchAndProcessAssistantResponseImpl(dispatch, getState, topicId, task.assistantConfig, task.messageStub)
     })
   }
@@ -925,7 +938,8 @@ const fetchAndProcessAssistantResponseImpl = async (
       cancelThrottledBlockUpdate
     })
 
-    const allMessagesForTopic = selectMessagesForTopic(getState(), topicId)
+    // 只使用该回复所在分支上的消息作为上下文
+    const allMessagesForTopic = getMessageBranch(selectMessagesForTopic(getState(), topicId), assistantMsgId)
 
     let messagesForContext: Message[] = []
     const userMessageId = assistantMessage.askId
@@ -1005,6 +1019,80 @@ const fetchAndProcessAssistantResponseImpl = async (
   }
 }
 
+/**
+ * 把当前分支中较早的对话折叠进上下文摘要，并在分支末尾追加一条摘要消息
+ * @param topicId 主题ID
+ * @param assistant 助手对象
+ * @param force 为 true 时折叠全部上下文（手动压缩），否则只在超出 token 预算时折叠
+ * @param pendingMessage 已经显示、还没有回复的用户消息。摘要插入在它之前，只折叠它之前的对话
+ * @returns 新增的摘要消息，不需要折叠时返回 null
+ */
+export const compactTopicContextThunk =
+  (topicId: Topic['id'], assistant: Assistant, force = false, pendingMessage?: Message) =>
+  async (dispatch: AppDispatch, getState: () => RootState): Promise<Message | null> => {
+    const { contextTokenBudget } = getAssistantSettings(assistant)
+    if (!force && contextTokenBudget === undefined) {
+      return null
+    }
+
+    const topicMessages = selectMessagesForTopic(getState(), topicId)
+    const leafId = pendingMessage ? pendingMessage.parentId : getActiveLeafId(topicMessages)
+    if (!leafId) {
+      return null
+    }
+
+    const branch = getMessageBranch(topicMessages, leafId)
+    const model = assistant.model || getDefaultModel()
+    if (!force) {
+      await contextTokenEstimator.preloadMessageTokens(branch, model)
+    }
+    const messagesToCompact = ConversationService.selectMessagesToCompact(
+      branch,
+      { budget: contextTokenBudget ?? 0, estimator: contextTokenEstimator, model },
+      force
+    )
+    if (messagesToCompact.length === 0) {
+      return null
+    }
+
+    const { text: summary, error } = await fetchContextSummary({
+      messages: messagesToCompact,
+      previousSummary: ConversationService.getContextSummary(branch),
+      assistant
+    })
+    if (!summary) {
+      throw new Error(error)
+    }
+
+    const compactMessage = createMessage('system', topicId, assistant.id, {
+      type: 'compact',
+      compactedUntilId: messagesToCompact[messagesToCompact.length - 1].id,
+      parentId: leafId
+    })
+    const compactBlock = createCompactBlock(
+      compactMessage.id,
+      summary,
+      t('message.message.compact.folded', { count: messagesToCompact.length }),
+      { status: MessageBlockStatus.SUCCESS }
+    )
+    compactMessage.blocks = [compactBlock.id]
+    compactMessage.status = AssistantMessageStatus.SUCCESS
+
+    const messageIds = getState().messages.messageIdsByTopic[topicId] || []
+    const insertAtIndex = pendingMessage ? messageIds.indexOf(pendingMessage.id) : -1
+    await saveMessageAndBlocksToDB(topicId, compactMessage, [compactBlock], insertAtIndex)
+    dispatch(upsertManyBlocks([compactBlock]))
+    if (pendingMessage && insertAtIndex !== -1) {
+      dispatch(newMessagesActions.insertMessageAtIndex({ topicId, message: compactMessage, index: insertAtIndex }))
+      // 用户消息改为接在摘要之后，回复时的上下文从摘要开始
+      await dispatch(updateMessageAndBlocksThunk(topicId, { id: pendingMessage.id, parentId: compactMessage.id }, []))
+    } else {
+      dispatch(newMessagesActions.addMessage({ topicId, message: compactMessage }))
+    }
+    logger.info('Compacted topic context', { topicId, count: messagesToCompact.length, force })
+    return compactMessage
+  }
+
 /**
  * 发送消息并处理助手回复
  * @param userMessage 已创建的用户消息
@@ -1038,6 +1126,12 @@ export const sendMessage =
       if (activeAgentSession?.agentSessionId && !userMessage.agentSessionId) {
         userMessage.agentSessionId = activeAgentSession.agentSessionId
       }
+      let shouldCompact = false
+      if (userMessage.parentId === undefined) {
+        // 继续当前分支的对话
+        userMessage.parentId = getActiveLeafId(selectMessagesForTopic(stateBeforeSend, topicId))
+        shouldCompact = !activeAgentSession && !stateBeforeSend.messages.loadingByTopic[topicId]
+      }
 
       await saveMessageAndBlocksToDB(topicId, userMessage, userMessageBlocks)
       dispatch(newMessagesActions.addMessage({ topicId, message: userMessage }))
@@ -1070,9 +1164,26 @@ export const sendMessage =
         })
       } else {
         const mentionedModels = userMessage.mentions
+        // 上下文超出 token 预算时，把较早的对话折叠进摘要。用户消息已经显示，回复在摘要生成后开始
+        if (shouldCompact) {
+          dispatch(newMessagesActions.setTopicLoading({ topicId, loading: true }))
+        }
+        const compaction = shouldCompact
+          ? dispatch(compactTopicContextThunk(topicId, assistant, false, userMessage)).catch((error) =>
+              logger.warn('Failed to compact topic context, falling back to trimming', error as Error)
+            )
+          : undefined
 
         if (mentionedModels && mentionedModels.length > 0) {
-          await dispatchMultiModelResponses(dispatch, getState, topicId, userMessage, assistant, mentionedModels)
+          await dispatchMultiModelResponses(
+            dispatch,
+            getState,
+            topicId,
+            userMessage,
+            assistant,
+            mentionedModels,
+            compaction
+          )
         } else {
           const assistantForRequest = getSelectedAssistantForRequest(assistant)
           const assistantModelForRequest = assistantForRequest.model
@@ -1088,6 +1199,7 @@ export const sendMessage =
           dispatch(newMessagesActions.addMessage({ topicId, message: assistantMessage }))
 
           queue.add(async () => {
+            await compaction
             await fetchAndProcessAssistantResponseImpl(
               dispatch,
               getState,
@@ -1362,15 +1474,62 @@ export const resendMessageThunk =
     }
   }
 
+/**
+ * Sends a copy of a user message with the given blocks as a new sibling branch of it.
+ * The original message and its responses stay in the topic and can be switched back to.
+ */
+const branchUserMessageThunk =
+  (
+    topicId: Topic['id'],
+    sourceMessage: Message,
+    blocks: MessageBlock[],
+    assistant: Assistant,
+    updates: Partial<Pick<Message, 'usage' | 'traceId'>> = {}
+  ) =>
+  async (dispatch: AppDispatch, getState: () => RootState) => {
+    const topicMessages = selectMessagesForTopic(getState(), topicId)
+    const messageId = uuid()
+    const now = new Date().toISOString()
+    const branchBlocks = blocks.map((block) => ({ ...block, id: uuid(), messageId, createdAt: now }))
+    const branchMessage = createMessage('user', topicId, sourceMessage.assistantId, {
+      id: messageId,
+      blocks: branchBlocks.map((block) => block.id),
+      parentId: getMessageParentId(topicMessages, sourceMessage),
+      mentions: sourceMessage.mentions,
+      usage: sourceMessage.usage,
+      traceId: sourceMessage.traceId,
+      ...updates
+    })
+
+    // 沿用的文件被新分支再次引用，编辑时新上传的文件已在上传时计数
+    const sourceBlockIds = new Set(sourceMessage.blocks)
+    const reusedFiles = blocks
+      .filter((block) => sourceBlockIds.has(block.id))
+      .filter((block) => block.type === MessageBlockType.FILE || block.type === MessageBlockType.IMAGE)
+      .map((block) => (block as FileMessageBlock | ImageMessageBlock).file)
+      .filter((file) => file !== undefined)
+    for (const file of new Map(reusedFiles.map((f) => [f.id, f])).values()) {
+      await updateFileCount(file.id, 1, false)
+    }
+
+    await dispatch(sendMessage(branchMessage, branchBlocks, assistant, topicId))
+  }
+
 /**
  * Thunk to resend a user message after its content has been edited.
- * Updates the user message's text block and then triggers the regeneration
- * of its associated assistant responses using resendMessageThunk.
+ * The edited message is sent as a new sibling branch of the original message
+ * instead of overwriting it and its responses.
  */
 export const resendUserMessageWithEditThunk =
-  (topicId: Topic['id'], originalMessage: Message, assistant: Assistant) => async (dispatch: AppDispatch) => {
-    // Trigger the regeneration logic for associated assistant messages
-    dispatch(resendMessageThunk(topicId, originalMessage, assistant))
+  (
+    topicId: Topic['id'],
+    originalMessage: Message,
+    editedBlocks: MessageBlock[],
+    assistant: Assistant,
+    updates: Partial<Pick<Message, 'usage' | 'traceId'>> = {}
+  ) =>
+  async (dispatch: AppDispatch) => {
+    await dispatch(branchUserMessageThunk(topicId, originalMessage, editedBlocks, assistant, updates))
   }
 
 /**
@@ -1414,6 +1573,21 @@ export const regenerateAssistantResponseThunk =
         return
       }
 
+      // 单一回复重新生成时作为新分支，保留原回复；多模型回复仍在原处重新生成
+      const responses = allMessagesForTopic.filter((m) => m.role === 'assistant' && m.askId === askId)
+      if (responses.length === 1 && !originalUserQuery.mentions?.length) {
+        const userBlocks = originalUserQuery.blocks
+          .map((blockId) => state.messageBlocks.entities[blockId])
+          .filter((block) => block !== undefined)
+        await dispatch(
+          branchUserMessageThunk(topicId, originalUserQuery, userBlocks, {
+            ...assistant,
+            ...(assistantMessageToRegenerate.model ? { model: assistantMessageToRegenerate.model } : {})
+          })
+        )
+        return
+      }
+
       // 3. Verify the assistant message itself exists in entities
       const messageToResetEntity = state.messages.entities[assistantMessageToRegenerate.id]
       if (!messageToResetEntity) {
@@ -1701,8 +1875,8 @@ export const cloneMessagesToNewTopicThunk =
         return false
       }
 
-      // 1. Slice messages to clone
-      const messagesToClone = sourceMessages.slice(0, branchPointIndex)
+      // 1. Slice messages to clone (only the active path of the conversation tree)
+      const messagesToClone = buildMessageTree(sourceMessages).activeMessages.slice(0, branchPointIndex)
       if (messagesToClone.length === 0) {
         logger.warn(`[cloneMessagesToNewTopicThunk] No messages to branch (index ${branchPointIndex}).`)
         return true // Nothing to clone, operation considered successful but did nothing.
@@ -1775,7 +1949,10 @@ export const cloneMessagesToNewTopicThunk =
           ...oldMessage,
           id: newMsgId,
           topicId: newTopic.id, // Use the NEW topic ID provided
-          blocks: newBlockIds // Use the NEW block IDs
+          blocks: newBlockIds, // Use the NEW block IDs
+          // The cloned path is linear, drop the conversation tree links
+          parentId: undefined,
+          branchSelectedAt: undefined
         }
         if (newMessage.role === 'assistant') {
           newMessage.askId = newAskId // Use the mapped/updated askId
@@ -0,0 +1,43 @@
+import * as z from 'zod'
+
+// Request schema for POST /v1/knowledge/:baseId/search
+export const ApiKnowledgeSearchRequestSchema = z.object({
+  query: z.string().trim().min(1),
+  top_k: z.number().int().min(1).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  rerank: z.boolean().optional()
+})
+
+// Request schema for POST /v1/knowledge/:baseId/items
+export const ApiKnowledgeAddItemRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('url'), url: z.url() }),
+  z.object({ type: z.literal('note'), content: z.string().trim().min(1) })
+])
+
+// Knowledge base schema returned by GET /v1/knowledge
+export const ApiKnowledgeBaseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  // Embedding model in "provider:model_id" format
+  model: z.string(),
+  rerank_model: z.string().optional(),
+  dimensions: z.number().optional(),
+  document_count: z.number().optional(),
+  threshold: z.number().optional(),
+  item_count: z.number(),
+  created_at: z.number(),
+  updated_at: z.number()
+})
+
+export const ApiKnowledgeSearchResultSchema = z.object({
+  content: z.string(),
+  score: z.number(),
+  source: z.string().optional(),
+  metadata: z.record(z.string(), z.any())
+})
+
+export type ApiKnowledgeSearchRequest = z.infer<typeof ApiKnowledgeSearchRequestSchema>
+export type ApiKnowledgeAddItemRequest = z.infer<typeof ApiKnowledgeAddItemRequestSchema>
+export type ApiKnowledgeBase = z.infer<typeof ApiKnowledgeBaseSchema>
+export type ApiKnowledgeSearchResult = z.infer<typeof ApiKnowledgeSearchResultSchema>
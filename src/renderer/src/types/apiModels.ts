@@ -6,6 +6,8 @@ import { ProviderTypeSchema } from './provider'
 // Request schema for /v1/models
 export const ApiModelsFilterSchema = z.object({
   providerType: ProviderTypeSchema.optional(),
+  // chat: 排除 embedding 模型；embedding: 仅返回 embedding 模型
+  type: z.enum(['chat', 'embedding']).optional(),
   offset: z.coerce.number().min(0).default(0).optional(),
   limit: z.coerce.number().min(1).default(20).optional()
 })
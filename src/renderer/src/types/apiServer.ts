@@ -1,8 +1,36 @@
+import type { ApiRequestLogSettings } from './apiUsage'
+
+export const API_SERVER_KEY_SCOPES = ['chat', 'models', 'mcps', 'agents', 'knowledge'] as const
+
+export type ApiServerKeyScope = (typeof API_SERVER_KEY_SCOPES)[number]
+
+/**
+ * A named key for the local API server. Unlike the primary `apiKey`, which has full access,
+ * these keys are limited to their scopes and models and can be revoked one by one.
+ */
+export type ApiServerKey = {
+  id: string
+  name: string
+  key: string
+  enabled: boolean
+  scopes: ApiServerKeyScope[]
+  // Models in provider:model_id format, empty means every model
+  allowedModels?: string[]
+  // MCP server ids reachable through the MCP gateway, empty means every active server
+  allowedMcpServers?: string[]
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+  createdAt: number
+  lastUsedAt?: number
+}
+
 export type ApiServerConfig = {
   enabled: boolean
   host: string
   port: number
   apiKey: string
+  keys?: ApiServerKey[]
+  requestLog?: ApiRequestLogSettings
 }
 
 export type GetApiServerStatusResult = {
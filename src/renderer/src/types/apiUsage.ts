@@ -0,0 +1,79 @@
+import * as z from 'zod'
+
+// A request handled by the local API server, persisted for the request log and /v1/usage
+export type ApiRequestLogEntry = {
+  id: string
+  timestamp: number
+  method: string
+  route: string
+  status: number
+  latencyMs: number
+  keyId?: string
+  keyName?: string
+  provider?: string
+  model?: string
+  stream?: boolean
+  inputTokens?: number
+  outputTokens?: number
+  // Computed from the model's pricing at the time of the request
+  cost?: number
+  currencySymbol?: string
+}
+
+export type ApiRequestLogSettings = {
+  enabled: boolean
+  retentionDays: number
+}
+
+// Shared by the settings viewer (IPC) and the /v1/usage query string
+export const ApiRequestLogFilterSchema = z.object({
+  from: z.coerce.number().int().min(0).optional(),
+  to: z.coerce.number().int().min(0).optional(),
+  key_id: z.string().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  route: z.string().optional(),
+  status: z.enum(['success', 'error']).optional()
+})
+
+export const ApiRequestLogQuerySchema = ApiRequestLogFilterSchema.extend({
+  offset: z.coerce.number().int().min(0).default(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50).optional()
+})
+
+export const API_USAGE_GROUP_BY = ['key', 'model', 'provider', 'route', 'day'] as const
+
+export const ApiUsageQuerySchema = ApiRequestLogFilterSchema.extend({
+  group_by: z.enum(API_USAGE_GROUP_BY).optional()
+})
+
+export type ApiRequestLogFilter = z.infer<typeof ApiRequestLogFilterSchema>
+export type ApiRequestLogQuery = z.infer<typeof ApiRequestLogQuerySchema>
+export type ApiUsageQuery = z.infer<typeof ApiUsageQuerySchema>
+
+export type ApiRequestLogPage = {
+  data: ApiRequestLogEntry[]
+  total: number
+}
+
+export type ApiUsageTotals = {
+  requests: number
+  errors: number
+  input_tokens: number
+  output_tokens: number
+  // Keyed by currency symbol, since model prices may use different currencies
+  cost: Record<string, number>
+}
+
+export type ApiUsageGroup = ApiUsageTotals & {
+  group: string
+}
+
+export type ApiUsageResponse = {
+  object: 'usage'
+  from?: number
+  to?: number
+  group_by?: ApiUsageQuery['group_by']
+  total: ApiUsageTotals
+  data: ApiUsageGroup[]
+}
@@ -18,8 +18,10 @@ import type { Message } from './newMessage'
 import type { BaseTool, MCPTool } from './tool'
 
 export * from './agent'
+export * from './apiKnowledge'
 export * from './apiModels'
 export * from './apiServer'
+export * from './apiUsage'
 export * from './knowledge'
 export * from './mcp'
 export * from './notification'
@@ -27,9 +29,9 @@ export * from './ocr'
 export * from './plugin'
 export * from './provider'
 
-export type McpMode = 'disabled' | 'auto' | 'manual'
+export type McpMode = 'disabled' | 'auto' | 'manual' | 'profile'
 
-export type ModelGroupRoutingMode = 'order-first' | 'round-robin'
+export type ModelGroupRoutingMode = 'order-first' | 'round-robin' | 'failover'
 
 export type AssistantModelGroup = {
   id: string
@@ -51,6 +53,8 @@ export type Assistant = {
   modelGroups?: AssistantModelGroup[]
   selectedModelGroupId?: string
   modelGroupRoutingMode?: ModelGroupRoutingMode
+  /** Seconds a failing model stays benched in 'failover' routing */
+  modelFailoverCooldown?: number
   /** @deprecated use modelGroups instead */
   candidateModels?: Model[]
   defaultModel?: Model
@@ -66,6 +70,10 @@ export type Assistant = {
   /** MCP mode: 'disabled' (no MCP), 'auto' (hub server only), 'manual' (user selects servers) */
   mcpMode?: McpMode
   mcpServers?: MCPServer[]
+  /** MCP profile used when `mcpMode` is 'profile' */
+  mcpProfileId?: string
+  /** Directories the MCP servers may access, exposed to them as MCP roots */
+  accessiblePaths?: string[]
   knowledgeRecognition?: 'off' | 'on'
   regularPhrases?: QuickPhrase[] // Added for regular phrase
   tags?: string[] // 助手标签
@@ -187,6 +195,10 @@ export type AssistantSettings = {
   topP: number
   enableTopP?: boolean
   contextCount: number
+  /** Fold older turns into a rolling summary once the context exceeds the token budget */
+  enableContextBudget?: boolean
+  /** Context token budget, defaults to a share of the model's context length */
+  contextTokenBudget?: number
   streamOutput: boolean
   defaultModel?: Model
   customParameters?: AssistantSettingCustomParameters[]
@@ -254,7 +266,7 @@ export type LegacyMessage = {
 
 export type Usage = OpenAI.Completions.CompletionUsage & {
   thoughts_tokens?: number
-  // OpenRouter specific fields
+  // Reported by OpenRouter, otherwise computed from the model's pricing when the response completes
   cost?: number
 }
 
@@ -281,6 +293,8 @@ export type Topic = {
   pinned?: boolean
   prompt?: string
   isNameManuallyEdited?: boolean
+  /** MCP profile picked for this topic, overrides the assistant's MCP settings */
+  mcpProfileId?: string
 }
 
 export type User = {
@@ -308,6 +322,9 @@ export type EndpointType = z.infer<typeof EndPointTypeSchema>
 export type ModelPricing = {
   input_per_million_tokens: number
   output_per_million_tokens: number
+  // 缓存命中的输入和推理输出单独计价，未设置时按普通输入/输出价格计算
+  cached_input_per_million_tokens?: number
+  reasoning_per_million_tokens?: number
   currencySymbol?: string
 }
 
@@ -563,6 +580,8 @@ export type WebDavConfig = {
   fileName?: string
   skipBackupFile?: boolean
   disableStream?: boolean
+  // 备份加密口令，仅在单次请求中传递，不持久化
+  passphrase?: string
 }
 
 export type AppInfo = {
@@ -804,6 +823,8 @@ export interface MCPServer {
   disabledTools?: string[]
   /** Whether to auto-approve tools for this server */
   disabledAutoApproveTools?: string[]
+  /** Result cache TTL in seconds per tool name, tools without an entry are never cached */
+  toolCacheTtls?: Record<string, number>
 
   /** 用于标记内置 MCP 是否需要配置 */
   shouldConfig?: boolean
@@ -879,8 +900,25 @@ export interface GetMCPPromptResponse {
   }[]
 }
 
+export interface MCPProfileServer {
+  serverId: string
+  /** Tool names enabled by the profile, empty or missing enables every tool of the server */
+  enabledTools?: string[]
+}
+
+/** A named set of MCP servers and their enabled tools */
+export interface MCPProfile {
+  id: string
+  name: string
+  description?: string
+  servers: MCPProfileServer[]
+  createdAt: number
+  updatedAt: number
+}
+
 export interface MCPConfig {
   servers: MCPServer[]
+  profiles: MCPProfile[]
   isUvInstalled: boolean
   isBunInstalled: boolean
 }
@@ -997,6 +1035,8 @@ export type S3Config = {
   autoSync: boolean
   syncInterval: number
   maxBackups: number
+  // 备份加密口令，仅在单次请求中传递，不持久化
+  passphrase?: string
 }
 
 export type { Message } from './newMessage'
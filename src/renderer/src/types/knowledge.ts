@@ -4,6 +4,20 @@ import type { FileMetadata } from './file'
 
 export type KnowledgeItemType = 'file' | 'url' | 'note' | 'sitemap' | 'directory' | 'memory' | 'video'
 
+/**
+ * - vector: embedding similarity only
+ * - hybrid: embedding similarity fused with BM25 keyword matches
+ */
+export type KnowledgeSearchMode = 'vector' | 'hybrid'
+
+/**
+ * - default: fixed-size character splitting
+ * - markdown: split at headings, keeping tables and code blocks whole
+ * - code: split at function/class boundaries
+ * - sentence: split at sentence boundaries
+ */
+export type KnowledgeChunkStrategy = 'default' | 'markdown' | 'code' | 'sentence'
+
 export type KnowledgeItem = {
   id: string
   baseId?: string
@@ -19,6 +33,11 @@ export type KnowledgeItem = {
   processingError?: string
   retryCount?: number
   isPreprocessed?: boolean
+  tags?: string[]
+  // Directory items: re-sync automatically when files in the folder change
+  watch?: boolean
+  // Directory items: when the folder was last embedded or synced
+  lastSyncedAt?: number
 }
 
 export type KnowledgeFileItem = KnowledgeItem & {
@@ -92,7 +111,9 @@ export interface KnowledgeBase {
   documentCount?: number
   chunkSize?: number
   chunkOverlap?: number
+  chunkStrategy?: KnowledgeChunkStrategy
   threshold?: number
+  searchMode?: KnowledgeSearchMode
   rerankModel?: Model
   // topN?: number
   // preprocessing?: boolean
@@ -132,9 +153,11 @@ export type KnowledgeBaseParams = {
   dimensions?: number
   chunkSize?: number
   chunkOverlap?: number
+  chunkStrategy?: KnowledgeChunkStrategy
   embedApiClient: ApiClient
   rerankApiClient?: ApiClient
   documentCount?: number
+  searchMode?: KnowledgeSearchMode
   // preprocessing?: boolean
   preprocessProvider?: {
     type: 'preprocess'
@@ -157,6 +180,58 @@ export interface KnowledgeSearchResult {
   metadata: Record<string, any>
 }
 
+/**
+ * Where a chunk sits in its source file, recorded by the loaders that can tell.
+ */
+export type KnowledgeChunkLocation = {
+  // 1-based PDF page
+  page?: number
+  // 1-based inclusive line range, in the extracted text for documents such as docx
+  lineFrom?: number
+  lineTo?: number
+  // EPUB chapter title
+  chapter?: string
+}
+
+export const getKnowledgeChunkLocation = (
+  metadata: Record<string, any> | undefined
+): KnowledgeChunkLocation | undefined => {
+  if (!metadata) {
+    return undefined
+  }
+  const { page, lineFrom, lineTo, chapter } = metadata
+  if (page === undefined && lineFrom === undefined && chapter === undefined) {
+    return undefined
+  }
+  return { page, lineFrom, lineTo, chapter }
+}
+
+/**
+ * Attributes of the source item stamped on every stored chunk, so retrieval can be scoped.
+ */
+export type KnowledgeChunkMetadata = {
+  itemId: string
+  itemType: KnowledgeItemType
+  // Lower-cased, with the leading dot; only for file based items
+  itemExt?: string
+  itemAddedAt: number
+  itemTags: string[]
+}
+
+/**
+ * Restricts a knowledge search to matching items. All conditions must hold, empty lists are ignored.
+ */
+export type KnowledgeSearchFilter = {
+  itemIds?: string[]
+  itemTypes?: KnowledgeItemType[]
+  extensions?: string[]
+  // Item added date range, epoch milliseconds
+  addedAfter?: number
+  addedBefore?: number
+  // Matches items carrying any of the tags
+  tags?: string[]
+}
+
 export interface PreprocessReadPdfResult {
   numPages: number
 }
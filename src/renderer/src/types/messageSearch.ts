@@ -0,0 +1,18 @@
+import type { Message } from './newMessage'
+
+/**
+ * @interface
+ * @description 全文搜索索引中的文档，每个主文本块对应一个文档
+ */
+export interface MessageSearchDocument {
+  id: string // 主文本块 ID
+  messageId: string
+  topicId: string
+  assistantId: string
+  role: Message['role']
+  modelId: string // 没有模型时为空字符串
+  createdAt: string // 消息创建时间
+  terms: string[] // 去重后的词项，用于倒排索引
+  termFrequencies: Record<string, number>
+  length: number // 词项总数
+}
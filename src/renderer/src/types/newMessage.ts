@@ -146,7 +146,7 @@ export interface ErrorMessageBlock extends BaseMessageBlock {
   type: MessageBlockType.ERROR
 }
 
-// Compact块 - 用于显示 /compact 命令的响应
+// Compact块 - 用于显示 /compact 命令的响应，以及普通话题的上下文摘要
 export interface CompactMessageBlock extends BaseMessageBlock {
   type: MessageBlockType.COMPACT
   content: string // 总结消息
@@ -193,9 +193,15 @@ export type Message = {
   // 消息元数据
   modelId?: string
   model?: Model
-  type?: 'clear'
+  type?: 'clear' | 'compact'
+  // 上下文摘要消息折叠到的最后一条消息ID，该消息及之前的上下文由摘要代替
+  compactedUntilId?: string
   useful?: boolean
   askId?: string // 关联的问题消息ID
+  // 对话树中的父消息ID，null 表示根消息；旧消息没有该字段，视为列表中前一条消息的后继
+  parentId?: string | null
+  // 在分叉处切换到该分支的时间，同级分支中最近的为当前分支
+  branchSelectedAt?: string
   mentions?: Model[]
   /**
    * @deprecated
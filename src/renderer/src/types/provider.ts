@@ -100,6 +100,13 @@ export function isAwsBedrockAuthType(type: string): type is AwsBedrockAuthType {
   return Object.hasOwn(AwsBedrockAuthTypes, type)
 }
 
+export type ProviderSpendBudget = {
+  enabled: boolean
+  monthlyLimit: number
+  // Fraction of the limit at which a warning is shown, e.g. 0.8
+  warningThreshold: number
+}
+
 export type Provider = {
   id: string
   type: ProviderType
@@ -139,6 +146,9 @@ export type Provider = {
 
   // Anthropic prompt caching settings
   anthropicCacheControl?: AnthropicCacheControlSettings
+
+  // Monthly spend budget, in the currency of the provider's model prices
+  spendBudget?: ProviderSpendBudget
 }
 
 export const SystemProviderIdSchema = z.enum([
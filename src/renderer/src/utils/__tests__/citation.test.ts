@@ -484,6 +484,21 @@ Numbered list:
       expect(result).toContain('3</sup>]()')
     })
 
+    it('should include the location of knowledge citations', () => {
+      const citation: Citation = {
+        number: 5,
+        url: 'http://file/report.pdf',
+        title: 'report.pdf',
+        type: 'knowledge',
+        metadata: { source: '/files/report.pdf', page: 12, type: 'PdfPageLoader' }
+      }
+
+      const result = generateCitationTag(citation)
+
+      expect(result).toContain('&quot;source&quot;:&quot;/files/report.pdf&quot;')
+      expect(result).toContain('&quot;location&quot;:{&quot;page&quot;:12}')
+    })
+
     it('should use hostname when title is missing', () => {
       const citation: Citation = {
         number: 4,
@@ -0,0 +1,84 @@
+import type { Model } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import { addCost, calculateUsageCost, formatCost, formatCosts, getMessageCost } from '../cost'
+
+const createModel = (pricing?: Model['pricing']): Model => ({
+  id: 'gpt-4o',
+  name: 'GPT-4o',
+  provider: 'openai',
+  group: 'gpt-4o',
+  pricing
+})
+
+describe('calculateUsageCost', () => {
+  it('returns undefined without pricing', () => {
+    const usage = { prompt_tokens: 100, completion_tokens: 100, total_tokens: 200 }
+    expect(calculateUsageCost(usage, createModel())).toBeUndefined()
+    expect(
+      calculateUsageCost(usage, createModel({ input_per_million_tokens: 0, output_per_million_tokens: 0 }))
+    ).toBeUndefined()
+    const model = createModel({ input_per_million_tokens: 1, output_per_million_tokens: 2 })
+    expect(calculateUsageCost(undefined, model)).toBeUndefined()
+  })
+
+  it('prices input and output tokens', () => {
+    const model = createModel({ input_per_million_tokens: 2, output_per_million_tokens: 8 })
+    const usage = { prompt_tokens: 1_000_000, completion_tokens: 500_000, total_tokens: 1_500_000 }
+    expect(calculateUsageCost(usage, model)).toBeCloseTo(6)
+  })
+
+  it('prices cached input and reasoning tokens separately', () => {
+    const model = createModel({
+      input_per_million_tokens: 2,
+      output_per_million_tokens: 8,
+      cached_input_per_million_tokens: 0.5,
+      reasoning_per_million_tokens: 10
+    })
+    const usage = {
+      prompt_tokens: 1_000_000,
+      completion_tokens: 1_000_000,
+      total_tokens: 2_000_000,
+      prompt_tokens_details: { cached_tokens: 400_000 },
+      completion_tokens_details: { reasoning_tokens: 500_000 }
+    }
+    // 0.6M * 2 + 0.4M * 0.5 + 0.5M * 8 + 0.5M * 10
+    expect(calculateUsageCost(usage, model)).toBeCloseTo(10.4)
+  })
+
+  it('falls back to regular prices for cached and reasoning tokens', () => {
+    const model = createModel({ input_per_million_tokens: 2, output_per_million_tokens: 8 })
+    const usage = {
+      prompt_tokens: 1_000_000,
+      completion_tokens: 1_000_000,
+      total_tokens: 2_000_000,
+      prompt_tokens_details: { cached_tokens: 400_000 },
+      thoughts_tokens: 500_000
+    }
+    expect(calculateUsageCost(usage, model)).toBeCloseTo(10)
+  })
+})
+
+describe('getMessageCost', () => {
+  it('prefers the cost recorded on the usage', () => {
+    const model = createModel({ input_per_million_tokens: 2, output_per_million_tokens: 8 })
+    expect(
+      getMessageCost({ model, usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20, cost: 0.5 } })
+    ).toBe(0.5)
+    expect(
+      getMessageCost({ model, usage: { prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 } })
+    ).toBeCloseTo(2)
+  })
+})
+
+describe('formatCosts', () => {
+  it('formats costs per currency', () => {
+    const costs: Record<string, number> = {}
+    addCost(costs, '$', 1.2)
+    addCost(costs, '$', 0.3)
+    addCost(costs, '¥', 3)
+    expect(formatCosts(costs)).toBe('$1.50 + ¥3.00')
+    expect(formatCosts({})).toBe('$0.00')
+    expect(formatCost(0.00123)).toBe('$0.0012')
+  })
+})
@@ -0,0 +1,117 @@
+import type { CreateMessageRequestParams, ElicitRequestFormParams } from '@modelcontextprotocol/sdk/types.js'
+import type { Model } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import {
+  buildElicitationContent,
+  findSamplingModel,
+  getElicitationDefaults,
+  getElicitationOptions,
+  samplingMessagesToModelMessages,
+  toSamplingStopReason
+} from '../mcp-client-requests'
+
+const createModel = (id: string): Model => ({ id, name: id, provider: 'openai', group: 'test' })
+
+describe('samplingMessagesToModelMessages', () => {
+  it('converts text, image and audio content', () => {
+    const messages = samplingMessagesToModelMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this' },
+          { type: 'image', data: 'aW1n', mimeType: 'image/png' },
+          { type: 'audio', data: 'YXVk', mimeType: 'audio/wav' }
+        ]
+      },
+      { role: 'assistant', content: { type: 'text', text: 'A cat' } }
+    ])
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this' },
+          { type: 'image', image: 'aW1n', mediaType: 'image/png' },
+          { type: 'file', data: 'YXVk', mediaType: 'audio/wav' }
+        ]
+      },
+      { role: 'assistant', content: 'A cat' }
+    ])
+  })
+
+  it('drops messages without supported content', () => {
+    expect(
+      samplingMessagesToModelMessages([
+        { role: 'assistant', content: { type: 'tool_use', id: '1', name: 'tool', input: {} } }
+      ])
+    ).toEqual([])
+  })
+})
+
+describe('findSamplingModel', () => {
+  const models = [createModel('gpt-4o-mini'), createModel('claude-3-5-sonnet')]
+  const params = (hints: string[]): CreateMessageRequestParams => ({
+    messages: [],
+    maxTokens: 100,
+    modelPreferences: { hints: hints.map((name) => ({ name })) }
+  })
+
+  it('uses the first hint that matches a model', () => {
+    expect(findSamplingModel(params(['gemini', 'sonnet', 'gpt']), models)?.id).toBe('claude-3-5-sonnet')
+  })
+
+  it('returns undefined without matching hints', () => {
+    expect(findSamplingModel(params(['gemini']), models)).toBeUndefined()
+    expect(findSamplingModel({ messages: [], maxTokens: 100 }, models)).toBeUndefined()
+  })
+})
+
+describe('elicitation forms', () => {
+  const params: ElicitRequestFormParams = {
+    message: 'Fill in',
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', default: 'Alice' },
+        age: { type: 'integer' },
+        color: { type: 'string', oneOf: [{ const: 'r', title: 'Red' }] },
+        size: { type: 'string', enum: ['s', 'm'], enumNames: ['Small', 'Medium'] },
+        subscribe: { type: 'boolean', default: false }
+      },
+      required: ['name']
+    }
+  }
+
+  it('reads defaults from the schema', () => {
+    expect(getElicitationDefaults(params)).toEqual({ name: 'Alice', subscribe: false })
+  })
+
+  it('lists enum options with their titles', () => {
+    const { color, size, name } = params.requestedSchema.properties
+    expect(getElicitationOptions(color)).toEqual([{ value: 'r', label: 'Red' }])
+    expect(getElicitationOptions(size)).toEqual([
+      { value: 's', label: 'Small' },
+      { value: 'm', label: 'Medium' }
+    ])
+    expect(getElicitationOptions(name)).toBeUndefined()
+  })
+
+  it('omits empty fields and coerces numbers', () => {
+    expect(buildElicitationContent(params, { name: 'Bob', age: '41.7' as any, color: '', subscribe: true })).toEqual({
+      name: 'Bob',
+      age: 41,
+      subscribe: true
+    })
+  })
+})
+
+describe('toSamplingStopReason', () => {
+  it('maps AI SDK finish reasons', () => {
+    expect(toSamplingStopReason('stop')).toBe('endTurn')
+    expect(toSamplingStopReason('length')).toBe('maxTokens')
+    expect(toSamplingStopReason('stop', { anthropic: { stopSequence: 'END' } })).toBe('stopSequence')
+    expect(toSamplingStopReason('stop', { anthropic: { stopSequence: null } })).toBe('endTurn')
+    expect(toSamplingStopReason(undefined)).toBe('endTurn')
+  })
+})
@@ -0,0 +1,93 @@
+import type { Assistant, MCPProfile, MCPServer, MCPTool } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import {
+  applyTopicMcpProfile,
+  exportMcpProfiles,
+  filterServersByProfile,
+  filterToolsByProfile,
+  importMcpProfiles,
+  resolveMcpProfile
+} from '../mcpProfile'
+
+const github = { id: 'srv-1', name: 'github', isActive: true } as MCPServer
+const files = { id: 'srv-2', name: 'files', isActive: true } as MCPServer
+
+const profile: MCPProfile = {
+  id: 'profile-1',
+  name: 'Research',
+  servers: [{ serverId: 'srv-1', enabledTools: ['search_issues'] }, { serverId: 'srv-2' }],
+  createdAt: 0,
+  updatedAt: 0
+}
+
+const tool = (serverId: string, name: string) => ({ id: `${serverId}__${name}`, name, serverId }) as MCPTool
+
+describe('mcpProfile', () => {
+  describe('resolveMcpProfile', () => {
+    it('returns the profile only in profile mode', () => {
+      const assistant = { mcpMode: 'profile', mcpProfileId: 'profile-1' } as Assistant
+      expect(resolveMcpProfile([profile], assistant)).toBe(profile)
+      expect(resolveMcpProfile([profile], { ...assistant, mcpMode: 'manual' })).toBeUndefined()
+      expect(resolveMcpProfile([], assistant)).toBeUndefined()
+    })
+  })
+
+  describe('applyTopicMcpProfile', () => {
+    it('switches the assistant to the topic profile', () => {
+      const assistant = { mcpMode: 'auto' } as Assistant
+      expect(applyTopicMcpProfile(assistant, { mcpProfileId: 'profile-1' }, [profile])).toMatchObject({
+        mcpMode: 'profile',
+        mcpProfileId: 'profile-1'
+      })
+    })
+
+    it('keeps the assistant settings when the topic profile was deleted', () => {
+      const assistant = { mcpMode: 'auto' } as Assistant
+      expect(applyTopicMcpProfile(assistant, { mcpProfileId: 'deleted' }, [profile])).toBe(assistant)
+      expect(applyTopicMcpProfile(assistant, undefined, [profile])).toBe(assistant)
+    })
+  })
+
+  describe('filtering', () => {
+    it('keeps profile servers and their enabled tools', () => {
+      const other = { id: 'srv-3', name: 'other', isActive: true } as MCPServer
+      expect(filterServersByProfile([github, files, other], profile)).toEqual([github, files])
+
+      const tools = [
+        tool('srv-1', 'search_issues'),
+        tool('srv-1', 'delete_repo'),
+        tool('srv-2', 'read_file'),
+        tool('srv-3', 'anything')
+      ]
+      expect(filterToolsByProfile(tools, profile).map((t) => t.id)).toEqual([
+        'srv-1__search_issues',
+        'srv-2__read_file'
+      ])
+    })
+  })
+
+  describe('export and import', () => {
+    it('matches servers by id, then by name, and drops unknown servers', () => {
+      const exported = exportMcpProfiles(
+        [{ ...profile, servers: [...profile.servers, { serverId: 'srv-9' }] }],
+        [github, files]
+      )
+      const renamed = { ...files, id: 'srv-20' }
+
+      const [imported] = importMcpProfiles(exported, [github, renamed])
+
+      expect(imported.id).not.toBe(profile.id)
+      expect(imported.name).toBe('Research')
+      expect(imported.servers).toEqual([
+        { serverId: 'srv-1', enabledTools: ['search_issues'] },
+        { serverId: 'srv-20', enabledTools: undefined }
+      ])
+    })
+
+    it('rejects content that is not a profile export', () => {
+      expect(() => importMcpProfiles('{"servers": []}', [github])).toThrow()
+      expect(() => importMcpProfiles('not json', [github])).toThrow()
+    })
+  })
+})
@@ -1,6 +1,6 @@
 import type { GroundingSupport } from '@google/genai'
 import type { Citation, WebSearchSource } from '@renderer/types'
-import { WEB_SEARCH_SOURCE } from '@renderer/types'
+import { getKnowledgeChunkLocation, WEB_SEARCH_SOURCE } from '@renderer/types'
 
 import { cleanMarkdownContent, encodeHTML } from './formats'
 
@@ -194,11 +194,14 @@ export function mapCitationMarksToTags(content: string, citationMap: Map<number,
  * @returns 渲染后的引用标签
  */
 export function generateCitationTag(citation: Citation): string {
+  // 知识库引用带上出处的页码/行号，用于在预览中定位
+  const location = citation.type === 'knowledge' ? getKnowledgeChunkLocation(citation.metadata) : undefined
   const supData = {
     id: citation.number,
     url: citation.url,
     title: citation.title || citation.hostname || '',
-    content: citation.content?.substring(0, 200)
+    content: citation.content?.substring(0, 200),
+    ...(location && { source: citation.metadata?.source, location })
   }
   const citationJson = encodeHTML(JSON.stringify(supData))
 
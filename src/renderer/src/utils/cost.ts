@@ -0,0 +1,71 @@
+import type { Model, Usage } from '@renderer/types'
+import type { Message } from '@renderer/types/newMessage'
+
+export const DEFAULT_CURRENCY_SYMBOL = '$'
+
+const TOKENS_PER_MILLION = 1_000_000
+
+/**
+ * Cost of a single request from the model's pricing, or undefined when the model has no prices.
+ *
+ * Cached input and reasoning tokens are counted as part of prompt and completion tokens. Without
+ * a dedicated price they are billed at the regular input and output prices.
+ */
+export function calculateUsageCost(usage: Usage | undefined, model: Model | undefined): number | undefined {
+  const pricing = model?.pricing
+  if (!usage || !pricing || (!pricing.input_per_million_tokens && !pricing.output_per_million_tokens)) {
+    return undefined
+  }
+
+  const promptTokens = Math.max(0, usage.prompt_tokens ?? 0)
+  const completionTokens = Math.max(0, usage.completion_tokens ?? 0)
+  const cachedTokens = Math.min(promptTokens, Math.max(0, usage.prompt_tokens_details?.cached_tokens ?? 0))
+  const reasoningTokens = Math.min(
+    completionTokens,
+    Math.max(0, usage.completion_tokens_details?.reasoning_tokens ?? usage.thoughts_tokens ?? 0)
+  )
+
+  const inputPrice = pricing.input_per_million_tokens ?? 0
+  const outputPrice = pricing.output_per_million_tokens ?? 0
+  const cachedInputPrice = pricing.cached_input_per_million_tokens ?? inputPrice
+  const reasoningPrice = pricing.reasoning_per_million_tokens ?? outputPrice
+
+  return (
+    ((promptTokens - cachedTokens) * inputPrice +
+      cachedTokens * cachedInputPrice +
+      (completionTokens - reasoningTokens) * outputPrice +
+      reasoningTokens * reasoningPrice) /
+    TOKENS_PER_MILLION
+  )
+}
+
+/**
+ * Cost recorded on the message, falling back to its model's current pricing for older messages.
+ */
+export function getMessageCost(message: Pick<Message, 'usage' | 'model'>): number | undefined {
+  return message.usage?.cost ?? calculateUsageCost(message.usage, message.model)
+}
+
+export function getCurrencySymbol(model?: Model): string {
+  return model?.pricing?.currencySymbol || DEFAULT_CURRENCY_SYMBOL
+}
+
+/** Adds an amount to a cost map keyed by currency symbol */
+export function addCost(costs: Record<string, number>, currencySymbol: string, amount: number): void {
+  costs[currencySymbol] = (costs[currencySymbol] ?? 0) + amount
+}
+
+export function formatCost(amount: number, currencySymbol: string = DEFAULT_CURRENCY_SYMBOL): string {
+  // 小额费用保留更多位数，避免显示为 0
+  const digits = amount !== 0 && Math.abs(amount) < 0.01 ? 4 : 2
+  return `${currencySymbol}${amount.toFixed(digits)}`
+}
+
+/** Formats a cost map keyed by currency symbol, e.g. "$1.20 + ¥3.00" */
+export function formatCosts(costs: Record<string, number>): string {
+  const entries = Object.entries(costs)
+  if (entries.length === 0) {
+    return formatCost(0)
+  }
+  return entries.map(([currencySymbol, amount]) => formatCost(amount, currencySymbol)).join(' + ')
+}
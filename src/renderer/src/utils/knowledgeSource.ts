@@ -0,0 +1,78 @@
+import { loggerService } from '@logger'
+import PdfPreviewPopup from '@renderer/components/Popups/PdfPreviewPopup'
+import TextFilePreviewPopup from '@renderer/components/Popups/TextFilePreview'
+import i18n from '@renderer/i18n'
+import store from '@renderer/store'
+import type { KnowledgeChunkLocation } from '@renderer/types'
+
+import { getFileExtension } from './file'
+
+const logger = loggerService.withContext('KnowledgeSource')
+
+// Stored files are cited as http://file/<id><ext>, see getKnowledgeSourceUrl
+const STORED_FILE_PREFIX = 'http://file/'
+
+/**
+ * 引用出处的可读描述，例如 "Chapter 3 · Page 12" 或 "Lines 10-24"
+ */
+export function formatChunkLocation(location: KnowledgeChunkLocation | undefined): string {
+  if (!location) {
+    return ''
+  }
+
+  const parts: string[] = []
+  if (location.chapter) {
+    parts.push(location.chapter)
+  }
+  if (location.page) {
+    parts.push(i18n.t('knowledge.location.page', { page: location.page }))
+  }
+  if (location.lineFrom) {
+    parts.push(
+      location.lineTo && location.lineTo !== location.lineFrom
+        ? i18n.t('knowledge.location.lines', { from: location.lineFrom, to: location.lineTo })
+        : i18n.t('knowledge.location.line', { line: location.lineFrom })
+    )
+  }
+  return parts.join(' · ')
+}
+
+/**
+ * 获取被引用文件的本地路径，网页来源返回 undefined
+ */
+export function resolveKnowledgeSourcePath(url: string | undefined, source: string | undefined): string | undefined {
+  if (url?.startsWith(STORED_FILE_PREFIX)) {
+    return `${store.getState().runtime.filesPath}/${url.slice(STORED_FILE_PREFIX.length)}`
+  }
+  if (source && !/^https?:\/\//.test(source)) {
+    return source
+  }
+  return undefined
+}
+
+/**
+ * 在内置预览中打开被引用的文件并定位到页/行；无法定位时使用系统默认程序打开
+ */
+export async function openKnowledgeSource(path: string, title: string, location?: KnowledgeChunkLocation) {
+  const ext = getFileExtension(path)
+
+  try {
+    if (location?.page && ext === '.pdf') {
+      await PdfPreviewPopup.show(path, title, location.page)
+      return
+    }
+
+    if (location?.lineFrom) {
+      // 与知识库加载器使用相同的方式读取文本，行号才能对应
+      const text = await window.api.file.readExternal(path, true)
+      const language = ext === '.docx' ? 'text' : ext.replace('.', '')
+      await TextFilePreviewPopup.show(text, title, language, location.lineFrom)
+      return
+    }
+
+    await window.api.file.openPath(path)
+  } catch (error) {
+    logger.error(`Error opening knowledge source ${path}:`, error as Error)
+    window.toast.error(i18n.t('files.preview.error'))
+  }
+}
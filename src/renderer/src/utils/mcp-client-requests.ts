@@ -0,0 +1,152 @@
+import type {
+  CreateMessageRequestParams,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  PrimitiveSchemaDefinition,
+  SamplingMessage,
+  SamplingMessageContentBlock
+} from '@modelcontextprotocol/sdk/types.js'
+import type { Model } from '@renderer/types'
+import type { FilePart, FinishReason, ImagePart, ModelMessage, ProviderMetadata, TextPart } from 'ai'
+
+function contentBlocks(message: SamplingMessage): SamplingMessageContentBlock[] {
+  return Array.isArray(message.content) ? message.content : [message.content]
+}
+
+/**
+ * 将 MCP sampling 消息转换为 AI SDK 消息
+ * 不支持工具调用相关的内容（客户端没有声明 sampling.tools），这些内容会被忽略
+ */
+export function samplingMessagesToModelMessages(messages: SamplingMessage[]): ModelMessage[] {
+  return messages.flatMap((message): ModelMessage[] => {
+    const blocks = contentBlocks(message)
+
+    if (message.role === 'assistant') {
+      const text = blocks
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text)
+        .join('\n')
+      return text ? [{ role: 'assistant', content: text }] : []
+    }
+
+    const parts: Array<TextPart | ImagePart | FilePart> = []
+    for (const block of blocks) {
+      if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text })
+      } else if (block.type === 'image') {
+        parts.push({ type: 'image', image: block.data, mediaType: block.mimeType })
+      } else if (block.type === 'audio') {
+        parts.push({ type: 'file', data: block.data, mediaType: block.mimeType })
+      }
+    }
+    return parts.length > 0 ? [{ role: 'user', content: parts }] : []
+  })
+}
+
+/**
+ * 将 AI SDK 的结束原因转换为 sampling 结果的 stopReason
+ * AI SDK 不区分正常结束和遇到停止序列，只有部分 provider（如 Anthropic）在 providerMetadata 中返回命中的停止序列
+ */
+export function toSamplingStopReason(
+  finishReason: FinishReason | undefined,
+  providerMetadata?: ProviderMetadata
+): CreateMessageResult['stopReason'] {
+  switch (finishReason) {
+    case 'length':
+      return 'maxTokens'
+    case 'stop':
+      return Object.values(providerMetadata ?? {}).some((metadata) => typeof metadata?.stopSequence === 'string')
+        ? 'stopSequence'
+        : 'endTurn'
+    default:
+      return finishReason ?? 'endTurn'
+  }
+}
+
+/**
+ * 用于在确认弹窗中展示的消息文本，非文本内容以占位符表示
+ */
+export function getSamplingMessageText(message: SamplingMessage): string {
+  return contentBlocks(message)
+    .map((block) => (block.type === 'text' ? block.text : `[${block.type}]`))
+    .join('\n')
+}
+
+/**
+ * 根据服务器的 modelPreferences.hints 选择模型，hint 是模型名称的子串，按顺序匹配
+ */
+export function findSamplingModel(params: CreateMessageRequestParams, models: Model[]): Model | undefined {
+  for (const hint of params.modelPreferences?.hints ?? []) {
+    const name = hint.name?.toLowerCase()
+    if (!name) {
+      continue
+    }
+    const model = models.find((m) => m.id.toLowerCase().includes(name) || m.name.toLowerCase().includes(name))
+    if (model) {
+      return model
+    }
+  }
+  return undefined
+}
+
+export type ElicitationFieldValue = string | number | boolean | string[]
+
+/**
+ * 表单的初始值，取自 schema 中的 default
+ */
+export function getElicitationDefaults(params: ElicitRequestFormParams): Record<string, ElicitationFieldValue> {
+  const values: Record<string, ElicitationFieldValue> = {}
+  for (const [key, field] of Object.entries(params.requestedSchema.properties)) {
+    if (field.default !== undefined) {
+      values[key] = field.default
+    }
+  }
+  return values
+}
+
+/**
+ * 字段的可选项，非枚举字段返回 undefined
+ */
+export function getElicitationOptions(
+  field: PrimitiveSchemaDefinition
+): { value: string; label: string }[] | undefined {
+  if ('oneOf' in field) {
+    return field.oneOf.map((option) => ({ value: option.const, label: option.title }))
+  }
+  if ('enum' in field) {
+    const names = 'enumNames' in field ? field.enumNames : undefined
+    return field.enum.map((value, index) => ({ value, label: names?.[index] ?? value }))
+  }
+  if (field.type === 'array') {
+    if ('anyOf' in field.items) {
+      return field.items.anyOf.map((option) => ({ value: option.const, label: option.title }))
+    }
+    return field.items.enum.map((value) => ({ value, label: value }))
+  }
+  return undefined
+}
+
+/**
+ * 去掉未填写的字段，并把数字字段转换为数字
+ */
+export function buildElicitationContent(
+  params: ElicitRequestFormParams,
+  values: Record<string, ElicitationFieldValue | null | undefined>
+): Record<string, ElicitationFieldValue> {
+  const content: Record<string, ElicitationFieldValue> = {}
+  for (const [key, field] of Object.entries(params.requestedSchema.properties)) {
+    const value = values[key]
+    if (value === undefined || value === null || value === '') {
+      continue
+    }
+    if ((field.type === 'number' || field.type === 'integer') && typeof value !== 'number') {
+      const parsed = Number(value)
+      if (!Number.isNaN(parsed)) {
+        content[key] = field.type === 'integer' ? Math.trunc(parsed) : parsed
+      }
+      continue
+    }
+    content[key] = value
+  }
+  return content
+}
@@ -0,0 +1,96 @@
+import type { Assistant, MCPProfile, MCPServer, MCPTool, Topic } from '@renderer/types'
+import { getEffectiveMcpMode } from '@renderer/types'
+import { v4 as uuidv4 } from 'uuid'
+import * as z from 'zod'
+
+const MCP_PROFILES_EXPORT_VERSION = 1
+
+const McpProfilesExportSchema = z.object({
+  version: z.number(),
+  profiles: z.array(
+    z.object({
+      name: z.string().min(1),
+      description: z.string().optional(),
+      servers: z.array(
+        z.object({
+          serverId: z.string(),
+          // 导出时附带服务器名称，导入到其他设备时按名称匹配
+          serverName: z.string().optional(),
+          enabledTools: z.array(z.string()).optional()
+        })
+      )
+    })
+  )
+})
+
+/** Profile of an assistant in 'profile' mode */
+export function resolveMcpProfile(profiles: MCPProfile[], assistant: Assistant): MCPProfile | undefined {
+  if (getEffectiveMcpMode(assistant) !== 'profile' || !assistant.mcpProfileId) {
+    return undefined
+  }
+  return profiles.find((profile) => profile.id === assistant.mcpProfileId)
+}
+
+/**
+ * A profile picked for the topic overrides the assistant's MCP settings, so the
+ * assistant is switched to that profile. Deleted profiles are ignored.
+ */
+export function applyTopicMcpProfile(
+  assistant: Assistant,
+  topic: Pick<Topic, 'mcpProfileId'> | undefined,
+  profiles: MCPProfile[]
+): Assistant {
+  const profile = topic?.mcpProfileId ? profiles.find((p) => p.id === topic.mcpProfileId) : undefined
+  return profile ? { ...assistant, mcpMode: 'profile', mcpProfileId: profile.id } : assistant
+}
+
+export function filterServersByProfile(servers: MCPServer[], profile: MCPProfile): MCPServer[] {
+  return servers.filter((server) => profile.servers.some((s) => s.serverId === server.id))
+}
+
+export function filterToolsByProfile(tools: MCPTool[], profile: MCPProfile): MCPTool[] {
+  return tools.filter((tool) => {
+    const entry = profile.servers.find((s) => s.serverId === tool.serverId)
+    return !!entry && (!entry.enabledTools?.length || entry.enabledTools.includes(tool.name))
+  })
+}
+
+export function exportMcpProfiles(profiles: MCPProfile[], servers: MCPServer[]): string {
+  return JSON.stringify(
+    {
+      version: MCP_PROFILES_EXPORT_VERSION,
+      profiles: profiles.map((profile) => ({
+        name: profile.name,
+        description: profile.description,
+        servers: profile.servers.map((entry) => ({
+          ...entry,
+          serverName: servers.find((server) => server.id === entry.serverId)?.name
+        }))
+      }))
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Parse exported profiles. Servers are matched by id first and then by name, servers
+ * missing on this device are dropped. Throws when the content is not a profile export.
+ */
+export function importMcpProfiles(content: string, servers: MCPServer[]): MCPProfile[] {
+  const data = McpProfilesExportSchema.parse(JSON.parse(content))
+  const now = Date.now()
+
+  return data.profiles.map((profile) => ({
+    id: uuidv4(),
+    name: profile.name,
+    description: profile.description,
+    servers: profile.servers.flatMap(({ serverId, serverName, enabledTools }) => {
+      const server =
+        servers.find((s) => s.id === serverId) ?? (serverName ? servers.find((s) => s.name === serverName) : undefined)
+      return server ? [{ serverId: server.id, enabledTools }] : []
+    }),
+    createdAt: now,
+    updatedAt: now
+  }))
+}
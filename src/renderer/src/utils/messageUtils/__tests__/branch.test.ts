@@ -0,0 +1,117 @@
+import type { Message } from '@renderer/types/newMessage'
+import { AssistantMessageStatus, UserMessageStatus } from '@renderer/types/newMessage'
+import { describe, expect, it } from 'vitest'
+
+import { buildMessageTree, getActiveLeafId, getMessageBranch, getMessageParentId } from '../branch'
+
+let clock = 0
+
+const user = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  role: 'user',
+  assistantId: 'assistant',
+  topicId: 'topic',
+  createdAt: new Date(++clock * 1000).toISOString(),
+  status: UserMessageStatus.SUCCESS,
+  blocks: [],
+  ...overrides
+})
+
+const reply = (id: string, askId: string, overrides: Partial<Message> = {}): Message => ({
+  ...user(id, overrides),
+  role: 'assistant',
+  askId,
+  status: AssistantMessageStatus.SUCCESS,
+  ...overrides
+})
+
+const ids = (messages: Message[]) => messages.map((m) => m.id)
+
+describe('buildMessageTree', () => {
+  it('should keep legacy topics without parent links as a single path', () => {
+    const messages = [user('u1'), reply('a1', 'u1'), user('u2'), reply('a2', 'u2')]
+
+    const tree = buildMessageTree(messages)
+
+    expect(ids(tree.activeMessages)).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(tree.siblingsById).toEqual({})
+  })
+
+  it('should follow the newest branch at a fork and list its siblings', () => {
+    const messages = [
+      user('u1'),
+      reply('a1', 'u1'),
+      user('u2'),
+      reply('a2', 'u2'),
+      user('u3'),
+      reply('a3', 'u3'),
+      user('u2-edit', { parentId: 'a1' }),
+      reply('a2-edit', 'u2-edit')
+    ]
+
+    const tree = buildMessageTree(messages)
+
+    expect(ids(tree.activeMessages)).toEqual(['u1', 'a1', 'u2-edit', 'a2-edit'])
+    expect(ids(tree.siblingsById['u2-edit'])).toEqual(['u2', 'u2-edit'])
+  })
+
+  it('should follow the branch that was switched to last', () => {
+    const messages = [
+      user('u1'),
+      reply('a1', 'u1'),
+      user('u2'),
+      reply('a2', 'u2'),
+      user('u3'),
+      user('u2-edit', { parentId: 'a1' }),
+      reply('a2-edit', 'u2-edit')
+    ]
+    messages[2] = { ...messages[2], branchSelectedAt: new Date(++clock * 1000).toISOString() }
+
+    const tree = buildMessageTree(messages)
+
+    expect(ids(tree.activeMessages)).toEqual(['u1', 'a1', 'u2', 'a2', 'u3'])
+    expect(ids(tree.siblingsById.u2)).toEqual(['u2', 'u2-edit'])
+  })
+
+  it('should support forks at the first message', () => {
+    const messages = [user('u1'), reply('a1', 'u1'), user('u1-edit', { parentId: null }), reply('a1-edit', 'u1-edit')]
+
+    const tree = buildMessageTree(messages)
+
+    expect(ids(tree.activeMessages)).toEqual(['u1-edit', 'a1-edit'])
+    expect(ids(tree.siblingsById['u1-edit'])).toEqual(['u1', 'u1-edit'])
+  })
+
+  it('should keep multi-model responses of a turn together', () => {
+    const messages = [user('u1'), reply('a1-gpt', 'u1'), reply('a1-claude', 'u1'), user('u2', { parentId: 'a1-gpt' })]
+
+    expect(ids(buildMessageTree(messages).activeMessages)).toEqual(['u1', 'a1-gpt', 'a1-claude', 'u2'])
+  })
+})
+
+describe('getMessageBranch', () => {
+  it('should return the path leading to a message even if another branch is active', () => {
+    const messages = [
+      user('u1'),
+      reply('a1', 'u1'),
+      user('u2'),
+      reply('a2', 'u2'),
+      user('u2-edit', { parentId: 'a1' }),
+      reply('a2-edit', 'u2-edit')
+    ]
+
+    expect(ids(getMessageBranch(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(ids(getMessageBranch(messages, 'a2-edit'))).toEqual(['u1', 'a1', 'u2-edit', 'a2-edit'])
+  })
+})
+
+describe('parent helpers', () => {
+  it('should resolve parents of legacy messages from their position', () => {
+    const messages = [user('u1'), reply('a1', 'u1'), user('u2')]
+
+    expect(getMessageParentId(messages, messages[0])).toBeNull()
+    expect(getMessageParentId(messages, messages[2])).toBe('a1')
+    expect(getActiveLeafId(messages)).toBe('u2')
+    expect(getActiveLeafId([])).toBeNull()
+  })
+})
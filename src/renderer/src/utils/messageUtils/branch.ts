@@ -0,0 +1,122 @@
+import type { Message } from '@renderer/types/newMessage'
+
+/**
+ * 话题内的对话树。
+ *
+ * 树的节点是"轮次"：一条用户消息及回复它的所有助手消息（askId 相同）。
+ * 用户消息的 parentId 指向上一轮中的某条消息，同一父节点下的多条用户消息互为兄弟分支，
+ * 编辑用户消息或重新生成回复都会新增一个兄弟分支。
+ * parentId 为 null 表示位于根部；没有 parentId 的旧消息视为列表中前一条消息的后继，因此旧话题仍是一条直线。
+ */
+export interface MessageTree {
+  // 当前路径上的消息，保持原有顺序
+  activeMessages: Message[]
+  // 路径上处于分叉处的用户消息 ID -> 该分叉的所有兄弟分支（按创建顺序）
+  siblingsById: Record<string, Message[]>
+}
+
+const ROOT = ''
+
+const getBranchTime = (message: Message) => message.branchSelectedAt ?? message.createdAt
+
+/**
+ * 消息所在轮次的首条消息 ID：助手消息归属于它回复的用户消息
+ */
+function getTurnIdResolver(messages: Message[]) {
+  const ids = new Set(messages.map((m) => m.id))
+  return (message: Message) =>
+    message.role === 'assistant' && message.askId && ids.has(message.askId) ? message.askId : message.id
+}
+
+function collectTurns(messages: Message[]) {
+  const getTurnId = getTurnIdResolver(messages)
+  const turnIdByMessageId = new Map<string, string>()
+  messages.forEach((message) => turnIdByMessageId.set(message.id, getTurnId(message)))
+
+  const childrenByParent = new Map<string, Message[]>()
+  messages.forEach((message, index) => {
+    if (turnIdByMessageId.get(message.id) !== message.id) {
+      return
+    }
+
+    let parentTurnId = ROOT
+    if (message.parentId && turnIdByMessageId.has(message.parentId)) {
+      parentTurnId = turnIdByMessageId.get(message.parentId)!
+    } else if (message.parentId !== null && index > 0) {
+      parentTurnId = turnIdByMessageId.get(messages[index - 1].id)!
+    }
+
+    const children = childrenByParent.get(parentTurnId) ?? []
+    children.push(message)
+    childrenByParent.set(parentTurnId, children)
+  })
+
+  return { turnIdByMessageId, childrenByParent }
+}
+
+function pickActive(siblings: Message[]): Message {
+  // 最近被切换到（或最新创建）的分支为当前分支，时间相同取列表中靠后的
+  return siblings.reduce((active, sibling) => (getBranchTime(sibling) >= getBranchTime(active) ? sibling : active))
+}
+
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const { turnIdByMessageId, childrenByParent } = collectTurns(messages)
+  const activeTurns = new Set<string>()
+  const siblingsById: Record<string, Message[]> = {}
+
+  let children = childrenByParent.get(ROOT)
+  while (children?.length) {
+    const active = pickActive(children)
+    if (activeTurns.has(active.id)) {
+      break
+    }
+    activeTurns.add(active.id)
+    if (children.length > 1) {
+      siblingsById[active.id] = children
+    }
+    children = childrenByParent.get(active.id)
+  }
+
+  return {
+    activeMessages: messages.filter((message) => activeTurns.has(turnIdByMessageId.get(message.id)!)),
+    siblingsById
+  }
+}
+
+/**
+ * 从根到指定消息所在轮次的整条路径上的消息，用于构建该消息的上下文
+ */
+export function getMessageBranch(messages: Message[], messageId: string): Message[] {
+  const { turnIdByMessageId, childrenByParent } = collectTurns(messages)
+  const parentByTurn = new Map<string, string>()
+  childrenByParent.forEach((children, parentTurnId) => {
+    children.forEach((child) => parentByTurn.set(child.id, parentTurnId))
+  })
+
+  const pathTurns = new Set<string>()
+  let turnId = turnIdByMessageId.get(messageId)
+  while (turnId && turnId !== ROOT && !pathTurns.has(turnId)) {
+    pathTurns.add(turnId)
+    turnId = parentByTurn.get(turnId)
+  }
+
+  return messages.filter((message) => pathTurns.has(turnIdByMessageId.get(message.id)!))
+}
+
+/**
+ * 新消息在当前路径末尾继续对话时使用的 parentId
+ */
+export function getActiveLeafId(messages: Message[]): string | null {
+  return buildMessageTree(messages).activeMessages.at(-1)?.id ?? null
+}
+
+/**
+ * 用户消息在对话树中的父消息 ID，兼容没有 parentId 的旧消息
+ */
+export function getMessageParentId(messages: Message[], message: Message): string | null {
+  if (message.parentId !== undefined) {
+    return message.parentId
+  }
+  const index = messages.findIndex((m) => m.id === message.id)
+  return index > 0 ? messages[index - 1].id : null
+}
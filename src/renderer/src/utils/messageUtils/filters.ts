@@ -12,11 +12,11 @@ import { isEmpty } from 'lodash'
 // const logger = loggerService.withContext('Utils.filter')
 
 /**
- * Filters out messages of type '@' or 'clear' and messages without main text content.
+ * Filters out messages of type '@', 'clear' or 'compact' and messages without main text content.
  */
 export const filterMessages = (messages: Message[]) => {
   return messages
-    .filter((message) => !['@', 'clear'].includes(message.type!))
+    .filter((message) => !['@', 'clear', 'compact'].includes(message.type!))
     .filter((message) => {
       const state = store.getState()
       const mainTextBlock = message.blocks
@@ -39,6 +39,25 @@ export function filterAfterContextClearMessages(messages: Message[]): Message[]
   return messages.slice(clearIndex + 1)
 }
 
+/**
+ * Finds the last context summary ('compact' type) message whose folded messages are still in the list.
+ */
+export function findContextCompactMessage(messages: Message[]): Message | undefined {
+  const ids = new Set(messages.map((message) => message.id))
+  return messages.findLast(
+    (message) => message.type === 'compact' && !!message.compactedUntilId && ids.has(message.compactedUntilId)
+  )
+}
+
+/**
+ * Filters out messages folded into the last context summary, together with the summary messages themselves.
+ */
+export function filterAfterContextCompactMessages(messages: Message[]): Message[] {
+  const compactMessage = findContextCompactMessage(messages)
+  const startIndex = compactMessage ? messages.findIndex((m) => m.id === compactMessage.compactedUntilId) + 1 : 0
+  return messages.slice(startIndex).filter((message) => message.type !== 'compact')
+}
+
 /**
  * Filters messages to start from the first message with role 'user'.
  */
@@ -225,7 +244,7 @@ export function filterErrorOnlyMessagesWithRelated(messages: Message[]): Message
 export function filterContextMessages(messages: Message[], contextCount: number): Message[] {
   // NOTE: 和 fetchCompletions 中过滤消息的逻辑相同。
   // 按理说 fetchCompletions 也可以复用这个函数，不过 fetchCompletions 不敢随便乱改，后面再考虑重构吧
-  const afterContextClearMsgs = filterAfterContextClearMessages(messages)
+  const afterContextClearMsgs = filterAfterContextCompactMessages(filterAfterContextClearMessages(messages))
   const usefulMsgs = filterUsefulMessages(afterContextClearMsgs)
   const adjacentRemovedMsgs = filterAdjacentUserMessaegs(usefulMsgs)
   const filteredMessages = filterUserRoleStartMessages(
@@ -0,0 +1,50 @@
+/// <reference lib="webworker" />
+
+import { loggerService } from '@logger'
+
+// 注意保持 TokenizerRegistry 依赖简单，避免打包出问题
+import type { TokenizerFamily } from '../services/TokenizerRegistry'
+import { countTokens } from '../services/TokenizerRegistry'
+
+const logger = loggerService.initWindowSource('Worker').withContext('Tokenizer')
+
+interface WorkerRequest {
+  id: number
+  type: 'count'
+  family: TokenizerFamily
+  texts: string[]
+}
+
+interface WorkerResponse {
+  id: number
+  type: string
+  result?: number[]
+  error?: string
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, type, family, texts } = event.data
+
+  try {
+    switch (type) {
+      case 'count': {
+        const result: number[] = []
+        for (const text of texts) {
+          result.push(await countTokens(text, family))
+        }
+        self.postMessage({ id, type: 'count-result', result } satisfies WorkerResponse)
+        break
+      }
+
+      default:
+        throw new Error(`Unknown command: ${type}`)
+    }
+  } catch (error) {
+    logger.error('Failed to count tokens:', error as Error)
+    self.postMessage({
+      id,
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    } satisfies WorkerResponse)
+  }
+}